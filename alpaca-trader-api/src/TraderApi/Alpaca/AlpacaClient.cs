@@ -15,6 +15,8 @@ public interface IAlpacaClient
     Task<List<AlpacaPosition>> GetPositionsAsync(string apiKeyId, string apiSecret, string? brokerAccountId = null);
     Task<List<AlpacaOrder>> GetOrdersAsync(string apiKeyId, string apiSecret, string? status = null, int? limit = null, string? brokerAccountId = null);
     Task<AlpacaOrder> CreateOrderAsync(string apiKeyId, string apiSecret, AlpacaOrderRequest request, string? brokerAccountId = null);
+    Task<AlpacaOrder?> GetOrderAsync(string apiKeyId, string apiSecret, string orderId, string? brokerAccountId = null);
+    Task<AlpacaOrder?> ReplaceOrderAsync(string apiKeyId, string apiSecret, string orderId, AlpacaReplaceOrderRequest request, string? brokerAccountId = null);
     Task<bool> CancelOrderAsync(string apiKeyId, string apiSecret, string orderId, string? brokerAccountId = null);
     Task<Dictionary<string, AlpacaQuote>> GetLatestQuotesAsync(string apiKeyId, string apiSecret, List<string> symbols);
     Task<List<BrokerAccount>> GetBrokerAccountsAsync(string apiKeyId, string apiSecret);
@@ -204,6 +206,67 @@ public class AlpacaClient : IAlpacaClient
         return JsonSerializer.Deserialize<AlpacaOrder>(responseJson, AlpacaJsonOptions.Default)!;
     }
 
+    public async Task<AlpacaOrder?> GetOrderAsync(string apiKeyId, string apiSecret, string orderId, string? brokerAccountId = null)
+    {
+        SetAuthHeaders(apiKeyId, apiSecret);
+        
+        string endpoint;
+        if (IsBrokerApi() && !string.IsNullOrEmpty(brokerAccountId))
+        {
+            endpoint = $"/v1/trading/accounts/{brokerAccountId}/orders/{orderId}";
+        }
+        else
+        {
+            endpoint = $"/v2/orders/{orderId}";
+        }
+        
+        var response = await _retryPolicy.ExecuteAsync(async () => 
+            await _httpClient.GetAsync(endpoint));
+        
+        if (response.StatusCode == HttpStatusCode.NotFound)
+            return null;
+            
+        response.EnsureSuccessStatusCode();
+        
+        var json = await response.Content.ReadAsStringAsync();
+        return JsonSerializer.Deserialize<AlpacaOrder>(json, AlpacaJsonOptions.Default);
+    }
+
+    public async Task<AlpacaOrder?> ReplaceOrderAsync(string apiKeyId, string apiSecret, string orderId, AlpacaReplaceOrderRequest request, string? brokerAccountId = null)
+    {
+        SetAuthHeaders(apiKeyId, apiSecret);
+        
+        var json = JsonSerializer.Serialize(request, AlpacaJsonOptions.Default);
+        
+        string endpoint;
+        if (IsBrokerApi() && !string.IsNullOrEmpty(brokerAccountId))
+        {
+            endpoint = $"/v1/trading/accounts/{brokerAccountId}/orders/{orderId}";
+        }
+        else
+        {
+            endpoint = $"/v2/orders/{orderId}";
+        }
+        
+        var response = await _retryPolicy.ExecuteAsync(async () => 
+            await _httpClient.PatchAsync(endpoint, new StringContent(json, Encoding.UTF8, "application/json")));
+        
+        if (response.StatusCode == HttpStatusCode.NotFound)
+            return null;
+        
+        // 422 when the order is already filled, canceled or otherwise not replaceable
+        if (response.StatusCode == HttpStatusCode.UnprocessableEntity)
+        {
+            var error = await response.Content.ReadAsStringAsync();
+            throw new InvalidOperationException($"Order {orderId} can't be replaced: {error}");
+        }
+        
+        response.EnsureSuccessStatusCode();
+        
+        var responseJson = await response.Content.ReadAsStringAsync();
+        return JsonSerializer.Deserialize<AlpacaOrder>(responseJson, AlpacaJsonOptions.Default);
+    }
+
     public async Task<bool> CancelOrderAsync(string apiKeyId, string apiSecret, string orderId, string? brokerAccountId = null)
     {
         SetAuthHeaders(apiKeyId, apiSecret);
@@ -166,11 +166,57 @@ public class AlpacaOrderRequest
     [JsonPropertyName("stop_price")]
     public decimal? StopPrice { get; set; }
     
+    [JsonPropertyName("trail_price")]
+    public decimal? TrailPrice { get; set; }
+    
+    [JsonPropertyName("trail_percent")]
+    public decimal? TrailPercent { get; set; }
+    
     [JsonPropertyName("client_order_id")]
     public string ClientOrderId { get; set; } = default!;
     
     [JsonPropertyName("extended_hours")]
     public bool? ExtendedHours { get; set; }
+    
+    [JsonPropertyName("order_class")]
+    public string? OrderClass { get; set; }
+    
+    [JsonPropertyName("take_profit")]
+    public AlpacaTakeProfit? TakeProfit { get; set; }
+    
+    [JsonPropertyName("stop_loss")]
+    public AlpacaStopLoss? StopLoss { get; set; }
+}
+
+public class AlpacaTakeProfit
+{
+    [JsonPropertyName("limit_price")]
+    public decimal LimitPrice { get; set; }
+}
+
+public class AlpacaStopLoss
+{
+    [JsonPropertyName("stop_price")]
+    public decimal StopPrice { get; set; }
+    
+    [JsonPropertyName("limit_price")]
+    public decimal? LimitPrice { get; set; }
+}
+
+// Body for PATCH /v2/orders/{id}; omitted fields keep their current values
+public class AlpacaReplaceOrderRequest
+{
+    [JsonPropertyName("qty")]
+    public decimal? Qty { get; set; }
+    
+    [JsonPropertyName("limit_price")]
+    public decimal? LimitPrice { get; set; }
+    
+    [JsonPropertyName("stop_price")]
+    public decimal? StopPrice { get; set; }
+    
+    [JsonPropertyName("time_in_force")]
+    public string? TimeInForce { get; set; }
 }
 
 public class AlpacaQuote
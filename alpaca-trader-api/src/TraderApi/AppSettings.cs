@@ -12,6 +12,7 @@ public class AppSettings
     public RateLimitSettings RateLimit { get; set; } = new();
     public RiskSettings Risk { get; set; } = new();
     public AlphaVantageSettings AlphaVantage { get; set; } = new();
+    public ChartWorkspaceSettings ChartWorkspaces { get; set; } = new();
 }
 
 public class ConnectionStrings
@@ -82,4 +83,9 @@ public class AlphaVantageSettings
     public string ApiKey { get; set; } = "";
     public string BaseUrl { get; set; } = "https://www.alphavantage.co/query";
     public int RateLimitPerMinute { get; set; } = 5;  // Free tier: 5 requests per minute
-}
\ No newline at end of file
+}
+
+public class ChartWorkspaceSettings
+{
+    public long QuotaBytesPerUser { get; set; } = 5 * 1024 * 1024; // Drawings and settings across all symbols
+}
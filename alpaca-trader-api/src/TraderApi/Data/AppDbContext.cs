@@ -21,6 +21,7 @@ public class AppDbContext : DbContext
     public DbSet<VideoInteraction> VideoInteractions => Set<VideoInteraction>();
     public DbSet<CreatorFollow> CreatorFollows => Set<CreatorFollow>();
     public DbSet<UserSymbolInterest> UserSymbolInterests => Set<UserSymbolInterest>();
+    public DbSet<ChartWorkspace> ChartWorkspaces => Set<ChartWorkspace>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -219,5 +220,18 @@ public class AppDbContext : DbContext
                 .HasForeignKey(e => e.UserId)
                 .OnDelete(DeleteBehavior.Cascade);
         });
+
+        // ChartWorkspace
+        modelBuilder.Entity<ChartWorkspace>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => new { e.UserId, e.Symbol }).IsUnique();
+            entity.Property(e => e.Symbol).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.DataJson).IsRequired();
+            entity.HasOne(e => e.User)
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
     }
 }
\ No newline at end of file
@@ -70,7 +70,7 @@ public class OrderLocalAudit
     public string Symbol { get; set; } = default!;
     public decimal Qty { get; set; }
     public decimal? LimitPrice { get; set; }
-    public string Type { get; set; } = default!; // market or limit
+    public string Type { get; set; } = default!; // market, limit, stop, stop_limit or trailing_stop
     public string TimeInForce { get; set; } = default!; // day, gtc, etc
     public string Status { get; set; } = default!;
     public string? AlpacaOrderId { get; set; }
@@ -177,5 +177,20 @@ public class UserSymbolInterest
     public DateTime CreatedAt { get; set; }
     public DateTime UpdatedAt { get; set; }
     
+    public User User { get; set; } = default!;
+}
+
+public class ChartWorkspace
+{
+    public Guid Id { get; set; }
+    public Guid UserId { get; set; }
+    public string Symbol { get; set; } = default!;
+    public string DataJson { get; set; } = default!; // The client's chart data for the symbol, stored as sent
+    public long LastModified { get; set; } // Client timestamp (ms) of the last edit, used for conflict checks
+    public int Version { get; set; } = 1;
+    public int SizeBytes { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+    
     public User User { get; set; } = default!;
 }
\ No newline at end of file
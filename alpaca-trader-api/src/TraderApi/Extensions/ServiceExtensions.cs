@@ -11,6 +11,7 @@ using TraderApi.Alpaca;
 using TraderApi.Data;
 using TraderApi.Features.Accounts;
 using TraderApi.Features.Alerts;
+using TraderApi.Features.ChartWorkspaces;
 using TraderApi.Features.Orders;
 using TraderApi.Features.Orders.Risk;
 using TraderApi.Features.Positions;
@@ -34,6 +35,7 @@ public static class ServiceExtensions
         services.AddSingleton(appSettings.Risk);
         services.AddSingleton(appSettings.Webhook);
         services.AddSingleton(appSettings.Notifications.Smtp);
+        services.AddSingleton(appSettings.ChartWorkspaces);
 
         // Database
         services.AddDbContext<AppDbContext>(options =>
@@ -67,6 +69,7 @@ public static class ServiceExtensions
         services.AddScoped<IAlertsService, AlertsService>();
         services.AddScoped<TraderApi.Features.Assets.IAssetValidationService, TraderApi.Features.Assets.AssetValidationService>();
         services.AddScoped<ILayoutsService, LayoutsService>();
+        services.AddScoped<IChartWorkspacesService, ChartWorkspacesService>();
         
         // Video Services
         services.AddScoped<IServiceAuthenticationService, ServiceAuthenticationService>();
@@ -0,0 +1,137 @@
+using System.Security.Claims;
+using Microsoft.EntityFrameworkCore;
+using TraderApi.Features.Auth.Data;
+
+namespace TraderApi.Features.ChartWorkspaces;
+
+public static class ChartWorkspacesEndpoints
+{
+    public static void MapChartWorkspacesEndpoints(this IEndpointRouteBuilder routes)
+    {
+        var group = routes.MapGroup("/api/chart-workspaces")
+            .WithTags("Chart Workspaces")
+            .RequireAuthorization()
+            .WithOpenApi();
+
+        group.MapGet("/", GetWorkspaces)
+            .WithName("GetChartWorkspaces")
+            .WithSummary("List the current user's chart workspaces and storage quota")
+            .Produces<ChartWorkspaceListDto>();
+
+        group.MapGet("/{symbol}", GetWorkspace)
+            .WithName("GetChartWorkspace")
+            .WithSummary("Get the chart workspace for a symbol")
+            .Produces(200)
+            .Produces(404);
+
+        group.MapPut("/{symbol}", SaveWorkspace)
+            .WithName("SaveChartWorkspace")
+            .WithSummary("Save the chart workspace for a symbol if the stored copy is still baseLastModified")
+            .Produces(200)
+            .Produces(400)
+            .Produces(409)
+            .Produces(413);
+
+        group.MapDelete("/{symbol}", DeleteWorkspace)
+            .WithName("DeleteChartWorkspace")
+            .WithSummary("Delete the chart workspace for a symbol")
+            .Produces(204)
+            .Produces(404);
+    }
+
+    private static async Task<IResult> GetWorkspaces(
+        IChartWorkspacesService workspacesService,
+        AuthDbContext authDb,
+        ClaimsPrincipal user)
+    {
+        var userId = await GetUserIdAsync(authDb, user);
+        var workspaces = await workspacesService.GetWorkspacesAsync(userId);
+        return Results.Ok(workspaces);
+    }
+
+    private static async Task<IResult> GetWorkspace(
+        string symbol,
+        IChartWorkspacesService workspacesService,
+        AuthDbContext authDb,
+        ClaimsPrincipal user)
+    {
+        try
+        {
+            var userId = await GetUserIdAsync(authDb, user);
+            var workspace = await workspacesService.GetWorkspaceAsync(userId, symbol);
+            if (workspace == null) return Results.NotFound();
+            return Results.Ok(workspace.Value);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { error = ex.Message });
+        }
+    }
+
+    private static async Task<IResult> SaveWorkspace(
+        string symbol,
+        SaveChartWorkspaceRequest request,
+        IChartWorkspacesService workspacesService,
+        AuthDbContext authDb,
+        ClaimsPrincipal user)
+    {
+        try
+        {
+            var userId = await GetUserIdAsync(authDb, user);
+            var result = await workspacesService.SaveWorkspaceAsync(userId, symbol, request);
+
+            return result.Status switch
+            {
+                SaveChartWorkspaceStatus.Conflict => Results.Conflict(new { current = result.Current }),
+                SaveChartWorkspaceStatus.QuotaExceeded => Results.Json(
+                    new { error = "Chart workspace storage quota exceeded", quota = result.Quota },
+                    statusCode: StatusCodes.Status413PayloadTooLarge),
+                _ => Results.Ok(new { lastModified = result.LastModified, quota = result.Quota })
+            };
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { error = ex.Message });
+        }
+    }
+
+    private static async Task<IResult> DeleteWorkspace(
+        string symbol,
+        IChartWorkspacesService workspacesService,
+        AuthDbContext authDb,
+        ClaimsPrincipal user)
+    {
+        try
+        {
+            var userId = await GetUserIdAsync(authDb, user);
+            var deleted = await workspacesService.DeleteWorkspaceAsync(userId, symbol);
+            if (!deleted) return Results.NotFound();
+            return Results.NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Results.BadRequest(new { error = ex.Message });
+        }
+    }
+
+    private static async Task<Guid> GetUserIdAsync(AuthDbContext authDb, ClaimsPrincipal user)
+    {
+        var sub = user.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(sub))
+            throw new UnauthorizedAccessException("User ID not found in token");
+
+        if (Guid.TryParse(sub, out var userId))
+            return userId;
+
+        // For non-GUID subs, look up the user by email
+        var email = user.FindFirst(ClaimTypes.Email)?.Value;
+        var authUser = await authDb.Users
+            .AsNoTracking()
+            .FirstOrDefaultAsync(u => u.Email == email);
+
+        if (authUser == null)
+            throw new InvalidOperationException("User not found");
+
+        return authUser.Id;
+    }
+}
@@ -0,0 +1,258 @@
+using System.Text;
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using TraderApi.Data;
+
+namespace TraderApi.Features.ChartWorkspaces;
+
+public interface IChartWorkspacesService
+{
+    Task<ChartWorkspaceListDto> GetWorkspacesAsync(Guid userId);
+    Task<JsonElement?> GetWorkspaceAsync(Guid userId, string symbol);
+    Task<SaveChartWorkspaceResult> SaveWorkspaceAsync(Guid userId, string symbol, SaveChartWorkspaceRequest request);
+    Task<bool> DeleteWorkspaceAsync(Guid userId, string symbol);
+}
+
+/// <summary>
+/// Per-user copies of the chart workspaces (drawings and chart settings) the client keeps for each symbol.
+/// The data is stored as the client sends it; saves only go through while the stored copy is the one
+/// the client last synced, so edits from two devices are never silently overwritten.
+/// </summary>
+public class ChartWorkspacesService : IChartWorkspacesService
+{
+    private const int MaxSymbolLength = 20;
+
+    private readonly AppDbContext _db;
+    private readonly ChartWorkspaceSettings _settings;
+    private readonly ILogger<ChartWorkspacesService> _logger;
+
+    public ChartWorkspacesService(AppDbContext db, ChartWorkspaceSettings settings, ILogger<ChartWorkspacesService> logger)
+    {
+        _db = db;
+        _settings = settings;
+        _logger = logger;
+    }
+
+    public async Task<ChartWorkspaceListDto> GetWorkspacesAsync(Guid userId)
+    {
+        var workspaces = await _db.ChartWorkspaces
+            .AsNoTracking()
+            .Where(w => w.UserId == userId)
+            .OrderBy(w => w.Symbol)
+            .Select(w => new { w.Symbol, w.LastModified, w.Version, w.SizeBytes })
+            .ToListAsync();
+
+        return new ChartWorkspaceListDto
+        {
+            Workspaces = workspaces
+                .Select(w => new ChartWorkspaceSummaryDto { Symbol = w.Symbol, LastModified = w.LastModified, Version = w.Version })
+                .ToList(),
+            Quota = new ChartWorkspaceQuotaDto
+            {
+                UsedBytes = workspaces.Sum(w => (long)w.SizeBytes),
+                LimitBytes = _settings.QuotaBytesPerUser,
+                WorkspaceCount = workspaces.Count
+            }
+        };
+    }
+
+    public async Task<JsonElement?> GetWorkspaceAsync(Guid userId, string symbol)
+    {
+        var normalizedSymbol = NormalizeSymbol(symbol);
+        var workspace = await _db.ChartWorkspaces
+            .AsNoTracking()
+            .FirstOrDefaultAsync(w => w.UserId == userId && w.Symbol == normalizedSymbol);
+
+        return workspace == null ? null : ParseData(workspace.DataJson);
+    }
+
+    public async Task<SaveChartWorkspaceResult> SaveWorkspaceAsync(Guid userId, string symbol, SaveChartWorkspaceRequest request)
+    {
+        var normalizedSymbol = NormalizeSymbol(symbol);
+        if (request.Data.ValueKind != JsonValueKind.Object)
+        {
+            throw new InvalidOperationException("Chart workspace data must be an object");
+        }
+        if (!request.Data.TryGetProperty("lastModified", out var lastModifiedValue) || !lastModifiedValue.TryGetInt64(out var lastModified))
+        {
+            throw new InvalidOperationException("Chart workspace data must have a numeric lastModified");
+        }
+        var version = request.Data.TryGetProperty("version", out var versionValue) && versionValue.TryGetInt32(out var parsedVersion)
+            ? parsedVersion
+            : 1;
+
+        var dataJson = request.Data.GetRawText();
+        var sizeBytes = Encoding.UTF8.GetByteCount(dataJson);
+
+        var existing = await _db.ChartWorkspaces
+            .FirstOrDefaultAsync(w => w.UserId == userId && w.Symbol == normalizedSymbol);
+
+        // The client saves on top of the copy it last synced; anything else was changed elsewhere since
+        if (existing != null && existing.LastModified != request.BaseLastModified)
+        {
+            return SaveChartWorkspaceResult.Conflict(ParseData(existing.DataJson));
+        }
+
+        var otherBytes = await _db.ChartWorkspaces
+            .Where(w => w.UserId == userId && w.Symbol != normalizedSymbol)
+            .SumAsync(w => (long)w.SizeBytes);
+        if (otherBytes + sizeBytes > _settings.QuotaBytesPerUser)
+        {
+            _logger.LogInformation("Chart workspace quota exceeded for user {UserId} saving {Symbol}", userId, normalizedSymbol);
+            return SaveChartWorkspaceResult.QuotaExceeded(await GetQuotaAsync(userId));
+        }
+
+        var now = DateTime.UtcNow;
+        if (existing == null)
+        {
+            _db.ChartWorkspaces.Add(new ChartWorkspace
+            {
+                Id = Guid.NewGuid(),
+                UserId = userId,
+                Symbol = normalizedSymbol,
+                DataJson = dataJson,
+                LastModified = lastModified,
+                Version = version,
+                SizeBytes = sizeBytes,
+                CreatedAt = now,
+                UpdatedAt = now
+            });
+
+            try
+            {
+                await _db.SaveChangesAsync();
+            }
+            catch (DbUpdateException)
+            {
+                // Another save created it first
+                _db.ChangeTracker.Clear();
+                var current = await GetWorkspaceAsync(userId, normalizedSymbol);
+                if (current == null) throw;
+                return SaveChartWorkspaceResult.Conflict(current.Value);
+            }
+        }
+        else
+        {
+            // Only replace the copy the check above saw, in case another save landed in between
+            var updated = await _db.ChartWorkspaces
+                .Where(w => w.Id == existing.Id && w.LastModified == existing.LastModified)
+                .ExecuteUpdateAsync(s => s
+                    .SetProperty(w => w.DataJson, dataJson)
+                    .SetProperty(w => w.LastModified, lastModified)
+                    .SetProperty(w => w.Version, version)
+                    .SetProperty(w => w.SizeBytes, sizeBytes)
+                    .SetProperty(w => w.UpdatedAt, now));
+
+            if (updated == 0)
+            {
+                return await ConflictWithStoredAsync(userId, normalizedSymbol);
+            }
+        }
+
+        return SaveChartWorkspaceResult.Saved(lastModified, await GetQuotaAsync(userId));
+    }
+
+    public async Task<bool> DeleteWorkspaceAsync(Guid userId, string symbol)
+    {
+        var normalizedSymbol = NormalizeSymbol(symbol);
+        var deleted = await _db.ChartWorkspaces
+            .Where(w => w.UserId == userId && w.Symbol == normalizedSymbol)
+            .ExecuteDeleteAsync();
+
+        return deleted > 0;
+    }
+
+    private async Task<SaveChartWorkspaceResult> ConflictWithStoredAsync(Guid userId, string symbol)
+    {
+        var current = await GetWorkspaceAsync(userId, symbol);
+        if (current == null)
+        {
+            throw new InvalidOperationException($"Chart workspace for {symbol} changed while saving; try again");
+        }
+        return SaveChartWorkspaceResult.Conflict(current.Value);
+    }
+
+    private async Task<ChartWorkspaceQuotaDto> GetQuotaAsync(Guid userId)
+    {
+        var sizes = await _db.ChartWorkspaces
+            .AsNoTracking()
+            .Where(w => w.UserId == userId)
+            .Select(w => w.SizeBytes)
+            .ToListAsync();
+
+        return new ChartWorkspaceQuotaDto
+        {
+            UsedBytes = sizes.Sum(size => (long)size),
+            LimitBytes = _settings.QuotaBytesPerUser,
+            WorkspaceCount = sizes.Count
+        };
+    }
+
+    private static string NormalizeSymbol(string symbol)
+    {
+        var normalized = symbol.Trim().ToUpperInvariant();
+        if (normalized.Length == 0 || normalized.Length > MaxSymbolLength)
+        {
+            throw new InvalidOperationException("Invalid symbol");
+        }
+        return normalized;
+    }
+
+    private static JsonElement ParseData(string dataJson)
+    {
+        using var document = JsonDocument.Parse(dataJson);
+        return document.RootElement.Clone();
+    }
+}
+
+// DTOs
+public record ChartWorkspaceListDto
+{
+    public List<ChartWorkspaceSummaryDto> Workspaces { get; init; } = new();
+    public ChartWorkspaceQuotaDto Quota { get; init; } = default!;
+}
+
+public record ChartWorkspaceSummaryDto
+{
+    public string Symbol { get; init; } = default!;
+    public long LastModified { get; init; }
+    public int Version { get; init; }
+}
+
+public record ChartWorkspaceQuotaDto
+{
+    public long UsedBytes { get; init; }
+    public long LimitBytes { get; init; }
+    public int WorkspaceCount { get; init; }
+}
+
+// Request models
+public record SaveChartWorkspaceRequest
+{
+    public JsonElement Data { get; init; }
+    public long? BaseLastModified { get; init; } // null when the client has never synced this symbol
+}
+
+public enum SaveChartWorkspaceStatus
+{
+    Saved,
+    Conflict,
+    QuotaExceeded
+}
+
+public record SaveChartWorkspaceResult
+{
+    public SaveChartWorkspaceStatus Status { get; init; }
+    public long LastModified { get; init; }
+    public JsonElement? Current { get; init; }
+    public ChartWorkspaceQuotaDto? Quota { get; init; }
+
+    public static SaveChartWorkspaceResult Saved(long lastModified, ChartWorkspaceQuotaDto quota) =>
+        new() { Status = SaveChartWorkspaceStatus.Saved, LastModified = lastModified, Quota = quota };
+
+    public static SaveChartWorkspaceResult Conflict(JsonElement current) =>
+        new() { Status = SaveChartWorkspaceStatus.Conflict, Current = current };
+
+    public static SaveChartWorkspaceResult QuotaExceeded(ChartWorkspaceQuotaDto quota) =>
+        new() { Status = SaveChartWorkspaceStatus.QuotaExceeded, Quota = quota };
+}
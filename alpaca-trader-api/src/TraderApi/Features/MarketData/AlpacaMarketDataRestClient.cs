@@ -155,4 +155,47 @@ public class AlpacaMarketDataRestClient : IMarketDataRestClient
             return null;
         }
     }
+
+    public async Task<BarsPageResponse?> GetBarsPageAsync(string symbol, BarsPageRequest request)
+    {
+        try
+        {
+            var query = new List<string>
+            {
+                $"timeframe={Uri.EscapeDataString(request.Timeframe)}",
+                $"sort={request.Sort}",
+                "adjustment=split",
+                "feed=iex"
+            };
+            if (request.Start.HasValue) query.Add($"start={Uri.EscapeDataString(request.Start.Value.ToUniversalTime().ToString("O"))}");
+            // Alpaca's end is inclusive; the chart asks for bars before `end`
+            if (request.End.HasValue) query.Add($"end={Uri.EscapeDataString(request.End.Value.ToUniversalTime().AddTicks(-1).ToString("O"))}");
+            if (request.Limit.HasValue) query.Add($"limit={request.Limit.Value}");
+            if (!string.IsNullOrEmpty(request.PageToken)) query.Add($"page_token={Uri.EscapeDataString(request.PageToken)}");
+
+            _logger.LogInformation("📊 Fetching bar page for {Symbol} from REST API (timeframe: {Timeframe}, start: {Start}, end: {End})",
+                symbol, request.Timeframe, request.Start, request.End);
+
+            var response = await _httpClient.GetAsync($"/v2/stocks/{Uri.EscapeDataString(symbol)}/bars?{string.Join("&", query)}");
+
+            if (!response.IsSuccessStatusCode)
+            {
+                var error = await response.Content.ReadAsStringAsync();
+                _logger.LogWarning("❌ Failed to fetch bar page for {Symbol}: {StatusCode} - {Error}",
+                    symbol, response.StatusCode, error);
+                return null;
+            }
+
+            var content = await response.Content.ReadAsStringAsync();
+            var result = JsonSerializer.Deserialize<BarsPageResponse>(content, _jsonOptions);
+
+            // Alpaca sends "bars": null when the range has no bars
+            return result == null ? null : result with { Symbol = symbol, Bars = result.Bars ?? new List<BarDto>() };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "❌ Error fetching bar page for {Symbol}", symbol);
+            return null;
+        }
+    }
 }
\ No newline at end of file
@@ -24,6 +24,10 @@ public class AlpacaMarketDataService : IMarketDataService, IHostedService
     // Track connection subscriptions: ConnectionId -> Set of Symbols
     private readonly ConcurrentDictionary<string, HashSet<string>> _connectionSubscriptions = new();
     
+    // Track time & sales subscriptions separately so they don't change quote subscriber counts
+    private readonly ConcurrentDictionary<string, HashSet<string>> _tradeSubscriptions = new();
+    private readonly ConcurrentDictionary<string, HashSet<string>> _connectionTradeSubscriptions = new();
+    
     // Store latest quotes for new subscribers
     private readonly ConcurrentDictionary<string, Quote> _latestQuotes = new();
     
@@ -40,6 +44,7 @@ public class AlpacaMarketDataService : IMarketDataService, IHostedService
             ["totalSymbols"] = _subscriptions.Count,
             ["totalConnections"] = _connectionSubscriptions.Count,
             ["symbols"] = _subscriptions.ToDictionary(kvp => kvp.Key, kvp => kvp.Value.Count),
+            ["tradeSymbols"] = _tradeSubscriptions.ToDictionary(kvp => kvp.Key, kvp => kvp.Value.Count),
             ["webSocketState"] = _webSocket?.State.ToString() ?? "null",
             ["cachedQuotes"] = _latestQuotes.Count
         };
@@ -336,7 +341,27 @@ public class AlpacaMarketDataService : IMarketDataService, IHostedService
                 alpacaTrade.Symbol, connectionIds.Count, string.Join(", ", connectionIds));
             await _hubContext.Clients.Clients(connectionIds).SendAsync("TradeUpdate", quote);
         }
-        else
+        
+        // Send the print itself to time & sales subscribers
+        if (_tradeSubscriptions.TryGetValue(alpacaTrade.Symbol, out var tapeConnectionIds))
+        {
+            var print = new TradePrint
+            {
+                Id = alpacaTrade.Id.ToString(),
+                Symbol = alpacaTrade.Symbol,
+                Price = alpacaTrade.Price,
+                Size = alpacaTrade.Size,
+                Exchange = alpacaTrade.Exchange ?? string.Empty,
+                Conditions = alpacaTrade.Conditions ?? new List<string>(),
+                Timestamp = alpacaTrade.Timestamp,
+                BidPrice = quote.BidPrice > 0 ? quote.BidPrice : null,
+                AskPrice = quote.AskPrice > 0 ? quote.AskPrice : null
+            };
+            
+            await _hubContext.Clients.Clients(tapeConnectionIds).SendAsync("TradePrints", new[] { print });
+        }
+        
+        if (connectionIds == null && tapeConnectionIds == null)
         {
             _logger.LogWarning("No subscriptions found for symbol {Symbol}", alpacaTrade.Symbol);
         }
@@ -379,18 +404,15 @@ public class AlpacaMarketDataService : IMarketDataService, IHostedService
         _logger.LogInformation("📈 Connection {ConnectionId} now subscribed to {Count} symbols", 
             connectionId, _connectionSubscriptions[connectionId].Count);
         
-        // If this is a new symbol subscription, subscribe via WebSocket
-        if (isNewSymbol && IsConnected)
+        // If this is a new symbol subscription, subscribe via WebSocket (unless the tape already streams it)
+        if (isNewSymbol && _tradeSubscriptions.ContainsKey(symbol))
+        {
+            _logger.LogInformation("♻️ Symbol {Symbol} already streamed for time & sales - no need to resubscribe to Alpaca", symbol);
+        }
+        else if (isNewSymbol && IsConnected)
         {
             _logger.LogInformation("🌐 New symbol {Symbol} - subscribing via Alpaca WebSocket", symbol);
-            var subMessage = new AlpacaSubscriptionMessage
-            {
-                Action = "subscribe",
-                Quotes = new List<string> { symbol },
-                Trades = new List<string> { symbol }
-            };
-            
-            await SendMessageAsync(subMessage);
+            await SubscribeStreamAsync(symbol);
         }
         else if (isNewSymbol && !IsConnected)
         {
@@ -444,16 +466,9 @@ public class AlpacaMarketDataService : IMarketDataService, IHostedService
         }
         
         // If no more subscribers for this symbol, unsubscribe via WebSocket
-        if (shouldUnsubscribe && IsConnected)
+        if (shouldUnsubscribe && !_tradeSubscriptions.ContainsKey(symbol) && IsConnected)
         {
-            var unsubMessage = new
-            {
-                action = "unsubscribe",
-                quotes = new[] { symbol },
-                trades = new[] { symbol }
-            };
-            
-            await SendMessageAsync(unsubMessage);
+            await UnsubscribeStreamAsync(symbol);
         }
     }
 
@@ -468,6 +483,111 @@ public class AlpacaMarketDataService : IMarketDataService, IHostedService
                 await UnsubscribeAsync(symbol, connectionId);
             }
         }
+        
+        if (_connectionTradeSubscriptions.TryRemove(connectionId, out var tradeSymbols))
+        {
+            foreach (var symbol in tradeSymbols)
+            {
+                await UnsubscribeTradesAsync(symbol, connectionId);
+            }
+        }
+    }
+
+    public async Task SubscribeTradesAsync(string symbol, string connectionId)
+    {
+        _logger.LogInformation("🔔 SubscribeTradesAsync called: ConnectionId={ConnectionId}, Symbol={Symbol}", connectionId, symbol);
+        
+        var isNewSymbol = false;
+        
+        _tradeSubscriptions.AddOrUpdate(symbol,
+            _ =>
+            {
+                isNewSymbol = true;
+                return new HashSet<string> { connectionId };
+            },
+            (_, connections) =>
+            {
+                connections.Add(connectionId);
+                return connections;
+            });
+        
+        _connectionTradeSubscriptions.AddOrUpdate(connectionId,
+            _ => new HashSet<string> { symbol },
+            (_, symbols) =>
+            {
+                symbols.Add(symbol);
+                return symbols;
+            });
+        
+        // Quote subscribers already keep the symbol streaming from Alpaca
+        if (isNewSymbol && !_subscriptions.ContainsKey(symbol))
+        {
+            if (IsConnected)
+            {
+                _logger.LogInformation("🌐 New time & sales symbol {Symbol} - subscribing via Alpaca WebSocket", symbol);
+                await SubscribeStreamAsync(symbol);
+            }
+            else
+            {
+                _logger.LogWarning("⚠️ Cannot subscribe to trades for {Symbol} - WebSocket not connected!", symbol);
+            }
+        }
+    }
+
+    public async Task UnsubscribeTradesAsync(string symbol, string connectionId)
+    {
+        _logger.LogInformation("Unsubscribing {ConnectionId} from trades for {Symbol}", connectionId, symbol);
+        
+        var shouldUnsubscribe = false;
+        
+        if (_tradeSubscriptions.TryGetValue(symbol, out var connections))
+        {
+            connections.Remove(connectionId);
+            if (connections.Count == 0)
+            {
+                _tradeSubscriptions.TryRemove(symbol, out _);
+                shouldUnsubscribe = true;
+            }
+        }
+        
+        if (_connectionTradeSubscriptions.TryGetValue(connectionId, out var symbols))
+        {
+            symbols.Remove(symbol);
+            if (symbols.Count == 0)
+            {
+                _connectionTradeSubscriptions.TryRemove(connectionId, out _);
+            }
+        }
+        
+        if (shouldUnsubscribe && !_subscriptions.ContainsKey(symbol) && IsConnected)
+        {
+            await UnsubscribeStreamAsync(symbol);
+        }
+    }
+
+    // Quotes are streamed along with trades so prints can be classified against the bid/ask
+    private async Task SubscribeStreamAsync(string symbol)
+    {
+        var subMessage = new AlpacaSubscriptionMessage
+        {
+            Action = "subscribe",
+            Quotes = new List<string> { symbol },
+            Trades = new List<string> { symbol }
+        };
+        
+        await SendMessageAsync(subMessage);
+    }
+
+    private async Task UnsubscribeStreamAsync(string symbol)
+    {
+        var unsubMessage = new
+        {
+            action = "unsubscribe",
+            quotes = new[] { symbol },
+            trades = new[] { symbol }
+        };
+        
+        await SendMessageAsync(unsubMessage);
     }
 
     private async Task SendMessageAsync<T>(T message)
@@ -511,7 +631,7 @@ public class AlpacaMarketDataService : IMarketDataService, IHostedService
         // Resubscribe to all symbols
         if (IsConnected)
         {
-            var symbols = _subscriptions.Keys.ToList();
+            var symbols = _subscriptions.Keys.Union(_tradeSubscriptions.Keys).ToList();
             if (symbols.Any())
             {
                 var subMessage = new AlpacaSubscriptionMessage
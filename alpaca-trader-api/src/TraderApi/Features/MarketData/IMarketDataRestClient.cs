@@ -1,3 +1,5 @@
+using System.Text.Json.Serialization;
+
 namespace TraderApi.Features.MarketData;
 
 public interface IMarketDataRestClient
@@ -5,6 +7,7 @@ public interface IMarketDataRestClient
     Task<AlpacaLatestQuoteResponse?> GetLatestQuoteAsync(string symbol);
     Task<AlpacaLatestTradeResponse?> GetLatestTradeAsync(string symbol);
     Task<AlpacaBarsResponse?> GetBarsAsync(string symbol, string timeframe = "1Day", int limit = 1);
+    Task<BarsPageResponse?> GetBarsPageAsync(string symbol, BarsPageRequest request);
 }
 
 // Alpaca REST API response models
@@ -53,4 +56,49 @@ public record AlpacaBarData
     public long Volume { get; init; }
     public int TradeCount { get; init; }
     public decimal Vwap { get; init; }
+}
+
+// One page of historical bars, in Alpaca's wire format so the chart can use it as-is
+public record BarsPageRequest
+{
+    public string Timeframe { get; init; } = "1Day";
+    public DateTime? Start { get; init; }
+    public DateTime? End { get; init; } // exclusive
+    public int? Limit { get; init; }
+    public string Sort { get; init; } = "asc";
+    public string? PageToken { get; init; }
+}
+
+public record BarsPageResponse
+{
+    public string Symbol { get; init; } = string.Empty;
+    public List<BarDto> Bars { get; init; } = new();
+    public string? NextPageToken { get; init; }
+}
+
+public record BarDto
+{
+    [JsonPropertyName("t")]
+    public DateTime Timestamp { get; init; }
+
+    [JsonPropertyName("o")]
+    public decimal Open { get; init; }
+
+    [JsonPropertyName("h")]
+    public decimal High { get; init; }
+
+    [JsonPropertyName("l")]
+    public decimal Low { get; init; }
+
+    [JsonPropertyName("c")]
+    public decimal Close { get; init; }
+
+    [JsonPropertyName("v")]
+    public long Volume { get; init; }
+
+    [JsonPropertyName("n")]
+    public int? TradeCount { get; init; }
+
+    [JsonPropertyName("vw")]
+    public decimal? Vwap { get; init; }
 }
\ No newline at end of file
@@ -7,5 +7,7 @@ public interface IMarketDataService
     Task SubscribeAsync(string symbol, string connectionId);
     Task UnsubscribeAsync(string symbol, string connectionId);
     Task UnsubscribeAllAsync(string connectionId);
+    Task SubscribeTradesAsync(string symbol, string connectionId);
+    Task UnsubscribeTradesAsync(string symbol, string connectionId);
     bool IsConnected { get; }
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.SignalR;
 
@@ -5,6 +6,10 @@ namespace TraderApi.Features.MarketData;
 
 public static class MarketDataEndpoints
 {
+    private const int MaxBarsPerPage = 10000; // Alpaca's page size limit
+    private static readonly Regex SymbolPattern = new(@"^[A-Z]{1,5}(\.[A-Z])?$", RegexOptions.Compiled);
+    private static readonly Regex TimeframePattern = new(@"^\d{1,2}(Min|Hour|Day|Week|Month)$", RegexOptions.Compiled);
+
     public static void MapMarketDataEndpoints(this IEndpointRouteBuilder app)
     {
         var group = app.MapGroup("/api/market-data")
@@ -26,6 +31,55 @@ public static class MarketDataEndpoints
             });
         });
 
+        // Historical bars for charts, one page at a time (follow nextPageToken for more)
+        group.MapGet("/bars/{symbol}", async (
+            string symbol,
+            string? timeframe,
+            DateTime? start,
+            DateTime? end,
+            int? limit,
+            string? sort,
+            string? pageToken,
+            IMarketDataRestClient restClient) =>
+        {
+            var normalizedSymbol = symbol.Trim().ToUpperInvariant();
+            if (!SymbolPattern.IsMatch(normalizedSymbol))
+                return Results.BadRequest(new { error = "Invalid symbol" });
+
+            timeframe ??= "1Day";
+            if (!TimeframePattern.IsMatch(timeframe))
+                return Results.BadRequest(new { error = "Invalid timeframe; use e.g. 1Min, 15Min, 1Hour, 1Day, 1Week" });
+
+            sort = (sort ?? "asc").ToLowerInvariant();
+            if (sort != "asc" && sort != "desc")
+                return Results.BadRequest(new { error = "Sort must be asc or desc" });
+
+            if (limit is < 1 or > MaxBarsPerPage)
+                return Results.BadRequest(new { error = $"Limit must be between 1 and {MaxBarsPerPage}" });
+
+            if (start.HasValue && end.HasValue && start >= end)
+                return Results.BadRequest(new { error = "Start must be before end" });
+
+            var page = await restClient.GetBarsPageAsync(normalizedSymbol, new BarsPageRequest
+            {
+                Timeframe = timeframe,
+                Start = start,
+                End = end,
+                Limit = limit ?? MaxBarsPerPage,
+                Sort = sort,
+                PageToken = pageToken
+            });
+
+            return page == null
+                ? Results.Problem(detail: $"Failed to fetch bars for {normalizedSymbol}", statusCode: StatusCodes.Status502BadGateway)
+                : Results.Ok(page);
+        })
+        .WithName("GetBars")
+        .WithSummary("Get historical bars for a symbol")
+        .Produces<BarsPageResponse>()
+        .Produces(400)
+        .Produces(502);
+
         // Test endpoint to simulate quote updates (development only)
         if (app is WebApplication webApp && webApp.Environment.IsDevelopment())
         {
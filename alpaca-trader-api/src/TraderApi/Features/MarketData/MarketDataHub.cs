@@ -131,4 +131,48 @@ public class MarketDataHub : Hub
         await _marketDataService.UnsubscribeAllAsync(Context.ConnectionId);
         await Clients.Caller.SendAsync("UnsubscribedAll");
     }
+
+    // Time & sales: streams every print for the symbol as `TradePrints`, separately from the quote subscription
+    public async Task SubscribeTrades(string symbol)
+    {
+        if (string.IsNullOrWhiteSpace(symbol))
+        {
+            await Clients.Caller.SendAsync("Error", "Invalid symbol");
+            return;
+        }
+        
+        symbol = symbol.ToUpperInvariant();
+        
+        try
+        {
+            await _marketDataService.SubscribeTradesAsync(symbol, Context.ConnectionId);
+            await Clients.Caller.SendAsync("SubscribedTrades", symbol);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "❌ Failed to subscribe {ConnectionId} to trades for {Symbol}", Context.ConnectionId, symbol);
+            await Clients.Caller.SendAsync("Error", $"Failed to subscribe to trades for {symbol}: {ex.Message}");
+        }
+    }
+
+    public async Task UnsubscribeTrades(string symbol)
+    {
+        if (string.IsNullOrWhiteSpace(symbol))
+        {
+            await Clients.Caller.SendAsync("Error", "Invalid symbol");
+            return;
+        }
+        
+        symbol = symbol.ToUpperInvariant();
+        
+        try
+        {
+            await _marketDataService.UnsubscribeTradesAsync(symbol, Context.ConnectionId);
+            await Clients.Caller.SendAsync("UnsubscribedTrades", symbol);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "❌ Failed to unsubscribe {ConnectionId} from trades for {Symbol}", Context.ConnectionId, symbol);
+        }
+    }
 }
\ No newline at end of file
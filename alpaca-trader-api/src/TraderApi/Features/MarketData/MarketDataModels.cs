@@ -22,6 +22,20 @@ public record Quote
     public string DataSource { get; init; } = "Alpaca";
 }
 
+// One print on the time & sales tape, with the quote that was current when it printed
+public record TradePrint
+{
+    public required string Id { get; init; }
+    public required string Symbol { get; init; }
+    public decimal Price { get; init; }
+    public long Size { get; init; }
+    public string Exchange { get; init; } = string.Empty;
+    public List<string> Conditions { get; init; } = new();
+    public DateTime Timestamp { get; init; }
+    public decimal? BidPrice { get; init; }
+    public decimal? AskPrice { get; init; }
+}
+
 // Alpaca WebSocket message types
 public record AlpacaStreamMessage
 {
@@ -69,6 +83,15 @@ public record AlpacaTradeMessage : AlpacaStreamMessage
     
     [JsonPropertyName("t")]
     public DateTime Timestamp { get; init; }
+    
+    [JsonPropertyName("i")]
+    public long Id { get; init; }
+    
+    [JsonPropertyName("x")]
+    public string? Exchange { get; init; }
+    
+    [JsonPropertyName("c")]
+    public List<string>? Conditions { get; init; }
 }
 
 public record AlpacaAuthMessage : AlpacaStreamMessage
@@ -10,9 +10,20 @@ public record CreateOrderRequest(
     decimal Qty,
     decimal? LimitPrice,
     string TimeInForce,
-    bool? ExtendedHours = null
+    bool? ExtendedHours = null,
+    string? OrderClass = null,
+    decimal? StopPrice = null,
+    decimal? TrailPrice = null,
+    decimal? TrailPercent = null,
+    TakeProfitRequest? TakeProfit = null,
+    StopLossRequest? StopLoss = null
 );
 
+// Exit legs of bracket, OCO and OTO orders
+public record TakeProfitRequest(decimal LimitPrice);
+
+public record StopLossRequest(decimal StopPrice, decimal? LimitPrice = null);
+
 public class CreateOrderRequestValidator : AbstractValidator<CreateOrderRequest>
 {
     public CreateOrderRequestValidator()
@@ -33,21 +44,153 @@ public class CreateOrderRequestValidator : AbstractValidator<CreateOrderRequest>
             
         RuleFor(x => x.Type)
             .NotEmpty()
-            .Must(x => x == "market" || x == "limit")
-            .WithMessage("Type must be 'market' or 'limit'");
+            .Must(x => new[] { "market", "limit", "stop", "stop_limit", "trailing_stop" }.Contains(x))
+            .WithMessage("Type must be one of: market, limit, stop, stop_limit, trailing_stop");
             
         RuleFor(x => x.Qty)
             .GreaterThan(0);
             
         RuleFor(x => x.LimitPrice)
             .GreaterThan(0)
-            .When(x => x.Type == "limit")
+            .When(x => (x.Type == "limit" || x.Type == "stop_limit") && x.OrderClass != "oco")
             .WithMessage("Limit price is required for limit orders");
             
+        RuleFor(x => x.StopPrice)
+            .GreaterThan(0)
+            .When(x => x.Type == "stop" || x.Type == "stop_limit")
+            .WithMessage("Stop price is required for stop orders");
+            
+        RuleFor(x => x)
+            .Must(x => x.TrailPrice.HasValue != x.TrailPercent.HasValue)
+            .When(x => x.Type == "trailing_stop")
+            .OverridePropertyName("TrailPrice")
+            .WithMessage("Trailing stop orders need either a trail price or a trail percent");
+            
+        RuleFor(x => x.TrailPrice)
+            .GreaterThan(0)
+            .When(x => x.TrailPrice.HasValue);
+            
+        RuleFor(x => x.TrailPercent)
+            .GreaterThan(0)
+            .LessThan(100)
+            .When(x => x.TrailPercent.HasValue);
+            
         RuleFor(x => x.TimeInForce)
             .NotEmpty()
             .Must(x => new[] { "day", "gtc", "ioc", "fok" }.Contains(x))
             .WithMessage("TimeInForce must be one of: day, gtc, ioc, fok");
+            
+        // Trailing stops and orders with exit legs only rest for the day or until cancelled
+        RuleFor(x => x.TimeInForce)
+            .Must(x => x == "day" || x == "gtc")
+            .When(x => x.Type == "trailing_stop" || IsAdvanced(x.OrderClass))
+            .WithMessage("TimeInForce must be 'day' or 'gtc' for trailing stop, bracket, OCO and OTO orders");
+            
+        RuleFor(x => x.OrderClass)
+            .Must(x => new[] { "simple", "bracket", "oco", "oto" }.Contains(x))
+            .When(x => x.OrderClass != null)
+            .WithMessage("OrderClass must be one of: simple, bracket, oco, oto");
+            
+        RuleFor(x => x.Type)
+            .Must(x => x == "market" || x == "limit")
+            .When(x => x.OrderClass == "bracket")
+            .WithMessage("Bracket orders must enter with a market or limit order");
+            
+        // An OCO is priced by its legs; the take profit is the limit order Alpaca works
+        RuleFor(x => x.Type)
+            .Equal("limit")
+            .When(x => x.OrderClass == "oco")
+            .WithMessage("OCO orders must be limit orders");
+            
+        RuleFor(x => x.Type)
+            .NotEqual("trailing_stop")
+            .When(x => x.OrderClass == "oto")
+            .WithMessage("OTO orders can't enter with a trailing stop");
+            
+        RuleFor(x => x.TakeProfit)
+            .NotNull()
+            .When(x => x.OrderClass == "bracket" || x.OrderClass == "oco")
+            .WithMessage("Take profit is required for bracket and OCO orders");
+            
+        RuleFor(x => x.StopLoss)
+            .NotNull()
+            .When(x => x.OrderClass == "bracket" || x.OrderClass == "oco")
+            .WithMessage("Stop loss is required for bracket and OCO orders");
+            
+        RuleFor(x => x)
+            .Must(x => x.TakeProfit != null || x.StopLoss != null)
+            .When(x => x.OrderClass == "oto")
+            .OverridePropertyName("TakeProfit")
+            .WithMessage("OTO orders need a take profit or a stop loss");
+            
+        RuleFor(x => x)
+            .Must(x => x.TakeProfit == null && x.StopLoss == null)
+            .When(x => !IsAdvanced(x.OrderClass))
+            .OverridePropertyName("OrderClass")
+            .WithMessage("Take profit and stop loss are only used by bracket, OCO and OTO orders");
+            
+        RuleFor(x => x.TakeProfit!.LimitPrice)
+            .GreaterThan(0)
+            .When(x => x.TakeProfit != null);
+            
+        RuleFor(x => x.StopLoss!.StopPrice)
+            .GreaterThan(0)
+            .When(x => x.StopLoss != null);
+            
+        RuleFor(x => x.StopLoss!.LimitPrice)
+            .GreaterThan(0)
+            .When(x => x.StopLoss?.LimitPrice != null);
+            
+        // A long takes profit above its stop, a short below; an OCO's side is already the exit's
+        RuleFor(x => x)
+            .Must(x => ExitsLong(x)
+                ? x.TakeProfit!.LimitPrice > x.StopLoss!.StopPrice
+                : x.TakeProfit!.LimitPrice < x.StopLoss!.StopPrice)
+            .When(x => x.TakeProfit != null && x.StopLoss != null)
+            .OverridePropertyName("TakeProfit")
+            .WithMessage("Take profit must be above the stop loss when exiting a long and below it when exiting a short");
+    }
+    
+    private static bool IsAdvanced(string? orderClass) =>
+        orderClass == "bracket" || orderClass == "oco" || orderClass == "oto";
+    
+    private static bool ExitsLong(CreateOrderRequest request) =>
+        request.OrderClass == "oco" ? request.Side == "sell" : request.Side == "buy";
+}
+
+// Amends a working order; fields left null keep their current values
+public record ReplaceOrderRequest(
+    decimal? Qty,
+    decimal? LimitPrice,
+    decimal? StopPrice,
+    string? TimeInForce
+);
+
+public class ReplaceOrderRequestValidator : AbstractValidator<ReplaceOrderRequest>
+{
+    public ReplaceOrderRequestValidator()
+    {
+        RuleFor(x => x)
+            .Must(x => x.Qty.HasValue || x.LimitPrice.HasValue || x.StopPrice.HasValue || x.TimeInForce != null)
+            .OverridePropertyName("Request")
+            .WithMessage("At least one of qty, limitPrice, stopPrice or timeInForce is required");
+            
+        RuleFor(x => x.Qty)
+            .GreaterThan(0)
+            .When(x => x.Qty.HasValue);
+            
+        RuleFor(x => x.LimitPrice)
+            .GreaterThan(0)
+            .When(x => x.LimitPrice.HasValue);
+            
+        RuleFor(x => x.StopPrice)
+            .GreaterThan(0)
+            .When(x => x.StopPrice.HasValue);
+            
+        RuleFor(x => x.TimeInForce)
+            .Must(x => new[] { "day", "gtc", "ioc", "fok" }.Contains(x))
+            .When(x => x.TimeInForce != null)
+            .WithMessage("TimeInForce must be one of: day, gtc, ioc, fok");
     }
 }
 
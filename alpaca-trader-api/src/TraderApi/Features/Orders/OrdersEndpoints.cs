@@ -26,6 +26,15 @@ public static class OrdersEndpoints
             .ProducesValidationProblem()
             .Produces(400);
 
+        group.MapPatch("/{id}", ReplaceOrder)
+            .WithName("ReplaceOrder")
+            .WithSummary("Replace an order")
+            .WithDescription("Amend the quantity, prices or time in force of a working order on Alpaca, with risk checks")
+            .Produces<OrderDto>()
+            .ProducesValidationProblem()
+            .Produces(400)
+            .Produces(404);
+
         group.MapDelete("/{id}", CancelOrder)
             .WithName("CancelOrder")
             .WithSummary("Cancel an order")
@@ -69,6 +78,31 @@ public static class OrdersEndpoints
         }
     }
 
+    private static async Task<Results<Ok<OrderDto>, ValidationProblem, BadRequest<ErrorResponse>, NotFound>> ReplaceOrder(
+        IOrdersService ordersService,
+        IValidator<ReplaceOrderRequest> validator,
+        ClaimsPrincipal user,
+        string id,
+        ReplaceOrderRequest request)
+    {
+        var validationResult = await validator.ValidateAsync(request);
+        if (!validationResult.IsValid)
+        {
+            return TypedResults.ValidationProblem(validationResult.ToDictionary());
+        }
+
+        try
+        {
+            var userId = GetUserId(user);
+            var replacement = await ordersService.ReplaceOrderAsync(userId, id, request);
+            return replacement == null ? TypedResults.NotFound() : TypedResults.Ok(replacement);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return TypedResults.BadRequest(new ErrorResponse("ValidationError", ex.Message));
+        }
+    }
+
     private static async Task<Results<NoContent, NotFound>> CancelOrder(
         IOrdersService ordersService,
         ClaimsPrincipal user,
@@ -11,6 +11,7 @@ public interface IOrdersService
 {
     Task<List<OrderDto>> GetOrdersAsync(Guid userId, string? status, int? limit);
     Task<CreateOrderResponse> CreateOrderAsync(Guid userId, CreateOrderRequest request);
+    Task<OrderDto?> ReplaceOrderAsync(Guid userId, string orderId, ReplaceOrderRequest request);
     Task<bool> CancelOrderAsync(Guid userId, string orderId);
 }
 
@@ -44,20 +45,7 @@ public class OrdersService : IOrdersService
 
         var orders = await _alpacaClient.GetOrdersAsync(apiKeyId, apiSecret, status, limit, alpacaLink.BrokerAccountId);
 
-        return orders.Select(o => new OrderDto(
-            o.Id,
-            o.ClientOrderId,
-            o.Symbol,
-            o.Side,
-            o.Type,
-            o.Qty,
-            o.LimitPrice,
-            o.TimeInForce,
-            o.Status,
-            o.CreatedAt,
-            o.FilledAt,
-            o.FilledAvgPrice
-        )).ToList();
+        return orders.Select(ToOrderDto).ToList();
     }
 
     public async Task<CreateOrderResponse> CreateOrderAsync(Guid userId, CreateOrderRequest request)
@@ -113,8 +101,21 @@ public class OrdersService : IOrdersService
                 Type = request.Type,
                 TimeInForce = request.TimeInForce,
                 LimitPrice = request.LimitPrice,
+                StopPrice = request.StopPrice,
+                TrailPrice = request.TrailPrice,
+                TrailPercent = request.TrailPercent,
                 ClientOrderId = request.ClientOrderId,
-                ExtendedHours = request.ExtendedHours
+                ExtendedHours = request.ExtendedHours,
+                OrderClass = request.OrderClass,
+                TakeProfit = request.TakeProfit == null ? null : new AlpacaTakeProfit
+                {
+                    LimitPrice = request.TakeProfit.LimitPrice
+                },
+                StopLoss = request.StopLoss == null ? null : new AlpacaStopLoss
+                {
+                    StopPrice = request.StopLoss.StopPrice,
+                    LimitPrice = request.StopLoss.LimitPrice
+                }
             };
 
             var alpacaOrder = await _alpacaClient.CreateOrderAsync(apiKeyId, apiSecret, alpacaRequest, alpacaLink.BrokerAccountId);
@@ -139,6 +140,76 @@ public class OrdersService : IOrdersService
         }
     }
 
+    public async Task<OrderDto?> ReplaceOrderAsync(Guid userId, string orderId, ReplaceOrderRequest request)
+    {
+        var alpacaLink = await GetAlpacaLinkAsync(userId);
+        var apiKeyId = _keyProtector.Decrypt(alpacaLink.ApiKeyId);
+        var apiSecret = _keyProtector.Decrypt(alpacaLink.ApiSecret);
+
+        var existing = await _alpacaClient.GetOrderAsync(apiKeyId, apiSecret, orderId, alpacaLink.BrokerAccountId);
+        if (existing == null)
+        {
+            return null;
+        }
+
+        if (request.LimitPrice.HasValue && existing.Type is not ("limit" or "stop_limit"))
+        {
+            throw new InvalidOperationException($"Limit price can't be set on a {existing.Type} order");
+        }
+        if (request.StopPrice.HasValue && existing.Type is not ("stop" or "stop_limit"))
+        {
+            throw new InvalidOperationException($"Stop price can't be set on a {existing.Type} order");
+        }
+
+        // The amended order has to pass the same risk checks as a new one
+        var amended = new CreateOrderRequest(
+            existing.ClientOrderId,
+            existing.Symbol,
+            existing.Side,
+            existing.Type,
+            request.Qty ?? existing.Qty,
+            request.LimitPrice ?? existing.LimitPrice,
+            request.TimeInForce ?? existing.TimeInForce,
+            existing.ExtendedHours,
+            StopPrice: request.StopPrice ?? existing.StopPrice
+        );
+        var violations = await _riskService.ValidateOrderAsync(amended, apiKeyId, apiSecret);
+        if (violations.Any())
+        {
+            var messages = string.Join("; ", violations.Select(v => v.Message));
+            throw new InvalidOperationException($"Risk check failed: {messages}");
+        }
+
+        var replacement = await _alpacaClient.ReplaceOrderAsync(apiKeyId, apiSecret, orderId, new AlpacaReplaceOrderRequest
+        {
+            Qty = request.Qty,
+            LimitPrice = request.LimitPrice,
+            StopPrice = request.StopPrice,
+            TimeInForce = request.TimeInForce
+        }, alpacaLink.BrokerAccountId);
+
+        if (replacement == null)
+        {
+            return null;
+        }
+
+        // Alpaca replaces the order with a new one; keep the local audit pointing at it
+        var orderAudit = await _db.Orders
+            .FirstOrDefaultAsync(o => o.AlpacaOrderId == orderId);
+
+        if (orderAudit != null)
+        {
+            orderAudit.AlpacaOrderId = replacement.Id;
+            orderAudit.Qty = replacement.Qty;
+            orderAudit.LimitPrice = replacement.LimitPrice;
+            orderAudit.TimeInForce = replacement.TimeInForce;
+            orderAudit.Status = replacement.Status;
+            await _db.SaveChangesAsync();
+        }
+
+        return ToOrderDto(replacement);
+    }
+
     public async Task<bool> CancelOrderAsync(Guid userId, string orderId)
     {
         var alpacaLink = await GetAlpacaLinkAsync(userId);
@@ -163,6 +234,21 @@ public class OrdersService : IOrdersService
         return success;
     }
 
+    private static OrderDto ToOrderDto(AlpacaOrder o) => new(
+        o.Id,
+        o.ClientOrderId,
+        o.Symbol,
+        o.Side,
+        o.Type,
+        o.Qty,
+        o.LimitPrice,
+        o.TimeInForce,
+        o.Status,
+        o.CreatedAt,
+        o.FilledAt,
+        o.FilledAvgPrice
+    );
+
     private async Task<AlpacaLink> GetAlpacaLinkAsync(Guid userId)
     {
         Console.WriteLine($"[ORDERS-DEBUG] Looking for AlpacaLink for userId: {userId}");
@@ -30,7 +30,7 @@ public class MaxOrderNotionalRule : IRiskRule
 
     public Task<RiskViolation?> ValidateAsync(CreateOrderRequest request, decimal? currentPrice = null)
     {
-        decimal price = request.Type == "limit" ? request.LimitPrice!.Value : currentPrice ?? 0;
+        decimal price = GetOrderPrice(request) ?? currentPrice ?? 0;
         
         if (price == 0)
             return Task.FromResult<RiskViolation?>(null); // Skip if we can't determine price
@@ -48,6 +48,14 @@ public class MaxOrderNotionalRule : IRiskRule
 
         return Task.FromResult<RiskViolation?>(null);
     }
+
+    // Price the order is expected to fill at; market and trailing stop orders fill near the current price
+    private static decimal? GetOrderPrice(CreateOrderRequest request) => request.Type switch
+    {
+        "limit" or "stop_limit" => request.LimitPrice ?? request.TakeProfit?.LimitPrice,
+        "stop" => request.StopPrice,
+        _ => null
+    };
 }
 
 public class MaxShareQuantityRule : IRiskRule
@@ -77,9 +77,9 @@ public class RiskService : IRiskService
             }
         }
         
-        // Get current price for market orders
+        // Get current price for market and trailing stop orders
         decimal? currentPrice = null;
-        if (request.Type == "market")
+        if (request.Type == "market" || request.Type == "trailing_stop")
         {
             try
             {
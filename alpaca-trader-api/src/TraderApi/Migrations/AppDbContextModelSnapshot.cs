@@ -104,6 +104,47 @@ namespace TraderApi.Migrations
                     b.ToTable("AlpacaLinks");
                 });
 
+            modelBuilder.Entity("TraderApi.Data.ChartWorkspace", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("DataJson")
+                        .IsRequired()
+                        .HasColumnType("text");
+
+                    b.Property<long>("LastModified")
+                        .HasColumnType("bigint");
+
+                    b.Property<int>("SizeBytes")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("Symbol")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<DateTime>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<Guid>("UserId")
+                        .HasColumnType("uuid");
+
+                    b.Property<int>("Version")
+                        .HasColumnType("integer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UserId", "Symbol")
+                        .IsUnique();
+
+                    b.ToTable("ChartWorkspaces");
+                });
+
             modelBuilder.Entity("TraderApi.Data.Entities.AssetCache", b =>
                 {
                     b.Property<string>("Symbol")
@@ -462,6 +503,17 @@ namespace TraderApi.Migrations
                     b.Navigation("User");
                 });
 
+            modelBuilder.Entity("TraderApi.Data.ChartWorkspace", b =>
+                {
+                    b.HasOne("TraderApi.Data.User", "User")
+                        .WithMany()
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("User");
+                });
+
             modelBuilder.Entity("TraderApi.Data.Layout", b =>
                 {
                     b.HasOne("TraderApi.Data.User", "User")
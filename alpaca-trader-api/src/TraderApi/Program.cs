@@ -6,6 +6,7 @@ using TraderApi.Features.Auth.Extensions;
 using TraderApi.Features.Auth;
 using TraderApi.Features.Kyc;
 using TraderApi.Features.Funding;
+using TraderApi.Features.ChartWorkspaces;
 using TraderApi.Features.Layouts;
 using TraderApi.Features.MarketData;
 using TraderApi.Middleware;
@@ -121,6 +122,9 @@ app.MapFundingEndpoints();
 // Map layout endpoints
 app.MapLayoutsEndpoints();
 
+// Map chart workspace endpoints
+app.MapChartWorkspacesEndpoints();
+
 // Map market data endpoints
 app.MapMarketDataEndpoints();
 
@@ -0,0 +1,117 @@
+using System.Net;
+using System.Text;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging.Abstractions;
+using TraderApi.Features.MarketData;
+using Xunit;
+
+namespace TraderApi.Tests;
+
+public class MarketDataBarsTests
+{
+    private static AlpacaMarketDataRestClient CreateClient(RecordingHttpMessageHandler handler)
+    {
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["Alpaca:ApiKeyId"] = "key",
+                ["Alpaca:ApiSecret"] = "secret",
+                ["Alpaca:DataUrl"] = "https://data.example.test"
+            })
+            .Build();
+
+        return new AlpacaMarketDataRestClient(new HttpClient(handler), new NullLogger<AlpacaMarketDataRestClient>(), configuration);
+    }
+
+    [Fact]
+    public async Task GetBarsPage_Should_Map_Alpaca_Bars_And_Page_Token()
+    {
+        // Arrange
+        var handler = new RecordingHttpMessageHandler(@"{
+            ""bars"": [
+                { ""t"": ""2024-01-02T05:00:00Z"", ""o"": 187.15, ""h"": 188.44, ""l"": 183.89, ""c"": 185.64, ""v"": 82488700, ""n"": 1009074, ""vw"": 185.9 },
+                { ""t"": ""2024-01-03T05:00:00Z"", ""o"": 184.22, ""h"": 185.88, ""l"": 183.43, ""c"": 184.25, ""v"": 58414500, ""n"": 656956, ""vw"": 184.44 }
+            ],
+            ""symbol"": ""AAPL"",
+            ""next_page_token"": ""QUFQTHxEfDIwMjQtMDEtMDM=""
+        }");
+        var client = CreateClient(handler);
+
+        // Act
+        var page = await client.GetBarsPageAsync("AAPL", new BarsPageRequest
+        {
+            Timeframe = "1Day",
+            Start = new DateTime(2024, 1, 1, 0, 0, 0, DateTimeKind.Utc),
+            End = new DateTime(2024, 2, 1, 0, 0, 0, DateTimeKind.Utc),
+            Limit = 2
+        });
+
+        // Assert
+        Assert.NotNull(page);
+        Assert.Equal("AAPL", page.Symbol);
+        Assert.Equal(2, page.Bars.Count);
+        Assert.Equal(187.15m, page.Bars[0].Open);
+        Assert.Equal(82488700, page.Bars[0].Volume);
+        Assert.Equal(184.44m, page.Bars[1].Vwap);
+        Assert.Equal("QUFQTHxEfDIwMjQtMDEtMDM=", page.NextPageToken);
+
+        var query = Uri.UnescapeDataString(handler.LastRequest!.RequestUri!.Query);
+        Assert.Contains("timeframe=1Day", query);
+        Assert.Contains("limit=2", query);
+        // The API's end is exclusive, Alpaca's is inclusive
+        Assert.Contains("end=2024-01-31T23:59:59.9999999Z", query);
+    }
+
+    [Fact]
+    public async Task GetBarsPage_Should_Return_Empty_Bars_When_Alpaca_Sends_Null()
+    {
+        // Arrange
+        var handler = new RecordingHttpMessageHandler(@"{ ""bars"": null, ""symbol"": ""AAPL"", ""next_page_token"": null }");
+        var client = CreateClient(handler);
+
+        // Act
+        var page = await client.GetBarsPageAsync("AAPL", new BarsPageRequest());
+
+        // Assert
+        Assert.NotNull(page);
+        Assert.Empty(page.Bars);
+        Assert.Null(page.NextPageToken);
+    }
+
+    [Fact]
+    public async Task GetBarsPage_Should_Return_Null_On_Error_Response()
+    {
+        // Arrange
+        var handler = new RecordingHttpMessageHandler(@"{ ""message"": ""invalid timeframe"" }", HttpStatusCode.UnprocessableEntity);
+        var client = CreateClient(handler);
+
+        // Act
+        var page = await client.GetBarsPageAsync("AAPL", new BarsPageRequest { Timeframe = "7Min" });
+
+        // Assert
+        Assert.Null(page);
+    }
+}
+
+public class RecordingHttpMessageHandler : HttpMessageHandler
+{
+    private readonly string _responseContent;
+    private readonly HttpStatusCode _statusCode;
+
+    public HttpRequestMessage? LastRequest { get; private set; }
+
+    public RecordingHttpMessageHandler(string responseContent, HttpStatusCode statusCode = HttpStatusCode.OK)
+    {
+        _responseContent = responseContent;
+        _statusCode = statusCode;
+    }
+
+    protected override Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken cancellationToken)
+    {
+        LastRequest = request;
+        return Task.FromResult(new HttpResponseMessage(_statusCode)
+        {
+            Content = new StringContent(_responseContent, Encoding.UTF8, "application/json")
+        });
+    }
+}
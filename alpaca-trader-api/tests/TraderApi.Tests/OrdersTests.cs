@@ -1,9 +1,13 @@
 using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using Moq;
 using TraderApi.Alpaca;
+using TraderApi.Alpaca.Models;
+using TraderApi.Data;
 using TraderApi.Features.Orders;
 using TraderApi.Features.Orders.Risk;
+using TraderApi.Security;
 using Xunit;
 
 namespace TraderApi.Tests;
@@ -112,4 +116,277 @@ public class OrdersTests
         symbolViolations[0].Rule.Should().Be("SymbolWhitelist");
         symbolViolations[0].Message.Should().Contain("TSLA is not in the allowed list");
     }
+
+    [Fact]
+    public void CreateOrderValidator_ShouldAcceptStopTrailingAndAdvancedOrders()
+    {
+        // Arrange
+        var validator = new CreateOrderRequestValidator();
+        var requests = new[]
+        {
+            new CreateOrderRequest("stop-001", "AAPL", "sell", "stop", 10, null, "day", StopPrice: 140.00m),
+            new CreateOrderRequest("stop-limit-001", "AAPL", "sell", "stop_limit", 10, 139.50m, "gtc", StopPrice: 140.00m),
+            new CreateOrderRequest("trail-001", "AAPL", "sell", "trailing_stop", 10, null, "day", TrailPercent: 2.5m),
+            new CreateOrderRequest("bracket-001", "AAPL", "buy", "limit", 10, 150.00m, "gtc",
+                OrderClass: "bracket",
+                TakeProfit: new TakeProfitRequest(160.00m),
+                StopLoss: new StopLossRequest(145.00m, 144.50m)),
+            // An OCO's price is its take profit
+            new CreateOrderRequest("oco-001", "AAPL", "sell", "limit", 10, null, "day",
+                OrderClass: "oco",
+                TakeProfit: new TakeProfitRequest(160.00m),
+                StopLoss: new StopLossRequest(145.00m)),
+            new CreateOrderRequest("oto-001", "AAPL", "buy", "stop", 10, null, "day",
+                OrderClass: "oto",
+                StopPrice: 152.00m,
+                StopLoss: new StopLossRequest(148.00m))
+        };
+
+        // Act & Assert
+        foreach (var request in requests)
+        {
+            validator.Validate(request).Errors.Should().BeEmpty(request.ClientOrderId);
+        }
+    }
+
+    [Theory]
+    [InlineData("missing-trail", "TrailPrice")]
+    [InlineData("both-trails", "TrailPrice")]
+    [InlineData("bracket-without-stop-loss", "StopLoss")]
+    [InlineData("inverted-bracket", "TakeProfit")]
+    [InlineData("exits-on-simple", "OrderClass")]
+    [InlineData("trailing-ioc", "TimeInForce")]
+    public void CreateOrderValidator_ShouldRejectIncompleteOrders(string scenario, string property)
+    {
+        // Arrange
+        var validator = new CreateOrderRequestValidator();
+        var request = scenario switch
+        {
+            "missing-trail" => new CreateOrderRequest(scenario, "AAPL", "sell", "trailing_stop", 10, null, "day"),
+            "both-trails" => new CreateOrderRequest(scenario, "AAPL", "sell", "trailing_stop", 10, null, "day", TrailPrice: 1.00m, TrailPercent: 2.5m),
+            "bracket-without-stop-loss" => new CreateOrderRequest(scenario, "AAPL", "buy", "limit", 10, 150.00m, "day",
+                OrderClass: "bracket", TakeProfit: new TakeProfitRequest(160.00m)),
+            "inverted-bracket" => new CreateOrderRequest(scenario, "AAPL", "buy", "limit", 10, 150.00m, "day",
+                OrderClass: "bracket", TakeProfit: new TakeProfitRequest(140.00m), StopLoss: new StopLossRequest(145.00m)),
+            "exits-on-simple" => new CreateOrderRequest(scenario, "AAPL", "buy", "limit", 10, 150.00m, "day",
+                TakeProfit: new TakeProfitRequest(160.00m)),
+            _ => new CreateOrderRequest(scenario, "AAPL", "sell", "trailing_stop", 10, null, "ioc", TrailPrice: 1.00m)
+        };
+
+        // Act
+        var result = validator.Validate(request);
+
+        // Assert
+        result.Errors.Select(e => e.PropertyName).Should().Contain(property);
+    }
+
+    [Fact]
+    public async Task CreateOrder_ShouldSendOrderClassAndExitLegsToAlpaca()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var db = await CreateDbWithAlpacaLinkAsync(userId);
+
+        AlpacaOrderRequest? sent = null;
+        var mockAlpacaClient = new Mock<IAlpacaClient>();
+        mockAlpacaClient
+            .Setup(x => x.CreateOrderAsync("key", "secret", It.IsAny<AlpacaOrderRequest>(), null))
+            .Callback<string, string, AlpacaOrderRequest, string?>((_, _, request, _) => sent = request)
+            .ReturnsAsync(CreateAlpacaOrder("alpaca-789", "accepted", 10, 150.00m));
+
+        var mockRiskService = new Mock<IRiskService>();
+        mockRiskService
+            .Setup(x => x.ValidateOrderAsync(It.IsAny<CreateOrderRequest>(), "key", "secret"))
+            .ReturnsAsync(new List<RiskViolation>());
+
+        var service = CreateOrdersService(db, mockAlpacaClient.Object, mockRiskService.Object);
+
+        // Act
+        var response = await service.CreateOrderAsync(userId, new CreateOrderRequest(
+            "bracket-001", "AAPL", "buy", "limit", 10, 150.00m, "gtc",
+            OrderClass: "bracket",
+            TakeProfit: new TakeProfitRequest(160.00m),
+            StopLoss: new StopLossRequest(145.00m, 144.50m)));
+
+        // Assert
+        response.AlpacaOrderId.Should().Be("alpaca-789");
+        sent.Should().NotBeNull();
+        sent!.OrderClass.Should().Be("bracket");
+        sent.LimitPrice.Should().Be(150.00m);
+        sent.TakeProfit!.LimitPrice.Should().Be(160.00m);
+        sent.StopLoss!.StopPrice.Should().Be(145.00m);
+        sent.StopLoss.LimitPrice.Should().Be(144.50m);
+        sent.TrailPrice.Should().BeNull();
+    }
+
+    [Fact]
+    public void ReplaceOrderValidator_ShouldRequireAChangeAndPositiveValues()
+    {
+        // Arrange
+        var validator = new ReplaceOrderRequestValidator();
+
+        // Act
+        var empty = validator.Validate(new ReplaceOrderRequest(null, null, null, null));
+        var negative = validator.Validate(new ReplaceOrderRequest(-5, 0, null, "week"));
+        var limitOnly = validator.Validate(new ReplaceOrderRequest(null, 151.25m, null, null));
+
+        // Assert
+        empty.Errors.Select(e => e.PropertyName).Should().BeEquivalentTo("Request");
+        negative.Errors.Select(e => e.PropertyName).Should().BeEquivalentTo("Qty", "LimitPrice", "TimeInForce");
+        limitOnly.IsValid.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task ReplaceOrder_ShouldRiskCheckTheAmendedOrderAndFollowTheReplacement()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var db = await CreateDbWithAlpacaLinkAsync(userId);
+        db.Orders.Add(new OrderLocalAudit
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            ClientOrderId = "test-order-123",
+            Side = "buy",
+            Symbol = "AAPL",
+            Qty = 10,
+            LimitPrice = 150.00m,
+            Type = "limit",
+            TimeInForce = "day",
+            Status = "new",
+            AlpacaOrderId = "alpaca-123",
+            CreatedAt = DateTime.UtcNow
+        });
+        await db.SaveChangesAsync();
+
+        var mockAlpacaClient = new Mock<IAlpacaClient>();
+        mockAlpacaClient
+            .Setup(x => x.GetOrderAsync("key", "secret", "alpaca-123", null))
+            .ReturnsAsync(CreateAlpacaOrder("alpaca-123", "new", 10, 150.00m));
+        mockAlpacaClient
+            .Setup(x => x.ReplaceOrderAsync("key", "secret", "alpaca-123", It.IsAny<AlpacaReplaceOrderRequest>(), null))
+            .ReturnsAsync(CreateAlpacaOrder("alpaca-456", "pending_new", 10, 148.50m));
+
+        var mockRiskService = new Mock<IRiskService>();
+        mockRiskService
+            .Setup(x => x.ValidateOrderAsync(It.IsAny<CreateOrderRequest>(), "key", "secret"))
+            .ReturnsAsync(new List<RiskViolation>());
+
+        var service = CreateOrdersService(db, mockAlpacaClient.Object, mockRiskService.Object);
+
+        // Act
+        var replacement = await service.ReplaceOrderAsync(userId, "alpaca-123", new ReplaceOrderRequest(null, 148.50m, null, null));
+
+        // Assert
+        replacement.Should().NotBeNull();
+        replacement!.Id.Should().Be("alpaca-456");
+        replacement.LimitPrice.Should().Be(148.50m);
+
+        mockRiskService.Verify(x => x.ValidateOrderAsync(
+            It.Is<CreateOrderRequest>(r => r.Symbol == "AAPL" && r.Qty == 10 && r.LimitPrice == 148.50m && r.Type == "limit"),
+            "key", "secret"), Times.Once);
+        mockAlpacaClient.Verify(x => x.ReplaceOrderAsync("key", "secret", "alpaca-123",
+            It.Is<AlpacaReplaceOrderRequest>(r => r.LimitPrice == 148.50m && r.Qty == null && r.StopPrice == null),
+            null), Times.Once);
+
+        var audit = await db.Orders.SingleAsync();
+        audit.AlpacaOrderId.Should().Be("alpaca-456");
+        audit.LimitPrice.Should().Be(148.50m);
+        audit.Status.Should().Be("pending_new");
+    }
+
+    [Fact]
+    public async Task ReplaceOrder_ShouldNotReachAlpaca_WhenRiskChecksFail()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var db = await CreateDbWithAlpacaLinkAsync(userId);
+
+        var mockAlpacaClient = new Mock<IAlpacaClient>();
+        mockAlpacaClient
+            .Setup(x => x.GetOrderAsync("key", "secret", "alpaca-123", null))
+            .ReturnsAsync(CreateAlpacaOrder("alpaca-123", "new", 10, 150.00m));
+
+        var mockRiskService = new Mock<IRiskService>();
+        mockRiskService
+            .Setup(x => x.ValidateOrderAsync(It.IsAny<CreateOrderRequest>(), "key", "secret"))
+            .ReturnsAsync(new List<RiskViolation> { new("MaxShareQuantity", "Order quantity 500 exceeds maximum 100 shares") });
+
+        var service = CreateOrdersService(db, mockAlpacaClient.Object, mockRiskService.Object);
+
+        // Act
+        var act = () => service.ReplaceOrderAsync(userId, "alpaca-123", new ReplaceOrderRequest(500, null, null, null));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("Risk check failed: Order quantity 500 exceeds maximum 100 shares");
+        mockAlpacaClient.Verify(x => x.ReplaceOrderAsync(
+            It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<AlpacaReplaceOrderRequest>(), It.IsAny<string?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task ReplaceOrder_ShouldRejectAStopPriceOnALimitOrder()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var db = await CreateDbWithAlpacaLinkAsync(userId);
+
+        var mockAlpacaClient = new Mock<IAlpacaClient>();
+        mockAlpacaClient
+            .Setup(x => x.GetOrderAsync("key", "secret", "alpaca-123", null))
+            .ReturnsAsync(CreateAlpacaOrder("alpaca-123", "new", 10, 150.00m));
+
+        var service = CreateOrdersService(db, mockAlpacaClient.Object, Mock.Of<IRiskService>());
+
+        // Act
+        var act = () => service.ReplaceOrderAsync(userId, "alpaca-123", new ReplaceOrderRequest(null, null, 140.00m, null));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("Stop price can't be set on a limit order");
+    }
+
+    private static async Task<AppDbContext> CreateDbWithAlpacaLinkAsync(Guid userId)
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase($"TestDb_{Guid.NewGuid()}")
+            .Options;
+        var db = new AppDbContext(options);
+
+        db.AlpacaLinks.Add(new AlpacaLink
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            AccountId = "920964623",
+            ApiKeyId = "key",
+            ApiSecret = "secret",
+            Env = "paper",
+            CreatedAt = DateTime.UtcNow
+        });
+        await db.SaveChangesAsync();
+
+        return db;
+    }
+
+    private static OrdersService CreateOrdersService(AppDbContext db, IAlpacaClient alpacaClient, IRiskService riskService)
+    {
+        var mockKeyProtector = new Mock<IKeyProtector>();
+        mockKeyProtector.Setup(x => x.Decrypt(It.IsAny<string>())).Returns<string>(s => s);
+
+        return new OrdersService(db, alpacaClient, riskService, mockKeyProtector.Object, Mock.Of<ILogger<OrdersService>>());
+    }
+
+    private static AlpacaOrder CreateAlpacaOrder(string id, string status, decimal qty, decimal limitPrice) => new()
+    {
+        Id = id,
+        ClientOrderId = "test-order-123",
+        Symbol = "AAPL",
+        Side = "buy",
+        Type = "limit",
+        TimeInForce = "day",
+        Qty = qty,
+        LimitPrice = limitPrice,
+        Status = status,
+        CreatedAt = DateTime.UtcNow
+    };
 }
\ No newline at end of file
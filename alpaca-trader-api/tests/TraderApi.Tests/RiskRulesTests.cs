@@ -44,6 +44,29 @@ public class RiskRulesTests
         }
     }
 
+    [Fact]
+    public async Task MaxOrderNotionalRule_ShouldPriceStopAndOcoOrdersFromTheirLegs()
+    {
+        // Arrange
+        var rule = new MaxOrderNotionalRule(10000);
+        var stop = new CreateOrderRequest("test-001", "AAPL", "buy", "stop", 100, null, "day", StopPrice: 101.00m);
+        var oco = new CreateOrderRequest("test-002", "AAPL", "sell", "limit", 100, null, "day",
+            OrderClass: "oco",
+            TakeProfit: new TakeProfitRequest(102.00m),
+            StopLoss: new StopLossRequest(95.00m));
+        var trailing = new CreateOrderRequest("test-003", "AAPL", "sell", "trailing_stop", 100, null, "day", TrailPercent: 2m);
+
+        // Act
+        var stopViolation = await rule.ValidateAsync(stop, null);
+        var ocoViolation = await rule.ValidateAsync(oco, null);
+        var trailingViolation = await rule.ValidateAsync(trailing, 99.00m);
+
+        // Assert
+        stopViolation!.Message.Should().Contain("$10,100.00");
+        ocoViolation!.Message.Should().Contain("$10,200.00");
+        trailingViolation.Should().BeNull(); // 100 * 99 = $9,900 at the current price
+    }
+
     [Theory]
     [InlineData(100, 100, false)]  // At limit
     [InlineData(101, 100, true)]   // Over limit
@@ -0,0 +1,355 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the backend market data hub (`/hubs/market-data`).
+ *
+ * Speaks just enough of the SignalR JSON protocol over a raw WebSocket for
+ * `marketDataService` to connect with `skipNegotiation`, and serves
+ * `/api/assets/{symbol}` so the REST polling fallback can be exercised too.
+ * Also answers `SubscribeDepth` with a `DepthSnapshot` and `DepthDelta` stream,
+ * for running the Depth panel with `VITE_DEPTH_PROVIDER=hub`, and `SubscribeTrades`
+ * with batches of `TradePrints` for the Time & Sales panel.
+ *
+ *   npm run mock:market-data -- --port 5055 --interval 500 --drop-every 30
+ *
+ * Then start the client with
+ *   VITE_MARKET_DATA_HUB_URL=http://localhost:5055/hubs/market-data
+ *   VITE_API_URL=http://localhost:5055/api        (optional, for polling)
+ */
+import http from 'node:http';
+import { WebSocketServer } from 'ws';
+
+const RECORD_SEPARATOR = '\u001e';
+const MessageType = { Invocation: 1, Completion: 3, Ping: 6, Close: 7 };
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] !== undefined ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = getArg('port', 5055);
+const TICK_INTERVAL = getArg('interval', 500);
+// Forcibly drop every socket every N seconds to exercise reconnect + resubscribe (0 = never)
+const DROP_EVERY = getArg('drop-every', 0);
+const PING_INTERVAL = 10 * 1000;
+
+// Random-walk price state per symbol -----------------------------------------
+
+const books = new Map();
+
+const getBook = (symbol) => {
+  let book = books.get(symbol);
+  if (!book) {
+    const previousClose = 50 + Math.random() * 250;
+    book = {
+      previousClose,
+      price: previousClose,
+      dayHigh: previousClose,
+      dayLow: previousClose,
+      volume: 0,
+    };
+    books.set(symbol, book);
+  }
+  return book;
+};
+
+const nextQuote = (symbol) => {
+  const book = getBook(symbol);
+  const drift = book.price * 0.0015 * (Math.random() - 0.5);
+  book.price = Math.max(0.01, book.price + drift);
+  book.dayHigh = Math.max(book.dayHigh, book.price);
+  book.dayLow = Math.min(book.dayLow, book.price);
+  book.volume += Math.floor(Math.random() * 500) + 1;
+
+  const spread = Math.max(0.01, book.price * 0.0002);
+  const change = book.price - book.previousClose;
+
+  return {
+    symbol,
+    price: round(book.price),
+    bidPrice: round(book.price - spread / 2),
+    askPrice: round(book.price + spread / 2),
+    bidSize: Math.floor(Math.random() * 900) + 100,
+    askSize: Math.floor(Math.random() * 900) + 100,
+    volume: book.volume,
+    timestamp: new Date().toISOString(),
+    change: round(change),
+    changePercent: round((change / book.previousClose) * 100),
+    dayHigh: round(book.dayHigh),
+    dayLow: round(book.dayLow),
+    previousClose: round(book.previousClose),
+    dataSource: 'Mock',
+  };
+};
+
+const round = (value) => Math.round(value * 100) / 100;
+
+let printId = 0;
+const EXCHANGES = ['V', 'Q', 'N', 'P', 'Z'];
+
+// A few prints around the current quote, mostly odd and round lots with the occasional block
+const nextPrints = (symbol) => {
+  const quote = nextQuote(symbol);
+  const count = Math.floor(Math.random() * 4);
+  return Array.from({ length: count }, () => {
+    const roll = Math.random();
+    const price = roll < 0.4 ? quote.bidPrice : roll < 0.8 ? quote.askPrice : quote.price;
+    const size = Math.random() < 0.03
+      ? (Math.floor(Math.random() * 50) + 10) * 100
+      : Math.random() < 0.5 ? Math.floor(Math.random() * 99) + 1 : (Math.floor(Math.random() * 5) + 1) * 100;
+    return {
+      id: String(++printId),
+      symbol,
+      price,
+      size,
+      exchange: EXCHANGES[Math.floor(Math.random() * EXCHANGES.length)],
+      conditions: size < 100 ? ['@', 'I'] : ['@'],
+      timestamp: new Date().toISOString(),
+      bidPrice: quote.bidPrice,
+      askPrice: quote.askPrice,
+    };
+  });
+};
+
+// Level 2 books ---------------------------------------------------------------
+
+const DEPTH_LEVELS = 10;
+
+const randomLotSize = () => (1 + Math.floor(Math.random() * 20)) * 100;
+
+const createDepthBook = (symbol) => ({ symbol, sequence: 0, bids: new Map(), asks: new Map() });
+
+// Move the book onto the current price and resize a few levels; returns the changed levels
+const updateDepthBook = (depth) => {
+  const mid = Math.round(getBook(depth.symbol).price * 100);
+  const changes = [];
+
+  const sync = (side, levels, best, direction) => {
+    const worst = best + direction * (DEPTH_LEVELS - 1);
+    Array.from(levels.keys()).forEach(cents => {
+      const outside = direction === -1 ? cents > best || cents < worst : cents < best || cents > worst;
+      if (outside) {
+        levels.delete(cents);
+        changes.push({ side, price: cents / 100, size: 0 });
+      }
+    });
+    for (let i = 0; i < DEPTH_LEVELS; i++) {
+      const cents = best + direction * i;
+      if (!levels.has(cents) || Math.random() < 0.1) {
+        const size = randomLotSize();
+        levels.set(cents, size);
+        changes.push({ side, price: cents / 100, size });
+      }
+    }
+  };
+
+  sync('bid', depth.bids, mid - 1, -1);
+  sync('ask', depth.asks, mid + 1, 1);
+  return changes;
+};
+
+const depthSnapshot = (depth) => ({
+  symbol: depth.symbol,
+  sequence: depth.sequence,
+  timestamp: new Date().toISOString(),
+  bids: Array.from(depth.bids.entries()).sort((a, b) => b[0] - a[0]).map(([cents, size]) => [cents / 100, size]),
+  asks: Array.from(depth.asks.entries()).sort((a, b) => a[0] - b[0]).map(([cents, size]) => [cents / 100, size]),
+});
+
+// REST fallback --------------------------------------------------------------
+
+const server = http.createServer((req, res) => {
+  const match = req.url && req.url.match(/^\/api\/assets\/([A-Za-z.]+)\/?$/);
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method === 'GET' && match) {
+    const symbol = match[1].toUpperCase();
+    const quote = nextQuote(symbol);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: symbol,
+      symbol,
+      name: `${symbol} Mock Company`,
+      class: 'us_equity',
+      status: 'active',
+      tradable: true,
+      ...quote,
+    }));
+    return;
+  }
+
+  res.writeHead(404).end();
+});
+
+// SignalR hub ----------------------------------------------------------------
+
+const wss = new WebSocketServer({ server, path: '/hubs/market-data' });
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message) + RECORD_SEPARATOR);
+  }
+};
+
+const invokeClient = (socket, target, ...argumentsList) => {
+  send(socket, { type: MessageType.Invocation, target, arguments: argumentsList });
+};
+
+wss.on('connection', (socket, req) => {
+  const connectionId = Math.random().toString(36).slice(2, 10);
+  const symbols = new Set();
+  const depthBooks = new Map();
+  const tradeSymbols = new Set();
+  let handshakeDone = false;
+
+  console.log(`🔌 Client connected: ${connectionId} (${req.url})`);
+
+  const ticker = setInterval(() => {
+    symbols.forEach(symbol => invokeClient(socket, 'QuoteUpdate', nextQuote(symbol)));
+    tradeSymbols.forEach(symbol => {
+      const prints = nextPrints(symbol);
+      if (prints.length > 0) invokeClient(socket, 'TradePrints', prints);
+    });
+    depthBooks.forEach(depth => {
+      const changes = updateDepthBook(depth);
+      if (changes.length === 0) return;
+      depth.sequence++;
+      invokeClient(socket, 'DepthDelta', {
+        symbol: depth.symbol,
+        sequence: depth.sequence,
+        timestamp: new Date().toISOString(),
+        changes,
+      });
+    });
+  }, TICK_INTERVAL);
+
+  const pinger = setInterval(() => send(socket, { type: MessageType.Ping }), PING_INTERVAL);
+
+  const handleInvocation = (message) => {
+    const [arg] = message.arguments || [];
+
+    switch (message.target) {
+      case 'Subscribe':
+        symbols.add(String(arg).toUpperCase());
+        invokeClient(socket, 'Subscribed', String(arg).toUpperCase());
+        break;
+      case 'SubscribeMultiple':
+        (arg || []).forEach(symbol => symbols.add(String(symbol).toUpperCase()));
+        invokeClient(socket, 'SubscribedMultiple', Array.from(symbols));
+        break;
+      case 'Unsubscribe':
+        symbols.delete(String(arg).toUpperCase());
+        invokeClient(socket, 'Unsubscribed', String(arg).toUpperCase());
+        break;
+      case 'UnsubscribeAll':
+        symbols.clear();
+        invokeClient(socket, 'UnsubscribedAll');
+        break;
+      case 'SubscribeDepth': {
+        // Subscribing again re-sends the snapshot, which is how the client resyncs
+        const symbol = String(arg).toUpperCase();
+        let depth = depthBooks.get(symbol);
+        if (!depth) {
+          depth = createDepthBook(symbol);
+          updateDepthBook(depth);
+          depthBooks.set(symbol, depth);
+        }
+        invokeClient(socket, 'DepthSnapshot', depthSnapshot(depth));
+        break;
+      }
+      case 'UnsubscribeDepth':
+        depthBooks.delete(String(arg).toUpperCase());
+        break;
+      case 'SubscribeTrades':
+        tradeSymbols.add(String(arg).toUpperCase());
+        invokeClient(socket, 'SubscribedTrades', String(arg).toUpperCase());
+        break;
+      case 'UnsubscribeTrades':
+        tradeSymbols.delete(String(arg).toUpperCase());
+        invokeClient(socket, 'UnsubscribedTrades', String(arg).toUpperCase());
+        break;
+      default:
+        if (message.invocationId) {
+          send(socket, {
+            type: MessageType.Completion,
+            invocationId: message.invocationId,
+            error: `Unknown hub method '${message.target}'`,
+          });
+        }
+        return;
+    }
+
+    console.log(`📡 ${connectionId} ${message.target}: [${Array.from(symbols).join(', ')}] depth: [${Array.from(depthBooks.keys()).join(', ')}] trades: [${Array.from(tradeSymbols).join(', ')}]`);
+    if (message.invocationId) {
+      send(socket, { type: MessageType.Completion, invocationId: message.invocationId });
+    }
+  };
+
+  socket.on('message', (data) => {
+    const frames = data.toString().split(RECORD_SEPARATOR).filter(Boolean);
+
+    for (const frame of frames) {
+      let message;
+      try {
+        message = JSON.parse(frame);
+      } catch (error) {
+        // A malformed frame ends this connection, not the server
+        const reason = `Malformed message: ${error.message}`;
+        console.warn(`⚠️ ${connectionId} ${reason}`);
+        if (handshakeDone) {
+          send(socket, { type: MessageType.Close, error: reason });
+        } else {
+          socket.send(JSON.stringify({ error: reason }) + RECORD_SEPARATOR);
+        }
+        socket.close(1007, 'Malformed message');
+        return;
+      }
+
+      if (!handshakeDone) {
+        handshakeDone = true;
+        socket.send('{}' + RECORD_SEPARATOR);
+        invokeClient(socket, 'ConnectionStatus', { connected: true, connectionId });
+        continue;
+      }
+
+      if (message.type === MessageType.Invocation) {
+        handleInvocation(message);
+      } else if (message.type === MessageType.Close) {
+        socket.close();
+      }
+    }
+  });
+
+  socket.on('close', () => {
+    clearInterval(ticker);
+    clearInterval(pinger);
+    console.log(`🔌 Client disconnected: ${connectionId}`);
+  });
+});
+
+if (DROP_EVERY > 0) {
+  setInterval(() => {
+    console.log(`💥 Dropping ${wss.clients.size} connection(s)`);
+    wss.clients.forEach(socket => socket.terminate());
+  }, DROP_EVERY * 1000);
+}
+
+server.listen(PORT, () => {
+  console.log(`🚀 Mock market data server listening on http://localhost:${PORT}`);
+  console.log(`   Hub:  ws://localhost:${PORT}/hubs/market-data`);
+  console.log(`   REST: http://localhost:${PORT}/api/assets/{symbol}`);
+});
+
+const shutdown = () => {
+  wss.clients.forEach(socket => socket.terminate());
+  server.close(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -13,6 +13,7 @@ import PortfolioPage from './pages/Portfolio/PortfolioPage';
 import TradingPage from './pages/Trading/TradingPage';
 import AlertsPage from './pages/Alerts/AlertsPage';
 import AccountPage from './pages/Account/AccountPage';
+import SharedChartPage from './pages/SharedChart/SharedChartPage';
 import TermsOfServicePage from './pages/Legal/TermsOfServicePage';
 import PrivacyPolicyPage from './pages/Legal/PrivacyPolicyPage';
 
@@ -48,6 +49,11 @@ function App() {
                 <Route path="/account" element={<AccountPage />} />
               </Route>
             </Route>
+            <Route element={<ProtectedRoute returnAfterLogin />}>
+              <Route element={<Layout />}>
+                <Route path="/chart/shared" element={<SharedChartPage />} />
+              </Route>
+            </Route>
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </Router>
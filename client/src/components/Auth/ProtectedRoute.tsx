@@ -1,9 +1,15 @@
 import React from 'react';
-import { Navigate, Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 
-const ProtectedRoute: React.FC = () => {
+interface ProtectedRouteProps {
+  // Send signed-out visitors to log in and then back to the full URL, e.g. for shared links
+  returnAfterLogin?: boolean;
+}
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ returnAfterLogin = false }) => {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -19,7 +25,10 @@ const ProtectedRoute: React.FC = () => {
     );
   }
 
-  return isAuthenticated ? <Outlet /> : <Navigate to="/" replace />;
+  if (isAuthenticated) return <Outlet />;
+  return returnAfterLogin
+    ? <Navigate to="/login" replace state={{ from: location }} />
+    : <Navigate to="/" replace />;
 };
 
 export default ProtectedRoute;
\ No newline at end of file
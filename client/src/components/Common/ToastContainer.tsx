@@ -0,0 +1,32 @@
+import React from 'react';
+import useToastStore from '../../store/toastStore';
+import styles from './ToastContainer.module.css';
+
+const ToastContainer: React.FC = () => {
+  const toasts = useToastStore(state => state.toasts);
+  const dismissToast = useToastStore(state => state.dismissToast);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className={styles.container} role="status" aria-live="polite">
+      {toasts.map(toast => (
+        <div key={toast.id} className={`${styles.toast} ${styles[toast.variant]}`}>
+          <div className={styles.content}>
+            <div className={styles.title}>{toast.title}</div>
+            {toast.message && <div className={styles.message}>{toast.message}</div>}
+          </div>
+          <button
+            className={styles.closeButton}
+            onClick={() => dismissToast(toast.id)}
+            aria-label="Dismiss notification"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastContainer;
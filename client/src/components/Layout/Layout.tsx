@@ -1,17 +1,25 @@
 import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Navigation from './Navigation';
+import ToastContainer from '../Common/ToastContainer';
+import { useAlertMonitor, useTradeUpdatesMonitor } from '../../hooks';
 import styles from './Layout.module.css';
 
 const Layout: React.FC = () => {
+  // Evaluate price alerts on every authenticated page
+  useAlertMonitor();
+  // Keep orders, positions and the account in sync with fills as they happen
+  useTradeUpdatesMonitor();
+
   return (
     <div className={`${styles.layout} ${styles.navCollapsed}`}>
       <Navigation isCollapsed={true} />
       <main className={styles.main}>
         <Outlet />
       </main>
+      <ToastContainer />
     </div>
   );
 };
 
-export default Layout;
\ No newline at end of file
+export default Layout;
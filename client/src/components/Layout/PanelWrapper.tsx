@@ -1,6 +1,6 @@
 import React, { useState, useCallback } from 'react';
 import useLayoutStore, { useActiveLayout } from '../../store/layoutStore';
-import type { Panel } from '../../types/layout';
+import type { OrderPrefill, Panel } from '../../types/layout';
 import type { IPanelComponentProps } from '../../types/panel';
 import TradingChartWithData from '../TradingChart/TradingChartWithData';
 import {
@@ -15,6 +15,10 @@ import {
   PositionsPanel,
   OrdersPanel,
   AccountsPanel,
+  DepthPanel,
+  TimeSalesPanel,
+  ScannerPanel,
+  OptionsChainPanel,
 } from '../Panels';
 import ConfirmModal from '../Common/ConfirmModal';
 import './PanelWrapper.css';
@@ -40,6 +44,10 @@ const panelComponents: Record<string, React.FC<IPanelComponentProps>> = {
   orders: OrdersPanel,
   account: AccountsPanel,
   news: NewsPanel,
+  depth: DepthPanel,
+  'time-sales': TimeSalesPanel,
+  scanner: ScannerPanel,
+  options: OptionsChainPanel,
 };
 
 const PanelWrapper: React.FC<PanelWrapperProps> = ({ panel }) => {
@@ -47,7 +55,8 @@ const PanelWrapper: React.FC<PanelWrapperProps> = ({ panel }) => {
     removePanel, 
     updatePanel,
     assignPanelToLinkGroup,
-    propagateSymbol
+    propagateSymbol,
+    propagateOrderPrefill
   } = useLayoutStore();
   
   const activeLayout = useActiveLayout();
@@ -63,6 +72,8 @@ const PanelWrapper: React.FC<PanelWrapperProps> = ({ panel }) => {
     return linkGroup?.symbol || localSymbol;
   }, [panel.config.linkGroup, activeLayout, localSymbol]);
 
+  const orderPrefill = activeLayout?.linkGroups.find(g => g.id === panel.config.linkGroup)?.orderPrefill;
+
   const handleClose = useCallback(() => {
     setShowCloseConfirm(true);
   }, []);
@@ -115,6 +126,12 @@ const PanelWrapper: React.FC<PanelWrapperProps> = ({ panel }) => {
     }
   }, [panel.config.linkGroup, activeLayout, propagateSymbol]);
 
+  // Orders can only be handed to other panels through a link group
+  const handleOrderPrefill = useCallback((prefill: Omit<OrderPrefill, 'id'>) => {
+    if (!panel.config.linkGroup) return;
+    propagateOrderPrefill(panel.config.linkGroup, { ...prefill, id: `prefill-${Date.now()}` });
+  }, [panel.config.linkGroup, propagateOrderPrefill]);
+
   const handleConfigChange = useCallback((updates: Partial<typeof panel.config>) => {
     updatePanel(panel.id, {
       config: { ...panel.config, ...updates }
@@ -179,6 +196,8 @@ const PanelWrapper: React.FC<PanelWrapperProps> = ({ panel }) => {
             config={panel.config}
             symbol={linkedSymbol}
             onSymbolChange={handleSymbolChange}
+            orderPrefill={orderPrefill}
+            onOrderPrefill={panel.config.linkGroup ? handleOrderPrefill : undefined}
             onConfigChange={handleConfigChange}
           />
         </div>
@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo } from 'react';
+import type { IPanelComponentProps } from '../../types/panel';
+import SymbolAutocomplete from '../Common/SymbolAutocomplete';
+import { useOrderBook } from '../../hooks';
+import { isSimulatedDepthProvider } from '../../services/defaultDepthFeed';
+import { PRICE_GROUPINGS, buildDepthLadder, type LadderRow } from '../../services/orderBook';
+import './Panels.css';
+
+const DEFAULT_GROUPING = 0.01;
+const DEFAULT_DEPTH = 15;
+
+const formatSize = (size: number) => new Intl.NumberFormat('en-US').format(size);
+
+const DepthPanel: React.FC<IPanelComponentProps> = ({
+  config,
+  symbol: linkedSymbol,
+  onSymbolChange,
+  onConfigChange,
+  onOrderPrefill,
+  onReady,
+}) => {
+  const symbol = linkedSymbol || config.symbol || 'AAPL';
+  const grouping: number = config.settings?.grouping ?? DEFAULT_GROUPING;
+  const depth: number = config.settings?.depth ?? DEFAULT_DEPTH;
+  const { book, resyncing } = useOrderBook(symbol);
+
+  useEffect(() => {
+    onReady?.();
+  }, [onReady]);
+
+  const ladder = useMemo(() => book && buildDepthLadder(book, grouping, depth), [book, grouping, depth]);
+  const priceDecimals = grouping < 1 ? 2 : 0;
+
+  const handleSymbolSelect = (newSymbol: string) => {
+    onSymbolChange?.(newSymbol);
+    onConfigChange?.({ symbol: newSymbol });
+  };
+
+  const handleGroupingChange = (value: number) => {
+    onConfigChange?.({ settings: { ...config.settings, grouping: value } });
+  };
+
+  // Clicking a bid joins the bid with a buy; clicking an ask joins the offer with a sell
+  const handleRowClick = (row: LadderRow) => {
+    onOrderPrefill?.({
+      symbol,
+      side: row.side === 'bid' ? 'buy' : 'sell',
+      type: 'limit',
+      limitPrice: row.price,
+    });
+  };
+
+  const renderRow = (row: LadderRow) => {
+    const barWidth = ladder && ladder.maxCumulativeSize > 0
+      ? (row.cumulativeSize / ladder.maxCumulativeSize) * 100
+      : 0;
+
+    return (
+      <div
+        key={`${row.side}-${row.price}`}
+        className={`depth-row ${row.side} ${onOrderPrefill ? 'clickable' : ''}`}
+        onClick={() => handleRowClick(row)}
+        title={onOrderPrefill
+          ? `${row.side === 'bid' ? 'Buy' : 'Sell'} limit @ ${row.price.toFixed(2)}`
+          : 'Link this panel to a trade panel to prefill orders'}
+      >
+        <div className="depth-bar" style={{ width: `${barWidth}%` }} />
+        <span className="depth-price">{row.price.toFixed(priceDecimals)}</span>
+        <span className="depth-size">{formatSize(row.size)}</span>
+        <span className="depth-total">{formatSize(row.cumulativeSize)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="depth-panel">
+      <div className="depth-header">
+        <SymbolAutocomplete
+          onSymbolSelect={handleSymbolSelect}
+          placeholder="Symbol..."
+          mode="immediate"
+          value={symbol}
+        />
+        <select
+          className="depth-grouping"
+          value={grouping}
+          onChange={(e) => handleGroupingChange(parseFloat(e.target.value))}
+          title="Price grouping"
+        >
+          {PRICE_GROUPINGS.map(value => (
+            <option key={value} value={value}>{value.toFixed(2)}</option>
+          ))}
+        </select>
+      </div>
+
+      {isSimulatedDepthProvider && (
+        <div className="demo-data-notice">Simulated order book (set VITE_DEPTH_PROVIDER=hub to stream depth)</div>
+      )}
+
+      {!ladder ? (
+        <div className="panel-loading">
+          <div className="spinner" />
+          <span>{resyncing ? 'Resyncing order book...' : `Waiting for ${symbol} depth...`}</span>
+        </div>
+      ) : (
+        <div className="depth-ladder">
+          <div className="depth-columns">
+            <span>Price</span>
+            <span>Size</span>
+            <span>Total</span>
+          </div>
+          {/* Asks run from the worst price down to the best, so both sides meet at the spread */}
+          {[...ladder.asks].reverse().map(renderRow)}
+          <div className="depth-spread">
+            <span>Spread {ladder.spread !== undefined ? ladder.spread.toFixed(2) : '—'}</span>
+            <span>Mid {ladder.midPrice !== undefined ? ladder.midPrice.toFixed(3) : '—'}</span>
+          </div>
+          {ladder.bids.map(renderRow)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+DepthPanel.displayName = 'Depth';
+
+export default DepthPanel;
@@ -0,0 +1,422 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { IPanelComponentProps } from '../../types/panel';
+import type { OptionContract, OptionType, OrderSide } from '../../types';
+import SymbolAutocomplete from '../Common/SymbolAutocomplete';
+import OrderPreview from '../Trading/OrderPreview';
+import { useCreateOrder, useOptionChain, useOptionExpirations, usePositions } from '../../hooks';
+import { useQuote } from '../../store/marketDataStore';
+import useToastStore from '../../store/toastStore';
+import { isSimulatedOptionsProvider } from '../../services/defaultOptionsApi';
+import { validateOrder } from '../../utils/orderHelpers';
+import {
+  OPTION_CONTRACT_MULTIPLIER,
+  OPTION_STRATEGY_LABELS,
+  buildOptionOrder,
+  buildStrategyLegs,
+  describeOptionSymbol,
+  findAtmStrike,
+  formatExpiration,
+  formatStrike,
+  getDaysToExpiration,
+  getNetPrice,
+  isInTheMoney,
+  type OptionStrategy,
+  type OptionTicketLeg,
+} from '../../utils/optionHelpers';
+import './Panels.css';
+
+// Strikes shown on each side of the money; 0 shows the whole chain
+const STRIKE_RANGES = [5, 10, 20, 0];
+const DEFAULT_STRIKE_RANGE = 10;
+
+type ChainColumn = 'bid' | 'ask' | 'iv' | 'delta' | 'gamma' | 'theta' | 'vega' | 'oi';
+
+const COLUMN_LABELS: Record<ChainColumn, string> = {
+  bid: 'Bid',
+  ask: 'Ask',
+  iv: 'IV',
+  delta: 'Δ',
+  gamma: 'Γ',
+  theta: 'Θ',
+  vega: 'Vega',
+  oi: 'OI',
+};
+
+const BASE_COLUMNS: ChainColumn[] = ['bid', 'ask', 'iv', 'delta', 'oi'];
+const GREEK_COLUMNS: ChainColumn[] = ['bid', 'ask', 'iv', 'delta', 'gamma', 'theta', 'vega', 'oi'];
+
+const formatPrice = (value?: number) => value === undefined ? '—' : value.toFixed(2);
+const formatCount = (value?: number) => value === undefined ? '—' : new Intl.NumberFormat('en-US').format(value);
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const formatCell = (contract: OptionContract, column: ChainColumn): string => {
+  switch (column) {
+    case 'bid':
+      return formatPrice(contract.bid);
+    case 'ask':
+      return formatPrice(contract.ask);
+    case 'iv':
+      return contract.impliedVolatility === undefined ? '—' : `${(contract.impliedVolatility * 100).toFixed(1)}%`;
+    case 'delta':
+      return contract.greeks ? contract.greeks.delta.toFixed(2) : '—';
+    case 'gamma':
+      return contract.greeks ? contract.greeks.gamma.toFixed(3) : '—';
+    case 'theta':
+      return contract.greeks ? contract.greeks.theta.toFixed(3) : '—';
+    case 'vega':
+      return contract.greeks ? contract.greeks.vega.toFixed(3) : '—';
+    case 'oi':
+      return formatCount(contract.openInterest);
+  }
+};
+
+const OptionsChainPanel: React.FC<IPanelComponentProps> = ({
+  config,
+  symbol: linkedSymbol,
+  onSymbolChange,
+  onConfigChange,
+  onReady,
+}) => {
+  const symbol = linkedSymbol || config.symbol || 'AAPL';
+  const savedExpiration: string | undefined = config.settings?.expiration;
+  const strikeRange: number = config.settings?.strikeRange ?? DEFAULT_STRIKE_RANGE;
+  const showGreeks: boolean = config.settings?.showGreeks ?? false;
+  const strategy: OptionStrategy = config.settings?.strategy ?? 'single';
+
+  const { data: expirations = [], isLoading: expirationsLoading } = useOptionExpirations(symbol);
+  const expiration = savedExpiration && expirations.includes(savedExpiration) ? savedExpiration : expirations[0];
+  const { data: chain, isLoading: chainLoading, error } = useOptionChain(symbol, expiration);
+  const quote = useQuote(symbol);
+  const { data: positions } = usePositions();
+  const createOrder = useCreateOrder();
+  const showToast = useToastStore(state => state.showToast);
+
+  const [legs, setLegs] = useState<OptionTicketLeg[]>([]);
+  const [qty, setQty] = useState('1');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const atmRowRef = useRef<HTMLTableRowElement>(null);
+  const centeredFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    onReady?.();
+  }, [onReady]);
+
+  // Tickets are built from one expiration's contracts
+  useEffect(() => {
+    setLegs([]);
+    setErrors([]);
+  }, [symbol, expiration]);
+
+  const underlyingPrice = quote?.price ?? chain?.underlyingPrice;
+  const contracts = useMemo(() => chain?.contracts ?? [], [chain]);
+
+  const rows = useMemo(() => {
+    const byStrike = new Map<number, { call?: OptionContract; put?: OptionContract }>();
+    contracts.forEach(contract => {
+      const row = byStrike.get(contract.strikePrice) ?? {};
+      row[contract.type] = contract;
+      byStrike.set(contract.strikePrice, row);
+    });
+    return Array.from(byStrike.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([strike, row]) => ({ strike, ...row }));
+  }, [contracts]);
+
+  const atmStrike = findAtmStrike(rows.map(row => row.strike), underlyingPrice);
+
+  const visibleRows = useMemo(() => {
+    if (strikeRange === 0 || atmStrike === undefined) return rows;
+    const atmIndex = rows.findIndex(row => row.strike === atmStrike);
+    return rows.slice(Math.max(0, atmIndex - strikeRange), atmIndex + strikeRange + 1);
+  }, [rows, atmStrike, strikeRange]);
+
+  // Bring the money into view once per chain, not on every quote refresh
+  useEffect(() => {
+    const key = `${symbol}:${expiration}`;
+    if (atmRowRef.current && centeredFor.current !== key) {
+      atmRowRef.current.scrollIntoView({ block: 'center' });
+      centeredFor.current = key;
+    }
+  }, [symbol, expiration, visibleRows]);
+
+  // Ticket legs follow the latest quotes
+  const ticketLegs = useMemo(() => {
+    const bySymbol = new Map(contracts.map(contract => [contract.symbol, contract]));
+    return legs.map(leg => ({ ...leg, contract: bySymbol.get(leg.contract.symbol) ?? leg.contract }));
+  }, [legs, contracts]);
+
+  const midNet = getNetPrice(ticketLegs);
+  const naturalNet = getNetPrice(ticketLegs, 'natural');
+  const isCredit = (midNet ?? 0) < 0;
+  const orderData = ticketLegs.length > 0 ? buildOptionOrder(ticketLegs, { qty, limitPrice, positions }) : null;
+  const estimatedTotal = (parseFloat(qty) || 0) * (parseFloat(limitPrice) || 0) * OPTION_CONTRACT_MULTIPLIER;
+
+  const updateSettings = (updates: Record<string, unknown>) => {
+    onConfigChange?.({ settings: { ...config.settings, ...updates } });
+  };
+
+  const handleSymbolSelect = (newSymbol: string) => {
+    onSymbolChange?.(newSymbol);
+    onConfigChange?.({ symbol: newSymbol });
+  };
+
+  // Clicking the ask buys and clicking the bid sells, building the selected strategy around the contract
+  const handleQuoteClick = (contract: OptionContract, side: OrderSide) => {
+    const strategyLegs = buildStrategyLegs(strategy, contract, side, contracts);
+    if (!strategyLegs) {
+      showToast({
+        title: `No ${OPTION_STRATEGY_LABELS[strategy].toLowerCase()} partner for ${describeOptionSymbol(contract.symbol)}`,
+        variant: 'error',
+      });
+      return;
+    }
+    const net = getNetPrice(strategyLegs);
+    setLegs(strategyLegs);
+    setLimitPrice(net === undefined ? '' : Math.abs(net).toFixed(2));
+    setErrors([]);
+  };
+
+  const handleReview = () => {
+    if (!orderData) return;
+    const validationErrors = validateOrder(orderData);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      setShowPreview(true);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!orderData) return;
+    try {
+      await createOrder.mutateAsync(orderData);
+      showToast({ title: 'Options order submitted', variant: 'success' });
+      setShowPreview(false);
+      setLegs([]);
+    } catch (error) {
+      console.error('Options order submission failed:', error);
+      showToast({
+        title: 'Failed to submit options order',
+        message: error instanceof Error ? error.message : undefined,
+        variant: 'error',
+      });
+    }
+  };
+
+  const columns = showGreeks ? GREEK_COLUMNS : BASE_COLUMNS;
+  const callColumns = [...columns].reverse();
+  const selectedSymbols = new Set(legs.map(leg => leg.contract.symbol));
+
+  const renderCells = (contract: OptionContract | undefined, type: OptionType, sideColumns: ChainColumn[]) =>
+    sideColumns.map(column => {
+      if (!contract) return <td key={`${type}-${column}`} className="options-cell">—</td>;
+      const itm = isInTheMoney(contract, underlyingPrice);
+      const side: OrderSide | null = column === 'ask' ? 'buy' : column === 'bid' ? 'sell' : null;
+      const classes = [
+        'options-cell',
+        column,
+        itm ? 'itm' : '',
+        side ? 'quote' : '',
+        selectedSymbols.has(contract.symbol) ? 'selected' : '',
+      ].filter(Boolean).join(' ');
+
+      return (
+        <td
+          key={`${type}-${column}`}
+          className={classes}
+          onClick={side ? () => handleQuoteClick(contract, side) : undefined}
+          title={side ? `${side === 'buy' ? 'Buy' : 'Sell'} ${describeOptionSymbol(contract.symbol)}` : undefined}
+        >
+          {formatCell(contract, column)}
+        </td>
+      );
+    });
+
+  const renderChain = () => {
+    if (expirationsLoading || chainLoading) {
+      return <div className="options-empty">Loading {symbol} options...</div>;
+    }
+    if (error) {
+      return <div className="options-empty">Failed to load the {symbol} option chain</div>;
+    }
+    if (expirations.length === 0) {
+      return <div className="options-empty">No options listed for {symbol}</div>;
+    }
+
+    return (
+      <table className="options-chain-table">
+        <thead>
+          <tr className="options-side-labels">
+            <th colSpan={columns.length}>Calls</th>
+            <th />
+            <th colSpan={columns.length}>Puts</th>
+          </tr>
+          <tr>
+            {callColumns.map(column => <th key={`call-${column}`}>{COLUMN_LABELS[column]}</th>)}
+            <th className="options-strike">Strike</th>
+            {columns.map(column => <th key={`put-${column}`}>{COLUMN_LABELS[column]}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.map(row => (
+            <tr
+              key={row.strike}
+              ref={row.strike === atmStrike ? atmRowRef : undefined}
+              className={row.strike === atmStrike ? 'atm' : undefined}
+            >
+              {renderCells(row.call, 'call', callColumns)}
+              <td className="options-strike">{formatStrike(row.strike)}</td>
+              {renderCells(row.put, 'put', columns)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="options-panel">
+      <div className="options-header">
+        <SymbolAutocomplete
+          onSymbolSelect={handleSymbolSelect}
+          placeholder="Underlying..."
+          mode="immediate"
+          value={symbol}
+        />
+        <select
+          value={expiration ?? ''}
+          onChange={(e) => updateSettings({ expiration: e.target.value })}
+          title="Expiration"
+          disabled={expirations.length === 0}
+        >
+          {expirations.map(date => (
+            <option key={date} value={date}>
+              {formatExpiration(date)} ({getDaysToExpiration(date)}d)
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="options-toolbar">
+        <span className="options-underlying">
+          {symbol} {formatPrice(underlyingPrice)}
+        </span>
+        <select
+          value={strikeRange}
+          onChange={(e) => updateSettings({ strikeRange: parseInt(e.target.value) })}
+          title="Strikes around the money"
+        >
+          {STRIKE_RANGES.map(range => (
+            <option key={range} value={range}>{range === 0 ? 'All strikes' : `±${range} strikes`}</option>
+          ))}
+        </select>
+        <select
+          value={strategy}
+          onChange={(e) => updateSettings({ strategy: e.target.value as OptionStrategy })}
+          title="Strategy built from a clicked quote"
+        >
+          {(Object.keys(OPTION_STRATEGY_LABELS) as OptionStrategy[]).map(value => (
+            <option key={value} value={value}>{OPTION_STRATEGY_LABELS[value]}</option>
+          ))}
+        </select>
+        <label className="options-greeks-toggle">
+          <input
+            type="checkbox"
+            checked={showGreeks}
+            onChange={(e) => updateSettings({ showGreeks: e.target.checked })}
+          />
+          Greeks
+        </label>
+      </div>
+
+      {isSimulatedOptionsProvider && (
+        <div className="demo-data-notice">Simulated chain (set VITE_OPTIONS_PROVIDER=api to load chains from the backend)</div>
+      )}
+
+      <div className="options-chain">{renderChain()}</div>
+
+      {ticketLegs.length > 0 && orderData && (
+        <div className="options-ticket">
+          <div className="options-ticket-header">
+            <strong>{ticketLegs.length > 1 ? OPTION_STRATEGY_LABELS[strategy] : 'Single leg'}</strong>
+            <button className="options-ticket-clear" onClick={() => setLegs([])} title="Clear ticket">✕</button>
+          </div>
+
+          {ticketLegs.map(leg => (
+            <div key={leg.contract.symbol} className="options-ticket-leg">
+              <span className={leg.side === 'buy' ? 'positive' : 'negative'}>
+                {leg.side.toUpperCase()} {leg.ratioQty}
+              </span>
+              <span className="options-ticket-contract">{describeOptionSymbol(leg.contract.symbol)}</span>
+              <span>{formatPrice(leg.contract.bid)} × {formatPrice(leg.contract.ask)}</span>
+            </div>
+          ))}
+
+          <div className="options-ticket-inputs">
+            <label>
+              Qty
+              <input type="number" min="1" step="1" value={qty} onChange={(e) => setQty(e.target.value)} />
+            </label>
+            <label>
+              {ticketLegs.length > 1 ? `Net ${isCredit ? 'credit' : 'debit'}` : 'Limit'}
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={limitPrice}
+                onChange={(e) => setLimitPrice(e.target.value)}
+              />
+            </label>
+            <button
+              onClick={() => midNet !== undefined && setLimitPrice(Math.abs(midNet).toFixed(2))}
+              disabled={midNet === undefined}
+              title="Price at the mid"
+            >
+              Mid
+            </button>
+            <button
+              onClick={() => naturalNet !== undefined && setLimitPrice(Math.abs(naturalNet).toFixed(2))}
+              disabled={naturalNet === undefined}
+              title="Price at the natural (buy the ask, sell the bid)"
+            >
+              Nat
+            </button>
+          </div>
+
+          <div className="options-ticket-summary">
+            Est. {orderData.side === 'buy' ? 'cost' : 'credit'} {formatCurrency(estimatedTotal)}
+            <span className="options-ticket-hint"> ({qty || 0} × {limitPrice || '0'} × {OPTION_CONTRACT_MULTIPLIER})</span>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="options-ticket-errors">
+              {errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          <button
+            className={`options-ticket-review ${orderData.side === 'buy' ? 'buy' : 'sell'}`}
+            onClick={handleReview}
+          >
+            Review order
+          </button>
+        </div>
+      )}
+
+      {showPreview && orderData && (
+        <OrderPreview
+          orderData={orderData}
+          onConfirm={handleSubmit}
+          onCancel={() => setShowPreview(false)}
+          isLoading={createOrder.isPending}
+        />
+      )}
+    </div>
+  );
+};
+
+OptionsChainPanel.displayName = 'Options Chain';
+
+export default OptionsChainPanel;
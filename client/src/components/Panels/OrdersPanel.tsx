@@ -1,70 +1,50 @@
 import React, { useState, useEffect } from 'react';
 import type { IPanelComponentProps } from '../../types/panel';
-import { useAuth } from '../../contexts/AuthContext';
+import type { Order, OrderStatus, OrderTimeInForce } from '../../types';
+import { useOrders, useCancelOrder, useReplaceOrder } from '../../hooks';
+import { isMockTradingProvider } from '../../services/defaultOrdersApi';
+import useToastStore from '../../store/toastStore';
+import {
+  getReplaceChanges,
+  getReplaceDraft,
+  usesLimitPrice,
+  usesStopPrice,
+  validateReplace,
+  type OrderReplaceDraft,
+} from '../../utils/orderHelpers';
 import './Panels.css';
 
-export type OrderStatus = 'new' | 'partially_filled' | 'filled' | 'done_for_day' | 'canceled' | 'expired' | 'replaced' | 'pending_cancel' | 'pending_replace' | 'accepted' | 'pending_new' | 'accepted_for_bidding' | 'stopped' | 'rejected' | 'suspended' | 'calculated';
-export type OrderSide = 'buy' | 'sell';
-export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
-export type TimeInForce = 'day' | 'gtc' | 'ioc' | 'fok' | 'opg' | 'cls';
-
-export interface Order {
-  id: string;
-  client_order_id: string;
-  created_at: string;
-  updated_at: string;
-  submitted_at: string;
-  filled_at?: string;
-  expired_at?: string;
-  canceled_at?: string;
-  failed_at?: string;
-  replaced_at?: string;
-  replaced_by?: string;
-  replaces?: string;
-  asset_id: string;
-  symbol: string;
-  asset_class: string;
-  notional?: string;
-  qty: string;
-  filled_qty: string;
-  filled_avg_price?: string;
-  order_class: string;
-  order_type: OrderType;
-  type: OrderType;
-  side: OrderSide;
-  time_in_force: TimeInForce;
-  limit_price?: string;
-  stop_price?: string;
-  status: OrderStatus;
-  extended_hours: boolean;
-  legs?: Order[];
-  trail_percent?: string;
-  trail_price?: string;
-  hwm?: string;
-}
-
 const OrdersPanel: React.FC<IPanelComponentProps> = ({
   config,
   symbol,
   onSymbolChange,
   onReady,
 }) => {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data: orders = [], isLoading, error, refetch } = useOrders();
   const [statusFilter, setStatusFilter] = useState<'all' | 'open' | 'filled' | 'cancelled'>('all');
   const [symbolFilter, setSymbolFilter] = useState<string>('');
-  const [sortField, setSortField] = useState<keyof Order>('created_at');
+  const [sortField, setSortField] = useState<keyof Order>('createdAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const { getAccessToken } = useAuth();
+  // Parent orders whose legs are hidden; groups start expanded
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  // Inline edit of one working order; saving sends a replace
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<OrderReplaceDraft | null>(null);
+  const [editErrors, setEditErrors] = useState<string[]>([]);
+  // Orders whose earlier versions are shown
+  const [expandedHistory, setExpandedHistory] = useState<Set<string>>(new Set());
+  const cancelOrderMutation = useCancelOrder();
+  const replaceOrder = useReplaceOrder();
+  const showToast = useToastStore(state => state.showToast);
 
   useEffect(() => {
     onReady?.();
   }, [onReady]);
 
+
   useEffect(() => {
-    fetchOrders();
-  }, []);
+    onReady?.();
+  }, [onReady]);
 
   useEffect(() => {
     if (symbol) {
@@ -72,161 +52,98 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
     }
   }, [symbol]);
 
-  const fetchOrders = async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const token = await getAccessToken();
-      if (!token) {
-        throw new Error('No access token available');
-      }
+  const cancelOrder = (orderId: string) => {
+    cancelOrderMutation.mutate(orderId, {
+      onError: (err) => {
+        console.error('Error cancelling order:', err);
+        showToast({ title: 'Could not cancel order', message: 'Please try again.', variant: 'error' });
+      },
+    });
+  };
 
-      const apiBaseUrl = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
-      const response = await fetch(`${apiBaseUrl}/orders`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+  const startEdit = (order: Order) => {
+    setEditingOrderId(order.id);
+    setEditDraft(getReplaceDraft(order));
+    setEditErrors([]);
+  };
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch orders: ${response.statusText}`);
-      }
+  const cancelEdit = () => {
+    setEditingOrderId(null);
+    setEditDraft(null);
+    setEditErrors([]);
+  };
 
-      const data = await response.json();
-      setOrders(data.orders || []);
-    } catch (err) {
-      console.error('Error fetching orders:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch orders');
-      // Fallback to mock data for development
-      setOrders(generateMockOrders());
-    } finally {
-      setIsLoading(false);
-    }
+  const updateDraft = (changes: Partial<OrderReplaceDraft>) => {
+    setEditDraft(prev => prev ? { ...prev, ...changes } : prev);
   };
 
-  const generateMockOrders = (): Order[] => [
-    {
-      id: '1',
-      client_order_id: 'client_1',
-      created_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-      updated_at: new Date(Date.now() - 1000 * 60 * 25).toISOString(),
-      submitted_at: new Date(Date.now() - 1000 * 60 * 30).toISOString(),
-      filled_at: new Date(Date.now() - 1000 * 60 * 25).toISOString(),
-      asset_id: 'aapl_id',
-      symbol: 'AAPL',
-      asset_class: 'us_equity',
-      qty: '100',
-      filled_qty: '100',
-      filled_avg_price: '190.25',
-      order_class: 'simple',
-      order_type: 'market',
-      type: 'market',
-      side: 'buy',
-      time_in_force: 'day',
-      status: 'filled',
-      extended_hours: false
-    },
-    {
-      id: '2',
-      client_order_id: 'client_2',
-      created_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-      updated_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-      submitted_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-      asset_id: 'googl_id',
-      symbol: 'GOOGL',
-      asset_class: 'us_equity',
-      qty: '50',
-      filled_qty: '25',
-      filled_avg_price: '275.50',
-      order_class: 'simple',
-      order_type: 'limit',
-      type: 'limit',
-      side: 'buy',
-      time_in_force: 'gtc',
-      limit_price: '275.00',
-      status: 'partially_filled',
-      extended_hours: false
-    },
-    {
-      id: '3',
-      client_order_id: 'client_3',
-      created_at: new Date(Date.now() - 1000 * 60 * 15).toISOString(),
-      updated_at: new Date(Date.now() - 1000 * 60 * 15).toISOString(),
-      submitted_at: new Date(Date.now() - 1000 * 60 * 15).toISOString(),
-      asset_id: 'msft_id',
-      symbol: 'MSFT',
-      asset_class: 'us_equity',
-      qty: '75',
-      filled_qty: '0',
-      order_class: 'simple',
-      order_type: 'limit',
-      type: 'limit',
-      side: 'sell',
-      time_in_force: 'day',
-      limit_price: '355.00',
-      status: 'new',
-      extended_hours: false
-    },
-    {
-      id: '4',
-      client_order_id: 'client_4',
-      created_at: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString(),
-      updated_at: new Date(Date.now() - 1000 * 60 * 60 * 3).toISOString(),
-      submitted_at: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString(),
-      canceled_at: new Date(Date.now() - 1000 * 60 * 60 * 3).toISOString(),
-      asset_id: 'tsla_id',
-      symbol: 'TSLA',
-      asset_class: 'us_equity',
-      qty: '30',
-      filled_qty: '0',
-      order_class: 'simple',
-      order_type: 'stop',
-      type: 'stop',
-      side: 'sell',
-      time_in_force: 'gtc',
-      stop_price: '240.00',
-      status: 'canceled',
-      extended_hours: false
+  const saveEdit = (order: Order) => {
+    if (!editDraft) return;
+
+    const errors = validateReplace(order, editDraft);
+    if (errors.length > 0) {
+      setEditErrors(errors);
+      return;
     }
-  ];
 
-  const cancelOrder = async (orderId: string) => {
-    try {
-      const token = await getAccessToken();
-      if (!token) {
-        throw new Error('No access token available');
-      }
+    const changes = getReplaceChanges(order, editDraft);
+    replaceOrder.mutate({ orderId: order.id, changes }, {
+      onSuccess: cancelEdit,
+      onError: (err) => {
+        console.error('Error replacing order:', err);
+        setEditErrors(['Could not modify the order. It may have filled or been cancelled.']);
+      },
+    });
+  };
 
-      const apiBaseUrl = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
-      const response = await fetch(`${apiBaseUrl}/orders/${orderId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to cancel order: ${response.statusText}`);
+  const toggleHistory = (orderId: string) => {
+    setExpandedHistory(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
       }
+      return next;
+    });
+  };
 
-      // Refresh orders after cancellation
-      fetchOrders();
-    } catch (err) {
-      console.error('Error cancelling order:', err);
-      // For mock data, just update the order status locally
-      setOrders(prev => prev.map(order => 
-        order.id === orderId 
-          ? { ...order, status: 'canceled' as OrderStatus, canceled_at: new Date().toISOString() }
-          : order
-      ));
+  const getAllOrdersById = () => {
+    const byId = new Map<string, Order>();
+    orders.forEach(order => {
+      byId.set(order.id, order);
+      order.legs?.forEach(leg => byId.set(leg.id, leg));
+    });
+    return byId;
+  };
+
+  // Earlier versions of an order, newest first, following `replaces` back through the chain
+  const getReplaceHistory = (order: Order, byId: Map<string, Order>) => {
+    const history: Order[] = [];
+    const seen = new Set([order.id]);
+    let previous = order.replaces ? byId.get(order.replaces) : undefined;
+
+    while (previous && !seen.has(previous.id)) {
+      history.push(previous);
+      seen.add(previous.id);
+      previous = previous.replaces ? byId.get(previous.replaces) : undefined;
     }
+
+    return history;
+  };
+
+  // Legs can come back both nested under their parent and as top-level orders; keep the nested copy.
+  // Replaced versions are hidden too and shown in their successor's history instead.
+  const getParentOrders = () => {
+    const legIds = new Set(orders.flatMap(order => order.legs?.map(leg => leg.id) ?? []));
+    const replacedIds = new Set(
+      Array.from(getAllOrdersById().values()).map(order => order.replaces).filter((id): id is string => !!id)
+    );
+    return orders.filter(order => !legIds.has(order.id) && !replacedIds.has(order.id));
   };
 
   const getFilteredOrders = () => {
-    return orders.filter(order => {
+    return getParentOrders().filter(order => {
       // Status filter
       const statusMatch = (() => {
         switch (statusFilter) {
@@ -267,6 +184,18 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
     }
   };
 
+  const toggleGroup = (orderId: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
   const handleSymbolClick = (orderSymbol: string) => {
     onSymbolChange?.(orderSymbol);
   };
@@ -332,13 +261,19 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
       case 'pending_replace': return 'Replacing';
       case 'accepted': return 'Accepted';
       case 'pending_new': return 'Pending';
+      case 'held': return 'Held';
       default: return status;
     }
   };
 
+  // Exit legs are limits (take profit) or stops (stop loss); an OTO leg can be either
+  const getLegLabel = (leg: Order) => {
+    return leg.type === 'limit' ? 'Take Profit' : 'Stop Loss';
+  };
+
   const getFillPercentage = (order: Order) => {
-    const qty = parseFloat(order.qty);
-    const filledQty = parseFloat(order.filled_qty);
+    const qty = parseFloat(order.qty || '0');
+    const filledQty = parseFloat(order.filledQty || '0');
     return qty > 0 ? (filledQty / qty) * 100 : 0;
   };
 
@@ -352,6 +287,238 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
     };
   };
 
+  // Legs render indented under their parent; only parents can be cancelled, which cancels their legs.
+  // Legs share their parent's quantity and time in force, so only their prices can be edited.
+  const renderOrderRow = (order: Order, parent?: Order, history: Order[] = []) => {
+    const fillPercentage = getFillPercentage(order);
+    const isWorking = ['new', 'partially_filled', 'accepted', 'pending_new', 'held'].includes(order.status);
+    const canCancel = !parent && isWorking;
+    const canEdit = isWorking && (parent ? usesLimitPrice(order.type) || usesStopPrice(order.type) : order.type !== 'market');
+    const hasLegs = !parent && !!order.legs?.length;
+    const isCollapsed = collapsedGroups.has(order.id);
+    const isEditing = editingOrderId === order.id && !!editDraft;
+    const isSaving = isEditing && replaceOrder.isPending;
+    const showHistory = expandedHistory.has(order.id);
+    const isAdvanced = (order.orderClass ?? 'simple') !== 'simple' || order.type === 'trailing_stop';
+
+    return (
+      <React.Fragment key={order.id}>
+        <div className={`orders-table-row ${parent ? 'order-leg' : ''} ${isEditing ? 'editing' : ''}`}>
+          <div className="table-cell time">
+            {hasLegs && (
+              <button
+                className="group-toggle"
+                onClick={() => toggleGroup(order.id)}
+                title={isCollapsed ? 'Show legs' : 'Hide legs'}
+              >
+                {isCollapsed ? '▸' : '▾'}
+              </button>
+            )}
+            {parent ? <span className="leg-label">└ {getLegLabel(order)}</span> : formatDate(order.createdAt)}
+          </div>
+          <div 
+            className="table-cell symbol clickable"
+            onClick={() => handleSymbolClick(order.symbol)}
+          >
+            {order.symbol}
+          </div>
+          <div className={`table-cell side ${order.side}`}>
+            {order.side.toUpperCase()}
+          </div>
+          <div className="table-cell quantity">
+            {isEditing && !parent ? (
+              <input
+                className="order-edit-input"
+                type="number"
+                min="0"
+                step="1"
+                value={editDraft.qty}
+                onChange={(e) => updateDraft({ qty: e.target.value })}
+                disabled={isSaving}
+              />
+            ) : order.qty}
+          </div>
+          <div className="table-cell filled">
+            <div className="fill-info">
+              <span>{order.filledQty}</span>
+              {fillPercentage > 0 && (
+                <div className="fill-bar">
+                  <div 
+                    className="fill-progress" 
+                    style={{ width: `${fillPercentage}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="table-cell type">
+            <div className="order-type-info">
+              <span>{order.type.replace('_', ' ').toUpperCase()}</span>
+              {hasLegs && order.orderClass && order.orderClass !== 'simple' && (
+                <span className="order-class">{order.orderClass.toUpperCase()}</span>
+              )}
+              {isEditing && !parent ? (
+                <select
+                  className="order-edit-input"
+                  value={editDraft.timeInForce}
+                  onChange={(e) => updateDraft({ timeInForce: e.target.value as OrderTimeInForce })}
+                  disabled={isSaving}
+                >
+                  {(isAdvanced ? ['day', 'gtc'] : ['day', 'gtc', 'opg', 'cls'])
+                    .concat(isAdvanced || ['day', 'gtc', 'opg', 'cls'].includes(order.timeInForce) ? [] : [order.timeInForce])
+                    .map(tif => (
+                      <option key={tif} value={tif}>{tif.toUpperCase()}</option>
+                    ))}
+                </select>
+              ) : order.timeInForce !== 'day' && (
+                <span className="tif">{order.timeInForce.toUpperCase()}</span>
+              )}
+            </div>
+          </div>
+          <div className="table-cell price">
+            {isEditing ? (
+              <>
+                {usesLimitPrice(order.type) && (
+                  <input
+                    className="order-edit-input"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={editDraft.limitPrice}
+                    onChange={(e) => updateDraft({ limitPrice: e.target.value })}
+                    title="Limit price"
+                    disabled={isSaving}
+                  />
+                )}
+                {usesStopPrice(order.type) && (
+                  <input
+                    className="order-edit-input"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={editDraft.stopPrice}
+                    onChange={(e) => updateDraft({ stopPrice: e.target.value })}
+                    title="Stop price"
+                    disabled={isSaving}
+                  />
+                )}
+              </>
+            ) : (
+              <>
+                {order.limitPrice && formatCurrency(order.limitPrice)}
+                {order.stopPrice && (
+                  <div className="stop-price">
+                    Stop: {formatCurrency(order.stopPrice)}
+                  </div>
+                )}
+              </>
+            )}
+            {(order.trailPercent || order.trailPrice) && (
+              <div className="stop-price">
+                Trail: {order.trailPercent ? `${order.trailPercent}%` : formatCurrency(order.trailPrice)}
+              </div>
+            )}
+            {order.filledAvgPrice && (
+              <div className="avg-price">
+                Avg: {formatCurrency(order.filledAvgPrice)}
+              </div>
+            )}
+          </div>
+          <div className="table-cell status">
+            <span 
+              className="status-badge"
+              style={{ color: getStatusColor(order.status) }}
+            >
+              {getStatusLabel(order.status)}
+            </span>
+            {history.length > 0 && (
+              <button
+                className="history-toggle"
+                onClick={() => toggleHistory(order.id)}
+                title={showHistory ? 'Hide earlier versions' : 'Show earlier versions'}
+              >
+                v{history.length + 1} {showHistory ? '▾' : '▸'}
+              </button>
+            )}
+          </div>
+          <div className="table-cell actions">
+            {isEditing ? (
+              <>
+                <button onClick={() => saveEdit(order)} className="save-button" disabled={isSaving}>
+                  {isSaving ? '...' : 'Save'}
+                </button>
+                <button onClick={cancelEdit} className="edit-button" disabled={isSaving} title="Discard changes">
+                  ✕
+                </button>
+              </>
+            ) : (
+              <>
+                {canEdit && (
+                  <button
+                    onClick={() => startEdit(order)}
+                    className="edit-button"
+                    title="Modify order"
+                    disabled={!!editingOrderId}
+                  >
+                    Edit
+                  </button>
+                )}
+                {canCancel && (
+                  <button
+                    onClick={() => cancelOrder(order.id)}
+                    className="cancel-button"
+                    title={hasLegs ? 'Cancel order and its legs' : 'Cancel Order'}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+        {isEditing && editErrors.length > 0 && (
+          <div className="order-edit-errors">
+            {editErrors.map(message => <div key={message}>{message}</div>)}
+          </div>
+        )}
+        {showHistory && history.map(version => renderHistoryRow(version))}
+      </React.Fragment>
+    );
+  };
+
+  // One earlier version of a replaced order: what it asked for and when it was replaced
+  const renderHistoryRow = (version: Order) => (
+    <div key={version.id} className="orders-table-row order-history">
+      <div className="table-cell time">
+        <span className="leg-label">↳ {formatDate(version.replacedAt ?? version.updatedAt ?? version.createdAt)}</span>
+      </div>
+      <div className="table-cell symbol">{version.symbol}</div>
+      <div className={`table-cell side ${version.side}`}>{version.side.toUpperCase()}</div>
+      <div className="table-cell quantity">{version.qty}</div>
+      <div className="table-cell filled">{version.filledQty}</div>
+      <div className="table-cell type">
+        <div className="order-type-info">
+          <span>{version.type.replace('_', ' ').toUpperCase()}</span>
+          <span className="tif">{version.timeInForce.toUpperCase()}</span>
+        </div>
+      </div>
+      <div className="table-cell price">
+        {version.limitPrice && formatCurrency(version.limitPrice)}
+        {version.stopPrice && (
+          <div className="stop-price">
+            Stop: {formatCurrency(version.stopPrice)}
+          </div>
+        )}
+      </div>
+      <div className="table-cell status">
+        <span className="status-badge" style={{ color: getStatusColor(version.status) }}>
+          {getStatusLabel(version.status)}
+        </span>
+      </div>
+      <div className="table-cell actions" />
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="orders-panel">
@@ -368,7 +535,7 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
       <div className="orders-panel">
         <div className="panel-error">
           <p>Failed to load orders</p>
-          <button onClick={fetchOrders} className="retry-button">
+          <button onClick={() => refetch()} className="retry-button">
             Retry
           </button>
         </div>
@@ -378,10 +545,15 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
 
   const filteredOrders = getFilteredOrders();
   const counts = getOrderCounts();
+  const ordersById = getAllOrdersById();
 
   return (
     <div className="orders-panel">
       <div className="orders-content">
+        {isMockTradingProvider && (
+          <div className="demo-data-notice">Demo data: VITE_TRADING_PROVIDER=mock</div>
+        )}
+
         {/* Status Filter Tabs */}
         <div className="filter-tabs">
           <button
@@ -434,8 +606,8 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
           {filteredOrders.length > 0 ? (
             <>
               <div className="orders-table-header">
-                <div className="header-cell time" onClick={() => handleSort('created_at')}>
-                  Time {sortField === 'created_at' && (sortDirection === 'asc' ? '↑' : '↓')}
+                <div className="header-cell time" onClick={() => handleSort('createdAt')}>
+                  Time {sortField === 'createdAt' && (sortDirection === 'asc' ? '↑' : '↓')}
                 </div>
                 <div className="header-cell symbol" onClick={() => handleSort('symbol')}>
                   Symbol {sortField === 'symbol' && (sortDirection === 'asc' ? '↑' : '↓')}
@@ -447,8 +619,8 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
                   Qty {sortField === 'qty' && (sortDirection === 'asc' ? '↑' : '↓')}
                 </div>
                 <div className="header-cell filled">Filled</div>
-                <div className="header-cell type" onClick={() => handleSort('order_type')}>
-                  Type {sortField === 'order_type' && (sortDirection === 'asc' ? '↑' : '↓')}
+                <div className="header-cell type" onClick={() => handleSort('type')}>
+                  Type {sortField === 'type' && (sortDirection === 'asc' ? '↑' : '↓')}
                 </div>
                 <div className="header-cell price">Price</div>
                 <div className="header-cell status" onClick={() => handleSort('status')}>
@@ -458,79 +630,14 @@ const OrdersPanel: React.FC<IPanelComponentProps> = ({
               </div>
               <div className="orders-table-body">
                 {filteredOrders.map((order) => {
-                  const fillPercentage = getFillPercentage(order);
-                  const canCancel = ['new', 'partially_filled', 'accepted', 'pending_new'].includes(order.status);
-                  
+                  const hasLegs = !!order.legs?.length;
+                  const isCollapsed = collapsedGroups.has(order.id);
+                  const hasHistory = !!order.replaces;
+
                   return (
-                    <div key={order.id} className="orders-table-row">
-                      <div className="table-cell time">
-                        {formatDate(order.created_at)}
-                      </div>
-                      <div 
-                        className="table-cell symbol clickable"
-                        onClick={() => handleSymbolClick(order.symbol)}
-                      >
-                        {order.symbol}
-                      </div>
-                      <div className={`table-cell side ${order.side}`}>
-                        {order.side.toUpperCase()}
-                      </div>
-                      <div className="table-cell quantity">
-                        {order.qty}
-                      </div>
-                      <div className="table-cell filled">
-                        <div className="fill-info">
-                          <span>{order.filled_qty}</span>
-                          {fillPercentage > 0 && (
-                            <div className="fill-bar">
-                              <div 
-                                className="fill-progress" 
-                                style={{ width: `${fillPercentage}%` }}
-                              />
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                      <div className="table-cell type">
-                        <div className="order-type-info">
-                          <span>{order.order_type.replace('_', ' ').toUpperCase()}</span>
-                          {order.time_in_force !== 'day' && (
-                            <span className="tif">{order.time_in_force.toUpperCase()}</span>
-                          )}
-                        </div>
-                      </div>
-                      <div className="table-cell price">
-                        {order.limit_price && formatCurrency(order.limit_price)}
-                        {order.stop_price && (
-                          <div className="stop-price">
-                            Stop: {formatCurrency(order.stop_price)}
-                          </div>
-                        )}
-                        {order.filled_avg_price && (
-                          <div className="avg-price">
-                            Avg: {formatCurrency(order.filled_avg_price)}
-                          </div>
-                        )}
-                      </div>
-                      <div className="table-cell status">
-                        <span 
-                          className="status-badge"
-                          style={{ color: getStatusColor(order.status) }}
-                        >
-                          {getStatusLabel(order.status)}
-                        </span>
-                      </div>
-                      <div className="table-cell actions">
-                        {canCancel && (
-                          <button
-                            onClick={() => cancelOrder(order.id)}
-                            className="cancel-button"
-                            title="Cancel Order"
-                          >
-                            Cancel
-                          </button>
-                        )}
-                      </div>
+                    <div key={order.id} className={hasLegs || hasHistory ? 'order-group' : undefined}>
+                      {renderOrderRow(order, undefined, getReplaceHistory(order, ordersById))}
+                      {hasLegs && !isCollapsed && order.legs!.map(leg => renderOrderRow(leg, order, getReplaceHistory(leg, ordersById)))}
                     </div>
                   );
                 })}
@@ -0,0 +1,316 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ColumnDef } from '@tanstack/react-table';
+import type { IPanelComponentProps } from '../../types/panel';
+import type { ScanField, ScanInput, ScanRule, ScanUniverse } from '../../types';
+import DataTable from '../DataGrid/DataTable';
+import { useCreateScan, useDeleteScan, useScanResults, useScans, useUpdateScan } from '../../hooks';
+import useToastStore from '../../store/toastStore';
+import { indicatorRegistry } from '../TradingChart/indicators';
+import {
+  SCAN_FIELD_LABELS,
+  SCAN_UNIVERSE_LABELS,
+  createEmptyScan,
+  createScanRule,
+  describeRule,
+  formatCompactNumber,
+  getIndicatorKey,
+  getIndicatorLabel,
+  getIndicatorRuleDefaults,
+  type ScanRow,
+} from '../../utils/scanHelpers';
+import './Panels.css';
+
+const formatNumber = (value: number | null | undefined, decimals = 2) =>
+  value === null || value === undefined ? '—' : value.toFixed(decimals);
+
+const ScannerPanel: React.FC<IPanelComponentProps> = ({
+  config,
+  onSymbolChange,
+  onConfigChange,
+  onReady,
+}) => {
+  const { data: savedScans = [] } = useScans();
+  const createScan = useCreateScan();
+  const updateScan = useUpdateScan();
+  const deleteScan = useDeleteScan();
+  const showToast = useToastStore(state => state.showToast);
+
+  // The scan being edited lives in the panel config, so it survives layout reloads
+  const scanId: string | undefined = config.settings?.scanId;
+  const savedDraft: ScanInput | undefined = config.settings?.scan;
+  const draft = useMemo(() => savedDraft ?? createEmptyScan(), [savedDraft]);
+  const [name, setName] = useState(draft.name);
+
+  const { results, scannedCount, indicatorConfigs, isLoading } = useScanResults(draft);
+
+  useEffect(() => {
+    onReady?.();
+  }, [onReady]);
+
+  useEffect(() => {
+    setName(draft.name);
+  }, [draft.name]);
+
+  const saveSettings = (scan: ScanInput, id: string | undefined = scanId) => {
+    onConfigChange?.({ settings: { ...config.settings, scan, scanId: id } });
+  };
+
+  const updateDraft = (updates: Partial<ScanInput>) => saveSettings({ ...draft, ...updates });
+
+  const updateRule = (ruleId: string, updates: Partial<ScanRule>) => {
+    updateDraft({ rules: draft.rules.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule) });
+  };
+
+  const handleFieldChange = (rule: ScanRule, field: ScanField) => {
+    // Defaults for the new field, keeping the rule's place in the list
+    updateDraft({ rules: draft.rules.map(r => r.id === rule.id ? { ...createScanRule(field), id: rule.id } : r) });
+  };
+
+  const handleIndicatorChange = (rule: ScanRule, indicatorId: string) => {
+    updateRule(rule.id, getIndicatorRuleDefaults(indicatorId));
+  };
+
+  const handleLoadScan = (id: string) => {
+    const scan = savedScans.find(s => s.id === id);
+    if (!scan) {
+      saveSettings(createEmptyScan(), undefined);
+      return;
+    }
+    const { name, universe, match, rules } = scan;
+    saveSettings({ name, universe, match, rules }, scan.id);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      showToast({ title: 'Name the scan to save it', variant: 'error' });
+      return;
+    }
+    const scan = { ...draft, name: trimmed };
+    try {
+      if (scanId && savedScans.some(s => s.id === scanId)) {
+        await updateScan.mutateAsync({ scanId, updates: scan });
+        saveSettings(scan);
+      } else {
+        const created = await createScan.mutateAsync(scan);
+        saveSettings(scan, created.id);
+      }
+      showToast({ title: `Saved scan "${trimmed}"`, variant: 'success' });
+    } catch (error) {
+      showToast({
+        title: 'Failed to save scan',
+        message: error instanceof Error ? error.message : undefined,
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!scanId) return;
+    await deleteScan.mutateAsync(scanId);
+    saveSettings(createEmptyScan(), undefined);
+  };
+
+  const columns = useMemo<ColumnDef<ScanRow>[]>(() => [
+    {
+      accessorKey: 'symbol',
+      header: 'Symbol',
+      cell: ({ row }) => <span className="scanner-symbol" title={row.original.name}>{row.original.symbol}</span>,
+    },
+    {
+      accessorKey: 'price',
+      header: 'Price',
+      cell: ({ getValue }) => formatNumber(getValue<number | undefined>()),
+      sortUndefined: 'last',
+    },
+    {
+      accessorKey: 'changePercent',
+      header: '% Chg',
+      cell: ({ getValue }) => {
+        const value = getValue<number | undefined>();
+        if (value === undefined) return '—';
+        return <span className={value >= 0 ? 'positive' : 'negative'}>{value >= 0 ? '+' : ''}{value.toFixed(2)}%</span>;
+      },
+      sortUndefined: 'last',
+    },
+    {
+      accessorKey: 'volume',
+      header: 'Volume',
+      cell: ({ getValue }) => {
+        const value = getValue<number | undefined>();
+        return value === undefined ? '—' : formatCompactNumber(value);
+      },
+      sortUndefined: 'last',
+    },
+    {
+      accessorKey: 'relativeVolume',
+      header: 'Rel Vol',
+      cell: ({ getValue }) => {
+        const value = getValue<number | undefined>();
+        return value === undefined ? '—' : `${value.toFixed(2)}x`;
+      },
+      sortUndefined: 'last',
+    },
+    {
+      accessorKey: 'marketCap',
+      header: 'Mkt Cap',
+      cell: ({ getValue }) => {
+        const value = getValue<number | undefined>();
+        return value === undefined ? '—' : `$${formatCompactNumber(value)}`;
+      },
+      sortUndefined: 'last',
+    },
+    // One column per indicator the rules use
+    ...indicatorConfigs.map((indicator): ColumnDef<ScanRow> => ({
+      id: getIndicatorKey(indicator),
+      header: getIndicatorLabel(indicator),
+      accessorFn: row => row.indicators[getIndicatorKey(indicator)] ?? undefined,
+      cell: ({ getValue }) => formatNumber(getValue<number | undefined>()),
+      sortUndefined: 'last',
+    })),
+  ], [indicatorConfigs]);
+
+  const renderRule = (rule: ScanRule) => {
+    const { indicator } = rule;
+
+    return (
+      <div key={rule.id} className="scanner-rule">
+        <select value={rule.field} onChange={(e) => handleFieldChange(rule, e.target.value as ScanField)}>
+          {(Object.keys(SCAN_FIELD_LABELS) as ScanField[]).map(field => (
+            <option key={field} value={field}>{SCAN_FIELD_LABELS[field]}</option>
+          ))}
+        </select>
+
+        {rule.field === 'indicator' && indicator && (
+          <>
+            <select value={indicator.indicator} onChange={(e) => handleIndicatorChange(rule, e.target.value)}>
+              {indicatorRegistry.getIndicators().map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+            {indicator.parameters.period !== undefined && (
+              <input
+                type="number"
+                className="scanner-period"
+                min="1"
+                value={indicator.parameters.period}
+                title="Period (daily bars)"
+                onChange={(e) => updateRule(rule.id, {
+                  indicator: {
+                    ...indicator,
+                    parameters: { ...indicator.parameters, period: Math.max(1, parseInt(e.target.value) || 1) },
+                  },
+                })}
+              />
+            )}
+          </>
+        )}
+
+        <select
+          value={rule.operator}
+          onChange={(e) => updateRule(rule.id, { operator: e.target.value as ScanRule['operator'] })}
+        >
+          <option value="above">above</option>
+          <option value="below">below</option>
+          <option value="between">between</option>
+        </select>
+
+        <input
+          type="number"
+          value={rule.value}
+          onChange={(e) => updateRule(rule.id, { value: parseFloat(e.target.value) || 0 })}
+        />
+        {rule.operator === 'between' && (
+          <input
+            type="number"
+            value={rule.maxValue ?? ''}
+            placeholder="max"
+            onChange={(e) => updateRule(rule.id, { maxValue: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+          />
+        )}
+
+        <button
+          className="scanner-remove-rule"
+          onClick={() => updateDraft({ rules: draft.rules.filter(r => r.id !== rule.id) })}
+          title={`Remove "${describeRule(rule)}"`}
+        >
+          ✕
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="scanner-panel">
+      <div className="scanner-toolbar">
+        <select value={scanId ?? ''} onChange={(e) => handleLoadScan(e.target.value)} title="Saved scans">
+          <option value="">New scan</option>
+          {savedScans.map(scan => (
+            <option key={scan.id} value={scan.id}>{scan.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={name}
+          placeholder="Scan name"
+          onChange={(e) => setName(e.target.value)}
+          onBlur={() => name !== draft.name && updateDraft({ name })}
+        />
+        <button onClick={handleSave} disabled={createScan.isPending || updateScan.isPending}>
+          Save
+        </button>
+        {scanId && (
+          <button onClick={handleDelete} disabled={deleteScan.isPending}>Delete</button>
+        )}
+      </div>
+
+      <div className="scanner-rules">
+        <div className="scanner-rules-header">
+          <select
+            value={draft.universe}
+            onChange={(e) => updateDraft({ universe: e.target.value as ScanUniverse })}
+            title="Symbols to scan"
+          >
+            {(Object.keys(SCAN_UNIVERSE_LABELS) as ScanUniverse[]).map(universe => (
+              <option key={universe} value={universe}>{SCAN_UNIVERSE_LABELS[universe]}</option>
+            ))}
+          </select>
+          <span>matching</span>
+          <select value={draft.match} onChange={(e) => updateDraft({ match: e.target.value as ScanInput['match'] })}>
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of:</span>
+        </div>
+
+        {draft.rules.map(renderRule)}
+
+        <button
+          className="scanner-add-rule"
+          onClick={() => updateDraft({ rules: [...draft.rules, createScanRule('price')] })}
+        >
+          + Add rule
+        </button>
+      </div>
+
+      <div className="scanner-summary">
+        {isLoading
+          ? `Loading ${scannedCount} symbols...`
+          : `${results.length} of ${scannedCount} symbols match`}
+      </div>
+
+      <div className="scanner-results">
+        <DataTable
+          data={results}
+          columns={columns}
+          density="compact"
+          onRowClick={(row) => onSymbolChange?.(row.symbol)}
+        />
+      </div>
+    </div>
+  );
+};
+
+ScannerPanel.displayName = 'Scanner';
+
+export default ScannerPanel;
@@ -0,0 +1,224 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { IPanelComponentProps } from '../../types/panel';
+import SymbolAutocomplete from '../Common/SymbolAutocomplete';
+import { useTimeAndSales } from '../../hooks';
+import { isSimulatedTapeProvider } from '../../services/defaultTapeFeed';
+import {
+  CONDITION_LABELS,
+  DEFAULT_BLOCK_SIZE,
+  EXCHANGE_NAMES,
+  describeConditions,
+  type TapePrint,
+} from '../../services/timeSales';
+import './Panels.css';
+
+type ColorBy = 'tick' | 'side';
+
+const ROW_HEIGHT = 20;
+const OVERSCAN = 10;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour12: false });
+
+const formatSize = (size: number) => new Intl.NumberFormat('en-US').format(size);
+
+const getPrintColor = (print: TapePrint, colorBy: ColorBy): string => {
+  if (colorBy === 'side') {
+    // Lifting the offer is buying pressure, hitting the bid is selling pressure
+    return print.side === 'ask' ? 'up' : print.side === 'bid' ? 'down' : '';
+  }
+  return print.tick === 'up' ? 'up' : print.tick === 'down' ? 'down' : '';
+};
+
+interface TapeRowProps {
+  print: TapePrint;
+  colorBy: ColorBy;
+  isBlock: boolean;
+}
+
+// Memoized so a new batch only renders the rows that just scrolled into view
+const TapeRow = React.memo<TapeRowProps>(({ print, colorBy, isBlock }) => (
+  <div className={`tape-row ${getPrintColor(print, colorBy)} ${isBlock ? 'block' : ''}`}>
+    <span className="tape-time">{formatTime(print.timestamp)}</span>
+    <span className="tape-price">{print.price.toFixed(2)}</span>
+    <span className="tape-size">{formatSize(print.size)}</span>
+    <span className="tape-exchange" title={EXCHANGE_NAMES[print.exchange] ?? print.exchange}>
+      {print.exchange}
+    </span>
+    <span
+      className="tape-conditions"
+      title={print.conditions.map(code => CONDITION_LABELS[code] ?? code).join(', ')}
+    >
+      {describeConditions(print.conditions)}
+    </span>
+  </div>
+));
+
+const TimeSalesPanel: React.FC<IPanelComponentProps> = ({
+  config,
+  symbol: linkedSymbol,
+  onSymbolChange,
+  onConfigChange,
+  onReady,
+}) => {
+  const symbol = linkedSymbol || config.symbol || 'AAPL';
+  const minSize: number = config.settings?.minSize ?? 0;
+  const blockSize: number = config.settings?.blockSize ?? DEFAULT_BLOCK_SIZE;
+  const colorBy: ColorBy = config.settings?.colorBy ?? 'tick';
+
+  const prints = useTimeAndSales(symbol);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // While scrolled away from the top the tape holds still, so rows don't slide away mid-read
+  const [frozen, setFrozen] = useState<TapePrint[] | null>(null);
+
+  useEffect(() => {
+    onReady?.();
+  }, [onReady]);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(list.clientHeight));
+    observer.observe(list);
+    setViewportHeight(list.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  // A new symbol starts a new tape
+  useEffect(() => {
+    setFrozen(null);
+    setScrollTop(0);
+    if (listRef.current) listRef.current.scrollTop = 0;
+  }, [symbol]);
+
+  const filtered = useMemo(
+    () => minSize > 0 ? prints.filter(print => print.size >= minSize) : prints,
+    [prints, minSize]
+  );
+  const visibleList = frozen ?? filtered;
+
+  const newSinceFrozen = useMemo(() => {
+    if (!frozen) return 0;
+    if (frozen.length === 0) return filtered.length;
+    const index = filtered.findIndex(print => print.id === frozen[0].id);
+    return index === -1 ? filtered.length : index;
+  }, [frozen, filtered]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const top = e.currentTarget.scrollTop;
+    setScrollTop(top);
+    if (top > 0 && !frozen) {
+      setFrozen(filtered);
+    } else if (top === 0 && frozen) {
+      setFrozen(null);
+    }
+  };
+
+  const jumpToLatest = () => {
+    if (listRef.current) listRef.current.scrollTop = 0;
+    setScrollTop(0);
+    setFrozen(null);
+  };
+
+  const updateSettings = (updates: Record<string, unknown>) => {
+    onConfigChange?.({ settings: { ...config.settings, ...updates } });
+  };
+
+  const handleSymbolSelect = (newSymbol: string) => {
+    onSymbolChange?.(newSymbol);
+    onConfigChange?.({ symbol: newSymbol });
+  };
+
+  const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const endIndex = Math.min(visibleList.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const rows = visibleList.slice(startIndex, endIndex);
+
+  return (
+    <div className="time-sales-panel">
+      <div className="tape-header">
+        <SymbolAutocomplete
+          onSymbolSelect={handleSymbolSelect}
+          placeholder="Symbol..."
+          mode="immediate"
+          value={symbol}
+        />
+      </div>
+
+      <div className="tape-filters">
+        <label title="Hide prints smaller than this">
+          Min size
+          <input
+            type="number"
+            min="0"
+            step="100"
+            value={minSize || ''}
+            placeholder="0"
+            onChange={(e) => updateSettings({ minSize: Math.max(0, parseInt(e.target.value) || 0) })}
+          />
+        </label>
+        <label title="Highlight prints at least this large">
+          Block
+          <input
+            type="number"
+            min="0"
+            step="1000"
+            value={blockSize}
+            onChange={(e) => updateSettings({ blockSize: Math.max(0, parseInt(e.target.value) || 0) })}
+          />
+        </label>
+        <select
+          value={colorBy}
+          onChange={(e) => updateSettings({ colorBy: e.target.value as ColorBy })}
+          title="Color prints by"
+        >
+          <option value="tick">Up/down tick</option>
+          <option value="side">Bid/ask side</option>
+        </select>
+      </div>
+
+      {isSimulatedTapeProvider && (
+        <div className="demo-data-notice">Simulated prints (VITE_TAPE_PROVIDER=simulated)</div>
+      )}
+
+      <div className="tape-columns">
+        <span>Time</span>
+        <span>Price</span>
+        <span>Size</span>
+        <span>Ex</span>
+        <span>Cond</span>
+      </div>
+
+      <div className="tape-list" ref={listRef} onScroll={handleScroll}>
+        {visibleList.length === 0 ? (
+          <div className="tape-empty">Waiting for {symbol} prints...</div>
+        ) : (
+          <div style={{ height: visibleList.length * ROW_HEIGHT, position: 'relative' }}>
+            <div style={{ transform: `translateY(${startIndex * ROW_HEIGHT}px)` }}>
+              {rows.map(print => (
+                <TapeRow
+                  key={print.id}
+                  print={print}
+                  colorBy={colorBy}
+                  isBlock={blockSize > 0 && print.size >= blockSize}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {frozen && (
+        <button className="tape-paused" onClick={jumpToLatest}>
+          Paused{newSinceFrozen > 0 ? ` · ${formatSize(newSinceFrozen)} new` : ''} — jump to latest
+        </button>
+      )}
+    </div>
+  );
+};
+
+TimeSalesPanel.displayName = 'Time & Sales';
+
+export default TimeSalesPanel;
@@ -1,7 +1,19 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { IPanelComponentProps } from '../../types/panel';
-import type { OrderFormData, OrderType, OrderTimeInForce, Asset, Account } from '../../types';
+import type { OrderFormData, OrderClass, OrderType, OrderTimeInForce, Asset, Account } from '../../types';
 import SymbolAutocomplete from '../Common/SymbolAutocomplete';
+import OrderPreview from '../Trading/OrderPreview';
+import {
+  ORDER_CLASS_LABELS,
+  STOCK_ORDER_CLASSES,
+  ORDER_TYPE_LABELS,
+  applyOrderClass,
+  applyOrderType,
+  getEntryPrice,
+  getEntryTypesForClass,
+  validateOrder,
+} from '../../utils/orderHelpers';
+import { getContractMultiplier } from '../../utils/optionHelpers';
 import { useAsset, useAccount, useCreateOrder } from '../../hooks';
 import './Panels.css';
 
@@ -10,6 +22,7 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
   symbol = 'AAPL',
   onSymbolChange,
   onReady,
+  orderPrefill,
 }) => {
   const [orderData, setOrderData] = useState<OrderFormData>({
     symbol: symbol,
@@ -19,10 +32,12 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
     limitPrice: '',
     stopPrice: '',
     timeInForce: 'day',
-    extendedHours: false
+    extendedHours: false,
+    orderClass: 'simple'
   });
   const [showOrderPreview, setShowOrderPreview] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
 
   const { data: asset, isLoading: assetLoading } = useAsset(symbol);
   const { data: account } = useAccount();
@@ -32,21 +47,68 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
     onReady?.();
   }, [onReady]);
 
+  // Orders handed over by linked panels (e.g. a depth ladder click). A prefill that
+  // was already in the group when this panel mounted is left alone.
+  const appliedPrefillId = useRef(orderPrefill?.id);
+  useEffect(() => {
+    if (!orderPrefill || orderPrefill.id === appliedPrefillId.current) return;
+    appliedPrefillId.current = orderPrefill.id;
+
+    setErrors([]);
+    setOrderData(prev => ({
+      ...applyOrderType(applyOrderClass(prev, 'simple'), orderPrefill.type),
+      symbol: orderPrefill.symbol,
+      side: orderPrefill.side,
+      limitPrice: orderPrefill.limitPrice.toFixed(2),
+      qty: orderPrefill.qty !== undefined ? String(orderPrefill.qty) : prev.qty,
+    }));
+  }, [orderPrefill]);
+
   const handleSymbolChange = (newSymbol: string) => {
     setOrderData(prev => ({ ...prev, symbol: newSymbol }));
     onSymbolChange?.(newSymbol);
   };
 
+  const orderClass = orderData.orderClass ?? 'simple';
+  const marketPrice = asset?.price ? parseFloat(asset.price.toString()) : undefined;
+
   const handleInputChange = (field: keyof OrderFormData, value: any) => {
+    setErrors([]);
     setOrderData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleOrderClassChange = (value: OrderClass) => {
+    setErrors([]);
+    setOrderData(prev => applyOrderClass(prev, value));
+  };
+
+  const handleOrderTypeChange = (value: OrderType) => {
+    setErrors([]);
+    setOrderData(prev => applyOrderType(prev, value));
+  };
+
+  const handleTrailModeChange = (mode: 'price' | 'percent') => {
+    setErrors([]);
+    setOrderData(prev => ({
+      ...prev,
+      trailPrice: mode === 'price' ? '' : undefined,
+      trailPercent: mode === 'percent' ? '' : undefined,
+    }));
+  };
+
+  // OTO orders attach a single exit leg
+  const handleOtoExitChange = (exit: 'take_profit' | 'stop_loss') => {
+    setErrors([]);
+    setOrderData(prev => ({
+      ...prev,
+      takeProfit: exit === 'take_profit' ? { limitPrice: '' } : undefined,
+      stopLoss: exit === 'stop_loss' ? { stopPrice: '' } : undefined,
+    }));
+  };
+
   const calculateOrderValue = () => {
     const qty = parseFloat(orderData.qty || '0') || 0;
-    const price = orderData.type === 'limit' 
-      ? parseFloat(orderData.limitPrice || '0')
-      : (asset?.price ? parseFloat(asset.price.toString()) : 0);
-    return qty * price;
+    return qty * getEntryPrice(orderData, marketPrice) * getContractMultiplier(orderData);
   };
 
   const calculateBuyingPower = () => {
@@ -55,7 +117,11 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
   };
 
   const handlePreviewOrder = () => {
-    setShowOrderPreview(true);
+    const validationErrors = validateOrder(orderData, marketPrice);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      setShowOrderPreview(true);
+    }
   };
 
   const handleSubmitOrder = async () => {
@@ -73,7 +139,9 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
 
   const orderValue = calculateOrderValue();
   const buyingPower = calculateBuyingPower();
-  const hasInsufficientFunds = orderData.side === 'buy' && orderValue > buyingPower;
+  // OCO orders exit an existing position, so they don't use buying power
+  const hasInsufficientFunds = orderData.side === 'buy' && orderClass !== 'oco' && orderValue > buyingPower;
+  const isAdvanced = orderClass !== 'simple' || orderData.type === 'trailing_stop';
 
   return (
     <div className="trade-panel">
@@ -109,18 +177,31 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
           </div>
 
           <div className="form-group">
-            <label>Order Type:</label>
-            <select 
-              value={orderData.type} 
-              onChange={(e) => handleInputChange('type', e.target.value as OrderType)}
+            <label>Order Class:</label>
+            <select
+              value={orderClass}
+              onChange={(e) => handleOrderClassChange(e.target.value as OrderClass)}
             >
-              <option value="market">Market Order</option>
-              <option value="limit">Limit Order</option>
-              <option value="stop">Stop Loss</option>
-              <option value="stop_limit">Stop Limit</option>
+              {STOCK_ORDER_CLASSES.map(value => (
+                <option key={value} value={value}>{ORDER_CLASS_LABELS[value]}</option>
+              ))}
             </select>
           </div>
 
+          {orderClass !== 'oco' && (
+            <div className="form-group">
+              <label>{orderClass === 'simple' ? 'Order Type:' : 'Entry Type:'}</label>
+              <select 
+                value={orderData.type} 
+                onChange={(e) => handleOrderTypeChange(e.target.value as OrderType)}
+              >
+                {getEntryTypesForClass(orderClass).map(value => (
+                  <option key={value} value={value}>{ORDER_TYPE_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="form-group">
             <label>Quantity:</label>
             <input 
@@ -133,7 +214,7 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
             />
           </div>
 
-          {(orderData.type === 'limit' || orderData.type === 'stop_limit') && (
+          {orderClass !== 'oco' && (orderData.type === 'limit' || orderData.type === 'stop_limit') && (
             <div className="form-group">
               <label>Limit Price:</label>
               <input
@@ -161,6 +242,92 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
             </div>
           )}
 
+          {orderData.type === 'trailing_stop' && (
+            <div className="form-group">
+              <label>Trail By:</label>
+              <div className="inline-fields">
+                <select
+                  value={orderData.trailPercent !== undefined ? 'percent' : 'price'}
+                  onChange={(e) => handleTrailModeChange(e.target.value as 'price' | 'percent')}
+                >
+                  <option value="price">Amount ($)</option>
+                  <option value="percent">Percent (%)</option>
+                </select>
+                {orderData.trailPercent !== undefined ? (
+                  <input
+                    type="number"
+                    value={orderData.trailPercent}
+                    onChange={(e) => handleInputChange('trailPercent', e.target.value)}
+                    placeholder="0.0"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    value={orderData.trailPrice ?? ''}
+                    onChange={(e) => handleInputChange('trailPrice', e.target.value)}
+                    placeholder="0.00"
+                    min="0"
+                    step="0.01"
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
+          {orderClass === 'oto' && (
+            <div className="form-group">
+              <label>Attached Exit:</label>
+              <select
+                value={orderData.stopLoss ? 'stop_loss' : 'take_profit'}
+                onChange={(e) => handleOtoExitChange(e.target.value as 'take_profit' | 'stop_loss')}
+              >
+                <option value="take_profit">Take Profit</option>
+                <option value="stop_loss">Stop Loss</option>
+              </select>
+            </div>
+          )}
+
+          {orderData.takeProfit && orderClass !== 'simple' && (
+            <div className="form-group">
+              <label>Take Profit Limit:</label>
+              <input
+                type="number"
+                value={orderData.takeProfit.limitPrice}
+                onChange={(e) => handleInputChange('takeProfit', { limitPrice: e.target.value })}
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+              />
+            </div>
+          )}
+
+          {orderData.stopLoss && orderClass !== 'simple' && (
+            <div className="form-group">
+              <label>Stop Loss (Stop / Limit):</label>
+              <div className="inline-fields">
+                <input
+                  type="number"
+                  value={orderData.stopLoss.stopPrice}
+                  onChange={(e) => handleInputChange('stopLoss', { ...orderData.stopLoss, stopPrice: e.target.value })}
+                  placeholder="Stop"
+                  min="0"
+                  step="0.01"
+                />
+                <input
+                  type="number"
+                  value={orderData.stopLoss.limitPrice ?? ''}
+                  onChange={(e) => handleInputChange('stopLoss', { ...orderData.stopLoss, limitPrice: e.target.value })}
+                  placeholder="Limit (optional)"
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+            </div>
+          )}
+
           <div className="form-group">
             <label>Time in Force:</label>
             <select
@@ -169,8 +336,8 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
             >
               <option value="day">Day</option>
               <option value="gtc">Good Till Canceled</option>
-              <option value="ioc">Immediate or Cancel</option>
-              <option value="fok">Fill or Kill</option>
+              {!isAdvanced && <option value="ioc">Immediate or Cancel</option>}
+              {!isAdvanced && <option value="fok">Fill or Kill</option>}
             </select>
           </div>
 
@@ -206,6 +373,12 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
             </div>
           )}
 
+          {errors.map(message => (
+            <div key={message} className="error">
+              {message}
+            </div>
+          ))}
+
           <button 
             className={`trade-button ${orderData.side}`}
             onClick={handlePreviewOrder}
@@ -221,6 +394,16 @@ const TradePanel: React.FC<IPanelComponentProps> = ({
           </div>
         )}
       </div>
+
+      {showOrderPreview && (
+        <OrderPreview
+          orderData={orderData}
+          asset={asset}
+          onConfirm={handleSubmitOrder}
+          onCancel={() => setShowOrderPreview(false)}
+          isLoading={isLoading}
+        />
+      )}
     </div>
   );
 };
@@ -8,4 +8,7 @@ export { default as TradePanel } from './TradePanel';
 export { default as NewsPanel } from './NewsPanel';
 export { default as PositionsPanel } from './PositionsPanel';
 export { default as OrdersPanel } from './OrdersPanel';
-export { default as AccountsPanel } from './AccountsPanel';
\ No newline at end of file
+export { default as AccountsPanel } from './AccountsPanel';export { default as DepthPanel } from './DepthPanel';
+export { default as TimeSalesPanel } from './TimeSalesPanel';
+export { default as ScannerPanel } from './ScannerPanel';
+export { default as OptionsChainPanel } from './OptionsChainPanel';
@@ -1,5 +1,15 @@
-import React from 'react';
-import type { OrderFormData, OrderType, OrderTimeInForce, Asset, Account } from '../../types';
+import React, { useState } from 'react';
+import type { OrderFormData, OrderClass, OrderType, OrderTimeInForce, Asset, Account } from '../../types';
+import {
+  ORDER_CLASS_LABELS,
+  STOCK_ORDER_CLASSES,
+  ORDER_TYPE_LABELS,
+  applyOrderClass,
+  applyOrderType,
+  getEntryPrice,
+  getEntryTypesForClass,
+  validateOrder,
+} from '../../utils/orderHelpers';
 import styles from './OrderForm.module.css';
 
 interface OrderFormProps {
@@ -19,16 +29,56 @@ const OrderForm: React.FC<OrderFormProps> = ({
   onPreview,
   isLoading
 }) => {
+  const [errors, setErrors] = useState<string[]>([]);
+  const orderClass = orderData.orderClass ?? 'simple';
+  const marketPrice = asset?.price ? parseFloat(asset.price.toString()) : undefined;
+
   const handleInputChange = (field: keyof OrderFormData, value: any) => {
+    setErrors([]);
     onChange({ ...orderData, [field]: value });
   };
 
+  const handleOrderClassChange = (value: OrderClass) => {
+    setErrors([]);
+    onChange(applyOrderClass(orderData, value));
+  };
+
+  const handleOrderTypeChange = (value: OrderType) => {
+    setErrors([]);
+    onChange(applyOrderType(orderData, value));
+  };
+
+  const handleTrailModeChange = (mode: 'price' | 'percent') => {
+    setErrors([]);
+    onChange({
+      ...orderData,
+      trailPrice: mode === 'price' ? '' : undefined,
+      trailPercent: mode === 'percent' ? '' : undefined,
+    });
+  };
+
+  // OTO orders attach a single exit leg
+  const handleOtoExitChange = (exit: 'take_profit' | 'stop_loss') => {
+    setErrors([]);
+    onChange({
+      ...orderData,
+      takeProfit: exit === 'take_profit' ? { limitPrice: '' } : undefined,
+      stopLoss: exit === 'stop_loss' ? { stopPrice: '' } : undefined,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validateOrder(orderData, marketPrice);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      onPreview();
+    }
+  };
+
   const calculateOrderValue = () => {
     const qty = parseFloat(orderData.qty || '0') || 0;
-    const price = orderData.type === 'limit' 
-      ? parseFloat(orderData.limitPrice || '0')
-      : (asset?.price ? parseFloat(asset.price.toString()) : 0);
-    return qty * price;
+    return qty * getEntryPrice(orderData, marketPrice);
   };
 
   const calculateBuyingPower = () => {
@@ -38,10 +88,12 @@ const OrderForm: React.FC<OrderFormProps> = ({
 
   const orderValue = calculateOrderValue();
   const buyingPower = calculateBuyingPower();
-  const hasInsufficientFunds = orderData.side === 'buy' && orderValue > buyingPower;
+  // OCO orders exit an existing position, so they don't use buying power
+  const hasInsufficientFunds = orderData.side === 'buy' && orderClass !== 'oco' && orderValue > buyingPower;
+  const isAdvanced = orderClass !== 'simple' || orderData.type === 'trailing_stop';
 
   return (
-    <form className={styles.orderForm} onSubmit={(e) => { e.preventDefault(); onPreview(); }}>
+    <form className={styles.orderForm} onSubmit={handleSubmit}>
       <div className={styles.formSection}>
         <div className={styles.sideSelector}>
           <button
@@ -62,19 +114,33 @@ const OrderForm: React.FC<OrderFormProps> = ({
       </div>
 
       <div className={styles.formSection}>
-        <label className={styles.label}>Order Type</label>
+        <label className={styles.label}>Order Class</label>
         <select
           className={styles.select}
-          value={orderData.type}
-          onChange={(e) => handleInputChange('type', e.target.value as OrderType)}
+          value={orderClass}
+          onChange={(e) => handleOrderClassChange(e.target.value as OrderClass)}
         >
-          <option value="market">Market Order</option>
-          <option value="limit">Limit Order</option>
-          <option value="stop">Stop Loss</option>
-          <option value="stop_limit">Stop Limit</option>
+          {STOCK_ORDER_CLASSES.map(value => (
+            <option key={value} value={value}>{ORDER_CLASS_LABELS[value]}</option>
+          ))}
         </select>
       </div>
 
+      {orderClass !== 'oco' && (
+        <div className={styles.formSection}>
+          <label className={styles.label}>{orderClass === 'simple' ? 'Order Type' : 'Entry Type'}</label>
+          <select
+            className={styles.select}
+            value={orderData.type}
+            onChange={(e) => handleOrderTypeChange(e.target.value as OrderType)}
+          >
+            {getEntryTypesForClass(orderClass).map(value => (
+              <option key={value} value={value}>{ORDER_TYPE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div className={styles.formSection}>
         <label className={styles.label}>Quantity</label>
         <input
@@ -89,7 +155,7 @@ const OrderForm: React.FC<OrderFormProps> = ({
         />
       </div>
 
-      {(orderData.type === 'limit' || orderData.type === 'stop_limit') && (
+      {orderClass !== 'oco' && (orderData.type === 'limit' || orderData.type === 'stop_limit') && (
         <div className={styles.formSection}>
           <label className={styles.label}>Limit Price</label>
           <input
@@ -121,6 +187,103 @@ const OrderForm: React.FC<OrderFormProps> = ({
         </div>
       )}
 
+      {orderData.type === 'trailing_stop' && (
+        <div className={styles.formSection}>
+          <label className={styles.label}>Trail By</label>
+          <div className={styles.inlineFields}>
+            <select
+              className={styles.select}
+              value={orderData.trailPercent !== undefined ? 'percent' : 'price'}
+              onChange={(e) => handleTrailModeChange(e.target.value as 'price' | 'percent')}
+            >
+              <option value="price">Amount ($)</option>
+              <option value="percent">Percent (%)</option>
+            </select>
+            {orderData.trailPercent !== undefined ? (
+              <input
+                type="number"
+                className={styles.input}
+                value={orderData.trailPercent}
+                onChange={(e) => handleInputChange('trailPercent', e.target.value)}
+                placeholder="0.0"
+                min="0"
+                max="100"
+                step="0.1"
+                required
+              />
+            ) : (
+              <input
+                type="number"
+                className={styles.input}
+                value={orderData.trailPrice ?? ''}
+                onChange={(e) => handleInputChange('trailPrice', e.target.value)}
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+                required
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {orderClass === 'oto' && (
+        <div className={styles.formSection}>
+          <label className={styles.label}>Attached Exit</label>
+          <select
+            className={styles.select}
+            value={orderData.stopLoss ? 'stop_loss' : 'take_profit'}
+            onChange={(e) => handleOtoExitChange(e.target.value as 'take_profit' | 'stop_loss')}
+          >
+            <option value="take_profit">Take Profit</option>
+            <option value="stop_loss">Stop Loss</option>
+          </select>
+        </div>
+      )}
+
+      {orderData.takeProfit && orderClass !== 'simple' && (
+        <div className={styles.formSection}>
+          <label className={styles.label}>Take Profit Limit</label>
+          <input
+            type="number"
+            className={styles.input}
+            value={orderData.takeProfit.limitPrice}
+            onChange={(e) => handleInputChange('takeProfit', { limitPrice: e.target.value })}
+            placeholder="0.00"
+            min="0"
+            step="0.01"
+            required
+          />
+        </div>
+      )}
+
+      {orderData.stopLoss && orderClass !== 'simple' && (
+        <div className={styles.formSection}>
+          <label className={styles.label}>Stop Loss</label>
+          <div className={styles.inlineFields}>
+            <input
+              type="number"
+              className={styles.input}
+              value={orderData.stopLoss.stopPrice}
+              onChange={(e) => handleInputChange('stopLoss', { ...orderData.stopLoss, stopPrice: e.target.value })}
+              placeholder="Stop"
+              min="0"
+              step="0.01"
+              required
+            />
+            <input
+              type="number"
+              className={styles.input}
+              value={orderData.stopLoss.limitPrice ?? ''}
+              onChange={(e) => handleInputChange('stopLoss', { ...orderData.stopLoss, limitPrice: e.target.value })}
+              placeholder="Limit (optional)"
+              min="0"
+              step="0.01"
+            />
+          </div>
+        </div>
+      )}
+
       <div className={styles.formSection}>
         <label className={styles.label}>Time in Force</label>
         <select
@@ -130,8 +293,8 @@ const OrderForm: React.FC<OrderFormProps> = ({
         >
           <option value="day">Day</option>
           <option value="gtc">Good Till Canceled</option>
-          <option value="ioc">Immediate or Cancel</option>
-          <option value="fok">Fill or Kill</option>
+          {!isAdvanced && <option value="ioc">Immediate or Cancel</option>}
+          {!isAdvanced && <option value="fok">Fill or Kill</option>}
         </select>
       </div>
 
@@ -168,6 +331,12 @@ const OrderForm: React.FC<OrderFormProps> = ({
         </div>
       )}
 
+      {errors.map(message => (
+        <div key={message} className={styles.error}>
+          {message}
+        </div>
+      ))}
+
       <button
         type="submit"
         className={`${styles.submitButton} ${orderData.side === 'buy' ? styles.buyButton : styles.sellButton}`}
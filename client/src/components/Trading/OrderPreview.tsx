@@ -1,5 +1,13 @@
 import React from 'react';
 import type { OrderFormData, Asset } from '../../types';
+import {
+  ORDER_CLASS_LABELS,
+  describeOrderLeg,
+  getEntryPrice,
+  getOrderLegs,
+  type OrderLeg,
+} from '../../utils/orderHelpers';
+import { POSITION_INTENT_LABELS, describeOptionSymbol, getContractMultiplier } from '../../utils/optionHelpers';
 import styles from './OrderPreview.module.css';
 
 interface OrderPreviewProps {
@@ -17,12 +25,42 @@ const OrderPreview: React.FC<OrderPreviewProps> = ({
   onCancel,
   isLoading
 }) => {
+  const orderClass = orderData.orderClass ?? 'simple';
+  const legs = getOrderLegs(orderData);
+  // Option prices are per share and each contract covers `multiplier` shares
+  const multiplier = getContractMultiplier(orderData);
+  const isOption = multiplier > 1;
+  const isMultiLeg = orderClass === 'mleg';
+  const optionLegs = orderData.legs ?? [];
+  // The asset's price is the underlying's, which says nothing about a contract's price
+  const marketPrice = !isOption && asset?.price ? parseFloat(asset.price.toString()) : 0;
+
   const calculateOrderValue = () => {
     const qty = parseFloat(orderData.qty || '0') || 0;
-    const price = orderData.type === 'limit' 
-      ? parseFloat(orderData.limitPrice || '0')
-      : (asset?.price ? parseFloat(asset.price.toString()) : 0);
-    return qty * price;
+    const price = getEntryPrice(orderData, marketPrice);
+    return qty * price * multiplier;
+  };
+
+  const getTitle = () => {
+    if (isMultiLeg) return `${orderData.symbol} ${optionLegs.length}-leg options`;
+    if (isOption) return describeOptionSymbol(orderData.symbol);
+    return asset?.symbol;
+  };
+
+  const getSideLabel = () => {
+    if (isMultiLeg) return orderData.side === 'buy' ? 'DEBIT' : 'CREDIT';
+    return orderData.side === 'buy' ? 'BUY' : 'SELL';
+  };
+
+  const getLegLabel = (leg: OrderLeg) => {
+    switch (leg.role) {
+      case 'entry':
+        return 'Entry';
+      case 'take_profit':
+        return 'Take Profit';
+      case 'stop_loss':
+        return 'Stop Loss';
+    }
   };
 
   const getOrderTypeDescription = () => {
@@ -35,6 +73,10 @@ const OrderPreview: React.FC<OrderPreviewProps> = ({
         return `Stop Loss - Trigger market order when price reaches $${orderData.stopPrice}`;
       case 'stop_limit':
         return `Stop Limit - Trigger limit order at $${orderData.limitPrice} when price reaches $${orderData.stopPrice}`;
+      case 'trailing_stop':
+        return orderData.trailPercent !== undefined
+          ? `Trailing Stop - Trigger market order when price moves ${orderData.trailPercent}% against the best price`
+          : `Trailing Stop - Trigger market order when price moves $${orderData.trailPrice} against the best price`;
       default:
         return '';
     }
@@ -68,44 +110,103 @@ const OrderPreview: React.FC<OrderPreviewProps> = ({
         
         <div className={styles.orderSummary}>
           <div className={styles.assetInfo}>
-            <h3>{asset?.symbol}</h3>
-            <p className={styles.assetName}>{asset?.name}</p>
+            <h3>{getTitle()}</h3>
+            <p className={styles.assetName}>{isOption ? (isMultiLeg ? ORDER_CLASS_LABELS.mleg : orderData.symbol) : asset?.name}</p>
           </div>
 
           <div className={`${styles.sideIndicator} ${orderData.side === 'buy' ? styles.buy : styles.sell}`}>
-            {orderData.side === 'buy' ? 'BUY' : 'SELL'}
+            {getSideLabel()}
           </div>
         </div>
 
         <div className={styles.orderDetails}>
-          <div className={styles.detailRow}>
-            <span className={styles.detailLabel}>Order Type</span>
-            <div className={styles.detailValue}>
-              <strong>{orderData.type.toUpperCase()}</strong>
-              <p className={styles.description}>{getOrderTypeDescription()}</p>
+          {orderClass === 'simple' || isMultiLeg ? (
+            <div className={styles.detailRow}>
+              <span className={styles.detailLabel}>Order Type</span>
+              <div className={styles.detailValue}>
+                <strong>{orderData.type.replace('_', ' ').toUpperCase()}</strong>
+                <p className={styles.description}>{getOrderTypeDescription()}</p>
+              </div>
             </div>
-          </div>
+          ) : (
+            <>
+              <div className={styles.detailRow}>
+                <span className={styles.detailLabel}>Order Class</span>
+                <div className={styles.detailValue}>
+                  <strong>{orderClass.toUpperCase()}</strong>
+                  <p className={styles.description}>{ORDER_CLASS_LABELS[orderClass]}</p>
+                </div>
+              </div>
+              {legs.map(leg => (
+                <div key={leg.role} className={`${styles.detailRow} ${styles.legRow}`}>
+                  <span className={styles.detailLabel}>{getLegLabel(leg)}</span>
+                  <div className={styles.detailValue}>
+                    <strong>
+                      <span className={leg.side === 'buy' ? styles.legBuy : styles.legSell}>
+                        {leg.side.toUpperCase()}
+                      </span>{' '}
+                      {leg.type.replace('_', ' ').toUpperCase()}
+                    </strong>
+                    <p className={styles.description}>{describeOrderLeg(leg)}</p>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+
+          {optionLegs.map((leg, index) => (
+            <div key={leg.symbol} className={`${styles.detailRow} ${styles.legRow}`}>
+              <span className={styles.detailLabel}>Leg {index + 1}</span>
+              <div className={styles.detailValue}>
+                <strong>
+                  <span className={leg.side === 'buy' ? styles.legBuy : styles.legSell}>
+                    {leg.side.toUpperCase()} {leg.ratioQty}
+                  </span>{' '}
+                  {describeOptionSymbol(leg.symbol)}
+                </strong>
+                {leg.positionIntent && (
+                  <p className={styles.description}>{POSITION_INTENT_LABELS[leg.positionIntent]}</p>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {orderData.positionIntent && (
+            <div className={styles.detailRow}>
+              <span className={styles.detailLabel}>Position</span>
+              <span className={styles.detailValue}>{POSITION_INTENT_LABELS[orderData.positionIntent]}</span>
+            </div>
+          )}
 
           <div className={styles.detailRow}>
-            <span className={styles.detailLabel}>Quantity</span>
+            <span className={styles.detailLabel}>{isOption && !isMultiLeg ? 'Contracts' : 'Quantity'}</span>
             <span className={styles.detailValue}>{orderData.qty}</span>
           </div>
 
-          {orderData.type === 'market' && (
+          {isOption && (
+            <div className={styles.detailRow}>
+              <span className={styles.detailLabel}>Multiplier</span>
+              <span className={styles.detailValue}>{multiplier} shares per contract</span>
+            </div>
+          )}
+
+          {orderData.type === 'market' && !isOption && (
             <div className={styles.detailRow}>
               <span className={styles.detailLabel}>Estimated Price</span>
               <span className={styles.detailValue}>${formatNumber(asset?.price ? parseFloat(asset.price.toString()) : 0)}</span>
             </div>
           )}
 
-          {(orderData.type === 'limit' || orderData.type === 'stop_limit') && (
+          {(orderClass === 'simple' || isMultiLeg) && (orderData.type === 'limit' || orderData.type === 'stop_limit') && (
             <div className={styles.detailRow}>
-              <span className={styles.detailLabel}>Limit Price</span>
+              <span className={styles.detailLabel}>
+                {isMultiLeg ? `Net ${orderData.side === 'buy' ? 'Debit' : 'Credit'}` : 'Limit Price'}
+              </span>
               <span className={styles.detailValue}>${orderData.limitPrice}</span>
             </div>
           )}
 
-          {(orderData.type === 'stop' || orderData.type === 'stop_limit') && (
+          {orderClass === 'simple' && (orderData.type === 'stop' || orderData.type === 'stop_limit') && (
             <div className={styles.detailRow}>
               <span className={styles.detailLabel}>Stop Price</span>
               <span className={styles.detailValue}>${orderData.stopPrice}</span>
@@ -128,13 +229,26 @@ const OrderPreview: React.FC<OrderPreviewProps> = ({
           )}
 
           <div className={styles.totalRow}>
-            <span className={styles.detailLabel}>Estimated Total</span>
+            <span className={styles.detailLabel}>
+              {isMultiLeg && orderData.side === 'sell' ? 'Estimated Credit' : 'Estimated Total'}
+            </span>
             <span className={styles.totalValue}>${formatNumber(orderValue)}</span>
           </div>
         </div>
 
         <div className={styles.disclaimer}>
           <p>By placing this order, you agree to the terms and conditions.</p>
+          {orderClass !== 'simple' && (
+            <p className={styles.description}>
+              {orderClass === 'mleg'
+                ? 'All legs fill together at the net price, or not at all.'
+                : orderClass === 'oto'
+                  ? 'The exit order is placed only after the entry fills.'
+                  : orderClass === 'bracket'
+                    ? 'Exit orders are placed after the entry fills; when one exit fills, the other is canceled.'
+                    : 'When one order fills, the other is canceled.'}
+            </p>
+          )}
           {orderData.type === 'market' && (
             <p className={styles.warning}>
               Note: Market orders may execute at a different price than shown.
@@ -155,7 +269,7 @@ const OrderPreview: React.FC<OrderPreviewProps> = ({
             onClick={onConfirm}
             disabled={isLoading}
           >
-            {isLoading ? 'Processing...' : `Confirm ${orderData.side === 'buy' ? 'Buy' : 'Sell'}`}
+            {isLoading ? 'Processing...' : isMultiLeg ? 'Confirm Order' : `Confirm ${orderData.side === 'buy' ? 'Buy' : 'Sell'}`}
           </button>
         </div>
       </div>
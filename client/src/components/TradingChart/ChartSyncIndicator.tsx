@@ -0,0 +1,48 @@
+import React from 'react';
+import styles from './ChartSyncIndicator.module.css';
+import { useChartSyncStatus } from './hooks/useChartSyncStatus';
+import type { ChartSyncStatus, ChartWorkspaceQuota } from './services/ChartSyncService';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const describeQuota = (quota: ChartWorkspaceQuota): string =>
+  `${formatBytes(quota.usedBytes)} of ${formatBytes(quota.limitBytes)} used, ${quota.workspaceCount} chart${quota.workspaceCount === 1 ? '' : 's'}`;
+
+const describeStatus = ({ state, pending }: ChartSyncStatus): { label: string; title: string } | null => {
+  switch (state) {
+    case 'synced':
+      return { label: 'Synced', title: 'Drawings and settings are saved to your account' };
+    case 'syncing':
+      return { label: 'Syncing…', title: 'Saving changes to your account' };
+    case 'offline':
+      return { label: `Offline · ${pending} pending`, title: 'Changes are saved on this device and will sync when you are back online' };
+    case 'error':
+      return { label: 'Sync error', title: 'Changes are saved on this device; syncing will be retried' };
+    case 'quota-exceeded':
+      return { label: 'Storage full', title: 'Your chart storage is full. Clear charts you no longer use to keep syncing' };
+    case 'unavailable':
+      return { label: 'Saved locally', title: 'Chart sync is unavailable; changes are saved on this device only' };
+    default:
+      return null; // sync disabled, or not started yet
+  }
+};
+
+// Chip in the chart header showing whether the chart is saved to the user's account
+const ChartSyncIndicator: React.FC = () => {
+  const status = useChartSyncStatus();
+  const description = describeStatus(status);
+  if (!description) return null;
+
+  const title = status.quota ? `${description.title}\n${describeQuota(status.quota)}` : description.title;
+  return (
+    <span className={`${styles.syncIndicator} ${styles[status.state] ?? ''}`} title={title}>
+      {description.label}
+    </span>
+  );
+};
+
+export default ChartSyncIndicator;
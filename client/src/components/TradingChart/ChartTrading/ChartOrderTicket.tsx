@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import type { OrdersApi } from '../../../services/api';
+import type { OrderFormData, OrderSide, OrderTimeInForce } from '../../../types';
+import { useAsset, useCreateOrder } from '../../../hooks';
+import useToastStore from '../../../store/toastStore';
+import { validateOrder } from '../../../utils/orderHelpers';
+import OrderPreview from '../../Trading/OrderPreview';
+import { formatOrderPrice, type ChartTicketOption } from './orderLines';
+import styles from './ChartOrderTicket.module.css';
+
+interface ChartOrderTicketProps {
+  symbol: string;
+  option: ChartTicketOption;
+  position: { x: number; y: number };
+  ordersApi?: OrdersApi;
+  onClose: () => void;
+}
+
+/**
+ * Limit/stop ticket opened from a right-clicked price level. Submitting goes through OrderPreview for confirmation.
+ */
+const ChartOrderTicket: React.FC<ChartOrderTicketProps> = ({ symbol, option, position, ordersApi, onClose }) => {
+  const [side, setSide] = useState<OrderSide>(option.side);
+  const [type, setType] = useState<'limit' | 'stop'>(option.type);
+  const [price, setPrice] = useState(formatOrderPrice(option.price));
+  const [qty, setQty] = useState('');
+  const [timeInForce, setTimeInForce] = useState<OrderTimeInForce>('day');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const { data: asset } = useAsset(symbol);
+  const createOrder = useCreateOrder(ordersApi);
+  const showToast = useToastStore(state => state.showToast);
+
+  const orderData: OrderFormData = {
+    symbol,
+    side,
+    type,
+    qty,
+    timeInForce,
+    limitPrice: type === 'limit' ? price : undefined,
+    stopPrice: type === 'stop' ? price : undefined,
+    extendedHours: false,
+    orderClass: 'simple',
+  };
+
+  const handleReview = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validateOrder(orderData);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      setShowPreview(true);
+    }
+  };
+
+  const handleConfirm = async () => {
+    try {
+      await createOrder.mutateAsync(orderData);
+      showToast({
+        title: `${side === 'buy' ? 'Buy' : 'Sell'} ${type} order placed`,
+        message: `${qty} ${symbol} @ $${price}`,
+        variant: 'success',
+        duration: 3000,
+      });
+      onClose();
+    } catch (err) {
+      console.error('❌ [ChartOrderTicket] Order submission failed:', err);
+      setShowPreview(false);
+      showToast({ title: 'Order failed', message: 'The order was not placed. Please try again.', variant: 'error' });
+    }
+  };
+
+  return (
+    <>
+      <form
+        className={styles.ticket}
+        style={{ left: position.x, top: position.y }}
+        onSubmit={handleReview}
+        onKeyDown={e => e.key === 'Escape' && onClose()}
+      >
+        <div className={styles.header}>
+          <span className={styles.title}>{symbol}</span>
+          <button type="button" className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.sideSelector}>
+          <button
+            type="button"
+            className={`${styles.sideButton} ${side === 'buy' ? styles.buy : ''}`}
+            onClick={() => setSide('buy')}
+          >
+            Buy
+          </button>
+          <button
+            type="button"
+            className={`${styles.sideButton} ${side === 'sell' ? styles.sell : ''}`}
+            onClick={() => setSide('sell')}
+          >
+            Sell
+          </button>
+        </div>
+
+        <label className={styles.field}>
+          <span>Type</span>
+          <select value={type} onChange={e => setType(e.target.value as 'limit' | 'stop')}>
+            <option value="limit">Limit</option>
+            <option value="stop">Stop</option>
+          </select>
+        </label>
+
+        <label className={styles.field}>
+          <span>{type === 'limit' ? 'Limit Price' : 'Stop Price'}</span>
+          <input type="number" value={price} onChange={e => setPrice(e.target.value)} min="0" step="0.01" />
+        </label>
+
+        <label className={styles.field}>
+          <span>Quantity</span>
+          <input
+            type="number"
+            value={qty}
+            onChange={e => setQty(e.target.value)}
+            placeholder="0"
+            min="0"
+            step="0.001"
+            autoFocus
+          />
+        </label>
+
+        <label className={styles.field}>
+          <span>Time in Force</span>
+          <select value={timeInForce} onChange={e => setTimeInForce(e.target.value as OrderTimeInForce)}>
+            <option value="day">Day</option>
+            <option value="gtc">Good Till Canceled</option>
+          </select>
+        </label>
+
+        {errors.map(message => (
+          <div key={message} className={styles.error}>{message}</div>
+        ))}
+
+        <button type="submit" className={`${styles.submitButton} ${side === 'buy' ? styles.buy : styles.sell}`}>
+          Review Order
+        </button>
+      </form>
+
+      {showPreview && (
+        <OrderPreview
+          orderData={orderData}
+          asset={asset}
+          onConfirm={handleConfirm}
+          onCancel={() => setShowPreview(false)}
+          isLoading={createOrder.isPending}
+        />
+      )}
+    </>
+  );
+};
+
+export default ChartOrderTicket;
@@ -0,0 +1,17 @@
+// Chart trading: working orders as draggable price lines and tickets from price levels
+export { default as ChartOrderTicket } from './ChartOrderTicket';
+export { orderLinesPlugin } from './orderLinesPlugin';
+export type { OrderLinesPluginOptions } from './orderLinesPlugin';
+export {
+  describeOrderLine,
+  dragOrderLine,
+  dropOrderLine,
+  findOrderLineAtPoint,
+  formatOrderPrice,
+  getLineReplaceChanges,
+  getOrderLineReplace,
+  getOrderLines,
+  getTicketOptions,
+  roundOrderPrice
+} from './orderLines';
+export type { ChartTicketOption, OrderLine, OrderLineMove } from './orderLines';
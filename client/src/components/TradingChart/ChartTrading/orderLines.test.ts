@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { MockOrdersApi } from '../../../services/mockOrdersApi';
+import type { Order } from '../../../types';
+import {
+  dragOrderLine,
+  dropOrderLine,
+  getOrderLineReplace,
+  getOrderLines,
+  type OrderLine,
+  type OrderLineMove,
+} from './orderLines';
+
+const CREATED_AT = '2024-06-28T14:30:00.000Z';
+
+const workingOrder = (fields: Partial<Order> & Pick<Order, 'id' | 'type'>): Order => ({
+  clientOrderId: `client-${fields.id}`,
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+  submittedAt: CREATED_AT,
+  assetId: 'aapl_id',
+  symbol: 'AAPL',
+  assetClass: 'us_equity',
+  qty: '10',
+  filledQty: '0',
+  side: 'buy',
+  orderClass: 'simple',
+  timeInForce: 'day',
+  status: 'new',
+  extendedHours: false,
+  ...fields,
+});
+
+const findLine = (lines: OrderLine[], id: string): OrderLine => {
+  const line = lines.find(l => l.id === id);
+  if (!line) throw new Error(`No order line ${id}`);
+  return line;
+};
+
+// Pointer positions in price terms, as the chart's mouse handlers see them
+const drag = (line: OrderLine, ...prices: number[]): OrderLineMove =>
+  prices.reduce(dragOrderLine, { line, price: line.price });
+
+describe('order line drag', () => {
+  it('rounds to valid prices and keeps the move when nothing changes', () => {
+    const line = findLine(getOrderLines([workingOrder({ id: 'o1', type: 'limit', limitPrice: '150.00' })], 'AAPL'), 'o1:limit');
+    const move = drag(line, 148.504);
+
+    expect(move.price).toBe(148.5);
+    expect(dragOrderLine(move, 148.498)).toBe(move);
+    expect(dragOrderLine(move, -1)).toBe(move);
+  });
+
+  it('only asks to confirm a drop away from the starting price', () => {
+    const line = findLine(getOrderLines([workingOrder({ id: 'o1', type: 'limit', limitPrice: '150.00' })], 'AAPL'), 'o1:limit');
+
+    expect(dropOrderLine(drag(line, 151, 150))).toBeNull();
+    expect(dropOrderLine(drag(line, 151))).toEqual({ line, price: 151 });
+  });
+});
+
+describe('order line drag → confirm → replace', () => {
+  const dropAndConfirm = async (api: MockOrdersApi, lineId: string, ...prices: number[]) => {
+    const line = findLine(getOrderLines(await api.getOrders('open'), 'AAPL'), lineId);
+    const pending = dropOrderLine(drag(line, ...prices));
+    if (!pending) throw new Error('Drop did not ask for confirmation');
+    const { orderId, changes } = getOrderLineReplace(pending);
+    return api.replaceOrder(orderId, changes);
+  };
+
+  it('replaces a limit order at the dropped price', async () => {
+    const api = new MockOrdersApi({ latencyMs: 0, orders: [workingOrder({ id: 'o1', type: 'limit', limitPrice: '150.00' })] });
+
+    const replacement = await dropAndConfirm(api, 'o1:limit', 149.2, 148.756);
+
+    expect(replacement).toMatchObject({ replaces: 'o1', limitPrice: '148.76', status: 'new' });
+    const lines = getOrderLines(await api.getOrders('open'), 'AAPL');
+    expect(lines.map(l => [l.id, l.price])).toEqual([[`${replacement.id}:limit`, 148.76]]);
+    expect((await api.getOrders('closed')).map(o => [o.id, o.status, o.replacedBy]))
+      .toEqual([['o1', 'replaced', replacement.id]]);
+  });
+
+  it('moves only the dragged level of a stop-limit order', async () => {
+    const api = new MockOrdersApi({
+      latencyMs: 0,
+      orders: [workingOrder({ id: 'o1', type: 'stop_limit', side: 'sell', stopPrice: '140.00', limitPrice: '139.50' })],
+    });
+
+    const replacement = await dropAndConfirm(api, 'o1:stop', 141.25);
+
+    expect(replacement).toMatchObject({ stopPrice: '141.25', limitPrice: '139.50' });
+  });
+
+  it('replaces a bracket leg under its parent', async () => {
+    const api = new MockOrdersApi({
+      latencyMs: 0,
+      orders: [workingOrder({
+        id: 'parent',
+        type: 'limit',
+        orderClass: 'bracket',
+        limitPrice: '150.00',
+        legs: [
+          workingOrder({ id: 'tp', type: 'limit', side: 'sell', orderClass: 'bracket', limitPrice: '160.00', status: 'held' }),
+          workingOrder({ id: 'sl', type: 'stop', side: 'sell', orderClass: 'bracket', stopPrice: '145.00', status: 'held' }),
+        ],
+      })],
+    });
+
+    const replacement = await dropAndConfirm(api, 'tp:limit', 162);
+
+    expect(replacement.status).toBe('held');
+    const [parent] = (await api.getOrders()).filter(o => o.id === 'parent');
+    expect(parent.legs?.map(leg => [leg.id, leg.limitPrice ?? leg.stopPrice])).toEqual([
+      [replacement.id, '162.00'],
+      ['sl', '145.00'],
+    ]);
+  });
+
+  it('leaves the order unchanged when the replace is rejected', async () => {
+    const order = workingOrder({ id: 'o1', type: 'limit', limitPrice: '150.00' });
+    const api = new MockOrdersApi({ latencyMs: 0, orders: [order] });
+    const line = findLine(getOrderLines([order], 'AAPL'), 'o1:limit');
+    const pending = dropOrderLine(drag(line, 152))!;
+
+    // The order fills between the drop and the confirmation
+    api.reset([{ ...order, status: 'filled', filledQty: '10' }]);
+    const { orderId, changes } = getOrderLineReplace(pending);
+
+    await expect(api.replaceOrder(orderId, changes)).rejects.toThrow('cannot be replaced while filled');
+    expect((await api.getOrders()).map(o => [o.id, o.status, o.limitPrice])).toEqual([['o1', 'filled', '150.00']]);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Order, OrderReplaceRequest, OrderSide, OrderType } from '../../../types';
+import { isWorkingOrder } from '../../../utils/orderHelpers';
+import type { CanvasPoint } from '../DrawingTools/types';
+import type { CoordinateConverter } from '../DrawingTools/coordinateUtils';
+
+// One draggable price level of a working order; stop-limit orders have two
+export interface OrderLine {
+  id: string;
+  orderId: string;
+  kind: 'limit' | 'stop';
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  qty: string;
+  price: number;
+}
+
+// An order line held at a price other than its own: while dragging, confirming or replacing
+export interface OrderLineMove {
+  line: OrderLine;
+  price: number;
+}
+
+// Order the chart can open a ticket for at a right-clicked price
+export interface ChartTicketOption {
+  side: OrderSide;
+  type: 'limit' | 'stop';
+  price: number;
+}
+
+const HIT_TOLERANCE = 5; // pixels
+
+/**
+ * Price lines for the symbol's working orders, including bracket/OCO/OTO legs.
+ */
+export function getOrderLines(orders: Order[], symbol: string): OrderLine[] {
+  const lines: OrderLine[] = [];
+  const normalizedSymbol = symbol.toUpperCase();
+
+  const addLines = (order: Order) => {
+    if (order.symbol.toUpperCase() !== normalizedSymbol || !isWorkingOrder(order)) return;
+
+    const base = {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      qty: order.qty ?? '',
+    };
+
+    // Trailing stops follow the market, so there is no fixed level to drag
+    if (order.type !== 'trailing_stop' && order.stopPrice) {
+      lines.push({ ...base, id: `${order.id}:stop`, kind: 'stop', price: parseFloat(order.stopPrice) });
+    }
+    if (order.limitPrice) {
+      lines.push({ ...base, id: `${order.id}:limit`, kind: 'limit', price: parseFloat(order.limitPrice) });
+    }
+  };
+
+  orders.forEach(order => {
+    addLines(order);
+    order.legs?.forEach(addLines);
+  });
+
+  return lines.filter(line => Number.isFinite(line.price));
+}
+
+/**
+ * Closest order line within a few pixels of the point, if any.
+ */
+export function findOrderLineAtPoint(
+  lines: OrderLine[],
+  canvasPoint: CanvasPoint,
+  converter: CoordinateConverter
+): OrderLine | null {
+  if (!converter.isPointInChart(canvasPoint)) return null;
+
+  let closest: OrderLine | null = null;
+  let closestDistance = HIT_TOLERANCE;
+
+  for (const line of lines) {
+    const y = converter.chartToCanvas({ x: 0, y: line.price }).y;
+    const distance = Math.abs(y - canvasPoint.y);
+    if (distance <= closestDistance) {
+      closest = line;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+// Brokers reject sub-penny prices above $1
+export function roundOrderPrice(price: number): number {
+  const decimals = price >= 1 ? 2 : 4;
+  const factor = 10 ** decimals;
+  return Math.round(price * factor) / factor;
+}
+
+export function formatOrderPrice(price: number): string {
+  return price >= 1 ? price.toFixed(2) : price.toFixed(4);
+}
+
+export function getLineReplaceChanges(line: OrderLine, price: number): OrderReplaceRequest {
+  const value = formatOrderPrice(price);
+  return line.kind === 'limit' ? { limitPrice: value } : { stopPrice: value };
+}
+
+/**
+ * Follows the pointer while dragging; keeps the current move when the price doesn't change or isn't valid.
+ */
+export function dragOrderLine(move: OrderLineMove, chartPrice: number): OrderLineMove {
+  const price = roundOrderPrice(chartPrice);
+  return price > 0 && price !== move.price ? { line: move.line, price } : move;
+}
+
+// The move to confirm when the line is dropped, or null if it ended where it started
+export function dropOrderLine(move: OrderLineMove): OrderLineMove | null {
+  return move.price !== move.line.price ? move : null;
+}
+
+// Arguments for the replace mutation once the move is confirmed
+export function getOrderLineReplace(move: OrderLineMove): { orderId: string; changes: OrderReplaceRequest } {
+  return { orderId: move.line.orderId, changes: getLineReplaceChanges(move.line, move.price) };
+}
+
+export function describeOrderLine(line: OrderLine, price = line.price): string {
+  const type = line.type === 'stop_limit' ? `STOP LMT (${line.kind})` : line.kind === 'limit' ? 'LMT' : 'STP';
+  return `${line.side.toUpperCase()} ${type} ${line.qty} @ ${formatOrderPrice(price)}`;
+}
+
+/**
+ * Tickets that make sense at a price: limits rest on the passive side of the market, stops on the other.
+ * Without a last price all four are offered.
+ */
+export function getTicketOptions(price: number, lastPrice?: number): ChartTicketOption[] {
+  const rounded = roundOrderPrice(price);
+  if (lastPrice === undefined) {
+    return [
+      { side: 'buy', type: 'limit', price: rounded },
+      { side: 'sell', type: 'limit', price: rounded },
+      { side: 'buy', type: 'stop', price: rounded },
+      { side: 'sell', type: 'stop', price: rounded },
+    ];
+  }
+
+  return rounded <= lastPrice
+    ? [{ side: 'buy', type: 'limit', price: rounded }, { side: 'sell', type: 'stop', price: rounded }]
+    : [{ side: 'sell', type: 'limit', price: rounded }, { side: 'buy', type: 'stop', price: rounded }];
+}
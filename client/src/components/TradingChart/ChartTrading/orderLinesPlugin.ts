@@ -0,0 +1,89 @@
+import type { Chart as ChartJS, Plugin } from 'chart.js';
+import { describeOrderLine, formatOrderPrice, type OrderLine } from './orderLines';
+
+export interface OrderLinesPluginOptions {
+  lines: OrderLine[];
+  // Line being dragged or awaiting confirmation, drawn at its new price
+  movingLineId?: string | null;
+  movingPrice?: number | null;
+}
+
+const BUY_COLOR = '#26a69a';
+const SELL_COLOR = '#ef5350';
+
+export const orderLinesPlugin: Plugin<'line' | 'bar', OrderLinesPluginOptions> = {
+  id: 'orderLines',
+
+  afterDraw(chart: ChartJS, _args: unknown, options: OrderLinesPluginOptions) {
+    if (!options.lines || options.lines.length === 0) return;
+
+    const yScale = chart.scales.y;
+    const chartArea = chart.chartArea;
+    if (!yScale || !chartArea) return;
+
+    const ctx = chart.ctx;
+    ctx.save();
+
+    options.lines.forEach(line => {
+      const isMoving = line.id === options.movingLineId && options.movingPrice != null;
+      const color = line.side === 'buy' ? BUY_COLOR : SELL_COLOR;
+
+      // Leave a faint line at the original level while moving
+      if (isMoving) {
+        drawLevel(ctx, chartArea, yScale.getPixelForValue(line.price), color, 0.3);
+      }
+
+      const price = isMoving ? options.movingPrice! : line.price;
+      const y = yScale.getPixelForValue(price);
+      if (y < chartArea.top || y > chartArea.bottom) return;
+
+      drawLevel(ctx, chartArea, y, color, 1);
+      drawLabel(ctx, chartArea.left + 4, y, describeOrderLine(line, price), color, 'left');
+      drawLabel(ctx, chartArea.right - 4, y, formatOrderPrice(price), color, 'right');
+    });
+
+    ctx.restore();
+  }
+};
+
+function drawLevel(
+  ctx: CanvasRenderingContext2D,
+  chartArea: ChartJS['chartArea'],
+  y: number,
+  color: string,
+  alpha: number
+) {
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  ctx.moveTo(chartArea.left, y);
+  ctx.lineTo(chartArea.right, y);
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawLabel(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  text: string,
+  color: string,
+  align: 'left' | 'right'
+) {
+  ctx.save();
+  ctx.font = 'bold 10px Arial';
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+
+  const width = ctx.measureText(text).width + 8;
+  const left = align === 'left' ? x : x - width;
+
+  ctx.fillStyle = color;
+  ctx.fillRect(left, y - 8, width, 16);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(text, left + 4, y);
+  ctx.restore();
+}
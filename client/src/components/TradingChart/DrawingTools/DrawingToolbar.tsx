@@ -1,14 +1,20 @@
 import React from 'react';
 import type { DrawingTool } from './types';
+import { DRAWING_POINT_COUNTS } from './types';
 import styles from './DrawingToolbar.module.css';
 
 interface DrawingToolbarProps {
   activeTool: DrawingTool;
   onToolSelect: (tool: DrawingTool) => void;
   onClearAll: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  undoLabel?: string | null; // label of the command undo would revert, null when there is none
+  redoLabel?: string | null;
   disabled?: boolean;
   drawingsCount?: number;
   selectedDrawingId?: string | null;
+  selectedCount?: number;
 }
 
 // SVG Icons for drawing tools
@@ -20,6 +26,28 @@ const TrendlineIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   </svg>
 );
 
+const RayIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <path d="M3 12L15 3" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+    <circle cx="3" cy="12" r="1.5" fill="currentColor"/>
+    <circle cx="8" cy="8.25" r="1.5" fill="currentColor"/>
+  </svg>
+);
+
+const ExtendedLineIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <path d="M1 14L15 2" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+    <circle cx="5" cy="10.5" r="1.5" fill="currentColor"/>
+    <circle cx="11" cy="5.5" r="1.5" fill="currentColor"/>
+  </svg>
+);
+
+const ArrowIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <path d="M3 13L13 3M13 3H7M13 3V9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
 const HorizontalLineIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
     <path d="M2 8L14 8" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
@@ -36,6 +64,19 @@ const VerticalLineIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   </svg>
 );
 
+const ParallelChannelIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <path d="M2 10L12 3M4 14L14 7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+  </svg>
+);
+
+const FibonacciIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <path d="M2 3H14M2 6.5H14M2 9.5H14M2 13H14" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round"/>
+    <path d="M3 13L13 3" stroke="currentColor" strokeWidth="1" strokeDasharray="2 2"/>
+  </svg>
+);
+
 const RectangleIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
     <rect x="3" y="5" width="10" height="6" stroke="currentColor" strokeWidth="1.5" fill="none"/>
@@ -44,6 +85,19 @@ const RectangleIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   </svg>
 );
 
+const EllipseIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <ellipse cx="8" cy="8" rx="6" ry="4" stroke="currentColor" strokeWidth="1.5"/>
+  </svg>
+);
+
+const MeasureIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <rect x="2" y="3" width="12" height="10" stroke="currentColor" strokeWidth="1" fill="currentColor" fillOpacity="0.15"/>
+    <path d="M8 4V12M3 8H13" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round"/>
+  </svg>
+);
+
 const TextIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
     <path d="M4 3h8M8 3v10M6 13h4" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
@@ -56,6 +110,20 @@ const ClearIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   </svg>
 );
 
+const UndoIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <path d="M5 3L2 6L5 9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M2 6H10A4 4 0 0 1 10 14H7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+  </svg>
+);
+
+const RedoIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
+  <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
+    <path d="M11 3L14 6L11 9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M14 6H6A4 4 0 0 0 6 14H9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+  </svg>
+);
+
 const CursorIcon: React.FC<{ size?: number }> = ({ size = 16 }) => (
   <svg width={size} height={size} viewBox="0 0 16 16" fill="none">
     <path d="M3 3L13 8L8 9L7 13L3 3Z" stroke="currentColor" strokeWidth="1.5" fill="currentColor" fillOpacity="0.1"/>
@@ -66,18 +134,32 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
   activeTool,
   onToolSelect,
   onClearAll,
+  onUndo,
+  onRedo,
+  undoLabel = null,
+  redoLabel = null,
   disabled = false,
   drawingsCount = 0,
-  selectedDrawingId = null
+  selectedDrawingId = null,
+  selectedCount = selectedDrawingId !== null ? 1 : 0
 }) => {
   const tools = [
-    { id: 'none' as DrawingTool, label: 'Select', Icon: CursorIcon },
-    { id: 'trendline' as DrawingTool, label: 'Trendline', Icon: TrendlineIcon },
-    { id: 'horizontal-line' as DrawingTool, label: 'Horizontal Line', Icon: HorizontalLineIcon },
-    { id: 'vertical-line' as DrawingTool, label: 'Vertical Line', Icon: VerticalLineIcon },
-    { id: 'rectangle' as DrawingTool, label: 'Rectangle', Icon: RectangleIcon },
-    { id: 'text' as DrawingTool, label: 'Text', Icon: TextIcon },
+    { id: 'none' as DrawingTool, label: 'Select', group: 'Drawing Tools', Icon: CursorIcon },
+    { id: 'trendline' as DrawingTool, label: 'Trendline', group: 'Lines', Icon: TrendlineIcon },
+    { id: 'ray' as DrawingTool, label: 'Ray', group: 'Lines', Icon: RayIcon },
+    { id: 'extended-line' as DrawingTool, label: 'Extended Line', group: 'Lines', Icon: ExtendedLineIcon },
+    { id: 'arrow' as DrawingTool, label: 'Arrow', group: 'Lines', Icon: ArrowIcon },
+    { id: 'horizontal-line' as DrawingTool, label: 'Horizontal Line', group: 'Lines', Icon: HorizontalLineIcon },
+    { id: 'vertical-line' as DrawingTool, label: 'Vertical Line', group: 'Lines', Icon: VerticalLineIcon },
+    { id: 'parallel-channel' as DrawingTool, label: 'Parallel Channel', group: 'Lines', Icon: ParallelChannelIcon },
+    { id: 'fib-retracement' as DrawingTool, label: 'Fib Retracement', group: 'Fibonacci', Icon: FibonacciIcon },
+    { id: 'fib-extension' as DrawingTool, label: 'Fib Extension', group: 'Fibonacci', Icon: FibonacciIcon },
+    { id: 'rectangle' as DrawingTool, label: 'Rectangle', group: 'Shapes', Icon: RectangleIcon },
+    { id: 'ellipse' as DrawingTool, label: 'Ellipse', group: 'Shapes', Icon: EllipseIcon },
+    { id: 'text' as DrawingTool, label: 'Text', group: 'Shapes', Icon: TextIcon },
+    { id: 'measure' as DrawingTool, label: 'Measure', group: 'Measure', Icon: MeasureIcon },
   ];
+  const groups = Array.from(new Set(tools.map(tool => tool.group)));
 
   const activeToolLabel = tools.find(tool => tool.id === activeTool)?.label || 'Select';
   const isDrawingActive = activeTool !== 'none';
@@ -85,13 +167,19 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
 
   const getStatusMessage = () => {
     if (isDrawingActive) {
-      return `${activeToolLabel} Mode - Click to draw, ESC to cancel`;
+      const pointCount = DRAWING_POINT_COUNTS[activeTool as Exclude<DrawingTool, 'none'>];
+      return pointCount === 3
+        ? `${activeToolLabel} Mode - Drag the first line, then click to place the third point, ESC to cancel`
+        : `${activeToolLabel} Mode - Click to draw, ESC to cancel`;
+    }
+    if (selectedCount > 1) {
+      return `${selectedCount} drawings selected - Drag to move together, Delete to remove, Ctrl+C to copy`;
     }
     if (hasSelection) {
       return 'Drawing selected - Press Delete to remove, click elsewhere to deselect';
     }
     if (drawingsCount > 0) {
-      return 'Select Mode - Click on drawings to select them';
+      return 'Select Mode - Click on drawings to select them, Shift+click or Shift+drag to select several';
     }
     return 'Select Mode - No drawings on chart';
   };
@@ -107,13 +195,15 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
           onChange={(e) => onToolSelect(e.target.value as DrawingTool)}
           disabled={disabled}
         >
-          <optgroup label="Drawing Tools">
-            {tools.map(({ id, label }) => (
-              <option key={id} value={id}>
-                {label}
-              </option>
-            ))}
-          </optgroup>
+          {groups.map(group => (
+            <optgroup key={group} label={group}>
+              {tools.filter(tool => tool.group === group).map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </optgroup>
+          ))}
         </select>
         
         {drawingsCount > 0 && (
@@ -122,6 +212,24 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
           </span>
         )}
         
+        <button
+          className={styles.toolButton}
+          onClick={onUndo}
+          disabled={disabled || !undoLabel}
+          title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          <UndoIcon size={16} />
+        </button>
+
+        <button
+          className={styles.toolButton}
+          onClick={onRedo}
+          disabled={disabled || !redoLabel}
+          title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        >
+          <RedoIcon size={16} />
+        </button>
+
         <button
           className={styles.clearButton}
           onClick={onClearAll}
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import type { FibonacciDrawing } from './types';
+import { DEFAULT_FIB_EXTENSION_LEVELS, DEFAULT_FIB_RETRACEMENT_LEVELS } from './types';
+import styles from './FibonacciLevelsEditor.module.css';
+
+interface FibonacciLevelsEditorProps {
+  drawing: FibonacciDrawing;
+  position: { x: number; y: number };
+  onSave: (levels: number[] | undefined) => void; // undefined restores the defaults
+  onCancel: () => void;
+}
+
+// '0, 0.5, 1.618' -> [0, 0.5, 1.618]; null when an entry isn't a number
+function parseFibonacciLevels(text: string): number[] | null {
+  const entries = text.split(/[\s,]+/).filter(Boolean);
+  const levels = entries.map(Number);
+  if (levels.length === 0 || levels.some(level => !Number.isFinite(level))) return null;
+  return Array.from(new Set(levels)).sort((a, b) => a - b);
+}
+
+/**
+ * Edits the ratios a Fibonacci drawing marks, as a comma-separated list
+ */
+const FibonacciLevelsEditor: React.FC<FibonacciLevelsEditorProps> = ({ drawing, position, onSave, onCancel }) => {
+  const defaults = drawing.type === 'fib-retracement' ? DEFAULT_FIB_RETRACEMENT_LEVELS : DEFAULT_FIB_EXTENSION_LEVELS;
+  const [text, setText] = useState((drawing.levels ?? defaults).join(', '));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const levels = parseFibonacciLevels(text);
+    if (!levels) {
+      setError('Enter numbers separated by commas, e.g. 0, 0.5, 0.618, 1');
+      return;
+    }
+    onSave(levels.join() === defaults.join() ? undefined : levels);
+  };
+
+  return (
+    <form
+      className={styles.editor}
+      style={{ left: position.x, top: position.y }}
+      onSubmit={handleSubmit}
+      onKeyDown={e => e.key === 'Escape' && onCancel()}
+    >
+      <label className={styles.field}>
+        <span>Fibonacci levels</span>
+        <input type="text" value={text} autoFocus onChange={e => setText(e.target.value)} />
+      </label>
+      {error && <div className={styles.error}>{error}</div>}
+      <div className={styles.actions}>
+        <button type="button" className={styles.secondaryButton} onClick={() => setText(defaults.join(', '))}>
+          Defaults
+        </button>
+        <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className={styles.applyButton}>
+          Apply
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default FibonacciLevelsEditor;
@@ -169,6 +169,16 @@ export class CoordinateConverter {
            point.y <= rect.y + rect.height;
   }
 
+  /**
+   * Check if a point is inside an ellipse
+   */
+  isPointInEllipse(point: CanvasPoint, center: CanvasPoint, radiusX: number, radiusY: number): boolean {
+    if (radiusX <= 0 || radiusY <= 0) return false;
+    const dx = (point.x - center.x) / radiusX;
+    const dy = (point.y - center.y) / radiusY;
+    return dx * dx + dy * dy <= 1;
+  }
+
   /**
    * Check if a point is near a horizontal line
    */
@@ -189,6 +199,20 @@ export class CoordinateConverter {
            point.y <= chartArea.bottom;
   }
 
+  /**
+   * Timestamps of the bars in the price dataset, for counting bars between two times
+   */
+  getBarTimes(): number[] {
+    const mainDataset = this.chart.data.datasets[0];
+    if (!mainDataset?.data) return [];
+
+    return (mainDataset.data as unknown[]).flatMap(dataPoint => {
+      const x = (dataPoint as { x?: unknown } | null)?.x;
+      const time = x instanceof Date ? x.getTime() : x;
+      return typeof time === 'number' ? [time] : [];
+    });
+  }
+
   /**
    * Check if a point is near text annotation
    */
@@ -1,5 +1,6 @@
 import type { Drawing, CanvasPoint } from './types';
 import { CoordinateConverter } from './coordinateUtils';
+import { extendLine, getChannelLines, getFibonacciLevels, getFibonacciTimeRange } from './drawingGeometry';
 
 /**
  * Lightweight hit testing for cursor changes (without debug logging)
@@ -14,7 +15,7 @@ export function findDrawingForCursor(
   for (let i = drawings.length - 1; i >= 0; i--) {
     const drawing = drawings[i];
     
-    if (isDrawingHitForCursor(drawing, canvasPoint, converter, tolerance)) {
+    if (!drawing.hidden && isDrawingHitForCursor(drawing, canvasPoint, converter, tolerance)) {
       return drawing;
     }
   }
@@ -30,11 +31,43 @@ function isDrawingHitForCursor(
 ): boolean {
   switch (drawing.type) {
     case 'trendline':
+    case 'arrow':
       if (drawing.points.length < 2) return false;
       const start = converter.chartToCanvas(drawing.points[0]);
       const end = converter.chartToCanvas(drawing.points[1]);
       return isPointNearLineSimple(canvasPoint, start, end, tolerance);
     
+    case 'ray':
+    case 'extended-line': {
+      if (drawing.points.length < 2) return false;
+      const [lineStart, lineEnd] = extendLine(
+        converter.chartToCanvas(drawing.points[0]),
+        converter.chartToCanvas(drawing.points[1]),
+        converter.chart.chartArea,
+        drawing.type === 'ray' ? 'ray' : 'both'
+      );
+      return isPointNearLineSimple(canvasPoint, lineStart, lineEnd, tolerance);
+    }
+    
+    case 'parallel-channel':
+      if (drawing.points.length < 3) return false;
+      return getChannelLines(drawing).some(([a, b]) =>
+        isPointNearLineSimple(canvasPoint, converter.chartToCanvas(a), converter.chartToCanvas(b), tolerance)
+      );
+    
+    case 'fib-retracement':
+    case 'fib-extension': {
+      const [from, to] = getFibonacciTimeRange(drawing);
+      return getFibonacciLevels(drawing).some(({ price }) =>
+        isPointNearLineSimple(
+          canvasPoint,
+          converter.chartToCanvas({ x: from, y: price }),
+          converter.chartToCanvas({ x: to, y: price }),
+          tolerance
+        )
+      );
+    }
+    
     case 'horizontal-line':
       if (drawing.points.length < 1) return false;
       const hPoint = converter.chartToCanvas(drawing.points[0]);
@@ -51,7 +84,20 @@ function isDrawingHitForCursor(
              canvasPoint.y >= chartAreaV.top && 
              canvasPoint.y <= chartAreaV.bottom;
     
+    case 'ellipse': {
+      if (drawing.points.length < 2) return false;
+      const corner = converter.chartToCanvas(drawing.points[0]);
+      const opposite = converter.chartToCanvas(drawing.points[1]);
+      return converter.isPointInEllipse(
+        canvasPoint,
+        { x: (corner.x + opposite.x) / 2, y: (corner.y + opposite.y) / 2 },
+        Math.abs(opposite.x - corner.x) / 2 + tolerance,
+        Math.abs(opposite.y - corner.y) / 2 + tolerance
+      );
+    }
+    
     case 'rectangle':
+    case 'measure':
       if (drawing.points.length < 2) return false;
       const rectStart = converter.chartToCanvas(drawing.points[0]);
       const rectEnd = converter.chartToCanvas(drawing.points[1]);
@@ -0,0 +1,61 @@
+import type { PriceAlert, PriceAlertInput, TrendlineLevel } from '../../../types';
+import type { AlertableDrawing, DrawingAlert } from './types';
+
+/**
+ * Price on a trendline at `time`, extending the line past its end points.
+ */
+export function getTrendlineValueAt(level: TrendlineLevel, time: number): number {
+  const { start, end } = level;
+  if (end.time === start.time) return end.price;
+
+  const slope = (end.price - start.price) / (end.time - start.time);
+  return start.price + slope * (time - start.time);
+}
+
+/**
+ * Alert level for a drawing: a fixed price for horizontal lines, a sloped level for trendlines.
+ * `price` is the level right now, which is what the alerts list shows.
+ */
+export function getDrawingAlertLevel(drawing: AlertableDrawing): Pick<PriceAlertInput, 'price' | 'trendline'> {
+  if (drawing.type === 'horizontal-line') {
+    return { price: drawing.points[0].y, trendline: undefined };
+  }
+
+  const [first, second] = [...drawing.points].sort((a, b) => a.x - b.x);
+  const trendline: TrendlineLevel = {
+    start: { time: first.x, price: first.y },
+    end: { time: second.x, price: second.y },
+  };
+  return { price: getTrendlineValueAt(trendline, Date.now()), trendline };
+}
+
+export function createDrawingAlertInput(symbol: string, drawing: AlertableDrawing): PriceAlertInput {
+  return {
+    symbol: symbol.toUpperCase(),
+    condition: 'crosses',
+    ...getDrawingAlertLevel(drawing),
+    drawingId: drawing.id,
+    repeat: false,
+    isActive: true,
+    note: drawing.type === 'trendline' ? 'Trendline on chart' : 'Horizontal line on chart',
+  };
+}
+
+/**
+ * Copy the alert's status onto the drawing's alert link.
+ * Returns the same object when nothing changed so callers can skip re-rendering.
+ */
+export function syncDrawingAlert(link: DrawingAlert, alert: PriceAlert): DrawingAlert {
+  const lastTrigger = alert.triggerHistory?.[alert.triggerHistory.length - 1];
+  const next: DrawingAlert = {
+    alertId: link.alertId,
+    isActive: alert.isActive,
+    triggeredAt: alert.triggeredAt,
+    triggeredPrice: lastTrigger?.price ?? link.triggeredPrice,
+  };
+
+  const unchanged = next.isActive === link.isActive &&
+    next.triggeredAt === link.triggeredAt &&
+    next.triggeredPrice === link.triggeredPrice;
+  return unchanged ? link : next;
+}
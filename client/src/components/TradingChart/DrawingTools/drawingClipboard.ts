@@ -0,0 +1,27 @@
+import type { Drawing } from './types';
+import { createDrawingId } from './types';
+
+// Drawings copied from any chart, pasted onto any symbol. Kept in memory only.
+let copiedDrawings: Drawing[] = [];
+
+export function copyDrawings(drawings: Drawing[]): void {
+  copiedDrawings = drawings.map(drawing => ({
+    ...drawing,
+    points: drawing.points.map(point => ({ ...point })),
+    selected: false,
+    alert: undefined // alerts belong to the symbol they were created on
+  }) as Drawing);
+}
+
+export function hasCopiedDrawings(): boolean {
+  return copiedDrawings.length > 0;
+}
+
+// Fresh copies of the copied drawings, with ids of their own
+export function pasteDrawings(): Drawing[] {
+  return copiedDrawings.map(drawing => ({
+    ...drawing,
+    id: createDrawingId(),
+    points: drawing.points.map(point => ({ ...point }))
+  }) as Drawing);
+}
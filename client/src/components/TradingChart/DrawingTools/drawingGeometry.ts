@@ -0,0 +1,149 @@
+import type {
+  CanvasPoint,
+  ChartPoint,
+  FibonacciDrawing,
+  MeasureDrawing,
+  ParallelChannelDrawing
+} from './types';
+import { DEFAULT_FIB_EXTENSION_LEVELS, DEFAULT_FIB_RETRACEMENT_LEVELS } from './types';
+
+/**
+ * Geometry shared by drawing rendering and hit testing
+ */
+
+export interface FibonacciLevel {
+  level: number;
+  price: number;
+}
+
+export interface Measurement {
+  priceChange: number;
+  percentChange: number;
+  bars: number; // negative when measured backwards in time
+  duration: number; // ms, signed like `bars`
+}
+
+interface ChartArea {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Price on the line through `start` and `end` at time `x`
+export function getLineValueAt(start: ChartPoint, end: ChartPoint, x: number): number {
+  if (end.x === start.x) return start.y;
+  return start.y + (end.y - start.y) * (x - start.x) / (end.x - start.x);
+}
+
+export function getFibonacciLevels(drawing: FibonacciDrawing): FibonacciLevel[] {
+  if (drawing.type === 'fib-retracement') {
+    const [start, end] = drawing.points;
+    return (drawing.levels ?? DEFAULT_FIB_RETRACEMENT_LEVELS).map(level => ({
+      level,
+      price: end.y + (start.y - end.y) * level
+    }));
+  }
+
+  const [start, end, origin] = drawing.points;
+  return (drawing.levels ?? DEFAULT_FIB_EXTENSION_LEVELS).map(level => ({
+    level,
+    price: origin.y + (end.y - start.y) * level
+  }));
+}
+
+/**
+ * Time range the level lines cover: the measured move for retracements, and for
+ * extensions a move of the same length starting at the projection point.
+ */
+export function getFibonacciTimeRange(drawing: FibonacciDrawing): [number, number] {
+  const [start, end] = drawing.points;
+  if (drawing.type === 'fib-retracement') {
+    return [Math.min(start.x, end.x), Math.max(start.x, end.x)];
+  }
+
+  const origin = drawing.points[2];
+  return [origin.x, origin.x + Math.abs(end.x - start.x)];
+}
+
+// The base line and its parallel through the third point, in chart coordinates
+export function getChannelLines(drawing: ParallelChannelDrawing): [[ChartPoint, ChartPoint], [ChartPoint, ChartPoint]] {
+  const [start, end, offsetPoint] = drawing.points;
+  const offset = offsetPoint.y - getLineValueAt(start, end, offsetPoint.x);
+
+  return [
+    [start, end],
+    [{ x: start.x, y: start.y + offset }, { x: end.x, y: end.y + offset }]
+  ];
+}
+
+/**
+ * Clip the infinite line through `start` and `end` to the chart area. Rays keep `start`
+ * and only extend past `end`; extended lines run from edge to edge.
+ */
+export function extendLine(
+  start: CanvasPoint,
+  end: CanvasPoint,
+  area: ChartArea,
+  mode: 'ray' | 'both'
+): [CanvasPoint, CanvasPoint] {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  if (dx === 0 && dy === 0) return [start, end];
+
+  // Liang-Barsky: the range of t where start + t * (dx, dy) lies inside the area
+  let tMin = -Infinity;
+  let tMax = Infinity;
+  const edges: Array<[number, number]> = [
+    [-dx, start.x - area.left],
+    [dx, area.right - start.x],
+    [-dy, start.y - area.top],
+    [dy, area.bottom - start.y]
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return [start, end];
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) tMin = Math.max(tMin, t);
+    else tMax = Math.min(tMax, t);
+  }
+  if (tMin > tMax) return [start, end];
+
+  const at = (t: number): CanvasPoint => ({ x: start.x + t * dx, y: start.y + t * dy });
+  return mode === 'ray'
+    ? [start, at(Math.max(tMax, 1))]
+    : [at(tMin), at(tMax)];
+}
+
+/**
+ * Change from the first point to the second. `barTimes` are the chart's bar timestamps,
+ * used to count the bars in between.
+ */
+export function getMeasurement(drawing: MeasureDrawing, barTimes: number[]): Measurement {
+  const [start, end] = drawing.points;
+  const from = Math.min(start.x, end.x);
+  const to = Math.max(start.x, end.x);
+  const bars = barTimes.filter(time => time > from && time <= to).length;
+  const direction = end.x < start.x ? -1 : 1;
+
+  return {
+    priceChange: end.y - start.y,
+    percentChange: start.y !== 0 ? (end.y - start.y) / Math.abs(start.y) * 100 : 0,
+    bars: bars * direction,
+    duration: end.x - start.x
+  };
+}
+
+// 90061000 -> '1d 1h', 5400000 -> '1h 30m'
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
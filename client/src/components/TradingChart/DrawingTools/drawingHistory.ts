@@ -0,0 +1,77 @@
+import type { Drawing } from './types';
+
+/**
+ * Undo/redo for chart drawings. Each command holds the drawings it touched as they were
+ * before and after: creating has nothing before, deleting has nothing after. Selection and
+ * alert links aren't part of the history; alerts live on the server and follow the drawing.
+ */
+
+export interface DrawingCommand {
+  label: string; // e.g. 'move', shown in the undo/redo tooltips
+  before: Drawing[];
+  after: Drawing[];
+}
+
+export interface DrawingHistory {
+  undo: DrawingCommand[];
+  redo: DrawingCommand[];
+}
+
+export const EMPTY_DRAWING_HISTORY: DrawingHistory = { undo: [], redo: [] };
+
+// Oldest commands are dropped past this
+const MAX_HISTORY = 100;
+
+// A drawing as the history keeps it
+const toSnapshot = (drawing: Drawing): Drawing => ({ ...drawing, selected: undefined, alert: undefined });
+
+/**
+ * Command for a change from `before` to `after`, or null when nothing the history
+ * tracks has changed (e.g. a drag that ended where it started)
+ */
+export function createDrawingCommand(label: string, before: Drawing[], after: Drawing[]): DrawingCommand | null {
+  const command = { label, before: before.map(toSnapshot), after: after.map(toSnapshot) };
+  return JSON.stringify(command.before) === JSON.stringify(command.after) ? null : command;
+}
+
+export function recordDrawingCommand(history: DrawingHistory, command: DrawingCommand | null): DrawingHistory {
+  if (!command) return history;
+  return { undo: [...history.undo, command].slice(-MAX_HISTORY), redo: [] };
+}
+
+// History after undoing its latest command; apply that command with 'undo' alongside
+export function undoDrawingHistory(history: DrawingHistory): DrawingHistory {
+  const command = history.undo[history.undo.length - 1];
+  if (!command) return history;
+  return { undo: history.undo.slice(0, -1), redo: [...history.redo, command] };
+}
+
+export function redoDrawingHistory(history: DrawingHistory): DrawingHistory {
+  const command = history.redo[history.redo.length - 1];
+  if (!command) return history;
+  return { undo: [...history.undo, command], redo: history.redo.slice(0, -1) };
+}
+
+/**
+ * Drawings with a command undone or redone. The drawings it restores come back selected
+ * (unless hidden), keeping their current alert link; drawings it removes are dropped.
+ */
+export function applyDrawingCommand(drawings: Drawing[], command: DrawingCommand, direction: 'undo' | 'redo'): Drawing[] {
+  const [from, to] = direction === 'undo' ? [command.after, command.before] : [command.before, command.after];
+  const restored = new Map(to.map(drawing => [drawing.id, drawing]));
+  const removed = new Set(from.map(drawing => drawing.id).filter(id => !restored.has(id)));
+
+  const result = drawings
+    .filter(drawing => !removed.has(drawing.id))
+    .map(drawing => {
+      const snapshot = restored.get(drawing.id);
+      if (!snapshot) return drawing.selected ? { ...drawing, selected: false } : drawing;
+
+      restored.delete(drawing.id);
+      return { ...snapshot, selected: !snapshot.hidden, alert: drawing.alert } as Drawing;
+    });
+
+  // Drawings the command deleted come back on top
+  restored.forEach(snapshot => result.push({ ...snapshot, selected: !snapshot.hidden } as Drawing));
+  return result;
+}
@@ -1,10 +1,38 @@
 import type { Chart as ChartJS, Plugin } from 'chart.js';
-import type { Drawing, DrawingStyle, TrendlineDrawing, HorizontalLineDrawing, VerticalLineDrawing, RectangleDrawing, TextDrawing } from './types';
+import type {
+  CanvasPoint,
+  Drawing,
+  DrawingStyle,
+  TrendlineDrawing,
+  RayDrawing,
+  ExtendedLineDrawing,
+  ArrowDrawing,
+  HorizontalLineDrawing,
+  VerticalLineDrawing,
+  ParallelChannelDrawing,
+  FibonacciDrawing,
+  RectangleDrawing,
+  EllipseDrawing,
+  MeasureDrawing,
+  TextDrawing
+} from './types';
 import { CoordinateConverter } from './coordinateUtils';
 import { DEFAULT_DRAWING_STYLES } from './types';
+import {
+  extendLine,
+  formatDuration,
+  getChannelLines,
+  getFibonacciLevels,
+  getFibonacciTimeRange,
+  getMeasurement
+} from './drawingGeometry';
+
+// Fibonacci level colors, cycled by level
+const FIB_LEVEL_COLORS = ['#787B86', '#F44336', '#FF9800', '#4CAF50', '#2196F3', '#9C27B0', '#787B86', '#00BCD4'];
 
 export interface DrawingPluginOptions {
   drawings: Drawing[];
+  selectionBox?: { start: CanvasPoint; end: CanvasPoint } | null; // rubber band being dragged
   onDrawingClick?: (drawing: Drawing) => void;
 }
 
@@ -12,7 +40,7 @@ export const drawingPlugin: Plugin<'line' | 'bar', DrawingPluginOptions> = {
   id: 'drawingTools',
   
   afterDraw(chart: ChartJS, _args: any, options: DrawingPluginOptions) {
-    if (!options.drawings || options.drawings.length === 0) return;
+    if ((!options.drawings || options.drawings.length === 0) && !options.selectionBox) return;
 
     const ctx = chart.ctx;
     const converter = new CoordinateConverter(chart);
@@ -24,9 +52,15 @@ export const drawingPlugin: Plugin<'line' | 'bar', DrawingPluginOptions> = {
     ctx.lineJoin = 'round';
     
     // Draw each drawing
-    options.drawings.forEach(drawing => {
+    (options.drawings ?? []).forEach(drawing => {
+      if (drawing.hidden) return;
+
       try {
         drawDrawing(ctx, converter, drawing);
+
+        if (drawing.alert) {
+          drawAlertBadge(ctx, converter, drawing);
+        }
         
         // Draw selection handles for selected drawings
         if (drawing.selected) {
@@ -36,6 +70,10 @@ export const drawingPlugin: Plugin<'line' | 'bar', DrawingPluginOptions> = {
         console.warn('Failed to draw drawing:', drawing.id, error);
       }
     });
+
+    if (options.selectionBox) {
+      drawSelectionBox(ctx, options.selectionBox.start, options.selectionBox.end);
+    }
     
     ctx.restore();
   }
@@ -44,9 +82,9 @@ export const drawingPlugin: Plugin<'line' | 'bar', DrawingPluginOptions> = {
 function drawSelectionHandles(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: Drawing) {
   ctx.save();
   
-  // Handle style
+  // Handle style; locked drawings get grey handles since they can't be dragged
   const handleSize = 6;
-  const handleColor = '#ff6b35';
+  const handleColor = drawing.locked ? '#787B86' : '#ff6b35';
   const handleBorderColor = '#fff';
   
   ctx.fillStyle = handleColor;
@@ -84,6 +122,73 @@ function drawSelectionHandles(ctx: CanvasRenderingContext2D, converter: Coordina
   ctx.restore();
 }
 
+function drawSelectionBox(ctx: CanvasRenderingContext2D, start: CanvasPoint, end: CanvasPoint) {
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 107, 53, 0.08)';
+  ctx.strokeStyle = '#ff6b35';
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 3]);
+  ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+  ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+  ctx.restore();
+}
+
+// Badge for drawings that back a price alert, plus a marker where a triggered alert fired
+function drawAlertBadge(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: Drawing) {
+  const alert = drawing.alert;
+  if (!alert) return;
+
+  const chartArea = converter.chart.chartArea;
+  const isTriggered = !alert.isActive && !!alert.triggeredAt;
+  const text = isTriggered ? 'TRIGGERED' : alert.isActive ? 'ALERT' : 'ALERT OFF';
+  const color = isTriggered ? '#ff9800' : alert.isActive ? '#2196F3' : '#757575';
+
+  // Horizontal lines carry their price label on the right, so the badge goes on the left
+  const anchor = drawing.type === 'horizontal-line'
+    ? { x: chartArea.left + 4, y: converter.chartToCanvas(drawing.points[0]).y }
+    : converter.chartToCanvas(drawing.points.reduce((latest, p) => p.x > latest.x ? p : latest));
+
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.shadowBlur = 0;
+  ctx.setLineDash([]);
+  ctx.font = 'bold 10px Arial';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+
+  const textWidth = ctx.measureText(text).width;
+  const x = Math.min(anchor.x + 6, chartArea.right - textWidth - 10);
+  const y = anchor.y - 12;
+
+  ctx.fillStyle = color;
+  ctx.fillRect(x, y - 7, textWidth + 8, 14);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(text, x + 4, y);
+
+  if (isTriggered && alert.triggeredAt && alert.triggeredPrice !== undefined) {
+    const marker = converter.chartToCanvas({
+      x: new Date(alert.triggeredAt).getTime(),
+      y: alert.triggeredPrice,
+    });
+
+    if (marker.x >= chartArea.left && marker.x <= chartArea.right) {
+      ctx.fillStyle = color;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(marker.x, marker.y - 6);
+      ctx.lineTo(marker.x + 6, marker.y);
+      ctx.lineTo(marker.x, marker.y + 6);
+      ctx.lineTo(marker.x - 6, marker.y);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+}
+
 function drawDrawing(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: Drawing) {
   const style = { ...DEFAULT_DRAWING_STYLES[drawing.type], ...drawing.style };
   
@@ -112,15 +217,35 @@ function drawDrawing(ctx: CanvasRenderingContext2D, converter: CoordinateConvert
     case 'trendline':
       drawTrendline(ctx, converter, drawing as TrendlineDrawing);
       break;
+    case 'ray':
+    case 'extended-line':
+      drawExtendedLine(ctx, converter, drawing as RayDrawing | ExtendedLineDrawing);
+      break;
+    case 'arrow':
+      drawArrow(ctx, converter, drawing as ArrowDrawing);
+      break;
     case 'horizontal-line':
       drawHorizontalLine(ctx, converter, drawing as HorizontalLineDrawing);
       break;
     case 'vertical-line':
       drawVerticalLine(ctx, converter, drawing as VerticalLineDrawing);
       break;
+    case 'parallel-channel':
+      drawParallelChannel(ctx, converter, drawing as ParallelChannelDrawing);
+      break;
+    case 'fib-retracement':
+    case 'fib-extension':
+      drawFibonacci(ctx, converter, drawing as FibonacciDrawing);
+      break;
     case 'rectangle':
       drawRectangle(ctx, converter, drawing as RectangleDrawing);
       break;
+    case 'ellipse':
+      drawEllipse(ctx, converter, drawing as EllipseDrawing);
+      break;
+    case 'measure':
+      drawMeasure(ctx, converter, drawing as MeasureDrawing);
+      break;
     case 'text':
       drawText(ctx, converter, drawing as TextDrawing, style);
       break;
@@ -146,6 +271,53 @@ function drawTrendline(ctx: CanvasRenderingContext2D, converter: CoordinateConve
   drawControlPoint(ctx, end, drawing.selected);
 }
 
+function drawExtendedLine(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: RayDrawing | ExtendedLineDrawing) {
+  if (drawing.points.length < 2) return;
+  
+  const start = converter.chartToCanvas(drawing.points[0]);
+  const end = converter.chartToCanvas(drawing.points[1]);
+  const [lineStart, lineEnd] = extendLine(start, end, converter.chart.chartArea, drawing.type === 'ray' ? 'ray' : 'both');
+  
+  ctx.beginPath();
+  ctx.moveTo(lineStart.x, lineStart.y);
+  ctx.lineTo(lineEnd.x, lineEnd.y);
+  ctx.stroke();
+  
+  drawControlPoint(ctx, start, drawing.selected);
+  drawControlPoint(ctx, end, drawing.selected);
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: ArrowDrawing) {
+  if (drawing.points.length < 2) return;
+  
+  const start = converter.chartToCanvas(drawing.points[0]);
+  const end = converter.chartToCanvas(drawing.points[1]);
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const headLength = 10 + ctx.lineWidth * 2;
+  
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x - Math.cos(angle) * headLength * 0.8, end.y - Math.sin(angle) * headLength * 0.8);
+  ctx.stroke();
+  
+  // Solid head, so the dash pattern doesn't break it up
+  ctx.save();
+  ctx.setLineDash([]);
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.beginPath();
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(end.x - headLength * Math.cos(angle - Math.PI / 7), end.y - headLength * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(end.x - headLength * Math.cos(angle + Math.PI / 7), end.y - headLength * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+  
+  if (drawing.selected) {
+    drawControlPoint(ctx, start, true);
+    drawControlPoint(ctx, end, true);
+  }
+}
+
 function drawHorizontalLine(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: HorizontalLineDrawing) {
   if (drawing.points.length < 1) return;
   
@@ -176,6 +348,82 @@ function drawVerticalLine(ctx: CanvasRenderingContext2D, converter: CoordinateCo
   drawTimeLabel(ctx, { x: point.x, y: chartArea.bottom + 5 }, drawing.points[0].x);
 }
 
+function drawParallelChannel(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: ParallelChannelDrawing) {
+  if (drawing.points.length < 3) return;
+  
+  const [base, parallel] = getChannelLines(drawing).map(line => line.map(point => converter.chartToCanvas(point)));
+  
+  // Shaded band between the lines
+  ctx.save();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.globalAlpha = 0.1;
+  ctx.beginPath();
+  ctx.moveTo(base[0].x, base[0].y);
+  ctx.lineTo(base[1].x, base[1].y);
+  ctx.lineTo(parallel[1].x, parallel[1].y);
+  ctx.lineTo(parallel[0].x, parallel[0].y);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+  
+  [base, parallel].forEach(([start, end]) => {
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+  });
+  
+  // Dashed midline
+  ctx.save();
+  ctx.setLineDash([4, 4]);
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo((base[0].x + parallel[0].x) / 2, (base[0].y + parallel[0].y) / 2);
+  ctx.lineTo((base[1].x + parallel[1].x) / 2, (base[1].y + parallel[1].y) / 2);
+  ctx.stroke();
+  ctx.restore();
+  
+  drawing.points.forEach(point => drawControlPoint(ctx, converter.chartToCanvas(point), drawing.selected));
+}
+
+function drawFibonacci(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: FibonacciDrawing) {
+  const [from, to] = getFibonacciTimeRange(drawing);
+  const left = converter.chartToCanvas({ x: from, y: 0 }).x;
+  const right = converter.chartToCanvas({ x: to, y: 0 }).x;
+  const useLevelColors = !drawing.selected && !drawing.style?.color;
+  
+  // Dashed line through the anchor points
+  const anchors = drawing.points.map(point => converter.chartToCanvas(point));
+  ctx.save();
+  ctx.setLineDash([4, 4]);
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  anchors.forEach((anchor, i) => i === 0 ? ctx.moveTo(anchor.x, anchor.y) : ctx.lineTo(anchor.x, anchor.y));
+  ctx.stroke();
+  ctx.restore();
+  
+  ctx.save();
+  ctx.font = '10px Arial';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  getFibonacciLevels(drawing).forEach(({ level, price }, i) => {
+    const y = converter.chartToCanvas({ x: from, y: price }).y;
+    const color = useLevelColors ? FIB_LEVEL_COLORS[i % FIB_LEVEL_COLORS.length] : ctx.strokeStyle;
+    
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(left, y);
+    ctx.lineTo(right, y);
+    ctx.stroke();
+    
+    ctx.fillStyle = color;
+    ctx.fillText(`${level} (${price.toFixed(2)})`, Math.min(left, right) - 4, y);
+  });
+  ctx.restore();
+  
+  anchors.forEach(anchor => drawControlPoint(ctx, anchor, drawing.selected));
+}
+
 function drawRectangle(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: RectangleDrawing) {
   if (drawing.points.length < 2) return;
   
@@ -217,6 +465,88 @@ function drawRectangle(ctx: CanvasRenderingContext2D, converter: CoordinateConve
   }
 }
 
+function drawEllipse(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: EllipseDrawing) {
+  if (drawing.points.length < 2) return;
+  
+  const start = converter.chartToCanvas(drawing.points[0]);
+  const end = converter.chartToCanvas(drawing.points[1]);
+  
+  ctx.beginPath();
+  ctx.ellipse(
+    (start.x + end.x) / 2,
+    (start.y + end.y) / 2,
+    Math.abs(end.x - start.x) / 2,
+    Math.abs(end.y - start.y) / 2,
+    0,
+    0,
+    2 * Math.PI
+  );
+  ctx.stroke();
+  
+  // Same light fill as rectangles
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.globalAlpha = 0.1;
+  ctx.fill();
+  ctx.globalAlpha = drawing.style?.opacity || 1;
+  
+  drawControlPoint(ctx, start, drawing.selected);
+  drawControlPoint(ctx, end, drawing.selected);
+}
+
+// Shaded box from the first point to the second, labelled with the change, % change and bar count
+function drawMeasure(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: MeasureDrawing) {
+  if (drawing.points.length < 2) return;
+  
+  const start = converter.chartToCanvas(drawing.points[0]);
+  const end = converter.chartToCanvas(drawing.points[1]);
+  const measurement = getMeasurement(drawing, converter.getBarTimes());
+  const color = drawing.selected ? '#ff6b35' : measurement.priceChange >= 0 ? '#4CAF50' : '#F44336';
+  
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.15;
+  ctx.fillRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+  
+  // Arrows along the price and time axes of the box
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([]);
+  const midX = (start.x + end.x) / 2;
+  const midY = (start.y + end.y) / 2;
+  ctx.beginPath();
+  ctx.moveTo(midX, start.y);
+  ctx.lineTo(midX, end.y);
+  ctx.moveTo(start.x, midY);
+  ctx.lineTo(end.x, midY);
+  ctx.stroke();
+  
+  const sign = (value: number) => value >= 0 ? '+' : '';
+  const lines = [
+    `${sign(measurement.priceChange)}${measurement.priceChange.toFixed(2)} (${sign(measurement.percentChange)}${measurement.percentChange.toFixed(2)}%)`,
+    `${measurement.bars} bar${Math.abs(measurement.bars) === 1 ? '' : 's'}, ${formatDuration(measurement.duration)}`
+  ];
+  
+  ctx.font = '11px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width)) + 12;
+  const height = lines.length * 14 + 6;
+  // Below the box when measuring down, above it when measuring up
+  const labelY = end.y >= start.y ? Math.max(start.y, end.y) + 6 : Math.min(start.y, end.y) - height - 6;
+  
+  ctx.fillStyle = color;
+  ctx.fillRect(midX - width / 2, labelY, width, height);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, midX, labelY + 4 + i * 14));
+  ctx.restore();
+  
+  if (drawing.selected) {
+    drawControlPoint(ctx, start, true);
+    drawControlPoint(ctx, end, true);
+  }
+}
+
 function drawText(ctx: CanvasRenderingContext2D, converter: CoordinateConverter, drawing: TextDrawing, style: Partial<DrawingStyle>) {
   if (drawing.points.length < 1) return;
   
@@ -1,5 +1,21 @@
-import type { Drawing, CanvasPoint, TrendlineDrawing, HorizontalLineDrawing, VerticalLineDrawing, RectangleDrawing, TextDrawing } from './types';
+import type {
+  Drawing,
+  CanvasPoint,
+  TrendlineDrawing,
+  RayDrawing,
+  ExtendedLineDrawing,
+  ArrowDrawing,
+  HorizontalLineDrawing,
+  VerticalLineDrawing,
+  ParallelChannelDrawing,
+  FibonacciDrawing,
+  RectangleDrawing,
+  EllipseDrawing,
+  MeasureDrawing,
+  TextDrawing
+} from './types';
 import { CoordinateConverter } from './coordinateUtils';
+import { extendLine, getChannelLines, getFibonacciLevels, getFibonacciTimeRange } from './drawingGeometry';
 
 /**
  * Hit testing utilities for finding which drawing was clicked
@@ -18,7 +34,7 @@ export function findDrawingAtPoint(
     const drawing = drawings[i];
     console.log(`🔍 Testing drawing ${i}:`, drawing.type, drawing.id);
     
-    if (isDrawingHit(drawing, canvasPoint, converter, tolerance)) {
+    if (!drawing.hidden && isDrawingHit(drawing, canvasPoint, converter, tolerance)) {
       console.log('✅ HIT on drawing:', drawing.id);
       return drawing;
     }
@@ -28,6 +44,46 @@ export function findDrawingAtPoint(
   return null;
 }
 
+/**
+ * Index of the point whose handle is under the cursor, for dragging one point of a selected drawing
+ */
+export function findDrawingHandle(
+  drawing: Drawing,
+  canvasPoint: CanvasPoint,
+  converter: CoordinateConverter,
+  tolerance: number = 8
+): number | null {
+  if (drawing.locked || drawing.hidden) return null;
+
+  for (let i = drawing.points.length - 1; i >= 0; i--) {
+    const handle = converter.chartToCanvas(drawing.points[i]);
+    if (converter.calculateDistance(canvasPoint, handle) <= tolerance) {
+      return i;
+    }
+  }
+  return null;
+}
+
+/**
+ * Drawings with a point inside the box between two canvas points, for rubber-band selection
+ */
+export function findDrawingsInBox(
+  drawings: Drawing[],
+  corner: CanvasPoint,
+  oppositeCorner: CanvasPoint,
+  converter: CoordinateConverter
+): Drawing[] {
+  const left = Math.min(corner.x, oppositeCorner.x);
+  const right = Math.max(corner.x, oppositeCorner.x);
+  const top = Math.min(corner.y, oppositeCorner.y);
+  const bottom = Math.max(corner.y, oppositeCorner.y);
+
+  return drawings.filter(drawing => !drawing.hidden && drawing.points.some(point => {
+    const { x, y } = converter.chartToCanvas(point);
+    return x >= left && x <= right && y >= top && y <= bottom;
+  }));
+}
+
 function isDrawingHit(
   drawing: Drawing, 
   canvasPoint: CanvasPoint, 
@@ -36,7 +92,12 @@ function isDrawingHit(
 ): boolean {
   switch (drawing.type) {
     case 'trendline':
-      return isTrendlineHit(drawing as TrendlineDrawing, canvasPoint, converter, tolerance);
+    case 'arrow':
+      return isTrendlineHit(drawing as TrendlineDrawing | ArrowDrawing, canvasPoint, converter, tolerance);
+    
+    case 'ray':
+    case 'extended-line':
+      return isExtendedLineHit(drawing as RayDrawing | ExtendedLineDrawing, canvasPoint, converter, tolerance);
     
     case 'horizontal-line':
       return isHorizontalLineHit(drawing as HorizontalLineDrawing, canvasPoint, converter, tolerance);
@@ -44,8 +105,19 @@ function isDrawingHit(
     case 'vertical-line':
       return isVerticalLineHit(drawing as VerticalLineDrawing, canvasPoint, converter, tolerance);
     
+    case 'parallel-channel':
+      return isChannelHit(drawing as ParallelChannelDrawing, canvasPoint, converter, tolerance);
+    
+    case 'fib-retracement':
+    case 'fib-extension':
+      return isFibonacciHit(drawing as FibonacciDrawing, canvasPoint, converter, tolerance);
+    
     case 'rectangle':
-      return isRectangleHit(drawing as RectangleDrawing, canvasPoint, converter, tolerance);
+    case 'measure':
+      return isRectangleHit(drawing as RectangleDrawing | MeasureDrawing, canvasPoint, converter, tolerance);
+    
+    case 'ellipse':
+      return isEllipseHit(drawing as EllipseDrawing, canvasPoint, converter, tolerance);
     
     case 'text':
       return isTextHit(drawing as TextDrawing, canvasPoint, converter, tolerance);
@@ -56,7 +128,7 @@ function isDrawingHit(
 }
 
 function isTrendlineHit(
-  drawing: TrendlineDrawing, 
+  drawing: TrendlineDrawing | ArrowDrawing, 
   canvasPoint: CanvasPoint, 
   converter: CoordinateConverter, 
   tolerance: number
@@ -69,6 +141,24 @@ function isTrendlineHit(
   return converter.isPointNearLine(canvasPoint, start, end, tolerance);
 }
 
+function isExtendedLineHit(
+  drawing: RayDrawing | ExtendedLineDrawing, 
+  canvasPoint: CanvasPoint, 
+  converter: CoordinateConverter, 
+  tolerance: number
+): boolean {
+  if (drawing.points.length < 2) return false;
+  
+  const [start, end] = extendLine(
+    converter.chartToCanvas(drawing.points[0]),
+    converter.chartToCanvas(drawing.points[1]),
+    converter.chart.chartArea,
+    drawing.type === 'ray' ? 'ray' : 'both'
+  );
+  
+  return converter.isPointNearLine(canvasPoint, start, end, tolerance);
+}
+
 function isHorizontalLineHit(
   drawing: HorizontalLineDrawing, 
   canvasPoint: CanvasPoint, 
@@ -93,8 +183,56 @@ function isVerticalLineHit(
   return converter.isPointNearVerticalLine(canvasPoint, point.x, tolerance);
 }
 
+function isChannelHit(
+  drawing: ParallelChannelDrawing, 
+  canvasPoint: CanvasPoint, 
+  converter: CoordinateConverter, 
+  tolerance: number
+): boolean {
+  if (drawing.points.length < 3) return false;
+  
+  const [base, parallel] = getChannelLines(drawing).map(line => line.map(point => converter.chartToCanvas(point)));
+  if (converter.isPointNearLine(canvasPoint, base[0], base[1], tolerance) ||
+      converter.isPointNearLine(canvasPoint, parallel[0], parallel[1], tolerance)) {
+    return true;
+  }
+  
+  // Inside the band between the two lines
+  const left = Math.min(base[0].x, base[1].x);
+  const right = Math.max(base[0].x, base[1].x);
+  if (canvasPoint.x < left || canvasPoint.x > right || base[0].x === base[1].x) return false;
+  
+  const t = (canvasPoint.x - base[0].x) / (base[1].x - base[0].x);
+  const baseY = base[0].y + t * (base[1].y - base[0].y);
+  const parallelY = parallel[0].y + t * (parallel[1].y - parallel[0].y);
+  return canvasPoint.y >= Math.min(baseY, parallelY) && canvasPoint.y <= Math.max(baseY, parallelY);
+}
+
+function isFibonacciHit(
+  drawing: FibonacciDrawing, 
+  canvasPoint: CanvasPoint, 
+  converter: CoordinateConverter, 
+  tolerance: number
+): boolean {
+  const [from, to] = getFibonacciTimeRange(drawing);
+  
+  // Any level line, or the dashed line joining the anchor points
+  const onLevel = getFibonacciLevels(drawing).some(({ price }) =>
+    converter.isPointNearLine(
+      canvasPoint,
+      converter.chartToCanvas({ x: from, y: price }),
+      converter.chartToCanvas({ x: to, y: price }),
+      tolerance
+    )
+  );
+  
+  return onLevel || drawing.points.slice(1).some((point, i) =>
+    converter.isPointNearLine(canvasPoint, converter.chartToCanvas(drawing.points[i]), converter.chartToCanvas(point), tolerance)
+  );
+}
+
 function isRectangleHit(
-  drawing: RectangleDrawing, 
+  drawing: RectangleDrawing | MeasureDrawing, 
   canvasPoint: CanvasPoint, 
   converter: CoordinateConverter, 
   tolerance: number
@@ -126,6 +264,27 @@ function isRectangleHit(
          converter.isPointNearLine(canvasPoint, bottomLeft, topLeft, tolerance);
 }
 
+function isEllipseHit(
+  drawing: EllipseDrawing, 
+  canvasPoint: CanvasPoint, 
+  converter: CoordinateConverter, 
+  tolerance: number
+): boolean {
+  if (drawing.points.length < 2) return false;
+  
+  const start = converter.chartToCanvas(drawing.points[0]);
+  const end = converter.chartToCanvas(drawing.points[1]);
+  const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  
+  // Inside the ellipse or near its outline
+  return converter.isPointInEllipse(
+    canvasPoint,
+    center,
+    Math.abs(end.x - start.x) / 2 + tolerance,
+    Math.abs(end.y - start.y) / 2 + tolerance
+  );
+}
+
 function isTextHit(
   drawing: TextDrawing, 
   canvasPoint: CanvasPoint, 
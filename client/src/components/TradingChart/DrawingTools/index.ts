@@ -1,7 +1,32 @@
 // Re-export all drawing tools types and components
 export * from './types';
 export { default as DrawingToolbar } from './DrawingToolbar';
+export { default as FibonacciLevelsEditor } from './FibonacciLevelsEditor';
 export { drawingPlugin } from './drawingPlugin';
 export { CoordinateConverter } from './coordinateUtils';
-export { findDrawingAtPoint } from './hitTesting';
-export { findDrawingForCursor } from './cursorHitTesting';
\ No newline at end of file
+export { findDrawingAtPoint, findDrawingHandle, findDrawingsInBox } from './hitTesting';
+export { findDrawingForCursor } from './cursorHitTesting';
+export {
+  extendLine,
+  formatDuration,
+  getChannelLines,
+  getFibonacciLevels,
+  getFibonacciTimeRange,
+  getMeasurement
+} from './drawingGeometry';
+export {
+  EMPTY_DRAWING_HISTORY,
+  applyDrawingCommand,
+  createDrawingCommand,
+  recordDrawingCommand,
+  redoDrawingHistory,
+  undoDrawingHistory
+} from './drawingHistory';
+export type { DrawingCommand, DrawingHistory } from './drawingHistory';
+export { copyDrawings, hasCopiedDrawings, pasteDrawings } from './drawingClipboard';
+export {
+  createDrawingAlertInput,
+  getDrawingAlertLevel,
+  getTrendlineValueAt,
+  syncDrawingAlert
+} from './drawingAlerts';
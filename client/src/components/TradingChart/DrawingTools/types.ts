@@ -1,5 +1,40 @@
 // Drawing tool types
-export type DrawingTool = 'none' | 'trendline' | 'horizontal-line' | 'vertical-line' | 'rectangle' | 'text';
+export type DrawingTool =
+  | 'none'
+  | 'trendline'
+  | 'ray'
+  | 'extended-line'
+  | 'arrow'
+  | 'horizontal-line'
+  | 'vertical-line'
+  | 'parallel-channel'
+  | 'fib-retracement'
+  | 'fib-extension'
+  | 'rectangle'
+  | 'ellipse'
+  | 'measure'
+  | 'text';
+
+// Points placed to create each kind of drawing, by click-and-drag or one click per point
+export const DRAWING_POINT_COUNTS: Record<Exclude<DrawingTool, 'none'>, number> = {
+  'trendline': 2,
+  'ray': 2,
+  'extended-line': 2,
+  'arrow': 2,
+  'horizontal-line': 1,
+  'vertical-line': 1,
+  'parallel-channel': 3,
+  'fib-retracement': 2,
+  'fib-extension': 3,
+  'rectangle': 2,
+  'ellipse': 2,
+  'measure': 2,
+  'text': 1,
+};
+
+// Levels as ratios of the measured move; 0 and 1 are the anchor prices
+export const DEFAULT_FIB_RETRACEMENT_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+export const DEFAULT_FIB_EXTENSION_LEVELS = [0, 0.618, 1, 1.272, 1.618, 2.618];
 
 // Point in chart coordinates (timestamp, price)
 export interface ChartPoint {
@@ -13,6 +48,15 @@ export interface CanvasPoint {
   y: number; // pixel y
 }
 
+// Price alert attached to a drawing. Status fields mirror the alert so the chart
+// can mark triggered alerts without waiting for the alerts query.
+export interface DrawingAlert {
+  alertId: string;
+  isActive: boolean;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+}
+
 // Base drawing interface
 export interface BaseDrawing {
   id: string;
@@ -20,6 +64,9 @@ export interface BaseDrawing {
   points: ChartPoint[];
   style?: DrawingStyle;
   selected?: boolean;
+  alert?: DrawingAlert;
+  locked?: boolean; // can be selected but not moved or reshaped
+  hidden?: boolean; // kept on the chart but not drawn or hit tested
 }
 
 // Drawing style configuration
@@ -38,6 +85,23 @@ export interface TrendlineDrawing extends BaseDrawing {
   points: [ChartPoint, ChartPoint]; // start and end points
 }
 
+// Starts at the first point and continues through the second to the edge of the chart
+export interface RayDrawing extends BaseDrawing {
+  type: 'ray';
+  points: [ChartPoint, ChartPoint];
+}
+
+// Line through both points, extended to the chart edges in both directions
+export interface ExtendedLineDrawing extends BaseDrawing {
+  type: 'extended-line';
+  points: [ChartPoint, ChartPoint];
+}
+
+export interface ArrowDrawing extends BaseDrawing {
+  type: 'arrow';
+  points: [ChartPoint, ChartPoint]; // tail and head
+}
+
 export interface HorizontalLineDrawing extends BaseDrawing {
   type: 'horizontal-line';
   points: [ChartPoint]; // price level
@@ -48,11 +112,41 @@ export interface VerticalLineDrawing extends BaseDrawing {
   points: [ChartPoint]; // timestamp
 }
 
+export interface ParallelChannelDrawing extends BaseDrawing {
+  type: 'parallel-channel';
+  points: [ChartPoint, ChartPoint, ChartPoint]; // base line, then a point on the parallel line
+}
+
+// Retracement of the move from the first point to the second: level 0 at the second point, 1 at the first
+export interface FibonacciRetracementDrawing extends BaseDrawing {
+  type: 'fib-retracement';
+  points: [ChartPoint, ChartPoint];
+  levels?: number[]; // DEFAULT_FIB_RETRACEMENT_LEVELS when unset
+}
+
+// Trend-based extension: the move from the first to the second point, projected from the third
+export interface FibonacciExtensionDrawing extends BaseDrawing {
+  type: 'fib-extension';
+  points: [ChartPoint, ChartPoint, ChartPoint];
+  levels?: number[]; // DEFAULT_FIB_EXTENSION_LEVELS when unset
+}
+
 export interface RectangleDrawing extends BaseDrawing {
   type: 'rectangle';
   points: [ChartPoint, ChartPoint]; // top-left and bottom-right corners
 }
 
+export interface EllipseDrawing extends BaseDrawing {
+  type: 'ellipse';
+  points: [ChartPoint, ChartPoint]; // opposite corners of the bounding box
+}
+
+// Price and date range between two points: change, % change and bar count
+export interface MeasureDrawing extends BaseDrawing {
+  type: 'measure';
+  points: [ChartPoint, ChartPoint];
+}
+
 export interface TextDrawing extends BaseDrawing {
   type: 'text';
   points: [ChartPoint]; // position
@@ -70,7 +164,45 @@ export interface TextDrawing extends BaseDrawing {
 }
 
 // Union type for all drawings
-export type Drawing = TrendlineDrawing | HorizontalLineDrawing | VerticalLineDrawing | RectangleDrawing | TextDrawing;
+export type Drawing =
+  | TrendlineDrawing
+  | RayDrawing
+  | ExtendedLineDrawing
+  | ArrowDrawing
+  | HorizontalLineDrawing
+  | VerticalLineDrawing
+  | ParallelChannelDrawing
+  | FibonacciRetracementDrawing
+  | FibonacciExtensionDrawing
+  | RectangleDrawing
+  | EllipseDrawing
+  | MeasureDrawing
+  | TextDrawing;
+
+export type FibonacciDrawing = FibonacciRetracementDrawing | FibonacciExtensionDrawing;
+
+export function isFibonacciDrawing(drawing: Drawing): drawing is FibonacciDrawing {
+  return drawing.type === 'fib-retracement' || drawing.type === 'fib-extension';
+}
+
+// Guards drawings loaded from storage or imports against unknown types and missing points
+export function isValidDrawing(value: unknown): value is Drawing {
+  const drawing = value as Partial<Drawing> | null;
+  if (!drawing || typeof drawing.id !== 'string' || !drawing.type) return false;
+
+  const pointCount = (DRAWING_POINT_COUNTS as Record<string, number>)[drawing.type];
+  return pointCount !== undefined &&
+    Array.isArray(drawing.points) &&
+    drawing.points.length === pointCount &&
+    drawing.points.every(point => Number.isFinite(point?.x) && Number.isFinite(point?.y));
+}
+
+// Drawings that describe a price level and can back a price alert
+export type AlertableDrawing = TrendlineDrawing | HorizontalLineDrawing;
+
+export function isAlertableDrawing(drawing: Drawing): drawing is AlertableDrawing {
+  return drawing.type === 'trendline' || drawing.type === 'horizontal-line';
+}
 
 // Drawing state management
 export interface DrawingState {
@@ -79,6 +211,7 @@ export interface DrawingState {
   selectedDrawingId: string | null;
   isDrawing: boolean;
   isDragging: boolean;
+  dragHandleIndex?: number | null; // point being dragged by its handle; unset moves the whole drawing
   dragStartPoint: ChartPoint | null;
   dragOffset: ChartPoint | null;
   currentDrawing: {
@@ -88,6 +221,7 @@ export interface DrawingState {
     style?: DrawingStyle;
     selected?: boolean;
     text?: string;
+    levels?: number[];
   } | null;
 }
 
@@ -107,6 +241,24 @@ export const DEFAULT_DRAWING_STYLES: Record<DrawingTool, Partial<DrawingStyle>>
     opacity: 1,
     lineDash: []
   },
+  'ray': {
+    color: '#2196F3',
+    width: 2,
+    opacity: 1,
+    lineDash: []
+  },
+  'extended-line': {
+    color: '#2196F3',
+    width: 2,
+    opacity: 1,
+    lineDash: []
+  },
+  'arrow': {
+    color: '#E91E63',
+    width: 2,
+    opacity: 1,
+    lineDash: []
+  },
   'horizontal-line': {
     color: '#FF9800',
     width: 1,
@@ -119,12 +271,42 @@ export const DEFAULT_DRAWING_STYLES: Record<DrawingTool, Partial<DrawingStyle>>
     opacity: 0.8,
     lineDash: [5, 5]
   },
+  'parallel-channel': {
+    color: '#00BCD4',
+    width: 1,
+    opacity: 1,
+    lineDash: []
+  },
+  'fib-retracement': {
+    color: '#787B86',
+    width: 1,
+    opacity: 1,
+    lineDash: []
+  },
+  'fib-extension': {
+    color: '#787B86',
+    width: 1,
+    opacity: 1,
+    lineDash: []
+  },
   'rectangle': {
     color: '#9C27B0',
     width: 1,
     opacity: 0.3,
     lineDash: []
   },
+  'ellipse': {
+    color: '#9C27B0',
+    width: 1,
+    opacity: 0.6,
+    lineDash: []
+  },
+  'measure': {
+    color: '#2196F3',
+    width: 1,
+    opacity: 1,
+    lineDash: []
+  },
   'text': {
     color: '#4CAF50',
     width: 1,
@@ -134,6 +316,10 @@ export const DEFAULT_DRAWING_STYLES: Record<DrawingTool, Partial<DrawingStyle>>
   }
 };
 
+export function createDrawingId(): string {
+  return `drawing-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
 // Helper functions for moving drawings
 export function moveDrawing(drawing: Drawing, offset: ChartPoint): Drawing {
   const newPoints = drawing.points.map(point => ({
@@ -144,7 +330,15 @@ export function moveDrawing(drawing: Drawing, offset: ChartPoint): Drawing {
   return {
     ...drawing,
     points: newPoints
-  };
+  } as Drawing;
+}
+
+// Move one point of a drawing, e.g. while dragging its handle
+export function moveDrawingPoint(drawing: Drawing, index: number, point: ChartPoint): Drawing {
+  return {
+    ...drawing,
+    points: drawing.points.map((p, i) => i === index ? point : p)
+  } as Drawing;
 }
 
 export function calculateDragOffset(clickPoint: ChartPoint, drawing: Drawing): ChartPoint {
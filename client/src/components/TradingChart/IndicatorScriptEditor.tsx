@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import {
+  useCreateIndicatorScript,
+  useDeleteIndicatorScript,
+  useUpdateIndicatorScript,
+} from '../../hooks';
+import { compileScript, ScriptError, SCRIPT_FUNCTIONS, SCRIPT_SERIES } from './indicators';
+import type { IndicatorScript } from '../../types';
+import styles from './IndicatorScriptEditor.module.css';
+
+interface IndicatorScriptEditorProps {
+  scripts: IndicatorScript[];
+  initialScriptId?: string;
+  onClose: () => void;
+}
+
+const NEW_SCRIPT_SOURCE = `// Bands around a moving average
+length = input(20, "Length")
+mult = input(2, "Multiplier")
+basis = sma(close, length)
+plot(basis, "Basis")
+plot(basis + mult * stdev(close, length), "Upper")
+plot(basis - mult * stdev(close, length), "Lower")
+`;
+
+// Compile errors as 'Line 3: Unknown function "smaa"', or null when the script is fine
+const checkScript = (source: string): string | null => {
+  try {
+    compileScript(source);
+    return null;
+  } catch (error) {
+    return error instanceof ScriptError ? error.describe() : String(error);
+  }
+};
+
+/**
+ * Writes and saves the user's own indicators. Scripts are checked as they are typed;
+ * saved scripts appear under "My Scripts" in the indicator menu.
+ */
+const IndicatorScriptEditor: React.FC<IndicatorScriptEditorProps> = ({ scripts, initialScriptId, onClose }) => {
+  const createScript = useCreateIndicatorScript();
+  const updateScript = useUpdateIndicatorScript();
+  const deleteScript = useDeleteIndicatorScript();
+
+  const [scriptId, setScriptId] = useState<string | null>(initialScriptId ?? null);
+  const initial = scripts.find(script => script.id === scriptId);
+  const [name, setName] = useState(initial?.name ?? 'My indicator');
+  const [overlay, setOverlay] = useState(initial?.overlay ?? true);
+  const [source, setSource] = useState(initial?.source ?? NEW_SCRIPT_SOURCE);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const compileError = useMemo(() => checkScript(source), [source]);
+  const saving = createScript.isPending || updateScript.isPending || deleteScript.isPending;
+
+  const openScript = (id: string | null) => {
+    const script = scripts.find(s => s.id === id);
+    setScriptId(script?.id ?? null);
+    setName(script?.name ?? 'My indicator');
+    setOverlay(script?.overlay ?? true);
+    setSource(script?.source ?? NEW_SCRIPT_SOURCE);
+    setSaveError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (compileError) return;
+    if (!name.trim()) {
+      setSaveError('Give the script a name');
+      return;
+    }
+
+    const input = { name: name.trim(), source, overlay };
+    try {
+      if (scriptId) {
+        await updateScript.mutateAsync({ scriptId, updates: input });
+      } else {
+        const created = await createScript.mutateAsync(input);
+        setScriptId(created.id);
+      }
+      setSaveError(null);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save the script');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!scriptId || !window.confirm(`Delete "${name}"? Charts using it will drop the indicator.`)) return;
+
+    try {
+      await deleteScript.mutateAsync(scriptId);
+      openScript(null);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to delete the script');
+    }
+  };
+
+  return (
+    <form
+      className={styles.dialog}
+      onSubmit={handleSubmit}
+      onKeyDown={e => e.key === 'Escape' && onClose()}
+    >
+      <div className={styles.header}>
+        <span className={styles.title}>Indicator scripts</span>
+        <button type="button" className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.row}>
+        <label className={styles.field}>
+          <span>Script</span>
+          <select value={scriptId ?? ''} onChange={e => openScript(e.target.value || null)}>
+            <option value="">New script</option>
+            {scripts.map(script => (
+              <option key={script.id} value={script.id}>{script.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <span>Name</span>
+          <input type="text" value={name} maxLength={40} onChange={e => setName(e.target.value)} />
+        </label>
+      </div>
+
+      <label className={styles.checkbox}>
+        <input type="checkbox" checked={overlay} onChange={e => setOverlay(e.target.checked)} />
+        Draw over the price chart
+      </label>
+
+      <textarea
+        className={styles.source}
+        value={source}
+        spellCheck={false}
+        rows={12}
+        onChange={e => setSource(e.target.value)}
+      />
+
+      <div className={compileError ? styles.error : styles.status}>
+        {compileError ?? 'No errors'}
+      </div>
+      {saveError && <div className={styles.error}>{saveError}</div>}
+
+      <div className={styles.help}>
+        Series: {SCRIPT_SERIES.join(' ')}, with <code>x[1]</code> for the previous bar.
+        Functions: {Object.keys(SCRIPT_FUNCTIONS).join(' ')}.
+      </div>
+
+      <div className={styles.actions}>
+        {scriptId && (
+          <button type="button" className={styles.removeButton} onClick={handleDelete} disabled={saving}>
+            Delete
+          </button>
+        )}
+        <button type="submit" className={styles.applyButton} disabled={saving || !!compileError}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default IndicatorScriptEditor;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import {
+  INDICATOR_SOURCES,
+  indicatorRegistry,
+  toHexColor,
+  type IndicatorInstance,
+  type IndicatorLineStyle,
+} from './indicators';
+import styles from './IndicatorSettingsDialog.module.css';
+
+interface IndicatorSettingsDialogProps {
+  instance: IndicatorInstance;
+  defaultColor?: string; // the main line's color as calculated, shown until the user picks one
+  onApply: (instance: IndicatorInstance) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const LINE_WIDTHS = [1, 2, 3, 4];
+
+const LINE_STYLES: Array<{ value: IndicatorLineStyle; label: string }> = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+// 'fastPeriod' -> 'Fast period', 'smoothK' -> 'Smooth K'
+const formatParameterName = (name: string): string => {
+  const words = name.replace(/([A-Z])/g, ' $1').toLowerCase().split(' ')
+    .map(word => word.length === 1 ? word.toUpperCase() : word);
+  const label = words.join(' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+/**
+ * Edits one indicator instance on the chart: the calculator's parameters, its price
+ * source and how its lines are drawn. Changes apply when confirmed.
+ */
+const IndicatorSettingsDialog: React.FC<IndicatorSettingsDialogProps> = ({
+  instance,
+  defaultColor,
+  onApply,
+  onRemove,
+  onClose
+}) => {
+  const calculator = indicatorRegistry.getIndicator(instance.indicator);
+  const defaults: Record<string, unknown> = calculator?.defaultParameters ?? {};
+
+  // Inputs are edited as text so a field can be cleared while typing
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.keys(defaults).map(key => [key, String(instance.parameters[key] ?? defaults[key])]))
+  );
+  // Unset keeps the calculator's own color
+  const [color, setColor] = useState<string | undefined>(instance.style?.color);
+  const [lineWidth, setLineWidth] = useState<number | undefined>(instance.style?.lineWidth);
+  const [lineStyle, setLineStyle] = useState<IndicatorLineStyle>(instance.style?.lineStyle ?? 'solid');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReset = () => {
+    setValues(Object.fromEntries(Object.entries(defaults).map(([key, value]) => [key, String(value)])));
+    setColor(undefined);
+    setLineWidth(undefined);
+    setLineStyle('solid');
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!calculator) return;
+
+    const parameters: Record<string, number | string> = {};
+    for (const [key, value] of Object.entries(defaults)) {
+      if (typeof value !== 'number') {
+        parameters[key] = values[key];
+        continue;
+      }
+      const number = parseFloat(values[key]);
+      if (!Number.isFinite(number)) {
+        setError(`Enter a number for ${formatParameterName(key).toLowerCase()}`);
+        return;
+      }
+      parameters[key] = number;
+    }
+
+    if (!calculator.validateParameters(parameters)) {
+      setError(`These settings aren't supported for ${calculator.name}`);
+      return;
+    }
+
+    onApply({
+      ...instance,
+      parameters,
+      style: { color, lineWidth, lineStyle },
+    });
+  };
+
+  return (
+    <form
+      className={styles.dialog}
+      onSubmit={handleSubmit}
+      onKeyDown={e => e.key === 'Escape' && onClose()}
+    >
+      <div className={styles.header}>
+        <span className={styles.title}>{calculator?.name ?? instance.indicator}</span>
+        <button type="button" className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      {Object.entries(defaults).map(([key, value]) => (
+        <label key={key} className={styles.field}>
+          <span>{formatParameterName(key)}</span>
+          {key === 'source' ? (
+            <select
+              value={values[key]}
+              onChange={e => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+            >
+              {INDICATOR_SOURCES.map(source => (
+                <option key={source.value} value={source.value}>{source.label}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type={typeof value === 'number' ? 'number' : 'text'}
+              step="any"
+              value={values[key]}
+              onChange={e => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+            />
+          )}
+        </label>
+      ))}
+
+      <div className={styles.divider} />
+
+      <div className={styles.styleRow}>
+        <label className={styles.field}>
+          <span>Color</span>
+          <input type="color" value={color ?? toHexColor(defaultColor)} onChange={e => setColor(e.target.value)} />
+        </label>
+        <label className={styles.field}>
+          <span>Width</span>
+          <select
+            value={lineWidth ?? ''}
+            onChange={e => setLineWidth(e.target.value ? Number(e.target.value) : undefined)}
+          >
+            <option value="">Default</option>
+            {LINE_WIDTHS.map(width => (
+              <option key={width} value={width}>{width}px</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <span>Line</span>
+          <select value={lineStyle} onChange={e => setLineStyle(e.target.value as IndicatorLineStyle)}>
+            {LINE_STYLES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <div className={styles.error}>{error}</div>}
+
+      <div className={styles.actions}>
+        <button type="button" className={styles.secondaryButton} onClick={handleReset}>
+          Defaults
+        </button>
+        <button type="button" className={styles.removeButton} onClick={onRemove}>
+          Remove
+        </button>
+        <button type="submit" className={styles.applyButton}>
+          Apply
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default IndicatorSettingsDialog;
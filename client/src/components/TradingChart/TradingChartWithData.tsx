@@ -12,36 +12,124 @@ import {
   TimeScale,
   BarController,
   BarElement,
+  Filler,
 } from 'chart.js';
 import { Chart } from 'react-chartjs-2';
-import type { ChartData, ChartOptions } from 'chart.js';
+import type { ChartData, ChartOptions, ScriptableLineSegmentContext } from 'chart.js';
 import zoomPlugin from 'chartjs-plugin-zoom';
 import 'chartjs-adapter-date-fns';
 import type { IPanelComponentProps } from '../../types/panel';
 import SymbolAutocomplete from '../Common/SymbolAutocomplete';
-import { IndicatorRegistry } from './indicators';
+import { applyIndicatorStyle, indicatorRegistry, ScriptError, SCRIPT_INDICATOR_PREFIX, updateIndicatorCache } from './indicators';
+import type { IndicatorCache, IndicatorInstance, IndicatorResult, OHLCData } from './indicators';
+import IndicatorSettingsDialog from './IndicatorSettingsDialog';
+import IndicatorScriptEditor from './IndicatorScriptEditor';
 import { CandlestickIcon, OHLCIcon, LineIcon, VolumeIcon } from './icons/ChartIcons';
 import { 
   DrawingToolbar, 
   drawingPlugin, 
   CoordinateConverter,
   DEFAULT_DRAWING_STYLES,
+  DRAWING_POINT_COUNTS,
+  EMPTY_DRAWING_HISTORY,
+  FibonacciLevelsEditor,
+  applyDrawingCommand,
+  copyDrawings,
+  createDrawingCommand,
+  createDrawingId,
   findDrawingAtPoint,
   findDrawingForCursor,
+  findDrawingHandle,
+  findDrawingsInBox,
+  hasCopiedDrawings,
+  pasteDrawings,
+  recordDrawingCommand,
+  redoDrawingHistory,
+  undoDrawingHistory,
   moveDrawing,
-  calculateDragOffset
+  moveDrawingPoint,
+  calculateDragOffset,
+  isAlertableDrawing,
+  isFibonacciDrawing,
+  createDrawingAlertInput,
+  getDrawingAlertLevel,
+  syncDrawingAlert
 } from './DrawingTools';
 import type {
+  CanvasPoint,
   DrawingTool,
   Drawing, 
+  DrawingHistory,
   DrawingState,
   DrawingStyle
 } from './DrawingTools';
+import {
+  ChartOrderTicket,
+  orderLinesPlugin,
+  describeOrderLine,
+  dragOrderLine,
+  dropOrderLine,
+  findOrderLineAtPoint,
+  formatOrderPrice,
+  getOrderLineReplace,
+  getOrderLines,
+  getTicketOptions
+} from './ChartTrading';
+import type { ChartTicketOption, OrderLine, OrderLineMove } from './ChartTrading';
 import InlineTextEditor from './InlineTextEditor';
+import ChartSyncIndicator from './ChartSyncIndicator';
+import ConfirmModal from '../Common/ConfirmModal';
 import { watermarkPlugin } from './plugins/watermarkPlugin';
 import './plugins/watermark.d';
+import { crosshairPlugin } from './plugins/crosshairPlugin';
+import { referenceLevelsPlugin } from './plugins/referenceLevelsPlugin';
 import ChartPersistenceService from './services/ChartPersistenceService';
-import type { ChartSettings } from './services/ChartPersistenceService';
+import type { ChartSettings, ChartTypeOptions } from './services/ChartPersistenceService';
+import { BarsHistoryService, type BarsProvider } from './services/BarsProvider';
+import { defaultBarsHistory } from './services/defaultBarsHistory';
+import { buildChartCsv, downloadBlob, getChartExportFileName, renderChartImage } from './services/chartExport';
+import { createSharedChartLink, toSharedChart, type SharedChart } from './services/chartShare';
+import {
+  buildComparisonSeries,
+  COMPARISON_COLORS,
+  findBaseIndex,
+  findLastVisibleIndex,
+  formatPercentChange,
+  MAX_COMPARISONS,
+  percentChange,
+} from './services/comparisonSeries';
+import {
+  ChartPaneGroup,
+  DEFAULT_PANE_HEIGHT,
+  MAIN_PANE_ID,
+  MAX_PANE_HEIGHT,
+  MIN_PANE_HEIGHT,
+  PANE_AXIS_WIDTH,
+  VOLUME_PANE_ID,
+} from './services/ChartPaneGroup';
+import {
+  SUPPORTED_INTERVALS,
+  SUPPORTED_TIMEFRAMES,
+  type ChartInterval,
+  type ChartPeriod,
+} from './utils/timeframes';
+import { useLiveBars } from './hooks/useLiveBars';
+import { useComparisonBars } from './hooks/useComparisonBars';
+import { defaultBrickSize, getChartRenderStyle, transformBars, type ChartType } from './services/chartTransforms';
+import {
+  useMarketHours,
+  usePriceAlerts,
+  useCreatePriceAlert,
+  useUpdatePriceAlert,
+  useDeletePriceAlert,
+  useOrders,
+  useCancelOrder,
+  useReplaceOrder,
+  useScriptIndicators,
+} from '../../hooks';
+import type { OrdersApi } from '../../services/api';
+import { describeAlertCondition } from '../../services/alertEngine';
+import useToastStore from '../../store/toastStore';
 import styles from './TradingChart.module.css';
 
 // Register Chart.js components
@@ -57,224 +145,124 @@ ChartJS.register(
   Title,
   Tooltip,
   Legend,
+  Filler,
   zoomPlugin,
   drawingPlugin,
-  watermarkPlugin
+  orderLinesPlugin,
+  watermarkPlugin,
+  crosshairPlugin,
+  referenceLevelsPlugin
 );
 
-// OHLC data type
-interface OHLCData {
-  timestamp: Date;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
+// 1.2M, 35.0K, 950
+const formatVolume = (value: number): string => {
+  const magnitude = Math.abs(value);
+  return magnitude >= 1000000 ? `${(value / 1000000).toFixed(1)}M` :
+         magnitude >= 1000 ? `${(value / 1000).toFixed(1)}K` :
+         value.toLocaleString();
+};
 
-// Market data service embedded in component
-class MarketDataService {
-  private static instance: MarketDataService;
-  private cache = new Map<string, { data: OHLCData[]; timestamp: number }>();
-  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+// Oscillator readings; large ones such as OBV are abbreviated like volume
+const formatOscillatorValue = (value: number): string =>
+  Math.abs(value) >= 10000 ? formatVolume(value) : value.toFixed(2);
 
-  static getInstance(): MarketDataService {
-    if (!MarketDataService.instance) {
-      MarketDataService.instance = new MarketDataService();
-    }
-    return MarketDataService.instance;
-  }
-
-  private isValidSymbol(symbol: string): boolean {
-    return /^[A-Z]{1,5}$/.test(symbol.trim().toUpperCase());
-  }
-
-  async getHistoricalData(
-    symbol: string, 
-    period: '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '2y' = '3mo',
-    interval: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w' = '1d'
-  ): Promise<OHLCData[]> {
-    if (!symbol || !this.isValidSymbol(symbol)) {
-      throw new Error('Invalid symbol format');
-    }
-
-    const normalizedSymbol = symbol.trim().toUpperCase();
-    const cacheKey = `${normalizedSymbol}-${period}-${interval}`;
-    
-    // Check cache
-    const cached = this.cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data;
-    }
+// Every pane's value axis gets the same width so the plot areas line up on the time axis
+const fitPaneAxis = (scale: { width: number }) => {
+  scale.width = PANE_AXIS_WIDTH;
+};
 
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    const data = this.generateRealisticData(normalizedSymbol, period, interval);
+// An oscillator drawn in its own pane below the price chart
+// Indicator menu entry that opens the script editor instead of adding an indicator
+const SCRIPT_EDITOR_OPTION = '__script-editor';
 
-    // Cache the result
-    this.cache.set(cacheKey, {
-      data,
-      timestamp: Date.now(),
-    });
+// User scripts are listed separately from the built-in calculators
+const isBuiltInIndicator = (indicator: { id: string }): boolean => !indicator.id.startsWith(SCRIPT_INDICATOR_PREFIX);
 
-    return data;
-  }
+const NEXT_PRICE_SCALE: Record<ChartSettings['priceScale'], ChartSettings['priceScale']> = {
+  linear: 'logarithmic',
+  logarithmic: 'percent',
+  percent: 'linear'
+};
 
-  private generateRealisticData(symbol: string, period: string, interval: string = '1d'): OHLCData[] {
-    const days = this.getPeriodDays(period);
-    const intervalsPerDay = this.getIntervalsPerDay(interval);
-    const totalIntervals = days * intervalsPerDay;
-    const data: OHLCData[] = [];
-    
-    // Base prices for common symbols
-    const basePrices: Record<string, number> = {
-      'AAPL': 180,
-      'MSFT': 340,
-      'GOOGL': 140,
-      'AMZN': 145,
-      'TSLA': 250,
-      'META': 310,
-      'NVDA': 470,
-      'NFLX': 450,
-      'AMD': 120,
-      'INTC': 25,
-    };
-    
-    let basePrice = basePrices[symbol] || (50 + Math.random() * 200);
-    
-    // Symbol-specific characteristics
-    const symbolSeed = symbol.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const volatility = 0.008 + (symbolSeed % 20) * 0.0005; // 0.8% - 1.8% daily volatility
-    const trendBias = (symbolSeed % 3 === 0) ? 0.0002 : -0.0001;
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      // Skip weekends for more realistic data
-      if (date.getDay() === 0 || date.getDay() === 6) {
-        continue;
-      }
-      
-      // Random walk with trend
-      const change = (Math.random() - 0.5) * volatility + trendBias;
-      basePrice *= (1 + change);
-      
-      // Intraday range
-      const dailyRange = basePrice * (0.005 + Math.random() * 0.015);
-      const high = basePrice + dailyRange * Math.random();
-      const low = basePrice - dailyRange * Math.random();
-      const open = low + (high - low) * Math.random();
-      
-      data.push({
-        timestamp: date,
-        open,
-        high,
-        low,
-        close: basePrice,
-        volume: Math.floor(Math.random() * 10000000) + 1000000
-      });
-    }
-    
-    return data;
-  }
-
-  private getPeriodDays(period: string): number {
-    switch (period) {
-      case '1d': return 1;
-      case '5d': return 5;
-      case '1mo': return 30;
-      case '3mo': return 90;
-      case '6mo': return 180;
-      case '1y': return 365;
-      case '2y': return 730;
-      default: return 90;
-    }
-  }
-
-  private getIntervalsPerDay(interval: string): number {
-    switch (interval) {
-      case '1m': return 390;   // 6.5 hours of trading
-      case '5m': return 78;    // 6.5 hours / 5 min
-      case '15m': return 26;   // 6.5 hours / 15 min
-      case '30m': return 13;   // 6.5 hours / 30 min
-      case '1h': return 7;     // ~7 hours of trading
-      case '4h': return 2;     // 2 4-hour intervals per day
-      case '1d': return 1;     // 1 daily candle
-      case '1w': return 0.2;   // 5 trading days per week
-      default: return 1;
-    }
-  }
-
-  private getIntervalMilliseconds(interval: string): number {
-    switch (interval) {
-      case '1m': return 60 * 1000;
-      case '5m': return 5 * 60 * 1000;
-      case '15m': return 15 * 60 * 1000;
-      case '30m': return 30 * 60 * 1000;
-      case '1h': return 60 * 60 * 1000;
-      case '4h': return 4 * 60 * 60 * 1000;
-      case '1d': return 24 * 60 * 60 * 1000;
-      case '1w': return 7 * 24 * 60 * 60 * 1000;
-      default: return 24 * 60 * 60 * 1000;
-    }
-  }
-
-  getSupportedTimeframes(): Array<{ key: string; label: string }> {
-    return [
-      { key: '1d', label: '1D' },
-      { key: '5d', label: '5D' },
-      { key: '1mo', label: '1M' },
-      { key: '3mo', label: '3M' },
-      { key: '6mo', label: '6M' },
-      { key: '1y', label: '1Y' },
-      { key: '2y', label: '2Y' },
-    ];
-  }
-}
+const PRICE_SCALE_LABELS: Record<ChartSettings['priceScale'], string> = {
+  linear: 'Linear',
+  logarithmic: 'Log',
+  percent: '%'
+};
 
-const marketDataService = MarketDataService.getInstance();
+// Entries of the header's export menu
+type ChartExportFormat = 'png' | 'csv' | 'link';
 
-// Create indicator registry instance
-const indicatorRegistry = new IndicatorRegistry();
+interface OscillatorPane {
+  instance: IndicatorInstance;
+  data: ChartData<'line'>;
+  scales: NonNullable<IndicatorResult['scales']>;
+}
 
 interface TradingChartProps extends IPanelComponentProps {
   data?: OHLCData[];
+  barsProvider?: BarsProvider;
+  ordersApi?: OrdersApi; // defaults to the app's orders API; pass MockOrdersApi for demos and tests
+  sharedChart?: SharedChart; // shows this chart from a share link, read-only, instead of the user's saved chart
 }
 
 const TradingChartWithData: React.FC<TradingChartProps> = ({
   symbol: propSymbol = 'AAPL',
   onSymbolChange,
   onReady,
-  data: propData
+  data: propData,
+  barsProvider,
+  ordersApi,
+  sharedChart
 }) => {
+  const readOnly = !!sharedChart;
   // Initialize persistence service
   const persistenceService = useMemo(() => ChartPersistenceService.getInstance(), []);
+  const barsHistory = useMemo(
+    () => barsProvider ? new BarsHistoryService(barsProvider) : defaultBarsHistory,
+    [barsProvider]
+  );
   
   // Initialize state with persisted data
-  const [currentSymbol, setCurrentSymbol] = useState<string>(propSymbol);
-  const [selectedIndicators, setSelectedIndicators] = useState<string[]>(['sma20']);
+  const [currentSymbol, setCurrentSymbol] = useState<string>(sharedChart?.symbol ?? propSymbol);
   
   // Initialize chart settings from persistence
   const initialSettings = useMemo(() => {
-    const saved = persistenceService.getSettings(propSymbol);
+    const saved = sharedChart?.settings ?? persistenceService.getSettings(propSymbol);
     return saved;
-  }, [persistenceService, propSymbol]);
+  }, [persistenceService, propSymbol, sharedChart]);
+  
+  const [indicators, setIndicators] = useState<IndicatorInstance[]>(initialSettings.indicators ?? []);
+  const [editingIndicatorId, setEditingIndicatorId] = useState<string | null>(null);
+  const [scriptEditorOpen, setScriptEditorOpen] = useState(false);
+  // Registers the user's scripts as indicators; the version changes when script results arrive
+  const { scripts: indicatorScripts, version: indicatorsVersion } = useScriptIndicators();
   
-  const [timeframe, setTimeframe] = useState<'1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '2y'>(initialSettings.period);
-  const [interval, setInterval] = useState<'1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w'>(initialSettings.interval);
-  const [chartType, setChartType] = useState<'line' | 'candlestick' | 'ohlc'>(initialSettings.chartType as 'line' | 'candlestick' | 'ohlc');
+  const [timeframe, setTimeframe] = useState<ChartPeriod>(initialSettings.period);
+  const [interval, setInterval] = useState<ChartInterval>(initialSettings.interval);
+  const [chartType, setChartType] = useState<ChartType>(initialSettings.chartType);
+  // Renko box, range bar size and baseline price, for the chart types that use them
+  const [chartTypeOptions, setChartTypeOptions] = useState<ChartTypeOptions>(initialSettings.chartTypeOptions ?? {});
   const [showVolume, setShowVolume] = useState<boolean>(initialSettings.showVolume);
-  const [priceScale, setPriceScale] = useState<'linear' | 'logarithmic'>(initialSettings.priceScale);
+  // Heights of the volume and oscillator panes below the price chart, by pane id
+  const [paneHeights, setPaneHeights] = useState<Record<string, number>>(initialSettings.paneHeights ?? {});
+  const [priceScale, setPriceScale] = useState<ChartSettings['priceScale']>(initialSettings.priceScale);
+  // Symbols drawn over the price, rebased to percent change from the first visible bar
+  const [comparisons, setComparisons] = useState<string[]>(initialSettings.comparisons ?? []);
+  const [comparePickerOpen, setComparePickerOpen] = useState(false);
   const [chartData, setChartData] = useState<OHLCData[]>([]);
+  // Renko box / range bar size when none is set, worked out once per history load so live ticks don't re-form the bricks
+  const [brickSize, setBrickSize] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Visible time range after a pan/zoom; kept in options so re-renders don't reset the view
+  const [visibleRange, setVisibleRange] = useState<{ min: number; max: number } | null>(null);
 
   // Drawing tools state - initialize with persisted drawings
   const [drawingState, setDrawingState] = useState<DrawingState>(() => ({
     activeTool: 'none',
-    drawings: persistenceService.getDrawings(propSymbol),
+    drawings: sharedChart?.drawings ?? persistenceService.getDrawings(propSymbol),
     selectedDrawingId: null,
     isDrawing: false,
     isDragging: false,
@@ -283,229 +271,245 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     currentDrawing: null
   }));
 
-  // Chart references for zoom/pan synchronization
+  // Right-click menu: order tickets at the clicked price, plus actions for the order line or drawing under the cursor
+  const [chartMenu, setChartMenu] = useState<{
+    position: { x: number; y: number };
+    price: number;
+    drawingId: string | null;
+    orderLine: OrderLine | null;
+  } | null>(null);
+  // Drawings as they were when a drag started, to tell a real move from a click and to undo it
+  const dragStartDrawingsRef = useRef<Drawing[]>([]);
+  // Undo/redo stack for the current symbol's drawings
+  const [drawingHistory, setDrawingHistory] = useState<DrawingHistory>(EMPTY_DRAWING_HISTORY);
+  // Rubber band for selecting several drawings; mirrored for the pan handler like orderDrag
+  const [selectionBox, setSelectionBox] = useState<{ start: CanvasPoint; end: CanvasPoint } | null>(null);
+  const selectionBoxRef = useRef<{ start: CanvasPoint; end: CanvasPoint } | null>(null);
+  // Whether the last click was on this chart, so shortcuts like Ctrl+Z only act on one chart panel
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartActiveRef = useRef(false);
+  // Fibonacci drawing whose levels are being edited, opened from the context menu
+  const [fibLevelsEdit, setFibLevelsEdit] = useState<{ drawingId: string; position: { x: number; y: number } } | null>(null);
+
+  const { data: priceAlerts } = usePriceAlerts();
+  const { mutateAsync: createPriceAlert } = useCreatePriceAlert();
+  const { mutate: updatePriceAlert } = useUpdatePriceAlert();
+  const { mutate: deletePriceAlert } = useDeletePriceAlert();
+  const showToast = useToastStore(state => state.showToast);
+
+  // Chart trading: working orders drawn as lines that can be dragged to a new price
+  const { data: openOrders } = useOrders('open', ordersApi);
+  const replaceOrder = useReplaceOrder(ordersApi);
+  const cancelOrder = useCancelOrder(ordersApi);
+  const orderLines = useMemo(
+    () => readOnly ? [] : getOrderLines(openOrders ?? [], currentSymbol),
+    [openOrders, currentSymbol, readOnly]
+  );
+  const [orderDrag, setOrderDrag] = useState<OrderLineMove | null>(null);
+  // Mirrors orderDrag for the pan handler, which is created with the chart options
+  const orderDragRef = useRef<OrderLine | null>(null);
+  const [pendingReplace, setPendingReplace] = useState<OrderLineMove | null>(null);
+  const [replacingOrder, setReplacingOrder] = useState<OrderLineMove | null>(null);
+  const [pendingCancel, setPendingCancel] = useState<OrderLine | null>(null);
+  const [orderTicket, setOrderTicket] = useState<{
+    option: ChartTicketOption;
+    position: { x: number; y: number };
+  } | null>(null);
+
+  // Price chart, plus every pane stacked below it for a shared time axis and crosshair
   const mainChartRef = useRef<ChartJS | null>(null);
-  const volumeChartRef = useRef<ChartJS | null>(null);
-  const syncingRef = useRef<boolean>(false); // Prevent infinite sync loops
-
-  // Synchronize volume chart with main chart's time scale
-  const syncVolumeChart = useCallback((sourceChart: ChartJS) => {
-    if (syncingRef.current) {
-      console.log('🔄 syncVolumeChart: Skipping - already syncing');
-      return;
-    }
-
-    console.log('🔄 syncVolumeChart called', {
-      hasVolumeChart: !!volumeChartRef.current,
-      showVolume,
-      sourceChart: !!sourceChart
-    });
-
-    if (!volumeChartRef.current || !showVolume) {
-      console.log('❌ syncVolumeChart: Early return - no volume chart or volume disabled');
-      return;
-    }
-
-    syncingRef.current = true;
-
-    const sourceScale = sourceChart.scales.x;
-    const targetChart = volumeChartRef.current;
-    const targetScale = targetChart.scales.x;
-
-    console.log('📊 Chart scales:', {
-      sourceScale: !!sourceScale,
-      targetScale: !!targetScale,
-      sourceMin: sourceScale?.min,
-      sourceMax: sourceScale?.max,
-      targetMin: targetScale?.min,
-      targetMax: targetScale?.max
-    });
-
-    if (sourceScale && targetScale) {
-      // Get the current zoom state from the source chart
-      const minTime = sourceScale.min;
-      const maxTime = sourceScale.max;
-      
-      console.log('✅ syncVolumeChart: Attempting to sync time range', {
-        minTime,
-        maxTime,
-        oldMin: targetScale.min,
-        oldMax: targetScale.max
-      });
-      
-      // Use Chart.js zoom API to programmatically zoom the volume chart
-      if (targetChart.zoom) {
-        targetChart.zoom({
-          x: {
-            min: minTime,
-            max: maxTime
-          }
-        });
-        console.log('✅ syncVolumeChart: Used zoom API to sync');
-      } else {
-        // Fallback: direct scale manipulation with proper update
-        targetScale.options.min = minTime;
-        targetScale.options.max = maxTime;
-        targetChart.update('active');
-        console.log('✅ syncVolumeChart: Used scale options fallback');
-      }
-    } else {
-      console.log('❌ syncVolumeChart: Missing scales');
-    }
-
-    // Allow future syncs
-    setTimeout(() => {
-      syncingRef.current = false;
-    }, 100);
-  }, [showVolume]);
-
-  // Synchronize main chart with volume chart's time scale
-  const syncMainChart = useCallback((sourceChart: ChartJS) => {
-    if (syncingRef.current) {
-      console.log('🔄 syncMainChart: Skipping - already syncing');
-      return;
-    }
-
-    console.log('🔄 syncMainChart called', {
-      hasMainChart: !!mainChartRef.current,
-      sourceChart: !!sourceChart
-    });
-
-    if (!mainChartRef.current) {
-      console.log('❌ syncMainChart: Early return - no main chart');
-      return;
-    }
-
-    syncingRef.current = true;
-
-    const sourceScale = sourceChart.scales.x;
-    const targetChart = mainChartRef.current;
-    const targetScale = targetChart.scales.x;
-
-    console.log('📊 Main chart scales:', {
-      sourceScale: !!sourceScale,
-      targetScale: !!targetScale,
-      sourceMin: sourceScale?.min,
-      sourceMax: sourceScale?.max,
-      targetMin: targetScale?.min,
-      targetMax: targetScale?.max
-    });
-
-    if (sourceScale && targetScale) {
-      // Get the current zoom state from the source chart
-      const minTime = sourceScale.min;
-      const maxTime = sourceScale.max;
-      
-      console.log('✅ syncMainChart: Attempting to sync time range', {
-        minTime,
-        maxTime,
-        oldMin: targetScale.min,
-        oldMax: targetScale.max
-      });
-      
-      // Use Chart.js zoom API to programmatically zoom the main chart
-      if (targetChart.zoom) {
-        targetChart.zoom({
-          x: {
-            min: minTime,
-            max: maxTime
-          }
-        });
-        console.log('✅ syncMainChart: Used zoom API to sync');
-      } else {
-        // Fallback: direct scale manipulation with proper update
-        targetScale.options.min = minTime;
-        targetScale.options.max = maxTime;
-        targetChart.update('active');
-        console.log('✅ syncMainChart: Used scale options fallback');
-      }
-    } else {
-      console.log('❌ syncMainChart: Missing scales');
-    }
-
-    // Allow future syncs
-    setTimeout(() => {
-      syncingRef.current = false;
-    }, 100);
-  }, []);
+  const paneGroup = useMemo(() => new ChartPaneGroup(), []);
 
   // Fetch market data
   const fetchData = useCallback(async (symbolToFetch: string, periodToFetch: typeof timeframe, intervalToFetch: typeof interval) => {
     if (!symbolToFetch || symbolToFetch.trim().length === 0) {
       setChartData([]);
+      setBrickSize(null);
       setError(null);
       return;
     }
 
     setLoading(true);
     setError(null);
+    setVisibleRange(null);
     
     try {
-      const data = await marketDataService.getHistoricalData(symbolToFetch, periodToFetch, intervalToFetch);
+      const data = await barsHistory.getHistory(symbolToFetch, periodToFetch, intervalToFetch);
       setChartData(data);
+      setBrickSize(defaultBrickSize(data));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch data');
       setChartData([]);
+      setBrickSize(null);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [barsHistory]);
+
+  // Page in older bars once the user scrolls back to the start of the loaded history
+  const loadOlderIfNeeded = useCallback(async (visibleMin: number) => {
+    if (propData || loadingOlder || chartData.length === 0) return;
+
+    const oldest = chartData[0].timestamp.getTime();
+    const span = chartData.length > 1
+      ? chartData[chartData.length - 1].timestamp.getTime() - oldest
+      : 0;
+    // Start loading a little before the edge is actually reached
+    if (visibleMin > oldest + span * 0.05) return;
+
+    setLoadingOlder(true);
+    try {
+      const result = await barsHistory.loadOlder(currentSymbol, timeframe, interval);
+      if (result.added > 0) {
+        // Prepend onto the current series so bars built from live ticks are kept
+        const older = result.data.slice(0, result.added);
+        setChartData(prev => [...older, ...prev]);
+      }
+    } catch (err) {
+      console.warn('Failed to load older bars:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [propData, loadingOlder, chartData, barsHistory, currentSymbol, timeframe, interval]);
+
+  const handleViewportChange = useCallback((chart: ChartJS) => {
+    const xScale = chart.scales.x;
+    if (!xScale) return;
+
+    setVisibleRange({ min: xScale.min, max: xScale.max });
+    loadOlderIfNeeded(xScale.min);
+  }, [loadOlderIfNeeded]);
 
   // Initial data fetch and when currentSymbol/timeframe changes
   useEffect(() => {
     if (propData) {
       setChartData(propData);
+      setBrickSize(defaultBrickSize(propData));
     } else {
       fetchData(currentSymbol, timeframe, interval);
     }
   }, [currentSymbol, timeframe, interval, propData, fetchData]);
 
+  // Keep the last bar moving with streaming quotes once history is loaded
+  const { data: marketHours } = useMarketHours();
+  useLiveBars({
+    symbol: currentSymbol,
+    interval,
+    marketHours,
+    enabled: !propData && !loading && chartData.length > 0,
+    setChartData,
+  });
+  const { bars: comparisonBars, errors: comparisonErrors } = useComparisonBars({
+    symbols: comparisons,
+    period: timeframe,
+    interval,
+    barsHistory,
+  });
+
+  // Bars the chart is drawn and its indicators calculated from: the history itself, or bars
+  // derived from it such as Heikin-Ashi candles or Renko bricks
+  const displayData = useMemo(
+    () => transformBars(chartData, chartType, chartTypeOptions, brickSize),
+    [chartData, chartType, chartTypeOptions, brickSize]
+  );
+  const renderStyle = getChartRenderStyle(chartType);
+  // Baseline charts shade above and below this price
+  const baselinePrice = chartType === 'baseline'
+    ? chartTypeOptions.baselinePrice ?? displayData[findBaseIndex(displayData, visibleRange?.min)]?.close
+    : undefined;
+
   // Update currentSymbol when propSymbol changes (from panel linking)
   useEffect(() => {
-    setCurrentSymbol(propSymbol);
-  }, [propSymbol]);
+    if (!sharedChart) setCurrentSymbol(propSymbol);
+  }, [propSymbol, sharedChart]);
+
+  // Symbol whose saved chart the state holds; saves wait until a newly selected symbol is loaded
+  const [loadedSymbol, setLoadedSymbol] = useState<string | null>(null);
+  // Bumped when a newer copy of this symbol's chart arrives from the server, to load it
+  const [remoteRevision, setRemoteRevision] = useState(0);
 
-  // Load persisted data when symbol changes
   useEffect(() => {
+    return persistenceService.subscribe(symbol => {
+      if (symbol === currentSymbol.toUpperCase().trim()) setRemoteRevision(revision => revision + 1);
+    });
+  }, [currentSymbol, persistenceService]);
+
+  // Load persisted data when symbol changes. A shared chart is never saved, so saves never start for it.
+  useEffect(() => {
+    if (sharedChart) return;
     const symbolData = persistenceService.getSymbolData(currentSymbol);
+    setLoadedSymbol(currentSymbol);
     
-    // Load drawings
+    // Load drawings; undo history belongs to the previous symbol's drawings
     setDrawingState(prev => ({
       ...prev,
       drawings: symbolData.drawings,
       selectedDrawingId: null, // Clear selection when switching symbols
       activeTool: 'none' // Reset tool selection
     }));
+    setDrawingHistory(EMPTY_DRAWING_HISTORY);
     
     // Load chart settings
     const settings = symbolData.settings;
     setTimeframe(settings.period);
     setInterval(settings.interval);
-    setChartType(settings.chartType as 'line' | 'candlestick' | 'ohlc');
+    setChartType(settings.chartType);
+    setChartTypeOptions(settings.chartTypeOptions ?? {});
     setShowVolume(settings.showVolume);
     setPriceScale(settings.priceScale);
-  }, [currentSymbol, persistenceService]);
+    setIndicators(settings.indicators ?? []);
+    setPaneHeights(settings.paneHeights ?? {});
+    setComparisons(settings.comparisons ?? []);
+    setComparePickerOpen(false);
+    setEditingIndicatorId(null);
+  }, [currentSymbol, persistenceService, remoteRevision, sharedChart]);
+
+  // Mirror alert status onto the drawings that back them, and drop links to deleted alerts
+  useEffect(() => {
+    if (!priceAlerts) return;
+
+    const alertsById = new Map(priceAlerts.map(alert => [alert.id, alert]));
+    setDrawingState(prev => {
+      let changed = false;
+      const drawings = prev.drawings.map(drawing => {
+        if (!drawing.alert) return drawing;
+
+        const alert = alertsById.get(drawing.alert.alertId);
+        const link = alert ? syncDrawingAlert(drawing.alert, alert) : undefined;
+        if (link === drawing.alert) return drawing;
+
+        changed = true;
+        return { ...drawing, alert: link };
+      });
+      return changed ? { ...prev, drawings } : prev;
+    });
+  }, [priceAlerts, currentSymbol]);
 
   // Auto-save drawings when they change
   useEffect(() => {
+    if (loadedSymbol !== currentSymbol) return;
     if (drawingState.drawings.length > 0 || persistenceService.getDrawings(currentSymbol).length > 0) {
       persistenceService.saveDrawings(currentSymbol, drawingState.drawings);
     }
-  }, [drawingState.drawings, currentSymbol, persistenceService]);
+  }, [drawingState.drawings, currentSymbol, loadedSymbol, persistenceService]);
 
   // Auto-save chart settings when they change
   useEffect(() => {
+    if (loadedSymbol !== currentSymbol) return;
     const settings: ChartSettings = {
       period: timeframe,
       interval: interval,
       chartType: chartType,
+      chartTypeOptions,
       showVolume: showVolume,
       priceScale: priceScale,
-      indicators: selectedIndicators
+      indicators,
+      paneHeights,
+      comparisons
     };
     
     persistenceService.saveSettings(currentSymbol, settings);
-  }, [timeframe, interval, chartType, showVolume, priceScale, selectedIndicators, currentSymbol, persistenceService]);
+  }, [timeframe, interval, chartType, chartTypeOptions, showVolume, priceScale, indicators, paneHeights, comparisons, currentSymbol, loadedSymbol, persistenceService]);
 
   // Force save on component unmount
   useEffect(() => {
@@ -514,36 +518,13 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     };
   }, [persistenceService]);
 
-  // Calculate close prices for indicators
-  const closePrices = useMemo(() => {
-    return chartData.map(d => d.close);
-  }, [chartData]);
+  // Indicator results as of the last committed render, updated incrementally as bars change
+  const indicatorCacheRef = useRef<IndicatorCache>(new Map());
 
   useEffect(() => {
     onReady?.();
   }, [onReady]);
 
-  // Sync volume chart when it becomes visible
-  useEffect(() => {
-    console.log('🎯 Initial sync effect triggered', {
-      showVolume,
-      hasMainChart: !!mainChartRef.current,
-      hasVolumeChart: !!volumeChartRef.current
-    });
-
-    if (showVolume && mainChartRef.current && volumeChartRef.current) {
-      console.log('⏰ Setting up initial sync with delay');
-      // Small delay to ensure both charts are fully rendered
-      setTimeout(() => {
-        console.log('⚡ Performing initial sync now');
-        if (mainChartRef.current) {
-          syncVolumeChart(mainChartRef.current);
-        }
-      }, 100);
-    }
-  }, [showVolume, syncVolumeChart]);
-
-
   // Handle dynamic cursor changes for select mode (optimized without debug logging)
   const handleChartMouseMoveForCursor = useCallback((event: MouseEvent) => {
     if (!mainChartRef.current || drawingState.activeTool !== 'none') return;
@@ -553,13 +534,18 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     
     if (!converter.isPointInChart(canvasPoint)) return;
 
+    const canvas = mainChartRef.current.canvas;
+    if (orderDragRef.current || findOrderLineAtPoint(orderLines, canvasPoint, converter)) {
+      canvas.style.cursor = 'ns-resize';
+      return;
+    }
+
     // Use optimized cursor hit testing (no debug logs)
     const hoveredDrawing = findDrawingForCursor(drawingState.drawings, canvasPoint, converter);
-    const canvas = mainChartRef.current.canvas;
     
     if (hoveredDrawing) {
-      // Show move cursor if hovering over selected drawing, otherwise pointer
-      if (hoveredDrawing.selected) {
+      // Show move cursor if hovering over a selected drawing that can move, otherwise pointer
+      if (hoveredDrawing.selected && !hoveredDrawing.locked) {
         canvas.style.cursor = 'move';
       } else {
         canvas.style.cursor = 'url(/cursors/selection-hover-cursor.svg) 3 3, pointer';
@@ -568,11 +554,11 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       // Custom cursor for select mode in empty areas
       canvas.style.cursor = 'url(/cursors/selection-cursor.svg) 3 3, default';
     }
-  }, [drawingState.activeTool, drawingState.drawings]);
+  }, [drawingState.activeTool, drawingState.drawings, orderLines]);
 
   // Handle cursor changes based on active tool
   useEffect(() => {
-    if (!mainChartRef.current?.canvas) return;
+    if (readOnly || !mainChartRef.current?.canvas) return;
 
     const canvas = mainChartRef.current.canvas;
 
@@ -607,7 +593,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       canvas.removeEventListener('mousemove', handleChartMouseMoveForCursor);
       canvas.style.cursor = 'default';
     };
-  }, [drawingState.activeTool, drawingState.selectedDrawingId, handleChartMouseMoveForCursor]);
+  }, [drawingState.activeTool, drawingState.selectedDrawingId, handleChartMouseMoveForCursor, readOnly]);
 
   // Helper function to get cursor based on active tool
   const getCursorForTool = (tool: DrawingTool, selectedId: string | null): string => {
@@ -616,6 +602,14 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         // In select mode, cursor will be handled dynamically
         return 'url(/cursors/selection-cursor.svg) 3 3, default';
       case 'trendline':
+      case 'ray':
+      case 'extended-line':
+      case 'arrow':
+      case 'parallel-channel':
+      case 'fib-retracement':
+      case 'fib-extension':
+      case 'ellipse':
+      case 'measure':
         return 'url(/cursors/crosshair-cursor.svg) 12 12, crosshair';
       case 'horizontal-line':
         return 'row-resize'; // Better cursor for horizontal lines
@@ -657,24 +651,76 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     setInterval(newInterval);
   };
 
-  const toggleIndicator = (indicatorId: string) => {
-    setSelectedIndicators(prev => 
-      prev.includes(indicatorId) 
-        ? prev.filter(id => id !== indicatorId)
-        : [...prev, indicatorId]
-    );
+  const addIndicator = (indicatorId: string) => {
+    setIndicators(prev => [...prev, indicatorRegistry.createInstance(indicatorId)]);
+  };
+
+  const updateIndicator = (instance: IndicatorInstance) => {
+    setIndicators(prev => prev.map(i => i.id === instance.id ? instance : i));
+  };
+
+  const removeIndicator = (instanceId: string) => {
+    setIndicators(prev => prev.filter(i => i.id !== instanceId));
+    setEditingIndicatorId(prev => prev === instanceId ? null : prev);
+    setPaneHeights(prev => {
+      if (!(instanceId in prev)) return prev;
+      const next = { ...prev };
+      delete next[instanceId];
+      return next;
+    });
+  };
+
+  // Drag a pane's top edge to resize it; the price chart takes the remaining height
+  const startPaneResize = (event: React.MouseEvent, paneId: string) => {
+    event.preventDefault();
+    const startY = event.clientY;
+    const startHeight = paneHeights[paneId] ?? DEFAULT_PANE_HEIGHT;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const height = Math.min(MAX_PANE_HEIGHT, Math.max(MIN_PANE_HEIGHT, startHeight - (e.clientY - startY)));
+      setPaneHeights(prev => ({ ...prev, [paneId]: Math.round(height) }));
+    };
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
   };
 
   const handleChartTypeChange = (newChartType: typeof chartType) => {
     setChartType(newChartType);
   };
 
+  // Empty input: back to the default (ATR-based sizes, first visible close for the baseline)
+  const handleChartTypeOptionChange = (option: keyof ChartTypeOptions, value: string) => {
+    const parsed = parseFloat(value);
+    setChartTypeOptions(prev => ({ ...prev, [option]: parsed > 0 ? parsed : undefined }));
+  };
+
   const toggleVolume = () => {
     setShowVolume(prev => !prev);
   };
 
+  // Linear -> log -> percent -> linear
   const togglePriceScale = () => {
-    setPriceScale(prev => prev === 'linear' ? 'logarithmic' : 'linear');
+    setPriceScale(prev => NEXT_PRICE_SCALE[prev]);
+  };
+
+  const addComparison = (symbol: string) => {
+    const normalized = symbol.toUpperCase().trim();
+    setComparePickerOpen(false);
+    if (!normalized || normalized === currentSymbol.toUpperCase() || comparisons.includes(normalized)) return;
+
+    if (comparisons.length >= MAX_COMPARISONS) {
+      showToast({ title: 'Too many comparisons', message: `A chart can compare up to ${MAX_COMPARISONS} symbols.`, variant: 'warning' });
+      return;
+    }
+    setComparisons(prev => [...prev, normalized]);
+  };
+
+  const removeComparison = (symbol: string) => {
+    setComparisons(prev => prev.filter(s => s !== symbol));
   };
 
   // State for inline text editing
@@ -688,8 +734,34 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     position: null
   });
 
+  // Point a drawing's alert at the drawing's current level and watch it again
+  const syncAlertToDrawing = useCallback((drawing: Drawing) => {
+    if (!drawing.alert || !isAlertableDrawing(drawing)) return;
+
+    updatePriceAlert({
+      alertId: drawing.alert.alertId,
+      updates: { ...getDrawingAlertLevel(drawing), isActive: true }
+    });
+    setDrawingState(prev => ({
+      ...prev,
+      drawings: prev.drawings.map(d =>
+        d.id === drawing.id && d.alert ? { ...d, alert: { ...d.alert, isActive: true } } : d
+      )
+    }));
+  }, [updatePriceAlert]);
+
+  // Add a change to the undo history; changes that leave the drawings as they were are skipped
+  const recordDrawingChange = useCallback((label: string, before: Drawing[], after: Drawing[]) => {
+    setDrawingHistory(prev => recordDrawingCommand(prev, createDrawingCommand(label, before, after)));
+  }, []);
+
   // Mouse event handlers for drawing and selection
   const handleChartMouseDown = useCallback((event: MouseEvent) => {
+    setChartMenu(null);
+
+    // Right clicks open the chart context menu instead
+    if (event.button !== 0) return;
+
     // Don't process clicks when text editing is active
     if (textEditState.isEditing) {
       console.log('🚫 Ignoring click - text editing active');
@@ -713,8 +785,34 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       return;
     }
 
+    // Order lines take priority over drawings: start dragging the order to a new price
+    if (drawingState.activeTool === 'none') {
+      const orderLine = findOrderLineAtPoint(orderLines, canvasPoint, converter);
+      if (orderLine) {
+        orderDragRef.current = orderLine;
+        setOrderDrag({ line: orderLine, price: orderLine.price });
+        return;
+      }
+    }
+
     // Handle selection mode (Select tool)
     if (drawingState.activeTool === 'none') {
+      // A handle of the selected drawing drags just that point
+      const selectedDrawing = drawingState.drawings.find(d => d.id === drawingState.selectedDrawingId);
+      const handleIndex = selectedDrawing ? findDrawingHandle(selectedDrawing, canvasPoint, converter) : null;
+      if (selectedDrawing && handleIndex !== null && !event.shiftKey) {
+        const chartPoint = converter.canvasToChart(canvasPoint);
+        dragStartDrawingsRef.current = [selectedDrawing];
+        setDrawingState(prev => ({
+          ...prev,
+          isDragging: true,
+          dragHandleIndex: handleIndex,
+          dragStartPoint: chartPoint,
+          dragOffset: calculateDragOffset(chartPoint, selectedDrawing)
+        }));
+        return;
+      }
+
       console.log('🎯 SELECTION MODE - Click at:', canvasPoint);
       console.log('🎯 Available drawings:', drawingState.drawings.length);
       console.log('🎯 Drawings list:', drawingState.drawings);
@@ -726,17 +824,34 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       if (clickedDrawing) {
         const chartPoint = converter.canvasToChart(canvasPoint);
         
-        // If clicking on already selected drawing, start dragging
-        if (clickedDrawing.selected && drawingState.selectedDrawingId === clickedDrawing.id) {
-          console.log('🏃 Starting drag for selected drawing');
-          const dragOffset = calculateDragOffset(chartPoint, clickedDrawing);
-          
-          setDrawingState(prev => ({
-            ...prev,
-            isDragging: true,
-            dragStartPoint: chartPoint,
-            dragOffset
-          }));
+        if (event.shiftKey) {
+          // Shift+click adds the drawing to the selection, or takes it out
+          const selected = !clickedDrawing.selected;
+          setDrawingState(prev => {
+            const drawings = prev.drawings.map(d => d.id === clickedDrawing.id ? { ...d, selected } : d);
+            return {
+              ...prev,
+              drawings,
+              selectedDrawingId: selected ? clickedDrawing.id : drawings.filter(d => d.selected).pop()?.id ?? null
+            };
+          });
+        } else if (clickedDrawing.selected) {
+          // Dragging a selected drawing moves every selected drawing that isn't locked
+          const movingDrawings = drawingState.drawings.filter(d => d.selected && !d.locked);
+          if (movingDrawings.length > 0) {
+            console.log('🏃 Starting drag for selected drawings:', movingDrawings.length);
+            const dragOffset = calculateDragOffset(chartPoint, clickedDrawing);
+            dragStartDrawingsRef.current = movingDrawings;
+
+            setDrawingState(prev => ({
+              ...prev,
+              selectedDrawingId: clickedDrawing.id,
+              isDragging: true,
+              dragHandleIndex: null,
+              dragStartPoint: chartPoint,
+              dragOffset
+            }));
+          }
         } else {
           console.log('✅ Selecting drawing:', clickedDrawing.id);
           // Select the clicked drawing
@@ -759,6 +874,11 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             position: { x: canvasPoint.x, y: canvasPoint.y }
           });
         }
+      } else if (event.shiftKey) {
+        // Shift+drag on empty space selects the drawings inside the box
+        const box = { start: canvasPoint, end: canvasPoint };
+        selectionBoxRef.current = box;
+        setSelectionBox(box);
       } else {
         console.log('❌ Deselecting all drawings');
         // Clicked empty space - deselect all
@@ -771,15 +891,17 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       return;
     }
 
+    // A drawing in progress places its next point on mouse up
+    if (drawingState.isDrawing && drawingState.currentDrawing) return;
+
     // Handle drawing mode
     const chartPoint = converter.canvasToChart(canvasPoint);
-    const drawingId = `drawing-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const drawingId = createDrawingId();
     
     // Handle different tool types
-    const isTwoPointTool = drawingState.activeTool === 'trendline' || drawingState.activeTool === 'rectangle';
-    const isSinglePointTool = drawingState.activeTool === 'horizontal-line' || 
-                              drawingState.activeTool === 'vertical-line' || 
-                              drawingState.activeTool === 'text';
+    const pointCount = DRAWING_POINT_COUNTS[drawingState.activeTool];
+    const isMultiPointTool = pointCount > 1;
+    const isSinglePointTool = pointCount === 1;
     
     if (drawingState.activeTool === 'text') {
       // For text tool, create the drawing and immediately enter edit mode
@@ -818,6 +940,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         selected: false
       } as Drawing;
       
+      recordDrawingChange('drawing', [], [completedDrawing]);
       setDrawingState(prev => ({
         ...prev,
         drawings: [...prev.drawings.map(d => ({ ...d, selected: false })), completedDrawing],
@@ -826,15 +949,15 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         currentDrawing: null,
         selectedDrawingId: null
       }));
-    } else if (isTwoPointTool) {
-      // Two-point tools: Start drawing mode
+    } else if (isMultiPointTool) {
+      // Multi-point tools: Start drawing mode; the last point follows the mouse until placed
       setDrawingState(prev => ({
         ...prev,
         isDrawing: true,
         currentDrawing: {
           id: drawingId,
           type: prev.activeTool,
-          points: [chartPoint],
+          points: [chartPoint, chartPoint],
           style: DEFAULT_DRAWING_STYLES[prev.activeTool] as DrawingStyle
         },
         // Clear selections when starting new drawing
@@ -842,7 +965,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         drawings: prev.drawings.map(d => ({ ...d, selected: false }))
       }));
     }
-  }, [drawingState.activeTool, drawingState.drawings, textEditState.isEditing]);
+  }, [drawingState.activeTool, drawingState.drawings, drawingState.selectedDrawingId, drawingState.isDrawing, drawingState.currentDrawing, textEditState.isEditing, orderLines, recordDrawingChange]);
 
   const handleChartMouseMove = useCallback((event: MouseEvent) => {
     if (!mainChartRef.current) return;
@@ -851,71 +974,145 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     const canvasPoint = converter.getCanvasPosition(event);
     const chartPoint = converter.canvasToChart(canvasPoint);
 
-    // Handle dragging a selected drawing
-    if (drawingState.isDragging && drawingState.selectedDrawingId && drawingState.dragOffset) {
-      console.log('🏃 Dragging drawing');
-      const newPosition = {
-        x: chartPoint.x + drawingState.dragOffset.x,
-        y: chartPoint.y + drawingState.dragOffset.y
+    if (orderDrag) {
+      const moved = dragOrderLine(orderDrag, chartPoint.y);
+      if (moved !== orderDrag) {
+        setOrderDrag(moved);
+      }
+      return;
+    }
+
+    if (selectionBoxRef.current) {
+      const box = { ...selectionBoxRef.current, end: canvasPoint };
+      selectionBoxRef.current = box;
+      setSelectionBox(box);
+      return;
+    }
+
+    // Dragging one point of the selected drawing by its handle
+    if (drawingState.isDragging && drawingState.selectedDrawingId && drawingState.dragHandleIndex != null) {
+      const handleIndex = drawingState.dragHandleIndex;
+      setDrawingState(prev => ({
+        ...prev,
+        drawings: prev.drawings.map(d =>
+          d.id === prev.selectedDrawingId ? moveDrawingPoint(d, handleIndex, chartPoint) : d
+        )
+      }));
+      return;
+    }
+
+    // Handle dragging the selected drawings, moving each by the distance from where the drag started
+    if (drawingState.isDragging && drawingState.dragStartPoint) {
+      console.log('🏃 Dragging drawings');
+      const offset = {
+        x: chartPoint.x - drawingState.dragStartPoint.x,
+        y: chartPoint.y - drawingState.dragStartPoint.y
       };
+      const movedDrawings = new Map(
+        dragStartDrawingsRef.current.map(d => [d.id, moveDrawing(d, offset)])
+      );
       
-      const draggedDrawing = drawingState.drawings.find(d => d.id === drawingState.selectedDrawingId);
-      if (draggedDrawing) {
-        const offset = {
-          x: newPosition.x - draggedDrawing.points[0].x,
-          y: newPosition.y - draggedDrawing.points[0].y
-        };
-        
-        const movedDrawing = moveDrawing(draggedDrawing, offset);
-        
-        setDrawingState(prev => ({
-          ...prev,
-          drawings: prev.drawings.map(d => 
-            d.id === prev.selectedDrawingId ? movedDrawing : d
-          )
-        }));
-      }
+      setDrawingState(prev => ({
+        ...prev,
+        drawings: prev.drawings.map(d => movedDrawings.get(d.id) ?? d)
+      }));
       return;
     }
 
-    // Handle drawing mode for two-point tools
+    // Handle drawing mode for multi-point tools: the point being placed follows the mouse
     if (drawingState.isDrawing && drawingState.currentDrawing) {
-      // Update current drawing for two-point tools
-      const isTwoPointTool = drawingState.currentDrawing.type === 'trendline' || 
-                            drawingState.currentDrawing.type === 'rectangle';
-      
-      if (isTwoPointTool) {
-        setDrawingState(prev => ({
-          ...prev,
-          currentDrawing: prev.currentDrawing ? {
-            ...prev.currentDrawing,
-            points: [prev.currentDrawing.points[0], chartPoint]
-          } : null
-        }));
-      }
+      setDrawingState(prev => ({
+        ...prev,
+        currentDrawing: prev.currentDrawing ? {
+          ...prev.currentDrawing,
+          points: [...prev.currentDrawing.points.slice(0, -1), chartPoint]
+        } : null
+      }));
     }
-  }, [drawingState.isDrawing, drawingState.currentDrawing, drawingState.isDragging, drawingState.selectedDrawingId, drawingState.dragOffset, drawingState.drawings]);
+  }, [drawingState.isDrawing, drawingState.currentDrawing, drawingState.isDragging, drawingState.selectedDrawingId, drawingState.dragStartPoint, drawingState.dragHandleIndex, orderDrag]);
 
   const handleChartMouseUp = useCallback((_event: MouseEvent) => {
     if (!mainChartRef.current) return;
 
+    // Dropping an order line asks for confirmation before replacing the order
+    if (orderDrag) {
+      const dropped = dropOrderLine(orderDrag);
+      if (dropped) {
+        setPendingReplace(dropped);
+      }
+      orderDragRef.current = null;
+      setOrderDrag(null);
+      return;
+    }
+
+    // Select the drawings inside the rubber band, adding them to the selection
+    if (selectionBoxRef.current) {
+      const { start, end } = selectionBoxRef.current;
+      const converter = new CoordinateConverter(mainChartRef.current);
+      const boxedIds = new Set(findDrawingsInBox(drawingState.drawings, start, end, converter).map(d => d.id));
+      selectionBoxRef.current = null;
+      setSelectionBox(null);
+
+      if (boxedIds.size > 0) {
+        setDrawingState(prev => {
+          const drawings = prev.drawings.map(d => boxedIds.has(d.id) ? { ...d, selected: true } : d);
+          return { ...prev, drawings, selectedDrawingId: drawings.filter(d => d.selected).pop()?.id ?? null };
+        });
+      }
+      return;
+    }
+
     // End dragging if in progress
     if (drawingState.isDragging) {
       console.log('🛑 Ending drag');
+      const startDrawings = dragStartDrawingsRef.current;
+      const draggedDrawings = startDrawings.flatMap(start => {
+        const dragged = drawingState.drawings.find(d => d.id === start.id);
+        return dragged ? [dragged] : [];
+      });
+      draggedDrawings.forEach(dragged => {
+        if (dragged.alert && !startDrawings.includes(dragged)) {
+          syncAlertToDrawing(dragged);
+        }
+      });
+      recordDrawingChange(drawingState.dragHandleIndex != null ? 'reshape' : 'move', startDrawings, draggedDrawings);
+      dragStartDrawingsRef.current = [];
+
       setDrawingState(prev => ({
         ...prev,
         isDragging: false,
+        dragHandleIndex: null,
         dragStartPoint: null,
         dragOffset: null
       }));
       return;
     }
 
-    // Complete drawing if in progress
+    // Place the point being drawn, completing the drawing once it has all its points
     if (drawingState.isDrawing && drawingState.currentDrawing) {
-      // Complete the two-point drawing and persist it
+      const { points, type } = drawingState.currentDrawing;
+      const converter = new CoordinateConverter(mainChartRef.current);
+      const placed = converter.chartToCanvas(points[points.length - 1]);
+      const previous = converter.chartToCanvas(points[points.length - 2]);
+
+      // A click without a drag: wait for the next click to place the point
+      if (converter.calculateDistance(placed, previous) < 3) return;
+
+      if (points.length < DRAWING_POINT_COUNTS[type as Exclude<DrawingTool, 'none'>]) {
+        setDrawingState(prev => ({
+          ...prev,
+          currentDrawing: prev.currentDrawing ? {
+            ...prev.currentDrawing,
+            points: [...prev.currentDrawing.points, prev.currentDrawing.points[prev.currentDrawing.points.length - 1]]
+          } : null
+        }));
+        return;
+      }
+
+      // Complete the drawing and persist it
       const completedDrawing = { ...drawingState.currentDrawing } as Drawing;
       
+      recordDrawingChange('drawing', [], [completedDrawing]);
       setDrawingState(prev => ({
         ...prev,
         drawings: [...prev.drawings, completedDrawing],
@@ -924,7 +1121,212 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         // Tool remains active (activeTool unchanged) for creating more drawings
       }));
     }
-  }, [drawingState.isDrawing, drawingState.currentDrawing, drawingState.isDragging]);
+  }, [drawingState.isDrawing, drawingState.currentDrawing, drawingState.isDragging, drawingState.dragHandleIndex, drawingState.drawings, syncAlertToDrawing, recordDrawingChange, orderDrag]);
+
+  const handleChartContextMenu = useCallback((event: MouseEvent) => {
+    if (!mainChartRef.current || drawingState.activeTool !== 'none') return;
+
+    const converter = new CoordinateConverter(mainChartRef.current);
+    const canvasPoint = converter.getCanvasPosition(event);
+    if (!converter.isPointInChart(canvasPoint)) return;
+
+    const orderLine = findOrderLineAtPoint(orderLines, canvasPoint, converter);
+    const drawing = orderLine
+      ? null
+      : findDrawingAtPoint(drawingState.drawings, canvasPoint, converter);
+
+    event.preventDefault();
+    setChartMenu({
+      position: canvasPoint,
+      price: converter.canvasToChart(canvasPoint).y,
+      drawingId: drawing?.id ?? null,
+      orderLine,
+    });
+  }, [drawingState.activeTool, drawingState.drawings, orderLines]);
+
+  const handleConfirmReplace = useCallback(() => {
+    if (!pendingReplace) return;
+    const { line, price } = pendingReplace;
+    setPendingReplace(null);
+    setReplacingOrder(pendingReplace);
+
+    replaceOrder.mutate(getOrderLineReplace(pendingReplace), {
+      onSuccess: () => {
+        showToast({ title: 'Order replaced', message: describeOrderLine(line, price), variant: 'success', duration: 3000 });
+      },
+      onError: (err) => {
+        console.error('❌ [TradingChart] Failed to replace order:', err);
+        showToast({ title: 'Could not move order', message: 'The order is unchanged.', variant: 'error' });
+      },
+      onSettled: () => setReplacingOrder(null),
+    });
+  }, [pendingReplace, replaceOrder, showToast]);
+
+  const handleConfirmCancel = useCallback(() => {
+    if (!pendingCancel) return;
+    const line = pendingCancel;
+    setPendingCancel(null);
+
+    cancelOrder.mutate(line.orderId, {
+      onSuccess: () => {
+        showToast({ title: 'Order cancelled', message: describeOrderLine(line), variant: 'success', duration: 3000 });
+      },
+      onError: (err) => {
+        console.error('❌ [TradingChart] Failed to cancel order:', err);
+        showToast({ title: 'Could not cancel order', message: 'Please try again.', variant: 'error' });
+      },
+    });
+  }, [pendingCancel, cancelOrder, showToast]);
+
+  const handleCreateDrawingAlert = useCallback(async (drawingId: string) => {
+    setChartMenu(null);
+    const drawing = drawingState.drawings.find(d => d.id === drawingId);
+    if (!drawing || !isAlertableDrawing(drawing)) return;
+
+    try {
+      const alert = await createPriceAlert(createDrawingAlertInput(currentSymbol, drawing));
+      setDrawingState(prev => ({
+        ...prev,
+        drawings: prev.drawings.map(d =>
+          d.id === drawingId ? { ...d, alert: { alertId: alert.id, isActive: true } } : d
+        )
+      }));
+      showToast({
+        title: `${alert.symbol} alert created`,
+        message: describeAlertCondition(alert),
+        variant: 'success',
+        duration: 3000
+      });
+    } catch (err) {
+      console.error('❌ [TradingChart] Failed to create drawing alert:', err);
+      showToast({ title: 'Could not create alert', message: 'Please try again.', variant: 'error' });
+    }
+  }, [drawingState.drawings, currentSymbol, createPriceAlert, showToast]);
+
+  const handleRemoveDrawingAlert = useCallback((drawingId: string) => {
+    setChartMenu(null);
+    const drawing = drawingState.drawings.find(d => d.id === drawingId);
+    if (!drawing?.alert) return;
+
+    deletePriceAlert(drawing.alert.alertId);
+    setDrawingState(prev => ({
+      ...prev,
+      drawings: prev.drawings.map(d => d.id === drawingId ? { ...d, alert: undefined } : d)
+    }));
+  }, [drawingState.drawings, deletePriceAlert]);
+
+  // Lock or hide one drawing; hidden drawings drop out of the selection
+  const handleSetDrawingFlag = useCallback((drawingId: string, flag: 'locked' | 'hidden', value: boolean) => {
+    setChartMenu(null);
+    const drawing = drawingState.drawings.find(d => d.id === drawingId);
+    if (!drawing) return;
+
+    const updated = {
+      ...drawing,
+      [flag]: value || undefined,
+      selected: flag === 'hidden' && value ? false : drawing.selected
+    } as Drawing;
+    recordDrawingChange(flag === 'locked' ? (value ? 'lock' : 'unlock') : 'hide', [drawing], [updated]);
+    setDrawingState(prev => ({
+      ...prev,
+      drawings: prev.drawings.map(d => d.id === drawingId ? updated : d),
+      selectedDrawingId: updated.selected ? prev.selectedDrawingId : prev.drawings.filter(d => d.selected && d.id !== drawingId).pop()?.id ?? null
+    }));
+  }, [drawingState.drawings, recordDrawingChange]);
+
+  const handleShowHiddenDrawings = useCallback(() => {
+    setChartMenu(null);
+    const hiddenDrawings = drawingState.drawings.filter(d => d.hidden);
+    const shown = new Map(hiddenDrawings.map(d => [d.id, { ...d, hidden: undefined } as Drawing]));
+
+    recordDrawingChange('show hidden', hiddenDrawings, [...shown.values()]);
+    setDrawingState(prev => ({
+      ...prev,
+      drawings: prev.drawings.map(d => shown.get(d.id) ?? d)
+    }));
+  }, [drawingState.drawings, recordDrawingChange]);
+
+  // Undo or redo the latest drawing change. Alerts follow the drawings that back them:
+  // removed drawings take their alert along, and moved ones point it at the restored level.
+  const handleHistoryStep = useCallback((direction: 'undo' | 'redo') => {
+    const stack = direction === 'undo' ? drawingHistory.undo : drawingHistory.redo;
+    const command = stack[stack.length - 1];
+    if (!command || drawingState.isDrawing || drawingState.isDragging || textEditState.isEditing) return;
+
+    const drawings = applyDrawingCommand(drawingState.drawings, command, direction);
+    const current = new Map(drawingState.drawings.map(d => [d.id, d]));
+    const remainingIds = new Set(drawings.map(d => d.id));
+    drawingState.drawings.forEach(d => {
+      if (d.alert && !remainingIds.has(d.id)) deletePriceAlert(d.alert.alertId);
+    });
+
+    const restored = drawings.filter(d => d.selected);
+    setDrawingHistory(prev => direction === 'undo' ? undoDrawingHistory(prev) : redoDrawingHistory(prev));
+    setDrawingState(prev => ({
+      ...prev,
+      drawings,
+      selectedDrawingId: restored[restored.length - 1]?.id ?? null
+    }));
+    restored.forEach(d => {
+      const previous = current.get(d.id);
+      if (d.alert && previous && JSON.stringify(previous.points) !== JSON.stringify(d.points)) {
+        syncAlertToDrawing(d);
+      }
+    });
+  }, [drawingHistory, drawingState.drawings, drawingState.isDrawing, drawingState.isDragging, textEditState.isEditing, deletePriceAlert, syncAlertToDrawing]);
+
+  // Paste copied drawings, from this chart or any other, onto the current symbol
+  const handlePasteDrawings = useCallback(() => {
+    const pasted = pasteDrawings().map(d => ({ ...d, selected: true }) as Drawing);
+    if (pasted.length === 0) return;
+
+    recordDrawingChange('paste', [], pasted);
+    setDrawingState(prev => ({
+      ...prev,
+      drawings: [...prev.drawings.map(d => d.selected ? { ...d, selected: false } : d), ...pasted],
+      selectedDrawingId: pasted[pasted.length - 1].id
+    }));
+  }, [recordDrawingChange]);
+
+  // Export the chart as shown: an image of every pane, the visible bars as CSV, or a read-only link
+  const handleExport = useCallback(async (format: ChartExportFormat) => {
+    try {
+      if (format === 'png') {
+        const canvases = paneGroup.getCharts().map(chart => chart.canvas);
+        if (canvases.length === 0) return;
+
+        const background = containerRef.current ? getComputedStyle(containerRef.current).backgroundColor : '#1e1e1e';
+        const image = await renderChartImage(canvases, background);
+        downloadBlob(image, getChartExportFileName(currentSymbol, interval, 'png'));
+      } else if (format === 'csv') {
+        const xScale = mainChartRef.current?.scales.x;
+        const exported = indicators.flatMap(instance => {
+          const cached = indicatorCacheRef.current.get(instance.id);
+          return cached ? [{ name: indicatorRegistry.describe(instance), result: cached.result }] : [];
+        });
+        const csv = buildChartCsv(displayData, exported, xScale ? { min: xScale.min, max: xScale.max } : undefined);
+        downloadBlob(new Blob([csv], { type: 'text/csv' }), getChartExportFileName(currentSymbol, interval, 'csv'));
+      } else {
+        const { chart, omittedScripts } = toSharedChart(
+          currentSymbol,
+          { period: timeframe, interval, chartType, chartTypeOptions, showVolume, priceScale, indicators, paneHeights, comparisons },
+          drawingState.drawings
+        );
+        await navigator.clipboard.writeText(await createSharedChartLink(chart));
+        showToast({
+          title: 'Chart link copied',
+          message: omittedScripts > 0
+            ? `Signed-in users can open it read-only. Script indicators (${omittedScripts}) are not included.`
+            : 'Signed-in users can open it read-only.',
+          variant: 'success',
+          duration: 4000
+        });
+      }
+    } catch (err) {
+      console.error('❌ Chart export failed:', err);
+      showToast({ title: 'Could not export chart', message: 'Please try again.', variant: 'error' });
+    }
+  }, [paneGroup, currentSymbol, interval, indicators, displayData, timeframe, chartType, chartTypeOptions, showVolume, priceScale, paneHeights, comparisons, drawingState.drawings, showToast]);
 
   // Drawing tool handlers
   const handleToolSelect = useCallback((tool: DrawingTool) => {
@@ -941,7 +1343,41 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     // Don't handle keys if we're editing text (let the text editor handle it)
     if (textEditState.isEditing) return;
+    // ...or typing anywhere else on the page
+    if ((event.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
     
+    if (event.key === 'Escape') {
+      setChartMenu(null);
+    }
+
+    // Undo/redo and copy/paste act on the chart that was clicked last
+    const modifier = event.ctrlKey || event.metaKey;
+    const key = event.key.toLowerCase();
+    if (modifier && chartActiveRef.current) {
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        handleHistoryStep(key === 'y' || event.shiftKey ? 'redo' : 'undo');
+        return;
+      }
+      if (key === 'c') {
+        const selectedDrawings = drawingState.drawings.filter(d => d.selected);
+        if (selectedDrawings.length > 0) {
+          copyDrawings(selectedDrawings);
+          showToast({
+            title: `Copied ${selectedDrawings.length} drawing${selectedDrawings.length === 1 ? '' : 's'}`,
+            message: 'Paste with Ctrl+V on any chart.',
+            duration: 2000
+          });
+        }
+        return;
+      }
+      if (key === 'v' && hasCopiedDrawings()) {
+        event.preventDefault();
+        handlePasteDrawings();
+        return;
+      }
+    }
+
     // ESC key - exit drawing mode
     if (event.key === 'Escape' && drawingState.activeTool !== 'none') {
       // Cancel current drawing and switch to select mode
@@ -955,18 +1391,24 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       }));
     }
     
-    // Delete/Backspace key - remove selected drawing
-    if ((event.key === 'Delete' || event.key === 'Backspace') && drawingState.selectedDrawingId) {
+    // Delete/Backspace key - remove selected drawings
+    const selectedDrawings = drawingState.drawings.filter(d => d.selected);
+    if ((event.key === 'Delete' || event.key === 'Backspace') && selectedDrawings.length > 0) {
       event.preventDefault(); // Prevent browser back navigation on backspace
-      console.log('🗑️ Deleting drawing:', drawingState.selectedDrawingId);
+      console.log('🗑️ Deleting drawings:', selectedDrawings.map(d => d.id));
+
+      selectedDrawings.forEach(d => {
+        if (d.alert) deletePriceAlert(d.alert.alertId);
+      });
       
+      recordDrawingChange('delete', selectedDrawings, []);
       setDrawingState(prev => ({
         ...prev,
-        drawings: prev.drawings.filter(d => d.id !== prev.selectedDrawingId),
+        drawings: prev.drawings.filter(d => !d.selected),
         selectedDrawingId: null
       }));
     }
-  }, [drawingState.activeTool, drawingState.selectedDrawingId, textEditState.isEditing]);
+  }, [drawingState.activeTool, drawingState.drawings, textEditState.isEditing, deletePriceAlert, handleHistoryStep, handlePasteDrawings, recordDrawingChange, showToast]);
 
   // Debug: Log drawing state changes
   useEffect(() => {
@@ -978,17 +1420,28 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     });
   }, [drawingState]);
   
+  // Track whether the last click was on this chart
+  useEffect(() => {
+    const handleDocumentMouseDown = (event: MouseEvent) => {
+      chartActiveRef.current = !!containerRef.current?.contains(event.target as Node);
+    };
+    document.addEventListener('mousedown', handleDocumentMouseDown, true);
+    return () => document.removeEventListener('mousedown', handleDocumentMouseDown, true);
+  }, []);
+
   // Add keyboard event listener
   useEffect(() => {
+    if (readOnly) return;
     document.addEventListener('keydown', handleKeyDown);
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [handleKeyDown]);
+  }, [handleKeyDown, readOnly]);
 
   // Attach mouse event listeners to canvas (moved here after handlers are defined)
+  // A read-only chart still pans, zooms and shows the crosshair, which Chart.js plugins handle
   useEffect(() => {
-    if (!mainChartRef.current?.canvas) return;
+    if (readOnly || !mainChartRef.current?.canvas) return;
 
     const canvas = mainChartRef.current.canvas;
     console.log('🎮 Attaching mouse event listeners to canvas');
@@ -996,20 +1449,26 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     canvas.addEventListener('mousedown', handleChartMouseDown);
     canvas.addEventListener('mousemove', handleChartMouseMove);
     canvas.addEventListener('mouseup', handleChartMouseUp);
+    canvas.addEventListener('contextmenu', handleChartContextMenu);
 
     return () => {
       console.log('🎮 Removing mouse event listeners from canvas');
       canvas.removeEventListener('mousedown', handleChartMouseDown);
       canvas.removeEventListener('mousemove', handleChartMouseMove);
       canvas.removeEventListener('mouseup', handleChartMouseUp);
+      canvas.removeEventListener('contextmenu', handleChartContextMenu);
     };
-  }, [handleChartMouseDown, handleChartMouseMove, handleChartMouseUp]);
+  }, [handleChartMouseDown, handleChartMouseMove, handleChartMouseUp, handleChartContextMenu, readOnly]);
 
   const handleClearAllDrawings = useCallback(() => {
     if (drawingState.drawings.length === 0) return;
     
     // Add confirmation for clearing all drawings
     if (window.confirm(`Clear all ${drawingState.drawings.length} drawings?`)) {
+      drawingState.drawings.forEach(d => {
+        if (d.alert) deletePriceAlert(d.alert.alertId);
+      });
+      recordDrawingChange('clear all', drawingState.drawings, []);
       setDrawingState(prev => ({
         ...prev,
         drawings: [],
@@ -1018,29 +1477,51 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         currentDrawing: null
       }));
     }
-  }, [drawingState.drawings.length]);
-
+  }, [drawingState.drawings, deletePriceAlert, recordDrawingChange]);
+
+
+  // Live ticks only replace or append the last bar, so results are updated from there. Scripts
+  // are recalculated whenever the registry reports new results (indicatorsVersion).
+  const indicatorUpdate = useMemo(() => updateIndicatorCache(
+    indicatorCacheRef.current,
+    indicators,
+    displayData,
+    indicatorRegistry,
+    instance => JSON.stringify([
+      instance.indicator,
+      instance.parameters,
+      instance.indicator.startsWith(SCRIPT_INDICATOR_PREFIX) ? indicatorsVersion : 0,
+    ])
+  ), [displayData, indicators, indicatorsVersion]);
+  const indicatorResults = indicatorUpdate.cache;
+
+  // The next update starts from these results once they are on screen
+  useEffect(() => {
+    indicatorCacheRef.current = indicatorResults;
+  }, [indicatorResults]);
 
-  // Prepare chart data with indicators
-  const data: ChartData<any> = useMemo(() => {
+  // Prepare chart data with overlay indicators; each oscillator gets a pane of its own
+  const { data, oscillatorPanes, indicatorErrors } = useMemo(() => {
     const datasets: any[] = [];
     const additionalScales: Record<string, any> = {};
+    const panes: OscillatorPane[] = [];
+    const errors: Record<string, string> = {};
 
     // Main price dataset - changes based on chart type
-    if (chartType === 'candlestick') {
+    if (renderStyle === 'candlestick') {
       // Create candlestick using floating bars for bodies and lines for wicks
       datasets.push({
         id: `${currentSymbol}-candlestick-bodies`,
         label: `${currentSymbol} Bodies`,
         type: 'bar',
-        data: chartData.map(d => ({
+        data: displayData.map(d => ({
           x: d.timestamp,
           y: [Math.min(d.open, d.close), Math.max(d.open, d.close)]
         })),
-        backgroundColor: chartData.map(d => 
+        backgroundColor: displayData.map(d => 
           d.close >= d.open ? 'rgba(38, 166, 154, 0.8)' : 'rgba(239, 83, 80, 0.8)'
         ),
-        borderColor: chartData.map(d => 
+        borderColor: displayData.map(d => 
           d.close >= d.open ? '#26a69a' : '#ef5350'
         ),
         borderWidth: 1,
@@ -1054,7 +1535,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         id: `${currentSymbol}-candlestick-wicks`,
         label: `${currentSymbol} Wicks`,
         type: 'line',
-        data: chartData.map(d => ({
+        data: displayData.map(d => ({
           x: d.timestamp,
           y: d.high
         })),
@@ -1067,7 +1548,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         segment: {
           borderColor: (ctx: any) => {
             const index = ctx.p0DataIndex;
-            const candle = chartData[index];
+            const candle = displayData[index];
             return candle?.close >= candle?.open ? '#26a69a' : '#ef5350';
           }
         },
@@ -1078,7 +1559,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         id: `${currentSymbol}-candlestick-low-wicks`,
         label: `${currentSymbol} Low Wicks`,
         type: 'line',
-        data: chartData.map(d => ({
+        data: displayData.map(d => ({
           x: d.timestamp,
           y: d.low
         })),
@@ -1089,20 +1570,20 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         pointHoverRadius: 0,
         tension: 0,
       });
-    } else if (chartType === 'ohlc') {
+    } else if (renderStyle === 'ohlc') {
       // OHLC as line chart with high/low range
       datasets.push({
         id: `${currentSymbol}-ohlc-range`,
         label: `${currentSymbol} Range`,
         type: 'bar',
-        data: chartData.map(d => ({
+        data: displayData.map(d => ({
           x: d.timestamp,
           y: [d.low, d.high]
         })),
-        backgroundColor: chartData.map(d => 
+        backgroundColor: displayData.map(d => 
           d.close >= d.open ? 'rgba(38, 166, 154, 0.3)' : 'rgba(239, 83, 80, 0.3)'
         ),
-        borderColor: chartData.map(d => 
+        borderColor: displayData.map(d => 
           d.close >= d.open ? '#26a69a' : '#ef5350'
         ),
         borderWidth: 1,
@@ -1114,7 +1595,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         id: `${currentSymbol}-ohlc-close`,
         label: `${currentSymbol} Close`,
         type: 'line',
-        data: chartData.map(d => ({
+        data: displayData.map(d => ({
           x: d.timestamp,
           y: d.close
         })),
@@ -1122,92 +1603,155 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         backgroundColor: 'transparent',
         borderWidth: 2,
         pointRadius: 1,
-        pointBackgroundColor: chartData.map(d => 
+        pointBackgroundColor: displayData.map(d => 
           d.close >= d.open ? '#26a69a' : '#ef5350'
         ),
         tension: 0,
       });
     } else {
-      // Line chart
+      // Line chart; area fills below the line, baseline above and below the baseline price
       datasets.push({
         id: `${currentSymbol}-line`,
         label: currentSymbol,
         type: 'line',
-        data: chartData.map(d => ({
+        data: displayData.map(d => ({
           x: d.timestamp,
           y: d.close
         })),
         borderColor: 'rgb(75, 192, 192)',
-        backgroundColor: 'rgba(75, 192, 192, 0.1)',
+        backgroundColor: chartType === 'area' ? 'rgba(75, 192, 192, 0.25)' : 'rgba(75, 192, 192, 0.1)',
         borderWidth: 2,
         pointRadius: 0,
         pointHoverRadius: 4,
         tension: 0.1,
+        ...(chartType === 'area' && { fill: 'start' }),
+        ...(chartType === 'baseline' && baselinePrice !== undefined && {
+          fill: { target: { value: baselinePrice }, above: 'rgba(38, 166, 154, 0.2)', below: 'rgba(239, 83, 80, 0.2)' },
+          segment: {
+            borderColor: (ctx: ScriptableLineSegmentContext) => (ctx.p0.parsed.y + ctx.p1.parsed.y) / 2 >= baselinePrice ? '#26a69a' : '#ef5350'
+          }
+        }),
       });
+
+      if (chartType === 'baseline' && baselinePrice !== undefined && displayData.length > 0) {
+        datasets.push({
+          id: `${currentSymbol}-baseline`,
+          label: 'Baseline',
+          type: 'line',
+          data: [
+            { x: displayData[0].timestamp, y: baselinePrice },
+            { x: displayData[displayData.length - 1].timestamp, y: baselinePrice }
+          ],
+          borderColor: 'rgba(128, 128, 128, 0.8)',
+          borderDash: [4, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+          pointHoverRadius: 0,
+          tension: 0,
+        });
+      }
     }
 
     // Add indicators using the registry
-    selectedIndicators.forEach(indicatorId => {
+    indicators.forEach(instance => {
       try {
-        if (!chartData || chartData.length === 0) {
-          // Silently skip indicators when no data - this is normal during loading
-          return;
-        }
+        const error = indicatorUpdate.errors.get(instance.id);
+        if (error !== undefined) throw error;
+
+        // No result yet while bars are loading
+        const result = indicatorUpdate.cache.get(instance.id)?.result;
+        if (!result) return;
         
-        indicatorRegistry.enableIndicator(indicatorId);
-        // Use closePrices if needed for performance optimization
-        const enrichedData = chartData.map((d, i) => ({
-          ...d,
-          _closePrice: closePrices[i] // Add pre-calculated close price
+        // Add all datasets from this indicator
+        const styled = applyIndicatorStyle(result, instance.style);
+        const indicatorDatasets = styled.datasets.map((dataset, index) => ({
+          ...dataset,
+          type: dataset.type || 'line',
+          // Ensure unique identifier for each indicator dataset
+          _indicatorId: `${instance.id}-${index}`
         }));
-        const result = indicatorRegistry.calculateIndicator(indicatorId, enrichedData);
         
-        // Add all datasets from this indicator
-        if (result && result.datasets) {
-          result.datasets.forEach((dataset, index) => {
-            datasets.push({
-              ...dataset,
-              type: dataset.type || 'line',
-              // Ensure unique identifier for each indicator dataset
-              _indicatorId: `${indicatorId}-${index}`
-            });
-          });
+        if (indicatorRegistry.getIndicator(instance.indicator)?.category === 'oscillator') {
+          // Points carry Date x values, which the time scale accepts but Chart.js's types don't model
+          const paneData = { datasets: indicatorDatasets } as unknown as ChartData<'line'>;
+          panes.push({ instance, data: paneData, scales: result.scales ?? {} });
+          return;
         }
         
+        datasets.push(...indicatorDatasets);
         // Merge additional scales
-        if (result && result.scales) {
+        if (result.scales) {
           Object.assign(additionalScales, result.scales);
         }
       } catch (error) {
-        console.warn(`Failed to calculate indicator ${indicatorId}:`, error);
+        console.warn(`Failed to calculate indicator ${instance.id}:`, error);
+        errors[instance.id] = error instanceof ScriptError ? error.describe()
+          : error instanceof Error ? error.message : String(error);
       }
     });
 
-    // Volume is now handled in a separate chart below
-
-    const chartDatasets = {
+    const displayDatasets = {
       datasets
     };
     
     // Store additional scales in a closure variable since ChartData doesn't support it
-    (chartDatasets as any).additionalScales = additionalScales;
+    (displayDatasets as any).additionalScales = additionalScales;
     
     // Debug log for financial chart types
     if (chartType !== 'line') {
       console.log('Financial chart data:', {
         chartType,
-        datasetCount: chartDatasets.datasets.length,
-        firstDataset: chartDatasets.datasets[0],
-        firstDataPoint: chartDatasets.datasets[0]?.data?.[0]
+        datasetCount: displayDatasets.datasets.length,
+        firstDataset: displayDatasets.datasets[0],
+        firstDataPoint: displayDatasets.datasets[0]?.data?.[0]
       });
     }
     
-    return chartDatasets;
-  }, [chartData, selectedIndicators, currentSymbol, chartType]);
+    return { data: displayDatasets as ChartData<any>, oscillatorPanes: panes, indicatorErrors: errors };
+  }, [displayData, indicators, indicatorUpdate, currentSymbol, chartType, renderStyle, baselinePrice]);
+
+  // Comparison lines rebased to the first visible bar, plus the main symbol's change over the visible bars
+  const comparison = useMemo(() => {
+    const baseIndex = findBaseIndex(chartData, visibleRange?.min);
+    const lastIndex = findLastVisibleIndex(chartData, visibleRange?.max);
+    const basePrice = chartData[baseIndex]?.close;
+    const lastPrice = chartData[lastIndex]?.close;
+
+    const series = comparisons.flatMap((symbol, index) => comparisonBars[symbol]
+      ? [buildComparisonSeries(symbol, COMPARISON_COLORS[index], chartData, comparisonBars[symbol], baseIndex, lastIndex)]
+      : []);
+
+    return {
+      basePrice,
+      change: basePrice !== undefined && lastPrice !== undefined ? percentChange(lastPrice, basePrice) : null,
+      series
+    };
+  }, [chartData, comparisons, comparisonBars, visibleRange]);
+
+  const mainChartData = useMemo(() => comparison.series.length === 0 ? data : {
+    ...data,
+    datasets: [
+      ...data.datasets,
+      ...comparison.series.map(series => ({
+        id: `comparison-${series.symbol}`,
+        label: series.symbol,
+        type: 'line',
+        data: series.points,
+        borderColor: series.color,
+        backgroundColor: 'transparent',
+        borderWidth: 1.5,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        tension: 0,
+        spanGaps: true,
+        _comparison: true
+      }))
+    ]
+  } as typeof data, [data, comparison.series]);
 
   // Separate volume chart data
   const volumeData: ChartData<any> = useMemo(() => {
-    if (!showVolume || !chartData.length) {
+    if (!showVolume || !displayData.length) {
       return { datasets: [] };
     }
 
@@ -1215,46 +1759,83 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       datasets: [{
         id: `volume-dataset-${currentSymbol}`, // Unique dataset ID
         label: 'Volume',
-        data: chartData.map((d, index) => ({
+        data: displayData.map((d, index) => ({
           x: d.timestamp,
           y: d.volume,
           _id: `volume-bar-${currentSymbol}-${index}` // More specific ID to avoid conflicts
         })),
-        backgroundColor: chartData.map((d) => {
+        backgroundColor: displayData.map((d) => {
           return d.close >= d.open ? 'rgba(38, 166, 154, 0.8)' : 'rgba(239, 83, 80, 0.8)';
         }),
-        borderColor: chartData.map((d) => {
+        borderColor: displayData.map((d) => {
           return d.close >= d.open ? 'rgba(38, 166, 154, 1)' : 'rgba(239, 83, 80, 1)';
         }),
         borderWidth: 1,
       }]
     };
-  }, [chartData, showVolume]);
+  }, [displayData, showVolume]);
 
   // Calculate price range for auto-scaling
   const priceRange = useMemo(() => {
-    if (chartData.length === 0) return { min: undefined, max: undefined };
+    if (displayData.length === 0) return { min: undefined, max: undefined };
+
+    // Comparison lines share the price axis, so they stay in view too
+    const comparisonPrices = comparison.series.flatMap(series => series.points.flatMap(point => point.y === null ? [] : [point.y]));
     
-    if (chartType === 'candlestick' || chartType === 'ohlc') {
+    if (renderStyle !== 'line') {
       // For financial charts, use high/low prices
-      const minPrice = Math.min(...chartData.map(d => d.low));
-      const maxPrice = Math.max(...chartData.map(d => d.high));
+      const minPrice = Math.min(...displayData.map(d => d.low), ...comparisonPrices);
+      const maxPrice = Math.max(...displayData.map(d => d.high), ...comparisonPrices);
       return {
         min: minPrice * 0.98, // 2% padding below lowest low
         max: maxPrice * 1.02  // 2% padding above highest high
       };
     } else {
       // For line charts, use close prices
-      const minPrice = Math.min(...chartData.map(d => d.close));
-      const maxPrice = Math.max(...chartData.map(d => d.close));
+      const minPrice = Math.min(...displayData.map(d => d.close), ...comparisonPrices);
+      const maxPrice = Math.max(...displayData.map(d => d.close), ...comparisonPrices);
       return {
         min: minPrice * 0.98,
         max: maxPrice * 1.02
       };
     }
-  }, [chartData, chartType]);
+  }, [displayData, renderStyle, comparison.series]);
+
+  // Any pane panned or zoomed: bring the others along and remember the view
+  const handlePaneRangeChange = ({ chart }: { chart: ChartJS }) => {
+    paneGroup.syncRange(chart);
+    handleViewportChange(chart);
+  };
+
+  // Panes below the price chart, top to bottom; the time labels go under the last one
+  const lowerPaneIds = [
+    ...(showVolume && chartData.length > 0 ? [VOLUME_PANE_ID] : []),
+    ...oscillatorPanes.map(pane => pane.instance.id)
+  ];
+  const timeAxisPaneId = lowerPaneIds[lowerPaneIds.length - 1] ?? MAIN_PANE_ID;
+
+  const getTimeAxis = (paneId: string) => ({
+    type: 'time',
+    min: visibleRange?.min,
+    max: visibleRange?.max,
+    time: {
+      unit: 'day',
+      displayFormats: {
+        day: 'MMM dd'
+      }
+    },
+    grid: {
+      display: false
+    },
+    ticks: {
+      display: paneId === timeAxisPaneId
+    }
+  });
 
   // Chart options
+  // Keep the order line at its new price while the move is being confirmed or sent
+  const movingOrderLine = orderDrag ?? pendingReplace ?? replacingOrder;
+
   const options: ChartOptions<any> = {
     responsive: true,
     maintainAspectRatio: false,
@@ -1267,7 +1848,13 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         drawings: [
           ...drawingState.drawings,
           ...(drawingState.currentDrawing ? [drawingState.currentDrawing as Drawing] : [])
-        ]
+        ],
+        selectionBox
+      },
+      orderLines: {
+        lines: orderLines,
+        movingLineId: movingOrderLine?.line.id,
+        movingPrice: movingOrderLine?.price,
       },
       watermark: {
         text: currentSymbol,
@@ -1288,9 +1875,9 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         intersect: false,
         callbacks: {
           beforeBody: (tooltipItems: any[]) => {
-            if (chartType === 'candlestick' && tooltipItems.length > 0) {
+            if (renderStyle === 'candlestick' && tooltipItems.length > 0) {
               const index = tooltipItems[0].dataIndex;
-              const ohlc = chartData[index];
+              const ohlc = displayData[index];
               if (ohlc) {
                 return [
                   `Open: $${ohlc.open.toFixed(2)}`,
@@ -1306,7 +1893,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             const datasetLabel = context.dataset.label || '';
             
             // Skip candlestick component datasets in tooltip
-            if (chartType === 'candlestick' && (
+            if (renderStyle === 'candlestick' && (
               datasetLabel.includes('Bodies') || 
               datasetLabel.includes('Wicks') || 
               datasetLabel.includes('Low Wicks')
@@ -1317,19 +1904,25 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             // For volume bars
             if (context.dataset.label === 'Volume') {
               const value = context.parsed.y;
-              const formatted = value ? (value >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : 
-                                        value >= 1000 ? `${(value / 1000).toFixed(1)}K` : 
-                                        value.toLocaleString()) : 'N/A';
-              return `Volume: ${formatted}`;
+              return `Volume: ${value ? formatVolume(value) : 'N/A'}`;
+            }
+            
+            // Comparison lines are plotted in the main symbol's prices; show their own change
+            if (context.dataset._comparison) {
+              const change = context.raw?.change;
+              return typeof change === 'number' ? `${datasetLabel}: ${formatPercentChange(change)}` : '';
             }
             
             // For line charts and indicators
             const value = Array.isArray(context.parsed.y) ? context.parsed.y[1] : context.parsed.y;
-            return value !== null ? `${datasetLabel}: $${value.toFixed(2)}` : '';
+            if (value === null) return '';
+            return priceScale === 'percent' && comparison.basePrice
+              ? `${datasetLabel}: $${value.toFixed(2)} (${formatPercentChange(percentChange(value, comparison.basePrice))})`
+              : `${datasetLabel}: $${value.toFixed(2)}`;
           },
           filter: (tooltipItem: any) => {
             // Filter out candlestick component datasets from tooltip
-            if (chartType === 'candlestick') {
+            if (renderStyle === 'candlestick') {
               const label = tooltipItem.dataset.label || '';
               return !label.includes('Bodies') && !label.includes('Wicks') && !label.includes('Low Wicks');
             }
@@ -1346,36 +1939,22 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             enabled: true
           },
           mode: 'x',
-          onZoomComplete: ({ chart }: { chart: ChartJS }) => {
-            console.log('🖱️ Main chart zoom completed');
-            syncVolumeChart(chart);
-          }
+          onZoomComplete: handlePaneRangeChange
         },
         pan: {
           enabled: true,
           mode: 'x',
-          onPanComplete: ({ chart }: { chart: ChartJS }) => {
-            console.log('👆 Main chart pan completed');
-            syncVolumeChart(chart);
-          }
+          // Dragging an order line moves the order, and a selection box selects, not the chart
+          onPanStart: () => !orderDragRef.current && !selectionBoxRef.current,
+          onPanComplete: handlePaneRangeChange
         }
       }
     },
     scales: {
-      x: {
-        type: 'time',
-        time: {
-          unit: 'day',
-          displayFormats: {
-            day: 'MMM dd'
-          }
-        },
-        grid: {
-          display: false
-        }
-      },
+      x: getTimeAxis(MAIN_PANE_ID),
       y: {
-        type: priceScale,
+        // Percent mode keeps prices on a linear axis and labels them as change from the first visible bar
+        type: priceScale === 'logarithmic' ? 'logarithmic' : 'linear',
         position: 'right',
         min: priceScale === 'logarithmic' ? undefined : priceRange.min,
         max: priceScale === 'logarithmic' ? undefined : priceRange.max,
@@ -1383,15 +1962,22 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
           color: 'rgba(255, 255, 255, 0.1)'
         },
         ticks: {
-          callback: (value: any) => `$${value.toFixed(2)}`
+          callback: (value: any) => priceScale === 'percent' && comparison.basePrice
+            ? formatPercentChange(percentChange(value, comparison.basePrice))
+            : `$${value.toFixed(2)}`
         },
+        afterFit: fitPaneAxis,
       },
       ...(data as any).additionalScales || {}
     }
   };
 
-  // Volume chart options
-  const volumeOptions: ChartOptions<any> = {
+  // Options shared by the volume and oscillator panes
+  const getPaneOptions = (
+    paneId: string,
+    valueScales: Record<string, any>,
+    formatValue: (value: number) => string
+  ): ChartOptions<any> => ({
     responsive: true,
     maintainAspectRatio: false,
     interaction: {
@@ -1400,7 +1986,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     },
     plugins: {
       legend: {
-        display: false, // Hide volume legend
+        display: false,
       },
       title: {
         display: false,
@@ -1409,10 +1995,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         callbacks: {
           label: (context: any) => {
             const value = context.parsed.y;
-            const formatted = value ? (value >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : 
-                                      value >= 1000 ? `${(value / 1000).toFixed(1)}K` : 
-                                      value.toLocaleString()) : 'N/A';
-            return `Volume: ${formatted}`;
+            return value !== null && value !== undefined ? `${context.dataset.label}: ${formatValue(value)}` : '';
           }
         }
       },
@@ -1425,58 +2008,38 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             enabled: true
           },
           mode: 'x',
-          onZoomComplete: ({ chart }: { chart: ChartJS }) => {
-            console.log('🖱️ Volume chart zoom completed');
-            syncMainChart(chart);
-          }
+          onZoomComplete: handlePaneRangeChange
         },
         pan: {
           enabled: true,
           mode: 'x',
-          onPanComplete: ({ chart }: { chart: ChartJS }) => {
-            console.log('👆 Volume chart pan completed');
-            syncMainChart(chart);
-          }
+          onPanComplete: handlePaneRangeChange
         }
       }
     },
     scales: {
-      x: {
-        type: 'time',
-        time: {
-          unit: 'day',
-          displayFormats: {
-            day: 'MMM dd'
-          }
-        },
-        grid: {
-          display: false
-        }
+      x: getTimeAxis(paneId),
+      ...Object.fromEntries(
+        Object.entries(valueScales).map(([id, scale]) => [id, { ...scale, afterFit: fitPaneAxis }])
+      )
+    }
+  });
+
+  const volumeOptions = getPaneOptions(VOLUME_PANE_ID, {
+    y: {
+      type: 'linear',
+      position: 'right',
+      min: 0,
+      grid: {
+        color: 'rgba(255, 255, 255, 0.05)'
+      },
+      ticks: {
+        callback: (value: number | string) => formatVolume(Number(value))
       },
-      y: {
-        type: 'linear',
-        position: 'right',
-        min: 0,
-        grid: {
-          color: 'rgba(255, 255, 255, 0.05)'
-        },
-        ticks: {
-          callback: (value: any) => {
-            return value >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : 
-                   value >= 1000 ? `${(value / 1000).toFixed(1)}K` : 
-                   value.toLocaleString();
-          }
-        },
-      }
     }
-  };
+  }, formatVolume);
 
-  // Get available indicators from registry
-  const availableIndicators = indicatorRegistry.getAllConfigs().map(config => ({
-    id: config.id,
-    name: config.name,
-    category: config.category
-  }));
+  const editingIndicator = indicators.find(instance => instance.id === editingIndicatorId);
 
   const chartTypes = [
     { key: 'candlestick', label: 'Candlestick', IconComponent: CandlestickIcon },
@@ -1484,24 +2047,45 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
     { key: 'line', label: 'Line', IconComponent: LineIcon },
   ] as const;
 
-  const timeframes = marketDataService.getSupportedTimeframes();
-  
-  const intervals = [
-    { key: '1m', label: '1m' },
-    { key: '5m', label: '5m' },
-    { key: '15m', label: '15m' },
-    { key: '30m', label: '30m' },
-    { key: '1h', label: '1H' },
-    { key: '4h', label: '4H' },
-    { key: '1d', label: '1D' },
-    { key: '1w', label: '1W' }
-  ];
+  // Types drawn from bars derived from the OHLC series, plus the filled line styles
+  const moreChartTypes = [
+    { key: 'heikin-ashi', label: 'Heikin-Ashi' },
+    { key: 'renko', label: 'Renko' },
+    { key: 'range', label: 'Range bars' },
+    { key: 'area', label: 'Area' },
+    { key: 'baseline', label: 'Baseline' },
+  ] as const;
+
+  // The chart type's size or price input; left empty it falls back to the default
+  const chartTypeOptionInputs: Partial<Record<ChartType, { option: keyof ChartTypeOptions; label: string; placeholder: string; title: string }>> = {
+    renko: { option: 'renkoBoxSize', label: 'Box', placeholder: 'ATR', title: 'Renko box size (empty: 14-bar ATR)' },
+    range: { option: 'rangeBarSize', label: 'Range', placeholder: 'ATR', title: 'Range bar size (empty: 14-bar ATR)' },
+    baseline: { option: 'baselinePrice', label: 'Baseline', placeholder: 'First visible close', title: 'Baseline price (empty: first visible close)' },
+  };
+  const chartTypeOption = chartTypeOptionInputs[chartType];
+  const isMoreChartType = moreChartTypes.some(ct => ct.key === chartType);
+
+  const timeframes = SUPPORTED_TIMEFRAMES;
+  const intervals = SUPPORTED_INTERVALS;
 
   // Handle text input save
   const handleTextSave = useCallback((newText: string, formatting: any) => {
     if (!textEditState.drawingId) return;
     
+    // New text drawings start empty and only enter the history once they have text
+    const drawing = drawingState.drawings.find(d => d.id === textEditState.drawingId);
+    const previousText = drawing?.type === 'text' ? drawing.text : '';
+
     if (newText.trim()) {
+      if (drawing) {
+        const updated = { ...drawing, text: newText.trim(), formatting } as Drawing;
+        recordDrawingChange(
+          !previousText ? 'drawing' : previousText !== newText.trim() ? 'text edit' : 'text style',
+          previousText ? [drawing] : [],
+          [updated]
+        );
+      }
+
       // Update the drawing with the new text and formatting
       setDrawingState(prev => ({
         ...prev,
@@ -1517,6 +2101,9 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       }));
     } else {
       // If text is empty, remove the drawing
+      if (drawing && previousText) {
+        recordDrawingChange('delete', [drawing], []);
+      }
       setDrawingState(prev => ({
         ...prev,
         drawings: prev.drawings.filter(d => d.id !== textEditState.drawingId),
@@ -1530,7 +2117,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
       drawingId: null,
       position: null
     });
-  }, [textEditState.drawingId]);
+  }, [textEditState.drawingId, drawingState.drawings, recordDrawingChange]);
 
   // Handle text input cancel
   const handleTextCancel = useCallback(() => {
@@ -1556,19 +2143,27 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
   }, [textEditState.drawingId, drawingState.drawings]);
 
   return (
-    <div className={styles.container}>
+    <div className={styles.container} ref={containerRef}>
       <div className={styles.header}>
         <div className={styles.symbolInput}>
           <div className={styles.symbolDisplay}>
             <span className={styles.currentSymbol}>{currentSymbol}</span>
             {loading && <span className={styles.loadingIndicator}>Loading...</span>}
+            {loadingOlder && <span className={styles.loadingIndicator}>Loading history...</span>}
+            {readOnly ? (
+              <span className={styles.readOnlyBadge} title="Opened from a share link; changes aren't saved">Shared · read-only</span>
+            ) : (
+              <ChartSyncIndicator />
+            )}
           </div>
-          <SymbolAutocomplete
-            onSymbolSelect={handleSymbolSelect}
-            placeholder="Change symbol..."
-            mode="populate"
-            className={styles.symbolAutocomplete}
-          />
+          {!readOnly && (
+            <SymbolAutocomplete
+              onSymbolSelect={handleSymbolSelect}
+              placeholder="Change symbol..."
+              mode="populate"
+              className={styles.symbolAutocomplete}
+            />
+          )}
         </div>
         <div className={styles.chartTypeSelector}>
           {chartTypes.map(ct => (
@@ -1576,7 +2171,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
               key={ct.key}
               className={`${styles.chartTypeButton} ${chartType === ct.key ? styles.active : ''}`}
               onClick={() => handleChartTypeChange(ct.key)}
-              disabled={loading}
+              disabled={loading || readOnly}
               title={ct.label}
             >
               <span className={styles.chartTypeIcon}>
@@ -1585,12 +2180,39 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
               <span className={styles.chartTypeLabel}>{ct.label}</span>
             </button>
           ))}
+          <select
+            className={`${styles.chartTypeSelect} ${isMoreChartType ? styles.active : ''}`}
+            value={isMoreChartType ? chartType : ''}
+            onChange={(e) => handleChartTypeChange(e.target.value as ChartType)}
+            disabled={loading || readOnly}
+            title="More chart types"
+          >
+            <option value="" disabled>More</option>
+            {moreChartTypes.map(ct => (
+              <option key={ct.key} value={ct.key}>{ct.label}</option>
+            ))}
+          </select>
+          {chartTypeOption && (
+            <label className={styles.chartTypeOption} title={chartTypeOption.title}>
+              {chartTypeOption.label}
+              <input
+                key={`${currentSymbol}-${chartTypeOption.option}`}
+                type="number"
+                min="0"
+                step="any"
+                placeholder={chartTypeOption.placeholder}
+                defaultValue={chartTypeOptions[chartTypeOption.option] ?? ''}
+                onChange={(e) => handleChartTypeOptionChange(chartTypeOption.option, e.target.value)}
+                disabled={loading || readOnly}
+              />
+            </label>
+          )}
         </div>
         <div className={styles.volumeToggle}>
           <button
             className={`${styles.volumeButton} ${showVolume ? styles.active : ''}`}
             onClick={toggleVolume}
-            disabled={loading}
+            disabled={loading || readOnly}
             title="Toggle Volume Overlay"
           >
             <span className={styles.volumeIcon}>
@@ -1601,58 +2223,70 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         </div>
         <div className={styles.scaleToggle}>
           <button
-            className={`${styles.scaleButton} ${priceScale === 'logarithmic' ? styles.active : ''}`}
+            className={`${styles.scaleButton} ${priceScale !== 'linear' ? styles.active : ''}`}
             onClick={togglePriceScale}
-            disabled={loading}
-            title={`Switch to ${priceScale === 'linear' ? 'Logarithmic' : 'Linear'} Scale`}
+            disabled={loading || readOnly}
+            title={`Switch to ${{ linear: 'Logarithmic', logarithmic: 'Percent', percent: 'Linear' }[priceScale]} Scale`}
           >
             <span className={styles.scaleLabel}>
-              {priceScale === 'linear' ? 'Linear' : 'Log'}
+              {PRICE_SCALE_LABELS[priceScale]}
             </span>
           </button>
         </div>
+        {!readOnly && (
+          <div className={styles.scaleToggle}>
+            <button
+              className={`${styles.scaleButton} ${comparePickerOpen ? styles.active : ''}`}
+              onClick={() => setComparePickerOpen(prev => !prev)}
+              disabled={loading || chartData.length === 0}
+              title="Compare with another symbol"
+            >
+              <span className={styles.scaleLabel}>Compare</span>
+            </button>
+          </div>
+        )}
         <div className={styles.indicatorDropdown}>
           <select 
             className={styles.indicatorSelect}
+            value=""
             onChange={(e) => {
-              if (e.target.value) {
-                toggleIndicator(e.target.value);
-                e.target.value = ''; // Reset selection
+              if (e.target.value === SCRIPT_EDITOR_OPTION) {
+                setScriptEditorOpen(true);
+              } else if (e.target.value) {
+                addIndicator(e.target.value);
               }
             }}
-            disabled={loading || chartData.length === 0}
+            disabled={loading || readOnly || chartData.length === 0}
           >
             <option value="">
-              {selectedIndicators.length > 0 
-                ? `Indicators (${selectedIndicators.length})` 
+              {indicators.length > 0 
+                ? `Indicators (${indicators.length})` 
                 : 'Add Indicator...'
               }
             </option>
             <optgroup label="Overlay Indicators">
-              {availableIndicators.filter(indicator => indicator.category === 'overlay').map(indicator => (
-                <option 
-                  key={indicator.id} 
-                  value={indicator.id}
-                  style={{ 
-                    color: selectedIndicators.includes(indicator.id) ? '#26a69a' : 'inherit' 
-                  }}
-                >
-                  {selectedIndicators.includes(indicator.id) ? '✓ ' : ''}{indicator.name}
+              {indicatorRegistry.getIndicatorsByCategory('overlay').filter(isBuiltInIndicator).map(indicator => (
+                <option key={indicator.id} value={indicator.id}>
+                  {indicator.name}
                 </option>
               ))}
             </optgroup>
             <optgroup label="Oscillators">
-              {availableIndicators.filter(indicator => indicator.category === 'oscillator').map(indicator => (
-                <option 
-                  key={indicator.id} 
-                  value={indicator.id}
-                  style={{ 
-                    color: selectedIndicators.includes(indicator.id) ? '#26a69a' : 'inherit' 
-                  }}
-                >
-                  {selectedIndicators.includes(indicator.id) ? '✓ ' : ''}{indicator.name}
+              {indicatorRegistry.getIndicatorsByCategory('oscillator').filter(isBuiltInIndicator).map(indicator => (
+                <option key={indicator.id} value={indicator.id}>
+                  {indicator.name}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="My Scripts">
+              {indicatorRegistry.getIndicators().filter(indicator => !isBuiltInIndicator(indicator)).map(indicator => (
+                <option key={indicator.id} value={indicator.id}>
+                  {indicator.name}
                 </option>
               ))}
+              <option value={SCRIPT_EDITOR_OPTION}>
+                {indicatorScripts.length > 0 ? 'Edit scripts...' : 'New script...'}
+              </option>
             </optgroup>
           </select>
         </div>
@@ -1661,7 +2295,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             className={styles.periodSelect}
             value={timeframe}
             onChange={(e) => handleTimeframeChange(e.target.value as typeof timeframe)}
-            disabled={loading}
+            disabled={loading || readOnly}
           >
             <optgroup label="Period">
               {timeframes.map(tf => (
@@ -1677,7 +2311,7 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             className={styles.intervalSelect}
             value={interval}
             onChange={(e) => handleIntervalChange(e.target.value as typeof interval)}
-            disabled={loading}
+            disabled={loading || readOnly}
           >
             <optgroup label="Interval">
               {intervals.map(iv => (
@@ -1688,6 +2322,22 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             </optgroup>
           </select>
         </div>
+        <div className={styles.exportDropdown}>
+          <select
+            className={styles.exportSelect}
+            value=""
+            onChange={(e) => {
+              if (e.target.value) void handleExport(e.target.value as ChartExportFormat);
+            }}
+            disabled={loading || chartData.length === 0}
+            title="Export or share this chart"
+          >
+            <option value="">Export</option>
+            <option value="png">Image (PNG)</option>
+            <option value="csv">Visible data (CSV)</option>
+            <option value="link">Copy share link</option>
+          </select>
+        </div>
       </div>
       
       {error && (
@@ -1696,17 +2346,119 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
         </div>
       )}
 
+      {/* Comparison symbols and their change since the first visible bar */}
+      {(comparisons.length > 0 || comparePickerOpen) && (
+        <div className={styles.indicatorLegend}>
+          {comparisons.length > 0 && (
+            <div className={styles.indicatorChip}>
+              <span className={styles.comparisonLabel}>
+                {currentSymbol}
+                {comparison.change !== null && (
+                  <span className={comparison.change >= 0 ? styles.positiveChange : styles.negativeChange}>
+                    {formatPercentChange(comparison.change)}
+                  </span>
+                )}
+              </span>
+            </div>
+          )}
+          {comparisons.map((symbol, index) => {
+            const series = comparison.series.find(s => s.symbol === symbol);
+            return (
+              <div key={symbol} className={styles.indicatorChip}>
+                <span className={styles.comparisonLabel}>
+                  <span className={styles.indicatorSwatch} style={{ backgroundColor: COMPARISON_COLORS[index] }} />
+                  {symbol}
+                  {comparisonErrors[symbol] ? (
+                    <span className={styles.indicatorError} title={comparisonErrors[symbol]}>⚠</span>
+                  ) : series?.change !== null && series?.change !== undefined ? (
+                    <span className={series.change >= 0 ? styles.positiveChange : styles.negativeChange}>
+                      {formatPercentChange(series.change)}
+                    </span>
+                  ) : null}
+                </span>
+                {!readOnly && (
+                  <button
+                    className={styles.indicatorChipRemove}
+                    onClick={() => removeComparison(symbol)}
+                    title="Remove comparison"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {comparePickerOpen && !readOnly && (
+            <SymbolAutocomplete
+              onSymbolSelect={addComparison}
+              placeholder="Compare with..."
+              mode="immediate"
+              autoFocus
+              className={styles.comparisonPicker}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Indicators on the chart: click one to edit its settings */}
+      {indicators.length > 0 && (
+        <div className={styles.indicatorLegend}>
+          {indicators.map(instance => {
+            const color = instance.style?.color
+              ?? indicatorResults.get(instance.id)?.result.datasets[0]?.borderColor;
+            return (
+              <div
+                key={instance.id}
+                className={`${styles.indicatorChip} ${instance.id === editingIndicatorId ? styles.active : ''}`}
+              >
+                <button
+                  className={styles.indicatorChipLabel}
+                  onClick={() => setEditingIndicatorId(prev => prev === instance.id ? null : instance.id)}
+                  disabled={readOnly}
+                  title="Indicator settings"
+                >
+                  <span
+                    className={styles.indicatorSwatch}
+                    style={{ backgroundColor: typeof color === 'string' ? color : undefined }}
+                  />
+                  {indicatorRegistry.describe(instance)}
+                  {indicatorErrors[instance.id] && (
+                    <span className={styles.indicatorError} title={indicatorErrors[instance.id]}>⚠</span>
+                  )}
+                </button>
+                {!readOnly && (
+                  <button
+                    className={styles.indicatorChipRemove}
+                    onClick={() => removeIndicator(instance.id)}
+                    title="Remove indicator"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Drawing Tools Toolbar */}
-      <div className={styles.drawingToolbar}>
-        <DrawingToolbar
-          activeTool={drawingState.activeTool}
-          onToolSelect={handleToolSelect}
-          onClearAll={handleClearAllDrawings}
-          disabled={loading || chartData.length === 0}
-          drawingsCount={drawingState.drawings.length}
-          selectedDrawingId={drawingState.selectedDrawingId}
-        />
-      </div>
+      {!readOnly && (
+        <div className={styles.drawingToolbar}>
+          <DrawingToolbar
+            activeTool={drawingState.activeTool}
+            onToolSelect={handleToolSelect}
+            onClearAll={handleClearAllDrawings}
+            onUndo={() => handleHistoryStep('undo')}
+            onRedo={() => handleHistoryStep('redo')}
+            undoLabel={drawingHistory.undo[drawingHistory.undo.length - 1]?.label ?? null}
+            redoLabel={drawingHistory.redo[drawingHistory.redo.length - 1]?.label ?? null}
+            disabled={loading || chartData.length === 0}
+            drawingsCount={drawingState.drawings.length}
+            selectedDrawingId={drawingState.selectedDrawingId}
+            selectedCount={drawingState.drawings.filter(d => d.selected).length}
+          />
+        </div>
+      )}
       
       <div className={styles.chartWrapper}>
         {/* Main Price Chart */}
@@ -1715,10 +2467,10 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
             <Chart 
               ref={(chartInstance) => {
                 mainChartRef.current = chartInstance;
-                console.log('📊 Main chart ref assigned:', !!chartInstance);
+                paneGroup.setChart(MAIN_PANE_ID, mainChartRef.current);
               }}
-              type={chartType === 'line' ? 'line' : 'bar'} 
-              data={data} 
+              type={renderStyle === 'line' ? 'line' : 'bar'} 
+              data={mainChartData} 
               options={options} 
             />
           ) : loading ? (
@@ -1736,21 +2488,219 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
           )}
         </div>
 
-        {/* Volume Chart */}
+        {/* Volume Pane */}
         {showVolume && chartData.length > 0 && (
-          <div className={styles.volumeChart}>
-            <Chart 
-              ref={(chartInstance) => {
-                volumeChartRef.current = chartInstance;
-                console.log('📈 Volume chart ref assigned:', !!chartInstance);
-              }}
-              type="bar" 
-              data={volumeData} 
-              options={volumeOptions} 
+          <div className={styles.chartPane} style={{ height: paneHeights[VOLUME_PANE_ID] ?? DEFAULT_PANE_HEIGHT }}>
+            {!readOnly && (
+              <div
+                className={styles.paneResizer}
+                onMouseDown={e => startPaneResize(e, VOLUME_PANE_ID)}
+                title="Drag to resize"
+              />
+            )}
+            <Chart
+              ref={(chartInstance) => paneGroup.setChart(VOLUME_PANE_ID, chartInstance as ChartJS | null)}
+              type="bar"
+              data={volumeData}
+              options={volumeOptions}
             />
           </div>
         )}
 
+        {/* Oscillator Panes */}
+        {chartData.length > 0 && oscillatorPanes.map(pane => (
+          <div
+            key={pane.instance.id}
+            className={styles.chartPane}
+            style={{ height: paneHeights[pane.instance.id] ?? DEFAULT_PANE_HEIGHT }}
+          >
+            {!readOnly && (
+              <div
+                className={styles.paneResizer}
+                onMouseDown={e => startPaneResize(e, pane.instance.id)}
+                title="Drag to resize"
+              />
+            )}
+            <Chart
+              ref={(chartInstance) => paneGroup.setChart(pane.instance.id, chartInstance as ChartJS | null)}
+              type="line"
+              data={pane.data}
+              options={getPaneOptions(pane.instance.id, pane.scales, formatOscillatorValue)}
+            />
+            <button
+              className={styles.paneLabel}
+              onClick={() => setEditingIndicatorId(pane.instance.id)}
+              disabled={readOnly}
+              title="Indicator settings"
+            >
+              {indicatorRegistry.describe(pane.instance)}
+            </button>
+          </div>
+        ))}
+
+        {/* Chart context menu */}
+        {chartMenu && (() => {
+          const menuDrawing = chartMenu.drawingId
+            ? drawingState.drawings.find(d => d.id === chartMenu.drawingId)
+            : undefined;
+          const menuLine = chartMenu.orderLine;
+          const lastPrice = chartData[chartData.length - 1]?.close;
+          const hiddenCount = drawingState.drawings.filter(d => d.hidden).length;
+
+          return (
+            <div
+              className={styles.drawingMenu}
+              style={{ left: chartMenu.position.x, top: chartMenu.position.y }}
+              onContextMenu={e => e.preventDefault()}
+            >
+              {menuLine && (
+                <button
+                  className={styles.drawingMenuItem}
+                  onClick={() => {
+                    setChartMenu(null);
+                    setPendingCancel(menuLine);
+                  }}
+                >
+                  Cancel {describeOrderLine(menuLine)}
+                </button>
+              )}
+
+              {menuDrawing && isFibonacciDrawing(menuDrawing) && (
+                <button
+                  className={styles.drawingMenuItem}
+                  onClick={() => {
+                    setChartMenu(null);
+                    setFibLevelsEdit({ drawingId: menuDrawing.id, position: chartMenu.position });
+                  }}
+                >
+                  Fibonacci levels...
+                </button>
+              )}
+
+              {menuDrawing && isAlertableDrawing(menuDrawing) && (!menuDrawing.alert ? (
+                <button className={styles.drawingMenuItem} onClick={() => handleCreateDrawingAlert(menuDrawing.id)}>
+                  Create price alert
+                </button>
+              ) : (
+                <>
+                  {!menuDrawing.alert.isActive && (
+                    <button
+                      className={styles.drawingMenuItem}
+                      onClick={() => {
+                        setChartMenu(null);
+                        syncAlertToDrawing(menuDrawing);
+                      }}
+                    >
+                      Re-arm price alert
+                    </button>
+                  )}
+                  <button className={styles.drawingMenuItem} onClick={() => handleRemoveDrawingAlert(menuDrawing.id)}>
+                    Remove price alert
+                  </button>
+                </>
+              ))}
+
+              {menuDrawing && (
+                <>
+                  <button
+                    className={styles.drawingMenuItem}
+                    onClick={() => handleSetDrawingFlag(menuDrawing.id, 'locked', !menuDrawing.locked)}
+                  >
+                    {menuDrawing.locked ? 'Unlock drawing' : 'Lock drawing'}
+                  </button>
+                  <button
+                    className={styles.drawingMenuItem}
+                    onClick={() => handleSetDrawingFlag(menuDrawing.id, 'hidden', true)}
+                  >
+                    Hide drawing
+                  </button>
+                </>
+              )}
+
+              {hiddenCount > 0 && (
+                <button className={styles.drawingMenuItem} onClick={handleShowHiddenDrawings}>
+                  Show {hiddenCount} hidden drawing{hiddenCount === 1 ? '' : 's'}
+                </button>
+              )}
+
+              {(menuLine || menuDrawing || hiddenCount > 0) && <div className={styles.drawingMenuDivider} />}
+
+              {getTicketOptions(chartMenu.price, lastPrice).map(option => (
+                <button
+                  key={`${option.side}-${option.type}`}
+                  className={styles.drawingMenuItem}
+                  onClick={() => {
+                    setChartMenu(null);
+                    setOrderTicket({ option, position: chartMenu.position });
+                  }}
+                >
+                  {option.side === 'buy' ? 'Buy' : 'Sell'} {option.type === 'limit' ? 'Limit' : 'Stop'} @ {formatOrderPrice(option.price)}
+                </button>
+              ))}
+            </div>
+          );
+        })()}
+
+        {/* Settings for the indicator picked in the legend */}
+        {editingIndicator && (
+          <IndicatorSettingsDialog
+            key={editingIndicator.id}
+            instance={editingIndicator}
+            defaultColor={indicatorResults.get(editingIndicator.id)?.result.datasets[0]?.borderColor as string | undefined}
+            onApply={(instance) => {
+              updateIndicator(instance);
+              setEditingIndicatorId(null);
+            }}
+            onRemove={() => removeIndicator(editingIndicator.id)}
+            onClose={() => setEditingIndicatorId(null)}
+          />
+        )}
+
+        {/* The user's indicator scripts, opened from the indicator menu */}
+        {scriptEditorOpen && (
+          <IndicatorScriptEditor
+            scripts={indicatorScripts}
+            initialScriptId={editingIndicator?.indicator.startsWith(SCRIPT_INDICATOR_PREFIX)
+              ? editingIndicator.indicator.slice(SCRIPT_INDICATOR_PREFIX.length)
+              : undefined}
+            onClose={() => setScriptEditorOpen(false)}
+          />
+        )}
+
+        {/* Levels of a Fibonacci drawing, opened from the context menu */}
+        {fibLevelsEdit && (() => {
+          const fibDrawing = drawingState.drawings.find(d => d.id === fibLevelsEdit.drawingId);
+          if (!fibDrawing || !isFibonacciDrawing(fibDrawing)) return null;
+
+          return (
+            <FibonacciLevelsEditor
+              drawing={fibDrawing}
+              position={fibLevelsEdit.position}
+              onSave={levels => {
+                recordDrawingChange('Fibonacci levels', [fibDrawing], [{ ...fibDrawing, levels }]);
+                setDrawingState(prev => ({
+                  ...prev,
+                  drawings: prev.drawings.map(d => d.id === fibDrawing.id ? { ...fibDrawing, levels } : d)
+                }));
+                setFibLevelsEdit(null);
+              }}
+              onCancel={() => setFibLevelsEdit(null)}
+            />
+          );
+        })()}
+
+        {/* Prefilled order ticket opened from the context menu */}
+        {orderTicket && (
+          <ChartOrderTicket
+            key={`${orderTicket.option.side}-${orderTicket.option.type}-${orderTicket.option.price}`}
+            symbol={currentSymbol}
+            option={orderTicket.option}
+            position={orderTicket.position}
+            ordersApi={ordersApi}
+            onClose={() => setOrderTicket(null)}
+          />
+        )}
+
         {/* Inline Text Editor */}
         {textEditState.isEditing && textEditState.position && (
           <InlineTextEditor
@@ -1768,6 +2718,28 @@ const TradingChartWithData: React.FC<TradingChartProps> = ({
           />
         )}
       </div>
+
+      <ConfirmModal
+        isOpen={!!pendingReplace}
+        title="Modify Order"
+        message={pendingReplace
+          ? `Move ${describeOrderLine(pendingReplace.line)} to ${formatOrderPrice(pendingReplace.price)}?`
+          : ''}
+        confirmText="Modify Order"
+        onConfirm={handleConfirmReplace}
+        onCancel={() => setPendingReplace(null)}
+      />
+
+      <ConfirmModal
+        isOpen={!!pendingCancel}
+        title="Cancel Order"
+        message={pendingCancel ? `Cancel ${describeOrderLine(pendingCancel)}?` : ''}
+        confirmText="Cancel Order"
+        cancelText="Keep Order"
+        onConfirm={handleConfirmCancel}
+        onCancel={() => setPendingCancel(null)}
+        variant="danger"
+      />
     </div>
   );
 };
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import ChartPersistenceService from '../services/ChartPersistenceService';
+
+const subscribeToStatus = (onChange: () => void) => ChartPersistenceService.getInstance().getSyncService().subscribe(onChange);
+const getStatus = () => ChartPersistenceService.getInstance().getSyncService().getStatus();
+
+// Where the saved charts stand with the server: synced, waiting to upload, over quota...
+export const useChartSyncStatus = () => useSyncExternalStore(subscribeToStatus, getStatus);
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { OHLCData } from '../indicators/types';
+import type { BarsHistoryService } from '../services/BarsProvider';
+import type { ChartInterval, ChartPeriod } from '../utils/timeframes';
+
+interface UseComparisonBarsOptions {
+  symbols: string[];
+  period: ChartPeriod;
+  interval: ChartInterval;
+  barsHistory: BarsHistoryService;
+}
+
+/**
+ * History for the chart's comparison symbols, at the main chart's period and interval.
+ * Symbols that fail to load are reported in `errors` and left off the chart.
+ */
+export function useComparisonBars({ symbols, period, interval, barsHistory }: UseComparisonBarsOptions) {
+  const [bars, setBars] = useState<Record<string, OHLCData[]>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const symbolsKey = symbols.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const requested = symbolsKey ? symbolsKey.split(',') : [];
+
+    // Bars from another period or interval don't line up; the history service caches what's reloaded
+    setBars({});
+    setErrors({});
+
+    requested.forEach(symbol => {
+      barsHistory.getHistory(symbol, period, interval)
+        .then(data => {
+          if (!cancelled) setBars(prev => ({ ...prev, [symbol]: data }));
+        })
+        .catch(err => {
+          console.warn(`⚠️ Failed to load comparison bars for ${symbol}:`, err);
+          if (!cancelled) setErrors(prev => ({ ...prev, [symbol]: err instanceof Error ? err.message : 'Failed to fetch data' }));
+        });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbolsKey, period, interval, barsHistory]);
+
+  return { bars, errors };
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
+import useMarketDataStore from '../../../store/marketDataStore';
+import type { MarketHours } from '../../../types';
+import type { OHLCData } from '../indicators/types';
+import type { ChartInterval } from '../utils/timeframes';
+import {
+  applyTicks,
+  getTradingSession,
+  isInSession,
+  VolumeTracker,
+  type LiveTick,
+} from '../services/BarAggregator';
+
+interface UseLiveBarsOptions {
+  symbol: string;
+  interval: ChartInterval;
+  marketHours?: MarketHours | null;
+  enabled: boolean;
+  setChartData: Dispatch<SetStateAction<OHLCData[]>>;
+}
+
+/**
+ * Streams quotes for `symbol` from the market data store into the chart's last bar.
+ * Ticks outside the regular session are ignored; ticks arriving within one frame
+ * are applied together so a busy symbol costs at most one render per frame.
+ */
+export function useLiveBars({ symbol, interval, marketHours, enabled, setChartData }: UseLiveBarsOptions) {
+  const marketHoursRef = useRef(marketHours);
+  marketHoursRef.current = marketHours;
+
+  useEffect(() => {
+    if (!enabled || !symbol) return;
+
+    const normalizedSymbol = symbol.toUpperCase();
+    const store = useMarketDataStore.getState();
+    const volumeTracker = new VolumeTracker();
+    let pending: LiveTick[] = [];
+    let frame: number | null = null;
+
+    const flush = () => {
+      frame = null;
+      const ticks = pending;
+      pending = [];
+      setChartData(prev => prev.length > 0 ? applyTicks(prev, ticks, interval) : prev);
+    };
+
+    const unsubscribeQuotes = useMarketDataStore.subscribe(
+      state => state.quotes.get(normalizedSymbol),
+      quote => {
+        if (!quote) return;
+
+        const timestamp = quote.timestamp instanceof Date ? quote.timestamp : new Date(quote.timestamp);
+        const volume = volumeTracker.next(quote.volume);
+        const session = getTradingSession(timestamp, marketHoursRef.current);
+        if (!isInSession(timestamp, session)) return;
+
+        pending.push({ price: quote.price, timestamp, volume });
+        if (frame === null) {
+          frame = requestAnimationFrame(flush);
+        }
+      }
+    );
+
+    store.subscribe(normalizedSymbol);
+
+    return () => {
+      unsubscribeQuotes();
+      store.unsubscribe(normalizedSymbol);
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, [symbol, interval, enabled, setChartData]);
+}
@@ -0,0 +1,142 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class ADXIndicator extends BaseIndicator {
+  id = 'adx';
+  name = 'Average Directional Index';
+  shortName = 'ADX';
+  category = 'oscillator' as const;
+  defaultParameters = {
+    period: 14
+  };
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const { period } = { ...this.defaultParameters, ...parameters };
+
+    const timestamps = data.map(d => d.timestamp);
+    const state = previous?.state;
+
+    // Directional movement and true range start at the second bar, which has a previous bar to compare
+    const trueRange = this.calculateTrueRange(data);
+    const tr: (number | null)[] = [];
+    const plusDM: (number | null)[] = [];
+    const minusDM: (number | null)[] = [];
+    for (let i = 0; i < data.length; i++) {
+      if (i === 0) {
+        tr.push(null);
+        plusDM.push(null);
+        minusDM.push(null);
+        continue;
+      }
+      const up = data[i].high - data[i - 1].high;
+      const down = data[i - 1].low - data[i].low;
+      tr.push(trueRange[i]);
+      plusDM.push(up > down && up > 0 ? up : 0);
+      minusDM.push(down > up && down > 0 ? down : 0);
+    }
+
+    const smooth = (values: (number | null)[], previousValues?: (number | null)[]) => this.calculateFromOffset(
+      values, 1, (series, prev, from) => this.calculateRMA(series, period, prev, from), previousValues, fromIndex
+    );
+    const smoothedTR = smooth(tr, state?.tr);
+    const smoothedPlusDM = smooth(plusDM, state?.plusDM);
+    const smoothedMinusDM = smooth(minusDM, state?.minusDM);
+
+    const plusDI: (number | null)[] = [];
+    const minusDI: (number | null)[] = [];
+    const dx: (number | null)[] = [];
+    for (let i = 0; i < data.length; i++) {
+      const range = smoothedTR[i];
+      if (range === null) {
+        plusDI.push(null);
+        minusDI.push(null);
+        dx.push(null);
+        continue;
+      }
+      const plus = range === 0 ? 0 : ((smoothedPlusDM[i] as number) / range) * 100;
+      const minus = range === 0 ? 0 : ((smoothedMinusDM[i] as number) / range) * 100;
+      plusDI.push(plus);
+      minusDI.push(minus);
+      dx.push(plus + minus === 0 ? 0 : (Math.abs(plus - minus) / (plus + minus)) * 100);
+    }
+
+    // ADX is DX smoothed the same way, so its first value needs two periods of bars
+    const adx = this.calculateFromOffset(
+      dx, period, (values, prev, from) => this.calculateRMA(values, period, prev, from), state?.adx, fromIndex
+    );
+
+    return {
+      datasets: [
+        {
+          label: `ADX ${period}`,
+          data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, adx, fromIndex),
+          borderColor: 'rgb(255, 205, 86)',
+          backgroundColor: 'transparent',
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'adx',
+          type: 'line'
+        },
+        {
+          label: '+DI',
+          data: this.updateDataPoints(previous?.datasets[1]?.data, timestamps, plusDI, fromIndex),
+          borderColor: 'rgb(38, 166, 154)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'adx',
+          type: 'line'
+        },
+        {
+          label: '-DI',
+          data: this.updateDataPoints(previous?.datasets[2]?.data, timestamps, minusDI, fromIndex),
+          borderColor: 'rgb(239, 83, 80)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'adx',
+          type: 'line'
+        }
+      ],
+      scales: {
+        adx: {
+          type: 'linear',
+          position: 'right',
+          display: true,
+          min: 0,
+          grid: {
+            color: 'rgba(255, 255, 255, 0.1)'
+          },
+          title: {
+            display: true,
+            text: 'ADX'
+          }
+        }
+      },
+      state: { tr: smoothedTR, plusDM: smoothedPlusDM, minusDM: smoothedMinusDM, adx }
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { period } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof period === 'number' && period > 1 && period <= 200;
+  }
+}
@@ -0,0 +1,68 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class ATRIndicator extends BaseIndicator {
+  id = 'atr';
+  name = 'Average True Range';
+  shortName = 'ATR';
+  category = 'oscillator' as const;
+  defaultParameters = {
+    period: 14
+  };
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const { period } = { ...this.defaultParameters, ...parameters };
+
+    const timestamps = data.map(d => d.timestamp);
+    const atr = this.calculateATR(data, period, previous?.state?.values, fromIndex);
+
+    return {
+      datasets: [{
+        label: `ATR ${period}`,
+        data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, atr, fromIndex),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.1,
+        yAxisID: 'atr',
+        type: 'line'
+      }],
+      scales: {
+        atr: {
+          type: 'linear',
+          position: 'right',
+          display: true,
+          grid: {
+            color: 'rgba(255, 255, 255, 0.1)'
+          },
+          title: {
+            display: true,
+            text: 'ATR'
+          }
+        }
+      },
+      state: { values: atr }
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { period } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof period === 'number' && period > 0 && period <= 500;
+  }
+}
@@ -1,15 +1,16 @@
-import type { IndicatorCalculator, IndicatorResult, OHLCData } from './types';
+import type { IndicatorCalculator, IndicatorCategory, IndicatorDataPoint, IndicatorParameters, IndicatorResult, OHLCData } from './types';
 
 // Base abstract class for indicators
 export abstract class BaseIndicator implements IndicatorCalculator {
   abstract id: string;
   abstract name: string;
-  abstract category: 'overlay' | 'oscillator';
-  abstract defaultParameters: Record<string, any>;
+  shortName?: string;
+  abstract category: IndicatorCategory;
+  abstract defaultParameters: IndicatorParameters;
 
-  abstract calculate(data: OHLCData[], parameters: Record<string, any>): IndicatorResult;
+  abstract calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult;
   
-  validateParameters(parameters: Record<string, any>): boolean {
+  validateParameters(parameters: IndicatorParameters): boolean {
     // Default validation - check if all required parameters exist
     const defaults = this.defaultParameters;
     for (const key in defaults) {
@@ -21,10 +22,32 @@ export abstract class BaseIndicator implements IndicatorCalculator {
   }
 
   // Helper methods for common calculations
-  protected calculateSMA(values: number[], period: number): (number | null)[] {
-    const result: (number | null)[] = [];
+  protected getSourceValues(data: OHLCData[], source: string): number[] {
+    return data.map(d => {
+      switch (source) {
+        case 'high': return d.high;
+        case 'low': return d.low;
+        case 'open': return d.open;
+        case 'hl2': return (d.high + d.low) / 2;
+        case 'hlc3': return (d.high + d.low + d.close) / 3;
+        case 'ohlc4': return (d.open + d.high + d.low + d.close) / 4;
+        case 'close':
+        default: return d.close;
+      }
+    });
+  }
+
+  // Values before `fromIndex` are copied from `previous` when it is given
+  protected calculateSMA(
+    values: number[],
+    period: number,
+    previous?: (number | null)[],
+    fromIndex = 0
+  ): (number | null)[] {
+    const start = previous ? Math.min(fromIndex, previous.length, values.length) : 0;
+    const result: (number | null)[] = previous ? previous.slice(0, start) : [];
     
-    for (let i = 0; i < values.length; i++) {
+    for (let i = start; i < values.length; i++) {
       if (i < period - 1) {
         result.push(null);
       } else {
@@ -39,23 +62,41 @@ export abstract class BaseIndicator implements IndicatorCalculator {
     return result;
   }
 
-  protected calculateEMA(values: number[], period: number): (number | null)[] {
-    const result: (number | null)[] = [];
+  // Resumes from `previous[fromIndex - 1]` when given, otherwise seeds with an SMA
+  protected calculateEMA(
+    values: number[],
+    period: number,
+    previous?: (number | null)[],
+    fromIndex = 0
+  ): (number | null)[] {
     const multiplier = 2 / (period + 1);
+    const start = previous ? Math.min(fromIndex, previous.length, values.length) : 0;
     
-    // Start with SMA for the first value
-    let sum = 0;
-    for (let i = 0; i < period && i < values.length; i++) {
-      sum += values[i];
-      if (i < period - 1) {
-        result.push(null);
-      } else {
-        result.push(sum / period);
+    if (start < period) {
+      const result: (number | null)[] = [];
+      
+      // Start with SMA for the first value
+      let sum = 0;
+      for (let i = 0; i < period && i < values.length; i++) {
+        sum += values[i];
+        if (i < period - 1) {
+          result.push(null);
+        } else {
+          result.push(sum / period);
+        }
       }
+      
+      // Calculate EMA for the rest
+      for (let i = period; i < values.length; i++) {
+        const prevEma = result[i - 1] as number;
+        result.push((values[i] - prevEma) * multiplier + prevEma);
+      }
+      
+      return result;
     }
     
-    // Calculate EMA for the rest
-    for (let i = period; i < values.length; i++) {
+    const result = (previous as (number | null)[]).slice(0, start);
+    for (let i = start; i < values.length; i++) {
       const prevEma = result[i - 1] as number;
       result.push((values[i] - prevEma) * multiplier + prevEma);
     }
@@ -63,10 +104,109 @@ export abstract class BaseIndicator implements IndicatorCalculator {
     return result;
   }
 
+  // Wilder's smoothing (RMA): seeded with the SMA of the first `period` values, then
+  // each value is (previous * (period - 1) + value) / period. Resumes like `calculateEMA`.
+  protected calculateRMA(
+    values: number[],
+    period: number,
+    previous?: (number | null)[],
+    fromIndex = 0
+  ): (number | null)[] {
+    const start = previous ? Math.min(fromIndex, previous.length, values.length) : 0;
+    
+    if (start < period) {
+      const result: (number | null)[] = [];
+      let sum = 0;
+      for (let i = 0; i < values.length; i++) {
+        if (i < period) {
+          sum += values[i];
+          result.push(i === period - 1 ? sum / period : null);
+        } else {
+          result.push(((result[i - 1] as number) * (period - 1) + values[i]) / period);
+        }
+      }
+      return result;
+    }
+    
+    const result = (previous as (number | null)[]).slice(0, start);
+    for (let i = start; i < values.length; i++) {
+      result.push(((result[i - 1] as number) * (period - 1) + values[i]) / period);
+    }
+    return result;
+  }
+
+  /**
+   * Run a calculation over a series whose first `offset` values are null (e.g. smoothing
+   * an indicator that needs a warm-up), keeping the leading nulls and resuming from `previous`.
+   */
+  protected calculateFromOffset(
+    values: (number | null)[],
+    offset: number,
+    calculate: (values: number[], previous?: (number | null)[], fromIndex?: number) => (number | null)[],
+    previous?: (number | null)[],
+    fromIndex = 0
+  ): (number | null)[] {
+    const leading = new Array<number | null>(Math.min(offset, values.length)).fill(null);
+    if (values.length <= offset) return leading;
+    
+    return leading.concat(calculate(
+      values.slice(offset) as number[],
+      previous?.slice(offset),
+      Math.max(0, fromIndex - offset)
+    ));
+  }
+
+  // High-low range of a bar including any gap from the previous close
+  protected calculateTrueRange(data: OHLCData[]): number[] {
+    return data.map((d, i) => {
+      if (i === 0) return d.high - d.low;
+      const prevClose = data[i - 1].close;
+      return Math.max(d.high - d.low, Math.abs(d.high - prevClose), Math.abs(d.low - prevClose));
+    });
+  }
+
+  // Average true range with Wilder's smoothing
+  protected calculateATR(
+    data: OHLCData[],
+    period: number,
+    previous?: (number | null)[],
+    fromIndex = 0
+  ): (number | null)[] {
+    return this.calculateRMA(this.calculateTrueRange(data), period, previous, fromIndex);
+  }
+
+  // Highest high and lowest low of the `period` bars ending at `index`
+  protected getRange(data: OHLCData[], index: number, period: number): { highest: number; lowest: number } {
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = Math.max(0, index - period + 1); j <= index; j++) {
+      highest = Math.max(highest, data[j].high);
+      lowest = Math.min(lowest, data[j].low);
+    }
+    return { highest, lowest };
+  }
+
   protected formatDataPoints(timestamps: Date[], values: (number | null)[]): Array<{ x: Date; y: number | null }> {
     return timestamps.map((timestamp, i) => ({
       x: timestamp,
       y: values[i]
     }));
   }
-}
\ No newline at end of file
+
+  // Reuse already formatted points before `fromIndex` and format the rest
+  protected updateDataPoints(
+    previous: IndicatorDataPoint[] | undefined,
+    timestamps: Date[],
+    values: (number | null)[],
+    fromIndex: number
+  ): IndicatorDataPoint[] {
+    if (!previous) {
+      return this.formatDataPoints(timestamps, values);
+    }
+    
+    const start = Math.min(fromIndex, previous.length, timestamps.length);
+    return previous.slice(0, start).concat(
+      this.formatDataPoints(timestamps.slice(start), values.slice(start))
+    );
+  }
+}
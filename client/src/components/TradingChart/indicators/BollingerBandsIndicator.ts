@@ -0,0 +1,106 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class BollingerBandsIndicator extends BaseIndicator {
+  id = 'bollinger';
+  name = 'Bollinger Bands';
+  shortName = 'BB';
+  category = 'overlay' as const;
+  defaultParameters = {
+    period: 20,
+    standardDeviations: 2,
+    source: 'close'
+  };
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const { period, standardDeviations, source } = { ...this.defaultParameters, ...parameters };
+
+    const sourceData = this.getSourceValues(data, source);
+    const timestamps = data.map(d => d.timestamp);
+    const state = previous?.state;
+
+    // Middle band is the SMA; the bands sit a multiple of the population standard deviation away
+    const middle = this.calculateSMA(sourceData, period, state?.middle, fromIndex);
+    const start = state?.upper && state?.lower ? Math.min(fromIndex, state.upper.length, sourceData.length) : 0;
+    const upper = state?.upper?.slice(0, start) ?? [];
+    const lower = state?.lower?.slice(0, start) ?? [];
+
+    for (let i = start; i < sourceData.length; i++) {
+      const mean = middle[i];
+      if (mean === null) {
+        upper.push(null);
+        lower.push(null);
+        continue;
+      }
+
+      let squaredDiffSum = 0;
+      for (let j = 0; j < period; j++) {
+        const diff = sourceData[i - j] - mean;
+        squaredDiffSum += diff * diff;
+      }
+      const deviation = Math.sqrt(squaredDiffSum / period) * standardDeviations;
+      upper.push(mean + deviation);
+      lower.push(mean - deviation);
+    }
+
+    return {
+      datasets: [
+        {
+          label: `BB ${period}, ${standardDeviations}`,
+          data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, middle, fromIndex),
+          borderColor: 'rgb(255, 159, 64)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Upper Band',
+          data: this.updateDataPoints(previous?.datasets[1]?.data, timestamps, upper, fromIndex),
+          borderColor: 'rgba(54, 162, 235, 0.8)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Lower Band',
+          data: this.updateDataPoints(previous?.datasets[2]?.data, timestamps, lower, fromIndex),
+          borderColor: 'rgba(54, 162, 235, 0.8)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        }
+      ],
+      state: { middle, upper, lower }
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { period, standardDeviations } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof period === 'number' && period > 0 && period <= 500 &&
+           typeof standardDeviations === 'number' && standardDeviations > 0 && standardDeviations <= 10;
+  }
+}
@@ -0,0 +1,134 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class IchimokuIndicator extends BaseIndicator {
+  id = 'ichimoku';
+  name = 'Ichimoku Cloud';
+  shortName = 'Ichimoku';
+  category = 'overlay' as const;
+  defaultParameters = {
+    conversionPeriod: 9,
+    basePeriod: 26,
+    spanBPeriod: 52,
+    displacement: 26
+  };
+
+  // The leading spans are plotted ahead of the last bar, so the whole result is
+  // recalculated rather than updated in place
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    const { conversionPeriod, basePeriod, spanBPeriod, displacement } = { ...this.defaultParameters, ...parameters };
+
+    const timestamps = data.map(d => d.timestamp);
+    // Midpoint of the highest high and lowest low over `period` bars
+    const midpoint = (period: number) => data.map((_, i) => {
+      if (i < period - 1) return null;
+      const { highest, lowest } = this.getRange(data, i, period);
+      return (highest + lowest) / 2;
+    });
+
+    const conversion = midpoint(conversionPeriod);
+    const base = midpoint(basePeriod);
+    const spanB = midpoint(spanBPeriod);
+    const spanA = conversion.map((value, i) =>
+      value === null || base[i] === null ? null : (value + (base[i] as number)) / 2
+    );
+
+    // Like most charting packages, the displacement counts the current bar, so spans
+    // computed on a bar are drawn `displacement - 1` bars later
+    const shift = Math.max(0, displacement - 1);
+    const leadingTimestamps = timestamps.concat(this.extendTimestamps(timestamps, shift));
+    const lead = (values: (number | null)[]) => leadingTimestamps.map((_, i) => i >= shift ? values[i - shift] : null);
+    const lagging = timestamps.map((_, i) => i + shift < data.length ? data[i + shift].close : null);
+
+    return {
+      datasets: [
+        {
+          label: `Ichimoku ${conversionPeriod}, ${basePeriod}, ${spanBPeriod}, ${displacement}`,
+          data: this.formatDataPoints(timestamps, conversion),
+          borderColor: 'rgb(33, 150, 243)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Base Line',
+          data: this.formatDataPoints(timestamps, base),
+          borderColor: 'rgb(183, 28, 28)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Lagging Span',
+          data: this.formatDataPoints(timestamps, lagging),
+          borderColor: 'rgb(67, 160, 71)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Leading Span A',
+          data: this.formatDataPoints(leadingTimestamps, lead(spanA)),
+          borderColor: 'rgba(38, 166, 154, 0.8)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          // The cloud: shaded red where span B is above span A, green where it is below
+          label: 'Leading Span B',
+          data: this.formatDataPoints(leadingTimestamps, lead(spanB)),
+          borderColor: 'rgba(239, 83, 80, 0.8)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          fill: {
+            target: '-1',
+            above: 'rgba(239, 83, 80, 0.12)',
+            below: 'rgba(38, 166, 154, 0.12)'
+          },
+          yAxisID: 'y',
+          type: 'line'
+        }
+      ]
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { conversionPeriod, basePeriod, spanBPeriod, displacement } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof conversionPeriod === 'number' && conversionPeriod > 0 && conversionPeriod <= 500 &&
+           typeof basePeriod === 'number' && basePeriod > 0 && basePeriod <= 500 &&
+           typeof spanBPeriod === 'number' && spanBPeriod > 0 && spanBPeriod <= 500 &&
+           typeof displacement === 'number' && displacement > 0 && displacement <= 500;
+  }
+
+  // `count` timestamps past the last bar, spaced like the most recent bars
+  private extendTimestamps(timestamps: Date[], count: number): Date[] {
+    if (timestamps.length < 2 || count === 0) return [];
+
+    let spacing = Infinity;
+    for (let i = Math.max(1, timestamps.length - 5); i < timestamps.length; i++) {
+      const gap = timestamps[i].getTime() - timestamps[i - 1].getTime();
+      if (gap > 0) spacing = Math.min(spacing, gap);
+    }
+    if (!Number.isFinite(spacing)) return [];
+
+    const last = timestamps[timestamps.length - 1].getTime();
+    return Array.from({ length: count }, (_, i) => new Date(last + spacing * (i + 1)));
+  }
+}
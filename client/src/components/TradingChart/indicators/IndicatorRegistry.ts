@@ -1,12 +1,25 @@
-import type { IndicatorCalculator, IndicatorConfig, OHLCData } from './types';
+import type { IndicatorCalculator, IndicatorInstance, IndicatorParameters, IndicatorResult, IndicatorSettings, OHLCData } from './types';
 import { SMAIndicator } from './SMAIndicator';
 import { EMAIndicator } from './EMAIndicator';
 import { MACDIndicator } from './MACDIndicator';
 import { RSIIndicator } from './RSIIndicator';
+import { BollingerBandsIndicator } from './BollingerBandsIndicator';
+import { StochasticIndicator } from './StochasticIndicator';
+import { VWAPIndicator } from './VWAPIndicator';
+import { KeltnerChannelsIndicator } from './KeltnerChannelsIndicator';
+import { IchimokuIndicator } from './IchimokuIndicator';
+import { SupertrendIndicator } from './SupertrendIndicator';
+import { ParabolicSARIndicator } from './ParabolicSARIndicator';
+import { ATRIndicator } from './ATRIndicator';
+import { ADXIndicator } from './ADXIndicator';
+import { OBVIndicator } from './OBVIndicator';
+
+// Parameters that only place reference lines, left out of labels
+const LEVEL_PARAMETERS = ['overbought', 'oversold'];
 
 export class IndicatorRegistry {
   private indicators = new Map<string, IndicatorCalculator>();
-  private configs = new Map<string, IndicatorConfig>();
+  private listeners = new Set<() => void>();
   
   constructor() {
     this.registerDefaultIndicators();
@@ -18,126 +31,116 @@ export class IndicatorRegistry {
     this.register(new EMAIndicator());
     this.register(new MACDIndicator());
     this.register(new RSIIndicator());
-    
-    // Set up default configurations
-    this.addConfig({
-      id: 'sma20',
-      name: 'SMA 20',
-      category: 'overlay',
-      parameters: { period: 20, source: 'close' },
-      defaultParameters: { period: 20, source: 'close' },
-      enabled: false
-    });
-    
-    this.addConfig({
-      id: 'sma50',
-      name: 'SMA 50',
-      category: 'overlay',
-      parameters: { period: 50, source: 'close' },
-      defaultParameters: { period: 50, source: 'close' },
-      enabled: false
-    });
-    
-    this.addConfig({
-      id: 'ema20',
-      name: 'EMA 20',
-      category: 'overlay',
-      parameters: { period: 20, source: 'close' },
-      defaultParameters: { period: 20, source: 'close' },
-      enabled: false
-    });
-    
-    this.addConfig({
-      id: 'macd',
-      name: 'MACD (12,26,9)',
-      category: 'oscillator',
-      parameters: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, source: 'close' },
-      defaultParameters: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, source: 'close' },
-      enabled: false
-    });
-    
-    this.addConfig({
-      id: 'rsi14',
-      name: 'RSI 14',
-      category: 'oscillator',
-      parameters: { period: 14, source: 'close', overbought: 70, oversold: 30 },
-      defaultParameters: { period: 14, source: 'close', overbought: 70, oversold: 30 },
-      enabled: false
-    });
+    this.register(new BollingerBandsIndicator());
+    this.register(new StochasticIndicator());
+    this.register(new VWAPIndicator());
+    this.register(new KeltnerChannelsIndicator());
+    this.register(new IchimokuIndicator());
+    this.register(new SupertrendIndicator());
+    this.register(new ParabolicSARIndicator());
+    this.register(new ATRIndicator());
+    this.register(new ADXIndicator());
+    this.register(new OBVIndicator());
   }
   
   register(indicator: IndicatorCalculator) {
     this.indicators.set(indicator.id, indicator);
   }
   
-  addConfig(config: IndicatorConfig) {
-    this.configs.set(config.id, config);
+  unregister(id: string) {
+    this.indicators.delete(id);
   }
   
-  getIndicator(id: string): IndicatorCalculator | undefined {
-    return this.indicators.get(id);
+  /**
+   * Called when calculators were added or removed, or when one has new results for bars
+   * it already returned (scripts run in a worker). Returns a function that unsubscribes.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
   
-  getConfig(id: string): IndicatorConfig | undefined {
-    return this.configs.get(id);
+  notifyChanged() {
+    this.listeners.forEach(listener => listener());
   }
   
-  getAllConfigs(): IndicatorConfig[] {
-    return Array.from(this.configs.values());
+  getIndicator(id: string): IndicatorCalculator | undefined {
+    return this.indicators.get(id);
   }
   
-  getConfigsByCategory(category: 'overlay' | 'oscillator'): IndicatorConfig[] {
-    return Array.from(this.configs.values()).filter(config => config.category === category);
+  getIndicators(): IndicatorCalculator[] {
+    return Array.from(this.indicators.values());
   }
   
-  calculateIndicator(configId: string, data: OHLCData[]) {
-    const config = this.getConfig(configId);
-    if (!config) {
-      throw new Error(`Indicator config '${configId}' not found`);
-    }
-    
-    // Extract base indicator type from config ID
-    const baseType = this.extractBaseType(configId);
-    const indicator = this.getIndicator(baseType);
-    
+  getIndicatorsByCategory(category: 'overlay' | 'oscillator'): IndicatorCalculator[] {
+    return this.getIndicators().filter(indicator => indicator.category === category);
+  }
+  
+  // New chart instance of an indicator with its default parameters
+  createInstance(indicatorId: string, parameters: IndicatorSettings['parameters'] = {}): IndicatorInstance {
+    const indicator = this.getIndicator(indicatorId);
     if (!indicator) {
-      throw new Error(`Indicator calculator '${baseType}' not found`);
+      throw new Error(`Indicator calculator '${indicatorId}' not found`);
     }
     
-    if (!indicator.validateParameters(config.parameters)) {
-      throw new Error(`Invalid parameters for indicator '${configId}'`);
-    }
-    
-    return indicator.calculate(data, config.parameters);
+    return {
+      id: `${indicatorId}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      indicator: indicatorId,
+      parameters: { ...indicator.defaultParameters, ...parameters }
+    };
   }
   
-  private extractBaseType(configId: string): string {
-    // Extract base indicator type from config ID
-    // e.g., 'sma20' -> 'sma', 'rsi14' -> 'rsi'
-    if (configId.startsWith('sma')) return 'sma';
-    if (configId.startsWith('ema')) return 'ema';
-    if (configId.startsWith('macd')) return 'macd';
-    if (configId.startsWith('rsi')) return 'rsi';
-    
-    // Default to the config ID itself
-    return configId;
+  calculate(settings: IndicatorSettings, data: OHLCData[]): IndicatorResult {
+    const { indicator, parameters } = this.resolve(settings);
+    return indicator.calculate(data, parameters);
   }
   
-  enableIndicator(configId: string) {
-    const config = this.getConfig(configId);
-    if (config) {
-      config.enabled = true;
+  /**
+   * Recalculate an indicator after bars from `fromIndex` onwards changed,
+   * falling back to a full calculation when the indicator can't update incrementally.
+   */
+  update(settings: IndicatorSettings, data: OHLCData[], previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    const { indicator, parameters } = this.resolve(settings);
+    
+    if (!indicator.update || fromIndex <= 0) {
+      return indicator.calculate(data, parameters);
     }
+    
+    return indicator.update(data, parameters, previous, fromIndex);
   }
   
-  disableIndicator(configId: string) {
-    const config = this.getConfig(configId);
-    if (config) {
-      config.enabled = false;
-    }
+  // Compact label such as 'RSI 14', 'MACD 12, 26, 9' or 'SMA 50 hl2'
+  describe(settings: IndicatorSettings): string {
+    const indicator = this.getIndicator(settings.indicator);
+    const label = indicator?.shortName ?? indicator?.name ?? settings.indicator.toUpperCase();
+    const { source, ...parameters } = { ...indicator?.defaultParameters, ...settings.parameters };
+    
+    const values = Object.entries(parameters)
+      .filter(([key, value]) => typeof value === 'number' && !LEVEL_PARAMETERS.includes(key))
+      .map(([, value]) => value);
+    const defaultSource = indicator?.defaultParameters.source ?? 'close';
+    const suffix = typeof source === 'string' && source !== defaultSource ? ` ${source}` : '';
+    
+    return `${label}${values.length > 0 ? ` ${values.join(', ')}` : ''}${suffix}`;
   }
   
-  getEnabledConfigs(): IndicatorConfig[] {
-    return Array.from(this.configs.values()).filter(config => config.enabled);
+  // Missing parameters fall back to the calculator's defaults
+  private resolve(settings: IndicatorSettings): { indicator: IndicatorCalculator; parameters: IndicatorParameters } {
+    const indicator = this.getIndicator(settings.indicator);
+    if (!indicator) {
+      throw new Error(`Indicator calculator '${settings.indicator}' not found`);
+    }
+    
+    const parameters = { ...indicator.defaultParameters, ...settings.parameters };
+    if (!indicator.validateParameters(parameters)) {
+      throw new Error(`Invalid parameters for indicator '${settings.indicator}'`);
+    }
+    
+    return { indicator, parameters };
   }
-}
\ No newline at end of file
+}
+
+// Shared by the chart, alerts and the scanner, so they all offer the same indicators
+export const indicatorRegistry = new IndicatorRegistry();
@@ -0,0 +1,96 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class KeltnerChannelsIndicator extends BaseIndicator {
+  id = 'keltner';
+  name = 'Keltner Channels';
+  shortName = 'KC';
+  category = 'overlay' as const;
+  defaultParameters = {
+    period: 20,
+    atrPeriod: 10,
+    multiplier: 2,
+    source: 'close'
+  };
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const { period, atrPeriod, multiplier, source } = { ...this.defaultParameters, ...parameters };
+
+    const sourceData = this.getSourceValues(data, source);
+    const timestamps = data.map(d => d.timestamp);
+    const state = previous?.state;
+
+    // EMA basis with the channel a multiple of the ATR either side
+    const middle = this.calculateEMA(sourceData, period, state?.middle, fromIndex);
+    const atr = this.calculateATR(data, atrPeriod, state?.atr, fromIndex);
+    const upper: (number | null)[] = [];
+    const lower: (number | null)[] = [];
+    for (let i = 0; i < data.length; i++) {
+      const mean = middle[i];
+      const range = atr[i];
+      upper.push(mean === null || range === null ? null : mean + range * multiplier);
+      lower.push(mean === null || range === null ? null : mean - range * multiplier);
+    }
+
+    return {
+      datasets: [
+        {
+          label: `KC ${period}, ${atrPeriod}, ${multiplier}`,
+          data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, middle, fromIndex),
+          borderColor: 'rgb(33, 150, 243)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Upper Channel',
+          data: this.updateDataPoints(previous?.datasets[1]?.data, timestamps, upper, fromIndex),
+          borderColor: 'rgba(156, 39, 176, 0.8)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Lower Channel',
+          data: this.updateDataPoints(previous?.datasets[2]?.data, timestamps, lower, fromIndex),
+          borderColor: 'rgba(156, 39, 176, 0.8)',
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'y',
+          type: 'line'
+        }
+      ],
+      state: { middle, atr }
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { period, atrPeriod, multiplier } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof period === 'number' && period > 0 && period <= 500 &&
+           typeof atrPeriod === 'number' && atrPeriod > 0 && atrPeriod <= 500 &&
+           typeof multiplier === 'number' && multiplier > 0 && multiplier <= 10;
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseIndicator } from './BaseIndicator';
-import type { OHLCData } from './types';
+import type { IndicatorParameters, OHLCData } from './types';
 import type { IndicatorResult } from './types';
 
 export class MACDIndicator extends BaseIndicator {
@@ -13,25 +13,29 @@ export class MACDIndicator extends BaseIndicator {
     source: 'close'
   };
 
-  calculate(data: OHLCData[], parameters: Record<string, any>): IndicatorResult {
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
     const { fastPeriod, slowPeriod, signalPeriod, source } = { ...this.defaultParameters, ...parameters };
     
-    // Extract source data
-    const sourceData = data.map(d => {
-      switch (source) {
-        case 'high': return d.high;
-        case 'low': return d.low;
-        case 'open': return d.open;
-        case 'close':
-        default: return d.close;
-      }
-    });
-    
+    const sourceData = this.getSourceValues(data, source);
     const timestamps = data.map(d => d.timestamp);
+    const state = previous?.state;
     
     // Calculate fast and slow EMA
-    const fastEMA = this.calculateEMA(sourceData, fastPeriod);
-    const slowEMA = this.calculateEMA(sourceData, slowPeriod);
+    const fastEMA = this.calculateEMA(sourceData, fastPeriod, state?.fast, fromIndex);
+    const slowEMA = this.calculateEMA(sourceData, slowPeriod, state?.slow, fromIndex);
     
     // Calculate MACD line (fast EMA - slow EMA)
     const macdLine = sourceData.map((_, i) => {
@@ -40,13 +44,18 @@ export class MACDIndicator extends BaseIndicator {
     });
     
     // Calculate signal line (EMA of MACD line)
-    const validMacdValues = macdLine.filter(val => val !== null) as number[];
     const macdStartIndex = macdLine.findIndex(val => val !== null);
     
-    let signalLine: (number | null)[] = new Array(macdStartIndex).fill(null);
-    if (validMacdValues.length > 0) {
-      const signalEMA = this.calculateEMA(validMacdValues, signalPeriod);
-      signalLine = signalLine.concat(signalEMA);
+    let signalLine: (number | null)[] = macdLine.map(() => null);
+    if (macdStartIndex >= 0) {
+      const validMacdValues = macdLine.slice(macdStartIndex) as number[];
+      const signalEMA = this.calculateEMA(
+        validMacdValues,
+        signalPeriod,
+        state?.signal?.slice(macdStartIndex),
+        Math.max(0, fromIndex - macdStartIndex)
+      );
+      signalLine = new Array<number | null>(macdStartIndex).fill(null).concat(signalEMA);
     }
     
     // Calculate histogram (MACD - Signal)
@@ -59,7 +68,7 @@ export class MACDIndicator extends BaseIndicator {
       datasets: [
         {
           label: 'MACD',
-          data: this.formatDataPoints(timestamps, macdLine),
+          data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, macdLine, fromIndex),
           borderColor: 'rgb(54, 162, 235)',
           backgroundColor: 'transparent',
           borderWidth: 2,
@@ -70,7 +79,7 @@ export class MACDIndicator extends BaseIndicator {
         },
         {
           label: 'Signal',
-          data: this.formatDataPoints(timestamps, signalLine),
+          data: this.updateDataPoints(previous?.datasets[1]?.data, timestamps, signalLine, fromIndex),
           borderColor: 'rgb(255, 99, 132)',
           backgroundColor: 'transparent',
           borderWidth: 2,
@@ -81,7 +90,7 @@ export class MACDIndicator extends BaseIndicator {
         },
         {
           label: 'Histogram',
-          data: this.formatDataPoints(timestamps, histogram),
+          data: this.updateDataPoints(previous?.datasets[2]?.data, timestamps, histogram, fromIndex),
           backgroundColor: histogram.map(val => 
             val === null ? 'rgba(128, 128, 128, 0.6)' :
             val >= 0 ? 'rgba(38, 166, 154, 0.6)' : 'rgba(239, 83, 80, 0.6)'
@@ -108,11 +117,12 @@ export class MACDIndicator extends BaseIndicator {
             text: 'MACD'
           }
         }
-      }
+      },
+      state: { fast: fastEMA, slow: slowEMA, signal: signalLine }
     };
   }
 
-  validateParameters(parameters: Record<string, any>): boolean {
+  validateParameters(parameters: IndicatorParameters): boolean {
     const { fastPeriod, slowPeriod, signalPeriod } = parameters;
     return super.validateParameters(parameters) && 
            typeof fastPeriod === 'number' && fastPeriod > 0 &&
@@ -0,0 +1,71 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class OBVIndicator extends BaseIndicator {
+  id = 'obv';
+  name = 'On-Balance Volume';
+  shortName = 'OBV';
+  category = 'oscillator' as const;
+  defaultParameters = {};
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  // Running total of volume, added on up closes and subtracted on down closes
+  private compute(
+    data: OHLCData[],
+    _parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const timestamps = data.map(d => d.timestamp);
+    const previousValues = previous?.state?.values;
+    const start = previousValues ? Math.min(fromIndex, previousValues.length, data.length) : 0;
+    const obv = previousValues?.slice(0, start) ?? [];
+
+    for (let i = start; i < data.length; i++) {
+      if (i === 0) {
+        obv.push(0);
+        continue;
+      }
+      const change = data[i].close - data[i - 1].close;
+      const direction = change > 0 ? 1 : change < 0 ? -1 : 0;
+      obv.push((obv[i - 1] as number) + direction * data[i].volume);
+    }
+
+    return {
+      datasets: [{
+        label: 'OBV',
+        data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, obv, fromIndex),
+        borderColor: 'rgb(75, 192, 192)',
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.1,
+        yAxisID: 'obv',
+        type: 'line'
+      }],
+      scales: {
+        obv: {
+          type: 'linear',
+          position: 'right',
+          display: true,
+          grid: {
+            color: 'rgba(255, 255, 255, 0.1)'
+          },
+          title: {
+            display: true,
+            text: 'OBV'
+          }
+        }
+      },
+      state: { values: obv }
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class ParabolicSARIndicator extends BaseIndicator {
+  id = 'psar';
+  name = 'Parabolic SAR';
+  shortName = 'SAR';
+  category = 'overlay' as const;
+  defaultParameters = {
+    step: 0.02,
+    maxStep: 0.2
+  };
+
+  // Wilder's stop and reverse. Each bar depends on the trend, extreme point and acceleration
+  // before it, and a full pass is cheap, so there is no incremental update.
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    const { step, maxStep } = { ...this.defaultParameters, ...parameters };
+
+    const timestamps = data.map(d => d.timestamp);
+    const sar: (number | null)[] = [];
+
+    if (data.length > 0) sar.push(null);
+    if (data.length > 1) {
+      // The first two closes pick the starting trend; the first bar's extreme is the starting stop
+      let rising = data[1].close >= data[0].close;
+      let stop = rising ? data[0].low : data[0].high;
+      let extreme = rising ? data[1].high : data[1].low;
+      let acceleration = step;
+      sar.push(stop);
+
+      for (let i = 2; i < data.length; i++) {
+        stop += acceleration * (extreme - stop);
+
+        if (rising) {
+          // The stop may not move into the previous two bars' range
+          stop = Math.min(stop, data[i - 1].low, data[i - 2].low);
+          if (data[i].low < stop) {
+            rising = false;
+            stop = extreme;
+            extreme = data[i].low;
+            acceleration = step;
+          } else if (data[i].high > extreme) {
+            extreme = data[i].high;
+            acceleration = Math.min(acceleration + step, maxStep);
+          }
+        } else {
+          stop = Math.max(stop, data[i - 1].high, data[i - 2].high);
+          if (data[i].high > stop) {
+            rising = true;
+            stop = extreme;
+            extreme = data[i].high;
+            acceleration = step;
+          } else if (data[i].low < extreme) {
+            extreme = data[i].low;
+            acceleration = Math.min(acceleration + step, maxStep);
+          }
+        }
+
+        sar.push(stop);
+      }
+    }
+
+    return {
+      datasets: [{
+        label: `SAR ${step}, ${maxStep}`,
+        data: this.formatDataPoints(timestamps, sar),
+        borderColor: 'rgb(255, 159, 64)',
+        backgroundColor: 'rgb(255, 159, 64)',
+        borderWidth: 1,
+        pointRadius: 1.5,
+        showLine: false,
+        yAxisID: 'y',
+        type: 'line'
+      }]
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { step, maxStep } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof step === 'number' && step > 0 && step <= 1 &&
+           typeof maxStep === 'number' && maxStep >= step && maxStep <= 1;
+  }
+}
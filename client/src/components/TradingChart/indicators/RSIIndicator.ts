@@ -1,5 +1,5 @@
 import { BaseIndicator } from './BaseIndicator';
-import type { OHLCData } from './types';
+import type { IndicatorParameters, OHLCData } from './types';
 import type { IndicatorResult } from './types';
 
 export class RSIIndicator extends BaseIndicator {
@@ -13,73 +13,40 @@ export class RSIIndicator extends BaseIndicator {
     oversold: 30
   };
 
-  calculate(data: OHLCData[], parameters: Record<string, any>): IndicatorResult {
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
     const { period, source, overbought, oversold } = { ...this.defaultParameters, ...parameters };
     
-    // Extract source data
-    const sourceData = data.map(d => {
-      switch (source) {
-        case 'high': return d.high;
-        case 'low': return d.low;
-        case 'open': return d.open;
-        case 'close':
-        default: return d.close;
-      }
-    });
-    
+    const sourceData = this.getSourceValues(data, source);
     const timestamps = data.map(d => d.timestamp);
-    const rsiValues = this.calculateRSI(sourceData, period);
-    
-    // Create level lines for overbought/oversold
-    const overboughtLine = timestamps.map(() => overbought);
-    const oversoldLine = timestamps.map(() => oversold);
-    const middleLine = timestamps.map(() => 50);
+    const { rsi: rsiValues, avgGain, avgLoss } = this.calculateRSI(sourceData, period, previous?.state, fromIndex);
     
     return {
       datasets: [
         {
           label: `RSI ${period}`,
-          data: this.formatDataPoints(timestamps, rsiValues),
+          data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, rsiValues, fromIndex),
           borderColor: 'rgb(153, 102, 255)',
           backgroundColor: 'transparent',
           borderWidth: 2,
           pointRadius: 0,
           tension: 0.1,
           yAxisID: 'rsi',
-          type: 'line'
-        },
-        {
-          label: 'Overbought',
-          data: this.formatDataPoints(timestamps, overboughtLine),
-          borderColor: 'rgba(239, 83, 80, 0.5)',
-          backgroundColor: 'transparent',
-          borderWidth: 1,
-          borderDash: [5, 5],
-          pointRadius: 0,
-          yAxisID: 'rsi',
-          type: 'line'
-        },
-        {
-          label: 'Oversold',
-          data: this.formatDataPoints(timestamps, oversoldLine),
-          borderColor: 'rgba(38, 166, 154, 0.5)',
-          backgroundColor: 'transparent',
-          borderWidth: 1,
-          borderDash: [5, 5],
-          pointRadius: 0,
-          yAxisID: 'rsi',
-          type: 'line'
-        },
-        {
-          label: 'Midline',
-          data: this.formatDataPoints(timestamps, middleLine),
-          borderColor: 'rgba(128, 128, 128, 0.3)',
-          backgroundColor: 'transparent',
-          borderWidth: 1,
-          borderDash: [2, 2],
-          pointRadius: 0,
-          yAxisID: 'rsi',
-          type: 'line'
+          type: 'line',
+          upperLevel: overbought,
+          lowerLevel: oversold
         }
       ],
       scales: {
@@ -100,75 +67,75 @@ export class RSIIndicator extends BaseIndicator {
             stepSize: 20
           }
         }
-      }
+      },
+      state: { avgGain, avgLoss }
     };
   }
 
-  private calculateRSI(prices: number[], period: number): (number | null)[] {
-    const result: (number | null)[] = [];
+  // Wilder's smoothing; the running averages are returned so later updates can resume from them
+  private calculateRSI(
+    prices: number[],
+    period: number,
+    previous?: Record<string, (number | null)[]>,
+    fromIndex = 0
+  ): { rsi: (number | null)[]; avgGain: (number | null)[]; avgLoss: (number | null)[] } {
+    const rsi: (number | null)[] = [];
+    const avgGain: (number | null)[] = [];
+    const avgLoss: (number | null)[] = [];
     
-    if (prices.length < period + 1) {
-      return prices.map(() => null);
-    }
-    
-    // Calculate price changes
-    const changes = prices.slice(1).map((price, i) => price - prices[i]);
+    const toRSI = (gain: number, loss: number) => loss === 0 ? 100 : 100 - (100 / (1 + gain / loss));
     
-    // Separate gains and losses
-    const gains = changes.map(change => change > 0 ? change : 0);
-    const losses = changes.map(change => change < 0 ? Math.abs(change) : 0);
+    let start = 0;
+    const resumable = previous?.avgGain && previous?.avgLoss && fromIndex > period &&
+      fromIndex <= previous.avgGain.length && previous.avgGain[fromIndex - 1] !== null;
     
-    result.push(null); // First value is always null due to change calculation
-    
-    for (let i = 0; i < changes.length; i++) {
-      if (i < period - 1) {
-        result.push(null);
-        continue;
+    if (resumable) {
+      start = fromIndex;
+      for (let i = 0; i < start; i++) {
+        const gain = previous!.avgGain[i];
+        const loss = previous!.avgLoss[i];
+        avgGain.push(gain);
+        avgLoss.push(loss);
+        rsi.push(gain === null || loss === null ? null : toRSI(gain, loss));
       }
-      
-      let avgGain: number;
-      let avgLoss: number;
-      
-      if (i === period - 1) {
-        // Initial calculation - simple average
-        avgGain = gains.slice(0, period).reduce((sum, gain) => sum + gain, 0) / period;
-        avgLoss = losses.slice(0, period).reduce((sum, loss) => sum + loss, 0) / period;
-      } else {
-        // Subsequent calculations - exponential smoothing
-        const prevAvgGain = this.getPreviousAvgGain(result, i - 1, gains, losses, period);
-        const prevAvgLoss = this.getPreviousAvgLoss(result, i - 1, gains, losses, period);
-        
-        avgGain = ((prevAvgGain * (period - 1)) + gains[i]) / period;
-        avgLoss = ((prevAvgLoss * (period - 1)) + losses[i]) / period;
+    } else {
+      // Bars before the first full period have no value
+      for (; start < Math.min(period, prices.length); start++) {
+        rsi.push(null);
+        avgGain.push(null);
+        avgLoss.push(null);
       }
       
-      if (avgLoss === 0) {
-        result.push(100);
-      } else {
-        const rs = avgGain / avgLoss;
-        const rsi = 100 - (100 / (1 + rs));
-        result.push(rsi);
+      if (prices.length > period) {
+        // Initial calculation - simple average of the first `period` changes
+        let gainSum = 0;
+        let lossSum = 0;
+        for (let i = 1; i <= period; i++) {
+          const change = prices[i] - prices[i - 1];
+          gainSum += Math.max(change, 0);
+          lossSum += Math.max(-change, 0);
+        }
+        avgGain.push(gainSum / period);
+        avgLoss.push(lossSum / period);
+        rsi.push(toRSI(gainSum / period, lossSum / period));
+        start = period + 1;
       }
     }
     
-    return result;
-  }
-
-  private getPreviousAvgGain(_results: (number | null)[], index: number, gains: number[], _losses: number[], period: number): number {
-    // Simplified - in a real implementation, we'd store the running averages
-    // For now, recalculate from the start
-    const startIndex = index - period + 1;
-    return gains.slice(startIndex, index + 1).reduce((sum, gain) => sum + gain, 0) / period;
-  }
-
-  private getPreviousAvgLoss(_results: (number | null)[], index: number, _gains: number[], losses: number[], period: number): number {
-    // Simplified - in a real implementation, we'd store the running averages
-    // For now, recalculate from the start
-    const startIndex = index - period + 1;
-    return losses.slice(startIndex, index + 1).reduce((sum, loss) => sum + loss, 0) / period;
+    // Subsequent calculations - exponential smoothing
+    for (let i = start; i < prices.length; i++) {
+      const change = prices[i] - prices[i - 1];
+      const gain = ((avgGain[i - 1] as number) * (period - 1) + Math.max(change, 0)) / period;
+      const loss = ((avgLoss[i - 1] as number) * (period - 1) + Math.max(-change, 0)) / period;
+      avgGain.push(gain);
+      avgLoss.push(loss);
+      rsi.push(toRSI(gain, loss));
+    }
+    
+    return { rsi, avgGain, avgLoss };
   }
 
-  validateParameters(parameters: Record<string, any>): boolean {
+  validateParameters(parameters: IndicatorParameters): boolean {
     const { period, overbought, oversold } = parameters;
     return super.validateParameters(parameters) && 
            typeof period === 'number' && period > 0 && period <= 100 &&
@@ -1,37 +1,41 @@
 import { BaseIndicator } from './BaseIndicator';
-import type { OHLCData } from './types';
+import type { IndicatorParameters, OHLCData } from './types';
 import type { IndicatorResult } from './types';
 
 export class SMAIndicator extends BaseIndicator {
   id = 'sma';
   name = 'Simple Moving Average';
+  shortName = 'SMA';
   category = 'overlay' as const;
   defaultParameters = {
     period: 20,
     source: 'close'
   };
 
-  calculate(data: OHLCData[], parameters: Record<string, any>): IndicatorResult {
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
     const { period, source } = { ...this.defaultParameters, ...parameters };
     
-    // Extract source data
-    const sourceData = data.map(d => {
-      switch (source) {
-        case 'high': return d.high;
-        case 'low': return d.low;
-        case 'open': return d.open;
-        case 'close':
-        default: return d.close;
-      }
-    });
-    
-    const smaValues = this.calculateSMA(sourceData, period);
+    const sourceData = this.getSourceValues(data, source);
+    const smaValues = this.calculateSMA(sourceData, period, previous?.state?.values, fromIndex);
     const timestamps = data.map(d => d.timestamp);
     
     return {
       datasets: [{
         label: `SMA ${period}`,
-        data: this.formatDataPoints(timestamps, smaValues),
+        data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, smaValues, fromIndex),
         borderColor: this.getColorForPeriod(period),
         backgroundColor: 'transparent',
         borderWidth: 2,
@@ -39,7 +43,8 @@ export class SMAIndicator extends BaseIndicator {
         tension: 0.1,
         yAxisID: 'y',
         type: 'line'
-      }]
+      }],
+      state: { values: smaValues }
     };
   }
 
@@ -65,7 +70,7 @@ export class SMAIndicator extends BaseIndicator {
     }
   }
 
-  validateParameters(parameters: Record<string, any>): boolean {
+  validateParameters(parameters: IndicatorParameters): boolean {
     const { period } = parameters;
     return super.validateParameters(parameters) && 
            typeof period === 'number' && 
@@ -0,0 +1,118 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class StochasticIndicator extends BaseIndicator {
+  id = 'stochastic';
+  name = 'Stochastic';
+  shortName = 'Stoch';
+  category = 'oscillator' as const;
+  defaultParameters = {
+    kPeriod: 14,
+    dPeriod: 3,
+    smoothK: 3,
+    overbought: 80,
+    oversold: 20
+  };
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const { kPeriod, dPeriod, smoothK, overbought, oversold } = { ...this.defaultParameters, ...parameters };
+
+    const timestamps = data.map(d => d.timestamp);
+    const state = previous?.state;
+
+    // Raw %K: where the close sits in the high-low range of the last `kPeriod` bars
+    const start = state?.rawK ? Math.min(fromIndex, state.rawK.length, data.length) : 0;
+    const rawK = state?.rawK?.slice(0, start) ?? [];
+    for (let i = start; i < data.length; i++) {
+      if (i < kPeriod - 1) {
+        rawK.push(null);
+        continue;
+      }
+
+      const { highest, lowest } = this.getRange(data, i, kPeriod);
+      const range = highest - lowest;
+      rawK.push(range === 0 ? 50 : ((data[i].close - lowest) / range) * 100);
+    }
+
+    // %K is raw %K smoothed over `smoothK` bars (1 for the fast stochastic); %D is an SMA of %K
+    const kLine = this.calculateFromOffset(
+      rawK, kPeriod - 1, (values, prev, from) => this.calculateSMA(values, smoothK, prev, from), state?.k, fromIndex
+    );
+    const dLine = this.calculateFromOffset(
+      kLine, kPeriod + smoothK - 2, (values, prev, from) => this.calculateSMA(values, dPeriod, prev, from), state?.d, fromIndex
+    );
+
+    return {
+      datasets: [
+        {
+          label: `%K ${kPeriod}, ${smoothK}`,
+          data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, kLine, fromIndex),
+          borderColor: 'rgb(54, 162, 235)',
+          backgroundColor: 'transparent',
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'stochastic',
+          type: 'line',
+          upperLevel: overbought,
+          lowerLevel: oversold
+        },
+        {
+          label: `%D ${dPeriod}`,
+          data: this.updateDataPoints(previous?.datasets[1]?.data, timestamps, dLine, fromIndex),
+          borderColor: 'rgb(255, 159, 64)',
+          backgroundColor: 'transparent',
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0.1,
+          yAxisID: 'stochastic',
+          type: 'line'
+        }
+      ],
+      scales: {
+        stochastic: {
+          type: 'linear',
+          position: 'right',
+          display: true,
+          min: 0,
+          max: 100,
+          grid: {
+            color: 'rgba(255, 255, 255, 0.1)'
+          },
+          title: {
+            display: true,
+            text: 'Stochastic'
+          },
+          ticks: {
+            stepSize: 20
+          }
+        }
+      },
+      state: { rawK, k: kLine, d: dLine }
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { kPeriod, dPeriod, smoothK, overbought, oversold } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof kPeriod === 'number' && kPeriod > 0 && kPeriod <= 100 &&
+           typeof dPeriod === 'number' && dPeriod > 0 && dPeriod <= 100 &&
+           typeof smoothK === 'number' && smoothK > 0 && smoothK <= 100 &&
+           typeof overbought === 'number' && overbought > 50 && overbought <= 100 &&
+           typeof oversold === 'number' && oversold >= 0 && oversold < 50;
+  }
+}
@@ -0,0 +1,109 @@
+import { BaseIndicator } from './BaseIndicator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class SupertrendIndicator extends BaseIndicator {
+  id = 'supertrend';
+  name = 'Supertrend';
+  category = 'overlay' as const;
+  defaultParameters = {
+    atrPeriod: 10,
+    multiplier: 3
+  };
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const { atrPeriod, multiplier } = { ...this.defaultParameters, ...parameters };
+
+    const timestamps = data.map(d => d.timestamp);
+    const state = previous?.state;
+    const atr = this.calculateATR(data, atrPeriod, state?.atr, fromIndex);
+
+    const start = state?.upper && state?.lower && state?.trend
+      ? Math.min(fromIndex, state.trend.length, data.length)
+      : 0;
+    const upper = state?.upper?.slice(0, start) ?? [];
+    const lower = state?.lower?.slice(0, start) ?? [];
+    const trend = state?.trend?.slice(0, start) ?? []; // 1 up, -1 down
+
+    for (let i = start; i < data.length; i++) {
+      const range = atr[i];
+      if (range === null) {
+        upper.push(null);
+        lower.push(null);
+        trend.push(null);
+        continue;
+      }
+
+      // Bands around hl2 only tighten while price stays on their side
+      const median = (data[i].high + data[i].low) / 2;
+      const prevUpper = upper[i - 1] ?? null;
+      const prevLower = lower[i - 1] ?? null;
+      const prevClose = i > 0 ? data[i - 1].close : data[i].close;
+
+      let basicLower = median - range * multiplier;
+      if (prevLower !== null && prevClose > prevLower) basicLower = Math.max(basicLower, prevLower);
+      let basicUpper = median + range * multiplier;
+      if (prevUpper !== null && prevClose < prevUpper) basicUpper = Math.min(basicUpper, prevUpper);
+
+      // The trend flips when the close breaks through the previous bar's opposite band
+      let direction = trend[i - 1] ?? 1;
+      if (direction === -1 && prevUpper !== null && data[i].close > prevUpper) direction = 1;
+      else if (direction === 1 && prevLower !== null && data[i].close < prevLower) direction = -1;
+
+      upper.push(basicUpper);
+      lower.push(basicLower);
+      trend.push(direction);
+    }
+
+    const upTrend = trend.map((direction, i) => direction === 1 ? lower[i] : null);
+    const downTrend = trend.map((direction, i) => direction === -1 ? upper[i] : null);
+
+    return {
+      datasets: [
+        {
+          label: `Supertrend ${atrPeriod}, ${multiplier}`,
+          data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, upTrend, fromIndex),
+          borderColor: 'rgb(38, 166, 154)',
+          backgroundColor: 'transparent',
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0,
+          yAxisID: 'y',
+          type: 'line'
+        },
+        {
+          label: 'Down Trend',
+          data: this.updateDataPoints(previous?.datasets[1]?.data, timestamps, downTrend, fromIndex),
+          borderColor: 'rgb(239, 83, 80)',
+          backgroundColor: 'transparent',
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0,
+          yAxisID: 'y',
+          type: 'line'
+        }
+      ],
+      state: { atr, upper, lower, trend }
+    };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    const { atrPeriod, multiplier } = parameters;
+    return super.validateParameters(parameters) &&
+           typeof atrPeriod === 'number' && atrPeriod > 0 && atrPeriod <= 500 &&
+           typeof multiplier === 'number' && multiplier > 0 && multiplier <= 20;
+  }
+}
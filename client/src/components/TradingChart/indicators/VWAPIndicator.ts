@@ -0,0 +1,72 @@
+import { BaseIndicator } from './BaseIndicator';
+import { getExchangeDate } from '../services/BarAggregator';
+import type { IndicatorParameters, OHLCData } from './types';
+import type { IndicatorResult } from './types';
+
+export class VWAPIndicator extends BaseIndicator {
+  id = 'vwap';
+  name = 'VWAP';
+  category = 'overlay' as const;
+  defaultParameters = {
+    source: 'hlc3' // price for bars that don't carry their own VWAP
+  };
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    return this.compute(data, parameters);
+  }
+
+  update(data: OHLCData[], parameters: IndicatorParameters, previous: IndicatorResult, fromIndex: number): IndicatorResult {
+    return this.compute(data, parameters, previous, fromIndex);
+  }
+
+  // Anchored to the session: the running totals restart on each exchange trading day
+  private compute(
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous?: IndicatorResult,
+    fromIndex = 0
+  ): IndicatorResult {
+    const { source } = { ...this.defaultParameters, ...parameters };
+
+    const sourceData = this.getSourceValues(data, source);
+    const timestamps = data.map(d => d.timestamp);
+    const state = previous?.state;
+
+    const start = state?.volume && state?.value && state?.vwap
+      ? Math.min(fromIndex, state.vwap.length, data.length)
+      : 0;
+    const cumulativeVolume = state?.volume?.slice(0, start) ?? [];
+    const cumulativeValue = state?.value?.slice(0, start) ?? [];
+    const vwap = state?.vwap?.slice(0, start) ?? [];
+
+    let previousDate = start > 0 ? getExchangeDate(data[start - 1].timestamp) : '';
+    for (let i = start; i < data.length; i++) {
+      const date = getExchangeDate(data[i].timestamp);
+      const newSession = i === 0 || date !== previousDate;
+      previousDate = date;
+
+      // The provider's per-bar VWAP is more accurate than any single price for the bar
+      const price = data[i].vwap ?? sourceData[i];
+      const volume = (newSession ? 0 : cumulativeVolume[i - 1] as number) + data[i].volume;
+      const value = (newSession ? 0 : cumulativeValue[i - 1] as number) + price * data[i].volume;
+      cumulativeVolume.push(volume);
+      cumulativeValue.push(value);
+      vwap.push(volume > 0 ? value / volume : price);
+    }
+
+    return {
+      datasets: [{
+        label: 'VWAP',
+        data: this.updateDataPoints(previous?.datasets[0]?.data, timestamps, vwap, fromIndex),
+        borderColor: 'rgb(255, 205, 86)',
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.1,
+        yAxisID: 'y',
+        type: 'line'
+      }],
+      state: { volume: cumulativeVolume, value: cumulativeValue, vwap }
+    };
+  }
+}
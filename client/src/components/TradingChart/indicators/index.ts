@@ -5,4 +5,17 @@ export * from './SMAIndicator';
 export * from './EMAIndicator';
 export * from './MACDIndicator';
 export * from './RSIIndicator';
-export * from './IndicatorRegistry';
\ No newline at end of file
+export * from './BollingerBandsIndicator';
+export * from './StochasticIndicator';
+export * from './VWAPIndicator';
+export * from './KeltnerChannelsIndicator';
+export * from './IchimokuIndicator';
+export * from './SupertrendIndicator';
+export * from './ParabolicSARIndicator';
+export * from './ATRIndicator';
+export * from './ADXIndicator';
+export * from './OBVIndicator';
+export * from './IndicatorRegistry';
+export * from './indicatorStyles';
+export * from './indicatorCache';
+export * from './scripting';
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyTicks, type LiveTick } from '../services/BarAggregator';
+import { updateIndicatorCache, type IndicatorCache } from './indicatorCache';
+import { indicatorRegistry } from './IndicatorRegistry';
+import type { IndicatorInstance, OHLCData } from './types';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 5, 28, 14, 30);
+
+// 60 one-minute bars wandering around 100
+const history: OHLCData[] = Array.from({ length: 60 }, (_, i) => {
+  const open = 100 + 4 * Math.sin((i - 1) / 5) + Math.sin((i - 1) * 1.3);
+  const close = 100 + 4 * Math.sin(i / 5) + Math.sin(i * 1.3);
+  return {
+    timestamp: new Date(START + i * MINUTE),
+    open,
+    high: Math.max(open, close) + 0.5,
+    low: Math.min(open, close) - 0.5,
+    close,
+    volume: 1000 + 300 * Math.abs(Math.cos(i)),
+  };
+});
+
+// Ticks every 20 seconds for 5 minutes after the history, so each batch updates the last bar or opens a new one
+const ticks: LiveTick[] = Array.from({ length: 15 }, (_, i) => ({
+  price: 101 + 2 * Math.sin(i / 2),
+  timestamp: new Date(START + 60 * MINUTE + i * 20 * 1000),
+  volume: 50 + 10 * i,
+}));
+
+const instances: IndicatorInstance[] = [
+  { id: 'sma', indicator: 'sma', parameters: { period: 10 } },
+  { id: 'ema', indicator: 'ema', parameters: { period: 12 } },
+  { id: 'rsi', indicator: 'rsi', parameters: { period: 14 } },
+  { id: 'macd', indicator: 'macd', parameters: {} },
+  { id: 'bollinger', indicator: 'bollinger', parameters: { period: 20 } },
+  { id: 'vwap', indicator: 'vwap', parameters: {} },
+];
+
+const keyOf = (instance: IndicatorInstance) => JSON.stringify([instance.indicator, instance.parameters]);
+
+describe('updateIndicatorCache', () => {
+  it('matches a full recalculation as live ticks are aggregated into bars', () => {
+    let bars = history;
+    let cache: IndicatorCache = updateIndicatorCache(new Map(), instances, bars, indicatorRegistry, keyOf).cache;
+
+    for (let i = 0; i < ticks.length; i += 2) {
+      bars = applyTicks(bars, ticks.slice(i, i + 2), '1m');
+      const update = updateIndicatorCache(cache, instances, bars, indicatorRegistry, keyOf);
+
+      expect(update.errors.size).toBe(0);
+      instances.forEach(instance => {
+        const full = indicatorRegistry.calculate(instance, bars);
+        expect(update.cache.get(instance.id)?.result.datasets.map(d => d.data), `${instance.id} after tick ${i}`)
+          .toEqual(full.datasets.map(d => d.data));
+      });
+      cache = update.cache;
+    }
+
+    expect(bars.length).toBe(history.length + 5);
+  });
+
+  it('updates from the first changed bar and leaves the previous cache untouched', () => {
+    const registry = {
+      calculate: vi.fn(indicatorRegistry.calculate.bind(indicatorRegistry)),
+      update: vi.fn(indicatorRegistry.update.bind(indicatorRegistry)),
+    };
+    const [sma] = instances;
+    const previous = updateIndicatorCache(new Map(), [sma], history, registry, keyOf).cache;
+    const entry = previous.get('sma');
+
+    const ticked = applyTicks(history, ticks.slice(0, 1), '1m');
+    const next = updateIndicatorCache(previous, [sma], ticked, registry, keyOf).cache;
+
+    expect(registry.update).toHaveBeenCalledWith(sma, ticked, entry?.result, history.length);
+    expect(next).not.toBe(previous);
+    expect(previous.get('sma')).toBe(entry);
+    expect(entry?.data).toBe(history);
+  });
+
+  it('recalculates edited settings and drops removed instances', () => {
+    const calculate = vi.fn(indicatorRegistry.calculate.bind(indicatorRegistry));
+    const registry = { calculate, update: indicatorRegistry.update.bind(indicatorRegistry) };
+    const [sma, ema] = instances;
+    const previous = updateIndicatorCache(new Map(), [sma, ema], history, registry, keyOf).cache;
+    calculate.mockClear();
+
+    const edited = { ...sma, parameters: { period: 20 } };
+    const next = updateIndicatorCache(previous, [edited], history, registry, keyOf).cache;
+
+    expect(calculate).toHaveBeenCalledWith(edited, history);
+    expect([...next.keys()]).toEqual(['sma']);
+    expect(next.get('sma')?.result.datasets[0].label).toBe('SMA 20');
+  });
+
+  it('reports failing instances without dropping the others', () => {
+    const broken: IndicatorInstance = { id: 'broken', indicator: 'no-such-indicator', parameters: {} };
+
+    const { cache, errors } = updateIndicatorCache(new Map(), [broken, instances[0]], history, indicatorRegistry, keyOf);
+
+    expect((errors.get('broken') as Error).message).toContain("'no-such-indicator' not found");
+    expect([...cache.keys()]).toEqual(['sma']);
+  });
+
+  it('has nothing to calculate without bars', () => {
+    const { cache, errors } = updateIndicatorCache(new Map(), instances, [], indicatorRegistry, keyOf);
+
+    expect(cache.size).toBe(0);
+    expect(errors.size).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { findFirstChangedBar } from '../services/BarAggregator';
+import type { IndicatorRegistry } from './IndicatorRegistry';
+import type { IndicatorInstance, IndicatorResult, OHLCData } from './types';
+
+// Last result for one indicator instance and the bars it was calculated on.
+// `key` is the settings it was calculated with, so edited parameters recalculate in full.
+export interface CachedIndicatorResult {
+  key: string;
+  data: OHLCData[];
+  result: IndicatorResult;
+}
+
+export type IndicatorCache = ReadonlyMap<string, CachedIndicatorResult>;
+
+export interface IndicatorCacheUpdate {
+  cache: IndicatorCache;
+  errors: Map<string, unknown>; // instances whose calculation threw, by instance id
+}
+
+/**
+ * Results for each instance on `data`, starting from a previous cache: a result calculated with
+ * the same key is updated from the first bar that changed, anything else is calculated in full.
+ * Returns a new cache and leaves `previous` untouched, so it is safe to call while rendering.
+ */
+export function updateIndicatorCache(
+  previous: IndicatorCache,
+  instances: IndicatorInstance[],
+  data: OHLCData[],
+  registry: Pick<IndicatorRegistry, 'calculate' | 'update'>,
+  getKey: (instance: IndicatorInstance) => string
+): IndicatorCacheUpdate {
+  const cache = new Map<string, CachedIndicatorResult>();
+  const errors = new Map<string, unknown>();
+  // Nothing to calculate while bars are loading
+  if (data.length === 0) return { cache, errors };
+
+  instances.forEach(instance => {
+    const key = getKey(instance);
+    const cached = previous.get(instance.id);
+    try {
+      const result = cached && cached.key === key
+        ? registry.update(instance, data, cached.result, findFirstChangedBar(cached.data, data))
+        : registry.calculate(instance, data);
+      cache.set(instance.id, { key, data, result });
+    } catch (error) {
+      errors.set(instance.id, error);
+    }
+  });
+
+  return { cache, errors };
+}
@@ -0,0 +1,54 @@
+import type { IndicatorLineStyle, IndicatorResult, IndicatorSource, IndicatorStyle } from './types';
+
+export const INDICATOR_SOURCES: Array<{ value: IndicatorSource; label: string }> = [
+  { value: 'close', label: 'Close' },
+  { value: 'open', label: 'Open' },
+  { value: 'high', label: 'High' },
+  { value: 'low', label: 'Low' },
+  { value: 'hl2', label: 'HL/2' },
+  { value: 'hlc3', label: 'HLC/3' },
+  { value: 'ohlc4', label: 'OHLC/4' },
+];
+
+export const LINE_STYLE_DASHES: Record<IndicatorLineStyle, number[]> = {
+  solid: [],
+  dashed: [6, 4],
+  dotted: [2, 3],
+};
+
+/**
+ * Apply user overrides to a calculated result. The color goes to the first line; width and
+ * dash go to every plotted line. Histogram bars keep their look.
+ */
+export const applyIndicatorStyle = (result: IndicatorResult, style?: IndicatorStyle): IndicatorResult => {
+  if (!style || (!style.color && !style.lineWidth && !style.lineStyle)) return result;
+
+  let colored = false;
+  return {
+    ...result,
+    datasets: result.datasets.map(dataset => {
+      if (dataset.type === 'bar') return dataset;
+
+      const styled = { ...dataset };
+      if (style.color && !colored) {
+        styled.borderColor = style.color;
+        // Point-only series (Parabolic SAR) are drawn with their fill color
+        if (dataset.showLine === false) styled.backgroundColor = style.color;
+        colored = true;
+      }
+      if (style.lineWidth) styled.borderWidth = style.lineWidth;
+      if (style.lineStyle) styled.borderDash = LINE_STYLE_DASHES[style.lineStyle];
+      return styled;
+    }),
+  };
+};
+
+// `rgb(r, g, b)` / `rgba(...)` / `#rrggbb` as `#rrggbb`, for color inputs
+export const toHexColor = (color: string | string[] | undefined, fallback = '#2196f3'): string => {
+  if (typeof color !== 'string') return fallback;
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color;
+
+  const match = /^rgba?\((\d+),\s*(\d+),\s*(\d+)/i.exec(color);
+  if (!match) return fallback;
+  return `#${match.slice(1, 4).map(channel => Number(channel).toString(16).padStart(2, '0')).join('')}`;
+};
@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest';
+import { ADXIndicator } from './ADXIndicator';
+import { ATRIndicator } from './ATRIndicator';
+import { IchimokuIndicator } from './IchimokuIndicator';
+import { KeltnerChannelsIndicator } from './KeltnerChannelsIndicator';
+import { OBVIndicator } from './OBVIndicator';
+import { ParabolicSARIndicator } from './ParabolicSARIndicator';
+import { SupertrendIndicator } from './SupertrendIndicator';
+import { VWAPIndicator } from './VWAPIndicator';
+import type { IndicatorCalculator, IndicatorParameters, IndicatorResult, OHLCData } from './types';
+
+// Expected values below are worked by hand from each indicator's standard definition
+// (Wilder's smoothing for ATR/ADX/SAR, session-anchored VWAP, and so on)
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// [high, low, close, volume?] per day, opening at the previous close
+const dailyBars = (rows: Array<[number, number, number, number?]>): OHLCData[] =>
+  rows.map(([high, low, close, volume = 1000], i) => ({
+    timestamp: new Date(Date.UTC(2024, 0, 2) + 15 * 60 * 60 * 1000 + i * DAY),
+    open: i > 0 ? rows[i - 1][2] : close,
+    high,
+    low,
+    close,
+    volume
+  }));
+
+const values = (result: IndicatorResult, dataset = 0) => result.datasets[dataset].data.map(point => point.y);
+
+const expectValues = (actual: (number | null)[], expected: (number | null)[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      expect(actual[i], `index ${i}`).toBeNull();
+    } else {
+      expect(actual[i], `index ${i}`).toBeCloseTo(value, 4);
+    }
+  });
+};
+
+// A series with trends, reversals and gaps, for checking `update` against a full recalculation
+const walk: OHLCData[] = Array.from({ length: 80 }, (_, i) => {
+  const close = 100 + 10 * Math.sin(i / 6) + 3 * Math.sin(i * 1.7);
+  const open = 100 + 10 * Math.sin((i - 1) / 6) + 3 * Math.sin((i - 1) * 1.7);
+  return {
+    timestamp: new Date(Date.UTC(2024, 0, 2, 15) + i * DAY),
+    open,
+    high: Math.max(open, close) + 1 + Math.abs(Math.sin(i)),
+    low: Math.min(open, close) - 1 - Math.abs(Math.cos(i)),
+    close,
+    volume: 1000 + 500 * Math.abs(Math.sin(i * 0.7))
+  };
+});
+
+// A live tick moves the last bar, then a new bar opens
+const expectIncrementalUpdate = (indicator: IndicatorCalculator, parameters: IndicatorParameters = {}) => {
+  const update = indicator.update!.bind(indicator);
+  const initial = walk.slice(0, -1);
+  const previous = indicator.calculate(initial, parameters);
+
+  const ticked = initial.slice(0, -1).concat({ ...initial[initial.length - 1], high: initial[initial.length - 1].high + 2, close: initial[initial.length - 1].close + 1.5 });
+  const afterTick = update(ticked, parameters, previous, ticked.length - 1);
+  expect(afterTick.datasets.map(d => d.data)).toEqual(indicator.calculate(ticked, parameters).datasets.map(d => d.data));
+
+  const appended = ticked.concat(walk[walk.length - 1]);
+  const afterBar = update(appended, parameters, afterTick, ticked.length);
+  expect(afterBar.datasets.map(d => d.data)).toEqual(indicator.calculate(appended, parameters).datasets.map(d => d.data));
+};
+
+// True ranges 2, 2, 3, 4 (gap over the previous close), 3
+const rangeBars = dailyBars([
+  [10, 8, 9],
+  [11, 9, 10],
+  [12, 9, 11],
+  [15, 12, 14],
+  [14, 11, 12]
+]);
+
+describe('ATRIndicator', () => {
+  it('smooths true range with Wilder\'s average', () => {
+    const result = new ATRIndicator().calculate(rangeBars, { period: 3 });
+    // 7/3, then (7/3 * 2 + 4) / 3 = 26/9, then (26/9 * 2 + 3) / 3 = 79/27
+    expectValues(values(result), [null, null, 7 / 3, 26 / 9, 79 / 27]);
+  });
+
+  it('updates incrementally', () => {
+    expectIncrementalUpdate(new ATRIndicator());
+  });
+});
+
+describe('ADXIndicator', () => {
+  // +DM 2, 0, 2, 1; -DM 0, 2, 0, 0; true ranges 3, 4, 5, 3
+  const bars = dailyBars([
+    [10, 8, 9],
+    [12, 9, 11],
+    [11, 7, 8],
+    [13, 8, 12],
+    [14, 11, 13]
+  ]);
+
+  it('derives +DI, -DI and ADX from smoothed directional movement', () => {
+    const result = new ADXIndicator().calculate(bars, { period: 2 });
+    // Smoothed TR 3.5, 4.25, 3.625; +DM 1, 1.5, 1.25; -DM 1, 0.5, 0.25
+    expectValues(values(result, 1), [null, null, 100 / 3.5, 150 / 4.25, 125 / 3.625]);
+    expectValues(values(result, 2), [null, null, 100 / 3.5, 50 / 4.25, 25 / 3.625]);
+    // DX 0, 50, 66.67 -> ADX (0 + 50) / 2, then (25 + 66.67) / 2
+    expectValues(values(result), [null, null, null, 25, (25 + 200 / 3) / 2]);
+  });
+
+  it('reads 100 in an unbroken uptrend', () => {
+    const trend = dailyBars(Array.from({ length: 8 }, (_, i) => [i + 2, i, i + 1] as [number, number, number]));
+    const result = new ADXIndicator().calculate(trend, { period: 3 });
+    // The first ADX needs 2 * period - 1 bars
+    expectValues(values(result), [null, null, null, null, null, 100, 100, 100]);
+    expectValues(values(result, 1), [null, null, null, 50, 50, 50, 50, 50]);
+    expectValues(values(result, 2), [null, null, null, 0, 0, 0, 0, 0]);
+  });
+
+  it('updates incrementally', () => {
+    expectIncrementalUpdate(new ADXIndicator());
+  });
+});
+
+describe('VWAPIndicator', () => {
+  const sessionStart = Date.UTC(2024, 0, 2, 14, 30); // 09:30 New York
+  const intraday = (minutes: number, high: number, low: number, close: number, volume: number, vwap?: number): OHLCData => ({
+    timestamp: new Date(sessionStart + minutes * 60 * 1000),
+    open: close,
+    high,
+    low,
+    close,
+    volume,
+    vwap
+  });
+
+  it('accumulates typical price times volume and restarts each session', () => {
+    const bars = [
+      intraday(0, 11, 9, 10, 100), // typical price 10
+      intraday(5, 13, 11, 12, 300), // 12
+      intraday(10, 12, 9, 12, 100), // 11
+      intraday(DAY / 60000, 21, 19, 20, 50) // next session
+    ];
+    const result = new VWAPIndicator().calculate(bars, {});
+    // (1000 + 3600) / 400, then (4600 + 1100) / 500
+    expectValues(values(result), [10, 11.5, 11.4, 20]);
+  });
+
+  it('prefers the bar\'s own VWAP when the provider sends one', () => {
+    const bars = [intraday(0, 11, 9, 10, 100, 10.5), intraday(5, 13, 11, 12, 100, 12.5)];
+    expectValues(values(new VWAPIndicator().calculate(bars, {})), [10.5, 11.5]);
+  });
+
+  it('updates incrementally', () => {
+    expectIncrementalUpdate(new VWAPIndicator());
+  });
+});
+
+describe('OBVIndicator', () => {
+  it('adds volume on up closes and subtracts it on down closes', () => {
+    const bars = dailyBars([
+      [11, 9, 10, 100],
+      [12, 10, 11, 200],
+      [12, 10, 11, 300], // unchanged close
+      [11, 9, 10, 400],
+      [13, 11, 12, 500]
+    ]);
+    expectValues(values(new OBVIndicator().calculate(bars, {})), [0, 200, 200, -200, 300]);
+  });
+
+  it('updates incrementally', () => {
+    expectIncrementalUpdate(new OBVIndicator());
+  });
+});
+
+describe('KeltnerChannelsIndicator', () => {
+  it('puts the channel a multiple of the ATR around an EMA', () => {
+    const result = new KeltnerChannelsIndicator().calculate(rangeBars, { period: 3, atrPeriod: 3, multiplier: 2 });
+    // EMA 3 of closes 9, 10, 11, 14, 12: 10, 12, 12
+    expectValues(values(result), [null, null, 10, 12, 12]);
+    expectValues(values(result, 1), [null, null, 10 + 14 / 3, 12 + 52 / 9, 12 + 158 / 27]);
+    expectValues(values(result, 2), [null, null, 10 - 14 / 3, 12 - 52 / 9, 12 - 158 / 27]);
+  });
+
+  it('updates incrementally', () => {
+    expectIncrementalUpdate(new KeltnerChannelsIndicator());
+  });
+});
+
+describe('SupertrendIndicator', () => {
+  it('trails the lower band in an uptrend and flips when the close breaks it', () => {
+    // The range bars, then a close of 8.5 through the lower band
+    const bars = dailyBars([[10, 8, 9], [11, 9, 10], [12, 9, 11], [15, 12, 14], [14, 11, 12], [11, 8, 8.5]]);
+    const result = new SupertrendIndicator().calculate(bars, { atrPeriod: 3, multiplier: 1 });
+
+    // ATR 7/3 on hl2 10.5 starts the bands; the lower band then holds at 13.5 - 26/9
+    const firstLower = 10.5 - 7 / 3;
+    const heldLower = 13.5 - 26 / 9;
+    expectValues(values(result), [null, null, firstLower, heldLower, heldLower, null]);
+    // ATR (79/27 * 2 + 4) / 3 = 266/81 around hl2 9.5, below the previous upper band
+    expectValues(values(result, 1), [null, null, null, null, null, 9.5 + 266 / 81]);
+  });
+
+  it('updates incrementally', () => {
+    expectIncrementalUpdate(new SupertrendIndicator());
+  });
+});
+
+describe('IchimokuIndicator', () => {
+  it('plots midpoints and shifts the spans by the displacement', () => {
+    const bars = dailyBars([
+      [10, 8, 9],
+      [12, 9, 11],
+      [11, 7, 8],
+      [13, 8, 12],
+      [14, 11, 13]
+    ]);
+    const result = new IchimokuIndicator().calculate(bars, { conversionPeriod: 2, basePeriod: 3, spanBPeriod: 4, displacement: 2 });
+
+    expectValues(values(result, 0), [null, 10, 9.5, 10, 11]);
+    expectValues(values(result, 1), [null, null, 9.5, 10, 10.5]);
+    // Displacement 2 counts the current bar, so everything moves one bar
+    expectValues(values(result, 2), [11, 8, 12, 13, null]);
+    expectValues(values(result, 3), [null, null, null, 9.5, 10, 10.75]);
+    expectValues(values(result, 4), [null, null, null, null, 10, 10.5]);
+    // The leading spans run one bar past the data, a day after the last bar
+    expect(result.datasets[3].data[5].x.getTime() - bars[4].timestamp.getTime()).toBe(DAY);
+  });
+});
+
+describe('ParabolicSARIndicator', () => {
+  it('accelerates toward new extremes and reverses to the extreme point', () => {
+    const bars = dailyBars([
+      [10, 8, 9],
+      [12, 9, 11],
+      [13, 10, 12],
+      [14, 11, 13],
+      [12, 7, 8], // breaks the stop at 8.548
+      [11, 6, 7],
+      [9, 5, 6]
+    ]);
+    const result = new ParabolicSARIndicator().calculate(bars, { step: 0.02, maxStep: 0.2 });
+    // 8.08 is capped at the low two bars back; 8.2 + 0.06 * (14 - 8.2) is then broken, and the
+    // stop restarts at the high of 14. Falling, 13.86 is held at that high before 14 + 0.04 * (6 - 14).
+    expectValues(values(result), [null, 8, 8, 8.2, 14, 14, 13.68]);
+  });
+});
@@ -0,0 +1,111 @@
+import { ScriptError, type ScriptProgram } from './scriptLanguage';
+import type { ScriptBars, ScriptPlot } from './scriptRuntime';
+
+// A script still running after this long is stopped, so a runaway script can't hang the chart
+export const SCRIPT_TIME_LIMIT_MS = 2000;
+
+export interface ScriptWorkerRequest {
+  requestId: number;
+  program: ScriptProgram;
+  bars: ScriptBars;
+  inputs: Record<string, number>;
+}
+
+export type ScriptWorkerResponse =
+  | { requestId: number; plots: ScriptPlot[] }
+  | { requestId: number; error: { message: string; line: number } };
+
+interface PendingRun {
+  request: ScriptWorkerRequest;
+  resolve: (plots: ScriptPlot[]) => void;
+  reject: (error: ScriptError) => void;
+}
+
+/**
+ * Runs indicator scripts in a dedicated worker, one at a time, so they can't block the UI
+ * or reach the page. A run that exceeds the time limit is rejected and the worker replaced.
+ */
+export class ScriptRunner {
+  private worker: Worker | null = null;
+  private queue: PendingRun[] = [];
+  private current: PendingRun | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextRequestId = 1;
+
+  run(program: ScriptProgram, bars: ScriptBars, inputs: Record<string, number>): Promise<ScriptPlot[]> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { requestId: this.nextRequestId++, program, bars, inputs }, resolve, reject });
+      this.next();
+    });
+  }
+
+  private next(): void {
+    if (this.current) return;
+
+    const run = this.queue.shift();
+    if (!run) return;
+
+    this.current = run;
+    this.timer = setTimeout(() => this.stopCurrent(), SCRIPT_TIME_LIMIT_MS);
+
+    try {
+      this.getWorker().postMessage(run.request);
+    } catch (error) {
+      this.finish(run.request.requestId, {
+        requestId: run.request.requestId,
+        error: { message: error instanceof Error ? error.message : 'Could not start the script', line: 0 },
+      });
+    }
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./scriptWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<ScriptWorkerResponse>) => {
+        this.finish(event.data.requestId, event.data);
+      };
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        if (this.current) {
+          this.finish(this.current.request.requestId, {
+            requestId: this.current.request.requestId,
+            error: { message: event.message || 'The script stopped unexpectedly', line: 0 },
+          });
+        }
+      };
+    }
+    return this.worker;
+  }
+
+  private finish(requestId: number, response: ScriptWorkerResponse): void {
+    const run = this.current;
+    if (!run || run.request.requestId !== requestId) return;
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.current = null;
+
+    if ('plots' in response) {
+      run.resolve(response.plots);
+    } else {
+      run.reject(new ScriptError(response.error.message, response.error.line));
+    }
+    this.next();
+  }
+
+  // Terminating is the only way to interrupt a busy worker; a fresh one serves the next run
+  private stopCurrent(): void {
+    const run = this.current;
+    if (!run) return;
+
+    console.warn('⚠️ [ScriptRunner] Script exceeded the time limit, restarting worker');
+    this.worker?.terminate();
+    this.worker = null;
+    this.finish(run.request.requestId, {
+      requestId: run.request.requestId,
+      error: { message: `The script took longer than ${SCRIPT_TIME_LIMIT_MS / 1000}s and was stopped`, line: 0 },
+    });
+  }
+}
+
+export const scriptRunner = new ScriptRunner();
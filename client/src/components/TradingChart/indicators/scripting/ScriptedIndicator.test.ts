@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { OHLCData } from '../types';
+import { runScript } from './scriptRuntime';
+import { ScriptedIndicator } from './ScriptedIndicator';
+
+// Runs scripts in the test's thread instead of a worker
+vi.mock('./ScriptRunner', () => ({
+  scriptRunner: {
+    run: vi.fn(async (...args: Parameters<typeof runScript>) => runScript(...args)),
+  },
+}));
+
+const script = {
+  id: 'test',
+  name: 'Close',
+  source: 'plot(close)',
+  overlay: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const bars = (closes: number[]): OHLCData[] => closes.map((close, i) => ({
+  timestamp: new Date(Date.UTC(2024, 0, 2 + i, 15)),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+}));
+
+const plotted = (indicator: ScriptedIndicator, data: OHLCData[]) =>
+  indicator.calculate(data, {}).datasets[0]?.data.map(point => point.y);
+
+const settle = () => new Promise(resolve => setTimeout(resolve));
+
+describe('ScriptedIndicator', () => {
+  it('keeps the results of different series apart', async () => {
+    const onChange = vi.fn();
+    const indicator = new ScriptedIndicator(script, onChange);
+    const aapl = bars([190, 191, 192]);
+    const msft = bars([410, 411, 412]);
+
+    expect(plotted(indicator, aapl)).toBeUndefined();
+    await settle();
+    expect(plotted(indicator, aapl)).toEqual([190, 191, 192]);
+
+    // Another symbol gets nothing until its own run finishes, never the first symbol's plot
+    expect(plotted(indicator, msft)).toBeUndefined();
+    await settle();
+    expect(plotted(indicator, msft)).toEqual([410, 411, 412]);
+    expect(plotted(indicator, aapl)).toEqual([190, 191, 192]);
+  });
+
+  it('settles when two consumers of one series have different latest bars', async () => {
+    const onChange = vi.fn();
+    const indicator = new ScriptedIndicator(script, onChange);
+    const live = bars([190, 191, 192]);
+    const delayed = bars([190, 191, 191.5]);
+
+    plotted(indicator, live);
+    plotted(indicator, delayed);
+    await settle();
+    await settle();
+    const runs = onChange.mock.calls.length;
+
+    // Recalculating after each change no longer starts new runs
+    expect(plotted(indicator, live)).toEqual([190, 191, 192]);
+    expect(plotted(indicator, delayed)).toEqual([190, 191, 191.5]);
+    await settle();
+    expect(onChange).toHaveBeenCalledTimes(runs);
+  });
+
+  it('shows the previous result for the same series while a live tick is calculated', async () => {
+    const indicator = new ScriptedIndicator(script, vi.fn());
+    plotted(indicator, bars([190, 191, 192]));
+    await settle();
+
+    expect(plotted(indicator, bars([190, 191, 193]))).toEqual([190, 191, 192]);
+    await settle();
+    expect(plotted(indicator, bars([190, 191, 193]))).toEqual([190, 191, 193]);
+  });
+});
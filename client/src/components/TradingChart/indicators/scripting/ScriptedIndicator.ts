@@ -0,0 +1,219 @@
+import { BaseIndicator } from '../BaseIndicator';
+import { indicatorRegistry } from '../IndicatorRegistry';
+import type { IndicatorParameters, IndicatorResult, OHLCData } from '../types';
+import type { IndicatorScript } from '../../../../types';
+import { compileScript, type CompiledScript } from './scriptCompiler';
+import { ScriptError } from './scriptLanguage';
+import type { ScriptBars } from './scriptRuntime';
+import { scriptRunner } from './ScriptRunner';
+
+// Calculator ids of user scripts, so they never collide with the built-in indicators
+export const SCRIPT_INDICATOR_PREFIX = 'script-';
+
+export const getScriptIndicatorId = (scriptId: string): string => `${SCRIPT_INDICATOR_PREFIX}${scriptId}`;
+
+const PLOT_COLORS = [
+  'rgb(33, 150, 243)',
+  'rgb(255, 152, 0)',
+  'rgb(156, 39, 176)',
+  'rgb(76, 175, 80)',
+  'rgb(244, 67, 54)',
+  'rgb(0, 188, 212)',
+  'rgb(255, 235, 59)',
+  'rgb(121, 85, 72)',
+];
+
+// Series kept per script; a chart rarely shows more than a few variants of one script
+const MAX_CACHED_RUNS = 8;
+
+// Results kept per series, so consumers whose latest bars differ (two panels, the scanner)
+// each find their own instead of restarting each other's runs
+const MAX_RESULTS_PER_RUN = 4;
+
+interface ScriptRunResult {
+  data: OHLCData[]; // bars the result or error belongs to
+  result?: IndicatorResult;
+  error?: ScriptError;
+}
+
+// Runs of one script with one set of inputs over one series
+interface ScriptRunState {
+  results: ScriptRunResult[]; // oldest first
+  running?: OHLCData[];
+  queued?: OHLCData[]; // latest bars that arrived while a run was in flight
+}
+
+// A series is told apart by its first bar, which live ticks and new bars leave alone
+const getSeriesKey = (data: OHLCData[]): string => {
+  const { timestamp, open, high, low, close } = data[0];
+  return `${timestamp.getTime()}:${open}:${high}:${low}:${close}`;
+};
+
+const isSameBar = (a: OHLCData, b: OHLCData): boolean =>
+  a === b || (a.timestamp.getTime() === b.timestamp.getTime() && a.open === b.open && a.high === b.high &&
+    a.low === b.low && a.close === b.close && a.volume === b.volume);
+
+const isSameBars = (a: OHLCData[], b: OHLCData[]): boolean =>
+  a === b || (a.length === b.length && a.every((bar, i) => isSameBar(bar, b[i])));
+
+/**
+ * A user script as an indicator calculator. Scripts run in a worker, so `calculate` can't
+ * wait for them: it starts a run for new bars and meanwhile returns the latest result for
+ * the same series (nothing for a series it hasn't finished yet), then `onChange` asks the
+ * chart to calculate again once the run has finished.
+ */
+export class ScriptedIndicator extends BaseIndicator {
+  id: string;
+  name: string;
+  category: 'overlay' | 'oscillator';
+  defaultParameters: Record<string, number>;
+  readonly script: IndicatorScript;
+
+  private compiled: CompiledScript;
+  private onChange: () => void;
+  private runs = new Map<string, ScriptRunState>(); // by inputs and series, least recently used first
+
+  // Throws a ScriptError when the script doesn't compile
+  constructor(script: IndicatorScript, onChange: () => void) {
+    super();
+    this.compiled = compileScript(script.source);
+    this.script = script;
+    this.onChange = onChange;
+    this.id = getScriptIndicatorId(script.id);
+    this.name = script.name;
+    this.category = script.overlay ? 'overlay' : 'oscillator';
+    this.defaultParameters = Object.fromEntries(this.compiled.inputs.map(input => [input.name, input.defaultValue]));
+  }
+
+  calculate(data: OHLCData[], parameters: IndicatorParameters): IndicatorResult {
+    if (data.length === 0) return { datasets: [] };
+
+    // Script inputs are all numbers; `validateParameters` rejects anything else
+    const inputs = { ...this.defaultParameters, ...parameters } as Record<string, number>;
+    const key = JSON.stringify([inputs, getSeriesKey(data)]);
+
+    const state = this.runs.get(key) ?? { results: [] };
+    this.runs.delete(key);
+    this.runs.set(key, state);
+    if (this.runs.size > MAX_CACHED_RUNS) {
+      this.runs.delete(this.runs.keys().next().value as string);
+    }
+
+    const exact = state.results.find(entry => isSameBars(entry.data, data));
+    if (!exact) {
+      this.start(state, data, inputs);
+    }
+
+    const latest = exact ?? state.results[state.results.length - 1];
+    if (latest?.error) {
+      throw latest.error;
+    }
+    return latest?.result ?? { datasets: [] };
+  }
+
+  validateParameters(parameters: IndicatorParameters): boolean {
+    return super.validateParameters(parameters) &&
+           Object.keys(this.defaultParameters).every(name => Number.isFinite(parameters[name]));
+  }
+
+  private start(state: ScriptRunState, data: OHLCData[], inputs: Record<string, number>): void {
+    if (state.running) {
+      if (!isSameBars(state.running, data)) state.queued = data;
+      return;
+    }
+
+    state.running = data;
+    state.queued = undefined;
+    const entry: ScriptRunResult = { data };
+    scriptRunner.run(this.compiled.program, toScriptBars(data), inputs)
+      .then(plots => {
+        entry.result = this.toResult(data, plots);
+      })
+      .catch((error: unknown) => {
+        entry.error = error instanceof ScriptError ? error : new ScriptError(String(error), 0);
+      })
+      .finally(() => {
+        state.results = state.results.filter(other => !isSameBars(other.data, data)).concat(entry).slice(-MAX_RESULTS_PER_RUN);
+        state.running = undefined;
+        const queued = state.queued;
+        if (queued && !isSameBars(queued, data)) {
+          this.start(state, queued, inputs);
+        }
+        this.onChange();
+      });
+  }
+
+  private toResult(data: OHLCData[], plots: { title: string; values: (number | null)[] }[]): IndicatorResult {
+    const timestamps = data.map(d => d.timestamp);
+    const yAxisID = this.category === 'overlay' ? 'y' : this.id;
+
+    return {
+      datasets: plots.map((plot, index) => ({
+        label: plot.title || (plots.length > 1 ? `${this.name} ${index + 1}` : this.name),
+        data: this.formatDataPoints(timestamps, plot.values),
+        borderColor: PLOT_COLORS[index % PLOT_COLORS.length],
+        backgroundColor: 'transparent',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.1,
+        yAxisID,
+        type: 'line' as const,
+      })),
+      scales: this.category === 'overlay' ? undefined : {
+        [this.id]: {
+          type: 'linear',
+          position: 'right',
+          display: true,
+          grid: {
+            color: 'rgba(255, 255, 255, 0.1)'
+          },
+          title: {
+            display: true,
+            text: this.name
+          }
+        }
+      },
+    };
+  }
+}
+
+const toScriptBars = (data: OHLCData[]): ScriptBars => ({
+  open: data.map(d => d.open),
+  high: data.map(d => d.high),
+  low: data.map(d => d.low),
+  close: data.map(d => d.close),
+  volume: data.map(d => d.volume),
+});
+
+/**
+ * Register a calculator for each of the user's scripts and drop those of deleted scripts.
+ * Unchanged scripts keep their calculator and its results; scripts that no longer compile are skipped.
+ */
+export const syncScriptIndicators = (scripts: IndicatorScript[]): void => {
+  const current = new Map(
+    indicatorRegistry.getIndicators()
+      .filter((indicator): indicator is ScriptedIndicator => indicator instanceof ScriptedIndicator)
+      .map(indicator => [indicator.id, indicator])
+  );
+  let changed = false;
+
+  scripts.forEach(script => {
+    const id = getScriptIndicatorId(script.id);
+    const existing = current.get(id);
+    current.delete(id);
+    if (existing && existing.script.updatedAt === script.updatedAt && existing.script.source === script.source) return;
+
+    try {
+      indicatorRegistry.register(new ScriptedIndicator(script, () => indicatorRegistry.notifyChanged()));
+    } catch (error) {
+      console.warn(`⚠️ [ScriptedIndicator] Skipping script "${script.name}":`, error instanceof ScriptError ? error.describe() : error);
+      if (existing) indicatorRegistry.unregister(id);
+    }
+    changed = true;
+  });
+
+  current.forEach((_indicator, id) => indicatorRegistry.unregister(id));
+  if (changed || current.size > 0) {
+    indicatorRegistry.notifyChanged();
+  }
+};
@@ -0,0 +1,6 @@
+// Custom indicators written in the indicator script language
+export * from './scriptLanguage';
+export * from './scriptRuntime';
+export * from './scriptCompiler';
+export * from './ScriptRunner';
+export * from './ScriptedIndicator';
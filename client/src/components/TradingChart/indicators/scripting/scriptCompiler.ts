@@ -0,0 +1,129 @@
+import { parseScript, ScriptError, type ScriptExpression, type ScriptProgram } from './scriptLanguage';
+import { getScriptFunction, SCRIPT_SERIES } from './scriptRuntime';
+
+export const MAX_SCRIPT_PLOTS = 8;
+
+// A `name = input(14, "Length")` line: a parameter users can change in the indicator settings
+export interface ScriptInput {
+  name: string;
+  title: string;
+  defaultValue: number;
+}
+
+export interface CompiledScript {
+  program: ScriptProgram;
+  inputs: ScriptInput[];
+  plots: string[]; // titles, '' when untitled
+}
+
+/**
+ * Parse a script and check it before it runs: unknown names, argument counts, and
+ * where `input()`, `plot()` and text may appear. Throws a `ScriptError` with the line.
+ */
+export function compileScript(source: string): CompiledScript {
+  const program = parseScript(source);
+  const defined = new Set<string>();
+  const inputs: ScriptInput[] = [];
+  const plots: string[] = [];
+
+  for (const statement of program.statements) {
+    const { value, line } = statement;
+
+    if (statement.kind === 'assign') {
+      if (SCRIPT_SERIES.includes(statement.name) || getScriptFunction(statement.name)) {
+        throw new ScriptError(`"${statement.name}" is built in and can't be assigned`, line);
+      }
+
+      if (value.kind === 'call' && value.name === 'input') {
+        if (defined.has(statement.name)) {
+          throw new ScriptError(`"${statement.name}" is already defined; inputs need a name of their own`, line);
+        }
+        inputs.push(checkInput(statement.name, value));
+      } else {
+        checkExpression(value, defined);
+      }
+      defined.add(statement.name);
+      continue;
+    }
+
+    if (value.kind !== 'call' || value.name !== 'plot') {
+      throw new ScriptError('Only plot(...) can stand on a line of its own; assign other values to a name', line);
+    }
+    const [series, title, ...rest] = value.args;
+    if (!series || rest.length > 0) {
+      throw new ScriptError('plot() takes a series and an optional title, e.g. plot(sma(close, 20), "SMA")', line);
+    }
+    if (title && title.kind !== 'string') {
+      throw new ScriptError('The plot title must be text in quotes', title.line);
+    }
+    checkExpression(series, defined);
+    plots.push(title?.kind === 'string' ? title.value : '');
+  }
+
+  if (plots.length === 0) {
+    throw new ScriptError('The script needs at least one plot(...)', Math.max(1, program.statements.length));
+  }
+  if (plots.length > MAX_SCRIPT_PLOTS) {
+    throw new ScriptError(`A script can plot at most ${MAX_SCRIPT_PLOTS} series`, 1);
+  }
+
+  return { program, inputs, plots };
+}
+
+function checkInput(name: string, call: Extract<ScriptExpression, { kind: 'call' }>): ScriptInput {
+  const [value, title, ...rest] = call.args;
+  const number = value?.kind === 'number' ? value.value
+    : value?.kind === 'unary' && value.operator === '-' && value.operand.kind === 'number' ? -value.operand.value
+    : undefined;
+
+  if (number === undefined || rest.length > 0 || (title && title.kind !== 'string')) {
+    throw new ScriptError('input() takes a number and an optional title, e.g. input(14, "Length")', call.line);
+  }
+  return { name, title: title?.kind === 'string' ? title.value : name, defaultValue: number };
+}
+
+function checkExpression(expression: ScriptExpression, defined: Set<string>): void {
+  switch (expression.kind) {
+    case 'number':
+      return;
+    case 'string':
+      throw new ScriptError('Text can only be used as a title', expression.line);
+    case 'identifier':
+      if (!defined.has(expression.name) && !SCRIPT_SERIES.includes(expression.name)) {
+        throw new ScriptError(`Unknown variable "${expression.name}"`, expression.line);
+      }
+      return;
+    case 'unary':
+      checkExpression(expression.operand, defined);
+      return;
+    case 'binary':
+      checkExpression(expression.left, defined);
+      checkExpression(expression.right, defined);
+      return;
+    case 'conditional':
+      checkExpression(expression.condition, defined);
+      checkExpression(expression.then, defined);
+      checkExpression(expression.otherwise, defined);
+      return;
+    case 'history':
+      checkExpression(expression.series, defined);
+      checkExpression(expression.offset, defined);
+      return;
+    case 'call': {
+      if (expression.name === 'input' || expression.name === 'plot') {
+        throw new ScriptError(`${expression.name}() must be on a line of its own`, expression.line);
+      }
+      const fn = getScriptFunction(expression.name);
+      if (!fn) {
+        throw new ScriptError(`Unknown function "${expression.name}"`, expression.line);
+      }
+      const count = expression.args.length;
+      if (count < fn.minArgs || count > fn.maxArgs) {
+        const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+        throw new ScriptError(`${expression.name}() takes ${expected} argument${fn.maxArgs === 1 ? '' : 's'}, not ${count}`, expression.line);
+      }
+      expression.args.forEach(arg => checkExpression(arg, defined));
+      return;
+    }
+  }
+}
@@ -0,0 +1,282 @@
+// Tokenizer and parser for indicator scripts: one statement per line, evaluated over whole series.
+//
+//   length = input(20, "Length")
+//   basis = sma(close, length)
+//   plot(basis, "Basis")
+//   plot(basis + 2 * stdev(close, length), "Upper")
+
+export class ScriptError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column = 1) {
+    super(message);
+    this.name = 'ScriptError';
+    this.line = line;
+    this.column = column;
+  }
+
+  // 'Line 3: Unknown function "smaa"'; errors not tied to a line (line 0) are shown as is
+  describe(): string {
+    return this.line > 0 ? `Line ${this.line}: ${this.message}` : this.message;
+  }
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+export type ScriptExpression =
+  | { kind: 'number'; value: number; line: number }
+  | { kind: 'string'; value: string; line: number }
+  | { kind: 'identifier'; name: string; line: number }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: ScriptExpression; line: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ScriptExpression; right: ScriptExpression; line: number }
+  | { kind: 'conditional'; condition: ScriptExpression; then: ScriptExpression; otherwise: ScriptExpression; line: number }
+  | { kind: 'history'; series: ScriptExpression; offset: ScriptExpression; line: number }
+  | { kind: 'call'; name: string; args: ScriptExpression[]; line: number };
+
+export type ScriptStatement =
+  | { kind: 'assign'; name: string; value: ScriptExpression; line: number }
+  | { kind: 'expression'; value: ScriptExpression; line: number };
+
+export interface ScriptProgram {
+  statements: ScriptStatement[];
+}
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'newline' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '=', '(', ')', '[', ']', ',', '?', ':'];
+
+// Words that read as operators; `&&`, `||` and `!` are accepted as aliases
+const WORD_OPERATORS = ['and', 'or', 'not'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let depth = 0; // newlines inside brackets continue the statement
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const column = i - lineStart + 1;
+
+    if (char === '\n') {
+      if (depth === 0) tokens.push({ type: 'newline', value: '\n', line, column });
+      line++;
+      lineStart = i + 1;
+      i++;
+      continue;
+    }
+    if (char === ' ' || char === '\t' || char === '\r') {
+      i++;
+      continue;
+    }
+    if (source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new ScriptError(`Unexpected "${char}"`, line, column);
+      tokens.push({ type: 'number', value: match[0], line, column });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i)) as RegExpExecArray;
+      const word = match[0];
+      tokens.push({ type: WORD_OPERATORS.includes(word) ? 'operator' : 'identifier', value: word, line, column });
+      i += word.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      const newline = source.indexOf('\n', i + 1);
+      if (end === -1 || (newline !== -1 && newline < end)) {
+        throw new ScriptError('Unterminated string', line, column);
+      }
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), line, column });
+      i = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) throw new ScriptError(`Unexpected "${char}"`, line, column);
+
+    if (operator === '(' || operator === '[') depth++;
+    if ((operator === ')' || operator === ']') && depth > 0) depth--;
+    const aliases: Record<string, string> = { '&&': 'and', '||': 'or', '!': 'not' };
+    tokens.push({ type: 'operator', value: aliases[operator] ?? operator, line, column });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', line, column: i - lineStart + 1 });
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+  private tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parseProgram(): ScriptProgram {
+    const statements: ScriptStatement[] = [];
+
+    while (this.peek().type !== 'end') {
+      if (this.peek().type === 'newline') {
+        this.position++;
+        continue;
+      }
+      statements.push(this.parseStatement());
+
+      const next = this.peek();
+      if (next.type !== 'newline' && next.type !== 'end') {
+        throw new ScriptError(`Unexpected "${next.value}", expected the end of the line`, next.line, next.column);
+      }
+    }
+
+    return { statements };
+  }
+
+  private parseStatement(): ScriptStatement {
+    const token = this.peek();
+    const next = this.tokens[this.position + 1];
+    if (token.type === 'identifier' && next?.type === 'operator' && next.value === '=') {
+      this.position += 2;
+      return { kind: 'assign', name: token.value, value: this.parseExpression(), line: token.line };
+    }
+    return { kind: 'expression', value: this.parseExpression(), line: token.line };
+  }
+
+  private parseExpression(): ScriptExpression {
+    const condition = this.parseBinary(0);
+    if (!this.matchOperator('?')) return condition;
+
+    const then = this.parseExpression();
+    this.expectOperator(':');
+    const otherwise = this.parseExpression();
+    return { kind: 'conditional', condition, then, otherwise, line: condition.line };
+  }
+
+  // Precedence climbing, loosest first
+  private static readonly PRECEDENCE: BinaryOperator[][] = [
+    ['or'],
+    ['and'],
+    ['==', '!=', '<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): ScriptExpression {
+    if (level >= Parser.PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = Parser.PRECEDENCE[level].find(op => token.type === 'operator' && token.value === op);
+      if (!operator) return left;
+
+      this.position++;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator, left, right, line: token.line };
+    }
+  }
+
+  private parseUnary(): ScriptExpression {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === 'not')) {
+      this.position++;
+      return { kind: 'unary', operator: token.value, operand: this.parseUnary(), line: token.line };
+    }
+    if (token.type === 'operator' && token.value === '+') {
+      this.position++;
+      return this.parseUnary();
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ScriptExpression {
+    let expression = this.parsePrimary();
+    while (this.matchOperator('[')) {
+      const offset = this.parseExpression();
+      this.expectOperator(']');
+      expression = { kind: 'history', series: expression, offset, line: expression.line };
+    }
+    return expression;
+  }
+
+  private parsePrimary(): ScriptExpression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.position++;
+        return { kind: 'number', value: parseFloat(token.value), line: token.line };
+      case 'string':
+        this.position++;
+        return { kind: 'string', value: token.value, line: token.line };
+      case 'identifier': {
+        this.position++;
+        if (!this.matchOperator('(')) {
+          return { kind: 'identifier', name: token.value, line: token.line };
+        }
+
+        const args: ScriptExpression[] = [];
+        if (!this.matchOperator(')')) {
+          do {
+            args.push(this.parseExpression());
+          } while (this.matchOperator(','));
+          this.expectOperator(')');
+        }
+        return { kind: 'call', name: token.value, args, line: token.line };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          this.position++;
+          const expression = this.parseExpression();
+          this.expectOperator(')');
+          return expression;
+        }
+        break;
+    }
+
+    const found = token.type === 'end' ? 'end of script' : token.type === 'newline' ? 'end of line' : `"${token.value}"`;
+    throw new ScriptError(`Unexpected ${found}, expected a value`, token.line, token.column);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'operator' || token.value !== value) return false;
+    this.position++;
+    return true;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.peek();
+    if (!this.matchOperator(value)) {
+      const found = token.type === 'end' ? 'end of script' : token.type === 'newline' ? 'end of line' : `"${token.value}"`;
+      throw new ScriptError(`Expected "${value}" but found ${found}`, token.line, token.column);
+    }
+  }
+}
+
+export function parseScript(source: string): ScriptProgram {
+  return new Parser(tokenize(source)).parseProgram();
+}
@@ -0,0 +1,306 @@
+import { ScriptError, type ScriptExpression, type ScriptProgram } from './scriptLanguage';
+
+// Bars as plain columns, so they can be posted to the worker cheaply
+export interface ScriptBars {
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+}
+
+export interface ScriptPlot {
+  title: string;
+  values: (number | null)[];
+}
+
+// Every value is a series with one entry per bar; NaN is `na` (no value yet)
+type Series = Float64Array;
+
+interface ScriptFunction {
+  minArgs: number;
+  maxArgs: number;
+  lengthArgs?: number[]; // argument positions that must be a whole number of bars
+  evaluate: (args: Series[], lengths: number[], bars: ScriptBars) => Series;
+}
+
+export const MAX_SCRIPT_LENGTH = 5000;
+
+export const SCRIPT_SERIES = ['open', 'high', 'low', 'close', 'volume', 'hl2', 'hlc3', 'ohlc4', 'bar_index', 'na'];
+
+// A function applied to each bar's window of `length` values; na until the window is full of values
+const rolling = (source: Series, length: number, reduce: (window: Series) => number): Series => {
+  const result = new Float64Array(source.length).fill(NaN);
+  for (let i = length - 1; i < source.length; i++) {
+    const window = source.subarray(i - length + 1, i + 1);
+    if (window.some(Number.isNaN)) continue;
+    result[i] = reduce(window);
+  }
+  return result;
+};
+
+// Recursive average seeded with the SMA of the first `length` values; na values are skipped
+const smoothed = (source: Series, length: number, alpha: number): Series => {
+  const result = new Float64Array(source.length).fill(NaN);
+  let previous = NaN;
+  let seedSum = 0;
+  let seedCount = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const value = source[i];
+    if (Number.isNaN(value)) {
+      // The seed needs `length` values in a row
+      if (Number.isNaN(previous)) {
+        seedSum = 0;
+        seedCount = 0;
+      }
+      continue;
+    }
+    if (Number.isNaN(previous)) {
+      seedSum += value;
+      seedCount++;
+      if (seedCount === length) {
+        previous = seedSum / length;
+        result[i] = previous;
+      }
+      continue;
+    }
+    previous += alpha * (value - previous);
+    result[i] = previous;
+  }
+  return result;
+};
+
+const map = (source: Series, fn: (value: number, i: number) => number): Series => {
+  const result = new Float64Array(source.length);
+  for (let i = 0; i < source.length; i++) result[i] = fn(source[i], i);
+  return result;
+};
+
+const zip = (a: Series, b: Series, fn: (x: number, y: number, i: number) => number): Series => {
+  const result = new Float64Array(a.length);
+  for (let i = 0; i < a.length; i++) result[i] = fn(a[i], b[i], i);
+  return result;
+};
+
+const sum = (window: Series) => window.reduce((total, value) => total + value, 0);
+
+const trueRange = (bars: ScriptBars): Series => {
+  const result = new Float64Array(bars.close.length);
+  for (let i = 0; i < result.length; i++) {
+    const range = bars.high[i] - bars.low[i];
+    result[i] = i === 0 ? range : Math.max(
+      range, Math.abs(bars.high[i] - bars.close[i - 1]), Math.abs(bars.low[i] - bars.close[i - 1])
+    );
+  }
+  return result;
+};
+
+export const SCRIPT_FUNCTIONS: Record<string, ScriptFunction> = {
+  sma: { minArgs: 2, maxArgs: 2, lengthArgs: [1], evaluate: ([source], [length]) => rolling(source, length, w => sum(w) / length) },
+  ema: { minArgs: 2, maxArgs: 2, lengthArgs: [1], evaluate: ([source], [length]) => smoothed(source, length, 2 / (length + 1)) },
+  rma: { minArgs: 2, maxArgs: 2, lengthArgs: [1], evaluate: ([source], [length]) => smoothed(source, length, 1 / length) },
+  wma: {
+    minArgs: 2, maxArgs: 2, lengthArgs: [1],
+    evaluate: ([source], [length]) => rolling(source, length, w =>
+      w.reduce((total, value, j) => total + value * (j + 1), 0) / (length * (length + 1) / 2)
+    )
+  },
+  sum: { minArgs: 2, maxArgs: 2, lengthArgs: [1], evaluate: ([source], [length]) => rolling(source, length, sum) },
+  highest: { minArgs: 2, maxArgs: 2, lengthArgs: [1], evaluate: ([source], [length]) => rolling(source, length, w => Math.max(...w)) },
+  lowest: { minArgs: 2, maxArgs: 2, lengthArgs: [1], evaluate: ([source], [length]) => rolling(source, length, w => Math.min(...w)) },
+  // Population standard deviation, as used by Bollinger Bands
+  stdev: {
+    minArgs: 2, maxArgs: 2, lengthArgs: [1],
+    evaluate: ([source], [length]) => rolling(source, length, w => {
+      const mean = sum(w) / length;
+      return Math.sqrt(w.reduce((total, value) => total + (value - mean) ** 2, 0) / length);
+    })
+  },
+  change: {
+    minArgs: 1, maxArgs: 2, lengthArgs: [1],
+    evaluate: ([source], [length = 1]) => map(source, (value, i) => i >= length ? value - source[i - length] : NaN)
+  },
+  rsi: {
+    minArgs: 2, maxArgs: 2, lengthArgs: [1],
+    evaluate: ([source], [length]) => {
+      const change = map(source, (value, i) => i > 0 ? value - source[i - 1] : NaN);
+      const gain = smoothed(map(change, c => Number.isNaN(c) ? NaN : Math.max(c, 0)), length, 1 / length);
+      const loss = smoothed(map(change, c => Number.isNaN(c) ? NaN : Math.max(-c, 0)), length, 1 / length);
+      return zip(gain, loss, (g, l) => l === 0 ? (g === 0 ? 50 : 100) : 100 - 100 / (1 + g / l));
+    }
+  },
+  atr: { minArgs: 1, maxArgs: 1, lengthArgs: [0], evaluate: (_args, [length], bars) => smoothed(trueRange(bars), length, 1 / length) },
+  // 1 on the bar where `a` moves from at or below `b` to above it
+  crossover: {
+    minArgs: 2, maxArgs: 2,
+    evaluate: ([a, b]) => zip(a, b, (x, y, i) => i > 0 && x > y && a[i - 1] <= b[i - 1] ? 1 : 0)
+  },
+  crossunder: {
+    minArgs: 2, maxArgs: 2,
+    evaluate: ([a, b]) => zip(a, b, (x, y, i) => i > 0 && x < y && a[i - 1] >= b[i - 1] ? 1 : 0)
+  },
+  abs: { minArgs: 1, maxArgs: 1, evaluate: ([x]) => map(x, Math.abs) },
+  sqrt: { minArgs: 1, maxArgs: 1, evaluate: ([x]) => map(x, Math.sqrt) },
+  log: { minArgs: 1, maxArgs: 1, evaluate: ([x]) => map(x, Math.log) },
+  min: { minArgs: 2, maxArgs: 2, evaluate: ([a, b]) => zip(a, b, Math.min) },
+  max: { minArgs: 2, maxArgs: 2, evaluate: ([a, b]) => zip(a, b, Math.max) },
+  // Replace na with a value, 0 by default
+  nz: {
+    minArgs: 1, maxArgs: 2,
+    evaluate: ([x, replacement]) => map(x, (value, i) => Number.isNaN(value) ? (replacement ? replacement[i] : 0) : value)
+  },
+};
+
+// Own properties only, so names like "toString" aren't mistaken for functions
+export const getScriptFunction = (name: string): ScriptFunction | undefined =>
+  Object.hasOwn(SCRIPT_FUNCTIONS, name) ? SCRIPT_FUNCTIONS[name] : undefined;
+
+const isTrue = (value: number) => !Number.isNaN(value) && value !== 0;
+
+class ScriptRuntime {
+  private variables = new Map<string, Series>();
+  private bars: ScriptBars;
+  private inputs: Record<string, number>;
+  private length: number;
+
+  constructor(bars: ScriptBars, inputs: Record<string, number>) {
+    this.bars = bars;
+    this.inputs = inputs;
+    this.length = bars.close.length;
+  }
+
+  run(program: ScriptProgram): ScriptPlot[] {
+    const plots: ScriptPlot[] = [];
+
+    for (const statement of program.statements) {
+      const { value } = statement;
+
+      if (statement.kind === 'assign') {
+        if (value.kind === 'call' && value.name === 'input') {
+          this.variables.set(statement.name, this.constant(
+            Object.hasOwn(this.inputs, statement.name) ? this.inputs[statement.name] : this.inputDefault(value)
+          ));
+        } else {
+          this.variables.set(statement.name, this.evaluate(value));
+        }
+        continue;
+      }
+
+      if (value.kind === 'call' && value.name === 'plot') {
+        const [series, title] = value.args;
+        const values = Array.from(this.evaluate(series), v => Number.isFinite(v) ? v : null);
+        plots.push({ title: title?.kind === 'string' ? title.value : '', values });
+      }
+    }
+
+    return plots;
+  }
+
+  private evaluate(expression: ScriptExpression): Series {
+    switch (expression.kind) {
+      case 'number':
+        return this.constant(expression.value);
+      case 'identifier':
+        return this.resolve(expression.name, expression.line);
+      case 'unary': {
+        const operand = this.evaluate(expression.operand);
+        return expression.operator === '-'
+          ? map(operand, value => -value)
+          : map(operand, value => Number.isNaN(value) ? NaN : isTrue(value) ? 0 : 1);
+      }
+      case 'binary':
+        return this.binary(expression.operator, this.evaluate(expression.left), this.evaluate(expression.right));
+      case 'conditional': {
+        const condition = this.evaluate(expression.condition);
+        const then = this.evaluate(expression.then);
+        const otherwise = this.evaluate(expression.otherwise);
+        return map(condition, (value, i) => isTrue(value) ? then[i] : otherwise[i]);
+      }
+      case 'history': {
+        const series = this.evaluate(expression.series);
+        const offset = this.toLength(this.evaluate(expression.offset), expression.line, 'History offset', 0);
+        return map(series, (_, i) => i >= offset ? series[i - offset] : NaN);
+      }
+      case 'call': {
+        const fn = getScriptFunction(expression.name);
+        if (!fn) throw new ScriptError(`Unknown function "${expression.name}"`, expression.line);
+
+        const args = expression.args.map(arg => this.evaluate(arg));
+        const lengths = (fn.lengthArgs ?? [])
+          .filter(position => position < args.length)
+          .map(position => this.toLength(args[position], expression.line, `The length for ${expression.name}()`, 1));
+        return fn.evaluate(args, lengths, this.bars);
+      }
+      case 'string':
+        throw new ScriptError('Text can only be used as a title', expression.line);
+    }
+  }
+
+  private binary(operator: string, left: Series, right: Series): Series {
+    switch (operator) {
+      case '+': return zip(left, right, (a, b) => a + b);
+      case '-': return zip(left, right, (a, b) => a - b);
+      case '*': return zip(left, right, (a, b) => a * b);
+      case '/': return zip(left, right, (a, b) => b === 0 ? NaN : a / b);
+      case '%': return zip(left, right, (a, b) => b === 0 ? NaN : a % b);
+      // Comparisons with na are false
+      case '==': return zip(left, right, (a, b) => a === b ? 1 : 0);
+      case '!=': return zip(left, right, (a, b) => Number.isNaN(a) || Number.isNaN(b) || a === b ? 0 : 1);
+      case '<': return zip(left, right, (a, b) => a < b ? 1 : 0);
+      case '<=': return zip(left, right, (a, b) => a <= b ? 1 : 0);
+      case '>': return zip(left, right, (a, b) => a > b ? 1 : 0);
+      case '>=': return zip(left, right, (a, b) => a >= b ? 1 : 0);
+      case 'and': return zip(left, right, (a, b) => isTrue(a) && isTrue(b) ? 1 : 0);
+      default: return zip(left, right, (a, b) => isTrue(a) || isTrue(b) ? 1 : 0);
+    }
+  }
+
+  private resolve(name: string, line: number): Series {
+    const variable = this.variables.get(name);
+    if (variable) return variable;
+
+    const { open, high, low, close, volume } = this.bars;
+    switch (name) {
+      case 'open': return Float64Array.from(open);
+      case 'high': return Float64Array.from(high);
+      case 'low': return Float64Array.from(low);
+      case 'close': return Float64Array.from(close);
+      case 'volume': return Float64Array.from(volume);
+      case 'hl2': return map(this.constant(0), (_, i) => (high[i] + low[i]) / 2);
+      case 'hlc3': return map(this.constant(0), (_, i) => (high[i] + low[i] + close[i]) / 3);
+      case 'ohlc4': return map(this.constant(0), (_, i) => (open[i] + high[i] + low[i] + close[i]) / 4);
+      case 'bar_index': return map(this.constant(0), (_, i) => i);
+      case 'na': return this.constant(NaN);
+    }
+    throw new ScriptError(`Unknown variable "${name}"`, line);
+  }
+
+  private constant(value: number): Series {
+    return new Float64Array(this.length).fill(value);
+  }
+
+  private inputDefault(call: Extract<ScriptExpression, { kind: 'call' }>): number {
+    const [value] = call.args;
+    return value.kind === 'unary' && value.operand.kind === 'number' ? -value.operand.value
+      : value.kind === 'number' ? value.value : NaN;
+  }
+
+  // Lengths and offsets must be the same whole number on every bar (a literal or an input)
+  private toLength(series: Series, line: number, what: string, min: number): number {
+    const value = series[series.length - 1];
+    if (series.length === 0) return min;
+    if (!Number.isInteger(value) || value < min || value > MAX_SCRIPT_LENGTH || series.some(v => v !== value)) {
+      throw new ScriptError(`${what} must be a whole number from ${min} to ${MAX_SCRIPT_LENGTH}`, line);
+    }
+    return value;
+  }
+}
+
+/**
+ * Evaluate a compiled script over `bars`. `inputs` override the defaults of the
+ * script's `input()` values by variable name. Errors are `ScriptError`s with the line.
+ */
+export function runScript(program: ScriptProgram, bars: ScriptBars, inputs: Record<string, number> = {}): ScriptPlot[] {
+  return new ScriptRuntime(bars, inputs).run(program);
+}
@@ -0,0 +1,19 @@
+// Runs indicator scripts off the main thread. Scripts are interpreted, never evaluated
+// as JavaScript, and `ScriptRunner` terminates the worker if one runs too long.
+import { ScriptError } from './scriptLanguage';
+import { runScript } from './scriptRuntime';
+import type { ScriptWorkerRequest, ScriptWorkerResponse } from './ScriptRunner';
+
+self.onmessage = (event: MessageEvent<ScriptWorkerRequest>) => {
+  const { requestId, program, bars, inputs } = event.data;
+
+  let response: ScriptWorkerResponse;
+  try {
+    response = { requestId, plots: runScript(program, bars, inputs) };
+  } catch (error) {
+    response = error instanceof ScriptError
+      ? { requestId, error: { message: error.message, line: error.line } }
+      : { requestId, error: { message: error instanceof Error ? error.message : String(error), line: 0 } };
+  }
+  self.postMessage(response);
+};
@@ -1,4 +1,10 @@
 // Indicator types and interfaces for the trading chart
+import type { ScaleOptions } from 'chart.js';
+import type { IndicatorParameters, IndicatorSettings } from '../../../types';
+
+export type { IndicatorParameters, IndicatorSettings };
+
+export type IndicatorCategory = 'overlay' | 'oscillator';
 
 export interface OHLCData {
   timestamp: Date;
@@ -7,15 +13,25 @@ export interface OHLCData {
   low: number;
   close: number;
   volume: number;
+  vwap?: number; // the bar's own volume-weighted average price, when the source provides it (`Bar.vw`)
 }
 
-export interface IndicatorConfig {
+// Price each bar contributes to indicators with a `source` parameter
+export type IndicatorSource = 'close' | 'open' | 'high' | 'low' | 'hl2' | 'hlc3' | 'ohlc4';
+
+export type IndicatorLineStyle = 'solid' | 'dashed' | 'dotted';
+
+// Overrides for how an indicator's lines are drawn; unset fields keep the calculator's look
+export interface IndicatorStyle {
+  color?: string; // main line
+  lineWidth?: number;
+  lineStyle?: IndicatorLineStyle;
+}
+
+// An indicator added to a chart. A chart can hold several instances of the same calculator.
+export interface IndicatorInstance extends IndicatorSettings {
   id: string;
-  name: string;
-  category: 'overlay' | 'oscillator';
-  parameters: Record<string, any>;
-  defaultParameters: Record<string, any>;
-  enabled: boolean;
+  style?: IndicatorStyle;
 }
 
 export interface IndicatorDataPoint {
@@ -34,23 +50,30 @@ export interface IndicatorDataset {
   yAxisID?: string;
   type?: 'line' | 'bar';
   borderDash?: number[];
+  showLine?: boolean; // false to plot points only, e.g. Parabolic SAR dots
+  // Chart.js fill target, e.g. shading an Ichimoku cloud between two spans
+  fill?: string | number | boolean | { target: string | number; above?: string; below?: string };
 }
 
+// Reference levels are drawn across the oscillator's pane, e.g. RSI 70/30
 export interface OscillatorDataset extends IndicatorDataset {
   upperLevel?: number;
   lowerLevel?: number;
 }
 
 export interface IndicatorResult {
-  datasets: IndicatorDataset[];
-  scales?: Record<string, any>;
+  datasets: Array<IndicatorDataset | OscillatorDataset>;
+  scales?: Record<string, ScaleOptions>;
+  // Intermediate series (e.g. running averages) kept so `update` can resume mid-series
+  state?: Record<string, (number | null)[]>;
 }
 
 export interface IndicatorCalculator {
   id: string;
   name: string;
-  category: 'overlay' | 'oscillator';
-  defaultParameters: Record<string, any>;
+  shortName?: string; // compact label for alerts, scans and legends, e.g. 'SMA'
+  category: IndicatorCategory;
+  defaultParameters: IndicatorParameters;
   
   calculate: (
     data: Array<{
@@ -61,8 +84,19 @@ export interface IndicatorCalculator {
       close: number;
       volume: number;
     }>,
-    parameters: Record<string, any>
+    parameters: IndicatorParameters
+  ) => IndicatorResult;
+  
+  /**
+   * Recalculate only bars from `fromIndex` onwards, reusing `previous` for the rest.
+   * Used when live ticks change the last bar. Indicators without it are recalculated in full.
+   */
+  update?: (
+    data: OHLCData[],
+    parameters: IndicatorParameters,
+    previous: IndicatorResult,
+    fromIndex: number
   ) => IndicatorResult;
   
-  validateParameters: (parameters: Record<string, any>) => boolean;
+  validateParameters: (parameters: IndicatorParameters) => boolean;
 }
\ No newline at end of file
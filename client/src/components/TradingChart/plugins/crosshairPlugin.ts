@@ -0,0 +1,54 @@
+import type { Chart as ChartJS, ChartEvent, Plugin } from 'chart.js';
+import { ChartPaneGroup } from '../services/ChartPaneGroup';
+
+const CROSSHAIR_COLOR = 'rgba(255, 255, 255, 0.35)';
+
+/**
+ * Crosshair shared by every pane in a `ChartPaneGroup`: the time line is drawn across all
+ * panes, the value line only in the pane under the cursor.
+ */
+export const crosshairPlugin: Plugin<'line' | 'bar'> = {
+  id: 'paneCrosshair',
+
+  afterEvent(chart: ChartJS, args: { event: ChartEvent; inChartArea: boolean; changed?: boolean }) {
+    const group = ChartPaneGroup.forChart(chart);
+    const xScale = chart.scales.x;
+    if (!group || !xScale) return;
+
+    const { event, inChartArea } = args;
+    if (event.type === 'mouseout' || (event.type === 'mousemove' && !inChartArea)) {
+      group.setCrosshair(chart, null);
+      args.changed = true;
+    } else if (event.type === 'mousemove' && event.x !== null && event.y !== null) {
+      const time = xScale.getValueForPixel(event.x);
+      if (time === undefined) return;
+      group.setCrosshair(chart, time, event.y);
+      args.changed = true;
+    }
+  },
+
+  afterDraw(chart: ChartJS) {
+    const crosshair = ChartPaneGroup.forChart(chart)?.getCrosshair();
+    const xScale = chart.scales.x;
+    const chartArea = chart.chartArea;
+    if (!crosshair || !xScale || !chartArea) return;
+
+    const x = xScale.getPixelForValue(crosshair.time);
+    if (x < chartArea.left || x > chartArea.right) return;
+
+    const ctx = chart.ctx;
+    ctx.save();
+    ctx.strokeStyle = CROSSHAIR_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(x, chartArea.top);
+    ctx.lineTo(x, chartArea.bottom);
+    if (crosshair.source === chart && crosshair.y >= chartArea.top && crosshair.y <= chartArea.bottom) {
+      ctx.moveTo(chartArea.left, crosshair.y);
+      ctx.lineTo(chartArea.right, crosshair.y);
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+};
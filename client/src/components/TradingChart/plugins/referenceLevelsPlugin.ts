@@ -0,0 +1,57 @@
+import type { Chart as ChartJS, Plugin } from 'chart.js';
+import type { OscillatorDataset } from '../indicators/types';
+
+const UPPER_COLOR = 'rgba(239, 83, 80, 0.5)';
+const LOWER_COLOR = 'rgba(38, 166, 154, 0.5)';
+const BAND_COLOR = 'rgba(126, 87, 194, 0.06)';
+
+/**
+ * Draws the `upperLevel`/`lowerLevel` of oscillator datasets (e.g. RSI 70/30) as dashed
+ * lines on the dataset's scale, shading the band between them.
+ */
+export const referenceLevelsPlugin: Plugin<'line' | 'bar'> = {
+  id: 'referenceLevels',
+
+  beforeDatasetsDraw(chart: ChartJS) {
+    const chartArea = chart.chartArea;
+    if (!chartArea) return;
+
+    const ctx = chart.ctx;
+    chart.data.datasets.forEach((dataset, index) => {
+      const { upperLevel, lowerLevel, yAxisID } = dataset as unknown as OscillatorDataset;
+      if ((upperLevel === undefined && lowerLevel === undefined) || !chart.isDatasetVisible(index)) return;
+
+      const yScale = chart.scales[yAxisID ?? 'y'];
+      if (!yScale) return;
+
+      const upperY = upperLevel !== undefined ? yScale.getPixelForValue(upperLevel) : null;
+      const lowerY = lowerLevel !== undefined ? yScale.getPixelForValue(lowerLevel) : null;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(chartArea.left, chartArea.top, chartArea.width, chartArea.height);
+      ctx.clip();
+
+      if (upperY !== null && lowerY !== null) {
+        ctx.fillStyle = BAND_COLOR;
+        ctx.fillRect(chartArea.left, upperY, chartArea.width, lowerY - upperY);
+      }
+
+      if (upperY !== null) drawLevel(ctx, chartArea, upperY, UPPER_COLOR);
+      if (lowerY !== null) drawLevel(ctx, chartArea, lowerY, LOWER_COLOR);
+      ctx.restore();
+    });
+  }
+};
+
+function drawLevel(ctx: CanvasRenderingContext2D, chartArea: ChartJS['chartArea'], y: number, color: string) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([5, 5]);
+  ctx.beginPath();
+  ctx.moveTo(chartArea.left, y);
+  ctx.lineTo(chartArea.right, y);
+  ctx.stroke();
+  ctx.restore();
+}
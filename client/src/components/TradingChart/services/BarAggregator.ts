@@ -0,0 +1,214 @@
+import type { MarketHours } from '../../../types';
+import type { OHLCData } from '../indicators/types';
+import { getIntervalMilliseconds, type ChartInterval } from '../utils/timeframes';
+
+const EXCHANGE_TIME_ZONE = 'America/New_York';
+const DEFAULT_OPEN = '09:30';
+const DEFAULT_CLOSE = '16:00';
+
+export interface LiveTick {
+  price: number;
+  timestamp: Date;
+  volume: number; // volume traded since the previous tick
+}
+
+export interface TradingSession {
+  open: Date;
+  close: Date;
+}
+
+export interface AggregateResult {
+  bar: OHLCData;
+  isNewBar: boolean;
+}
+
+// Offset of `timeZone` from UTC at `date`, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Exchange-local wall clock time on the exchange-local day of `reference`
+function exchangeTimeOn(reference: Date, hhmm: string): Date {
+  const offset = getTimeZoneOffset(reference, EXCHANGE_TIME_ZONE);
+  const local = new Date(reference.getTime() + offset);
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  const wallClock = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), hours, minutes);
+  return new Date(wallClock - offset);
+}
+
+function parseSessionTime(value: string | undefined, reference: Date, fallback: string): Date {
+  if (!value) return exchangeTimeOn(reference, fallback);
+  // Either a full timestamp or an exchange-local "HH:mm"
+  if (/^\d{1,2}:\d{2}/.test(value)) return exchangeTimeOn(reference, value.slice(0, 5));
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? exchangeTimeOn(reference, fallback) : parsed;
+}
+
+/**
+ * Regular trading session containing `at`, or null when the market is closed that day.
+ * Without market hours from the API, falls back to 09:30-16:00 ET on weekdays.
+ */
+export function getTradingSession(at: Date, marketHours?: MarketHours | null): TradingSession | null {
+  if (marketHours) {
+    if (!marketHours.isOpen) return null;
+    return {
+      open: parseSessionTime(marketHours.earlyOpenTime ?? marketHours.openTime, at, DEFAULT_OPEN),
+      close: parseSessionTime(marketHours.lateCloseTime ?? marketHours.closeTime, at, DEFAULT_CLOSE),
+    };
+  }
+
+  const localDay = new Date(at.getTime() + getTimeZoneOffset(at, EXCHANGE_TIME_ZONE)).getUTCDay();
+  if (localDay === 0 || localDay === 6) return null;
+
+  return {
+    open: exchangeTimeOn(at, DEFAULT_OPEN),
+    close: exchangeTimeOn(at, DEFAULT_CLOSE),
+  };
+}
+
+// Exchange-local calendar day of `at` as YYYY-MM-DD, e.g. to anchor indicators to sessions
+export function getExchangeDate(at: Date): string {
+  return new Date(at.getTime() + getTimeZoneOffset(at, EXCHANGE_TIME_ZONE)).toISOString().slice(0, 10);
+}
+
+export function isInSession(at: Date, session: TradingSession | null): boolean {
+  return !!session && at >= session.open && at < session.close;
+}
+
+/**
+ * Start of the bar that `time` falls into.
+ *
+ * When there is history, buckets are counted from the last historical bar so live
+ * bars line up with whatever alignment the bars provider uses. Without history,
+ * intraday bars align to the clock and daily/weekly bars to exchange midnight.
+ */
+export function getBarStart(time: Date, interval: ChartInterval, anchor?: Date): Date {
+  const intervalMs = getIntervalMilliseconds(interval);
+
+  if (anchor) {
+    const elapsed = time.getTime() - anchor.getTime();
+    return new Date(anchor.getTime() + Math.floor(elapsed / intervalMs) * intervalMs);
+  }
+
+  if (interval === '1d' || interval === '1w') {
+    const midnight = exchangeTimeOn(time, '00:00');
+    if (interval === '1d') return midnight;
+    // Weeks start on Monday
+    const localDay = new Date(midnight.getTime() + getTimeZoneOffset(midnight, EXCHANGE_TIME_ZONE)).getUTCDay();
+    const daysSinceMonday = (localDay + 6) % 7;
+    return exchangeTimeOn(new Date(midnight.getTime() - daysSinceMonday * 24 * 60 * 60 * 1000), '00:00');
+  }
+
+  return new Date(Math.floor(time.getTime() / intervalMs) * intervalMs);
+}
+
+/**
+ * Fold a tick into the series' current bar, or start the next bar when the tick
+ * crosses an interval boundary. Returns null for ticks that belong to an earlier bar.
+ */
+export function aggregateTick(
+  lastBar: OHLCData | undefined,
+  tick: LiveTick,
+  interval: ChartInterval
+): AggregateResult | null {
+  const barStart = getBarStart(tick.timestamp, interval, lastBar?.timestamp);
+
+  if (lastBar && barStart.getTime() < lastBar.timestamp.getTime()) {
+    return null;
+  }
+
+  if (lastBar && barStart.getTime() === lastBar.timestamp.getTime()) {
+    return {
+      isNewBar: false,
+      bar: {
+        ...lastBar,
+        high: Math.max(lastBar.high, tick.price),
+        low: Math.min(lastBar.low, tick.price),
+        close: tick.price,
+        volume: lastBar.volume + tick.volume,
+        // Keep the provider's VWAP current as volume trades at the tick price
+        vwap: lastBar.vwap !== undefined && lastBar.volume + tick.volume > 0
+          ? (lastBar.vwap * lastBar.volume + tick.price * tick.volume) / (lastBar.volume + tick.volume)
+          : lastBar.vwap,
+      },
+    };
+  }
+
+  return {
+    isNewBar: true,
+    bar: {
+      timestamp: barStart,
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      volume: tick.volume,
+    },
+  };
+}
+
+/**
+ * Apply ticks in order to a series, replacing or appending the last bar.
+ * Returns the original array when no tick changed it.
+ */
+export function applyTicks(series: OHLCData[], ticks: LiveTick[], interval: ChartInterval): OHLCData[] {
+  let result = series;
+
+  ticks.forEach(tick => {
+    const update = aggregateTick(result[result.length - 1], tick, interval);
+    if (!update) return;
+
+    result = update.isNewBar
+      ? [...result, update.bar]
+      : [...result.slice(0, -1), update.bar];
+  });
+
+  return result;
+}
+
+/**
+ * Index of the first bar that differs between two versions of a series.
+ * `applyTicks` keeps unchanged bars by reference, so a reference comparison is enough.
+ */
+export function findFirstChangedBar(previous: OHLCData[], next: OHLCData[]): number {
+  const length = Math.min(previous.length, next.length);
+  for (let i = 0; i < length; i++) {
+    if (previous[i] !== next[i]) return i;
+  }
+  return length;
+}
+
+/**
+ * Converts the cumulative volume carried on streaming quotes into per-tick volume.
+ */
+export class VolumeTracker {
+  private lastCumulative: number | null = null;
+
+  next(cumulative: number | undefined): number {
+    if (cumulative === undefined || !Number.isFinite(cumulative)) return 0;
+
+    const previous = this.lastCumulative;
+    this.lastCumulative = cumulative;
+
+    // First observation is only a baseline; a drop means the counter reset for a new day
+    if (previous === null) return 0;
+    return cumulative >= previous ? cumulative - previous : cumulative;
+  }
+
+  reset(): void {
+    this.lastCumulative = null;
+  }
+}
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import apiClient from '../../../services/api';
+import type { Bar, BarsQueryParams, BarsResponse } from '../../../types';
+import { ApiBarsProvider, BarsHistoryService, type BarsProvider, type BarsQuery } from './BarsProvider';
+import { FixtureBarsProvider } from './FixtureBarsProvider';
+
+vi.mock('../../../services/api', () => ({
+  default: { getBars: vi.fn() },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 28, 20);
+
+// One bar per day at 14:30 UTC, the last one on the day before NOW, closing at 100 + i
+const dailyBars = (count: number): Bar[] =>
+  Array.from({ length: count }, (_, i) => ({
+    t: new Date(Date.UTC(2024, 5, 27, 14, 30) - (count - 1 - i) * DAY).toISOString(),
+    o: 100 + i,
+    h: 101 + i,
+    l: 99 + i,
+    c: 100 + i,
+    v: 1000,
+  }));
+
+describe('ApiBarsProvider', () => {
+  const getBars = vi.mocked(apiClient.getBars);
+
+  afterEach(() => {
+    getBars.mockReset();
+  });
+
+  it('follows page tokens in ascending order for a range', async () => {
+    const bars = dailyBars(5);
+    getBars
+      .mockResolvedValueOnce({ symbol: 'AAPL', bars: bars.slice(0, 3), nextPageToken: 'page-2' })
+      .mockResolvedValueOnce({ symbol: 'AAPL', bars: bars.slice(3), nextPageToken: null });
+    const start = new Date(NOW - 10 * DAY);
+    const end = new Date(NOW);
+
+    const result = await new ApiBarsProvider().getBars({ symbol: 'AAPL', interval: '1d', start, end });
+
+    expect(result).toEqual(bars);
+    expect(getBars).toHaveBeenCalledTimes(2);
+    expect(getBars.mock.calls[0]).toEqual(['AAPL', {
+      timeframe: '1Day',
+      start: start.toISOString(),
+      end: end.toISOString(),
+      limit: undefined,
+      sort: 'asc',
+      pageToken: undefined,
+    } satisfies BarsQueryParams]);
+    expect(getBars.mock.calls[1][1].pageToken).toBe('page-2');
+  });
+
+  it('walks backwards from end with a limit and returns ascending bars', async () => {
+    const bars = dailyBars(5);
+    const newestFirst = [...bars].reverse();
+    getBars
+      .mockResolvedValueOnce({ symbol: 'AAPL', bars: newestFirst.slice(0, 3), nextPageToken: 'page-2' })
+      .mockResolvedValueOnce({ symbol: 'AAPL', bars: newestFirst.slice(3, 4), nextPageToken: 'page-3' });
+
+    const result = await new ApiBarsProvider().getBars({
+      symbol: 'AAPL',
+      interval: '1h',
+      end: new Date(NOW),
+      limit: 4,
+    });
+
+    expect(result).toEqual(bars.slice(1));
+    expect(getBars.mock.calls.map(([, params]) => [params.timeframe, params.sort, params.limit]))
+      .toEqual([['1Hour', 'desc', 4], ['1Hour', 'desc', 1]]);
+  });
+
+  it('treats a page without bars as empty', async () => {
+    getBars.mockResolvedValueOnce({ symbol: 'AAPL', bars: null } as unknown as BarsResponse);
+
+    const result = await new ApiBarsProvider().getBars({ symbol: 'AAPL', interval: '1d' });
+
+    expect(result).toEqual([]);
+  });
+});
+
+describe('BarsHistoryService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const countingProvider = (inner: BarsProvider) => {
+    const queries: BarsQuery[] = [];
+    const provider: BarsProvider = {
+      name: inner.name,
+      getBars: query => {
+        queries.push(query);
+        return inner.getBars(query);
+      },
+    };
+    return { provider, queries };
+  };
+
+  it('loads the period ending now and caches it', async () => {
+    const { provider, queries } = countingProvider(new FixtureBarsProvider({ 'AAPL:1d': dailyBars(60) }));
+    const history = new BarsHistoryService(provider);
+
+    const data = await history.getHistory('aapl', '1mo', '1d');
+    const again = await history.getHistory('AAPL', '1mo', '1d');
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].symbol).toBe('AAPL');
+    expect(queries[0].end?.getTime()).toBe(NOW);
+    expect(again).toBe(data);
+    expect(data.length).toBeGreaterThan(0);
+    expect(data.every(d => d.timestamp.getTime() >= queries[0].start!.getTime())).toBe(true);
+    expect(data[data.length - 1].close).toBe(159);
+  });
+
+  it('refetches once the cache expires or is invalidated', async () => {
+    const { provider, queries } = countingProvider(new FixtureBarsProvider({ 'AAPL:1d': dailyBars(60) }));
+    const history = new BarsHistoryService(provider);
+
+    await history.getHistory('AAPL', '1mo', '1d');
+    vi.setSystemTime(NOW + 6 * 60 * 1000);
+    await history.getHistory('AAPL', '1mo', '1d');
+    history.invalidate('aapl');
+    await history.getHistory('AAPL', '1mo', '1d');
+
+    expect(queries).toHaveLength(3);
+  });
+
+  it('rejects invalid symbols', async () => {
+    const history = new BarsHistoryService(new FixtureBarsProvider({}));
+
+    await expect(history.getHistory('NOT A SYMBOL', '1mo', '1d')).rejects.toThrow('Invalid symbol format');
+  });
+
+  it('prepends older pages until the provider runs out', async () => {
+    const bars = dailyBars(600);
+    const { provider, queries } = countingProvider(new FixtureBarsProvider({ 'AAPL:1d': bars }));
+    const history = new BarsHistoryService(provider);
+    const initial = await history.getHistory('AAPL', '1mo', '1d');
+    const oldest = initial[0].timestamp;
+
+    const first = await history.loadOlder('AAPL', '1mo', '1d');
+
+    expect(queries[1].end).toEqual(oldest);
+    expect(queries[1].limit).toBe(500);
+    expect(first.added).toBe(500);
+    expect(first.data).toHaveLength(initial.length + 500);
+    expect(first.data.map(d => d.close)).toEqual(bars.slice(-first.data.length).map(bar => bar.c));
+
+    const second = await history.loadOlder('AAPL', '1mo', '1d');
+    expect(second.added).toBe(bars.length - first.data.length);
+    expect(second.data.map(d => d.close)).toEqual(bars.map(bar => bar.c));
+
+    const last = await history.loadOlder('AAPL', '1mo', '1d');
+    expect(last).toMatchObject({ added: 0, hasMore: false });
+  });
+
+  it('shares one request between concurrent loadOlder calls', async () => {
+    const { provider, queries } = countingProvider(new FixtureBarsProvider({ 'AAPL:1d': dailyBars(100) }));
+    const history = new BarsHistoryService(provider);
+    const initial = await history.getHistory('AAPL', '1mo', '1d');
+
+    const [a, b] = await Promise.all([
+      history.loadOlder('AAPL', '1mo', '1d'),
+      history.loadOlder('AAPL', '1mo', '1d'),
+    ]);
+
+    expect(queries).toHaveLength(2);
+    expect(a.added + b.added).toBe(100 - initial.length);
+    expect(b.data).toHaveLength(100);
+  });
+});
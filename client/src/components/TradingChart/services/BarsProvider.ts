@@ -0,0 +1,211 @@
+import apiClient from '../../../services/api';
+import type { Bar } from '../../../types';
+import type { OHLCData } from '../indicators/types';
+import {
+  getIntervalMilliseconds,
+  getPeriodMilliseconds,
+  toApiTimeframe,
+  type ChartInterval,
+  type ChartPeriod,
+} from '../utils/timeframes';
+
+export interface BarsQuery {
+  symbol: string;
+  interval: ChartInterval;
+  start?: Date;
+  end?: Date; // exclusive
+  limit?: number; // when set, the most recent `limit` bars before `end` are returned
+}
+
+/**
+ * Source of historical bars for the trading chart.
+ * Implementations return bars in ascending time order within [start, end).
+ */
+export interface BarsProvider {
+  readonly name: string;
+  getBars(query: BarsQuery): Promise<Bar[]>;
+}
+
+export function barToOHLC(bar: Bar): OHLCData {
+  return {
+    timestamp: new Date(bar.t),
+    open: bar.o,
+    high: bar.h,
+    low: bar.l,
+    close: bar.c,
+    volume: bar.v,
+    vwap: bar.vw,
+  };
+}
+
+export function ohlcToBar(data: OHLCData): Bar {
+  return {
+    t: data.timestamp.toISOString(),
+    o: data.open,
+    h: data.high,
+    l: data.low,
+    c: data.close,
+    v: data.volume,
+    vw: data.vwap,
+  };
+}
+
+/**
+ * Fetches bars from the backend market data API, following page tokens.
+ */
+export class ApiBarsProvider implements BarsProvider {
+  readonly name = 'api';
+  private readonly MAX_PAGES = 20;
+
+  async getBars(query: BarsQuery): Promise<Bar[]> {
+    const bars: Bar[] = [];
+    let pageToken: string | undefined;
+    let pages = 0;
+
+    // With a limit we want the bars nearest to `end`, so walk backwards
+    const sort = query.limit ? 'desc' : 'asc';
+
+    do {
+      const response = await apiClient.getBars(query.symbol, {
+        timeframe: toApiTimeframe(query.interval),
+        start: query.start?.toISOString(),
+        end: query.end?.toISOString(),
+        limit: query.limit ? query.limit - bars.length : undefined,
+        sort,
+        pageToken,
+      });
+
+      bars.push(...(response.bars ?? []));
+      pageToken = response.nextPageToken ?? undefined;
+      pages++;
+    } while (pageToken && pages < this.MAX_PAGES && (!query.limit || bars.length < query.limit));
+
+    return sort === 'desc' ? bars.reverse() : bars;
+  }
+}
+
+interface HistoryEntry {
+  data: OHLCData[];
+  hasMore: boolean;
+  fetchedAt: number;
+  pendingOlder: Promise<OHLCData[]> | null;
+}
+
+export interface OlderBarsResult {
+  data: OHLCData[];
+  added: number;
+  hasMore: boolean;
+}
+
+/**
+ * Loads chart history through a BarsProvider, caching per symbol/period/interval
+ * and extending the cached series backwards one page at a time.
+ */
+export class BarsHistoryService {
+  private cache = new Map<string, HistoryEntry>();
+  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly PAGE_SIZE = 500;
+  private provider: BarsProvider;
+
+  constructor(provider: BarsProvider) {
+    this.provider = provider;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  private isValidSymbol(symbol: string): boolean {
+    return /^[A-Z]{1,5}(\.[A-Z])?$/.test(symbol.trim().toUpperCase());
+  }
+
+  private getCacheKey(symbol: string, period: ChartPeriod, interval: ChartInterval): string {
+    return `${symbol}-${period}-${interval}`;
+  }
+
+  async getHistory(symbol: string, period: ChartPeriod, interval: ChartInterval): Promise<OHLCData[]> {
+    if (!symbol || !this.isValidSymbol(symbol)) {
+      throw new Error('Invalid symbol format');
+    }
+
+    const normalizedSymbol = symbol.trim().toUpperCase();
+    const cacheKey = this.getCacheKey(normalizedSymbol, period, interval);
+
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < this.CACHE_DURATION) {
+      return cached.data;
+    }
+
+    const end = new Date();
+    const start = new Date(end.getTime() - getPeriodMilliseconds(period));
+    const bars = await this.provider.getBars({ symbol: normalizedSymbol, interval, start, end });
+    const data = bars.map(barToOHLC);
+
+    this.cache.set(cacheKey, {
+      data,
+      hasMore: true,
+      fetchedAt: Date.now(),
+      pendingOlder: null,
+    });
+
+    return data;
+  }
+
+  /**
+   * Prepend the page of bars immediately before the oldest cached bar.
+   * Concurrent calls for the same series share one request.
+   */
+  async loadOlder(symbol: string, period: ChartPeriod, interval: ChartInterval): Promise<OlderBarsResult> {
+    const normalizedSymbol = symbol.trim().toUpperCase();
+    const entry = this.cache.get(this.getCacheKey(normalizedSymbol, period, interval));
+
+    if (!entry || entry.data.length === 0) {
+      return { data: entry?.data ?? [], added: 0, hasMore: false };
+    }
+    if (!entry.hasMore) {
+      return { data: entry.data, added: 0, hasMore: false };
+    }
+
+    if (!entry.pendingOlder) {
+      const end = entry.data[0].timestamp;
+      // Look back far enough to fill a page even across weekends and holidays
+      const lookback = Math.max(
+        getPeriodMilliseconds(period),
+        getIntervalMilliseconds(interval) * this.PAGE_SIZE * 2
+      );
+      const start = new Date(end.getTime() - lookback);
+
+      entry.pendingOlder = this.provider
+        .getBars({ symbol: normalizedSymbol, interval, start, end, limit: this.PAGE_SIZE })
+        .then(bars => bars.map(barToOHLC).filter(d => d.timestamp < end))
+        .finally(() => {
+          entry.pendingOlder = null;
+        });
+    }
+
+    const older = await entry.pendingOlder;
+    if (older.length === 0) {
+      entry.hasMore = false;
+      return { data: entry.data, added: 0, hasMore: false };
+    }
+
+    // Another caller may already have merged this page
+    const oldest = entry.data[0].timestamp;
+    const fresh = older.filter(d => d.timestamp < oldest);
+    entry.data = [...fresh, ...entry.data];
+
+    return { data: entry.data, added: fresh.length, hasMore: entry.hasMore };
+  }
+
+  invalidate(symbol?: string): void {
+    if (!symbol) {
+      this.cache.clear();
+      return;
+    }
+
+    const prefix = `${symbol.trim().toUpperCase()}-`;
+    Array.from(this.cache.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.cache.delete(key));
+  }
+}
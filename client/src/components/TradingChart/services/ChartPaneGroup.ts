@@ -0,0 +1,77 @@
+import type { Chart as ChartJS } from 'chart.js';
+
+// Pane ids besides oscillator instance ids
+export const MAIN_PANE_ID = 'main';
+export const VOLUME_PANE_ID = 'volume';
+
+// Fixed width of every pane's value axis, so all plot areas line up on the time axis
+export const PANE_AXIS_WIDTH = 64;
+
+export const DEFAULT_PANE_HEIGHT = 120;
+export const MIN_PANE_HEIGHT = 60;
+export const MAX_PANE_HEIGHT = 400;
+
+// Charts belong to at most one group; the crosshair plugin looks groups up from here
+const groupsByChart = new WeakMap<ChartJS, ChartPaneGroup>();
+
+/**
+ * The stacked charts of one trading chart: the price pane, volume and one pane per oscillator.
+ * Keeps their visible time range in step and shares the crosshair position between them.
+ */
+export class ChartPaneGroup {
+  private charts = new Map<string, ChartJS>();
+  private crosshair: { time: number; source: ChartJS; y: number } | null = null;
+
+  static forChart(chart: ChartJS): ChartPaneGroup | undefined {
+    return groupsByChart.get(chart);
+  }
+
+  // Pass null when the pane unmounts
+  setChart(paneId: string, chart: ChartJS | null): void {
+    const previous = this.charts.get(paneId);
+    if (previous === chart) return;
+
+    if (previous) {
+      groupsByChart.delete(previous);
+      this.charts.delete(paneId);
+    }
+    if (chart) {
+      this.charts.set(paneId, chart);
+      groupsByChart.set(chart, this);
+    }
+  }
+
+  // Every pane's chart, e.g. to export them as one image
+  getCharts(): ChartJS[] {
+    return Array.from(this.charts.values());
+  }
+
+  // Show the time range of `source` in every other pane
+  syncRange(source: ChartJS): void {
+    const sourceScale = source.scales.x;
+    if (!sourceScale) return;
+
+    this.charts.forEach(chart => {
+      const xOptions = chart.options.scales?.x;
+      if (chart === source || !xOptions) return;
+
+      xOptions.min = sourceScale.min;
+      xOptions.max = sourceScale.max;
+      chart.update('none');
+    });
+  }
+
+  getCrosshair(): { time: number; source: ChartJS; y: number } | null {
+    return this.crosshair;
+  }
+
+  // Move the crosshair to `time` (null hides it) and redraw the other panes
+  setCrosshair(source: ChartJS, time: number | null, y = 0): void {
+    if (time === null && this.crosshair?.source !== source) return;
+
+    this.crosshair = time === null ? null : { time, source, y };
+    this.charts.forEach(chart => {
+      if (chart !== source) chart.draw();
+    });
+  }
+}
@@ -1,13 +1,25 @@
-import type { Drawing } from '../DrawingTools/types';
+import { isValidDrawing, type Drawing } from '../DrawingTools/types';
+import type { IndicatorInstance, IndicatorSettings } from '../indicators';
+import { ApiChartSyncBackend, ChartSyncService } from './ChartSyncService';
+
+// Sizes for the chart types derived from the bars; unset sizes follow the average true range
+export interface ChartTypeOptions {
+  renkoBoxSize?: number;
+  rangeBarSize?: number; // high-low span of each range bar
+  baselinePrice?: number; // baseline charts; defaults to the first visible close
+}
 
 // Chart settings that should be persisted
 export interface ChartSettings {
   period: '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '2y';
   interval: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w';
-  chartType: 'candlestick' | 'ohlc' | 'line';
+  chartType: 'candlestick' | 'ohlc' | 'line' | 'heikin-ashi' | 'renko' | 'range' | 'area' | 'baseline';
+  chartTypeOptions?: ChartTypeOptions;
   showVolume: boolean;
-  priceScale: 'linear' | 'logarithmic';
-  indicators?: string[]; // Future: technical indicators
+  priceScale: 'linear' | 'logarithmic' | 'percent'; // percent: change from the first visible bar
+  indicators?: IndicatorInstance[];
+  paneHeights?: Record<string, number>; // volume and oscillator panes, by pane id
+  comparisons?: string[]; // symbols drawn over the price as percent-change lines
 }
 
 // Complete chart state for a symbol
@@ -27,7 +39,19 @@ const STORAGE_KEYS = {
 } as const;
 
 // Current version for data migration
-const CURRENT_VERSION = 1;
+// v2: indicators are stored as full instances instead of v1's preset ids
+const CURRENT_VERSION = 2;
+
+// The presets v1 stored by id
+const V1_INDICATOR_PRESETS: Record<string, IndicatorSettings> = {
+  sma20: { indicator: 'sma', parameters: { period: 20, source: 'close' } },
+  sma50: { indicator: 'sma', parameters: { period: 50, source: 'close' } },
+  ema20: { indicator: 'ema', parameters: { period: 20, source: 'close' } },
+  macd: { indicator: 'macd', parameters: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, source: 'close' } },
+  rsi14: { indicator: 'rsi', parameters: { period: 14, source: 'close', overbought: 70, oversold: 30 } },
+  bb20: { indicator: 'bollinger', parameters: { period: 20, standardDeviations: 2, source: 'close' } },
+  stoch: { indicator: 'stochastic', parameters: { kPeriod: 14, dPeriod: 3, smoothK: 3, overbought: 80, oversold: 20 } }
+};
 
 // Global chart preferences (not symbol-specific)
 export interface GlobalChartSettings {
@@ -41,6 +65,8 @@ export class ChartPersistenceService {
   private cache: Map<string, SymbolChartData> = new Map();
   private saveTimeouts: Map<string, number> = new Map();
   private readonly DEBOUNCE_DELAY = 1000; // 1 second debounce for auto-save
+  private sync: ChartSyncService;
+  private listeners = new Set<(symbol: string) => void>();
 
   // Default settings
   private readonly DEFAULT_CHART_SETTINGS: ChartSettings = {
@@ -49,7 +75,10 @@ export class ChartPersistenceService {
     chartType: 'candlestick',
     showVolume: true,
     priceScale: 'linear',
-    indicators: []
+    indicators: [{ id: 'sma-default', ...V1_INDICATOR_PRESETS.sma20 }],
+    paneHeights: {},
+    comparisons: [],
+    chartTypeOptions: {}
   };
 
   private readonly DEFAULT_GLOBAL_SETTINGS: GlobalChartSettings = {
@@ -60,7 +89,21 @@ export class ChartPersistenceService {
 
   private constructor() {
     this.initializeStorage();
+
+    // VITE_CHART_SYNC=off keeps chart workspaces on this device only
+    const backend = import.meta.env.VITE_CHART_SYNC === 'off' ? null : new ApiChartSyncBackend();
+    this.sync = new ChartSyncService(backend, {
+      getLocal: symbol => {
+        const data = this.cache.get(symbol) ?? this.getAllStoredData().get(symbol);
+        return data ? { ...data } : null; // a snapshot, so edits made during an upload are noticed
+      },
+      getLocalSymbols: () => this.getSavedSymbols(),
+      applyRemote: data => this.applyRemoteData(data),
+      removeLocal: symbol => this.removeLocalData(symbol)
+    }, CURRENT_VERSION);
+
     this.cleanupOldData();
+    this.sync.start();
   }
 
   static getInstance(): ChartPersistenceService {
@@ -91,16 +134,45 @@ export class ChartPersistenceService {
   private migrateData(fromVersion: number): void {
     console.log(`Migrating chart data from version ${fromVersion} to ${CURRENT_VERSION}`);
     
-    // Future migration logic can be added here
     if (fromVersion === 0) {
       // First-time setup - no migration needed
       return;
     }
 
-    // Example migration logic for future versions:
-    // if (fromVersion < 2) {
-    //   // Migrate from v1 to v2
-    // }
+    const allData = this.getAllStoredData();
+    const dataToSave: Record<string, SymbolChartData> = {};
+    allData.forEach((data, symbol) => {
+      dataToSave[symbol] = this.migrateSymbolData(data);
+    });
+    localStorage.setItem(STORAGE_KEYS.CHART_DATA, JSON.stringify(dataToSave));
+  }
+
+  /**
+   * Bring one symbol's stored data up to the current version
+   */
+  private migrateSymbolData(data: SymbolChartData): SymbolChartData {
+    if ((data.version ?? 1) >= CURRENT_VERSION) return data;
+
+    // v1 -> v2: preset ids become instances, keeping the id so each stays unique on the chart
+    const stored = (data.settings?.indicators ?? []) as Array<string | IndicatorInstance>;
+    const indicators = stored.flatMap((entry): IndicatorInstance[] => {
+      if (typeof entry !== 'string') return [entry];
+      const preset = V1_INDICATOR_PRESETS[entry];
+      return preset ? [{ id: entry, ...preset, parameters: { ...preset.parameters } }] : [];
+    });
+
+    return { ...data, settings: { ...data.settings, indicators }, version: CURRENT_VERSION };
+  }
+
+  /**
+   * Drop drawings that are corrupt or of a type this version can't draw
+   */
+  private withValidDrawings(data: SymbolChartData): SymbolChartData {
+    const drawings = data.drawings.filter(isValidDrawing);
+    if (drawings.length === data.drawings.length) return data;
+
+    console.warn(`Dropped ${data.drawings.length - drawings.length} invalid drawing(s) for ${data.symbol}`);
+    return { ...data, drawings };
   }
 
   /**
@@ -129,10 +201,14 @@ export class ChartPersistenceService {
         symbolsToRemove.push(...excess.map(([symbol]) => symbol));
       }
 
-      // Remove old/excess symbols
-      if (symbolsToRemove.length > 0) {
-        console.log(`Cleaning up chart data for ${symbolsToRemove.length} symbols:`, symbolsToRemove);
-        symbolsToRemove.forEach(symbol => this.clearSymbolData(symbol));
+      // Remove old/excess symbols from this device; ones not on the server yet are kept
+      const removable = symbolsToRemove.filter(symbol => {
+        const { lastModified } = allData.get(symbol)!;
+        return lastModified === 0 || this.sync.isSynced(symbol, lastModified); // 0: defaults, never edited
+      });
+      if (removable.length > 0) {
+        console.log(`Cleaning up chart data for ${removable.length} symbols:`, removable);
+        removable.forEach(symbol => this.removeLocalData(symbol));
       }
     } catch (error) {
       console.warn('Failed to cleanup old chart data:', error);
@@ -156,43 +232,76 @@ export class ChartPersistenceService {
   }
 
   /**
-   * Save all cached data to localStorage
+   * Save all cached data to localStorage, keeping stored symbols that aren't open
    */
   private saveToStorage(): void {
-    try {
-      const dataToSave: Record<string, SymbolChartData> = {};
-      this.cache.forEach((data, symbol) => {
-        dataToSave[symbol] = data;
-      });
+    const allData = this.getAllStoredData();
+    this.cache.forEach((data, symbol) => {
+      allData.set(symbol, data);
+    });
+    this.writeStoredData(allData);
+  }
 
-      localStorage.setItem(STORAGE_KEYS.CHART_DATA, JSON.stringify(dataToSave));
+  /**
+   * Write chart data to localStorage, making room if it is full
+   */
+  private writeStoredData(allData: Map<string, SymbolChartData>): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.CHART_DATA, JSON.stringify(Object.fromEntries(allData)));
     } catch (error) {
       console.error('Failed to save chart data to localStorage:', error);
       // Handle localStorage quota exceeded
       if (error instanceof Error && error.name === 'QuotaExceededError') {
-        this.handleStorageQuotaExceeded();
+        this.handleStorageQuotaExceeded(allData);
       }
     }
   }
 
   /**
-   * Handle localStorage quota exceeded by removing oldest data
+   * Handle localStorage quota exceeded by removing oldest data that is safe on the server
    */
-  private handleStorageQuotaExceeded(): void {
+  private handleStorageQuotaExceeded(allData: Map<string, SymbolChartData>): void {
     console.warn('localStorage quota exceeded, removing oldest chart data...');
-    
-    const allData = Array.from(this.cache.entries())
+
+    // Unsynced edits exist only here, so they are never evicted
+    const removable = Array.from(allData.entries())
+      .filter(([symbol, data]) => data.lastModified === 0 || this.sync.isSynced(symbol, data.lastModified))
       .sort(([, a], [, b]) => a.lastModified - b.lastModified);
+    if (removable.length === 0) {
+      console.error('❌ [ChartPersistence] localStorage is full of unsynced chart data; changes are kept in memory only');
+      return;
+    }
 
     // Remove oldest 25% of data
-    const toRemove = Math.ceil(allData.length * 0.25);
-    for (let i = 0; i < toRemove; i++) {
-      const [symbol] = allData[i];
+    const toRemove = Math.ceil(allData.size * 0.25);
+    removable.slice(0, toRemove).forEach(([symbol]) => {
+      allData.delete(symbol);
       this.cache.delete(symbol);
-    }
+    });
 
     // Try saving again
+    this.writeStoredData(allData);
+  }
+
+  /**
+   * Replace a symbol's local data with the copy synced from the server
+   */
+  private applyRemoteData(remote: SymbolChartData): void {
+    const data = this.withValidDrawings(this.migrateSymbolData(remote));
+    this.cache.set(data.symbol, data);
     this.saveToStorage();
+    this.listeners.forEach(listener => listener(data.symbol));
+  }
+
+  /**
+   * Remove a symbol's data from this device only, leaving the server copy
+   */
+  private removeLocalData(symbol: string): void {
+    this.cache.delete(symbol);
+
+    const allData = this.getAllStoredData();
+    allData.delete(symbol);
+    this.writeStoredData(allData);
   }
 
   /**
@@ -210,17 +319,21 @@ export class ChartPersistenceService {
     const allData = this.getAllStoredData();
     const stored = allData.get(normalizedSymbol);
 
-    if (stored) {
-      this.cache.set(normalizedSymbol, stored);
-      return stored;
+    // The server copy may be newer, e.g. when edited on another device; subscribers hear if it is
+    void this.sync.pull(normalizedSymbol);
+
+    if (stored && Array.isArray(stored.drawings)) {
+      const data = this.withValidDrawings(stored);
+      this.cache.set(normalizedSymbol, data);
+      return data;
     }
 
-    // Create new data with defaults
+    // Create new data with defaults. lastModified 0 marks it as never edited, so a server copy replaces it.
     const newData: SymbolChartData = {
       symbol: normalizedSymbol,
       drawings: [],
       settings: { ...this.DEFAULT_CHART_SETTINGS },
-      lastModified: Date.now(),
+      lastModified: 0,
       version: CURRENT_VERSION
     };
 
@@ -234,6 +347,7 @@ export class ChartPersistenceService {
   saveDrawings(symbol: string, drawings: Drawing[]): void {
     const normalizedSymbol = symbol.toUpperCase().trim();
     const data = this.getSymbolData(normalizedSymbol);
+    if (JSON.stringify(data.drawings) === JSON.stringify(drawings)) return;
     
     // Update data
     data.drawings = [...drawings]; // Create a copy
@@ -242,6 +356,7 @@ export class ChartPersistenceService {
 
     // Debounced save to prevent excessive writes
     this.debouncedSave(normalizedSymbol);
+    this.sync.markChanged(normalizedSymbol);
   }
 
   /**
@@ -252,11 +367,15 @@ export class ChartPersistenceService {
     const data = this.getSymbolData(normalizedSymbol);
     
     // Update settings
-    data.settings = { ...data.settings, ...settings };
+    const updated = { ...data.settings, ...settings };
+    if (JSON.stringify(updated) === JSON.stringify(data.settings)) return;
+
+    data.settings = updated;
     data.lastModified = Date.now();
     this.cache.set(normalizedSymbol, data);
 
     this.debouncedSave(normalizedSymbol);
+    this.sync.markChanged(normalizedSymbol);
   }
 
   /**
@@ -274,29 +393,20 @@ export class ChartPersistenceService {
   }
 
   /**
-   * Clear all data for a symbol
+   * Clear all data for a symbol, here and on the server
    */
   clearSymbolData(symbol: string): void {
     const normalizedSymbol = symbol.toUpperCase().trim();
-    this.cache.delete(normalizedSymbol);
-    
-    // Remove from localStorage
-    const allData = this.getAllStoredData();
-    allData.delete(normalizedSymbol);
-    
-    const dataToSave: Record<string, SymbolChartData> = {};
-    allData.forEach((data, sym) => {
-      dataToSave[sym] = data;
-    });
-    
-    localStorage.setItem(STORAGE_KEYS.CHART_DATA, JSON.stringify(dataToSave));
+    this.removeLocalData(normalizedSymbol);
+    this.sync.markDeleted(normalizedSymbol);
   }
 
   /**
-   * Clear all stored chart data
+   * Clear all chart data stored on this device (synced copies stay on the server)
    */
   clearAllData(): void {
     this.cache.clear();
+    this.sync.reset();
     localStorage.removeItem(STORAGE_KEYS.CHART_DATA);
     localStorage.removeItem(STORAGE_KEYS.GLOBAL_SETTINGS);
     localStorage.removeItem(STORAGE_KEYS.VERSION);
@@ -338,6 +448,21 @@ export class ChartPersistenceService {
     }
   }
 
+  /**
+   * Get the service syncing chart workspaces with the server
+   */
+  getSyncService(): ChartSyncService {
+    return this.sync;
+  }
+
+  /**
+   * Listen for symbols whose data was replaced by a newer copy from the server
+   */
+  subscribe(listener: (symbol: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   /**
    * Debounced save to prevent excessive localStorage writes
    */
@@ -390,12 +515,13 @@ export class ChartPersistenceService {
       }
 
       // Update symbol to match the requested one
-      data.symbol = symbol.toUpperCase().trim();
-      data.lastModified = Date.now();
-      data.version = CURRENT_VERSION;
+      const migrated = this.withValidDrawings(this.migrateSymbolData(data));
+      migrated.symbol = symbol.toUpperCase().trim();
+      migrated.lastModified = Date.now();
 
-      this.cache.set(data.symbol, data);
+      this.cache.set(migrated.symbol, migrated);
       this.saveToStorage();
+      this.sync.markChanged(migrated.symbol);
       
       return true;
     } catch (error) {
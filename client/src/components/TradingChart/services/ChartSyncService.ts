@@ -0,0 +1,473 @@
+import axios from 'axios';
+import { api } from '../../../services/api';
+import type { SymbolChartData } from './ChartPersistenceService';
+
+// Server storage used by the signed-in user's chart workspaces
+export interface ChartWorkspaceQuota {
+  usedBytes: number;
+  limitBytes: number;
+  workspaceCount: number;
+}
+
+export interface ChartWorkspaceSummary {
+  symbol: string;
+  lastModified: number;
+  version: number;
+}
+
+export type ChartWorkspaceSaveResult =
+  | { status: 'saved'; lastModified: number; quota?: ChartWorkspaceQuota }
+  | { status: 'conflict'; current: SymbolChartData } // the server copy changed since `baseLastModified`
+  | { status: 'quota-exceeded'; quota?: ChartWorkspaceQuota };
+
+/**
+ * Per-user server storage for chart workspaces, one `SymbolChartData` per symbol.
+ * Saves are conditional on the server copy still having `baseLastModified`.
+ */
+export interface ChartSyncBackend {
+  readonly name: string;
+  list(): Promise<{ workspaces: ChartWorkspaceSummary[]; quota?: ChartWorkspaceQuota }>;
+  get(symbol: string): Promise<SymbolChartData | null>;
+  save(symbol: string, data: SymbolChartData, baseLastModified: number | null): Promise<ChartWorkspaceSaveResult>;
+  remove(symbol: string): Promise<void>;
+}
+
+/**
+ * Stores workspaces through `/chart-workspaces`: 409 answers a save with the newer server
+ * copy, 413 means the user's storage quota is used up.
+ */
+export class ApiChartSyncBackend implements ChartSyncBackend {
+  readonly name = 'api';
+
+  async list() {
+    const response = await api.get('/chart-workspaces');
+    return response.data;
+  }
+
+  async get(symbol: string): Promise<SymbolChartData | null> {
+    try {
+      const response = await api.get(`/chart-workspaces/${encodeURIComponent(symbol)}`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async save(symbol: string, data: SymbolChartData, baseLastModified: number | null): Promise<ChartWorkspaceSaveResult> {
+    try {
+      const response = await api.put(`/chart-workspaces/${encodeURIComponent(symbol)}`, { data, baseLastModified });
+      return { status: 'saved', lastModified: response.data?.lastModified ?? data.lastModified, quota: response.data?.quota };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        return { status: 'conflict', current: error.response.data.current };
+      }
+      if (axios.isAxiosError(error) && error.response?.status === 413) {
+        return { status: 'quota-exceeded', quota: error.response.data?.quota };
+      }
+      throw error;
+    }
+  }
+
+  async remove(symbol: string): Promise<void> {
+    try {
+      await api.delete(`/chart-workspaces/${encodeURIComponent(symbol)}`);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) return;
+      throw error;
+    }
+  }
+}
+
+// Local side of the sync, provided by ChartPersistenceService
+export interface ChartSyncStore {
+  getLocal(symbol: string): SymbolChartData | null; // null when the symbol has no saved data
+  getLocalSymbols(): string[];
+  applyRemote(data: SymbolChartData): void;
+  removeLocal(symbol: string): void;
+}
+
+export type ChartSyncState =
+  | 'disabled' // local only (VITE_CHART_SYNC=off)
+  | 'idle'
+  | 'syncing'
+  | 'synced'
+  | 'offline' // changes are queued until the connection is back
+  | 'error'
+  | 'quota-exceeded'
+  | 'unavailable'; // the server has no chart workspace storage
+
+export interface ChartSyncStatus {
+  state: ChartSyncState;
+  pending: number; // symbols with changes not yet on the server
+  quota: ChartWorkspaceQuota | null;
+  lastSyncedAt: number | null;
+}
+
+// What's known about the server copies, kept across sessions with the queue of unsent changes
+interface ChartSyncMeta {
+  synced: Record<string, number>; // lastModified both copies had when last in sync, by symbol
+  queue: Record<string, 'save' | 'delete'>;
+  quota: ChartWorkspaceQuota | null;
+}
+
+type UploadResult = 'done' | 'quota-exceeded' | 'unreadable';
+
+const SYNC_STORAGE_KEY = 'hingetrade_chart_sync';
+const FLUSH_DELAY = 2000; // batch rapid edits into one upload
+const MIN_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_SAVE_ATTEMPTS = 3; // conflicting saves before giving up until the next sync
+
+/**
+ * Which copy to keep when both changed since they were last in sync. Data written by a newer
+ * app version is never replaced by an older one; otherwise the latest edit wins, the server's on a tie.
+ */
+export function resolveChartConflict(local: SymbolChartData, remote: SymbolChartData, supportedVersion: number): 'local' | 'remote' {
+  if ((remote.version ?? 1) > supportedVersion) return 'remote';
+  return local.lastModified > remote.lastModified ? 'local' : 'remote';
+}
+
+/**
+ * Keeps the chart workspaces in local storage in step with the server. Local storage stays
+ * the working copy, so charts load instantly and keep working offline; changes are queued
+ * (across reloads) and uploaded in the background, and newer server copies replace local ones.
+ * Data saved before sync existed has never been synced, so the first sync uploads it.
+ */
+export class ChartSyncService {
+  private backend: ChartSyncBackend | null;
+  private store: ChartSyncStore;
+  private supportedVersion: number;
+  private meta: ChartSyncMeta;
+  private status: ChartSyncStatus;
+  private listeners = new Set<() => void>();
+  private pulling = new Set<string>();
+  private flushing = false;
+  private flushAgain = false;
+  private flushTimer: number | null = null;
+  private retryDelay = MIN_RETRY_DELAY;
+
+  constructor(backend: ChartSyncBackend | null, store: ChartSyncStore, supportedVersion: number) {
+    this.backend = backend;
+    this.store = store;
+    this.supportedVersion = supportedVersion;
+    this.meta = this.loadMeta();
+    this.status = {
+      state: backend ? 'idle' : 'disabled',
+      pending: Object.keys(this.meta.queue).length,
+      quota: this.meta.quota,
+      lastSyncedAt: null
+    };
+  }
+
+  /**
+   * Compare every local workspace with the server, then upload what changed. Runs at startup
+   * and whenever the browser comes back online.
+   */
+  start(): void {
+    if (!this.backend) return;
+
+    window.addEventListener('online', () => {
+      this.retryDelay = MIN_RETRY_DELAY;
+      void this.reconcile();
+    });
+    void this.reconcile();
+  }
+
+  getStatus(): ChartSyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Whether the local copy is on the server too, so it can be evicted from local storage
+  isSynced(symbol: string, lastModified: number): boolean {
+    return !this.backend || (this.meta.synced[symbol] === lastModified && !this.meta.queue[symbol]);
+  }
+
+  markChanged(symbol: string): void {
+    if (!this.backend || this.meta.queue[symbol] === 'save') return;
+    this.meta.queue[symbol] = 'save';
+    this.saveMeta();
+    this.scheduleFlush(FLUSH_DELAY);
+  }
+
+  markDeleted(symbol: string): void {
+    if (!this.backend) return;
+    this.meta.queue[symbol] = 'delete';
+    this.saveMeta();
+    this.scheduleFlush(FLUSH_DELAY);
+  }
+
+  // Forget what was synced, e.g. after local data is cleared; the server copies stay
+  reset(): void {
+    this.meta = { synced: {}, queue: {}, quota: this.meta.quota };
+    this.saveMeta();
+    this.setStatus({ pending: 0 });
+  }
+
+  /**
+   * Fetch the server copy of one symbol, e.g. when a chart opens it, and keep whichever is newer
+   */
+  async pull(symbol: string): Promise<void> {
+    if (!this.backend || this.pulling.has(symbol)) return;
+
+    this.pulling.add(symbol);
+    try {
+      const remote = await this.backend.get(symbol);
+      const local = this.store.getLocal(symbol);
+      if (!remote) {
+        if (local && local.lastModified > 0 && !this.meta.queue[symbol]) this.markChanged(symbol);
+        return;
+      }
+      if ((remote.version ?? 1) > this.supportedVersion) {
+        console.warn(`⚠️ [ChartSync] ${symbol} was saved by a newer version of the app; keeping the local copy only`);
+        return;
+      }
+
+      // Defaults that were never edited (lastModified 0), or data unchanged since the last sync, simply take the server copy
+      const localChanged = !!local && local.lastModified > (this.meta.synced[symbol] ?? 0);
+      if (local && local.lastModified === remote.lastModified) {
+        this.meta.synced[symbol] = remote.lastModified;
+      } else if (!localChanged || resolveChartConflict(local, remote, this.supportedVersion) === 'remote') {
+        this.applyRemote(remote);
+      } else {
+        this.meta.queue[symbol] = 'save';
+        this.scheduleFlush(0);
+      }
+      this.saveMeta();
+    } catch (error) {
+      this.handleError(error);
+    } finally {
+      this.pulling.delete(symbol);
+    }
+  }
+
+  private async reconcile(): Promise<void> {
+    if (!this.backend) return;
+
+    try {
+      this.setStatus({ state: 'syncing' });
+      const { workspaces, quota } = await this.backend.list();
+      const remote = new Map(workspaces.map(summary => [summary.symbol, summary]));
+      const neverSynced = Object.keys(this.meta.synced).length === 0;
+      let uploads = 0;
+
+      for (const symbol of this.store.getLocalSymbols()) {
+        const local = this.store.getLocal(symbol);
+        if (!local || local.lastModified === 0) continue;
+
+        const summary = remote.get(symbol);
+        const lastSynced = this.meta.synced[symbol];
+        const localChanged = lastSynced === undefined || local.lastModified > lastSynced || !!this.meta.queue[symbol];
+
+        if (!summary) {
+          if (localChanged) {
+            this.meta.queue[symbol] = 'save';
+            uploads++;
+          } else {
+            // Deleted on another device, and not edited here since
+            this.store.removeLocal(symbol);
+            delete this.meta.synced[symbol];
+          }
+        } else if (summary.lastModified === local.lastModified) {
+          this.meta.synced[symbol] = summary.lastModified;
+        } else if (localChanged) {
+          this.meta.queue[symbol] = this.meta.queue[symbol] ?? 'save'; // a conflicting save resolves it
+          uploads++;
+        } else if ((summary.version ?? 1) <= this.supportedVersion) {
+          void this.pull(symbol);
+        }
+      }
+
+      if (neverSynced && uploads > 0) {
+        console.log(`☁️ [ChartSync] Uploading ${uploads} chart workspace(s) saved on this device`);
+      }
+      if (quota) this.meta.quota = quota;
+      this.saveMeta();
+      await this.flush();
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (!this.backend) return;
+    if (this.flushing) {
+      this.flushAgain = true;
+      return;
+    }
+
+    this.flushing = true;
+    this.flushAgain = false;
+    this.setStatus({ state: 'syncing' });
+    let unreadable = 0;
+    try {
+      for (const [symbol, operation] of Object.entries(this.meta.queue)) {
+        if (this.pulling.has(symbol)) {
+          this.flushAgain = true;
+          continue;
+        }
+
+        if (operation === 'delete') {
+          await this.backend.remove(symbol);
+          delete this.meta.synced[symbol];
+          if (this.meta.queue[symbol] === 'delete') delete this.meta.queue[symbol];
+        } else {
+          const result = await this.upload(this.backend, symbol);
+          if (result === 'quota-exceeded') {
+            this.setStatus({ state: 'quota-exceeded' });
+            return;
+          }
+          if (result === 'unreadable') unreadable++;
+        }
+        this.saveMeta();
+      }
+
+      // Saves whose local copy couldn't be read stay queued and are retried
+      if (unreadable > 0) {
+        this.setStatus({ state: 'error' });
+        this.scheduleRetry(this.retryDelay);
+        this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+        return;
+      }
+
+      this.retryDelay = MIN_RETRY_DELAY;
+      this.setStatus({ state: 'synced', lastSyncedAt: Date.now() });
+    } catch (error) {
+      this.handleError(error);
+    } finally {
+      this.flushing = false;
+      this.saveMeta();
+      if (this.flushAgain) this.scheduleFlush(FLUSH_DELAY);
+    }
+  }
+
+  // Upload one symbol, resolving conflicts with the server copy
+  private async upload(backend: ChartSyncBackend, symbol: string): Promise<UploadResult> {
+    const local = this.store.getLocal(symbol);
+    if (!local) {
+      console.error(`❌ [ChartSync] Couldn't read the local copy of ${symbol}; keeping its changes queued`);
+      return 'unreadable';
+    }
+
+    let base = this.meta.synced[symbol] ?? null;
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const result = await backend.save(symbol, local, base);
+
+      if (result.status === 'quota-exceeded') {
+        if (result.quota) this.meta.quota = result.quota;
+        return 'quota-exceeded';
+      }
+
+      if (result.status === 'saved') {
+        this.meta.synced[symbol] = result.lastModified;
+        if (result.quota) this.meta.quota = result.quota;
+        // Edits made during the upload go out with the next flush
+        if (this.store.getLocal(symbol)?.lastModified === local.lastModified) {
+          delete this.meta.queue[symbol];
+        } else {
+          this.flushAgain = true;
+        }
+        return 'done';
+      }
+
+      const remote = result.current;
+      if (resolveChartConflict(local, remote, this.supportedVersion) === 'remote') {
+        if ((remote.version ?? 1) <= this.supportedVersion) {
+          this.applyRemote(remote);
+        } else {
+          console.warn(`⚠️ [ChartSync] ${symbol} was saved by a newer version of the app; not overwriting it`);
+        }
+        delete this.meta.queue[symbol];
+        return 'done';
+      }
+      base = remote.lastModified;
+    }
+
+    console.warn(`⚠️ [ChartSync] ${symbol} kept changing on the server; will retry`);
+    return 'done';
+  }
+
+  private applyRemote(remote: SymbolChartData): void {
+    this.store.applyRemote(remote);
+    this.meta.synced[remote.symbol] = remote.lastModified;
+    delete this.meta.queue[remote.symbol];
+  }
+
+  private handleError(error: unknown): void {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+    if (status === 404 || status === 405 || status === 501) {
+      if (this.status.state !== 'unavailable') {
+        console.warn('⚠️ [ChartSync] Server has no chart workspace storage; charts are saved on this device only');
+      }
+      this.setStatus({ state: 'unavailable' });
+      this.scheduleRetry(MAX_RETRY_DELAY);
+      return;
+    }
+
+    const offline = !navigator.onLine || (axios.isAxiosError(error) && !error.response);
+    if (!offline) {
+      console.error('❌ [ChartSync] Sync failed:', error);
+    }
+    this.setStatus({ state: offline ? 'offline' : 'error' });
+    this.scheduleRetry(this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  private scheduleRetry(delay: number): void {
+    if (this.flushTimer !== null) clearTimeout(this.flushTimer);
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      void this.reconcile();
+    }, delay);
+  }
+
+  private scheduleFlush(delay: number): void {
+    this.setStatus({ pending: Object.keys(this.meta.queue).length });
+    if (this.flushTimer !== null) clearTimeout(this.flushTimer);
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private setStatus(changes: Partial<ChartSyncStatus>): void {
+    const next = {
+      ...this.status,
+      ...changes,
+      pending: changes.pending ?? Object.keys(this.meta.queue).length,
+      quota: this.meta.quota
+    };
+    if (this.status.state === 'disabled') next.state = 'disabled';
+    if (JSON.stringify(next) === JSON.stringify(this.status)) return;
+
+    this.status = next;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private loadMeta(): ChartSyncMeta {
+    try {
+      const stored = localStorage.getItem(SYNC_STORAGE_KEY);
+      if (stored) {
+        const meta = JSON.parse(stored) as Partial<ChartSyncMeta>;
+        return { synced: meta.synced ?? {}, queue: meta.queue ?? {}, quota: meta.quota ?? null };
+      }
+    } catch (error) {
+      console.warn('Failed to load chart sync state:', error);
+    }
+    return { synced: {}, queue: {}, quota: null };
+  }
+
+  private saveMeta(): void {
+    try {
+      localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify(this.meta));
+    } catch (error) {
+      console.warn('Failed to save chart sync state:', error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Bar } from '../../../types';
+import { FixtureBarsProvider, RecordingBarsProvider, getFixtureKey } from './FixtureBarsProvider';
+import type { BarsProvider } from './BarsProvider';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// One bar per day at 14:30 UTC starting Tuesday 2024-01-02, closing at 100 + i
+const dailyBars = (count: number, first = Date.UTC(2024, 0, 2, 14, 30)): Bar[] =>
+  Array.from({ length: count }, (_, i) => ({
+    t: new Date(first + i * DAY).toISOString(),
+    o: 100 + i,
+    h: 101 + i,
+    l: 99 + i,
+    c: 100 + i,
+    v: 1000,
+  }));
+
+const closes = (bars: Bar[]) => bars.map(bar => bar.c);
+
+describe('FixtureBarsProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keys fixtures by upper-cased symbol and interval', () => {
+    expect(getFixtureKey(' aapl ', '1d')).toBe('AAPL:1d');
+  });
+
+  it('serves bars within [start, end)', async () => {
+    const provider = new FixtureBarsProvider({ 'AAPL:1d': dailyBars(10) });
+
+    const bars = await provider.getBars({
+      symbol: 'aapl',
+      interval: '1d',
+      start: new Date(Date.UTC(2024, 0, 4)),
+      end: new Date(Date.UTC(2024, 0, 7, 14, 30)),
+    });
+
+    expect(closes(bars)).toEqual([102, 103, 104]);
+  });
+
+  it('returns the most recent `limit` bars before end', async () => {
+    const provider = new FixtureBarsProvider({ 'AAPL:1d': dailyBars(10) });
+
+    const bars = await provider.getBars({
+      symbol: 'AAPL',
+      interval: '1d',
+      end: new Date(Date.UTC(2024, 0, 8)),
+      limit: 2,
+    });
+
+    expect(closes(bars)).toEqual([104, 105]);
+  });
+
+  it('serves the fallback recording for unknown symbols', async () => {
+    const provider = new FixtureBarsProvider({ 'DEMO:1d': dailyBars(3) }, { fallbackSymbol: 'demo' });
+
+    const bars = await provider.getBars({ symbol: 'MSFT', interval: '1d' });
+
+    expect(closes(bars)).toEqual([100, 101, 102]);
+  });
+
+  it('throws when there is no recording for the symbol and interval', async () => {
+    const provider = new FixtureBarsProvider({ 'AAPL:1d': dailyBars(3) });
+
+    await expect(provider.getBars({ symbol: 'AAPL', interval: '1h' }))
+      .rejects.toThrow('No recorded bars for AAPL (1h)');
+  });
+
+  it('shifts recordings forward by whole weeks when aligned to now', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(Date.UTC(2024, 2, 20, 12))); // Wednesday, 11 weeks after the recording
+    const provider = new FixtureBarsProvider({ 'AAPL:1d': dailyBars(5) }, { alignToNow: true });
+
+    const bars = await provider.getBars({ symbol: 'AAPL', interval: '1d' });
+
+    expect(bars.map(bar => bar.t)).toEqual(dailyBars(5, Date.UTC(2024, 0, 2, 14, 30) + 10 * 7 * DAY).map(bar => bar.t));
+    expect(bars.map(bar => new Date(bar.t).getUTCDay())).toEqual([2, 3, 4, 5, 6]);
+    expect(closes(bars)).toEqual([100, 101, 102, 103, 104]);
+  });
+});
+
+describe('RecordingBarsProvider', () => {
+  it('merges paged responses into one ascending recording', async () => {
+    const bars = dailyBars(6);
+    const pages = [bars.slice(3), bars.slice(0, 4)];
+    const inner: BarsProvider = { name: 'pages', getBars: async () => pages.shift() ?? [] };
+    const recorder = new RecordingBarsProvider(inner);
+
+    await recorder.getBars({ symbol: 'AAPL', interval: '1d' });
+    await recorder.getBars({ symbol: 'AAPL', interval: '1d' });
+
+    expect(recorder.name).toBe('recording:pages');
+    expect(recorder.getFixtures()['AAPL:1d']).toEqual(bars);
+  });
+});
@@ -0,0 +1,129 @@
+import type { Bar } from '../../../types';
+import type { ChartInterval } from '../utils/timeframes';
+import type { BarsProvider, BarsQuery } from './BarsProvider';
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+// Recorded bars keyed by `${SYMBOL}:${interval}`, e.g. `AAPL:1d`
+export type BarsFixtures = Record<string, Bar[]>;
+
+export interface FixtureBarsProviderOptions {
+  /**
+   * Shift recorded bars forward by whole weeks so the last bar lands in the current week.
+   * Lets old recordings back a chart that asks for "the last 3 months" without
+   * moving bars onto weekends.
+   */
+  alignToNow?: boolean;
+  /** Serve this symbol's recording for symbols that have none of their own */
+  fallbackSymbol?: string;
+  /** Artificial latency in ms, to exercise loading states */
+  latency?: number;
+}
+
+export const getFixtureKey = (symbol: string, interval: ChartInterval) =>
+  `${symbol.trim().toUpperCase()}:${interval}`;
+
+/**
+ * Serves bars from recorded fixtures instead of the network. Used by tests and demos.
+ */
+export class FixtureBarsProvider implements BarsProvider {
+  readonly name = 'fixture';
+  private fixtures: BarsFixtures;
+  private options: FixtureBarsProviderOptions;
+
+  constructor(fixtures: BarsFixtures, options: FixtureBarsProviderOptions = {}) {
+    this.fixtures = fixtures;
+    this.options = options;
+  }
+
+  async getBars(query: BarsQuery): Promise<Bar[]> {
+    if (this.options.latency) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latency));
+    }
+
+    const recorded = this.fixtures[getFixtureKey(query.symbol, query.interval)]
+      ?? (this.options.fallbackSymbol
+        ? this.fixtures[getFixtureKey(this.options.fallbackSymbol, query.interval)]
+        : undefined);
+    if (!recorded) {
+      throw new Error(`No recorded bars for ${query.symbol} (${query.interval})`);
+    }
+
+    const bars = this.options.alignToNow ? this.alignToNow(recorded) : recorded;
+    const start = query.start?.getTime() ?? -Infinity;
+    const end = query.end?.getTime() ?? Infinity;
+
+    const inRange = bars.filter(bar => {
+      const time = new Date(bar.t).getTime();
+      return time >= start && time < end;
+    });
+
+    return query.limit ? inRange.slice(-query.limit) : inRange;
+  }
+
+  private alignToNow(bars: Bar[]): Bar[] {
+    if (bars.length === 0) return bars;
+
+    const last = new Date(bars[bars.length - 1].t).getTime();
+    const shift = Math.floor((Date.now() - last) / WEEK) * WEEK;
+    if (shift <= 0) return bars;
+
+    return bars.map(bar => ({
+      ...bar,
+      t: new Date(new Date(bar.t).getTime() + shift).toISOString(),
+    }));
+  }
+}
+
+/**
+ * Wraps another provider and keeps every response so it can be saved as a fixture.
+ *
+ *   const recorder = new RecordingBarsProvider(new ApiBarsProvider());
+ *   // ...use the chart...
+ *   copy(JSON.stringify(recorder.getFixtures()));
+ */
+export class RecordingBarsProvider implements BarsProvider {
+  readonly name: string;
+  private inner: BarsProvider;
+  private recorded: BarsFixtures = {};
+
+  constructor(inner: BarsProvider) {
+    this.inner = inner;
+    this.name = `recording:${inner.name}`;
+  }
+
+  async getBars(query: BarsQuery): Promise<Bar[]> {
+    const bars = await this.inner.getBars(query);
+    const key = getFixtureKey(query.symbol, query.interval);
+
+    // Merge by timestamp so paginated requests build up one continuous series
+    const merged = new Map((this.recorded[key] ?? []).map(bar => [bar.t, bar]));
+    bars.forEach(bar => merged.set(bar.t, bar));
+    this.recorded[key] = Array.from(merged.values())
+      .sort((a, b) => new Date(a.t).getTime() - new Date(b.t).getTime());
+
+    return bars;
+  }
+
+  getFixtures(): BarsFixtures {
+    return this.recorded;
+  }
+}
+
+/**
+ * Demo provider backed by the bundled `DEMO` recording, served for every symbol.
+ * The fixture module is only loaded on first use.
+ */
+export function createDemoBarsProvider(): BarsProvider {
+  let provider: Promise<FixtureBarsProvider> | null = null;
+
+  return {
+    name: 'demo',
+    async getBars(query: BarsQuery) {
+      provider ??= import('./fixtures/demoBars').then(({ DEMO_BARS }) =>
+        new FixtureBarsProvider(DEMO_BARS, { alignToNow: true, fallbackSymbol: 'DEMO' })
+      );
+      return (await provider).getBars(query);
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import type { IndicatorResult, OHLCData } from '../indicators/types';
+
+// An indicator's results, with the name its CSV columns are headed by
+export interface ChartExportIndicator {
+  name: string; // e.g. 'SMA 20'
+  result: IndicatorResult;
+}
+
+/**
+ * PNG of the chart's stacked canvases (price, volume and oscillator panes) as laid out on
+ * screen. Drawings and the watermark are drawn into the price canvas, so they come along.
+ */
+export function renderChartImage(canvases: HTMLCanvasElement[], background: string): Promise<Blob> {
+  const rects = canvases.map(canvas => canvas.getBoundingClientRect());
+  const left = Math.min(...rects.map(rect => rect.left));
+  const top = Math.min(...rects.map(rect => rect.top));
+  const width = Math.max(...rects.map(rect => rect.right)) - left;
+  const height = Math.max(...rects.map(rect => rect.bottom)) - top;
+  const scale = window.devicePixelRatio || 1;
+
+  const output = document.createElement('canvas');
+  output.width = Math.round(width * scale);
+  output.height = Math.round(height * scale);
+
+  const ctx = output.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'));
+
+  // Chart canvases are transparent; give the image the chart's background
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, output.width, output.height);
+  canvases.forEach((canvas, index) => {
+    const rect = rects[index];
+    ctx.drawImage(canvas, (rect.left - left) * scale, (rect.top - top) * scale, rect.width * scale, rect.height * scale);
+  });
+
+  return new Promise((resolve, reject) => {
+    output.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to render chart image')), 'image/png');
+  });
+}
+
+const escapeCsv = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV of the bars between `range.min` and `range.max` (all bars without a range), one row per
+ * bar: time, OHLCV, then a column per indicator line. Missing indicator values are left empty.
+ */
+export function buildChartCsv(
+  bars: OHLCData[],
+  indicators: ChartExportIndicator[],
+  range?: { min: number; max: number }
+): string {
+  const visible = range
+    ? bars.filter(bar => bar.timestamp.getTime() >= range.min && bar.timestamp.getTime() <= range.max)
+    : bars;
+
+  const columns = indicators.flatMap(({ name, result }) => result.datasets.map(dataset => ({
+    header: result.datasets.length === 1 ? name : `${name} ${dataset.label}`,
+    values: new Map(dataset.data.map(point => [new Date(point.x).getTime(), point.y]))
+  })));
+
+  const header = ['time', 'open', 'high', 'low', 'close', 'volume', ...columns.map(column => column.header)];
+  const rows = visible.map(bar => {
+    const time = bar.timestamp.getTime();
+    return [
+      bar.timestamp.toISOString(),
+      String(bar.open),
+      String(bar.high),
+      String(bar.low),
+      String(bar.close),
+      String(bar.volume),
+      ...columns.map(column => {
+        const value = column.values.get(time);
+        return value === null || value === undefined ? '' : String(value);
+      })
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+}
+
+// e.g. AAPL-1d-2024-05-01.png
+export const getChartExportFileName = (symbol: string, interval: string, extension: string): string =>
+  `${symbol}-${interval}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
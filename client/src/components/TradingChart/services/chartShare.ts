@@ -0,0 +1,89 @@
+import { isValidDrawing, type Drawing } from '../DrawingTools/types';
+import { SCRIPT_INDICATOR_PREFIX } from '../indicators';
+import type { ChartSettings } from './ChartPersistenceService';
+
+// A chart as sent in a share link: what another user needs to see the same chart
+export interface SharedChart {
+  symbol: string;
+  settings: ChartSettings; // includes the indicators
+  drawings: Drawing[];
+}
+
+// Bumped when the link format changes; older links still have to open
+const SHARE_FORMAT_VERSION = 1;
+
+export const SHARED_CHART_PATH = '/chart/shared';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Chart state without what only makes sense for its owner: selection, alert links and
+ * script indicators, whose scripts belong to the owner's account.
+ */
+export function toSharedChart(symbol: string, settings: ChartSettings, drawings: Drawing[]): { chart: SharedChart; omittedScripts: number } {
+  const indicators = settings.indicators ?? [];
+  const shared = indicators.filter(instance => !instance.indicator.startsWith(SCRIPT_INDICATOR_PREFIX));
+
+  return {
+    chart: {
+      symbol,
+      settings: { ...settings, indicators: shared },
+      drawings: drawings.map(drawing => ({ ...drawing, selected: false, alert: undefined }) as Drawing)
+    },
+    omittedScripts: indicators.length - shared.length
+  };
+}
+
+/**
+ * Link that opens the chart read-only. The state is compressed into the URL fragment,
+ * which browsers don't send to the server.
+ */
+export async function createSharedChartLink(chart: SharedChart): Promise<string> {
+  const json = JSON.stringify({ v: SHARE_FORMAT_VERSION, ...chart });
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${window.location.origin}${SHARED_CHART_PATH}#${toBase64Url(compressed)}`;
+}
+
+/**
+ * Chart state from a share link's fragment. Throws if the link is damaged; drawings this
+ * version can't draw are dropped.
+ */
+export async function parseSharedChartLink(fragment: string): Promise<SharedChart> {
+  const encoded = fragment.replace(/^#/, '');
+  if (!encoded) throw new Error('The link has no chart in it');
+
+  let parsed: Partial<SharedChart> & { v?: number };
+  try {
+    const json = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The chart link is incomplete or damaged');
+  }
+
+  if (typeof parsed.symbol !== 'string' || !parsed.settings || !Array.isArray(parsed.drawings)) {
+    throw new Error('The chart link is incomplete or damaged');
+  }
+  if ((parsed.v ?? 1) > SHARE_FORMAT_VERSION) {
+    throw new Error('This chart was shared from a newer version of the app; reload to update');
+  }
+
+  return {
+    symbol: parsed.symbol.toUpperCase().trim(),
+    settings: parsed.settings,
+    drawings: parsed.drawings.filter(isValidDrawing)
+  };
+}
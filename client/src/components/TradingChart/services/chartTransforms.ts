@@ -0,0 +1,229 @@
+import type { OHLCData } from '../indicators/types';
+import type { ChartSettings, ChartTypeOptions } from './ChartPersistenceService';
+
+export type ChartType = ChartSettings['chartType'];
+
+// How a chart type is drawn once its bars are derived: Heikin-Ashi, Renko and range bars are candles too
+export function getChartRenderStyle(chartType: ChartType): 'candlestick' | 'ohlc' | 'line' {
+  switch (chartType) {
+    case 'candlestick':
+    case 'heikin-ashi':
+    case 'renko':
+    case 'range':
+      return 'candlestick';
+    case 'ohlc':
+      return 'ohlc';
+    default:
+      return 'line';
+  }
+}
+
+// Default Renko box and range bar size: the average true range over this many bars
+export const DEFAULT_ATR_PERIOD = 14;
+
+// Keeps a tiny box size from turning a chart into tens of thousands of bricks
+const MAX_BOXES_PER_SPAN = 2000;
+
+/**
+ * Wilder's average true range at the last bar, or null with fewer than `period` + 1 bars
+ */
+export function averageTrueRange(bars: OHLCData[], period = DEFAULT_ATR_PERIOD): number | null {
+  if (bars.length <= period) return null;
+
+  const trueRange = (i: number) => Math.max(
+    bars[i].high - bars[i].low,
+    Math.abs(bars[i].high - bars[i - 1].close),
+    Math.abs(bars[i].low - bars[i - 1].close)
+  );
+
+  let atr = 0;
+  for (let i = 1; i <= period; i++) atr += trueRange(i);
+  atr /= period;
+  for (let i = period + 1; i < bars.length; i++) {
+    atr = (atr * (period - 1) + trueRange(i)) / period;
+  }
+  return atr;
+}
+
+/**
+ * Renko box and range bar size when none is set, from completed bars only: the forming bar
+ * moves with every tick, and the bricks would re-form each time it changed the size
+ */
+export function defaultBrickSize(bars: OHLCData[]): number | null {
+  return averageTrueRange(bars.slice(0, -1));
+}
+
+/**
+ * Heikin-Ashi candles: each close averages the bar's OHLC and each open is the midpoint of
+ * the previous candle's body, smoothing out noise so trends read more clearly
+ */
+export function toHeikinAshi(bars: OHLCData[]): OHLCData[] {
+  const result: OHLCData[] = [];
+
+  bars.forEach((bar, index) => {
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4;
+    const previous = result[index - 1];
+    const open = previous ? (previous.open + previous.close) / 2 : (bar.open + bar.close) / 2;
+
+    result.push({
+      timestamp: bar.timestamp,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+      volume: bar.volume
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Time for each derived bar. Derived bars are stamped with the source bar they formed in;
+ * several formed in one source bar are spread evenly across it, so times keep increasing
+ * and drawings, which are anchored to times, stay where they were placed.
+ */
+function spreadTimes(bars: OHLCData[], formedIn: number[]): Date[] {
+  const counts = new Map<number, number>();
+  formedIn.forEach(index => counts.set(index, (counts.get(index) ?? 0) + 1));
+
+  const seen = new Map<number, number>();
+  return formedIn.map(index => {
+    const time = bars[index].timestamp.getTime();
+    const next = bars[index + 1]?.timestamp.getTime();
+    const previous = bars[index - 1]?.timestamp.getTime();
+    const slot = next !== undefined ? next - time : previous !== undefined ? time - previous : 0;
+
+    const position = seen.get(index) ?? 0;
+    seen.set(index, position + 1);
+    return new Date(time + slot * position / counts.get(index)!);
+  });
+}
+
+const clampBoxSize = (bars: OHLCData[], size: number): number => {
+  const span = Math.max(...bars.map(bar => bar.high)) - Math.min(...bars.map(bar => bar.low));
+  return Math.max(size, span / MAX_BOXES_PER_SPAN);
+};
+
+/**
+ * Renko bricks from closing prices: a brick is added each time the close moves a full box
+ * beyond the last brick, and reversing takes two boxes. Time and volume only count where
+ * bricks form; a brick's volume is what traded since the previous brick.
+ */
+export function toRenko(bars: OHLCData[], boxSize: number): OHLCData[] {
+  if (bars.length === 0 || !(boxSize > 0)) return [];
+
+  const box = clampBoxSize(bars, boxSize);
+  const bricks: Array<Omit<OHLCData, 'timestamp'>> = [];
+  const formedIn: number[] = [];
+  let top = bars[0].close;
+  let bottom = bars[0].close;
+  let volume = 0;
+
+  bars.forEach((bar, index) => {
+    volume += bar.volume;
+    const start = bricks.length;
+
+    while (bar.close >= top + box) {
+      bricks.push({ open: top, high: top + box, low: top, close: top + box, volume: 0 });
+      bottom = top;
+      top += box;
+    }
+    while (bar.close <= bottom - box) {
+      bricks.push({ open: bottom, high: bottom, low: bottom - box, close: bottom - box, volume: 0 });
+      top = bottom;
+      bottom -= box;
+    }
+
+    const formed = bricks.length - start;
+    if (formed === 0) return;
+    for (let i = start; i < bricks.length; i++) {
+      bricks[i].volume = volume / formed;
+      formedIn.push(index);
+    }
+    volume = 0;
+  });
+
+  const times = spreadTimes(bars, formedIn);
+  return bricks.map((brick, i) => ({ ...brick, timestamp: times[i] }));
+}
+
+/**
+ * Range bars: each bar spans exactly `range` from high to low before the next one opens, however
+ * long that takes. Within a source bar, price is taken to visit the extreme nearer its open first
+ * (open, low, high, close for an up bar). The last bar is still forming and may be shorter.
+ */
+export function toRangeBars(bars: OHLCData[], range: number): OHLCData[] {
+  if (bars.length === 0 || !(range > 0)) return [];
+
+  const size = clampBoxSize(bars, range);
+  const result: Array<Omit<OHLCData, 'timestamp'>> = [];
+  const formedIn: number[] = [];
+  const start = bars[0].open;
+  let current = { open: start, high: start, low: start, close: start, volume: 0 };
+  result.push(current);
+  formedIn.push(0);
+
+  const moveTo = (price: number, index: number) => {
+    for (;;) {
+      if (price - current.low >= size && price > current.high) {
+        current.high = current.close = current.low + size;
+      } else if (current.high - price >= size && price < current.low) {
+        current.low = current.close = current.high - size;
+      } else {
+        current.high = Math.max(current.high, price);
+        current.low = Math.min(current.low, price);
+        current.close = price;
+        return;
+      }
+
+      const open = current.close;
+      current = { open, high: open, low: open, close: open, volume: 0 };
+      result.push(current);
+      formedIn.push(index);
+    }
+  };
+
+  bars.forEach((bar, index) => {
+    const first = result.length - 1;
+    const path = bar.close >= bar.open
+      ? [bar.open, bar.low, bar.high, bar.close]
+      : [bar.open, bar.high, bar.low, bar.close];
+    path.forEach(price => moveTo(price, index));
+
+    // The bar's volume is shared by every range bar it traded in
+    const touched = result.slice(first);
+    touched.forEach(rangeBar => {
+      rangeBar.volume += bar.volume / touched.length;
+    });
+  });
+
+  const times = spreadTimes(bars, formedIn);
+  return result.map((rangeBar, i) => ({ ...rangeBar, timestamp: times[i] }));
+}
+
+/**
+ * The bars a chart type is drawn from, and that its indicators are calculated on. Renko and
+ * range bars without a size set use `defaultSize`, which charts keep fixed while bars stream in.
+ */
+export function transformBars(
+  bars: OHLCData[],
+  chartType: ChartType,
+  options: ChartTypeOptions = {},
+  defaultSize: number | null = defaultBrickSize(bars)
+): OHLCData[] {
+  switch (chartType) {
+    case 'heikin-ashi':
+      return toHeikinAshi(bars);
+    case 'renko': {
+      const boxSize = options.renkoBoxSize ?? defaultSize;
+      return boxSize ? toRenko(bars, boxSize) : bars;
+    }
+    case 'range': {
+      const range = options.rangeBarSize ?? defaultSize;
+      return range ? toRangeBars(bars, range) : bars;
+    }
+    default:
+      return bars;
+  }
+}
@@ -0,0 +1,86 @@
+import type { IndicatorDataPoint, OHLCData } from '../indicators/types';
+
+// Line colors for comparison symbols, by position in the chart's list
+export const COMPARISON_COLORS = ['#ff9800', '#ab47bc', '#42a5f5', '#ffee58', '#ec407a', '#8d6e63'];
+
+export const MAX_COMPARISONS = COMPARISON_COLORS.length;
+
+// `change` is the symbol's own % change from the base bar, for tooltips
+export interface ComparisonPoint extends IndicatorDataPoint {
+  change: number | null;
+}
+
+export interface ComparisonSeries {
+  symbol: string;
+  color: string;
+  // Plotted against the main symbol's price axis: the main base price scaled by the symbol's change
+  points: ComparisonPoint[];
+  change: number | null; // % change from the base bar to the last visible bar
+}
+
+// First bar shown in the visible range; the bar every series is rebased to
+export function findBaseIndex(bars: OHLCData[], visibleMin?: number): number {
+  if (visibleMin === undefined) return 0;
+  const index = bars.findIndex(bar => bar.timestamp.getTime() >= visibleMin);
+  return index === -1 ? 0 : index;
+}
+
+// Last bar shown in the visible range
+export function findLastVisibleIndex(bars: OHLCData[], visibleMax?: number): number {
+  if (visibleMax === undefined) return bars.length - 1;
+  for (let i = bars.length - 1; i >= 0; i--) {
+    if (bars[i].timestamp.getTime() <= visibleMax) return i;
+  }
+  return bars.length - 1;
+}
+
+export const percentChange = (value: number, base: number): number => (value / base - 1) * 100;
+
+// +1.25%, -0.40%
+export const formatPercentChange = (change: number): string => `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+
+/**
+ * A comparison symbol lined up with the main symbol's bars and rebased to percent change
+ * from `baseIndex`. Each point sits where the main symbol would be had it moved by the same
+ * percentage, so both share one price axis (which percent mode labels in %). Bars the
+ * comparison symbol has no data for are left as gaps.
+ */
+export function buildComparisonSeries(
+  symbol: string,
+  color: string,
+  mainBars: OHLCData[],
+  comparisonBars: OHLCData[],
+  baseIndex: number,
+  lastIndex: number
+): ComparisonSeries {
+  const closes = new Map(comparisonBars.map(bar => [bar.timestamp.getTime(), bar.close]));
+  const aligned = mainBars.map(bar => closes.get(bar.timestamp.getTime()) ?? null);
+
+  // Rebase to the first bar from the base on that both symbols have
+  let rebaseIndex = baseIndex;
+  while (rebaseIndex < aligned.length && aligned[rebaseIndex] === null) rebaseIndex++;
+
+  const mainBase = mainBars[rebaseIndex]?.close;
+  const comparisonBase = aligned[rebaseIndex];
+  if (mainBase === undefined || comparisonBase === null || comparisonBase === undefined) {
+    return { symbol, color, points: mainBars.map(bar => ({ x: bar.timestamp, y: null, change: null })), change: null };
+  }
+
+  const points = mainBars.map((bar, index) => {
+    const close = aligned[index];
+    return close === null
+      ? { x: bar.timestamp, y: null, change: null }
+      : { x: bar.timestamp, y: mainBase * close / comparisonBase, change: percentChange(close, comparisonBase) };
+  });
+
+  let last = Math.min(lastIndex, aligned.length - 1);
+  while (last > rebaseIndex && aligned[last] === null) last--;
+  const lastClose = aligned[last];
+
+  return {
+    symbol,
+    color,
+    points,
+    change: lastClose === null ? null : percentChange(lastClose, comparisonBase)
+  };
+}
@@ -0,0 +1,10 @@
+import { ApiBarsProvider, BarsHistoryService } from './BarsProvider';
+import { createDemoBarsProvider } from './FixtureBarsProvider';
+
+// Historical bars shared by every chart that isn't given its own provider, and by alerts.
+// VITE_BARS_PROVIDER=demo serves the bundled demo recording instead of the backend.
+export const defaultBarsHistory = new BarsHistoryService(
+  import.meta.env.VITE_BARS_PROVIDER === 'demo' ? createDemoBarsProvider() : new ApiBarsProvider()
+);
+
+export default defaultBarsHistory;
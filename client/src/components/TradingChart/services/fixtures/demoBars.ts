@@ -0,0 +1,146 @@
+import type { Bar } from '../../../../types';
+import type { BarsFixtures } from '../FixtureBarsProvider';
+
+// Synthetic daily series for the `DEMO` symbol, stored as [epochSeconds, o, h, l, c, v]
+// tuples to keep the file small. Generated once with a seeded random walk so that
+// demos and tests are deterministic; it does not represent any real instrument.
+const DEMO_DAILY: Array<[number, number, number, number, number, number]> = [
+  [1704171600, 99.94, 101.46, 98.76, 100.88, 7828701], [1704258000, 100.65, 101.81, 99.67, 100.1, 6884141], [1704344400, 100.31, 101.33, 98.05, 99.17, 4998956], [1704430800, 99.19, 99.92, 98.93, 99.57, 6884090],
+  [1704690000, 99.75, 100.73, 98.59, 99.46, 6890106], [1704776400, 99.78, 99.84, 98.9, 99.24, 7051938], [1704862800, 99.1, 99.79, 97.81, 98.41, 5124970], [1704949200, 97.92, 98.32, 96.18, 96.98, 3460919],
+  [1705035600, 97.22, 98.96, 96.42, 98.26, 6629976], [1705294800, 98.43, 99.14, 96.93, 97.43, 7136049], [1705381200, 97.01, 98.61, 96.04, 97.98, 7720403], [1705467600, 98.02, 98.89, 95.87, 96.96, 2957087],
+  [1705554000, 97.22, 98.31, 96.54, 97.97, 5071674], [1705640400, 98.2, 98.4, 96.45, 97.06, 4235392], [1705899600, 96.73, 98.32, 96.12, 98.05, 5922883], [1705986000, 97.59, 97.97, 96.61, 96.84, 3082330],
+  [1706072400, 96.82, 98.21, 96.72, 97.96, 3690786], [1706158800, 98.1, 98.59, 96.83, 97.43, 6440846], [1706245200, 97.81, 98.73, 97.69, 98.16, 2160762], [1706504400, 98.38, 99.21, 96.75, 97.12, 7936904],
+  [1706590800, 96.94, 98.5, 96.92, 98.05, 4815760], [1706677200, 98.35, 98.78, 98.17, 98.42, 4773969], [1706763600, 98.59, 99.72, 97.12, 97.99, 4915083], [1706850000, 97.67, 97.91, 96.18, 97.17, 2991316],
+  [1707109200, 97.17, 98.31, 96.93, 97.02, 7891817], [1707195600, 97.43, 98.83, 96.54, 97.66, 7785875], [1707282000, 97.95, 98.0, 96.6, 96.75, 7751070], [1707368400, 96.34, 98.43, 96.08, 97.32, 6507476],
+  [1707454800, 97.54, 98.24, 96.95, 97.58, 6670651], [1707714000, 97.27, 98.12, 96.29, 96.55, 6628768], [1707800400, 96.9, 97.24, 95.1, 95.96, 5181656], [1707886800, 95.86, 95.9, 93.62, 94.6, 3713733],
+  [1707973200, 94.99, 95.65, 94.7, 94.83, 4388409], [1708059600, 94.67, 95.01, 94.26, 94.66, 5412629], [1708318800, 94.54, 95.62, 93.78, 95.23, 6925539], [1708405200, 94.8, 95.39, 94.53, 95.08, 5046344],
+  [1708491600, 95.38, 95.78, 94.81, 95.23, 6994448], [1708578000, 95.67, 96.19, 94.51, 95.27, 2659567], [1708664400, 95.62, 96.21, 94.18, 94.55, 3122268], [1708923600, 94.93, 95.48, 93.9, 94.46, 4769822],
+  [1709010000, 94.81, 96.32, 94.06, 95.21, 5493377], [1709096400, 94.81, 95.64, 93.71, 94.5, 4668315], [1709182800, 94.76, 94.94, 94.26, 94.38, 4066867], [1709269200, 94.25, 95.92, 93.51, 95.08, 3288715],
+  [1709528400, 94.65, 95.73, 94.04, 95.16, 3462879], [1709614800, 94.93, 95.75, 93.86, 95.37, 4601391], [1709701200, 95.41, 97.68, 94.94, 96.65, 5026479], [1709787600, 96.26, 97.03, 95.59, 95.71, 7463271],
+  [1709874000, 95.44, 96.09, 95.14, 95.33, 4809815], [1710133200, 95.4, 96.89, 94.84, 96.52, 2107413], [1710219600, 96.24, 97.87, 96.19, 97.11, 5701551], [1710306000, 96.9, 97.31, 96.46, 97.12, 4241524],
+  [1710392400, 97.25, 98.54, 96.52, 98.42, 5827110], [1710478800, 98.49, 100.62, 97.9, 99.83, 3291069], [1710738000, 100.22, 101.67, 99.76, 100.55, 6894050], [1710824400, 100.06, 100.59, 98.26, 99.34, 7920277],
+  [1710910800, 98.91, 99.13, 97.5, 97.88, 2613916], [1710997200, 97.86, 98.57, 95.98, 96.67, 3843244], [1711083600, 96.54, 97.65, 95.04, 95.46, 5945199], [1711342800, 95.11, 95.25, 93.18, 93.95, 2347497],
+  [1711429200, 93.93, 94.54, 93.17, 93.55, 3921561], [1711515600, 93.75, 94.86, 92.78, 92.95, 3143801], [1711602000, 92.84, 93.86, 92.02, 93.48, 3505263], [1711688400, 93.12, 94.22, 91.81, 92.57, 4378612],
+  [1711947600, 92.31, 93.41, 91.12, 91.88, 6487779], [1712034000, 91.67, 92.73, 90.71, 92.05, 4149526], [1712120400, 92.2, 92.97, 90.64, 91.22, 7197844], [1712206800, 91.08, 91.75, 90.16, 91.5, 3899214],
+  [1712293200, 91.16, 91.43, 89.7, 90.17, 6921716], [1712552400, 90.48, 91.17, 90.17, 90.63, 4879718], [1712638800, 90.39, 90.41, 89.19, 89.38, 2741229], [1712725200, 89.29, 90.16, 87.59, 88.01, 6726678],
+  [1712811600, 87.93, 89.47, 87.12, 89.24, 7202225], [1712898000, 88.87, 89.65, 88.0, 89.28, 2311943], [1713157200, 89.16, 89.46, 88.28, 88.67, 4089253], [1713243600, 88.85, 90.46, 88.17, 89.61, 7703171],
+  [1713330000, 89.53, 90.59, 88.66, 90.09, 3851936], [1713416400, 89.79, 90.41, 87.77, 88.8, 2500444], [1713502800, 88.67, 90.91, 87.61, 90.04, 3154202], [1713762000, 90.47, 91.77, 89.84, 91.6, 6292580],
+  [1713848400, 91.62, 93.11, 91.25, 92.19, 7849609], [1713934800, 92.59, 93.53, 92.44, 92.81, 3729703], [1714021200, 92.93, 93.14, 91.41, 91.62, 2674244], [1714107600, 91.3, 92.35, 89.43, 90.25, 5993841],
+  [1714366800, 89.88, 92.15, 89.7, 91.24, 7343270], [1714453200, 91.49, 93.57, 90.47, 92.61, 6515662], [1714539600, 92.53, 92.69, 91.26, 92.31, 6787892], [1714626000, 92.71, 94.25, 91.93, 93.5, 7883178],
+  [1714712400, 93.62, 93.66, 92.9, 93.26, 4226628], [1714971600, 93.18, 94.65, 93.03, 94.22, 5267102], [1715058000, 94.09, 94.14, 93.04, 93.35, 2877996], [1715144400, 93.64, 93.68, 92.78, 92.87, 5597740],
+  [1715230800, 92.69, 94.24, 91.63, 93.36, 6641271], [1715317200, 92.89, 93.64, 91.83, 92.31, 3419672], [1715576400, 92.36, 93.08, 90.73, 91.13, 7247773], [1715662800, 91.25, 93.12, 90.87, 92.44, 4073156],
+  [1715749200, 92.79, 93.51, 91.22, 92.18, 6467142], [1715835600, 92.23, 92.52, 92.22, 92.45, 6855085], [1715922000, 92.91, 93.62, 92.08, 92.92, 4191360], [1716181200, 92.93, 93.33, 91.43, 92.25, 3347487],
+  [1716267600, 92.7, 93.7, 91.03, 91.82, 3863804], [1716354000, 91.42, 92.63, 91.42, 91.8, 7417957], [1716440400, 91.55, 92.11, 90.67, 91.55, 7021403], [1716526800, 91.41, 91.71, 90.53, 90.87, 5744085],
+  [1716786000, 90.7, 91.16, 89.73, 90.76, 5924978], [1716872400, 90.63, 92.25, 90.56, 91.38, 7342813], [1716958800, 91.05, 91.77, 89.89, 90.78, 4616175], [1717045200, 90.82, 91.37, 90.57, 90.79, 5745866],
+  [1717131600, 90.38, 90.46, 88.85, 89.73, 7508865], [1717390800, 89.44, 90.32, 89.44, 89.83, 6403744], [1717477200, 89.94, 91.65, 89.02, 90.8, 4048730], [1717563600, 90.61, 91.63, 89.87, 90.45, 2873479],
+  [1717650000, 90.47, 92.29, 90.46, 91.29, 7306749], [1717736400, 91.21, 92.98, 90.47, 92.31, 2599220], [1717995600, 91.9, 92.62, 90.82, 91.29, 4860580], [1718082000, 91.73, 93.29, 91.56, 92.42, 2879890],
+  [1718168400, 92.38, 93.14, 90.66, 91.19, 7212385], [1718254800, 91.59, 92.16, 91.43, 91.88, 6184565], [1718341200, 91.64, 92.3, 91.01, 91.65, 7542409], [1718600400, 91.25, 91.26, 89.82, 90.8, 5573865],
+  [1718686800, 90.55, 90.93, 89.72, 90.89, 6054661], [1718773200, 90.52, 91.99, 90.21, 91.79, 3864578], [1718859600, 91.39, 91.82, 90.96, 91.19, 5784322], [1718946000, 90.88, 91.69, 90.65, 91.47, 4584864],
+  [1719205200, 91.28, 92.35, 90.93, 91.9, 7756049], [1719291600, 91.6, 92.46, 90.68, 91.78, 4958823], [1719378000, 91.43, 92.45, 91.3, 92.32, 5058112], [1719464400, 92.2, 93.01, 90.23, 91.32, 3381841],
+  [1719550800, 91.44, 92.88, 91.06, 92.42, 6979330], [1719810000, 91.98, 93.3, 91.83, 92.27, 4352061], [1719896400, 92.54, 93.38, 91.58, 92.82, 5094074], [1719982800, 93.05, 93.94, 91.15, 91.81, 6858446],
+  [1720069200, 91.85, 92.39, 91.72, 92.23, 2325107], [1720155600, 91.84, 92.22, 90.88, 91.32, 6042352], [1720414800, 90.94, 91.7, 90.11, 91.11, 6814840], [1720501200, 90.8, 92.27, 90.11, 92.09, 4797140],
+  [1720587600, 92.32, 93.2, 91.72, 92.75, 6142593], [1720674000, 93.16, 93.71, 90.81, 91.87, 2099303], [1720760400, 91.76, 93.72, 90.69, 92.88, 5288746], [1721019600, 92.42, 92.74, 91.69, 92.43, 2524709],
+  [1721106000, 92.78, 93.52, 91.56, 91.68, 5016185], [1721192400, 91.97, 92.14, 91.09, 91.3, 2844980], [1721278800, 91.61, 92.54, 89.98, 90.39, 5265237], [1721365200, 90.18, 92.0, 89.81, 91.44, 7071692],
+  [1721624400, 91.52, 93.01, 91.31, 92.28, 7990318], [1721710800, 92.72, 94.41, 92.09, 93.81, 7069967], [1721797200, 93.7, 94.04, 91.53, 92.63, 2854795], [1721883600, 92.65, 93.49, 92.4, 93.36, 6148206],
+  [1721970000, 93.08, 93.33, 92.02, 92.59, 4595099], [1722229200, 92.54, 93.39, 91.14, 91.79, 2097093], [1722315600, 92.14, 93.23, 91.82, 92.71, 5915904], [1722402000, 92.39, 93.39, 90.47, 91.16, 4248687],
+  [1722488400, 90.85, 91.59, 89.19, 90.22, 5735222], [1722574800, 89.98, 92.14, 89.8, 91.08, 2505302], [1722834000, 91.27, 92.18, 89.76, 90.69, 6711541], [1722920400, 90.55, 91.59, 88.99, 89.93, 3198030],
+  [1723006800, 89.64, 91.41, 89.1, 90.35, 7504666], [1723093200, 90.08, 90.4, 88.08, 88.97, 7326193], [1723179600, 88.79, 90.53, 88.46, 89.58, 3397706], [1723438800, 89.43, 91.35, 89.16, 90.78, 3451638],
+  [1723525200, 90.72, 90.94, 90.23, 90.76, 2989676], [1723611600, 91.05, 91.7, 90.22, 91.04, 4525706], [1723698000, 90.98, 92.29, 90.09, 91.77, 7906476], [1723784400, 91.66, 93.38, 91.56, 92.88, 3461877],
+  [1724043600, 92.97, 94.43, 92.31, 94.08, 2122519], [1724130000, 93.79, 94.89, 92.21, 93.06, 4583467], [1724216400, 93.09, 94.74, 92.57, 93.7, 4786092], [1724302800, 94.08, 94.27, 93.81, 94.16, 7423441],
+  [1724389200, 93.79, 94.64, 92.9, 94.29, 4648526], [1724648400, 94.01, 95.1, 92.95, 93.2, 3982293], [1724734800, 93.04, 94.49, 92.28, 93.68, 2560580], [1724821200, 93.47, 94.31, 93.17, 93.87, 6710112],
+  [1724907600, 93.9, 93.94, 93.1, 93.45, 6268917], [1724994000, 93.43, 95.32, 93.01, 94.87, 4420345], [1725253200, 95.31, 95.66, 94.34, 95.42, 4171400], [1725339600, 95.59, 96.41, 94.05, 95.04, 5315441],
+  [1725426000, 94.81, 95.86, 94.24, 94.82, 7021899], [1725512400, 95.25, 96.22, 93.49, 93.98, 6558449], [1725598800, 93.95, 94.68, 93.45, 94.55, 2063630], [1725858000, 94.68, 95.4, 94.01, 95.01, 6609824],
+  [1725944400, 95.03, 95.62, 94.25, 94.56, 5964557], [1726030800, 94.57, 96.9, 94.08, 95.82, 2115063], [1726117200, 95.58, 97.24, 94.56, 97.02, 4479176], [1726203600, 97.03, 98.15, 96.46, 97.95, 7726491],
+  [1726462800, 98.36, 98.87, 97.47, 98.4, 5218017], [1726549200, 98.75, 100.3, 98.62, 99.3, 3121402], [1726635600, 99.36, 101.92, 99.07, 100.86, 6519517], [1726722000, 100.95, 102.53, 100.0, 101.91, 2888897],
+  [1726808400, 101.91, 102.95, 101.05, 102.3, 7438392], [1727067600, 102.67, 104.81, 101.86, 103.88, 6149225], [1727154000, 104.16, 105.54, 104.0, 105.19, 2540481], [1727240400, 104.78, 105.43, 103.16, 103.4, 5992019],
+  [1727326800, 103.39, 104.41, 103.3, 103.54, 5776012], [1727413200, 103.5, 104.13, 102.64, 103.46, 2323776], [1727672400, 103.19, 103.65, 100.75, 101.76, 7441553], [1727758800, 102.04, 102.16, 99.61, 100.58, 3750066],
+  [1727845200, 100.8, 101.62, 100.51, 101.41, 4385435], [1727931600, 101.45, 101.45, 100.03, 100.14, 2934371], [1728018000, 100.4, 101.24, 100.07, 100.32, 3412209], [1728277200, 99.99, 100.05, 98.57, 99.08, 5723085],
+  [1728363600, 98.59, 99.26, 98.21, 99.23, 2548735], [1728450000, 99.59, 100.65, 98.63, 99.66, 5455160], [1728536400, 99.35, 99.91, 98.69, 98.9, 7697788], [1728622800, 99.05, 101.48, 98.75, 100.35, 6534983],
+  [1728882000, 100.22, 100.79, 99.82, 99.99, 4474578], [1728968400, 99.89, 101.77, 99.73, 101.13, 7788530], [1729054800, 101.03, 101.44, 99.64, 100.03, 3947394], [1729141200, 100.48, 102.87, 99.96, 101.96, 2595448],
+  [1729227600, 101.8, 102.98, 101.64, 102.38, 5835572], [1729486800, 101.9, 101.98, 101.26, 101.47, 7543670], [1729573200, 101.11, 103.05, 100.25, 102.08, 4706321], [1729659600, 101.83, 102.6, 99.43, 100.47, 4638280],
+  [1729746000, 100.28, 101.93, 99.2, 101.84, 7106404], [1729832400, 101.53, 103.67, 100.9, 102.62, 4162791], [1730091600, 102.91, 103.38, 102.6, 102.7, 5615526], [1730178000, 102.26, 103.43, 100.65, 101.3, 2388626],
+  [1730264400, 101.03, 101.79, 99.95, 100.73, 4765254], [1730350800, 100.61, 102.55, 99.79, 101.41, 6707506], [1730437200, 101.71, 102.67, 100.32, 101.27, 2880612], [1730696400, 101.03, 102.08, 100.12, 100.98, 2671626],
+  [1730782800, 100.93, 101.65, 100.52, 100.75, 4420995], [1730869200, 101.1, 103.24, 100.83, 102.48, 5117861], [1730955600, 102.69, 104.92, 101.98, 103.84, 2572862], [1731042000, 104.27, 105.71, 103.78, 105.04, 7274958],
+  [1731301200, 104.7, 105.71, 102.51, 103.41, 6928669], [1731387600, 103.71, 104.0, 102.01, 103.02, 3756523], [1731474000, 103.07, 105.24, 102.46, 104.31, 7324793], [1731560400, 104.25, 105.04, 103.82, 104.59, 3877797],
+  [1731646800, 104.25, 105.47, 102.84, 103.1, 5555749], [1731906000, 102.69, 103.08, 102.24, 102.41, 3050628], [1731992400, 102.3, 102.41, 102.02, 102.08, 4982742], [1732078800, 101.78, 103.48, 101.74, 103.05, 4358671],
+  [1732165200, 102.82, 104.11, 102.31, 103.57, 5261677], [1732251600, 104.06, 105.57, 102.98, 104.59, 4043784], [1732510800, 104.21, 106.05, 102.98, 105.28, 4778986], [1732597200, 105.32, 106.89, 104.27, 105.74, 5794734],
+  [1732683600, 105.72, 106.63, 104.08, 104.61, 6153190], [1732770000, 104.74, 106.76, 103.83, 106.13, 5670726], [1732856400, 105.66, 108.23, 104.67, 107.06, 7585894], [1733115600, 106.59, 106.75, 104.77, 105.83, 4464937],
+  [1733202000, 106.2, 107.64, 105.07, 107.46, 4177921], [1733288400, 107.16, 108.16, 105.24, 106.35, 3567132], [1733374800, 106.03, 107.92, 105.95, 106.95, 3814608], [1733461200, 106.87, 108.49, 106.09, 108.44, 4169607],
+  [1733720400, 108.15, 109.7, 107.37, 108.54, 5118784], [1733806800, 108.45, 108.77, 106.49, 107.06, 2227094], [1733893200, 106.92, 108.08, 105.29, 105.77, 5520754], [1733979600, 105.61, 106.55, 105.16, 105.56, 5178938],
+  [1734066000, 105.06, 107.07, 104.16, 106.1, 2951640], [1734325200, 106.1, 106.75, 103.97, 104.77, 7320745], [1734411600, 104.84, 106.24, 104.63, 105.54, 2279690], [1734498000, 105.83, 107.47, 105.46, 106.28, 5122876],
+  [1734584400, 106.79, 107.5, 106.39, 107.34, 2628745], [1734670800, 107.46, 107.63, 106.43, 106.64, 3984541], [1734930000, 106.89, 108.96, 106.21, 108.37, 3393776], [1735016400, 108.41, 109.45, 106.19, 107.31, 4134928],
+  [1735102800, 106.9, 107.22, 105.06, 105.69, 2350480], [1735189200, 106.21, 106.75, 104.22, 104.78, 7896702], [1735275600, 104.9, 106.09, 103.96, 104.98, 7994186], [1735534800, 105.46, 106.33, 104.34, 104.66, 3562356],
+  [1735621200, 105.12, 106.09, 104.14, 105.51, 3387855], [1735707600, 105.74, 107.33, 105.3, 106.79, 2950307], [1735794000, 106.86, 107.59, 104.9, 106.12, 5599742], [1735880400, 106.45, 107.27, 105.6, 105.98, 2555296],
+  [1736139600, 106.46, 107.24, 105.28, 106.69, 4518308], [1736226000, 107.16, 108.99, 106.15, 108.18, 2336545], [1736312400, 108.0, 109.87, 107.97, 109.25, 4695285], [1736398800, 109.12, 109.19, 107.96, 108.16, 5847275],
+  [1736485200, 108.32, 110.08, 108.24, 108.81, 7137272], [1736744400, 108.36, 109.43, 106.64, 106.86, 4850625], [1736830800, 106.64, 109.12, 105.4, 108.08, 5892077], [1736917200, 108.17, 109.12, 106.43, 106.84, 5039630],
+  [1737003600, 106.31, 107.16, 106.11, 106.38, 6108027], [1737090000, 106.8, 108.1, 105.71, 107.21, 5232841], [1737349200, 107.1, 107.49, 106.97, 107.32, 7232728], [1737435600, 107.06, 107.89, 106.58, 107.32, 6702343],
+  [1737522000, 107.42, 108.75, 106.55, 108.23, 4412341], [1737608400, 108.68, 109.71, 107.98, 109.17, 4357289], [1737694800, 109.0, 110.09, 108.38, 108.59, 6203163], [1737954000, 108.52, 109.71, 107.45, 109.23, 3603775],
+  [1738040400, 109.2, 109.5, 108.41, 109.31, 2664381], [1738126800, 109.11, 110.31, 106.31, 107.58, 4080747], [1738213200, 107.07, 108.15, 105.08, 105.69, 2014114], [1738299600, 105.86, 107.55, 105.59, 107.02, 4381809],
+  [1738558800, 107.26, 108.03, 105.39, 106.07, 7550412], [1738645200, 106.1, 106.83, 105.0, 106.68, 4564207], [1738731600, 107.17, 107.17, 105.47, 106.33, 4714648], [1738818000, 106.17, 107.26, 104.85, 105.0, 5968900],
+  [1738904400, 104.64, 105.59, 104.43, 104.52, 4256776], [1739163600, 104.65, 105.69, 103.27, 104.48, 6879567], [1739250000, 104.69, 106.16, 103.59, 105.17, 6700218], [1739336400, 105.68, 106.82, 105.61, 106.29, 6083527],
+  [1739422800, 106.55, 109.0, 106.18, 107.95, 2948649], [1739509200, 107.48, 109.29, 106.35, 108.72, 2713972], [1739768400, 109.12, 111.14, 108.17, 110.06, 7177759], [1739854800, 109.93, 112.45, 108.64, 111.19, 6100558],
+  [1739941200, 110.98, 113.32, 110.56, 112.17, 2362087], [1740027600, 112.2, 112.9, 111.97, 112.55, 7984320], [1740114000, 112.98, 113.96, 112.27, 113.8, 3150300], [1740373200, 114.11, 114.19, 113.06, 113.58, 5613015],
+  [1740459600, 113.44, 114.71, 113.07, 113.15, 4571842], [1740546000, 113.2, 114.07, 111.62, 111.89, 2174419], [1740632400, 112.38, 112.58, 111.23, 111.94, 7483619], [1740718800, 112.21, 113.23, 110.2, 111.05, 4997749],
+  [1740978000, 110.77, 112.63, 109.54, 111.79, 7997472], [1741064400, 112.08, 114.17, 111.23, 113.35, 4207300], [1741150800, 113.33, 115.06, 112.26, 113.99, 7617420], [1741237200, 114.55, 115.35, 112.58, 113.47, 5297521],
+  [1741323600, 113.47, 114.22, 112.21, 112.94, 4710220], [1741582800, 112.71, 113.47, 111.63, 113.12, 2665191], [1741669200, 113.17, 113.76, 112.16, 113.02, 3483552], [1741755600, 112.53, 112.97, 111.81, 112.96, 3731985],
+  [1741842000, 113.45, 113.6, 111.29, 112.07, 5103185], [1741928400, 111.78, 112.56, 110.5, 111.75, 7169640], [1742187600, 111.46, 113.14, 111.3, 113.01, 2193748], [1742274000, 113.07, 115.8, 112.95, 114.61, 4150084],
+  [1742360400, 114.11, 116.96, 113.56, 115.71, 7987266], [1742446800, 116.0, 116.0, 114.34, 114.87, 4734300], [1742533200, 115.35, 117.94, 114.54, 116.86, 6059403], [1742792400, 116.66, 117.47, 115.49, 115.63, 4736347],
+  [1742878800, 115.44, 116.42, 114.42, 116.41, 5175390], [1742965200, 116.47, 117.13, 116.45, 116.73, 3902871], [1743051600, 116.16, 116.81, 115.48, 116.6, 3505879], [1743138000, 116.37, 118.79, 116.03, 117.84, 6283596],
+  [1743397200, 118.43, 119.39, 117.09, 117.36, 4617525], [1743483600, 117.54, 117.6, 115.18, 116.06, 4484690], [1743570000, 115.89, 118.14, 114.52, 117.12, 5443845], [1743656400, 117.64, 118.86, 117.25, 118.0, 3344554],
+  [1743742800, 118.4, 119.11, 116.08, 117.0, 5148969], [1744002000, 117.36, 118.3, 114.86, 116.05, 3700489], [1744088400, 116.48, 116.9, 115.58, 115.68, 4660144], [1744174800, 115.55, 117.65, 114.7, 117.12, 7574865],
+  [1744261200, 117.59, 118.65, 116.03, 116.77, 2914421], [1744347600, 116.89, 117.82, 114.97, 115.3, 2550798], [1744606800, 115.08, 115.42, 113.72, 115.02, 2790694], [1744693200, 114.74, 117.1, 113.42, 115.99, 5580018],
+  [1744779600, 115.71, 118.09, 114.64, 116.89, 4530338], [1744866000, 117.33, 119.1, 115.96, 118.53, 3219513], [1744952400, 118.11, 118.54, 116.84, 117.41, 6437922], [1745211600, 117.91, 117.94, 116.25, 117.56, 2578677],
+  [1745298000, 117.81, 119.54, 116.85, 118.5, 7048066], [1745384400, 119.08, 121.17, 117.66, 120.79, 3325117], [1745470800, 120.5, 122.0, 119.26, 121.65, 4995223], [1745557200, 121.65, 122.56, 121.09, 122.3, 6194916],
+  [1745816400, 121.69, 124.68, 120.97, 123.27, 3780259], [1745902800, 122.71, 123.87, 121.37, 123.79, 7832054], [1745989200, 123.56, 124.37, 122.28, 123.77, 5740955], [1746075600, 123.32, 125.95, 122.58, 124.89, 5691861],
+  [1746162000, 124.37, 125.72, 123.54, 125.06, 6053075], [1746421200, 124.83, 126.35, 124.01, 125.15, 4434763], [1746507600, 125.36, 125.61, 123.93, 124.89, 6764468], [1746594000, 124.33, 125.16, 123.95, 124.84, 4959243],
+  [1746680400, 125.4, 126.73, 124.86, 125.7, 7946654], [1746766800, 125.09, 128.12, 124.41, 127.03, 7226869], [1747026000, 127.35, 128.01, 125.95, 126.82, 7286657], [1747112400, 127.17, 127.86, 125.36, 125.78, 2567348],
+  [1747198800, 126.22, 127.87, 126.18, 127.58, 4086377], [1747285200, 128.02, 130.41, 127.71, 129.57, 6468028], [1747371600, 129.65, 130.31, 129.11, 129.43, 7937550], [1747630800, 128.87, 129.36, 126.93, 128.23, 7199881],
+  [1747717200, 127.88, 128.76, 127.0, 128.5, 5547411], [1747803600, 128.14, 131.4, 126.83, 129.95, 7260930], [1747890000, 129.75, 132.25, 128.83, 131.41, 4553430], [1747976400, 132.04, 132.61, 129.23, 130.67, 5778235],
+  [1748235600, 130.26, 130.32, 128.78, 129.77, 7935028], [1748322000, 130.04, 131.13, 129.31, 130.8, 6950954], [1748408400, 130.33, 132.02, 129.54, 130.96, 6055980], [1748494800, 131.0, 132.16, 128.82, 130.35, 2589659],
+  [1748581200, 130.87, 132.58, 129.52, 131.1, 6703207], [1748840400, 131.26, 132.68, 129.93, 132.6, 4060985], [1748926800, 132.02, 133.52, 129.56, 130.48, 7975973], [1749013200, 130.47, 130.73, 127.62, 128.62, 4731847],
+  [1749099600, 128.92, 130.16, 127.58, 128.64, 7774023], [1749186000, 128.38, 129.94, 127.48, 129.13, 2573884], [1749445200, 128.81, 132.16, 127.68, 130.63, 6183975], [1749531600, 130.84, 132.02, 127.81, 129.03, 6186415],
+  [1749618000, 129.04, 130.5, 127.11, 128.32, 2520310], [1749704400, 128.75, 131.2, 127.87, 129.7, 2375117], [1749790800, 129.41, 130.8, 128.17, 129.78, 6390598], [1750050000, 129.46, 131.73, 129.42, 131.44, 7833801],
+  [1750136400, 131.57, 131.66, 128.91, 130.09, 5174110], [1750222800, 129.55, 130.68, 128.21, 130.49, 5668035], [1750309200, 130.77, 133.99, 130.66, 132.61, 5978769], [1750395600, 132.84, 133.37, 131.77, 132.52, 5722060],
+  [1750654800, 132.48, 133.12, 130.69, 131.36, 7723399], [1750741200, 131.44, 132.98, 130.87, 132.72, 6174314], [1750827600, 132.14, 133.38, 131.05, 131.71, 5730540], [1750914000, 131.53, 133.45, 130.6, 132.49, 2902068],
+  [1751000400, 132.06, 134.45, 131.35, 132.93, 4359600], [1751259600, 133.39, 135.92, 131.93, 134.63, 2932053], [1751346000, 134.58, 135.48, 133.41, 135.09, 4010925], [1751432400, 135.69, 136.35, 134.29, 136.14, 7141639],
+  [1751518800, 136.02, 137.87, 135.5, 136.89, 6538372], [1751605200, 136.96, 137.33, 134.87, 135.59, 5504023], [1751864400, 135.38, 138.04, 134.8, 136.41, 6971270], [1751950800, 136.27, 136.56, 134.87, 135.45, 3831034],
+  [1752037200, 135.97, 137.41, 133.86, 134.96, 2716182], [1752123600, 134.48, 136.28, 133.27, 136.0, 6408578], [1752210000, 136.26, 136.54, 135.09, 135.71, 7334652], [1752469200, 135.72, 137.07, 134.04, 135.36, 4392395],
+  [1752555600, 135.07, 136.83, 133.51, 136.0, 5825161], [1752642000, 136.36, 138.02, 135.66, 136.97, 7585718], [1752728400, 137.48, 138.74, 136.74, 137.28, 7325810], [1752814800, 136.83, 137.31, 134.8, 135.14, 3505564],
+  [1753074000, 135.56, 135.77, 135.15, 135.64, 4548736], [1753160400, 135.4, 137.39, 134.17, 136.22, 4710808], [1753246800, 136.57, 137.65, 134.94, 136.71, 2308110], [1753333200, 136.04, 138.02, 135.04, 136.49, 5462830],
+  [1753419600, 136.44, 136.94, 135.02, 135.85, 3460545], [1753678800, 135.23, 135.8, 133.98, 135.75, 4168460], [1753765200, 135.24, 135.87, 134.36, 134.95, 6690040], [1753851600, 135.34, 136.66, 135.03, 136.01, 6965064],
+  [1753938000, 135.52, 135.66, 134.08, 135.39, 4089139], [1754024400, 135.78, 136.06, 134.65, 135.58, 6499059], [1754283600, 134.93, 136.11, 132.33, 133.86, 2663730], [1754370000, 134.48, 135.85, 133.22, 133.44, 6671770],
+  [1754456400, 133.6, 136.41, 132.04, 135.16, 3970958], [1754542800, 134.65, 135.92, 134.59, 134.71, 7130461], [1754629200, 134.14, 135.56, 133.02, 135.47, 7338016], [1754888400, 134.94, 136.22, 133.54, 134.46, 6817542],
+  [1754974800, 134.51, 136.3, 134.25, 136.26, 3754088], [1755061200, 136.54, 137.04, 134.02, 135.36, 2207330], [1755147600, 135.41, 136.85, 134.28, 135.67, 6828521], [1755234000, 135.46, 136.88, 133.99, 136.24, 5207423],
+  [1755493200, 136.27, 137.1, 134.24, 135.43, 3415307], [1755579600, 135.98, 137.33, 134.74, 134.89, 2330646], [1755666000, 135.36, 136.4, 133.33, 134.92, 6867280], [1755752400, 135.06, 138.25, 133.55, 136.87, 2903675],
+  [1755838800, 136.71, 139.17, 136.65, 137.77, 7652904], [1756098000, 137.15, 137.25, 135.52, 136.64, 6019862], [1756184400, 136.87, 138.09, 134.52, 135.47, 2494385], [1756270800, 135.8, 137.49, 135.69, 136.41, 7916447],
+  [1756357200, 136.74, 138.92, 136.03, 138.7, 3517783], [1756443600, 138.51, 139.18, 138.28, 138.63, 7710216], [1756702800, 138.18, 138.95, 135.5, 137.06, 2394172], [1756789200, 137.17, 139.36, 137.15, 138.52, 6210865],
+  [1756875600, 139.02, 139.67, 137.9, 138.14, 2345348], [1756962000, 137.52, 139.4, 136.85, 139.21, 4097705], [1757048400, 139.14, 139.5, 137.56, 137.95, 6438429], [1757307600, 138.15, 140.7, 137.78, 140.22, 6343009],
+  [1757394000, 139.71, 142.26, 139.24, 141.84, 7050670], [1757480400, 141.82, 141.94, 139.45, 140.47, 7644209], [1757566800, 140.94, 144.59, 140.34, 143.03, 5999144], [1757653200, 143.37, 144.13, 142.53, 143.63, 3037309],
+  [1757912400, 144.27, 144.81, 142.07, 143.18, 2849433], [1757998800, 143.85, 145.13, 142.71, 143.81, 7055276], [1758085200, 143.11, 145.82, 142.71, 144.31, 7593279], [1758171600, 143.96, 144.16, 143.83, 144.09, 2017846],
+  [1758258000, 143.83, 145.05, 142.67, 144.44, 6467163], [1758517200, 145.06, 146.24, 141.51, 143.22, 3543063], [1758603600, 143.77, 145.25, 142.62, 143.29, 5422073], [1758690000, 142.79, 145.49, 141.79, 144.52, 5406054],
+  [1758776400, 144.17, 147.92, 144.15, 146.27, 7899237], [1758862800, 146.0, 146.23, 144.8, 146.02, 2686926], [1759122000, 146.34, 147.51, 146.1, 146.34, 5367388], [1759208400, 146.59, 148.28, 146.45, 146.77, 3997333],
+  [1759294800, 147.41, 148.44, 146.02, 146.43, 7784175], [1759381200, 146.84, 147.0, 144.39, 145.27, 6704179], [1759467600, 145.73, 145.89, 143.14, 143.88, 2007571], [1759726800, 144.07, 146.08, 142.98, 145.71, 7729065],
+  [1759813200, 146.14, 147.83, 144.04, 144.36, 2452713], [1759899600, 144.23, 147.87, 143.19, 146.17, 6943498], [1759986000, 145.78, 147.64, 144.14, 146.62, 5215355], [1760072400, 146.47, 146.77, 144.27, 145.72, 4652540],
+  [1760331600, 146.15, 147.97, 145.75, 147.32, 5715154], [1760418000, 147.83, 148.51, 145.45, 146.49, 3413485], [1760504400, 146.57, 149.49, 146.37, 148.58, 5900297], [1760590800, 148.43, 150.67, 147.72, 149.36, 5721285],
+  [1760677200, 149.45, 151.21, 148.55, 148.98, 7449506], [1760936400, 148.66, 149.7, 147.01, 147.29, 3158892], [1761022800, 147.32, 149.16, 145.74, 148.69, 7458232], [1761109200, 148.26, 149.7, 147.53, 148.47, 5708299],
+  [1761195600, 149.2, 150.87, 146.68, 147.27, 6052894], [1761282000, 146.97, 149.26, 146.3, 147.51, 6296995], [1761541200, 147.3, 149.08, 145.73, 148.72, 6490275], [1761627600, 148.25, 149.8, 147.57, 148.67, 5564697],
+  [1761714000, 149.39, 151.17, 148.12, 148.66, 2818761], [1761800400, 147.94, 148.76, 146.66, 148.37, 3526628], [1761886800, 148.56, 149.59, 146.49, 147.65, 7353840], [1762146000, 147.66, 148.56, 146.24, 147.3, 4532261],
+  [1762232400, 147.64, 148.86, 145.63, 146.99, 5302346], [1762318800, 147.14, 149.63, 145.42, 149.18, 5922374], [1762405200, 149.24, 150.12, 147.15, 148.67, 2108201], [1762491600, 149.03, 149.51, 146.74, 148.48, 5322390],
+  [1762750800, 148.25, 150.45, 146.64, 149.19, 5736939], [1762837200, 149.06, 150.69, 145.3, 147.02, 4826407], [1762923600, 146.87, 148.24, 145.31, 148.15, 6417078], [1763010000, 148.71, 151.35, 147.06, 150.31, 6673965],
+  [1763096400, 149.87, 150.74, 147.85, 149.38, 5563431], [1763355600, 150.07, 150.92, 148.33, 149.38, 2650500], [1763442000, 148.91, 150.82, 147.13, 149.52, 4970757], [1763528400, 149.7, 151.49, 147.18, 147.9, 2602616],
+  [1763614800, 148.56, 151.17, 147.35, 149.9, 4135628], [1763701200, 149.21, 150.24, 147.49, 148.43, 6400676], [1763960400, 147.75, 148.87, 147.48, 148.66, 4990239], [1764046800, 148.21, 149.34, 146.88, 147.99, 4653895],
+  [1764133200, 147.57, 148.89, 145.52, 147.11, 4663857], [1764219600, 146.38, 148.17, 145.26, 147.89, 4737027], [1764306000, 147.98, 149.12, 146.47, 149.02, 3375924], [1764565200, 148.88, 150.27, 147.28, 148.49, 4472858],
+];
+
+const toBar = ([t, o, h, l, c, v]: [number, number, number, number, number, number]): Bar => ({
+  t: new Date(t * 1000).toISOString(),
+  o,
+  h,
+  l,
+  c,
+  v,
+});
+
+export const DEMO_BARS: BarsFixtures = {
+  'DEMO:1d': DEMO_DAILY.map(toBar),
+};
@@ -0,0 +1,75 @@
+import type { ChartSettings } from '../services/ChartPersistenceService';
+
+export type ChartPeriod = ChartSettings['period'];
+export type ChartInterval = ChartSettings['interval'];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const SUPPORTED_TIMEFRAMES: Array<{ key: ChartPeriod; label: string }> = [
+  { key: '1d', label: '1D' },
+  { key: '5d', label: '5D' },
+  { key: '1mo', label: '1M' },
+  { key: '3mo', label: '3M' },
+  { key: '6mo', label: '6M' },
+  { key: '1y', label: '1Y' },
+  { key: '2y', label: '2Y' },
+];
+
+export const SUPPORTED_INTERVALS: Array<{ key: ChartInterval; label: string }> = [
+  { key: '1m', label: '1m' },
+  { key: '5m', label: '5m' },
+  { key: '15m', label: '15m' },
+  { key: '30m', label: '30m' },
+  { key: '1h', label: '1H' },
+  { key: '4h', label: '4H' },
+  { key: '1d', label: '1D' },
+  { key: '1w', label: '1W' },
+];
+
+export function getPeriodDays(period: ChartPeriod): number {
+  switch (period) {
+    case '1d': return 1;
+    case '5d': return 5;
+    case '1mo': return 30;
+    case '3mo': return 90;
+    case '6mo': return 180;
+    case '1y': return 365;
+    case '2y': return 730;
+    default: return 90;
+  }
+}
+
+export function getPeriodMilliseconds(period: ChartPeriod): number {
+  return getPeriodDays(period) * DAY;
+}
+
+export function getIntervalMilliseconds(interval: ChartInterval): number {
+  switch (interval) {
+    case '1m': return MINUTE;
+    case '5m': return 5 * MINUTE;
+    case '15m': return 15 * MINUTE;
+    case '30m': return 30 * MINUTE;
+    case '1h': return HOUR;
+    case '4h': return 4 * HOUR;
+    case '1d': return DAY;
+    case '1w': return 7 * DAY;
+    default: return DAY;
+  }
+}
+
+// Alpaca market data `timeframe` query values
+export function toApiTimeframe(interval: ChartInterval): string {
+  switch (interval) {
+    case '1m': return '1Min';
+    case '5m': return '5Min';
+    case '15m': return '15Min';
+    case '30m': return '30Min';
+    case '1h': return '1Hour';
+    case '4h': return '4Hour';
+    case '1d': return '1Day';
+    case '1w': return '1Week';
+    default: return '1Day';
+  }
+}
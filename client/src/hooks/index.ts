@@ -4,4 +4,11 @@ export * from './useMarketData';
 export * from './useOrders';
 export * from './usePortfolio';
 export * from './useWatchlist';
-export * from './useDebounce';
\ No newline at end of file
+export * from './useDebounce';
+export * from './useAlerts';
+export * from './useTradeUpdates';
+export * from './useOrderBook';
+export * from './useTimeAndSales';
+export * from './useScanner';
+export * from './useOptions';
+export * from './useIndicatorScripts';
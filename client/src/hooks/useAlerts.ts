@@ -0,0 +1,95 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '../services/api';
+import alertEngine from '../services/alertEngine';
+import useToastStore from '../store/toastStore';
+import { showBrowserNotification } from '../utils/notifications';
+import type { PriceAlert, PriceAlertInput } from '../types';
+
+const MAX_TRIGGER_HISTORY = 50;
+
+// Hook to get all price alerts
+export const usePriceAlerts = () => {
+  return useQuery<PriceAlert[]>({
+    queryKey: ['priceAlerts'],
+    queryFn: () => apiClient.getPriceAlerts(),
+    staleTime: 60 * 1000,
+  });
+};
+
+// Hook to create a price alert
+export const useCreatePriceAlert = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (alertData: PriceAlertInput) => apiClient.createPriceAlert(alertData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['priceAlerts'] });
+    },
+  });
+};
+
+// Hook to edit, pause/resume or mark a price alert as triggered
+export const useUpdatePriceAlert = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ alertId, updates }: { alertId: string; updates: Partial<PriceAlert> }) =>
+      apiClient.updatePriceAlert(alertId, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['priceAlerts'] });
+    },
+  });
+};
+
+// Hook to delete a price alert
+export const useDeletePriceAlert = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (alertId: string) => apiClient.deletePriceAlert(alertId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['priceAlerts'] });
+    },
+  });
+};
+
+/**
+ * Runs the alert engine for the signed-in user's active alerts.
+ * Mount once, high in the tree, so alerts fire on every page.
+ */
+export const useAlertMonitor = () => {
+  const { data: alerts } = usePriceAlerts();
+  const { mutate: updateAlert } = useUpdatePriceAlert();
+  const queryClient = useQueryClient();
+  const showToast = useToastStore(state => state.showToast);
+
+  useEffect(() => {
+    alertEngine.setAlerts(alerts ?? []);
+  }, [alerts]);
+
+  useEffect(() => {
+    return () => alertEngine.stop();
+  }, []);
+
+  useEffect(() => {
+    return alertEngine.onTrigger(({ alert, trigger, message }) => {
+      showToast({ title: `🔔 ${alert.symbol} alert`, message, variant: 'warning' });
+      showBrowserNotification(`${alert.symbol} alert`, { body: message, tag: `price-alert-${alert.id}` });
+
+      // The engine's copy predates triggers whose update hasn't been refetched yet; build on the
+      // cached alert and write the update back so the next trigger appends to it too
+      const latest = queryClient.getQueryData<PriceAlert[]>(['priceAlerts'])?.find(a => a.id === alert.id) ?? alert;
+      const updates: Partial<PriceAlert> = {
+        triggeredAt: trigger.triggeredAt,
+        triggerHistory: [...(latest.triggerHistory ?? []), trigger].slice(-MAX_TRIGGER_HISTORY),
+        isActive: latest.repeat ? latest.isActive : false,
+      };
+      queryClient.setQueryData<PriceAlert[]>(['priceAlerts'], cached =>
+        cached?.map(a => (a.id === alert.id ? { ...a, ...updates } : a))
+      );
+
+      updateAlert({ alertId: alert.id, updates });
+    });
+  }, [queryClient, showToast, updateAlert]);
+};
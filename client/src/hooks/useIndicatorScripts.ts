@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '../services/api';
+import { indicatorRegistry, syncScriptIndicators } from '../components/TradingChart/indicators';
+import type { IndicatorScript, IndicatorScriptInput } from '../types';
+
+// Hook to get the user's indicator scripts
+export const useIndicatorScripts = () => {
+  return useQuery<IndicatorScript[]>({
+    queryKey: ['indicator-scripts'],
+    queryFn: () => apiClient.getIndicatorScripts(),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+// Hook to save a new indicator script
+export const useCreateIndicatorScript = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (script: IndicatorScriptInput) => apiClient.createIndicatorScript(script),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['indicator-scripts'] });
+    },
+  });
+};
+
+// Hook to overwrite an indicator script
+export const useUpdateIndicatorScript = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ scriptId, updates }: { scriptId: string; updates: Partial<IndicatorScriptInput> }) =>
+      apiClient.updateIndicatorScript(scriptId, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['indicator-scripts'] });
+    },
+  });
+};
+
+// Hook to delete an indicator script
+export const useDeleteIndicatorScript = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (scriptId: string) => apiClient.deleteIndicatorScript(scriptId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['indicator-scripts'] });
+    },
+  });
+};
+
+/**
+ * Keeps the indicator registry in step with the user's scripts. The returned version
+ * changes whenever calculators change or a script finishes running, so charts recalculate.
+ */
+export const useScriptIndicators = () => {
+  const { data: scripts } = useIndicatorScripts();
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => indicatorRegistry.subscribe(() => setVersion(v => v + 1)), []);
+
+  useEffect(() => {
+    if (scripts) syncScriptIndicators(scripts);
+  }, [scripts]);
+
+  return { scripts: scripts ?? [], version };
+};
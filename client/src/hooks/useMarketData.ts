@@ -1,5 +1,6 @@
 import { useQuery, useQueries } from '@tanstack/react-query';
 import apiClient from '../services/api';
+import { POPULAR_SYMBOLS } from '../utils/scanHelpers';
 import type { Asset, MarketHours } from '../types';
 
 // Hook to get asset details with latest price
@@ -85,10 +86,9 @@ export const useMarketHours = () => {
 // Mock function for top movers (backend doesn't have this endpoint yet)
 const getTopMovers = async () => {
   // In a real implementation, this would call the backend
-  // For now, we'll fetch some popular symbols and calculate movers
-  const popularSymbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'TSLA', 'META', 'NVDA', 'AMD'];
+  // For now, we rank the scanner's popular universe by % change
   const assets = await Promise.all(
-    popularSymbols.map(symbol => apiClient.getAsset(symbol).catch(() => null))
+    POPULAR_SYMBOLS.map(symbol => apiClient.getAsset(symbol).catch(() => null))
   );
 
   const validAssets = assets.filter((asset): asset is Asset => asset !== null);
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import type { OptionsApi } from '../services/api';
+import defaultOptionsApi from '../services/defaultOptionsApi';
+import type { OptionChain } from '../types';
+
+// Hook to get the expirations listed for an underlying; `api` lets demos and tests swap the source
+export const useOptionExpirations = (underlyingSymbol: string, api: OptionsApi = defaultOptionsApi) => {
+  return useQuery<string[]>({
+    queryKey: ['optionExpirations', underlyingSymbol],
+    queryFn: () => api.getOptionExpirations(underlyingSymbol),
+    enabled: !!underlyingSymbol,
+    staleTime: 60 * 60 * 1000, // Listings change once a day
+  });
+};
+
+// Hook to get one expiration's chain, with quotes and greeks refreshed while the panel is open
+export const useOptionChain = (
+  underlyingSymbol: string,
+  expirationDate: string | undefined,
+  api: OptionsApi = defaultOptionsApi
+) => {
+  return useQuery<OptionChain>({
+    queryKey: ['optionChain', underlyingSymbol, expirationDate],
+    queryFn: () => api.getOptionChain(underlyingSymbol, expirationDate ?? ''),
+    enabled: !!underlyingSymbol && !!expirationDate,
+    staleTime: 5 * 1000,
+    refetchInterval: 15 * 1000,
+    placeholderData: previous => previous?.underlyingSymbol === underlyingSymbol ? previous : undefined,
+  });
+};
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import defaultDepthFeed from '../services/defaultDepthFeed';
+import { OrderBook, type OrderBookState } from '../services/orderBook';
+import type { DepthFeed } from '../services/depthFeed';
+
+/**
+ * Live level 2 book for `symbol`. Deltas are applied as they arrive but the state
+ * is published at most once per frame; a sequence gap clears the book and asks
+ * the feed for a new snapshot.
+ */
+export const useOrderBook = (symbol: string | undefined, feed: DepthFeed = defaultDepthFeed) => {
+  const [book, setBook] = useState<OrderBookState | null>(null);
+  const [resyncing, setResyncing] = useState(false);
+
+  useEffect(() => {
+    setBook(null);
+    setResyncing(false);
+    if (!symbol) return;
+
+    const orderBook = new OrderBook(symbol);
+    let frame: number | null = null;
+
+    const publish = () => {
+      frame = null;
+      setBook(orderBook.isSynced ? orderBook.getState() : null);
+    };
+
+    const unsubscribe = feed.subscribe(symbol, (message) => {
+      if (!orderBook.apply(message)) {
+        console.warn(`⚠️ [useOrderBook] Sequence gap on ${orderBook.symbol} at ${message.sequence}, resyncing`);
+        setResyncing(true);
+        feed.resync(symbol);
+      } else if (message.type === 'snapshot') {
+        setResyncing(false);
+      }
+      if (frame === null) {
+        frame = requestAnimationFrame(publish);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [symbol, feed]);
+
+  return { book, resyncing };
+};
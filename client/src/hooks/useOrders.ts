@@ -1,23 +1,30 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import apiClient from '../services/api';
-import type { Order, OrderFormData } from '../types';
+import type { OrdersApi } from '../services/api';
+import defaultOrdersApi from '../services/defaultOrdersApi';
+import { buildOrderRequest } from '../utils/orderHelpers';
+import { TRADE_POLL_INTERVAL, useTradeUpdatesConnected } from './useTradeUpdates';
+import type { Order, OrderFormData, OrderReplaceRequest } from '../types';
+
+// The order hooks take an optional `api` so demos and tests can run against MockOrdersApi
 
 // Hook to get orders
-export const useOrders = (status?: string) => {
+export const useOrders = (status?: string, api: OrdersApi = defaultOrdersApi) => {
+  const streaming = useTradeUpdatesConnected();
+
   return useQuery<Order[]>({
     queryKey: ['orders', status],
-    queryFn: () => apiClient.getOrders(status),
+    queryFn: () => api.getOrders(status),
     staleTime: 10 * 1000, // Consider data fresh for 10 seconds
-    refetchInterval: 30 * 1000, // Refresh every 30 seconds
+    refetchInterval: streaming ? false : TRADE_POLL_INTERVAL, // Trade updates patch the cache; poll only while they're down
   });
 };
 
 // Hook to create a new order
-export const useCreateOrder = () => {
+export const useCreateOrder = (api: OrdersApi = defaultOrdersApi) => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (orderData: OrderFormData) => apiClient.createOrder(orderData),
+    mutationFn: (orderData: OrderFormData) => api.createOrder(buildOrderRequest(orderData)),
     onSuccess: () => {
       // Invalidate and refetch orders and positions
       queryClient.invalidateQueries({ queryKey: ['orders'] });
@@ -28,11 +35,11 @@ export const useCreateOrder = () => {
 };
 
 // Hook to cancel an order
-export const useCancelOrder = () => {
+export const useCancelOrder = (api: OrdersApi = defaultOrdersApi) => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (orderId: string) => apiClient.cancelOrder(orderId),
+    mutationFn: (orderId: string) => api.cancelOrder(orderId),
     onSuccess: () => {
       // Invalidate and refetch orders
       queryClient.invalidateQueries({ queryKey: ['orders'] });
@@ -40,6 +47,19 @@ export const useCancelOrder = () => {
   });
 };
 
+// Hook to amend a working order's price, quantity or time in force
+export const useReplaceOrder = (api: OrdersApi = defaultOrdersApi) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderId, changes }: { orderId: string; changes: OrderReplaceRequest }) =>
+      api.replaceOrder(orderId, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+};
+
 // Hook to get recent activity (orders and trades)
 export const useRecentActivity = () => {
   const { data: orders, isLoading, error } = useOrders();
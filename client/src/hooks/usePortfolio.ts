@@ -1,5 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
-import apiClient from '../services/api';
+import apiClient, { type PositionsApi } from '../services/api';
+import defaultPositionsApi from '../services/defaultPositionsApi';
+import { TRADE_POLL_INTERVAL, useTradeUpdatesConnected } from './useTradeUpdates';
 import type { Account, Position, PortfolioHistory } from '../types';
 
 // Hook to get account information
@@ -12,13 +14,15 @@ export const useAccount = () => {
   });
 };
 
-// Hook to get positions
-export const usePositions = () => {
+// Hook to get positions; `api` lets demos and tests use MockPositionsApi
+export const usePositions = (api: PositionsApi = defaultPositionsApi) => {
+  const streaming = useTradeUpdatesConnected();
+
   return useQuery<Position[]>({
     queryKey: ['positions'],
-    queryFn: () => apiClient.getPositions(),
+    queryFn: () => api.getPositions(),
     staleTime: 10 * 1000, // Consider data fresh for 10 seconds
-    refetchInterval: 30 * 1000, // Refresh every 30 seconds
+    refetchInterval: streaming ? false : TRADE_POLL_INTERVAL, // Fills arrive over trade updates; poll only while they're down
   });
 };
 
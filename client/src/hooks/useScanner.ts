@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '../services/api';
+import { defaultBarsHistory } from '../components/TradingChart/services/defaultBarsHistory';
+import { useQuotes } from '../store/marketDataStore';
+import { useWatchlists } from './useWatchlist';
+import {
+  buildScanRow,
+  getIndicatorKey,
+  getUniverseSymbols,
+  matchesScan,
+  type ScanSnapshot,
+} from '../utils/scanHelpers';
+import type { Scan, ScanInput, ScanRule } from '../types';
+
+// Reference data (market cap, daily bars) changes slowly; prices come from live quotes
+const SNAPSHOT_REFRESH = 5 * 60 * 1000;
+
+const loadScanSnapshots = async (symbols: string[]): Promise<Record<string, ScanSnapshot>> => {
+  const entries = await Promise.all(symbols.map(async symbol => {
+    const [asset, bars] = await Promise.allSettled([
+      apiClient.getAsset(symbol),
+      defaultBarsHistory.getHistory(symbol, '1y', '1d'),
+    ]);
+    const snapshot: ScanSnapshot = {
+      asset: asset.status === 'fulfilled' ? asset.value : undefined,
+      bars: bars.status === 'fulfilled' ? bars.value : [],
+    };
+    return [symbol, snapshot] as const;
+  }));
+  return Object.fromEntries(entries);
+};
+
+// Hook to get saved scans
+export const useScans = () => {
+  return useQuery<Scan[]>({
+    queryKey: ['scans'],
+    queryFn: () => apiClient.getScans(),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+// Hook to save a new scan
+export const useCreateScan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (scan: ScanInput) => apiClient.createScan(scan),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scans'] });
+    },
+  });
+};
+
+// Hook to overwrite a saved scan
+export const useUpdateScan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ scanId, updates }: { scanId: string; updates: Partial<ScanInput> }) =>
+      apiClient.updateScan(scanId, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scans'] });
+    },
+  });
+};
+
+// Hook to delete a saved scan
+export const useDeleteScan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (scanId: string) => apiClient.deleteScan(scanId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scans'] });
+    },
+  });
+};
+
+/**
+ * Runs a scan over its universe. Results update with every quote for the scanned
+ * symbols; market cap, average volume and indicator history refresh every few minutes.
+ */
+export const useScanResults = (scan: Pick<Scan, 'universe' | 'match' | 'rules'>) => {
+  const { data: watchlists } = useWatchlists();
+  const symbols = useMemo(() => getUniverseSymbols(scan.universe, watchlists), [scan.universe, watchlists]);
+  const quotes = useQuotes(symbols);
+
+  const snapshots = useQuery({
+    queryKey: ['scanSnapshots', symbols.join(',')],
+    queryFn: () => loadScanSnapshots(symbols),
+    enabled: symbols.length > 0,
+    staleTime: SNAPSHOT_REFRESH,
+    refetchInterval: SNAPSHOT_REFRESH,
+  });
+
+  const indicatorConfigs = useMemo(() => {
+    const configs = new Map<string, NonNullable<ScanRule['indicator']>>();
+    scan.rules.forEach(rule => {
+      if (rule.field === 'indicator' && rule.indicator) {
+        configs.set(getIndicatorKey(rule.indicator), rule.indicator);
+      }
+    });
+    return Array.from(configs.values());
+  }, [scan.rules]);
+
+  const rows = useMemo(
+    () => symbols.map(symbol => buildScanRow(symbol, snapshots.data?.[symbol], quotes[symbol], indicatorConfigs)),
+    [symbols, snapshots.data, quotes, indicatorConfigs]
+  );
+
+  const results = useMemo(() => rows.filter(row => matchesScan(scan, row)), [rows, scan]);
+
+  return {
+    results,
+    scannedCount: symbols.length,
+    indicatorConfigs,
+    isLoading: snapshots.isLoading,
+    error: snapshots.error,
+  };
+};
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import defaultTapeFeed from '../services/defaultTapeFeed';
+import { TapeBuffer, type TapePrint, type TradePrint } from '../services/timeSales';
+import { useQuote } from '../store/marketDataStore';
+import type { TapeFeed } from '../services/tapeFeed';
+
+/**
+ * Live time & sales for `symbol`, newest first. Prints are buffered and folded
+ * into the tape at most once per frame, however fast they arrive; the latest
+ * quote classifies prints that don't carry their own NBBO.
+ */
+export const useTimeAndSales = (symbol: string | undefined, feed: TapeFeed = defaultTapeFeed, capacity = 5000) => {
+  const [buffer] = useState(() => new TapeBuffer(capacity));
+  const [prints, setPrints] = useState<TapePrint[]>([]);
+  const quote = useQuote(symbol);
+  const quoteRef = useRef(quote);
+
+  useEffect(() => {
+    quoteRef.current = quote;
+  }, [quote]);
+
+  useEffect(() => {
+    buffer.clear();
+    setPrints(buffer.toArray());
+    if (!symbol) return;
+
+    let pending: TradePrint[] = [];
+    let frame: number | null = null;
+
+    const flush = () => {
+      frame = null;
+      buffer.push(pending, quoteRef.current);
+      pending = [];
+      setPrints(buffer.toArray());
+    };
+
+    const unsubscribe = feed.subscribe(symbol, (prints) => {
+      pending = pending.concat(prints);
+      if (frame === null) {
+        frame = requestAnimationFrame(flush);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [symbol, feed, buffer]);
+
+  return prints;
+};
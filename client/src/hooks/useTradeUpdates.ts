@@ -0,0 +1,62 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import tradeUpdatesService from '../services/tradeUpdatesService';
+import useToastStore from '../store/toastStore';
+import {
+  applyFillToAccount,
+  applyFillToPositions,
+  describeTradeUpdate,
+  isFillEvent,
+  upsertOrder,
+} from '../utils/tradeUpdateHelpers';
+import type { Account, Order, Position } from '../types';
+
+// Polling interval for orders and positions while the trade updates stream is down
+export const TRADE_POLL_INTERVAL = 30 * 1000;
+
+const subscribeToStatus = (onChange: () => void) => tradeUpdatesService.onConnectionStatusChange(onChange);
+const getConnected = () => tradeUpdatesService.getConnectionStatus().connected;
+
+// Whether order and fill events are arriving over the stream; polling hooks back off while they are
+export const useTradeUpdatesConnected = () => useSyncExternalStore(subscribeToStatus, getConnected);
+
+/**
+ * Applies trade updates to the `orders`, `positions` and `account` caches and raises
+ * fill toasts. Mount once, high in the tree, next to the alert monitor.
+ */
+export const useTradeUpdatesMonitor = () => {
+  const queryClient = useQueryClient();
+  const showToast = useToastStore(state => state.showToast);
+  const connected = useTradeUpdatesConnected();
+
+  useEffect(() => {
+    return tradeUpdatesService.subscribe((update) => {
+      // Every `useOrders(status)` list has its own cache entry
+      queryClient.getQueryCache().findAll({ queryKey: ['orders'] }).forEach(query => {
+        const status = query.queryKey[1] as string | undefined;
+        queryClient.setQueryData<Order[]>(query.queryKey, orders => orders && upsertOrder(orders, update.order, status));
+      });
+
+      if (isFillEvent(update)) {
+        queryClient.setQueryData<Position[]>(['positions'], positions => positions && applyFillToPositions(positions, update));
+        queryClient.setQueryData<Account>(['account'], account => account && applyFillToAccount(account, update));
+        // Pick up cost basis, P&L and buying power from the backend
+        queryClient.invalidateQueries({ queryKey: ['positions'] });
+        queryClient.invalidateQueries({ queryKey: ['account'] });
+      }
+
+      const toast = describeTradeUpdate(update);
+      if (toast) {
+        showToast({ ...toast, duration: toast.variant === 'error' ? undefined : 5000 });
+      }
+    });
+  }, [queryClient, showToast]);
+
+  // Events sent while the stream was down are gone; catch up once it is back
+  useEffect(() => {
+    if (!connected) return;
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+    queryClient.invalidateQueries({ queryKey: ['positions'] });
+    queryClient.invalidateQueries({ queryKey: ['account'] });
+  }, [connected, queryClient]);
+};
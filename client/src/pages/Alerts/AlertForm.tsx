@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import type { IndicatorAlertConfig, IndicatorParameters, PriceAlert, PriceAlertCondition, PriceAlertInput } from '../../types';
+import { getConditionLabel } from '../../services/alertEngine';
+import { indicatorRegistry } from '../../components/TradingChart/indicators';
+import styles from './AlertsPage.module.css';
+
+interface AlertFormProps {
+  alert?: PriceAlert; // editing when set
+  defaultSymbol?: string;
+  isSubmitting?: boolean;
+  onSubmit: (input: PriceAlertInput) => void;
+  onCancel: () => void;
+}
+
+const CONDITIONS: PriceAlertCondition[] = [
+  'above',
+  'below',
+  'crosses_above',
+  'crosses_below',
+  'crosses',
+  'percent_change',
+  'indicator',
+];
+
+// The chart's indicators; alerts compare the first line to a level
+const INDICATORS = indicatorRegistry.getIndicators();
+
+// Default period, if the indicator has one, and the overbought level for oscillators
+const getIndicatorDefaults = (id: string): { period?: number; value: number } => {
+  const defaults = indicatorRegistry.getIndicator(id)?.defaultParameters ?? {};
+  return {
+    period: typeof defaults.period === 'number' ? defaults.period : undefined,
+    value: typeof defaults.overbought === 'number' ? defaults.overbought : 0,
+  };
+};
+
+const INTERVALS: IndicatorAlertConfig['interval'][] = ['1m', '5m', '15m', '30m', '1h', '4h', '1d', '1w'];
+
+const AlertForm: React.FC<AlertFormProps> = ({ alert, defaultSymbol = '', isSubmitting, onSubmit, onCancel }) => {
+  const [symbol, setSymbol] = useState(alert?.symbol ?? defaultSymbol);
+  const [condition, setCondition] = useState<PriceAlertCondition>(alert?.condition ?? 'above');
+  const [price, setPrice] = useState(alert?.price ? String(alert.price) : '');
+  const [percentChange, setPercentChange] = useState(alert?.percentChange !== undefined ? String(alert.percentChange) : '5');
+  const [indicator, setIndicator] = useState(alert?.indicator?.indicator ?? 'rsi');
+  const [indicatorPeriod, setIndicatorPeriod] = useState(String(alert?.indicator?.parameters?.period ?? 14));
+  const [indicatorInterval, setIndicatorInterval] = useState<IndicatorAlertConfig['interval']>(alert?.indicator?.interval ?? '1d');
+  const [indicatorOperator, setIndicatorOperator] = useState<'above' | 'below'>(alert?.indicator?.operator ?? 'above');
+  const [indicatorValue, setIndicatorValue] = useState(String(alert?.indicator?.value ?? 70));
+  const [repeat, setRepeat] = useState(alert?.repeat ?? false);
+  const [note, setNote] = useState(alert?.note ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const indicatorDefaults = getIndicatorDefaults(indicator);
+  const usesPrice = !['percent_change', 'indicator'].includes(condition);
+  // Alerts created from a chart trendline keep following it; move the line to change the level
+  const followsTrendline = usesPrice && !!alert?.trendline;
+
+  const handleIndicatorChange = (id: string) => {
+    setIndicator(id);
+    const defaults = getIndicatorDefaults(id);
+    setIndicatorPeriod(String(defaults.period ?? ''));
+    setIndicatorValue(String(defaults.value));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const normalizedSymbol = symbol.trim().toUpperCase();
+    if (!/^[A-Z]{1,5}(\.[A-Z])?$/.test(normalizedSymbol)) {
+      setError('Enter a valid symbol');
+      return;
+    }
+
+    const input: PriceAlertInput = {
+      symbol: normalizedSymbol,
+      condition,
+      price: 0,
+      repeat,
+      note: note.trim() || undefined,
+      isActive: alert?.isActive ?? true,
+      trendline: undefined,
+      drawingId: alert?.drawingId,
+    };
+
+    if (followsTrendline && alert) {
+      input.price = alert.price;
+      input.trendline = alert.trendline;
+    } else if (usesPrice) {
+      const value = parseFloat(price);
+      if (!(value > 0)) {
+        setError('Enter a price greater than 0');
+        return;
+      }
+      input.price = value;
+    } else if (condition === 'percent_change') {
+      const value = parseFloat(percentChange);
+      if (!Number.isFinite(value) || value === 0) {
+        setError('Enter a non-zero percent change, negative for drops');
+        return;
+      }
+      input.percentChange = value;
+    } else {
+      const value = parseFloat(indicatorValue);
+      const period = parseInt(indicatorPeriod, 10);
+      if (!Number.isFinite(value)) {
+        setError('Enter an indicator level');
+        return;
+      }
+      if (indicatorDefaults.period !== undefined && !(period > 0)) {
+        setError('Enter an indicator period greater than 0');
+        return;
+      }
+      const parameters: IndicatorParameters = indicatorDefaults.period !== undefined ? { period } : {};
+      const calculator = indicatorRegistry.getIndicator(indicator);
+      if (calculator && !calculator.validateParameters({ ...calculator.defaultParameters, ...parameters })) {
+        setError(`That period isn't supported for ${calculator.name}`);
+        return;
+      }
+      input.indicator = {
+        indicator,
+        parameters,
+        interval: indicatorInterval,
+        operator: indicatorOperator,
+        value,
+      };
+    }
+
+    onSubmit(input);
+  };
+
+  return (
+    <form className={styles.alertForm} onSubmit={handleSubmit}>
+      <h3 className={styles.formTitle}>{alert ? `Edit ${alert.symbol} alert` : 'New alert'}</h3>
+
+      <div className={styles.formGrid}>
+        <label className={styles.field}>
+          <span className={styles.label}>Symbol</span>
+          <input
+            className={styles.input}
+            value={symbol}
+            onChange={e => setSymbol(e.target.value.toUpperCase())}
+            placeholder="AAPL"
+            disabled={!!alert}
+            autoFocus={!alert}
+          />
+        </label>
+
+        <label className={styles.field}>
+          <span className={styles.label}>Condition</span>
+          <select
+            className={styles.input}
+            value={condition}
+            onChange={e => setCondition(e.target.value as PriceAlertCondition)}
+          >
+            {CONDITIONS.map(c => (
+              <option key={c} value={c}>
+                {c === 'percent_change' ? 'Percent change' : getConditionLabel(c)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {followsTrendline && (
+          <div className={styles.field}>
+            <span className={styles.label}>Level</span>
+            <span className={styles.hint}>Follows the trendline drawn on the {alert?.symbol} chart</span>
+          </div>
+        )}
+
+        {usesPrice && !followsTrendline && (
+          <label className={styles.field}>
+            <span className={styles.label}>Price</span>
+            <input
+              className={styles.input}
+              type="number"
+              step="0.01"
+              min="0"
+              value={price}
+              onChange={e => setPrice(e.target.value)}
+              placeholder="0.00"
+            />
+          </label>
+        )}
+
+        {condition === 'percent_change' && (
+          <label className={styles.field}>
+            <span className={styles.label}>Change from previous close (%)</span>
+            <input
+              className={styles.input}
+              type="number"
+              step="0.1"
+              value={percentChange}
+              onChange={e => setPercentChange(e.target.value)}
+            />
+          </label>
+        )}
+
+        {condition === 'indicator' && (
+          <>
+            <label className={styles.field}>
+              <span className={styles.label}>Indicator</span>
+              <select className={styles.input} value={indicator} onChange={e => handleIndicatorChange(e.target.value)}>
+                {INDICATORS.map(i => (
+                  <option key={i.id} value={i.id}>{i.name}</option>
+                ))}
+              </select>
+            </label>
+
+            {indicatorDefaults.period !== undefined && (
+              <label className={styles.field}>
+                <span className={styles.label}>Period</span>
+                <input
+                  className={styles.input}
+                  type="number"
+                  min="1"
+                  value={indicatorPeriod}
+                  onChange={e => setIndicatorPeriod(e.target.value)}
+                />
+              </label>
+            )}
+
+            <label className={styles.field}>
+              <span className={styles.label}>Interval</span>
+              <select
+                className={styles.input}
+                value={indicatorInterval}
+                onChange={e => setIndicatorInterval(e.target.value as IndicatorAlertConfig['interval'])}
+              >
+                {INTERVALS.map(i => (
+                  <option key={i} value={i}>{i}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.field}>
+              <span className={styles.label}>When value is</span>
+              <div className={styles.inlineInputs}>
+                <select
+                  className={styles.input}
+                  value={indicatorOperator}
+                  onChange={e => setIndicatorOperator(e.target.value as 'above' | 'below')}
+                >
+                  <option value="above">Above</option>
+                  <option value="below">Below</option>
+                </select>
+                <input
+                  className={styles.input}
+                  type="number"
+                  step="any"
+                  value={indicatorValue}
+                  onChange={e => setIndicatorValue(e.target.value)}
+                />
+              </div>
+            </label>
+          </>
+        )}
+
+        <label className={`${styles.field} ${styles.fieldWide}`}>
+          <span className={styles.label}>Note</span>
+          <input
+            className={styles.input}
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Optional"
+            maxLength={200}
+          />
+        </label>
+      </div>
+
+      <label className={styles.checkbox}>
+        <input type="checkbox" checked={repeat} onChange={e => setRepeat(e.target.checked)} />
+        Keep the alert active after it triggers
+      </label>
+
+      {error && <div className={styles.formError}>{error}</div>}
+
+      <div className={styles.formActions}>
+        <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className={styles.primaryButton} disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : alert ? 'Save Changes' : 'Create Alert'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AlertForm;
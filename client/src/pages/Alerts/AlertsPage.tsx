@@ -1,13 +1,296 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  usePriceAlerts,
+  useCreatePriceAlert,
+  useUpdatePriceAlert,
+  useDeletePriceAlert,
+} from '../../hooks';
+import { useQuotes } from '../../store/marketDataStore';
+import { describeAlertCondition } from '../../services/alertEngine';
+import { getNotificationPermission, requestNotificationPermission } from '../../utils/notifications';
+import ConfirmModal from '../../components/Common/ConfirmModal';
+import useToastStore from '../../store/toastStore';
+import type { PriceAlert, PriceAlertInput } from '../../types';
+import AlertForm from './AlertForm';
 import styles from './AlertsPage.module.css';
 
+type AlertsTab = 'active' | 'paused' | 'history';
+
+const formatCurrency = (value: number | undefined) => {
+  if (value === undefined) return '—';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+};
+
+const formatDate = (dateStr: string | undefined) => {
+  if (!dateStr) return '—';
+  return new Date(dateStr).toLocaleString();
+};
+
 const AlertsPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { data: alerts = [], isLoading, error } = usePriceAlerts();
+  const createAlert = useCreatePriceAlert();
+  const updateAlert = useUpdatePriceAlert();
+  const deleteAlert = useDeletePriceAlert();
+  const showToast = useToastStore(state => state.showToast);
+
+  const [activeTab, setActiveTab] = useState<AlertsTab>('active');
+  const [showForm, setShowForm] = useState(false);
+  const [editingAlert, setEditingAlert] = useState<PriceAlert | null>(null);
+  const [alertToDelete, setAlertToDelete] = useState<PriceAlert | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState(getNotificationPermission());
+
+  const activeAlerts = alerts.filter(a => a.isActive);
+  const pausedAlerts = alerts.filter(a => !a.isActive);
+  const history = useMemo(() => alerts
+    .flatMap(alert => (alert.triggerHistory ?? []).map(trigger => ({ alert, trigger })))
+    .sort((a, b) => new Date(b.trigger.triggeredAt).getTime() - new Date(a.trigger.triggeredAt).getTime()),
+  [alerts]);
+
+  const symbols = useMemo(() => Array.from(new Set(alerts.map(a => a.symbol))), [alerts]);
+  const quotes = useQuotes(symbols);
+
+  const openCreateForm = () => {
+    setEditingAlert(null);
+    setShowForm(true);
+  };
+
+  const openEditForm = (alert: PriceAlert) => {
+    setEditingAlert(alert);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingAlert(null);
+    setShowForm(false);
+  };
+
+  const handleSubmit = (input: PriceAlertInput) => {
+    const onError = (err: unknown) => {
+      console.error('❌ [AlertsPage] Failed to save alert:', err);
+      showToast({ title: 'Could not save alert', message: 'Please try again.', variant: 'error' });
+    };
+
+    if (editingAlert) {
+      updateAlert.mutate(
+        // Editing re-enables an alert so the new condition is watched
+        { alertId: editingAlert.id, updates: { ...input, isActive: true } },
+        {
+          onSuccess: () => {
+            showToast({ title: `${input.symbol} alert updated`, variant: 'success', duration: 3000 });
+            closeForm();
+          },
+          onError,
+        }
+      );
+    } else {
+      createAlert.mutate(input, {
+        onSuccess: () => {
+          showToast({ title: `${input.symbol} alert created`, variant: 'success', duration: 3000 });
+          closeForm();
+          setActiveTab('active');
+        },
+        onError,
+      });
+    }
+  };
+
+  const handleToggleActive = (alert: PriceAlert) => {
+    updateAlert.mutate({ alertId: alert.id, updates: { isActive: !alert.isActive } });
+  };
+
+  const handleConfirmDelete = () => {
+    if (alertToDelete) {
+      deleteAlert.mutate(alertToDelete.id);
+    }
+    setAlertToDelete(null);
+  };
+
+  const handleEnableNotifications = async () => {
+    setNotificationPermission(await requestNotificationPermission());
+  };
+
+  const renderAlertRows = (rows: PriceAlert[]) => (
+    <div className={styles.alertsTable}>
+      <div className={styles.tableHeader}>
+        <div className={styles.headerCell}>Symbol</div>
+        <div className={styles.headerCell}>Condition</div>
+        <div className={styles.headerCell}>Last Price</div>
+        <div className={styles.headerCell}>Created</div>
+        <div className={styles.headerCell}>Last Triggered</div>
+        <div className={styles.headerCell}>Actions</div>
+      </div>
+      {rows.map(alert => (
+        <div key={alert.id} className={styles.alertRow}>
+          <div className={styles.cell}>
+            <span className={styles.symbol}>{alert.symbol}</span>
+            {alert.repeat && <span className={styles.badge}>Repeats</span>}
+          </div>
+          <div className={styles.cell}>
+            {describeAlertCondition(alert)}
+            {alert.note && <span className={styles.note}>{alert.note}</span>}
+          </div>
+          <div className={styles.cell}>{formatCurrency(quotes[alert.symbol]?.price)}</div>
+          <div className={styles.cell}>{formatDate(alert.createdAt)}</div>
+          <div className={styles.cell}>{formatDate(alert.triggeredAt)}</div>
+          <div className={`${styles.cell} ${styles.actions}`}>
+            <button className={styles.actionButton} onClick={() => openEditForm(alert)}>
+              Edit
+            </button>
+            <button className={styles.actionButton} onClick={() => handleToggleActive(alert)}>
+              {alert.isActive ? 'Pause' : 'Resume'}
+            </button>
+            <button
+              className={`${styles.actionButton} ${styles.danger}`}
+              onClick={() => setAlertToDelete(alert)}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className={styles.alerts}>
+        <div className={styles.loadingContainer}>
+          <div className={styles.spinner} />
+          <p>Loading alerts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={styles.alerts}>
+        <div className={styles.error}>
+          <h2>Unable to load alerts</h2>
+          <p>Please check your connection and try again.</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={styles.alerts}>
-      <h1>Price Alerts</h1>
-      <p>Price alerts management coming soon...</p>
+      <div className={styles.header}>
+        <div>
+          <h1>Price Alerts</h1>
+          <p className={styles.subtitle}>
+            Alerts are checked against live quotes while HingeTrade is open.
+          </p>
+        </div>
+        <div className={styles.headerActions}>
+          {notificationPermission === 'default' && (
+            <button className={styles.secondaryButton} onClick={handleEnableNotifications}>
+              Enable Browser Notifications
+            </button>
+          )}
+          <button className={styles.primaryButton} onClick={openCreateForm}>
+            New Alert
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <AlertForm
+          key={editingAlert?.id ?? 'new'}
+          alert={editingAlert ?? undefined}
+          defaultSymbol={searchParams.get('symbol')?.toUpperCase() ?? ''}
+          isSubmitting={createAlert.isPending || updateAlert.isPending}
+          onSubmit={handleSubmit}
+          onCancel={closeForm}
+        />
+      )}
+
+      <div className={styles.tabs}>
+        <button
+          className={`${styles.tab} ${activeTab === 'active' ? styles.active : ''}`}
+          onClick={() => setActiveTab('active')}
+        >
+          Active ({activeAlerts.length})
+        </button>
+        <button
+          className={`${styles.tab} ${activeTab === 'paused' ? styles.active : ''}`}
+          onClick={() => setActiveTab('paused')}
+        >
+          Paused ({pausedAlerts.length})
+        </button>
+        <button
+          className={`${styles.tab} ${activeTab === 'history' ? styles.active : ''}`}
+          onClick={() => setActiveTab('history')}
+        >
+          Trigger History
+        </button>
+      </div>
+
+      <div className={styles.content}>
+        {activeTab === 'active' && (
+          activeAlerts.length === 0 ? (
+            <div className={styles.emptyState}>
+              <h3>No active alerts</h3>
+              <p>Create an alert to be notified when a price or indicator reaches your level.</p>
+            </div>
+          ) : renderAlertRows(activeAlerts)
+        )}
+
+        {activeTab === 'paused' && (
+          pausedAlerts.length === 0 ? (
+            <div className={styles.emptyState}>
+              <h3>No paused alerts</h3>
+              <p>One-time alerts move here after they trigger.</p>
+            </div>
+          ) : renderAlertRows(pausedAlerts)
+        )}
+
+        {activeTab === 'history' && (
+          history.length === 0 ? (
+            <div className={styles.emptyState}>
+              <h3>No triggers yet</h3>
+              <p>Triggered alerts will appear here.</p>
+            </div>
+          ) : (
+            <div className={styles.alertsTable}>
+              <div className={`${styles.tableHeader} ${styles.historyGrid}`}>
+                <div className={styles.headerCell}>Symbol</div>
+                <div className={styles.headerCell}>Condition</div>
+                <div className={styles.headerCell}>Price</div>
+                <div className={styles.headerCell}>Value</div>
+                <div className={styles.headerCell}>Triggered</div>
+              </div>
+              {history.map(({ alert, trigger }) => (
+                <div key={`${alert.id}-${trigger.triggeredAt}`} className={`${styles.alertRow} ${styles.historyGrid}`}>
+                  <div className={styles.cell}>
+                    <span className={styles.symbol}>{alert.symbol}</span>
+                  </div>
+                  <div className={styles.cell}>{describeAlertCondition(alert)}</div>
+                  <div className={styles.cell}>{formatCurrency(trigger.price)}</div>
+                  <div className={styles.cell}>
+                    {trigger.value !== undefined ? trigger.value.toFixed(2) : '—'}
+                  </div>
+                  <div className={styles.cell}>{formatDate(trigger.triggeredAt)}</div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={!!alertToDelete}
+        title="Delete Alert"
+        message={alertToDelete ? `Delete the ${alertToDelete.symbol} alert "${describeAlertCondition(alertToDelete)}"?` : ''}
+        confirmText="Delete"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setAlertToDelete(null)}
+        variant="danger"
+      />
     </div>
   );
 };
 
-export default AlertsPage;
\ No newline at end of file
+export default AlertsPage;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { Link, useNavigate, useLocation, type Location } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import styles from './AuthPages.module.css';
 
@@ -13,7 +13,8 @@ const LoginPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const from = location.state?.from?.pathname || '/dashboard';
+  // Keep the query and fragment too; shared chart links carry the chart in the fragment
+  const from = (location.state?.from as Location | undefined) ?? '/dashboard';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -166,7 +166,11 @@ const DashboardPage: React.FC = () => {
       'portfolio': 'Portfolio',
       'market-overview': 'Market Overview',
       'recent-activity': 'Recent Activity',
-      'video': 'Video Feed'
+      'video': 'Video Feed',
+      'depth': 'Depth',
+      'time-sales': 'Time & Sales',
+      'scanner': 'Scanner',
+      'options': 'Options Chain'
     };
     
     const newPanel: Panel = {
@@ -271,6 +275,10 @@ const DashboardPage: React.FC = () => {
               <option value="quote">Quote</option>
               <option value="trade">Trade</option>
               <option value="orders">Orders</option>
+              <option value="depth">Depth</option>
+              <option value="time-sales">Time &amp; Sales</option>
+              <option value="scanner">Scanner</option>
+              <option value="options">Options Chain</option>
               <option value="positions">Positions</option>
               <option value="account">Account</option>
               <option value="portfolio">Portfolio</option>
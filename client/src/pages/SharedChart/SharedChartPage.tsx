@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import TradingChartWithData from '../../components/TradingChart/TradingChartWithData';
+import { parseSharedChartLink, type SharedChart } from '../../components/TradingChart/services/chartShare';
+import styles from './SharedChartPage.module.css';
+
+// A chart someone shared with a link, shown read-only; the chart state is in the URL fragment
+const SharedChartPage: React.FC = () => {
+  const { hash } = useLocation();
+  const [chart, setChart] = useState<SharedChart | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChart(null);
+    setError(null);
+
+    parseSharedChartLink(hash)
+      .then(parsed => {
+        if (!cancelled) setChart(parsed);
+      })
+      .catch((err: Error) => {
+        console.error('❌ [SharedChartPage] Failed to open shared chart:', err);
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  if (error) {
+    return (
+      <div className={styles.sharedChart}>
+        <div className={styles.error}>
+          <h2>Unable to open this chart</h2>
+          <p>{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!chart) {
+    return (
+      <div className={styles.sharedChart}>
+        <div className={styles.loadingContainer}>
+          <p>Opening shared chart...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.sharedChart}>
+      <div className={styles.chart}>
+        <TradingChartWithData
+          key={hash}
+          id="shared-chart"
+          config={{ type: 'chart', symbol: chart.symbol }}
+          symbol={chart.symbol}
+          sharedChart={chart}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SharedChartPage;
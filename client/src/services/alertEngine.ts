@@ -0,0 +1,347 @@
+import useMarketDataStore, { type Quote } from '../store/marketDataStore';
+import type { IndicatorAlertConfig, PriceAlert, PriceAlertTrigger } from '../types';
+import { indicatorRegistry, type IndicatorResult, type OHLCData } from '../components/TradingChart/indicators';
+import {
+  applyTicks,
+  findFirstChangedBar,
+  getTradingSession,
+  isInSession,
+} from '../components/TradingChart/services/BarAggregator';
+import { defaultBarsHistory } from '../components/TradingChart/services/defaultBarsHistory';
+import { getTrendlineValueAt } from '../components/TradingChart/DrawingTools/drawingAlerts';
+import type { ChartPeriod } from '../components/TradingChart/utils/timeframes';
+
+export interface AlertTriggerEvent {
+  alert: PriceAlert;
+  trigger: PriceAlertTrigger;
+  message: string;
+}
+
+export type AlertTriggerCallback = (event: AlertTriggerEvent) => void;
+
+interface ConditionResult {
+  met: boolean;
+  value?: number;
+}
+
+interface IndicatorSeries {
+  data: OHLCData[];
+  ready: boolean;
+}
+
+// How much history to load per interval so indicators are warmed up
+const HISTORY_PERIOD: Record<IndicatorAlertConfig['interval'], ChartPeriod> = {
+  '1m': '5d',
+  '5m': '5d',
+  '15m': '5d',
+  '30m': '1mo',
+  '1h': '3mo',
+  '4h': '3mo',
+  '1d': '1y',
+  '1w': '2y',
+};
+
+const CONDITION_LABELS: Record<PriceAlert['condition'], string> = {
+  above: 'Price above',
+  below: 'Price below',
+  crosses_above: 'Crosses above',
+  crosses_below: 'Crosses below',
+  crosses: 'Crosses',
+  percent_change: 'Moves',
+  indicator: 'Indicator',
+};
+
+export function getConditionLabel(condition: PriceAlert['condition']): string {
+  return CONDITION_LABELS[condition] ?? condition;
+}
+
+const formatPrice = (value: number) => `$${value.toFixed(2)}`;
+
+export function describeAlertCondition(alert: PriceAlert): string {
+  switch (alert.condition) {
+    case 'percent_change': {
+      const percent = alert.percentChange ?? 0;
+      return `${percent >= 0 ? 'Up' : 'Down'} ${Math.abs(percent)}% on the day`;
+    }
+    case 'indicator': {
+      const config = alert.indicator;
+      if (!config) return 'Indicator condition';
+      return `${indicatorRegistry.describe(config)} (${config.interval}) ${config.operator === 'above' ? '>' : '<'} ${config.value}`;
+    }
+    default:
+      if (alert.trendline) {
+        return `${getConditionLabel(alert.condition)} trendline (now ${formatPrice(getAlertLevel(alert, new Date()))})`;
+      }
+      return `${getConditionLabel(alert.condition)} ${formatPrice(alert.price)}`;
+  }
+}
+
+// Price level for price conditions; trendline alerts move with time
+export function getAlertLevel(alert: PriceAlert, at: Date): number {
+  return alert.trendline ? getTrendlineValueAt(alert.trendline, at.getTime()) : alert.price;
+}
+
+// Percent move from the previous close, falling back to the change the quote carries
+export function getPercentChange(quote: Quote): number {
+  if (quote.previousClose) {
+    return ((quote.price - quote.previousClose) / quote.previousClose) * 100;
+  }
+  return quote.changePercent;
+}
+
+/**
+ * Whether an alert's condition holds for the latest price.
+ * Crossings need the previous price; indicator alerts need the indicator's latest value.
+ */
+export function evaluateCondition(
+  alert: PriceAlert,
+  quote: Quote,
+  previousPrice: number | undefined,
+  indicatorValue?: number | null
+): ConditionResult {
+  const price = quote.price;
+  const level = getAlertLevel(alert, quote.timestamp instanceof Date ? quote.timestamp : new Date(quote.timestamp));
+
+  switch (alert.condition) {
+    case 'above':
+      return { met: price >= level };
+    case 'below':
+      return { met: price <= level };
+    case 'crosses_above':
+      return { met: previousPrice !== undefined && previousPrice < level && price >= level };
+    case 'crosses_below':
+      return { met: previousPrice !== undefined && previousPrice > level && price <= level };
+    case 'crosses':
+      return {
+        met: previousPrice !== undefined &&
+          ((previousPrice < level && price >= level) || (previousPrice > level && price <= level)),
+      };
+    case 'percent_change': {
+      const target = alert.percentChange ?? 0;
+      const change = getPercentChange(quote);
+      return { met: target >= 0 ? change >= target : change <= target, value: change };
+    }
+    case 'indicator': {
+      if (!alert.indicator || indicatorValue === null || indicatorValue === undefined) {
+        return { met: false };
+      }
+      const { operator, value } = alert.indicator;
+      return {
+        met: operator === 'above' ? indicatorValue > value : indicatorValue < value,
+        value: indicatorValue,
+      };
+    }
+    default:
+      return { met: false };
+  }
+}
+
+/**
+ * Evaluates active price alerts against streaming quotes from the market data store.
+ *
+ * Level conditions (above/below/percent/indicator) fire when they become true and
+ * re-arm once they stop holding, so a repeating alert doesn't fire on every tick.
+ */
+export class AlertEngine {
+  private alerts = new Map<string, PriceAlert>();
+  private armed = new Map<string, boolean>();
+  private lastPrices = new Map<string, number>();
+  private subscribedSymbols = new Set<string>();
+  private indicatorSeries = new Map<string, IndicatorSeries>();
+  private indicatorResults = new Map<string, { data: OHLCData[]; result: IndicatorResult }>();
+  private callbacks = new Set<AlertTriggerCallback>();
+  private unsubscribeQuotes: (() => void) | null = null;
+
+  setAlerts(alerts: PriceAlert[]): void {
+    this.alerts = new Map(alerts.filter(a => a.isActive).map(a => [a.id, a]));
+
+    // Forget arming state for alerts that were removed, paused or edited
+    const keys = new Set(Array.from(this.alerts.values()).map(a => this.getArmKey(a)));
+    Array.from(this.armed.keys())
+      .filter(key => !keys.has(key))
+      .forEach(key => this.armed.delete(key));
+
+    Array.from(this.indicatorResults.keys())
+      .filter(key => !keys.has(key))
+      .forEach(key => this.indicatorResults.delete(key));
+
+    this.syncSubscriptions();
+    this.syncIndicatorSeries();
+  }
+
+  onTrigger(callback: AlertTriggerCallback): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  stop(): void {
+    this.setAlerts([]);
+  }
+
+  // Changes whenever the condition is edited, which re-arms the alert
+  private getArmKey(alert: PriceAlert): string {
+    const { id, condition, price, percentChange, indicator, trendline } = alert;
+    return JSON.stringify([id, condition, price, percentChange, indicator, trendline]);
+  }
+
+  private getSeriesKey(symbol: string, interval: IndicatorAlertConfig['interval']): string {
+    return `${symbol}:${interval}`;
+  }
+
+  private syncSubscriptions(): void {
+    const store = useMarketDataStore.getState();
+    const wanted = new Set(Array.from(this.alerts.values()).map(a => a.symbol.toUpperCase()));
+
+    wanted.forEach(symbol => {
+      if (!this.subscribedSymbols.has(symbol)) {
+        this.subscribedSymbols.add(symbol);
+        store.subscribe(symbol);
+      }
+    });
+
+    Array.from(this.subscribedSymbols).forEach(symbol => {
+      if (!wanted.has(symbol)) {
+        this.subscribedSymbols.delete(symbol);
+        this.lastPrices.delete(symbol);
+        store.unsubscribe(symbol);
+      }
+    });
+
+    if (this.subscribedSymbols.size > 0 && !this.unsubscribeQuotes) {
+      this.unsubscribeQuotes = useMarketDataStore.subscribe(
+        state => state.quotes,
+        (quotes, previousQuotes) => {
+          this.subscribedSymbols.forEach(symbol => {
+            const quote = quotes.get(symbol);
+            if (quote && quote !== previousQuotes.get(symbol)) {
+              this.handleQuote(quote);
+            }
+          });
+        }
+      );
+    } else if (this.subscribedSymbols.size === 0 && this.unsubscribeQuotes) {
+      this.unsubscribeQuotes();
+      this.unsubscribeQuotes = null;
+    }
+  }
+
+  private syncIndicatorSeries(): void {
+    const wanted = new Map<string, { symbol: string; interval: IndicatorAlertConfig['interval'] }>();
+    this.alerts.forEach(alert => {
+      if (alert.condition === 'indicator' && alert.indicator) {
+        const symbol = alert.symbol.toUpperCase();
+        wanted.set(this.getSeriesKey(symbol, alert.indicator.interval), { symbol, interval: alert.indicator.interval });
+      }
+    });
+
+    Array.from(this.indicatorSeries.keys())
+      .filter(key => !wanted.has(key))
+      .forEach(key => this.indicatorSeries.delete(key));
+
+    wanted.forEach(({ symbol, interval }, key) => {
+      if (this.indicatorSeries.has(key)) return;
+
+      const series: IndicatorSeries = { data: [], ready: false };
+      this.indicatorSeries.set(key, series);
+
+      defaultBarsHistory.getHistory(symbol, HISTORY_PERIOD[interval], interval)
+        .then(data => {
+          // Keep any bars live ticks already built on top of the history
+          const lastHistorical = data[data.length - 1]?.timestamp.getTime() ?? -Infinity;
+          series.data = [...data, ...series.data.filter(d => d.timestamp.getTime() > lastHistorical)];
+          series.ready = true;
+        })
+        .catch(error => {
+          console.error(`❌ [AlertEngine] Failed to load ${interval} history for ${symbol}:`, error);
+          this.indicatorSeries.delete(key);
+        });
+    });
+  }
+
+  private getIndicatorValue(alert: PriceAlert): number | null {
+    const config = alert.indicator;
+    if (!config) return null;
+
+    const series = this.indicatorSeries.get(this.getSeriesKey(alert.symbol.toUpperCase(), config.interval));
+    if (!series?.ready || series.data.length === 0) return null;
+
+    const cacheKey = this.getArmKey(alert);
+    const cached = this.indicatorResults.get(cacheKey);
+    let result: IndicatorResult;
+    try {
+      result = cached
+        ? indicatorRegistry.update(config, series.data, cached.result, findFirstChangedBar(cached.data, series.data))
+        : indicatorRegistry.calculate(config, series.data);
+    } catch {
+      // Unknown indicators and parameters the calculator rejects never trigger
+      return null;
+    }
+    this.indicatorResults.set(cacheKey, { data: series.data, result });
+
+    const points = result.datasets[0]?.data ?? [];
+    return points[points.length - 1]?.y ?? null;
+  }
+
+  private handleQuote(quote: Quote): void {
+    const symbol = quote.symbol.toUpperCase();
+    const timestamp = quote.timestamp instanceof Date ? quote.timestamp : new Date(quote.timestamp);
+
+    // Extend indicator series with the tick during regular hours
+    if (isInSession(timestamp, getTradingSession(timestamp))) {
+      this.indicatorSeries.forEach((series, key) => {
+        const [seriesSymbol, interval] = key.split(':') as [string, IndicatorAlertConfig['interval']];
+        if (seriesSymbol !== symbol || !series.ready) return;
+        series.data = applyTicks(series.data, [{ price: quote.price, timestamp, volume: 0 }], interval);
+      });
+    }
+
+    const previousPrice = this.lastPrices.get(symbol);
+    this.lastPrices.set(symbol, quote.price);
+
+    Array.from(this.alerts.values())
+      .filter(alert => alert.symbol.toUpperCase() === symbol)
+      .forEach(alert => {
+        const indicatorValue = alert.condition === 'indicator' ? this.getIndicatorValue(alert) : undefined;
+        const { met, value } = evaluateCondition(alert, quote, previousPrice, indicatorValue);
+
+        const armKey = this.getArmKey(alert);
+        const armed = this.armed.get(armKey) ?? true;
+
+        if (!met) {
+          // One-shot alerts never re-arm once fired
+          if (alert.repeat || armed) this.armed.set(armKey, true);
+          return;
+        }
+        if (!armed) return;
+
+        this.armed.set(armKey, false);
+        if (!alert.repeat) {
+          this.alerts.delete(alert.id);
+        }
+
+        this.trigger(alert, {
+          triggeredAt: timestamp.toISOString(),
+          price: quote.price,
+          value,
+        });
+      });
+  }
+
+  private trigger(alert: PriceAlert, trigger: PriceAlertTrigger): void {
+    const message = `${alert.symbol} ${describeAlertCondition(alert)} — last ${formatPrice(trigger.price)}`;
+    console.log(`🔔 [AlertEngine] ${message}`);
+
+    this.callbacks.forEach(callback => {
+      try {
+        callback({ alert, trigger, message });
+      } catch (error) {
+        console.error('❌ [AlertEngine] Trigger callback failed:', error);
+      }
+    });
+  }
+}
+
+export const alertEngine = new AlertEngine();
+export default alertEngine;
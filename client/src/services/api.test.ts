@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AxiosAdapter } from 'axios';
+import apiClient, { normalizeAccount, normalizeOrder, normalizePosition, toCamelCaseKey } from './api';
+
+describe('toCamelCaseKey', () => {
+  it('maps snake_case, PascalCase and camelCase to the same key', () => {
+    expect(['limit_price', 'LimitPrice', 'limitPrice'].map(toCamelCaseKey)).toEqual(['limitPrice', 'limitPrice', 'limitPrice']);
+    expect(toCamelCaseKey('unrealized_intraday_plpc')).toBe('unrealizedIntradayPlpc');
+    expect(toCamelCaseKey('ratio-qty')).toBe('ratioQty');
+  });
+
+  it('lowercases all-caps keys', () => {
+    expect(['HWM', 'ID', 'hwm'].map(toCamelCaseKey)).toEqual(['hwm', 'id', 'hwm']);
+  });
+});
+
+describe('normalizeOrder', () => {
+  it('reads an Alpaca snake_case order', () => {
+    const order = normalizeOrder({
+      id: 'o1',
+      client_order_id: 'c1',
+      created_at: '2024-06-28T14:30:00Z',
+      asset_id: 'a1',
+      symbol: 'aapl',
+      asset_class: 'us_equity',
+      qty: '10',
+      filled_qty: '0',
+      side: 'buy',
+      type: 'stop_limit',
+      order_class: 'simple',
+      time_in_force: 'gtc',
+      limit_price: '150.25',
+      stop_price: '151',
+      status: 'partially_filled',
+      extended_hours: true,
+    });
+
+    expect(order).toMatchObject({
+      id: 'o1',
+      clientOrderId: 'c1',
+      assetId: 'a1',
+      symbol: 'AAPL',
+      qty: '10',
+      filledQty: '0',
+      type: 'stop_limit',
+      timeInForce: 'gtc',
+      limitPrice: '150.25',
+      stopPrice: '151',
+      status: 'partially_filled',
+      extendedHours: true,
+    });
+    expect(order.legs).toBeUndefined();
+  });
+
+  it('reads a PascalCase order with enum names and numeric decimals', () => {
+    const order = normalizeOrder({
+      Id: 'o2',
+      CreatedAt: '2024-06-28T14:30:00Z',
+      Symbol: 'MSFT',
+      Qty: 5,
+      FilledQty: 2,
+      FilledAvgPrice: 410.5,
+      Side: 'Sell',
+      Type: 'TrailingStop',
+      TimeInForce: 'Day',
+      TrailPercent: 1.5,
+      HWM: 420.1,
+      Status: 'PartiallyFilled',
+    });
+
+    expect(order).toMatchObject({
+      id: 'o2',
+      symbol: 'MSFT',
+      assetClass: 'us_equity',
+      qty: '5',
+      filledQty: '2',
+      filledAvgPrice: '410.5',
+      side: 'sell',
+      type: 'trailing_stop',
+      timeInForce: 'day',
+      trailPercent: '1.5',
+      hwm: '420.1',
+      status: 'partially_filled',
+    });
+  });
+
+  it('falls back to the legacy order_type and infers option asset classes', () => {
+    const order = normalizeOrder({ id: 'o3', symbol: 'AAPL240719C00190000', order_type: 'limit', side: 'buy' });
+
+    expect(order.type).toBe('limit');
+    expect(order.assetClass).toBe('us_option');
+    expect(normalizeOrder({ type: 'market', order_type: 'limit' }).type).toBe('market');
+  });
+
+  it('normalizes bracket legs', () => {
+    const order = normalizeOrder({
+      id: 'parent',
+      order_class: 'bracket',
+      legs: [
+        { id: 'tp', type: 'limit', limit_price: '160', status: 'held' },
+        { Id: 'sl', Type: 'Stop', StopPrice: 145, Status: 'Held' },
+      ],
+    });
+
+    expect(order.orderClass).toBe('bracket');
+    expect(order.legs?.map(leg => [leg.id, leg.type, leg.limitPrice ?? leg.stopPrice, leg.status])).toEqual([
+      ['tp', 'limit', '160', 'held'],
+      ['sl', 'stop', '145', 'held'],
+    ]);
+    expect(normalizeOrder({ id: 'o4', legs: [] }).legs).toBeUndefined();
+  });
+
+  it('drops empty and non-finite decimals', () => {
+    const order = normalizeOrder({ id: 'o5', limit_price: '', stop_price: Number.NaN, notional: null });
+
+    expect(order.limitPrice).toBeUndefined();
+    expect(order.stopPrice).toBeUndefined();
+    expect(order.notional).toBeUndefined();
+  });
+});
+
+describe('normalizePosition', () => {
+  it('reads a snake_case position with decimal strings', () => {
+    const position = normalizePosition({
+      asset_id: 'a1',
+      symbol: 'aapl',
+      exchange: 'NASDAQ',
+      avg_entry_price: '185.1234',
+      qty: '10',
+      side: 'long',
+      market_value: '1905.00',
+      cost_basis: '1851.234',
+      unrealized_pl: '53.766',
+      unrealized_intraday_plpc: '0.0042',
+      current_price: '190.5',
+    });
+
+    expect(position).toMatchObject({
+      assetId: 'a1',
+      symbol: 'AAPL',
+      assetClass: 'us_equity',
+      avgEntryPrice: '185.1234',
+      qty: '10',
+      side: 'long',
+      marketValue: '1905.00',
+      costBasis: '1851.234',
+      unrealizedPl: '53.766',
+      unrealizedIntradayPlpc: '0.0042',
+      currentPrice: '190.5',
+    });
+  });
+
+  it('reads a PascalCase position with numbers and infers the side from the quantity', () => {
+    const position = normalizePosition({ Symbol: 'TSLA', Qty: -3, AvgEntryPrice: 250, MarketValue: -720.3, CostBasis: -750 });
+
+    expect(position).toMatchObject({ qty: '-3', side: 'short', avgEntryPrice: '250', marketValue: '-720.3', costBasis: '-750' });
+  });
+
+  it('defaults missing amounts to zero', () => {
+    expect(normalizePosition({ symbol: 'SPY' })).toMatchObject({ qty: '0', side: 'long', marketValue: '0', costBasis: '0' });
+  });
+});
+
+describe('normalizeAccount', () => {
+  it('maps a PascalCase account with numeric decimals', () => {
+    const account = normalizeAccount({
+      Id: 'acc1',
+      AccountNumber: 'PA123',
+      Status: 'Active',
+      Currency: 'USD',
+      BuyingPower: 40000.5,
+      Cash: 20000,
+      PortfolioValue: 25000.25,
+      PatternDayTrader: false,
+      ShortingEnabled: true,
+      Multiplier: 2,
+      Equity: 25000.25,
+      LastEquity: 24800,
+      DaytradeCount: 1,
+    });
+
+    expect(account).toMatchObject({
+      id: 'acc1',
+      accountNumber: 'PA123',
+      status: 'active',
+      buyingPower: '40000.5',
+      cash: '20000',
+      portfolioValue: '25000.25',
+      shortingEnabled: true,
+      multiplier: '2',
+      equity: '25000.25',
+      lastEquity: '24800',
+      daytradeCount: 1,
+    });
+  });
+
+  it('keeps snake_case decimal strings and drops unknown fields', () => {
+    const account = normalizeAccount({
+      id: 'acc2',
+      account_number: 'PA456',
+      status: 'ACCOUNT_UPDATED',
+      buying_power: '1000.10',
+      daytrade_count: '3',
+      crypto_status: 'ACTIVE',
+    });
+
+    expect(account).toMatchObject({ accountNumber: 'PA456', status: 'account_updated', buyingPower: '1000.10', daytradeCount: 3 });
+    expect(account).not.toHaveProperty('cryptoStatus');
+    expect(account).toMatchObject({ cash: '0', multiplier: '1', tradingBlocked: false });
+  });
+});
+
+describe('ApiClient list responses', () => {
+  const respond = (data: unknown): AxiosAdapter => async config => ({ data, status: 200, statusText: 'OK', headers: {}, config });
+  const originalAdapter = apiClient.instance.defaults.adapter;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', { getItem: () => null });
+  });
+
+  afterEach(() => {
+    apiClient.instance.defaults.adapter = originalAdapter;
+    vi.unstubAllGlobals();
+  });
+
+  it('reads bare arrays', async () => {
+    apiClient.instance.defaults.adapter = respond([{ id: 'o1', order_type: 'market' }]);
+
+    expect((await apiClient.getOrders()).map(o => [o.id, o.type])).toEqual([['o1', 'market']]);
+  });
+
+  it('unwraps envelopes whatever their key casing', async () => {
+    apiClient.instance.defaults.adapter = respond({ Orders: [{ Id: 'o1' }, { Id: 'o2' }], NextPageToken: null });
+    expect((await apiClient.getOrders('open')).map(o => o.id)).toEqual(['o1', 'o2']);
+
+    apiClient.instance.defaults.adapter = respond({ positions: [{ symbol: 'aapl', qty: '1' }] });
+    expect((await apiClient.getPositions()).map(p => p.symbol)).toEqual(['AAPL']);
+  });
+
+  it('returns nothing for unexpected list payloads', async () => {
+    apiClient.instance.defaults.adapter = respond({ message: 'ok' });
+
+    expect(await apiClient.getPositions()).toEqual([]);
+  });
+});
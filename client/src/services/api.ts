@@ -1,8 +1,267 @@
 import axios, { type AxiosInstance } from 'axios';
+import type {
+  Account,
+  BarsQueryParams,
+  BarsResponse,
+  OptionChain,
+  OptionContract,
+  Order,
+  OrderFormData,
+  OrderReplaceRequest,
+  Position,
+  PriceAlert,
+  PriceAlertInput,
+  Scan,
+  ScanInput,
+  IndicatorScript,
+  IndicatorScriptInput,
+} from '../types';
+import { OPTION_CONTRACT_MULTIPLIER, isOptionSymbol, parseOptionSymbol } from '../utils/optionHelpers';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
 
-class ApiClient {
+// ---------------------------------------------------------------------------
+// Response normalization
+//
+// The backend proxies Alpaca (snake_case) and some .NET endpoints serialize
+// PascalCase, sometimes with numbers where Alpaca sends strings and enum names
+// like `PartiallyFilled`. Everything is mapped to the camelCase types in
+// `types/index.ts` here, so components never see the wire format.
+// ---------------------------------------------------------------------------
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `limit_price`, `LimitPrice` and `limitPrice` all become `limitPrice`; all-caps keys like `HWM` become `hwm`
+export const toCamelCaseKey = (key: string): string => {
+  if (key === key.toUpperCase()) return key.toLowerCase();
+  const camel = key.replace(/[_-]+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+  return camel.charAt(0).toLowerCase() + camel.slice(1);
+};
+
+export const normalizeKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(normalizeKeys);
+  if (!isRecord(value)) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [toCamelCaseKey(key), normalizeKeys(entry)])
+  );
+};
+
+// Enum values: `PartiallyFilled` and `partially_filled` both become `partially_filled`
+const toEnumValue = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  return String(value)
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[\s-]+/g, '_')
+    .toLowerCase();
+};
+
+// Decimal fields are strings in the canonical types, whatever the wire sends
+const toDecimalString = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : undefined;
+  if (typeof value === 'string' && value !== '') return value;
+  return undefined;
+};
+
+const toOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+const toOptionalNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+// Older payloads leave out the asset class; OCC option symbols are recognizable on their own
+const toAssetClass = (value: unknown, symbol: string): Order['assetClass'] =>
+  (toEnumValue(value) ?? (isOptionSymbol(symbol) ? 'us_option' : 'us_equity')) as Order['assetClass'];
+
+// List endpoints return either a bare array or an envelope like `{ orders: [...] }`
+const unwrapList = (data: unknown, key: string): unknown[] => {
+  const normalized = normalizeKeys(data);
+  if (Array.isArray(normalized)) return normalized;
+  if (isRecord(normalized) && Array.isArray(normalized[key])) return normalized[key] as unknown[];
+  return [];
+};
+
+export const normalizeOrder = (raw: unknown): Order => {
+  const o = (isRecord(raw) ? normalizeKeys(raw) : {}) as RawRecord;
+  const symbol = String(o.symbol ?? '').toUpperCase();
+
+  return {
+    id: String(o.id ?? ''),
+    clientOrderId: toOptionalString(o.clientOrderId),
+    createdAt: String(o.createdAt ?? ''),
+    updatedAt: toOptionalString(o.updatedAt),
+    submittedAt: toOptionalString(o.submittedAt),
+    filledAt: toOptionalString(o.filledAt),
+    expiredAt: toOptionalString(o.expiredAt),
+    canceledAt: toOptionalString(o.canceledAt ?? o.cancelledAt),
+    failedAt: toOptionalString(o.failedAt),
+    replacedAt: toOptionalString(o.replacedAt),
+    replacedBy: toOptionalString(o.replacedBy),
+    replaces: toOptionalString(o.replaces),
+    assetId: String(o.assetId ?? ''),
+    symbol,
+    assetClass: toAssetClass(o.assetClass, symbol),
+    qty: toDecimalString(o.qty),
+    filledQty: toDecimalString(o.filledQty),
+    notional: toDecimalString(o.notional),
+    filledAvgPrice: toDecimalString(o.filledAvgPrice),
+    side: toEnumValue(o.side) as Order['side'],
+    // Alpaca sends both `type` and the legacy `order_type`
+    type: toEnumValue(o.type ?? o.orderType) as Order['type'],
+    orderClass: (toEnumValue(o.orderClass) || undefined) as Order['orderClass'],
+    timeInForce: toEnumValue(o.timeInForce) as Order['timeInForce'],
+    limitPrice: toDecimalString(o.limitPrice),
+    stopPrice: toDecimalString(o.stopPrice),
+    trailPrice: toDecimalString(o.trailPrice),
+    trailPercent: toDecimalString(o.trailPercent),
+    hwm: toDecimalString(o.hwm),
+    status: toEnumValue(o.status) as Order['status'],
+    extendedHours: Boolean(o.extendedHours),
+    legs: Array.isArray(o.legs) && o.legs.length > 0 ? o.legs.map(normalizeOrder) : undefined,
+    ratioQty: toDecimalString(o.ratioQty),
+    positionIntent: (toEnumValue(o.positionIntent) || undefined) as Order['positionIntent'],
+  };
+};
+
+export const normalizePosition = (raw: unknown): Position => {
+  const p = (isRecord(raw) ? normalizeKeys(raw) : {}) as RawRecord;
+  const qty = toDecimalString(p.qty) ?? '0';
+  const symbol = String(p.symbol ?? '').toUpperCase();
+
+  return {
+    assetId: String(p.assetId ?? ''),
+    symbol,
+    exchange: String(p.exchange ?? ''),
+    assetClass: toAssetClass(p.assetClass, symbol),
+    avgEntryPrice: toDecimalString(p.avgEntryPrice) ?? '0',
+    qty,
+    side: (toEnumValue(p.side) ?? (parseFloat(qty) < 0 ? 'short' : 'long')) as Position['side'],
+    marketValue: toDecimalString(p.marketValue) ?? '0',
+    costBasis: toDecimalString(p.costBasis) ?? '0',
+    unrealizedPl: toDecimalString(p.unrealizedPl),
+    unrealizedPlpc: toDecimalString(p.unrealizedPlpc),
+    unrealizedIntradayPl: toDecimalString(p.unrealizedIntradayPl),
+    unrealizedIntradayPlpc: toDecimalString(p.unrealizedIntradayPlpc),
+    currentPrice: toDecimalString(p.currentPrice),
+    lastdayPrice: toDecimalString(p.lastdayPrice),
+    changeToday: toDecimalString(p.changeToday),
+  };
+};
+
+export const normalizeAccount = (raw: unknown): Account => {
+  const a = (isRecord(raw) ? normalizeKeys(raw) : {}) as RawRecord;
+
+  return {
+    id: String(a.id ?? ''),
+    accountNumber: String(a.accountNumber ?? ''),
+    status: toEnumValue(a.status) ?? '',
+    currency: String(a.currency ?? 'USD'),
+    buyingPower: toDecimalString(a.buyingPower) ?? '0',
+    cash: toDecimalString(a.cash) ?? '0',
+    portfolioValue: toDecimalString(a.portfolioValue) ?? '0',
+    patternDayTrader: Boolean(a.patternDayTrader),
+    tradingBlocked: Boolean(a.tradingBlocked),
+    transfersBlocked: Boolean(a.transfersBlocked),
+    accountBlocked: Boolean(a.accountBlocked),
+    tradeSuspendedByUser: Boolean(a.tradeSuspendedByUser),
+    multiplier: toDecimalString(a.multiplier) ?? '1',
+    shortingEnabled: Boolean(a.shortingEnabled),
+    equity: toDecimalString(a.equity) ?? '0',
+    lastEquity: toDecimalString(a.lastEquity) ?? '0',
+    longMarketValue: toDecimalString(a.longMarketValue) ?? '0',
+    shortMarketValue: toDecimalString(a.shortMarketValue) ?? '0',
+    initialMargin: toDecimalString(a.initialMargin) ?? '0',
+    maintenanceMargin: toDecimalString(a.maintenanceMargin) ?? '0',
+    lastMaintenanceMargin: toDecimalString(a.lastMaintenanceMargin) ?? '0',
+    sma: toDecimalString(a.sma) ?? '0',
+    daytradeCount: toOptionalNumber(a.daytradeCount) ?? 0,
+  };
+};
+
+/**
+ * Option contracts arrive as Alpaca snapshots (`latestQuote.bp`, `greeks`, ...) merged
+ * with contract reference data; strike, type and expiration fall back to the OCC symbol.
+ */
+export const normalizeOptionContract = (raw: unknown): OptionContract => {
+  const c = (isRecord(raw) ? normalizeKeys(raw) : {}) as RawRecord;
+  const symbol = String(c.symbol ?? '').toUpperCase();
+  const parts = parseOptionSymbol(symbol);
+  const quote = (isRecord(c.latestQuote) ? c.latestQuote : {}) as RawRecord;
+  const trade = (isRecord(c.latestTrade) ? c.latestTrade : {}) as RawRecord;
+  const bar = (isRecord(c.dailyBar) ? c.dailyBar : {}) as RawRecord;
+  const greeks = isRecord(c.greeks) ? c.greeks : undefined;
+
+  return {
+    symbol,
+    underlyingSymbol: String(c.underlyingSymbol ?? parts?.underlyingSymbol ?? '').toUpperCase(),
+    type: (toEnumValue(c.type) ?? parts?.type ?? 'call') as OptionContract['type'],
+    strikePrice: toOptionalNumber(c.strikePrice) ?? parts?.strikePrice ?? 0,
+    expirationDate: toOptionalString(c.expirationDate) ?? parts?.expirationDate ?? '',
+    multiplier: toOptionalNumber(c.multiplier ?? c.size) ?? OPTION_CONTRACT_MULTIPLIER,
+    bid: toOptionalNumber(c.bid ?? c.bidPrice ?? quote.bp),
+    ask: toOptionalNumber(c.ask ?? c.askPrice ?? quote.ap),
+    last: toOptionalNumber(c.last ?? c.lastPrice ?? trade.p),
+    volume: toOptionalNumber(c.volume ?? bar.v),
+    openInterest: toOptionalNumber(c.openInterest),
+    impliedVolatility: toOptionalNumber(c.impliedVolatility),
+    greeks: greeks
+      ? {
+          delta: toOptionalNumber(greeks.delta) ?? 0,
+          gamma: toOptionalNumber(greeks.gamma) ?? 0,
+          theta: toOptionalNumber(greeks.theta) ?? 0,
+          vega: toOptionalNumber(greeks.vega) ?? 0,
+          rho: toOptionalNumber(greeks.rho),
+        }
+      : undefined,
+  };
+};
+
+export const normalizeOptionChain = (raw: unknown, underlyingSymbol: string, expirationDate: string): OptionChain => {
+  const chain = (isRecord(raw) ? normalizeKeys(raw) : {}) as RawRecord;
+  // Alpaca's chain endpoint keys snapshots by contract symbol
+  const snapshots = isRecord(chain.snapshots)
+    ? Object.entries(chain.snapshots).map(([symbol, snapshot]) => ({ ...(isRecord(snapshot) ? snapshot : {}), symbol }))
+    : unwrapList(raw, 'contracts');
+
+  return {
+    underlyingSymbol: underlyingSymbol.toUpperCase(),
+    underlyingPrice: toOptionalNumber(chain.underlyingPrice),
+    expirationDate,
+    contracts: snapshots
+      .map(normalizeOptionContract)
+      .filter(contract => contract.expirationDate === expirationDate)
+      .sort((a, b) => a.strikePrice - b.strikePrice),
+  };
+};
+
+/**
+ * Order operations used by the order hooks. `ApiClient` talks to the backend;
+ * `MockOrdersApi` implements the same surface in memory for demos and tests.
+ */
+export interface OrdersApi {
+  getOrders(status?: string): Promise<Order[]>;
+  createOrder(orderData: OrderFormData): Promise<Order>;
+  replaceOrder(orderId: string, changes: OrderReplaceRequest): Promise<Order>;
+  cancelOrder(orderId: string): Promise<unknown>;
+}
+
+// Position operations used by `usePositions`; `MockPositionsApi` is the in-memory counterpart
+export interface PositionsApi {
+  getPositions(): Promise<Position[]>;
+}
+
+// Option chains behind the options hooks; `SimulatedOptionsApi` generates them locally
+export interface OptionsApi {
+  getOptionExpirations(underlyingSymbol: string): Promise<string[]>;
+  getOptionChain(underlyingSymbol: string, expirationDate: string): Promise<OptionChain>;
+}
+
+class ApiClient implements OrdersApi, PositionsApi, OptionsApi {
   private axiosInstance: AxiosInstance;
 
   constructor() {
@@ -54,27 +313,33 @@ class ApiClient {
   }
 
   // Account endpoints
-  async getAccount() {
+  async getAccount(): Promise<Account> {
     const response = await this.axiosInstance.get('/account');
-    return response.data;
+    return normalizeAccount(response.data);
   }
 
   // Positions endpoints
-  async getPositions() {
+  async getPositions(): Promise<Position[]> {
     const response = await this.axiosInstance.get('/positions');
-    return response.data;
+    return unwrapList(response.data, 'positions').map(normalizePosition);
   }
 
   // Orders endpoints
-  async getOrders(status?: string) {
+  async getOrders(status?: string): Promise<Order[]> {
     const params = status ? { status } : {};
     const response = await this.axiosInstance.get('/orders', { params });
-    return response.data;
+    return unwrapList(response.data, 'orders').map(normalizeOrder);
   }
 
-  async createOrder(orderData: any) {
+  async createOrder(orderData: OrderFormData): Promise<Order> {
     const response = await this.axiosInstance.post('/orders', orderData);
-    return response.data;
+    return normalizeOrder(response.data);
+  }
+
+  // Amend a working order; returns the replacement order
+  async replaceOrder(orderId: string, changes: OrderReplaceRequest): Promise<Order> {
+    const response = await this.axiosInstance.patch(`/orders/${orderId}`, changes);
+    return normalizeOrder(response.data);
   }
 
   async cancelOrder(orderId: string) {
@@ -100,6 +365,25 @@ class ApiClient {
     return response.data;
   }
 
+  // Market data endpoints
+  async getBars(symbol: string, params: BarsQueryParams): Promise<BarsResponse> {
+    const response = await this.axiosInstance.get(`/market-data/bars/${symbol}`, { params });
+    return response.data;
+  }
+
+  // Options endpoints
+  async getOptionExpirations(underlyingSymbol: string): Promise<string[]> {
+    const response = await this.axiosInstance.get(`/options/${underlyingSymbol}/expirations`);
+    return unwrapList(response.data, 'expirations').map(String).sort();
+  }
+
+  async getOptionChain(underlyingSymbol: string, expirationDate: string): Promise<OptionChain> {
+    const response = await this.axiosInstance.get(`/options/${underlyingSymbol}/chain`, {
+      params: { expiration: expirationDate },
+    });
+    return normalizeOptionChain(response.data, underlyingSymbol, expirationDate);
+  }
+
   // Watchlist endpoints
   async getWatchlists() {
     try {
@@ -147,21 +431,140 @@ class ApiClient {
   }
 
   // Price alerts endpoints
-  async getPriceAlerts() {
-    const response = await this.axiosInstance.get('/price-alerts');
-    return response.data;
+  async getPriceAlerts(): Promise<PriceAlert[]> {
+    try {
+      const response = await this.axiosInstance.get('/price-alerts');
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Price alerts API failed, using local storage service');
+      const { priceAlertService } = await import('./priceAlertService');
+      return await priceAlertService.getAlerts();
+    }
   }
 
-  async createPriceAlert(alertData: any) {
-    const response = await this.axiosInstance.post('/price-alerts', alertData);
-    return response.data;
+  async createPriceAlert(alertData: PriceAlertInput): Promise<PriceAlert> {
+    try {
+      const response = await this.axiosInstance.post('/price-alerts', alertData);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Create price alert API failed, using local storage service');
+      const { priceAlertService } = await import('./priceAlertService');
+      return await priceAlertService.createAlert(alertData);
+    }
+  }
+
+  async updatePriceAlert(alertId: string, updates: Partial<PriceAlert>): Promise<PriceAlert> {
+    try {
+      const response = await this.axiosInstance.patch(`/price-alerts/${alertId}`, updates);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Update price alert API failed, using local storage service');
+      const { priceAlertService } = await import('./priceAlertService');
+      return await priceAlertService.updateAlert(alertId, updates);
+    }
   }
 
   async deletePriceAlert(alertId: string) {
-    const response = await this.axiosInstance.delete(`/price-alerts/${alertId}`);
-    return response.data;
+    try {
+      const response = await this.axiosInstance.delete(`/price-alerts/${alertId}`);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Delete price alert API failed, using local storage service');
+      const { priceAlertService } = await import('./priceAlertService');
+      return await priceAlertService.deleteAlert(alertId);
+    }
+  }
+
+  // Saved scanner scans
+  async getScans(): Promise<Scan[]> {
+    try {
+      const response = await this.axiosInstance.get('/scans');
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Scans API failed, using local storage service');
+      const { scanService } = await import('./scanService');
+      return await scanService.getScans();
+    }
+  }
+
+  async createScan(scan: ScanInput): Promise<Scan> {
+    try {
+      const response = await this.axiosInstance.post('/scans', scan);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Create scan API failed, using local storage service');
+      const { scanService } = await import('./scanService');
+      return await scanService.createScan(scan);
+    }
+  }
+
+  async updateScan(scanId: string, updates: Partial<ScanInput>): Promise<Scan> {
+    try {
+      const response = await this.axiosInstance.patch(`/scans/${scanId}`, updates);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Update scan API failed, using local storage service');
+      const { scanService } = await import('./scanService');
+      return await scanService.updateScan(scanId, updates);
+    }
   }
 
+  async deleteScan(scanId: string) {
+    try {
+      const response = await this.axiosInstance.delete(`/scans/${scanId}`);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Delete scan API failed, using local storage service');
+      const { scanService } = await import('./scanService');
+      return await scanService.deleteScan(scanId);
+    }
+  }
+  // Custom indicator scripts
+  async getIndicatorScripts(): Promise<IndicatorScript[]> {
+    try {
+      const response = await this.axiosInstance.get('/indicator-scripts');
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Indicator scripts API failed, using local storage service');
+      const { indicatorScriptService } = await import('./indicatorScriptService');
+      return await indicatorScriptService.getScripts();
+    }
+  }
+
+  async createIndicatorScript(script: IndicatorScriptInput): Promise<IndicatorScript> {
+    try {
+      const response = await this.axiosInstance.post('/indicator-scripts', script);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Create indicator script API failed, using local storage service');
+      const { indicatorScriptService } = await import('./indicatorScriptService');
+      return await indicatorScriptService.createScript(script);
+    }
+  }
+
+  async updateIndicatorScript(scriptId: string, updates: Partial<IndicatorScriptInput>): Promise<IndicatorScript> {
+    try {
+      const response = await this.axiosInstance.patch(`/indicator-scripts/${scriptId}`, updates);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Update indicator script API failed, using local storage service');
+      const { indicatorScriptService } = await import('./indicatorScriptService');
+      return await indicatorScriptService.updateScript(scriptId, updates);
+    }
+  }
+
+  async deleteIndicatorScript(scriptId: string) {
+    try {
+      const response = await this.axiosInstance.delete(`/indicator-scripts/${scriptId}`);
+      return response.data;
+    } catch {
+      console.warn('⚠️ [ApiClient] Delete indicator script API failed, using local storage service');
+      const { indicatorScriptService } = await import('./indicatorScriptService');
+      return await indicatorScriptService.deleteScript(scriptId);
+    }
+  }
+
+
   // Portfolio analytics
   async getPortfolioHistory() {
     const response = await this.axiosInstance.get('/portfolio/history');
@@ -0,0 +1,11 @@
+import { HubDepthFeed, type DepthFeed } from './depthFeed';
+import { SimulatedDepthFeed } from './simulatedDepthFeed';
+
+// The backend hub doesn't serve depth yet, so books are generated locally unless
+// VITE_DEPTH_PROVIDER=hub streams them from a hub that does (e.g. `npm run mock:market-data`)
+export const isSimulatedDepthProvider = import.meta.env.VITE_DEPTH_PROVIDER !== 'hub';
+
+// Depth feed behind `useOrderBook`
+export const defaultDepthFeed: DepthFeed = isSimulatedDepthProvider ? new SimulatedDepthFeed() : new HubDepthFeed();
+
+export default defaultDepthFeed;
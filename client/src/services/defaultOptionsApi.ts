@@ -0,0 +1,14 @@
+import apiClient, { type OptionsApi } from './api';
+import { SimulatedOptionsApi } from './simulatedOptionsApi';
+import useMarketDataStore from '../store/marketDataStore';
+
+// The backend doesn't serve option chains yet, so they are priced locally unless
+// VITE_OPTIONS_PROVIDER=api loads them from /options/{symbol}/expirations and /options/{symbol}/chain
+export const isSimulatedOptionsProvider = import.meta.env.VITE_OPTIONS_PROVIDER !== 'api';
+
+// Options API behind the options hooks; simulated chains center on the live quote when there is one
+export const defaultOptionsApi: OptionsApi = isSimulatedOptionsProvider
+  ? new SimulatedOptionsApi({ getUnderlyingPrice: symbol => useMarketDataStore.getState().quotes.get(symbol)?.price })
+  : apiClient;
+
+export default defaultOptionsApi;
@@ -0,0 +1,10 @@
+import apiClient, { type OrdersApi } from './api';
+import { mockOrdersApi } from './mockOrdersApi';
+
+// Dev builds only: VITE_TRADING_PROVIDER=mock serves orders and positions from memory instead of the broker
+export const isMockTradingProvider = import.meta.env.DEV && import.meta.env.VITE_TRADING_PROVIDER === 'mock';
+
+// Orders API behind the order hooks
+export const defaultOrdersApi: OrdersApi = isMockTradingProvider ? mockOrdersApi : apiClient;
+
+export default defaultOrdersApi;
@@ -0,0 +1,8 @@
+import apiClient, { type PositionsApi } from './api';
+import { isMockTradingProvider } from './defaultOrdersApi';
+import { mockPositionsApi } from './mockPositionsApi';
+
+// Positions API behind `usePositions`; follows VITE_TRADING_PROVIDER like the orders API
+export const defaultPositionsApi: PositionsApi = isMockTradingProvider ? mockPositionsApi : apiClient;
+
+export default defaultPositionsApi;
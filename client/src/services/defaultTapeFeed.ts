@@ -0,0 +1,10 @@
+import { HubTapeFeed, type TapeFeed } from './tapeFeed';
+import { SimulatedTapeFeed } from './simulatedTapeFeed';
+
+// VITE_TAPE_PROVIDER=simulated generates prints locally instead of streaming them from the hub
+export const isSimulatedTapeProvider = import.meta.env.VITE_TAPE_PROVIDER === 'simulated';
+
+// Tape feed behind `useTimeAndSales`
+export const defaultTapeFeed: TapeFeed = isSimulatedTapeProvider ? new SimulatedTapeFeed() : new HubTapeFeed();
+
+export default defaultTapeFeed;
@@ -0,0 +1,88 @@
+import { normalizeKeys } from './api';
+import { HubSymbolFeed } from './hubSymbolFeed';
+import type { MarketDataService } from './marketDataService';
+import type { BookLevel, BookMessage, BookSide } from './orderBook';
+
+export type BookMessageCallback = (message: BookMessage) => void;
+
+/**
+ * Source of order book messages for one or more symbols. `HubDepthFeed` streams
+ * from the backend; `SimulatedDepthFeed` generates a book locally for testing.
+ */
+export interface DepthFeed {
+  subscribe(symbol: string, callback: BookMessageCallback): () => void;
+  // Ask for a fresh snapshot, e.g. after the book detected a sequence gap
+  resync(symbol: string): void;
+}
+
+const toNumber = (value: unknown): number => {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : 0;
+};
+
+// Levels arrive either as `[price, size]` pairs or `{ price, size }` objects
+const normalizeLevel = (raw: unknown): BookLevel => {
+  if (Array.isArray(raw)) return { price: toNumber(raw[0]), size: toNumber(raw[1]) };
+  const level = (raw ?? {}) as Record<string, unknown>;
+  return { price: toNumber(level.price), size: toNumber(level.size) };
+};
+
+export const normalizeBookMessage = (type: BookMessage['type'], raw: unknown): BookMessage | null => {
+  const payload = normalizeKeys(raw) as Record<string, unknown> | null;
+  if (!payload || typeof payload.symbol !== 'string') return null;
+
+  const base = {
+    symbol: payload.symbol.toUpperCase(),
+    sequence: toNumber(payload.sequence),
+    timestamp: payload.timestamp ? new Date(String(payload.timestamp)).getTime() : Date.now(),
+  };
+
+  if (type === 'snapshot') {
+    return {
+      ...base,
+      type,
+      bids: Array.isArray(payload.bids) ? payload.bids.map(normalizeLevel) : [],
+      asks: Array.isArray(payload.asks) ? payload.asks.map(normalizeLevel) : [],
+    };
+  }
+
+  const changes = Array.isArray(payload.changes) ? payload.changes : [];
+  return {
+    ...base,
+    type,
+    changes: changes.map(change => {
+      const c = (change ?? {}) as Record<string, unknown>;
+      return { side: (String(c.side).toLowerCase() === 'ask' ? 'ask' : 'bid') as BookSide, ...normalizeLevel(c) };
+    }),
+  };
+};
+
+/**
+ * Depth over the market data hub: `SubscribeDepth(symbol)` answers with a
+ * `DepthSnapshot` followed by `DepthDelta` messages. Subscribing again is how a
+ * snapshot is re-requested.
+ */
+export class HubDepthFeed implements DepthFeed {
+  private feed: HubSymbolFeed<BookMessage>;
+
+  constructor(hub?: MarketDataService) {
+    this.feed = new HubSymbolFeed<BookMessage>({
+      name: 'HubDepthFeed',
+      subscribeMethod: 'SubscribeDepth',
+      unsubscribeMethod: 'UnsubscribeDepth',
+      events: {
+        DepthSnapshot: payload => normalizeBookMessage('snapshot', payload),
+        DepthDelta: payload => normalizeBookMessage('delta', payload),
+      },
+      symbolOf: message => message.symbol,
+    }, hub);
+  }
+
+  subscribe(symbol: string, callback: BookMessageCallback): () => void {
+    return this.feed.subscribe(symbol, callback);
+  }
+
+  resync(symbol: string): void {
+    this.feed.resubscribe(symbol);
+  }
+}
@@ -0,0 +1,99 @@
+import { marketDataService, type HubChannel, type MarketDataService } from './marketDataService';
+
+interface HubSymbolFeedOptions<T> {
+  name: string; // used in log messages
+  subscribeMethod: string;
+  unsubscribeMethod: string;
+  // Hub event name -> payload normalizer; null drops the payload
+  events: Record<string, (payload: unknown) => T | null>;
+  symbolOf: (message: T) => string;
+}
+
+/**
+ * A per-symbol stream on the market data hub, shared by the depth and tape feeds.
+ *
+ * The hub sees one subscription per symbol however many callbacks listen to it.
+ * The stream rides on the market data service's connection, which retries with
+ * backoff until it is up; every symbol is subscribed again on each (re)connect.
+ */
+export class HubSymbolFeed<T> {
+  private subscribers = new Map<string, Set<(message: T) => void>>();
+  private detach: (() => void) | null = null;
+  private options: HubSymbolFeedOptions<T>;
+  private hub: MarketDataService;
+
+  constructor(options: HubSymbolFeedOptions<T>, hub: MarketDataService = marketDataService) {
+    this.options = options;
+    this.hub = hub;
+  }
+
+  subscribe(symbol: string, callback: (message: T) => void): () => void {
+    symbol = symbol.toUpperCase();
+
+    let callbacks = this.subscribers.get(symbol);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.subscribers.set(symbol, callbacks);
+      if (this.detach) {
+        this.invoke(this.options.subscribeMethod, symbol);
+      } else {
+        this.attach();
+      }
+    }
+    callbacks.add(callback);
+
+    return () => {
+      const current = this.subscribers.get(symbol);
+      current?.delete(callback);
+      if (current && current.size === 0) {
+        this.subscribers.delete(symbol);
+        this.invoke(this.options.unsubscribeMethod, symbol);
+        if (this.subscribers.size === 0) {
+          this.detach?.();
+          this.detach = null;
+        }
+      }
+    };
+  }
+
+  // Subscribing again makes the hub restart the stream, e.g. with a fresh snapshot
+  resubscribe(symbol: string): void {
+    this.invoke(this.options.subscribeMethod, symbol.toUpperCase());
+  }
+
+  private attach(): void {
+    const channel: HubChannel = {
+      events: Object.fromEntries(Object.entries(this.options.events).map(([event, normalize]) => [
+        event,
+        (payload: unknown) => this.dispatch(normalize(payload)),
+      ])),
+      onConnected: () => this.resubscribeAll(),
+    };
+    this.detach = this.hub.attachChannel(channel);
+  }
+
+  private invoke(method: string, symbol: string): void {
+    // While the socket is down, subscriptions are sent once it connects
+    if (!this.hub.isConnected()) return;
+
+    this.hub.invoke(method, symbol).catch(error => {
+      console.error(`❌ [${this.options.name}] ${method} failed for ${symbol}:`, error);
+    });
+  }
+
+  private resubscribeAll(): void {
+    Array.from(this.subscribers.keys()).forEach(symbol => this.invoke(this.options.subscribeMethod, symbol));
+  }
+
+  private dispatch(message: T | null): void {
+    if (!message) return;
+    const symbol = this.options.symbolOf(message);
+    this.subscribers.get(symbol)?.forEach(callback => {
+      try {
+        callback(message);
+      } catch (error) {
+        console.error(`❌ [${this.options.name}] Callback failed for ${symbol}:`, error);
+      }
+    });
+  }
+}
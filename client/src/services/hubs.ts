@@ -0,0 +1,16 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
+
+// SignalR hubs live next to the REST API: `/api` -> `/hubs/{name}`
+export const getHubUrl = (name: string): string => `${API_BASE_URL.replace(/\/api\/?$/, '')}/hubs/${name}`;
+
+// Bearer token for hub connections, read on every (re)connect so refreshed tokens are picked up
+export const getAccessToken = (): string => {
+  const authTokensStr = localStorage.getItem('auth_tokens');
+  if (!authTokensStr) return '';
+  try {
+    return JSON.parse(authTokensStr).accessToken || '';
+  } catch (e) {
+    console.error('Failed to parse auth tokens:', e);
+    return '';
+  }
+};
@@ -0,0 +1,78 @@
+import type { IndicatorScript, IndicatorScriptInput } from '../types';
+
+const STORAGE_KEY = 'hingetrade_indicator_scripts';
+
+export class IndicatorScriptService {
+  // Save scripts to localStorage
+  private saveToStorage(scripts: IndicatorScript[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(scripts));
+    } catch (error) {
+      console.error('❌ [IndicatorScriptService] Failed to save to localStorage:', error);
+    }
+  }
+
+  // Load scripts from localStorage
+  private loadFromStorage(): IndicatorScript[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('❌ [IndicatorScriptService] Failed to load from localStorage:', error);
+    }
+
+    return [];
+  }
+
+  async getScripts(): Promise<IndicatorScript[]> {
+    return this.loadFromStorage();
+  }
+
+  async createScript(input: IndicatorScriptInput): Promise<IndicatorScript> {
+    const now = new Date().toISOString();
+    const script: IndicatorScript = {
+      ...input,
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.saveToStorage([...this.loadFromStorage(), script]);
+    console.log('✅ [IndicatorScriptService] Saved script:', script.name);
+    return script;
+  }
+
+  async updateScript(scriptId: string, updates: Partial<IndicatorScriptInput>): Promise<IndicatorScript> {
+    const scripts = this.loadFromStorage();
+    const existing = scripts.find(s => s.id === scriptId);
+    if (!existing) {
+      throw new Error(`Indicator script ${scriptId} not found`);
+    }
+
+    const updated: IndicatorScript = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.saveToStorage(scripts.map(s => s.id === scriptId ? updated : s));
+    return updated;
+  }
+
+  async deleteScript(scriptId: string): Promise<{ success: boolean }> {
+    this.saveToStorage(this.loadFromStorage().filter(s => s.id !== scriptId));
+    console.log(`🗑️ [IndicatorScriptService] Deleted script ${scriptId}`);
+    return { success: true };
+  }
+
+  // Clear all data (for testing/reset)
+  clearStorage(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const indicatorScriptService = new IndicatorScriptService();
+export default indicatorScriptService;
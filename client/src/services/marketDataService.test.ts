@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HubConnectionState, type IRetryPolicy } from '@microsoft/signalr';
+import apiClient from './api';
+import { MarketDataService, getReconnectDelay, type ConnectionState } from './marketDataService';
+
+// Stands in for a SignalR connection: tests drive its lifecycle callbacks directly
+class FakeHubConnection {
+  state = HubConnectionState.Disconnected;
+  failStarts = 0;
+  handlers = new Map<string, (payload: unknown) => void>();
+  invoke = vi.fn<(method: string, ...args: unknown[]) => Promise<void>>(async () => {});
+  start = vi.fn(async () => {
+    this.state = HubConnectionState.Connecting;
+    await Promise.resolve();
+    if (this.failStarts > 0) {
+      this.failStarts -= 1;
+      this.state = HubConnectionState.Disconnected;
+      throw new Error('Connection refused');
+    }
+    this.state = HubConnectionState.Connected;
+  });
+  stop = vi.fn(async () => {
+    this.state = HubConnectionState.Disconnected;
+  });
+  private reconnecting?: (error?: Error) => void;
+  private reconnected?: () => void;
+  private closed?: (error?: Error) => void;
+
+  on(event: string, handler: (payload: unknown) => void) { this.handlers.set(event, handler); }
+  off(event: string) { this.handlers.delete(event); }
+  onreconnecting(callback: (error?: Error) => void) { this.reconnecting = callback; }
+  onreconnected(callback: () => void) { this.reconnected = callback; }
+  onclose(callback: (error?: Error) => void) { this.closed = callback; }
+
+  // The socket drops and SignalR's automatic reconnect kicks in
+  drop() {
+    this.state = HubConnectionState.Reconnecting;
+    this.reconnecting?.(new Error('Socket closed'));
+  }
+
+  // Automatic reconnect succeeds
+  reconnect() {
+    this.state = HubConnectionState.Connected;
+    this.reconnected?.();
+  }
+
+  // Automatic reconnect gave up
+  close() {
+    this.state = HubConnectionState.Disconnected;
+    this.closed?.(new Error('Reconnect attempts exhausted'));
+  }
+}
+
+const hub = vi.hoisted(() => ({
+  connections: [] as unknown[],
+  retryPolicy: undefined as unknown,
+  failStarts: 0,
+}));
+
+vi.mock('@microsoft/signalr', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@microsoft/signalr')>();
+
+  class HubConnectionBuilder {
+    withUrl() { return this; }
+    withAutomaticReconnect(policy: IRetryPolicy) {
+      hub.retryPolicy = policy;
+      return this;
+    }
+    configureLogging() { return this; }
+    build() {
+      const connection = new FakeHubConnection();
+      connection.failStarts = hub.failStarts;
+      hub.connections.push(connection);
+      return connection;
+    }
+  }
+
+  return { ...actual, HubConnectionBuilder };
+});
+
+vi.mock('./api', () => ({
+  default: { getAsset: vi.fn() },
+}));
+
+const lastConnection = () => hub.connections[hub.connections.length - 1] as FakeHubConnection;
+
+describe('getReconnectDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles from one second up to 30 seconds, jittered into the upper half', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([0, 1, 2, 3, 4, 5, 10].map(getReconnectDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([0, 1, 5].map(getReconnectDelay)).toEqual([500, 1000, 15000]);
+  });
+});
+
+describe('MarketDataService', () => {
+  const getAsset = vi.mocked(apiClient.getAsset);
+  let service: MarketDataService;
+  let states: ConnectionState[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    getAsset.mockResolvedValue({ price: 190.5, changePercent: 0 });
+    hub.connections = [];
+    hub.failStarts = 0;
+    service = new MarketDataService('http://localhost/hubs/market-data');
+    states = [];
+    service.onConnectionStatusChange(status => states.push(status.state));
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    getAsset.mockReset();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('uses the backoff for automatic reconnects', async () => {
+    await service.subscribe('AAPL', () => {});
+    await vi.advanceTimersByTimeAsync(0);
+
+    const policy = hub.retryPolicy as IRetryPolicy;
+    expect(policy.nextRetryDelayInMilliseconds({ previousRetryCount: 3, elapsedMilliseconds: 0, retryReason: new Error() }))
+      .toBe(8000);
+  });
+
+  it('polls over REST and retries with growing delays until the hub is reachable', async () => {
+    hub.failStarts = 2;
+    const quotes: number[] = [];
+
+    await service.subscribe('aapl', quote => quotes.push(quote.price));
+    await vi.advanceTimersByTimeAsync(0);
+    const connection = lastConnection();
+
+    expect(connection.start).toHaveBeenCalledTimes(1);
+    expect(service.getConnectionStatus().state).toBe('polling');
+    expect(getAsset).toHaveBeenCalledWith('AAPL');
+    expect(quotes).toEqual([190.5]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(connection.start).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(connection.start).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(connection.start).toHaveBeenCalledTimes(3);
+
+    expect(service.getConnectionStatus()).toEqual({ connected: true, state: 'connected' });
+    expect(connection.invoke).toHaveBeenCalledWith('SubscribeMultiple', ['AAPL']);
+
+    // Polling stops once the hub is up
+    getAsset.mockClear();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(getAsset).not.toHaveBeenCalled();
+  });
+
+  it('resubscribes every symbol and channel after an automatic reconnect', async () => {
+    const onConnected = vi.fn();
+    service.attachChannel({ events: {}, onConnected });
+    await service.subscribe('AAPL', () => {});
+    await vi.advanceTimersByTimeAsync(0);
+    await service.subscribe('MSFT', () => {});
+    const connection = lastConnection();
+
+    expect(connection.invoke.mock.calls).toEqual([['SubscribeMultiple', ['AAPL']], ['Subscribe', 'MSFT']]);
+    expect(onConnected).toHaveBeenCalledTimes(1);
+
+    connection.drop();
+    expect(service.getConnectionStatus().state).toBe('reconnecting');
+    expect(getAsset.mock.calls.map(([symbol]) => symbol)).toEqual(['AAPL', 'MSFT']);
+
+    connection.reconnect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(connection.invoke).toHaveBeenLastCalledWith('SubscribeMultiple', ['AAPL', 'MSFT']);
+    expect(onConnected).toHaveBeenCalledTimes(2);
+    expect(states.slice(-3)).toEqual(['connected', 'reconnecting', 'connected']);
+  });
+
+  it('restarts the connection after automatic reconnect gives up', async () => {
+    await service.subscribe('AAPL', () => {});
+    await vi.advanceTimersByTimeAsync(0);
+    const connection = lastConnection();
+
+    connection.drop();
+    connection.close();
+    expect(service.getConnectionStatus().state).toBe('polling');
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(connection.start).toHaveBeenCalledTimes(2);
+    expect(service.getConnectionStatus().state).toBe('connected');
+    expect(connection.invoke).toHaveBeenLastCalledWith('SubscribeMultiple', ['AAPL']);
+  });
+
+  it('stays down after disconnect', async () => {
+    await service.subscribe('AAPL', () => {});
+    await vi.advanceTimersByTimeAsync(0);
+    const connection = lastConnection();
+
+    await service.disconnect();
+    connection.close();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(connection.start).toHaveBeenCalledTimes(1);
+    expect(service.getConnectionStatus().state).toBe('disconnected');
+  });
+});
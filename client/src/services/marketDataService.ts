@@ -0,0 +1,438 @@
+import {
+  HubConnectionBuilder,
+  HubConnectionState,
+  HttpTransportType,
+  LogLevel,
+  type HubConnection,
+} from '@microsoft/signalr';
+import apiClient from './api';
+import { getAccessToken, getHubUrl } from './hubs';
+
+// The hub lives next to the REST API unless overridden,
+// e.g. VITE_MARKET_DATA_HUB_URL=http://localhost:5055/hubs/market-data for the mock server
+const HUB_URL = import.meta.env.VITE_MARKET_DATA_HUB_URL || getHubUrl('market-data');
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30 * 1000;
+const POLL_INTERVAL = 5 * 1000;
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  bidPrice?: number;
+  askPrice?: number;
+  bidSize?: number;
+  askSize?: number;
+  volume: number;
+  change: number;
+  changePercent: number;
+  dayHigh?: number;
+  dayLow?: number;
+  previousClose?: number;
+  timestamp: Date;
+  dataSource?: string;
+}
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'polling';
+
+export interface ConnectionStatus {
+  connected: boolean;
+  state: ConnectionState;
+  error?: string;
+  reconnectAttempt?: number;
+}
+
+export type QuoteCallback = (quote: Quote) => void;
+export type ConnectionStatusCallback = (status: ConnectionStatus) => void;
+
+// Exponential backoff with jitter so a fleet of clients doesn't reconnect in lockstep
+export const getReconnectDelay = (attempt: number): number => {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : undefined;
+};
+
+// Hub payloads are the backend `Quote` record serialized in camelCase
+const normalizeHubQuote = (raw: Record<string, unknown>): Quote | null => {
+  const symbol = typeof raw.symbol === 'string' ? raw.symbol.toUpperCase() : '';
+  const price = toNumber(raw.price);
+  if (!symbol || price === undefined) return null;
+
+  return {
+    symbol,
+    price,
+    bidPrice: toNumber(raw.bidPrice),
+    askPrice: toNumber(raw.askPrice),
+    bidSize: toNumber(raw.bidSize),
+    askSize: toNumber(raw.askSize),
+    volume: toNumber(raw.volume) ?? 0,
+    change: toNumber(raw.change) ?? 0,
+    changePercent: toNumber(raw.changePercent) ?? 0,
+    dayHigh: toNumber(raw.dayHigh),
+    dayLow: toNumber(raw.dayLow),
+    previousClose: toNumber(raw.previousClose),
+    timestamp: raw.timestamp ? new Date(String(raw.timestamp)) : new Date(),
+    dataSource: typeof raw.dataSource === 'string' ? raw.dataSource : undefined,
+  };
+};
+
+// `/assets/{symbol}` only carries a subset of the quote fields
+const normalizeAssetQuote = (symbol: string, raw: Record<string, unknown>): Quote | null => {
+  const price = toNumber(raw.price) ?? toNumber(raw.lastPrice);
+  if (price === undefined) return null;
+
+  const changePercent = toNumber(raw.changePercent) ?? 0;
+  const previousClose = toNumber(raw.previousClose)
+    ?? (changePercent !== 0 ? price / (1 + changePercent / 100) : undefined);
+
+  return {
+    symbol,
+    price,
+    bidPrice: toNumber(raw.bidPrice),
+    askPrice: toNumber(raw.askPrice),
+    volume: toNumber(raw.volume) ?? 0,
+    change: toNumber(raw.change) ?? (previousClose !== undefined ? price - previousClose : 0),
+    changePercent,
+    dayHigh: toNumber(raw.dayHigh),
+    dayLow: toNumber(raw.dayLow),
+    previousClose,
+    timestamp: raw.timestamp ? new Date(String(raw.timestamp)) : new Date(),
+    dataSource: 'REST',
+  };
+};
+
+// Another stream on the market data hub's connection, e.g. depth or trade prints
+export interface HubChannel {
+  events: Record<string, (payload: unknown) => void>;
+  // Runs after every connect and reconnect; the hub forgets subscriptions with the socket
+  onConnected: () => void;
+}
+
+/**
+ * Streams quotes from the backend market data hub.
+ *
+ * Any number of callbacks may subscribe to the same symbol; the hub only sees one
+ * subscription per symbol. While the socket is down, subscribed symbols are polled
+ * over REST until the connection comes back, at which point every symbol is
+ * resubscribed.
+ *
+ * Other market data streams share the connection through `attachChannel` rather than
+ * opening sockets of their own, and are restarted with it.
+ */
+export class MarketDataService {
+  private connection: HubConnection | null = null;
+  private startPromise: Promise<void> | null = null;
+  private subscribers = new Map<string, Set<QuoteCallback>>();
+  private channels = new Set<HubChannel>();
+  private statusListeners = new Set<ConnectionStatusCallback>();
+  private status: ConnectionStatus = { connected: false, state: 'disconnected' };
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private restartAttempt = 0;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+  private hubUrl: string;
+
+  constructor(hubUrl: string = HUB_URL) {
+    this.hubUrl = hubUrl;
+  }
+
+  async subscribe(symbol: string, callback: QuoteCallback): Promise<void> {
+    symbol = symbol.toUpperCase();
+    this.stopped = false;
+
+    let callbacks = this.subscribers.get(symbol);
+    const isNewSymbol = !callbacks;
+    if (!callbacks) {
+      callbacks = new Set();
+      this.subscribers.set(symbol, callbacks);
+    }
+    callbacks.add(callback);
+
+    if (!isNewSymbol) return;
+
+    if (this.connection?.state === HubConnectionState.Connected) {
+      try {
+        await this.connection.invoke('Subscribe', symbol);
+      } catch (error) {
+        this.subscribers.delete(symbol);
+        throw error;
+      }
+      return;
+    }
+
+    // Not connected yet: the symbol is picked up by resubscribeAll() once the hub is up,
+    // and served by REST polling in the meantime
+    this.ensureConnected();
+    this.pollSymbol(symbol);
+  }
+
+  async unsubscribe(symbol: string, callback: QuoteCallback): Promise<void> {
+    symbol = symbol.toUpperCase();
+    const callbacks = this.subscribers.get(symbol);
+    if (!callbacks) return;
+
+    callbacks.delete(callback);
+    if (callbacks.size > 0) return;
+
+    this.subscribers.delete(symbol);
+
+    if (this.connection?.state === HubConnectionState.Connected) {
+      await this.connection.invoke('Unsubscribe', symbol);
+    }
+
+    if (this.subscribers.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  onConnectionStatusChange(callback: ConnectionStatusCallback): () => void {
+    this.statusListeners.add(callback);
+    callback(this.status);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  getSubscribedSymbols(): string[] {
+    return Array.from(this.subscribers.keys());
+  }
+
+  // Keeps the connection up while attached; the returned function detaches
+  attachChannel(channel: HubChannel): () => void {
+    this.stopped = false;
+    this.channels.add(channel);
+    if (this.connection) {
+      this.addChannelHandlers(this.connection, channel);
+    }
+
+    if (this.isConnected()) {
+      channel.onConnected();
+    } else {
+      this.ensureConnected();
+    }
+
+    return () => {
+      this.channels.delete(channel);
+      const connection = this.connection;
+      if (connection) {
+        Object.entries(channel.events).forEach(([event, handler]) => connection.off(event, handler));
+      }
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connection?.state === HubConnectionState.Connected;
+  }
+
+  // Calls a hub method for an attached channel; rejects while the socket is down
+  async invoke(method: string, ...args: unknown[]): Promise<void> {
+    if (!this.connection || !this.isConnected()) {
+      throw new Error('Not connected to the market data hub');
+    }
+    await this.connection.invoke(method, ...args);
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.clearRestartTimer();
+    this.stopPolling();
+    if (this.connection) {
+      await this.connection.stop();
+    }
+    this.setStatus({ connected: false, state: 'disconnected' });
+  }
+
+  private ensureConnected(): void {
+    if (this.startPromise || this.restartTimer) return;
+    if (this.connection && this.connection.state !== HubConnectionState.Disconnected) return;
+
+    this.startPromise = this.start().finally(() => {
+      this.startPromise = null;
+    });
+  }
+
+  private async start(): Promise<void> {
+    const connection = this.connection ?? this.buildConnection();
+    this.connection = connection;
+
+    this.setStatus({ connected: false, state: 'connecting', reconnectAttempt: this.restartAttempt });
+
+    try {
+      await connection.start();
+      console.log('🔌 [MarketDataService] Connected to market data hub');
+      this.restartAttempt = 0;
+      await this.handleConnected();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ [MarketDataService] Failed to connect to market data hub:', message);
+      this.setStatus({ connected: false, state: 'polling', error: message, reconnectAttempt: this.restartAttempt });
+      this.startPolling();
+      this.scheduleRestart();
+    }
+  }
+
+  private buildConnection(): HubConnection {
+    const connection = new HubConnectionBuilder()
+      .withUrl(this.hubUrl, {
+        accessTokenFactory: getAccessToken,
+        transport: HttpTransportType.WebSockets,
+        skipNegotiation: true,
+      })
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: (retryContext) => getReconnectDelay(retryContext.previousRetryCount),
+      })
+      .configureLogging(LogLevel.Warning)
+      .build();
+
+    connection.on('QuoteUpdate', (payload: Record<string, unknown>) => this.handleQuote(payload));
+    connection.on('TradeUpdate', (payload: Record<string, unknown>) => this.handleQuote(payload));
+    connection.on('Error', (message: string) => {
+      console.error('❌ [MarketDataService] Hub error:', message);
+    });
+    // Upstream feed state on the server side; our own socket state is tracked separately
+    connection.on('MarketDataDisconnected', () => {
+      console.warn('⚠️ [MarketDataService] Server lost its upstream market data feed');
+    });
+    // Acknowledgements the hub sends back; subscription state is already tracked locally
+    [
+      'ConnectionStatus', 'MarketDataConnected', 'Subscribed', 'SubscribedMultiple', 'Unsubscribed', 'UnsubscribedAll',
+      'SubscribedTrades', 'UnsubscribedTrades',
+    ].forEach(method => connection.on(method, () => {}));
+    this.channels.forEach(channel => this.addChannelHandlers(connection, channel));
+
+    connection.onreconnecting((error) => {
+      console.warn('🔄 [MarketDataService] Connection lost, reconnecting...', error?.message);
+      this.setStatus({ connected: false, state: 'reconnecting', error: error?.message });
+      this.startPolling();
+    });
+
+    connection.onreconnected(() => {
+      console.log('✅ [MarketDataService] Reconnected to market data hub');
+      void this.handleConnected();
+    });
+
+    // Only reached once automatic reconnect gives up or the connection is stopped
+    connection.onclose((error) => {
+      if (this.stopped) return;
+      this.setStatus({ connected: false, state: 'polling', error: error?.message });
+      this.startPolling();
+      this.scheduleRestart();
+    });
+
+    return connection;
+  }
+
+  private addChannelHandlers(connection: HubConnection, channel: HubChannel): void {
+    Object.entries(channel.events).forEach(([event, handler]) => connection.on(event, handler));
+  }
+
+  private async handleConnected(): Promise<void> {
+    this.stopPolling();
+    this.setStatus({ connected: true, state: 'connected' });
+    this.channels.forEach(channel => channel.onConnected());
+    await this.resubscribeAll();
+  }
+
+  private async resubscribeAll(): Promise<void> {
+    const symbols = this.getSubscribedSymbols();
+    if (symbols.length === 0 || !this.connection) return;
+
+    try {
+      await this.connection.invoke('SubscribeMultiple', symbols);
+      console.log(`📡 [MarketDataService] Subscribed to ${symbols.length} symbol(s):`, symbols.join(', '));
+    } catch (error) {
+      console.error('❌ [MarketDataService] Failed to resubscribe:', error);
+    }
+  }
+
+  private scheduleRestart(): void {
+    if (this.stopped || this.restartTimer || (this.subscribers.size === 0 && this.channels.size === 0)) return;
+
+    const delay = getReconnectDelay(this.restartAttempt);
+    this.restartAttempt += 1;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.ensureConnected();
+    }, delay);
+  }
+
+  private clearRestartTimer(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private handleQuote(payload: Record<string, unknown>): void {
+    const quote = normalizeHubQuote(payload);
+    if (quote) {
+      this.dispatch(quote);
+    }
+  }
+
+  private dispatch(quote: Quote): void {
+    this.subscribers.get(quote.symbol)?.forEach(callback => {
+      try {
+        callback(quote);
+      } catch (error) {
+        console.error(`❌ [MarketDataService] Quote callback failed for ${quote.symbol}:`, error);
+      }
+    });
+  }
+
+  // REST fallback -----------------------------------------------------------
+
+  private startPolling(): void {
+    if (this.pollTimer || this.subscribers.size === 0) return;
+
+    console.log('📊 [MarketDataService] Falling back to REST polling');
+    // Set first: pollSymbol only polls while the timer is running
+    this.pollTimer = setInterval(() => this.pollAll(), POLL_INTERVAL);
+    this.pollAll();
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private pollAll(): void {
+    this.getSubscribedSymbols().forEach(symbol => this.pollSymbol(symbol));
+  }
+
+  private async pollSymbol(symbol: string): Promise<void> {
+    if (!this.pollTimer && this.status.state !== 'polling') return;
+
+    try {
+      const asset = await apiClient.getAsset(symbol);
+      // The socket may have come back while the request was in flight
+      if (this.status.connected || !this.subscribers.has(symbol)) return;
+
+      const quote = normalizeAssetQuote(symbol, asset ?? {});
+      if (quote) {
+        this.dispatch(quote);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [MarketDataService] Polling failed for ${symbol}:`, error);
+    }
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const marketDataService = new MarketDataService();
+export default marketDataService;
@@ -0,0 +1,280 @@
+import type { OrdersApi } from './api';
+import type { Order, OrderFormData, OrderReplaceRequest, OrderStatus } from '../types';
+import { buildOrderRequest, getOrderLegs, isWorkingOrder } from '../utils/orderHelpers';
+import { isOptionSymbol } from '../utils/optionHelpers';
+
+interface MockOrdersApiOptions {
+  orders?: Order[];
+  latencyMs?: number;
+}
+
+/**
+ * In-memory orders API for demos and tests. Orders stay working until they are
+ * cancelled or replaced; nothing ever fills. Replacing follows the broker's model:
+ * the old order becomes `replaced` and a new order `replaces` it.
+ */
+export class MockOrdersApi implements OrdersApi {
+  private orders: Order[];
+  private readonly latencyMs: number;
+  private nextId = 1;
+
+  constructor(options: MockOrdersApiOptions = {}) {
+    this.orders = options.orders ? [...options.orders] : [];
+    this.latencyMs = options.latencyMs ?? 150;
+  }
+
+  async getOrders(status?: string): Promise<Order[]> {
+    await this.delay();
+
+    const orders = this.orders.filter(order => {
+      if (status === 'open') return isWorkingOrder(order);
+      if (status === 'closed') return !isWorkingOrder(order);
+      return true;
+    });
+
+    return orders
+      .map(order => structuredClone(order))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async createOrder(orderData: OrderFormData): Promise<Order> {
+    await this.delay();
+
+    const request = buildOrderRequest(orderData);
+    const now = new Date().toISOString();
+    const orderClass = request.orderClass ?? 'simple';
+    const legs = getOrderLegs(request);
+    const entry = legs.find(leg => leg.role === 'entry');
+    const exits = legs.filter(leg => leg.role !== 'entry');
+
+    const parent = this.buildOrder({
+      symbol: request.symbol.toUpperCase(),
+      side: request.side,
+      type: entry?.type ?? 'limit',
+      orderClass,
+      qty: request.qty,
+      timeInForce: request.timeInForce,
+      extendedHours: request.extendedHours,
+      limitPrice: entry ? entry.limitPrice : exits[0]?.limitPrice,
+      stopPrice: entry?.stopPrice,
+      trailPrice: entry?.trailPrice,
+      trailPercent: entry?.trailPercent,
+      positionIntent: request.positionIntent,
+      createdAt: now,
+    });
+
+    // A multi-leg order's children are its contracts, working together at the parent's net price
+    if (orderClass === 'mleg') {
+      parent.assetClass = 'us_option';
+      parent.legs = (request.legs ?? []).map(leg => this.buildOrder({
+        symbol: leg.symbol,
+        side: leg.side,
+        type: parent.type,
+        orderClass,
+        qty: String((parseFloat(request.qty ?? '0') || 0) * (parseFloat(leg.ratioQty) || 1)),
+        ratioQty: leg.ratioQty,
+        positionIntent: leg.positionIntent,
+        timeInForce: parent.timeInForce,
+        extendedHours: false,
+        createdAt: now,
+      }));
+      this.orders.push(parent);
+      console.log('✅ [MockOrdersApi] Created multi-leg order:', parent);
+      return structuredClone(parent);
+    }
+
+    // An OCO's parent is its take-profit; its only child is the stop-loss
+    const children = orderClass === 'oco' ? exits.slice(1) : exits;
+    if (children.length > 0) {
+      parent.legs = children.map(leg => this.buildOrder({
+        symbol: parent.symbol,
+        side: leg.side,
+        type: leg.type,
+        orderClass,
+        qty: parent.qty,
+        timeInForce: parent.timeInForce,
+        extendedHours: false,
+        limitPrice: leg.limitPrice,
+        stopPrice: leg.stopPrice,
+        createdAt: now,
+        // Exits wait for the entry to fill; OCO legs work together
+        status: orderClass === 'oco' ? 'new' : 'held',
+      }));
+    }
+
+    this.orders.push(parent);
+    console.log('✅ [MockOrdersApi] Created order:', parent);
+    return structuredClone(parent);
+  }
+
+  async replaceOrder(orderId: string, changes: OrderReplaceRequest): Promise<Order> {
+    await this.delay();
+
+    const { order, parent } = this.findOrder(orderId);
+    if (!isWorkingOrder(order)) {
+      throw new Error(`Order ${orderId} cannot be replaced while ${order.status}`);
+    }
+
+    const now = new Date().toISOString();
+    const replacement: Order = {
+      ...order,
+      ...changes,
+      id: this.generateId(),
+      clientOrderId: undefined,
+      replaces: order.id,
+      replacedBy: undefined,
+      replacedAt: undefined,
+      createdAt: now,
+      updatedAt: now,
+      submittedAt: now,
+      status: order.status === 'held' ? 'held' : 'new',
+      legs: order.legs,
+    };
+
+    order.status = 'replaced';
+    order.replacedBy = replacement.id;
+    order.replacedAt = now;
+    order.updatedAt = now;
+    order.legs = undefined;
+
+    // Legs are replaced in place under their parent so the group stays together
+    if (parent?.legs) {
+      parent.legs = parent.legs.map(leg => leg.id === order.id ? replacement : leg);
+      this.orders.push(order);
+    } else {
+      this.orders.push(replacement);
+    }
+
+    console.log(`🔁 [MockOrdersApi] Replaced order ${orderId} with ${replacement.id}`);
+    return structuredClone(replacement);
+  }
+
+  async cancelOrder(orderId: string): Promise<{ success: boolean }> {
+    await this.delay();
+
+    const { order } = this.findOrder(orderId);
+    if (!isWorkingOrder(order)) {
+      throw new Error(`Order ${orderId} cannot be cancelled while ${order.status}`);
+    }
+
+    const now = new Date().toISOString();
+    [order, ...(order.legs ?? [])].forEach(o => {
+      if (isWorkingOrder(o)) {
+        o.status = 'canceled';
+        o.canceledAt = now;
+        o.updatedAt = now;
+      }
+    });
+
+    console.log(`🗑️ [MockOrdersApi] Cancelled order ${orderId}`);
+    return { success: true };
+  }
+
+  // Replace all orders (for tests)
+  reset(orders: Order[] = []): void {
+    this.orders = [...orders];
+  }
+
+  private findOrder(orderId: string): { order: Order; parent?: Order } {
+    for (const order of this.orders) {
+      if (order.id === orderId) return { order };
+      const leg = order.legs?.find(l => l.id === orderId);
+      if (leg) return { order: leg, parent: order };
+    }
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  private buildOrder(fields: Partial<Order> & Pick<Order, 'symbol' | 'side' | 'type' | 'timeInForce' | 'createdAt'> & {
+    status?: OrderStatus;
+  }): Order {
+    return {
+      assetId: `${fields.symbol.toLowerCase()}_id`,
+      assetClass: isOptionSymbol(fields.symbol) ? 'us_option' : 'us_equity',
+      filledQty: '0',
+      extendedHours: false,
+      status: 'new',
+      ...fields,
+      id: this.generateId(),
+      clientOrderId: `mock-${Date.now()}`,
+      updatedAt: fields.createdAt,
+      submittedAt: fields.createdAt,
+    };
+  }
+
+  private generateId(): string {
+    return `mock-order-${this.nextId++}`;
+  }
+
+  private delay(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+  }
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+/**
+ * Sample orders for the dev-mode provider: a fill, working limit/stop orders,
+ * a bracket with its legs, a trailing stop and a limit that was amended once.
+ */
+export const createDemoOrders = (): Order[] => [
+  {
+    id: 'demo-1', clientOrderId: 'demo-client-1', createdAt: minutesAgo(30), updatedAt: minutesAgo(25),
+    submittedAt: minutesAgo(30), filledAt: minutesAgo(25), assetId: 'aapl_id', symbol: 'AAPL', assetClass: 'us_equity',
+    qty: '100', filledQty: '100', filledAvgPrice: '190.25', side: 'buy', type: 'market', orderClass: 'simple',
+    timeInForce: 'day', status: 'filled', extendedHours: false,
+  },
+  {
+    id: 'demo-2', clientOrderId: 'demo-client-2', createdAt: minutesAgo(120), updatedAt: minutesAgo(120),
+    submittedAt: minutesAgo(120), assetId: 'googl_id', symbol: 'GOOGL', assetClass: 'us_equity',
+    qty: '50', filledQty: '25', filledAvgPrice: '275.50', side: 'buy', type: 'limit', orderClass: 'simple',
+    timeInForce: 'gtc', limitPrice: '275.00', status: 'partially_filled', extendedHours: false,
+  },
+  {
+    id: 'demo-3a', clientOrderId: 'demo-client-3a', createdAt: minutesAgo(20), updatedAt: minutesAgo(15),
+    submittedAt: minutesAgo(20), replacedAt: minutesAgo(15), replacedBy: 'demo-3', assetId: 'msft_id', symbol: 'MSFT',
+    assetClass: 'us_equity', qty: '75', filledQty: '0', side: 'sell', type: 'limit', orderClass: 'simple',
+    timeInForce: 'day', limitPrice: '360.00', status: 'replaced', extendedHours: false,
+  },
+  {
+    id: 'demo-3', clientOrderId: 'demo-client-3', createdAt: minutesAgo(15), updatedAt: minutesAgo(15),
+    submittedAt: minutesAgo(15), replaces: 'demo-3a', assetId: 'msft_id', symbol: 'MSFT', assetClass: 'us_equity',
+    qty: '75', filledQty: '0', side: 'sell', type: 'limit', orderClass: 'simple',
+    timeInForce: 'day', limitPrice: '355.00', status: 'new', extendedHours: false,
+  },
+  {
+    id: 'demo-4', clientOrderId: 'demo-client-4', createdAt: minutesAgo(240), updatedAt: minutesAgo(180),
+    submittedAt: minutesAgo(240), canceledAt: minutesAgo(180), assetId: 'tsla_id', symbol: 'TSLA', assetClass: 'us_equity',
+    qty: '30', filledQty: '0', side: 'sell', type: 'stop', orderClass: 'simple',
+    timeInForce: 'gtc', stopPrice: '240.00', status: 'canceled', extendedHours: false,
+  },
+  {
+    id: 'demo-5', clientOrderId: 'demo-client-5', createdAt: minutesAgo(45), updatedAt: minutesAgo(40),
+    submittedAt: minutesAgo(45), filledAt: minutesAgo(40), assetId: 'nvda_id', symbol: 'NVDA', assetClass: 'us_equity',
+    qty: '20', filledQty: '20', filledAvgPrice: '875.40', side: 'buy', type: 'limit', orderClass: 'bracket',
+    timeInForce: 'gtc', limitPrice: '875.50', status: 'filled', extendedHours: false,
+    legs: [
+      {
+        id: 'demo-5-tp', clientOrderId: 'demo-client-5-tp', createdAt: minutesAgo(45), updatedAt: minutesAgo(40),
+        submittedAt: minutesAgo(40), assetId: 'nvda_id', symbol: 'NVDA', assetClass: 'us_equity',
+        qty: '20', filledQty: '0', side: 'sell', type: 'limit', orderClass: 'bracket',
+        timeInForce: 'gtc', limitPrice: '920.00', status: 'new', extendedHours: false,
+      },
+      {
+        id: 'demo-5-sl', clientOrderId: 'demo-client-5-sl', createdAt: minutesAgo(45), updatedAt: minutesAgo(40),
+        submittedAt: minutesAgo(40), assetId: 'nvda_id', symbol: 'NVDA', assetClass: 'us_equity',
+        qty: '20', filledQty: '0', side: 'sell', type: 'stop', orderClass: 'bracket',
+        timeInForce: 'gtc', stopPrice: '850.00', status: 'held', extendedHours: false,
+      },
+    ],
+  },
+  {
+    id: 'demo-6', clientOrderId: 'demo-client-6', createdAt: minutesAgo(10), updatedAt: minutesAgo(10),
+    submittedAt: minutesAgo(10), assetId: 'amzn_id', symbol: 'AMZN', assetClass: 'us_equity',
+    qty: '40', filledQty: '0', side: 'sell', type: 'trailing_stop', orderClass: 'simple',
+    timeInForce: 'gtc', trailPercent: '2.5', hwm: '186.20', status: 'new', extendedHours: false,
+  },
+];
+
+// Backs the dev-mode provider (see defaultOrdersApi), seeded with the demo orders
+export const mockOrdersApi = new MockOrdersApi({ orders: createDemoOrders() });
+export default mockOrdersApi;
@@ -0,0 +1,85 @@
+import type { PositionsApi } from './api';
+import type { Position } from '../types';
+import { formatOptionSymbol, getContractMultiplier } from '../utils/optionHelpers';
+
+interface MockPositionsApiOptions {
+  positions?: Position[];
+  latencyMs?: number;
+}
+
+/**
+ * In-memory positions API for the dev-mode provider and tests. Prices are static.
+ */
+export class MockPositionsApi implements PositionsApi {
+  private positions: Position[];
+  private readonly latencyMs: number;
+
+  constructor(options: MockPositionsApiOptions = {}) {
+    this.positions = options.positions ? [...options.positions] : [];
+    this.latencyMs = options.latencyMs ?? 150;
+  }
+
+  async getPositions(): Promise<Position[]> {
+    await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    return this.positions.map(position => structuredClone(position));
+  }
+
+  // Replace all positions (for tests)
+  reset(positions: Position[] = []): void {
+    this.positions = [...positions];
+  }
+}
+
+const demoPosition = (
+  symbol: string,
+  qty: number,
+  avgEntryPrice: number,
+  currentPrice: number,
+  lastdayPrice: number
+): Position => {
+  // Option prices are per share; values cover the contract's shares
+  const multiplier = getContractMultiplier({ symbol });
+  const marketValue = qty * currentPrice * multiplier;
+  const costBasis = qty * avgEntryPrice * multiplier;
+  return {
+    assetId: `${symbol.toLowerCase()}_id`,
+    symbol,
+    exchange: multiplier > 1 ? 'OPRA' : 'NASDAQ',
+    assetClass: multiplier > 1 ? 'us_option' : 'us_equity',
+    avgEntryPrice: avgEntryPrice.toFixed(2),
+    qty: String(qty),
+    side: qty < 0 ? 'short' : 'long',
+    marketValue: marketValue.toFixed(2),
+    costBasis: costBasis.toFixed(2),
+    unrealizedPl: (marketValue - costBasis).toFixed(2),
+    unrealizedPlpc: ((marketValue - costBasis) / Math.abs(costBasis)).toFixed(4),
+    unrealizedIntradayPl: (qty * (currentPrice - lastdayPrice) * multiplier).toFixed(2),
+    unrealizedIntradayPlpc: ((currentPrice - lastdayPrice) / lastdayPrice).toFixed(4),
+    currentPrice: currentPrice.toFixed(2),
+    lastdayPrice: lastdayPrice.toFixed(2),
+    changeToday: ((currentPrice - lastdayPrice) / lastdayPrice).toFixed(4),
+  };
+};
+
+// Third Friday of next month, so the demo contract hasn't expired
+const nextMonthlyExpiration = (): string => {
+  const now = new Date();
+  const first = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const third = new Date(first.getFullYear(), first.getMonth(), 1 + ((5 - first.getDay() + 7) % 7) + 14);
+  return `${third.getFullYear()}-${String(third.getMonth() + 1).padStart(2, '0')}-${String(third.getDate()).padStart(2, '0')}`;
+};
+
+export const createDemoPositions = (): Position[] => [
+  demoPosition('AAPL', 50, 180.0, 190.0, 188.5),
+  demoPosition('GOOGL', 10, 280.0, 275.0, 276.2),
+  demoPosition('MSFT', 25, 330.0, 350.0, 348.75),
+  demoPosition('TSLA', 15, 280.0, 250.0, 252.3),
+  demoPosition(
+    formatOptionSymbol({ underlyingSymbol: 'AAPL', expirationDate: nextMonthlyExpiration(), type: 'call', strikePrice: 195 }),
+    2, 3.4, 4.15, 3.9
+  ),
+];
+
+// Backs the dev-mode provider (see defaultPositionsApi), seeded with the demo positions
+export const mockPositionsApi = new MockPositionsApi({ positions: createDemoPositions() });
+export default mockPositionsApi;
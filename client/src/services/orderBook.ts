@@ -0,0 +1,170 @@
+// Level 2 order book model for the depth panel.
+//
+// Feeds speak a snapshot-plus-delta protocol: a full `snapshot` of both sides,
+// then `delta` messages that set a level's size (0 removes it). Every message
+// carries a per-symbol sequence number; a gap means deltas were lost and the
+// book has to be rebuilt from a fresh snapshot.
+
+export type BookSide = 'bid' | 'ask';
+
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
+export interface BookSnapshotMessage {
+  type: 'snapshot';
+  symbol: string;
+  sequence: number;
+  bids: BookLevel[];
+  asks: BookLevel[];
+  timestamp: number;
+}
+
+export interface BookDeltaMessage {
+  type: 'delta';
+  symbol: string;
+  sequence: number;
+  changes: Array<{ side: BookSide; price: number; size: number }>;
+  timestamp: number;
+}
+
+export type BookMessage = BookSnapshotMessage | BookDeltaMessage;
+
+// Sorted book: bids best (highest) first, asks best (lowest) first
+export interface OrderBookState {
+  symbol: string;
+  sequence: number;
+  bids: BookLevel[];
+  asks: BookLevel[];
+  timestamp: number;
+}
+
+export interface LadderRow {
+  side: BookSide;
+  price: number;
+  size: number;
+  cumulativeSize: number;
+}
+
+export interface DepthLadder {
+  bids: LadderRow[]; // best first
+  asks: LadderRow[]; // best first
+  maxCumulativeSize: number;
+  spread?: number;
+  midPrice?: number;
+}
+
+// Price grouping steps offered in the depth panel
+export const PRICE_GROUPINGS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 5];
+
+// Keys prices by cent so float noise in deltas doesn't create duplicate levels
+const priceKey = (price: number): number => Math.round(price * 100);
+
+/**
+ * Keeps one symbol's book in sync with a feed. `apply` returns false when the
+ * message can't be applied (sequence gap, or deltas before the first snapshot);
+ * the caller should then ask the feed for a new snapshot.
+ */
+export class OrderBook {
+  readonly symbol: string;
+  private bids = new Map<number, BookLevel>();
+  private asks = new Map<number, BookLevel>();
+  private sequence = -1;
+  private timestamp = 0;
+
+  constructor(symbol: string) {
+    this.symbol = symbol.toUpperCase();
+  }
+
+  get isSynced(): boolean {
+    return this.sequence >= 0;
+  }
+
+  apply(message: BookMessage): boolean {
+    if (message.symbol.toUpperCase() !== this.symbol) return true;
+
+    if (message.type === 'snapshot') {
+      this.bids = new Map(message.bids.filter(l => l.size > 0).map(l => [priceKey(l.price), l]));
+      this.asks = new Map(message.asks.filter(l => l.size > 0).map(l => [priceKey(l.price), l]));
+      this.sequence = message.sequence;
+      this.timestamp = message.timestamp;
+      return true;
+    }
+
+    // Replayed or stale delta
+    if (this.isSynced && message.sequence <= this.sequence) return true;
+
+    if (!this.isSynced || message.sequence !== this.sequence + 1) {
+      this.sequence = -1;
+      return false;
+    }
+
+    message.changes.forEach(({ side, price, size }) => {
+      const levels = side === 'bid' ? this.bids : this.asks;
+      if (size > 0) {
+        levels.set(priceKey(price), { price, size });
+      } else {
+        levels.delete(priceKey(price));
+      }
+    });
+    this.sequence = message.sequence;
+    this.timestamp = message.timestamp;
+    return true;
+  }
+
+  getState(): OrderBookState {
+    return {
+      symbol: this.symbol,
+      sequence: this.sequence,
+      bids: Array.from(this.bids.values()).sort((a, b) => b.price - a.price),
+      asks: Array.from(this.asks.values()).sort((a, b) => a.price - b.price),
+      timestamp: this.timestamp,
+    };
+  }
+}
+
+/**
+ * Merge levels into price buckets of `grouping`. Bids round down and asks round up,
+ * so a bucket never shows a better price than the orders inside it.
+ */
+export const groupLevels = (levels: BookLevel[], grouping: number, side: BookSide): BookLevel[] => {
+  const buckets = new Map<number, number>();
+  const step = priceKey(grouping);
+
+  levels.forEach(({ price, size }) => {
+    const key = priceKey(price);
+    const bucket = side === 'bid' ? Math.floor(key / step) * step : Math.ceil(key / step) * step;
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + size);
+  });
+
+  return Array.from(buckets.entries())
+    .map(([bucket, size]) => ({ price: bucket / 100, size }))
+    .sort((a, b) => side === 'bid' ? b.price - a.price : a.price - b.price);
+};
+
+/**
+ * Grouped, cumulative ladder for display, limited to `depth` rows per side.
+ */
+export const buildDepthLadder = (book: OrderBookState, grouping: number, depth: number): DepthLadder => {
+  const toRows = (levels: BookLevel[], side: BookSide): LadderRow[] => {
+    let cumulativeSize = 0;
+    return groupLevels(levels, grouping, side).slice(0, depth).map(level => {
+      cumulativeSize += level.size;
+      return { side, price: level.price, size: level.size, cumulativeSize };
+    });
+  };
+
+  const bids = toRows(book.bids, 'bid');
+  const asks = toRows(book.asks, 'ask');
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+
+  return {
+    bids,
+    asks,
+    maxCumulativeSize: Math.max(bids[bids.length - 1]?.cumulativeSize ?? 0, asks[asks.length - 1]?.cumulativeSize ?? 0),
+    spread: bestBid !== undefined && bestAsk !== undefined ? bestAsk - bestBid : undefined,
+    midPrice: bestBid !== undefined && bestAsk !== undefined ? (bestAsk + bestBid) / 2 : undefined,
+  };
+};
@@ -0,0 +1,80 @@
+import type { PriceAlert, PriceAlertInput } from '../types';
+
+const STORAGE_KEY = 'hingetrade_price_alerts';
+
+export class PriceAlertService {
+  // Save alerts to localStorage
+  private saveToStorage(alerts: PriceAlert[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(alerts));
+    } catch (error) {
+      console.error('❌ [PriceAlertService] Failed to save to localStorage:', error);
+    }
+  }
+
+  // Load alerts from localStorage
+  private loadFromStorage(): PriceAlert[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('❌ [PriceAlertService] Failed to load from localStorage:', error);
+    }
+
+    return [];
+  }
+
+  async getAlerts(): Promise<PriceAlert[]> {
+    return this.loadFromStorage();
+  }
+
+  async createAlert(input: PriceAlertInput): Promise<PriceAlert> {
+    const now = new Date().toISOString();
+    const alert: PriceAlert = {
+      ...input,
+      id: `alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      symbol: input.symbol.toUpperCase(),
+      createdAt: now,
+      updatedAt: now,
+      triggerHistory: [],
+    };
+
+    this.saveToStorage([...this.loadFromStorage(), alert]);
+    console.log('✅ [PriceAlertService] Created alert:', alert);
+    return alert;
+  }
+
+  async updateAlert(alertId: string, updates: Partial<PriceAlert>): Promise<PriceAlert> {
+    const alerts = this.loadFromStorage();
+    const existing = alerts.find(a => a.id === alertId);
+    if (!existing) {
+      throw new Error(`Price alert ${alertId} not found`);
+    }
+
+    const updated: PriceAlert = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.saveToStorage(alerts.map(a => a.id === alertId ? updated : a));
+    return updated;
+  }
+
+  async deleteAlert(alertId: string): Promise<{ success: boolean }> {
+    this.saveToStorage(this.loadFromStorage().filter(a => a.id !== alertId));
+    console.log(`🗑️ [PriceAlertService] Deleted alert ${alertId}`);
+    return { success: true };
+  }
+
+  // Clear all data (for testing/reset)
+  clearStorage(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const priceAlertService = new PriceAlertService();
+export default priceAlertService;
@@ -0,0 +1,78 @@
+import type { Scan, ScanInput } from '../types';
+
+const STORAGE_KEY = 'hingetrade_scans';
+
+export class ScanService {
+  // Save scans to localStorage
+  private saveToStorage(scans: Scan[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(scans));
+    } catch (error) {
+      console.error('❌ [ScanService] Failed to save to localStorage:', error);
+    }
+  }
+
+  // Load scans from localStorage
+  private loadFromStorage(): Scan[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('❌ [ScanService] Failed to load from localStorage:', error);
+    }
+
+    return [];
+  }
+
+  async getScans(): Promise<Scan[]> {
+    return this.loadFromStorage();
+  }
+
+  async createScan(input: ScanInput): Promise<Scan> {
+    const now = new Date().toISOString();
+    const scan: Scan = {
+      ...input,
+      id: `scan-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.saveToStorage([...this.loadFromStorage(), scan]);
+    console.log('✅ [ScanService] Saved scan:', scan.name);
+    return scan;
+  }
+
+  async updateScan(scanId: string, updates: Partial<ScanInput>): Promise<Scan> {
+    const scans = this.loadFromStorage();
+    const existing = scans.find(s => s.id === scanId);
+    if (!existing) {
+      throw new Error(`Scan ${scanId} not found`);
+    }
+
+    const updated: Scan = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.saveToStorage(scans.map(s => s.id === scanId ? updated : s));
+    return updated;
+  }
+
+  async deleteScan(scanId: string): Promise<{ success: boolean }> {
+    this.saveToStorage(this.loadFromStorage().filter(s => s.id !== scanId));
+    console.log(`🗑️ [ScanService] Deleted scan ${scanId}`);
+    return { success: true };
+  }
+
+  // Clear all data (for testing/reset)
+  clearStorage(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const scanService = new ScanService();
+export default scanService;
@@ -0,0 +1,175 @@
+import type { BookMessageCallback, DepthFeed } from './depthFeed';
+import type { BookLevel, BookSide } from './orderBook';
+
+interface SimulatedDepthFeedOptions {
+  levels?: number; // price levels kept on each side
+  intervalMs?: number; // time between deltas
+  // Fraction of deltas silently dropped, to exercise gap detection and resync
+  dropRate?: number;
+  random?: () => number;
+}
+
+interface SimulatedBook {
+  symbol: string;
+  sequence: number;
+  mid: number; // in cents, halfway between best bid and best ask
+  bids: Map<number, number>; // cents -> size
+  asks: Map<number, number>;
+  callbacks: Set<BookMessageCallback>;
+  timer: ReturnType<typeof setInterval>;
+}
+
+// Stable starting price per symbol, so switching back and forth looks familiar
+const initialMid = (symbol: string): number => {
+  const hash = Array.from(symbol).reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) % 100000, 7);
+  return 5000 + (hash % 45000);
+};
+
+/**
+ * Generates a random-walk order book locally, speaking the same snapshot-plus-delta
+ * protocol as the hub feed. Used unless `VITE_DEPTH_PROVIDER=hub`.
+ */
+export class SimulatedDepthFeed implements DepthFeed {
+  private books = new Map<string, SimulatedBook>();
+  private levels: number;
+  private intervalMs: number;
+  private dropRate: number;
+  private random: () => number;
+
+  constructor(options: SimulatedDepthFeedOptions = {}) {
+    this.levels = options.levels ?? 40;
+    this.intervalMs = options.intervalMs ?? 250;
+    this.dropRate = options.dropRate ?? 0;
+    this.random = options.random ?? Math.random;
+  }
+
+  subscribe(symbol: string, callback: BookMessageCallback): () => void {
+    symbol = symbol.toUpperCase();
+
+    let book = this.books.get(symbol);
+    if (!book) {
+      book = this.createBook(symbol);
+      this.books.set(symbol, book);
+    }
+    book.callbacks.add(callback);
+    // Each subscriber starts from a snapshot
+    this.sendSnapshot(book, callback);
+
+    return () => {
+      const current = this.books.get(symbol);
+      if (!current) return;
+      current.callbacks.delete(callback);
+      if (current.callbacks.size === 0) {
+        clearInterval(current.timer);
+        this.books.delete(symbol);
+      }
+    };
+  }
+
+  resync(symbol: string): void {
+    const book = this.books.get(symbol.toUpperCase());
+    if (!book) return;
+    book.callbacks.forEach(callback => this.sendSnapshot(book, callback));
+  }
+
+  private createBook(symbol: string): SimulatedBook {
+    const book: SimulatedBook = {
+      symbol,
+      sequence: 0,
+      mid: initialMid(symbol),
+      bids: new Map(),
+      asks: new Map(),
+      callbacks: new Set(),
+      timer: setInterval(() => this.tick(book), this.intervalMs),
+    };
+    this.refill(book);
+    return book;
+  }
+
+  private randomSize(): number {
+    return (1 + Math.floor(this.random() * 20)) * 100;
+  }
+
+  private bestPrices(book: SimulatedBook): { bestBid: number; bestAsk: number } {
+    return { bestBid: book.mid - 1, bestAsk: book.mid + 1 };
+  }
+
+  // Trim crossed and out-of-range levels and fill any holes; returns the changes made
+  private refill(book: SimulatedBook): Array<{ side: BookSide; price: number; size: number }> {
+    const changes: Array<{ side: BookSide; price: number; size: number }> = [];
+    const { bestBid, bestAsk } = this.bestPrices(book);
+
+    const sync = (side: BookSide, levels: Map<number, number>, best: number, direction: 1 | -1) => {
+      const worst = best + direction * (this.levels - 1);
+      Array.from(levels.keys()).forEach(cents => {
+        const outside = direction === -1 ? cents > best || cents < worst : cents < best || cents > worst;
+        if (outside) {
+          levels.delete(cents);
+          changes.push({ side, price: cents / 100, size: 0 });
+        }
+      });
+      for (let i = 0; i < this.levels; i++) {
+        const cents = best + direction * i;
+        if (!levels.has(cents)) {
+          const size = this.randomSize();
+          levels.set(cents, size);
+          changes.push({ side, price: cents / 100, size });
+        }
+      }
+    };
+
+    sync('bid', book.bids, bestBid, -1);
+    sync('ask', book.asks, bestAsk, 1);
+    return changes;
+  }
+
+  private tick(book: SimulatedBook): void {
+    const roll = this.random();
+    if (roll < 0.15) {
+      book.mid -= 1;
+    } else if (roll < 0.3) {
+      book.mid += 1;
+    }
+
+    const changes = this.refill(book);
+
+    // Resize a few levels, concentrated near the inside
+    const updates = 1 + Math.floor(this.random() * 4);
+    for (let i = 0; i < updates; i++) {
+      const side: BookSide = this.random() < 0.5 ? 'bid' : 'ask';
+      const levels = side === 'bid' ? book.bids : book.asks;
+      const { bestBid, bestAsk } = this.bestPrices(book);
+      const offset = Math.floor(Math.pow(this.random(), 2) * this.levels);
+      const cents = side === 'bid' ? bestBid - offset : bestAsk + offset;
+      const size = this.randomSize();
+      levels.set(cents, size);
+      changes.push({ side, price: cents / 100, size });
+    }
+
+    book.sequence += 1;
+    if (this.random() < this.dropRate) return;
+
+    const message = {
+      type: 'delta' as const,
+      symbol: book.symbol,
+      sequence: book.sequence,
+      changes,
+      timestamp: Date.now(),
+    };
+    book.callbacks.forEach(callback => callback(message));
+  }
+
+  private sendSnapshot(book: SimulatedBook, callback: BookMessageCallback): void {
+    const toLevels = (levels: Map<number, number>): BookLevel[] =>
+      Array.from(levels.entries()).map(([cents, size]) => ({ price: cents / 100, size }));
+
+    callback({
+      type: 'snapshot',
+      symbol: book.symbol,
+      sequence: book.sequence,
+      bids: toLevels(book.bids),
+      asks: toLevels(book.asks),
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -0,0 +1,208 @@
+import type { OptionsApi } from './api';
+import type { OptionChain, OptionContract, OptionGreeks, OptionType } from '../types';
+import { OPTION_CONTRACT_MULTIPLIER, formatOptionSymbol } from '../utils/optionHelpers';
+
+interface SimulatedOptionsApiOptions {
+  // Live price of the underlying; symbols without one get a stable made-up price
+  getUnderlyingPrice?: (symbol: string) => number | undefined;
+  strikesPerSide?: number; // strikes listed above and below the money
+  latencyMs?: number;
+  now?: () => Date;
+}
+
+const RISK_FREE_RATE = 0.04;
+const WEEKLY_EXPIRATIONS = 6;
+const MONTHLY_EXPIRATIONS = 9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashString = (value: string): number =>
+  Array.from(value).reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) % 1000003, 7);
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Abramowitz-Stegun approximation, accurate to ~1e-7
+const normalCdf = (x: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const normalPdf = (x: number): number => Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+
+// Black-Scholes price and greeks; theta per calendar day, vega and rho per point
+const priceOption = (
+  type: OptionType,
+  spot: number,
+  strike: number,
+  years: number,
+  vol: number
+): { price: number; greeks: OptionGreeks } => {
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (RISK_FREE_RATE + vol * vol / 2) * years) / (vol * sqrtT);
+  const d2 = d1 - vol * sqrtT;
+  const discount = Math.exp(-RISK_FREE_RATE * years);
+  const decay = -spot * normalPdf(d1) * vol / (2 * sqrtT);
+  const gamma = normalPdf(d1) / (spot * vol * sqrtT);
+  const vega = spot * normalPdf(d1) * sqrtT / 100;
+
+  if (type === 'call') {
+    return {
+      price: spot * normalCdf(d1) - strike * discount * normalCdf(d2),
+      greeks: {
+        delta: normalCdf(d1),
+        gamma,
+        theta: (decay - RISK_FREE_RATE * strike * discount * normalCdf(d2)) / 365,
+        vega,
+        rho: strike * years * discount * normalCdf(d2) / 100,
+      },
+    };
+  }
+
+  return {
+    price: strike * discount * normalCdf(-d2) - spot * normalCdf(-d1),
+    greeks: {
+      delta: normalCdf(d1) - 1,
+      gamma,
+      theta: (decay + RISK_FREE_RATE * strike * discount * normalCdf(-d2)) / 365,
+      vega,
+      rho: -strike * years * discount * normalCdf(-d2) / 100,
+    },
+  };
+};
+
+// Listed strike spacing for the price range
+const getStrikeStep = (price: number): number => {
+  if (price < 25) return 0.5;
+  if (price < 100) return 1;
+  if (price < 250) return 2.5;
+  if (price < 1000) return 5;
+  return 10;
+};
+
+const roundToTick = (price: number, direction: 'down' | 'up'): number => {
+  // Penny increments under $3, nickels above
+  const tick = price < 3 ? 0.01 : 0.05;
+  const ticks = direction === 'down' ? Math.floor(price / tick + 1e-9) : Math.ceil(price / tick - 1e-9);
+  return Math.round(ticks * tick * 100) / 100;
+};
+
+/**
+ * Generates option chains locally: weekly and monthly expirations, strikes around the
+ * underlying, and Black-Scholes quotes and greeks on a volatility smile.
+ * Used unless `VITE_OPTIONS_PROVIDER=api`.
+ */
+export class SimulatedOptionsApi implements OptionsApi {
+  private getUnderlyingPrice: (symbol: string) => number | undefined;
+  private strikesPerSide: number;
+  private latencyMs: number;
+  private now: () => Date;
+
+  constructor(options: SimulatedOptionsApiOptions = {}) {
+    this.getUnderlyingPrice = options.getUnderlyingPrice ?? (() => undefined);
+    this.strikesPerSide = options.strikesPerSide ?? 20;
+    this.latencyMs = options.latencyMs ?? 150;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async getOptionExpirations(): Promise<string[]> {
+    await this.delay();
+    return this.listExpirations();
+  }
+
+  async getOptionChain(underlyingSymbol: string, expirationDate: string): Promise<OptionChain> {
+    await this.delay();
+
+    const symbol = underlyingSymbol.toUpperCase();
+    const spot = this.priceOf(symbol);
+    const step = getStrikeStep(spot);
+    const atm = Math.round(spot / step) * step;
+    // Expiring at the 4pm close; a floor keeps same-day contracts priceable
+    const expiry = new Date(`${expirationDate}T16:00:00`);
+    const years = Math.max((expiry.getTime() - this.now().getTime()) / (365 * DAY_MS), 1 / (365 * 24));
+    const baseVol = 0.2 + (hashString(symbol) % 40) / 100;
+
+    const contracts: OptionContract[] = [];
+    for (let i = -this.strikesPerSide; i <= this.strikesPerSide; i++) {
+      const strike = Math.round((atm + i * step) * 100) / 100;
+      if (strike <= 0) continue;
+      (['call', 'put'] as const).forEach(type => {
+        contracts.push(this.buildContract(symbol, expirationDate, type, strike, spot, years, baseVol));
+      });
+    }
+
+    return { underlyingSymbol: symbol, underlyingPrice: spot, expirationDate, contracts };
+  }
+
+  private listExpirations(): string[] {
+    const today = this.now();
+    const dates = new Set<string>();
+
+    // Weekly Fridays, starting after today
+    const friday = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+    friday.setDate(friday.getDate() + ((5 - friday.getDay() + 7) % 7));
+    for (let i = 0; i < WEEKLY_EXPIRATIONS; i++) {
+      dates.add(toDateString(new Date(friday.getFullYear(), friday.getMonth(), friday.getDate() + i * 7)));
+    }
+
+    // Standard monthlies: the third Friday of each month
+    for (let i = 0; i <= MONTHLY_EXPIRATIONS; i++) {
+      const first = new Date(today.getFullYear(), today.getMonth() + i, 1);
+      const third = new Date(first.getFullYear(), first.getMonth(), 1 + ((5 - first.getDay() + 7) % 7) + 14);
+      if (third > today) dates.add(toDateString(third));
+    }
+
+    return Array.from(dates).sort();
+  }
+
+  private buildContract(
+    underlyingSymbol: string,
+    expirationDate: string,
+    type: OptionType,
+    strikePrice: number,
+    spot: number,
+    years: number,
+    baseVol: number
+  ): OptionContract {
+    const symbol = formatOptionSymbol({ underlyingSymbol, expirationDate, type, strikePrice });
+    const moneyness = Math.log(strikePrice / spot);
+    // Smile with a put skew: wings and lower strikes trade richer
+    const vol = Math.max(0.05, baseVol + 0.8 * moneyness * moneyness - 0.15 * moneyness);
+    const { price, greeks } = priceOption(type, spot, strikePrice, years, vol);
+
+    const halfSpread = Math.max(0.01, price * 0.03);
+    const bid = Math.max(0, roundToTick(price - halfSpread, 'down'));
+    const ask = Math.max(bid + 0.01, roundToTick(price + halfSpread, 'up'));
+    // Interest clusters at the money
+    const seed = hashString(symbol);
+    const liquidity = Math.exp(-moneyness * moneyness * 40);
+    const openInterest = Math.round((500 + seed % 20000) * liquidity);
+
+    return {
+      symbol,
+      underlyingSymbol,
+      type,
+      strikePrice,
+      expirationDate,
+      multiplier: OPTION_CONTRACT_MULTIPLIER,
+      bid,
+      ask: Math.round(ask * 100) / 100,
+      last: Math.round(price * 100) / 100,
+      volume: Math.round(openInterest * ((seed % 30) / 100)),
+      openInterest,
+      impliedVolatility: vol,
+      greeks,
+    };
+  }
+
+  private priceOf(symbol: string): number {
+    const live = this.getUnderlyingPrice(symbol);
+    if (live !== undefined && live > 0) return live;
+    return 50 + (hashString(symbol) % 45000) / 100;
+  }
+
+  private delay(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+  }
+}
@@ -0,0 +1,131 @@
+import type { TapeFeed, TradePrintsCallback } from './tapeFeed';
+import type { TradePrint } from './timeSales';
+
+interface SimulatedTapeFeedOptions {
+  printsPerSecond?: number; // average rate; bursts run several times higher
+  intervalMs?: number; // time between batches
+  random?: () => number;
+}
+
+interface SimulatedTape {
+  symbol: string;
+  price: number; // in cents
+  nextId: number;
+  callbacks: Set<TradePrintsCallback>;
+  timer: ReturnType<typeof setInterval>;
+  burstTicks: number; // batches left in the current burst
+}
+
+// Weighted towards the venues that print the most volume
+const EXCHANGES = ['Q', 'Q', 'Q', 'D', 'D', 'N', 'P', 'P', 'K', 'Z', 'V', 'Y', 'U'];
+
+// Stable starting price per symbol, so switching back and forth looks familiar
+const initialPrice = (symbol: string): number => {
+  const hash = Array.from(symbol).reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) % 100000, 7);
+  return 5000 + (hash % 45000);
+};
+
+/**
+ * Generates a random-walk tape locally, with odd lots, sweeps, occasional blocks
+ * and bursts of activity. Enable with `VITE_TAPE_PROVIDER=simulated`.
+ */
+export class SimulatedTapeFeed implements TapeFeed {
+  private tapes = new Map<string, SimulatedTape>();
+  private printsPerSecond: number;
+  private intervalMs: number;
+  private random: () => number;
+
+  constructor(options: SimulatedTapeFeedOptions = {}) {
+    this.printsPerSecond = options.printsPerSecond ?? 40;
+    this.intervalMs = options.intervalMs ?? 100;
+    this.random = options.random ?? Math.random;
+  }
+
+  subscribe(symbol: string, callback: TradePrintsCallback): () => void {
+    symbol = symbol.toUpperCase();
+
+    let tape = this.tapes.get(symbol);
+    if (!tape) {
+      const created: SimulatedTape = {
+        symbol,
+        price: initialPrice(symbol),
+        nextId: 1,
+        callbacks: new Set(),
+        timer: setInterval(() => this.tick(created), this.intervalMs),
+        burstTicks: 0,
+      };
+      tape = created;
+      this.tapes.set(symbol, tape);
+    }
+    tape.callbacks.add(callback);
+
+    return () => {
+      const current = this.tapes.get(symbol);
+      if (!current) return;
+      current.callbacks.delete(callback);
+      if (current.callbacks.size === 0) {
+        clearInterval(current.timer);
+        this.tapes.delete(symbol);
+      }
+    };
+  }
+
+  private tick(tape: SimulatedTape): void {
+    if (tape.burstTicks === 0 && this.random() < 0.01) {
+      tape.burstTicks = 5 + Math.floor(this.random() * 20);
+    }
+    const multiplier = tape.burstTicks > 0 ? 6 : 1;
+    tape.burstTicks = Math.max(0, tape.burstTicks - 1);
+
+    const expected = (this.printsPerSecond * this.intervalMs / 1000) * multiplier;
+    const count = Math.floor(this.random() * expected * 2);
+    if (count === 0) return;
+
+    const now = Date.now();
+    const prints: TradePrint[] = [];
+    for (let i = 0; i < count; i++) {
+      prints.push(this.nextPrint(tape, now));
+    }
+    tape.callbacks.forEach(callback => callback(prints));
+  }
+
+  private nextPrint(tape: SimulatedTape, timestamp: number): TradePrint {
+    const roll = this.random();
+    if (roll < 0.1) {
+      tape.price -= 1;
+    } else if (roll < 0.2) {
+      tape.price += 1;
+    }
+
+    const bid = tape.price - 1;
+    const ask = tape.price + 1;
+    // Most prints hit the bid or lift the offer; a few print inside the spread
+    const sideRoll = this.random();
+    const price = sideRoll < 0.45 ? bid : sideRoll < 0.9 ? ask : tape.price;
+
+    const sizeRoll = this.random();
+    let size: number;
+    const conditions = ['@'];
+    if (sizeRoll < 0.2) {
+      size = 1 + Math.floor(this.random() * 99);
+      conditions.push('I');
+    } else if (sizeRoll < 0.995) {
+      size = (1 + Math.floor(this.random() * 20)) * 100;
+      if (this.random() < 0.1) conditions.push('F');
+    } else {
+      size = (100 + Math.floor(this.random() * 400)) * 100;
+    }
+
+    return {
+      id: `${tape.symbol}-${tape.nextId++}`,
+      symbol: tape.symbol,
+      price: price / 100,
+      size,
+      exchange: EXCHANGES[Math.floor(this.random() * EXCHANGES.length)],
+      conditions,
+      timestamp,
+      bidPrice: bid / 100,
+      askPrice: ask / 100,
+    };
+  }
+}
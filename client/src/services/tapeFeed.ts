@@ -0,0 +1,94 @@
+import { normalizeKeys } from './api';
+import { HubSymbolFeed } from './hubSymbolFeed';
+import type { MarketDataService } from './marketDataService';
+import type { TradePrint } from './timeSales';
+
+export type TradePrintsCallback = (prints: TradePrint[]) => void;
+
+/**
+ * Source of trade prints for the time & sales panel. Prints are delivered in
+ * arrival order and may come in batches. `HubTapeFeed` streams from the backend;
+ * `SimulatedTapeFeed` generates prints locally for testing.
+ */
+export interface TapeFeed {
+  subscribe(symbol: string, callback: TradePrintsCallback): () => void;
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : undefined;
+};
+
+let fallbackId = 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Alpaca's abbreviated trade message; `S` (symbol) and `s` (size) only differ by case,
+// so these keys are read before `normalizeKeys` folds them together
+const expandAbbreviatedTrade = (raw: Record<string, unknown>): Record<string, unknown> => ({
+  symbol: raw.S,
+  price: raw.p,
+  size: raw.s,
+  exchange: raw.x,
+  conditions: raw.c,
+  timestamp: raw.t,
+  id: raw.i,
+});
+
+export const normalizeTradePrint = (raw: unknown): TradePrint | null => {
+  if (!isRecord(raw)) return null;
+  const payload = 'p' in raw && 'S' in raw
+    ? expandAbbreviatedTrade(raw)
+    : normalizeKeys(raw) as Record<string, unknown>;
+
+  const price = toNumber(payload.price);
+  const size = toNumber(payload.size);
+  if (typeof payload.symbol !== 'string' || price === undefined || size === undefined) return null;
+
+  return {
+    id: payload.id !== undefined ? String(payload.id) : `print-${++fallbackId}`,
+    symbol: payload.symbol.toUpperCase(),
+    price,
+    size,
+    exchange: String(payload.exchange ?? ''),
+    conditions: Array.isArray(payload.conditions) ? payload.conditions.map(String) : [],
+    timestamp: payload.timestamp ? new Date(String(payload.timestamp)).getTime() : Date.now(),
+    bidPrice: toNumber(payload.bidPrice),
+    askPrice: toNumber(payload.askPrice),
+  };
+};
+
+// A hub message is one print or an array of them, all for the same symbol
+export const normalizeTradePrints = (raw: unknown): TradePrint[] | null => {
+  const prints = (Array.isArray(raw) ? raw : [raw])
+    .map(normalizeTradePrint)
+    .filter((print): print is TradePrint => print !== null);
+  return prints.length > 0 ? prints : null;
+};
+
+/**
+ * Prints over the market data hub: `SubscribeTrades(symbol)` starts `TradePrints`
+ * messages for that symbol. Separate from `Subscribe`, whose `TradeUpdate` events
+ * only carry the last price folded into a quote.
+ */
+export class HubTapeFeed implements TapeFeed {
+  private feed: HubSymbolFeed<TradePrint[]>;
+
+  constructor(hub?: MarketDataService) {
+    this.feed = new HubSymbolFeed<TradePrint[]>({
+      name: 'HubTapeFeed',
+      subscribeMethod: 'SubscribeTrades',
+      unsubscribeMethod: 'UnsubscribeTrades',
+      events: {
+        TradePrints: normalizeTradePrints,
+      },
+      symbolOf: prints => prints[0].symbol,
+    }, hub);
+  }
+
+  subscribe(symbol: string, callback: TradePrintsCallback): () => void {
+    return this.feed.subscribe(symbol, callback);
+  }
+}
@@ -0,0 +1,133 @@
+// Time & sales ("tape") model: individual trade prints for one symbol, newest first.
+
+export interface TradePrint {
+  id: string;
+  symbol: string;
+  price: number;
+  size: number;
+  exchange: string; // single-letter CTA/UTP participant code, e.g. 'Q' for Nasdaq
+  conditions: string[];
+  timestamp: number;
+  // NBBO at the time of the print, when the feed provides it
+  bidPrice?: number;
+  askPrice?: number;
+}
+
+export type PrintTick = 'up' | 'down' | 'unchanged';
+export type PrintSide = 'bid' | 'ask' | 'mid';
+
+export interface TapePrint extends TradePrint {
+  tick: PrintTick;
+  side?: PrintSide; // unknown when there was no quote to compare against
+}
+
+// Participant codes used by Alpaca/SIP trade messages
+export const EXCHANGE_NAMES: Record<string, string> = {
+  A: 'NYSE American',
+  B: 'Nasdaq BX',
+  C: 'NSX',
+  D: 'FINRA ADF',
+  H: 'MIAX',
+  I: 'ISE',
+  J: 'Cboe EDGA',
+  K: 'Cboe EDGX',
+  L: 'LTSE',
+  M: 'NYSE Chicago',
+  N: 'NYSE',
+  P: 'NYSE Arca',
+  Q: 'Nasdaq',
+  S: 'Nasdaq',
+  T: 'Nasdaq',
+  U: 'MEMX',
+  V: 'IEX',
+  W: 'CBSX',
+  X: 'Nasdaq PSX',
+  Y: 'Cboe BYX',
+  Z: 'Cboe BZX',
+};
+
+// The sale conditions worth spelling out; anything else shows its raw code
+export const CONDITION_LABELS: Record<string, string> = {
+  '@': 'Regular sale',
+  F: 'Intermarket sweep',
+  I: 'Odd lot',
+  O: 'Opening print',
+  '6': 'Closing print',
+  Q: 'Market center open',
+  M: 'Market center close',
+  T: 'Extended hours',
+  U: 'Extended hours, out of sequence',
+  Z: 'Sold out of sequence',
+  '4': 'Derivatively priced',
+  W: 'Average price',
+  '7': 'Qualified contingent',
+};
+
+// Codes that don't say anything beyond "this was a trade"
+const ROUTINE_CONDITIONS = new Set(['@', ' ']);
+
+export const describeConditions = (conditions: string[]): string =>
+  conditions.filter(code => !ROUTINE_CONDITIONS.has(code)).join(' ');
+
+export const DEFAULT_BLOCK_SIZE = 10000;
+
+/**
+ * Bounded, newest-first store of prints. Classifies each print on the way in:
+ * `tick` by the tick test against the previous price, and `side` by where it
+ * printed against the NBBO (the print's own, or the latest quote passed in).
+ */
+export class TapeBuffer {
+  readonly capacity: number;
+  private items: TapePrint[] = [];
+  private lastPrice?: number;
+  private lastTick: PrintTick = 'unchanged';
+
+  constructor(capacity = 5000) {
+    this.capacity = capacity;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  push(prints: TradePrint[], quote?: { bidPrice?: number; askPrice?: number }): void {
+    if (prints.length === 0) return;
+
+    const classified = prints.map(print => this.classify(print, quote));
+    // Newest first, so the latest batch goes on top in reverse arrival order
+    this.items = classified.reverse().concat(this.items);
+    if (this.items.length > this.capacity) {
+      this.items.length = this.capacity;
+    }
+  }
+
+  clear(): void {
+    this.items = [];
+    this.lastPrice = undefined;
+    this.lastTick = 'unchanged';
+  }
+
+  // A new array after every change, so it can be handed straight to React state
+  toArray(): TapePrint[] {
+    return this.items;
+  }
+
+  private classify(print: TradePrint, quote?: { bidPrice?: number; askPrice?: number }): TapePrint {
+    // A print at the same price keeps the previous direction (zero-plus/zero-minus tick)
+    let tick = this.lastTick;
+    if (this.lastPrice !== undefined && print.price !== this.lastPrice) {
+      tick = print.price > this.lastPrice ? 'up' : 'down';
+    }
+    this.lastPrice = print.price;
+    this.lastTick = tick;
+
+    const bid = print.bidPrice ?? quote?.bidPrice;
+    const ask = print.askPrice ?? quote?.askPrice;
+    let side: PrintSide | undefined;
+    if (bid !== undefined && ask !== undefined && bid > 0 && ask > 0) {
+      side = print.price >= ask ? 'ask' : print.price <= bid ? 'bid' : 'mid';
+    }
+
+    return { ...print, tick, side };
+  }
+}
@@ -0,0 +1,240 @@
+import {
+  HubConnectionBuilder,
+  HubConnectionState,
+  HttpTransportType,
+  LogLevel,
+  type HubConnection,
+} from '@microsoft/signalr';
+import { normalizeKeys, normalizeOrder } from './api';
+import { getAccessToken, getHubUrl } from './hubs';
+import { getReconnectDelay, type ConnectionStatus, type ConnectionStatusCallback } from './marketDataService';
+import type { Order } from '../types';
+
+// Same host as the market data hub unless overridden
+const HUB_URL = import.meta.env.VITE_TRADE_UPDATES_HUB_URL || getHubUrl('trade-updates');
+
+// The backend doesn't serve the trade updates hub yet, so orders and positions are polled
+// unless VITE_TRADE_UPDATES_PROVIDER=hub streams them from a hub that does
+export const isTradeUpdatesStreamEnabled = import.meta.env.VITE_TRADE_UPDATES_PROVIDER === 'hub';
+
+// Alpaca `trade_updates` events
+export type TradeUpdateEvent =
+  | 'new'
+  | 'fill'
+  | 'partial_fill'
+  | 'canceled'
+  | 'expired'
+  | 'done_for_day'
+  | 'replaced'
+  | 'rejected'
+  | 'pending_new'
+  | 'pending_cancel'
+  | 'pending_replace'
+  | 'stopped'
+  | 'suspended'
+  | 'calculated'
+  | 'order_replace_rejected'
+  | 'order_cancel_rejected';
+
+export interface TradeUpdate {
+  event: TradeUpdateEvent;
+  order: Order;
+  // Execution details, only on fill and partial_fill
+  price?: number;
+  qty?: number;
+  positionQty?: number; // position size after the execution, signed
+  executionId?: string;
+  timestamp: Date;
+}
+
+export type TradeUpdateCallback = (update: TradeUpdate) => void;
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : undefined;
+};
+
+// Accepts Alpaca's snake_case stream messages and the backend's camelCase/PascalCase relay
+export const normalizeTradeUpdate = (raw: unknown): TradeUpdate | null => {
+  const payload = normalizeKeys(raw) as Record<string, unknown> | null;
+  if (!payload || typeof payload !== 'object' || !payload.order || typeof payload.event !== 'string') return null;
+
+  const order = normalizeOrder(payload.order);
+  if (!order.id) return null;
+
+  return {
+    event: payload.event.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase() as TradeUpdateEvent,
+    order,
+    price: toNumber(payload.price),
+    qty: toNumber(payload.qty),
+    positionQty: toNumber(payload.positionQty),
+    executionId: typeof payload.executionId === 'string' ? payload.executionId : undefined,
+    timestamp: payload.timestamp ? new Date(String(payload.timestamp)) : new Date(),
+  };
+};
+
+/**
+ * Streams the account's order and fill events from the backend trade updates hub.
+ *
+ * The hub is connected while anyone is listening. When the socket drops, the status
+ * goes to `disconnected` so callers can fall back to polling; restarts back off the
+ * same way as the market data hub. A disabled service never connects and stays
+ * `disconnected`.
+ */
+export class TradeUpdatesService {
+  private connection: HubConnection | null = null;
+  private startPromise: Promise<void> | null = null;
+  private listeners = new Set<TradeUpdateCallback>();
+  private statusListeners = new Set<ConnectionStatusCallback>();
+  private status: ConnectionStatus = { connected: false, state: 'disconnected' };
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private restartAttempt = 0;
+  private hubUrl: string;
+  private enabled: boolean;
+
+  constructor(hubUrl: string = HUB_URL, enabled: boolean = isTradeUpdatesStreamEnabled) {
+    this.hubUrl = hubUrl;
+    this.enabled = enabled;
+  }
+
+  subscribe(callback: TradeUpdateCallback): () => void {
+    this.listeners.add(callback);
+    this.ensureConnected();
+
+    return () => {
+      this.listeners.delete(callback);
+      if (this.listeners.size === 0) {
+        void this.disconnect();
+      }
+    };
+  }
+
+  onConnectionStatusChange(callback: ConnectionStatusCallback): () => void {
+    this.statusListeners.add(callback);
+    callback(this.status);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  async disconnect(): Promise<void> {
+    this.clearRestartTimer();
+    if (this.connection) {
+      await this.connection.stop();
+    }
+    this.setStatus({ connected: false, state: 'disconnected' });
+  }
+
+  private ensureConnected(): void {
+    if (!this.enabled || this.startPromise || this.restartTimer) return;
+    if (this.connection && this.connection.state !== HubConnectionState.Disconnected) return;
+
+    this.startPromise = this.start().finally(() => {
+      this.startPromise = null;
+    });
+  }
+
+  private async start(): Promise<void> {
+    const connection = this.connection ?? this.buildConnection();
+    this.connection = connection;
+
+    this.setStatus({ connected: false, state: 'connecting', reconnectAttempt: this.restartAttempt });
+
+    try {
+      await connection.start();
+      console.log('🔌 [TradeUpdatesService] Connected to trade updates hub');
+      this.restartAttempt = 0;
+      this.setStatus({ connected: true, state: 'connected' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ [TradeUpdatesService] Failed to connect to trade updates hub:', message);
+      this.setStatus({ connected: false, state: 'disconnected', error: message, reconnectAttempt: this.restartAttempt });
+      this.scheduleRestart();
+    }
+  }
+
+  private buildConnection(): HubConnection {
+    const connection = new HubConnectionBuilder()
+      .withUrl(this.hubUrl, {
+        accessTokenFactory: getAccessToken,
+        transport: HttpTransportType.WebSockets,
+        skipNegotiation: true,
+      })
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: (retryContext) => getReconnectDelay(retryContext.previousRetryCount),
+      })
+      .configureLogging(LogLevel.Warning)
+      .build();
+
+    connection.on('TradeUpdate', (payload: unknown) => this.handleUpdate(payload));
+    connection.on('Error', (message: string) => {
+      console.error('❌ [TradeUpdatesService] Hub error:', message);
+    });
+
+    connection.onreconnecting((error) => {
+      console.warn('🔄 [TradeUpdatesService] Connection lost, reconnecting...', error?.message);
+      this.setStatus({ connected: false, state: 'reconnecting', error: error?.message });
+    });
+
+    connection.onreconnected(() => {
+      console.log('✅ [TradeUpdatesService] Reconnected to trade updates hub');
+      this.setStatus({ connected: true, state: 'connected' });
+    });
+
+    // Only reached once automatic reconnect gives up or the connection is stopped
+    connection.onclose((error) => {
+      if (this.listeners.size === 0) return;
+      this.setStatus({ connected: false, state: 'disconnected', error: error?.message });
+      this.scheduleRestart();
+    });
+
+    return connection;
+  }
+
+  private scheduleRestart(): void {
+    if (this.restartTimer || this.listeners.size === 0) return;
+
+    const delay = getReconnectDelay(this.restartAttempt);
+    this.restartAttempt += 1;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.ensureConnected();
+    }, delay);
+  }
+
+  private clearRestartTimer(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private handleUpdate(payload: unknown): void {
+    const update = normalizeTradeUpdate(payload);
+    if (!update) {
+      console.warn('⚠️ [TradeUpdatesService] Ignoring malformed trade update:', payload);
+      return;
+    }
+
+    this.listeners.forEach(callback => {
+      try {
+        callback(update);
+      } catch (error) {
+        console.error(`❌ [TradeUpdatesService] Callback failed for ${update.event} on ${update.order.id}:`, error);
+      }
+    });
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const tradeUpdatesService = new TradeUpdatesService();
+export default tradeUpdatesService;
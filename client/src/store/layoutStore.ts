@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { Layout, Panel, LinkGroup, GridConfig } from '../types/layout';
+import type { Layout, Panel, LinkGroup, GridConfig, OrderPrefill } from '../types/layout';
 import { layoutService } from '../services/layoutService';
 
 interface LayoutStore {
@@ -32,6 +32,7 @@ interface LayoutStore {
   deleteLinkGroup: (groupId: string) => void;
   assignPanelToLinkGroup: (panelId: string, groupId: string | null) => void;
   propagateSymbol: (groupId: string, symbol: string) => void;
+  propagateOrderPrefill: (groupId: string, prefill: OrderPrefill) => void;
 
   // Grid config actions
   updateGridConfig: (config: Partial<GridConfig>) => void;
@@ -55,7 +56,11 @@ const normalizedPanelTitles: Record<string, string> = {
   'portfolio': 'Portfolio',
   'market-overview': 'Market Overview',
   'recent-activity': 'Recent Activity',
-  'video': 'Video Feed'
+  'video': 'Video Feed',
+  'depth': 'Depth',
+  'time-sales': 'Time & Sales',
+  'scanner': 'Scanner',
+  'options': 'Options Chain'
 };
 
 // Convert backend panel format to frontend format
@@ -618,6 +623,27 @@ const useLayoutStore = create<LayoutStore>((set, get) => ({
     }));
   },
 
+  // Like propagateSymbol: a transient hand-off between linked panels, not a layout change
+  propagateOrderPrefill: (groupId: string, prefill: OrderPrefill) => {
+    const { activeLayoutId } = get();
+    if (!activeLayoutId) return;
+
+    set(state => ({
+      layouts: state.layouts.map(layout =>
+        layout.id === activeLayoutId
+          ? {
+              ...layout,
+              linkGroups: layout.linkGroups.map(group =>
+                group.id === groupId
+                  ? { ...group, orderPrefill: prefill }
+                  : group
+              ),
+            }
+          : layout
+      ),
+    }));
+  },
+
   // Grid config actions (local only - will trigger save)
   updateGridConfig: (config: Partial<GridConfig>) => {
     const { activeLayoutId } = get();
@@ -1,22 +1,10 @@
 import React from 'react';
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-// import { marketDataService, type Quote, type ConnectionStatus } from '../services/marketDataService';
-
-// Temporary types until we implement the real service
-interface Quote {
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-  timestamp: Date;
-}
+import { useShallow } from 'zustand/react/shallow';
+import { marketDataService, type Quote, type ConnectionStatus } from '../services/marketDataService';
 
-interface ConnectionStatus {
-  connected: boolean;
-  error?: string;
-}
+export type { Quote, ConnectionStatus };
 
 interface MarketDataState {
   // Quote data
@@ -42,7 +30,7 @@ interface MarketDataState {
 const useMarketDataStore = create<MarketDataState>()(
   subscribeWithSelector((set, get) => ({
     quotes: new Map(),
-    connectionStatus: { connected: false },
+    connectionStatus: marketDataService.getConnectionStatus(),
     subscriptions: new Map(),
 
     subscribe: (symbol: string) => {
@@ -57,24 +45,20 @@ const useMarketDataStore = create<MarketDataState>()(
       
       // If this is the first subscription, subscribe to the service
       if (currentCount === 0) {
-        // TODO: Implement real market data service
-        console.log(`Would subscribe to ${symbol}`);
-        // marketDataService.subscribe(symbol, (quote) => {
-        //   get().updateQuote(quote);
-        // }).catch(error => {
-        //   console.error(`Failed to subscribe to ${symbol}:`, error);
-        //   // Revert subscription count on error
-        //   set(state => {
-        //     const newSubs = new Map(state.subscriptions);
-        //     const count = newSubs.get(symbol) || 0;
-        //     if (count <= 1) {
-        //       newSubs.delete(symbol);
-        //     } else {
-        //       newSubs.set(symbol, count - 1);
-        //     }
-        //     return { subscriptions: newSubs };
-        //   });
-        // });
+        marketDataService.subscribe(symbol, handleQuote).catch(error => {
+          console.error(`Failed to subscribe to ${symbol}:`, error);
+          // Revert subscription count on error
+          set(state => {
+            const newSubs = new Map(state.subscriptions);
+            const count = newSubs.get(symbol) || 0;
+            if (count <= 1) {
+              newSubs.delete(symbol);
+            } else {
+              newSubs.set(symbol, count - 1);
+            }
+            return { subscriptions: newSubs };
+          });
+        });
       }
     },
 
@@ -100,11 +84,9 @@ const useMarketDataStore = create<MarketDataState>()(
       
       // If no more subscriptions, unsubscribe from the service
       if (newCount <= 0) {
-        // TODO: Implement real market data service
-        console.log(`Would unsubscribe from ${symbol}`);
-        // marketDataService.unsubscribe(symbol, () => {}).catch(error => {
-        //   console.error(`Failed to unsubscribe from ${symbol}:`, error);
-        // });
+        marketDataService.unsubscribe(symbol, handleQuote).catch(error => {
+          console.error(`Failed to unsubscribe from ${symbol}:`, error);
+        });
       }
     },
 
@@ -128,11 +110,15 @@ const useMarketDataStore = create<MarketDataState>()(
   }))
 );
 
+// Single callback shared by every symbol so unsubscribe can hand the same reference back
+function handleQuote(quote: Quote) {
+  useMarketDataStore.getState().updateQuote(quote);
+}
+
 // Set up connection status listener
-// TODO: Implement real market data service
-// marketDataService.onConnectionStatusChange((status) => {
-//   useMarketDataStore.getState().setConnectionStatus(status);
-// });
+marketDataService.onConnectionStatusChange((status) => {
+  useMarketDataStore.getState().setConnectionStatus(status);
+});
 
 // Custom hook for subscribing to a single quote
 export const useQuote = (symbol: string | null | undefined) => {
@@ -158,7 +144,8 @@ export const useQuote = (symbol: string | null | undefined) => {
 export const useQuotes = (symbols: string[]) => {
   const subscribe = useMarketDataStore(state => state.subscribe);
   const unsubscribe = useMarketDataStore(state => state.unsubscribe);
-  const quotes = useMarketDataStore(state => {
+  // Shallow-compare so a fresh result object doesn't re-render when no quote changed
+  const quotes = useMarketDataStore(useShallow(state => {
     const result: Record<string, Quote> = {};
     symbols.forEach(symbol => {
       const quote = state.quotes.get(symbol.toUpperCase());
@@ -167,7 +154,7 @@ export const useQuotes = (symbols: string[]) => {
       }
     });
     return result;
-  });
+  }));
 
   // Effect for subscription management
   React.useEffect(() => {
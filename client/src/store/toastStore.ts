@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+
+export type ToastVariant = 'info' | 'success' | 'warning' | 'error';
+
+export interface Toast {
+  id: string;
+  title: string;
+  message?: string;
+  variant: ToastVariant;
+  duration: number; // ms before auto-dismiss, 0 to keep until dismissed
+}
+
+export interface ToastOptions {
+  title: string;
+  message?: string;
+  variant?: ToastVariant;
+  duration?: number;
+}
+
+interface ToastState {
+  toasts: Toast[];
+  showToast: (options: ToastOptions) => string;
+  dismissToast: (id: string) => void;
+}
+
+const MAX_TOASTS = 5;
+const DEFAULT_DURATION = 6000;
+
+let nextToastId = 0;
+
+const useToastStore = create<ToastState>()((set, get) => ({
+  toasts: [],
+
+  showToast: ({ title, message, variant = 'info', duration = DEFAULT_DURATION }) => {
+    const id = `toast-${++nextToastId}`;
+
+    set(state => ({
+      toasts: [...state.toasts, { id, title, message, variant, duration }].slice(-MAX_TOASTS),
+    }));
+
+    if (duration > 0) {
+      setTimeout(() => get().dismissToast(id), duration);
+    }
+
+    return id;
+  },
+
+  dismissToast: (id) => {
+    set(state => ({ toasts: state.toasts.filter(t => t.id !== id) }));
+  },
+}));
+
+export default useToastStore;
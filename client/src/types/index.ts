@@ -1,5 +1,5 @@
 // Asset types
-export type AssetClass = 'us_equity' | 'crypto';
+export type AssetClass = 'us_equity' | 'us_option' | 'crypto';
 
 export interface Asset {
   id: string;
@@ -21,9 +21,12 @@ export interface Asset {
 
 // Order types
 export type OrderSide = 'buy' | 'sell';
-export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
+// simple: one order; bracket: entry + take-profit + stop-loss; oco: take-profit/stop-loss pair; oto: entry + one exit;
+// mleg: several option contracts traded together at one net price
+export type OrderClass = 'simple' | 'bracket' | 'oco' | 'oto' | 'mleg';
 export type OrderTimeInForce = 'day' | 'gtc' | 'opg' | 'cls' | 'ioc' | 'fok';
-export type OrderStatus = 'new' | 'partially_filled' | 'filled' | 'done_for_day' | 'canceled' | 'expired' | 'replaced' | 'pending_cancel' | 'pending_replace' | 'accepted' | 'pending_new' | 'accepted_for_bidding' | 'stopped' | 'rejected' | 'suspended' | 'calculated';
+export type OrderStatus = 'new' | 'partially_filled' | 'filled' | 'done_for_day' | 'canceled' | 'expired' | 'replaced' | 'pending_cancel' | 'pending_replace' | 'accepted' | 'pending_new' | 'accepted_for_bidding' | 'stopped' | 'rejected' | 'suspended' | 'calculated' | 'held';
 
 export interface Order {
   id: string;
@@ -47,12 +50,18 @@ export interface Order {
   filledAvgPrice?: string;
   side: OrderSide;
   type: OrderType;
+  orderClass?: OrderClass;
   timeInForce: OrderTimeInForce;
   limitPrice?: string;
   stopPrice?: string;
+  trailPrice?: string;
+  trailPercent?: string;
+  hwm?: string; // high-water mark of a trailing stop
   status: OrderStatus;
   extendedHours: boolean;
   legs?: Order[];
+  ratioQty?: string; // contracts of this leg per unit of a multi-leg order
+  positionIntent?: OptionPositionIntent;
 }
 
 // Position types
@@ -75,6 +84,42 @@ export interface Position {
   changeToday?: string;
 }
 
+// Options types
+export type OptionType = 'call' | 'put';
+// Whether an option order opens or closes a position; the broker needs it to tell writing from selling
+export type OptionPositionIntent = 'buy_to_open' | 'buy_to_close' | 'sell_to_open' | 'sell_to_close';
+
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number; // per calendar day
+  vega: number; // per volatility point
+  rho?: number;
+}
+
+export interface OptionContract {
+  symbol: string; // OCC symbol, e.g. AAPL250117C00150000
+  underlyingSymbol: string;
+  type: OptionType;
+  strikePrice: number;
+  expirationDate: string; // YYYY-MM-DD
+  multiplier: number; // shares per contract
+  bid?: number;
+  ask?: number;
+  last?: number;
+  volume?: number;
+  openInterest?: number;
+  impliedVolatility?: number; // fraction, 0.25 = 25%
+  greeks?: OptionGreeks;
+}
+
+export interface OptionChain {
+  underlyingSymbol: string;
+  underlyingPrice?: number;
+  expirationDate: string;
+  contracts: OptionContract[];
+}
+
 // Account types
 export interface Account {
   id: string;
@@ -113,17 +158,100 @@ export interface Watchlist {
 }
 
 // Alert types
+export type PriceAlertCondition =
+  | 'above'
+  | 'below'
+  | 'crosses_above'
+  | 'crosses_below'
+  | 'crosses'
+  | 'percent_change'
+  | 'indicator';
+
+// One of the chart's IndicatorRegistry calculators with its parameters, as charts, alerts and scans store it
+// Indicator inputs by name: periods and multipliers, or a price source such as 'close'
+export type IndicatorParameters = Record<string, number | string>;
+
+export interface IndicatorSettings {
+  indicator: string; // calculator id, e.g. 'rsi'
+  parameters: IndicatorParameters;
+}
+
+export interface IndicatorAlertConfig extends IndicatorSettings {
+  interval: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w';
+  operator: 'above' | 'below';
+  value: number;
+}
+
+// Sloped level from a chart trendline, extended past its end points
+export interface TrendlineLevel {
+  start: { time: number; price: number }; // epoch ms
+  end: { time: number; price: number };
+}
+
+export interface PriceAlertTrigger {
+  triggeredAt: string;
+  price: number;
+  value?: number; // indicator value or percent change at the time of the trigger
+}
+
 export interface PriceAlert {
   id: string;
   symbol: string;
-  price: number;
-  condition: 'above' | 'below';
+  price: number; // threshold for above/below/crossing conditions
+  condition: PriceAlertCondition;
+  percentChange?: number; // signed move from the previous close, e.g. -5 for a 5% drop
+  indicator?: IndicatorAlertConfig;
+  trendline?: TrendlineLevel; // when set, replaces `price` as the level for price conditions
+  drawingId?: string; // chart drawing the alert was created from
+  repeat?: boolean; // re-arm after triggering instead of deactivating
+  note?: string;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
   triggeredAt?: string;
+  triggerHistory?: PriceAlertTrigger[];
+}
+
+export type PriceAlertInput = Omit<PriceAlert, 'id' | 'createdAt' | 'updatedAt' | 'triggeredAt' | 'triggerHistory'>;
+
+// Scanner types
+export type ScanField = 'price' | 'changePercent' | 'volume' | 'relativeVolume' | 'marketCap' | 'indicator';
+
+export interface ScanRule {
+  id: string;
+  field: ScanField;
+  operator: 'above' | 'below' | 'between';
+  value: number;
+  maxValue?: number; // upper bound for `between`
+  indicator?: IndicatorSettings; // for `indicator` rules, evaluated on daily bars
 }
 
+export type ScanUniverse = 'popular' | 'watchlists';
+
+export interface Scan {
+  id: string;
+  name: string;
+  universe: ScanUniverse;
+  match: 'all' | 'any';
+  rules: ScanRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScanInput = Omit<Scan, 'id' | 'createdAt' | 'updatedAt'>;
+
+// A user's own chart indicator, written in the indicator script language
+export interface IndicatorScript {
+  id: string;
+  name: string;
+  source: string;
+  overlay: boolean; // drawn over the price chart, otherwise in a pane of its own
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type IndicatorScriptInput = Omit<IndicatorScript, 'id' | 'createdAt' | 'updatedAt'>;
+
 // Market data types
 export interface Bar {
   t: string; // timestamp
@@ -136,6 +264,22 @@ export interface Bar {
   vw?: number; // volume weighted average price
 }
 
+// Query for `/market-data/bars/{symbol}`, mirroring Alpaca's bars endpoint
+export interface BarsQueryParams {
+  timeframe: string; // e.g. 1Min, 1Hour, 1Day
+  start?: string; // RFC-3339
+  end?: string; // RFC-3339, exclusive
+  limit?: number;
+  sort?: 'asc' | 'desc';
+  pageToken?: string;
+}
+
+export interface BarsResponse {
+  symbol: string;
+  bars: Bar[];
+  nextPageToken?: string | null;
+}
+
 export interface Quote {
   symbol: string;
   timestamp: string;
@@ -209,4 +353,35 @@ export interface OrderFormData {
   limitPrice?: string;
   stopPrice?: string;
   extendedHours: boolean;
+  orderClass?: OrderClass; // defaults to 'simple'
+  trailPrice?: string; // trailing stops use either trailPrice or trailPercent
+  trailPercent?: string;
+  takeProfit?: OrderTakeProfit;
+  stopLoss?: OrderStopLoss;
+  positionIntent?: OptionPositionIntent; // single-leg option orders
+  legs?: OptionOrderLeg[]; // mleg orders; `side` then says whether the net price is paid or received
+}
+
+export interface OptionOrderLeg {
+  symbol: string; // OCC symbol
+  side: OrderSide;
+  ratioQty: string;
+  positionIntent?: OptionPositionIntent;
+}
+
+// Amendable fields of a working order. The broker answers a replace with a new order that `replaces` the old one.
+export interface OrderReplaceRequest {
+  qty?: string;
+  limitPrice?: string;
+  stopPrice?: string;
+  timeInForce?: OrderTimeInForce;
+}
+
+export interface OrderTakeProfit {
+  limitPrice: string;
+}
+
+export interface OrderStopLoss {
+  stopPrice: string;
+  limitPrice?: string; // stop-limit exit when set
 }
\ No newline at end of file
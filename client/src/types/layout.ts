@@ -34,11 +34,22 @@ export interface Panel {
   config: PanelConfig;
 }
 
+// Order handed from one linked panel to another, e.g. a depth ladder click to the trade ticket
+export interface OrderPrefill {
+  id: string; // new id per click, so repeating the same price still re-applies it
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'limit';
+  limitPrice: number;
+  qty?: number;
+}
+
 export interface LinkGroup {
   id: string;
   name: string;
   color: string;
   symbol?: string;
+  orderPrefill?: OrderPrefill; // session only, never saved with the layout
 }
 
 export interface Layout {
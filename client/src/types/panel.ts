@@ -1,4 +1,4 @@
-import type { PanelConfig } from './layout';
+import type { OrderPrefill, PanelConfig } from './layout';
 
 export interface PanelSize {
   width: number;
@@ -13,6 +13,8 @@ export interface IPanelComponentProps {
   // Symbol linking
   symbol?: string;
   onSymbolChange?: (symbol: string) => void;
+  orderPrefill?: OrderPrefill;
+  onOrderPrefill?: (prefill: Omit<OrderPrefill, 'id'>) => void;
 
   // Lifecycle
   onReady?: () => void;
@@ -0,0 +1,24 @@
+// Thin wrappers around the browser Notification API
+
+export const supportsBrowserNotifications = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  supportsBrowserNotifications() ? Notification.permission : 'unsupported';
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!supportsBrowserNotifications()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+// Only shows anything once the user has granted permission
+export function showBrowserNotification(title: string, options?: NotificationOptions): void {
+  if (getNotificationPermission() !== 'granted') return;
+
+  try {
+    new Notification(title, options);
+  } catch (error) {
+    console.warn('Failed to show browser notification:', error);
+  }
+}
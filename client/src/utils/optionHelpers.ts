@@ -0,0 +1,223 @@
+import type {
+  AssetClass,
+  OptionContract,
+  OptionPositionIntent,
+  OptionType,
+  OrderClass,
+  OrderFormData,
+  OrderSide,
+  Position,
+} from '../types';
+
+// Shares one standard equity option contract covers
+export const OPTION_CONTRACT_MULTIPLIER = 100;
+
+// OCC symbology: root, expiration as YYMMDD, C or P, then the strike x 1000 padded to 8 digits
+const OCC_SYMBOL_PATTERN = /^([A-Z][A-Z0-9.]{0,5})(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface OptionSymbolParts {
+  underlyingSymbol: string;
+  expirationDate: string; // YYYY-MM-DD
+  type: OptionType;
+  strikePrice: number;
+}
+
+export type OptionStrategy = 'single' | 'vertical' | 'straddle';
+
+export const OPTION_STRATEGY_LABELS: Record<OptionStrategy, string> = {
+  single: 'Single',
+  vertical: 'Vertical',
+  straddle: 'Straddle',
+};
+
+export const POSITION_INTENT_LABELS: Record<OptionPositionIntent, string> = {
+  buy_to_open: 'Buy to open',
+  buy_to_close: 'Buy to close',
+  sell_to_open: 'Sell to open',
+  sell_to_close: 'Sell to close',
+};
+
+// One contract on the options ticket, before it becomes an order
+export interface OptionTicketLeg {
+  contract: OptionContract;
+  side: OrderSide;
+  ratioQty: number;
+}
+
+export const parseOptionSymbol = (symbol: string): OptionSymbolParts | null => {
+  const match = OCC_SYMBOL_PATTERN.exec(symbol.toUpperCase());
+  if (!match) return null;
+
+  const [, root, yy, mm, dd, type, strike] = match;
+  return {
+    underlyingSymbol: root,
+    expirationDate: `20${yy}-${mm}-${dd}`,
+    type: type === 'C' ? 'call' : 'put',
+    strikePrice: parseInt(strike, 10) / 1000,
+  };
+};
+
+export const formatOptionSymbol = ({ underlyingSymbol, expirationDate, type, strikePrice }: OptionSymbolParts): string => {
+  const [year, month, day] = expirationDate.split('-');
+  const strike = String(Math.round(strikePrice * 1000)).padStart(8, '0');
+  return `${underlyingSymbol.toUpperCase()}${year.slice(-2)}${month}${day}${type === 'call' ? 'C' : 'P'}${strike}`;
+};
+
+export const isOptionSymbol = (symbol: string): boolean => parseOptionSymbol(symbol) !== null;
+
+/**
+ * Shares one unit of quantity stands for: the contract multiplier for options
+ * (single contracts or multi-leg orders), 1 for stocks and crypto.
+ */
+export const getContractMultiplier = (item: { symbol: string; assetClass?: AssetClass; orderClass?: OrderClass }): number =>
+  item.assetClass === 'us_option' || item.orderClass === 'mleg' || isOptionSymbol(item.symbol)
+    ? OPTION_CONTRACT_MULTIPLIER
+    : 1;
+
+export const formatExpiration = (expirationDate: string): string => {
+  const [year, month, day] = expirationDate.split('-').map(Number);
+  return `${MONTHS[month - 1]} ${day} '${String(year).slice(-2)}`;
+};
+
+export const formatStrike = (strikePrice: number): string =>
+  Number.isInteger(strikePrice) ? String(strikePrice) : strikePrice.toFixed(2).replace(/0$/, '');
+
+// "AAPL Jan 17 '25 150 Call"; anything that isn't an OCC symbol comes back unchanged
+export const describeOptionSymbol = (symbol: string): string => {
+  const parts = parseOptionSymbol(symbol);
+  if (!parts) return symbol;
+  const type = parts.type === 'call' ? 'Call' : 'Put';
+  return `${parts.underlyingSymbol} ${formatExpiration(parts.expirationDate)} ${formatStrike(parts.strikePrice)} ${type}`;
+};
+
+// Calendar days until expiration, counting expiration day itself as 0
+export const getDaysToExpiration = (expirationDate: string, now = new Date()): number => {
+  const [year, month, day] = expirationDate.split('-').map(Number);
+  const expiry = Date.UTC(year, month - 1, day);
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((expiry - today) / (24 * 60 * 60 * 1000));
+};
+
+// Strike closest to the underlying price
+export const findAtmStrike = (strikes: number[], underlyingPrice?: number): number | undefined => {
+  if (strikes.length === 0 || underlyingPrice === undefined) return undefined;
+  return strikes.reduce((best, strike) =>
+    Math.abs(strike - underlyingPrice) < Math.abs(best - underlyingPrice) ? strike : best
+  );
+};
+
+export const isInTheMoney = (contract: Pick<OptionContract, 'type' | 'strikePrice'>, underlyingPrice?: number): boolean => {
+  if (underlyingPrice === undefined) return false;
+  return contract.type === 'call' ? contract.strikePrice < underlyingPrice : contract.strikePrice > underlyingPrice;
+};
+
+export const getMidPrice = (contract: OptionContract): number | undefined => {
+  if (contract.bid !== undefined && contract.ask !== undefined && contract.ask > 0) {
+    return (contract.bid + contract.ask) / 2;
+  }
+  return contract.last;
+};
+
+/**
+ * Net price of one unit of the legs, per share: positive is a debit, negative a credit.
+ * `natural` prices buys at the ask and sells at the bid; `mid` uses the midpoints.
+ */
+export const getNetPrice = (legs: OptionTicketLeg[], pricing: 'mid' | 'natural' = 'mid'): number | undefined => {
+  let net = 0;
+  for (const leg of legs) {
+    const price = pricing === 'mid'
+      ? getMidPrice(leg.contract)
+      : leg.side === 'buy' ? leg.contract.ask : leg.contract.bid;
+    if (price === undefined) return undefined;
+    net += (leg.side === 'buy' ? price : -price) * leg.ratioQty;
+  }
+  return Math.round(net * 100) / 100;
+};
+
+/**
+ * Legs of a strategy built around a clicked contract. A vertical pairs it with the next
+ * strike further out of the money, on the other side; a straddle adds the other type at
+ * the same strike, on the same side. Null when the chain has no partner contract.
+ */
+export const buildStrategyLegs = (
+  strategy: OptionStrategy,
+  contract: OptionContract,
+  side: OrderSide,
+  contracts: OptionContract[]
+): OptionTicketLeg[] | null => {
+  const first: OptionTicketLeg = { contract, side, ratioQty: 1 };
+
+  switch (strategy) {
+    case 'single':
+      return [first];
+    case 'vertical': {
+      const sameType = contracts
+        .filter(c => c.type === contract.type && c.expirationDate === contract.expirationDate)
+        .sort((a, b) => a.strikePrice - b.strikePrice);
+      const index = sameType.findIndex(c => c.symbol === contract.symbol);
+      const partner = contract.type === 'call' ? sameType[index + 1] : sameType[index - 1];
+      if (index === -1 || !partner) return null;
+      return [first, { contract: partner, side: side === 'buy' ? 'sell' : 'buy', ratioQty: 1 }];
+    }
+    case 'straddle': {
+      const partner = contracts.find(c =>
+        c.type !== contract.type
+        && c.strikePrice === contract.strikePrice
+        && c.expirationDate === contract.expirationDate
+      );
+      if (!partner) return null;
+      // Calls first, the way straddles are usually written
+      const legs = [first, { contract: partner, side, ratioQty: 1 }];
+      return contract.type === 'call' ? legs : legs.reverse();
+    }
+    default:
+      return null;
+  }
+};
+
+// Closing when the order reduces a held position in the contract, opening otherwise
+export const getPositionIntent = (symbol: string, side: OrderSide, positions: Position[] = []): OptionPositionIntent => {
+  const position = positions.find(p => p.symbol === symbol);
+  const qty = position ? Math.abs(parseFloat(position.qty) || 0) * (position.side === 'short' ? -1 : 1) : 0;
+  if (side === 'buy') return qty < 0 ? 'buy_to_close' : 'buy_to_open';
+  return qty > 0 ? 'sell_to_close' : 'sell_to_open';
+};
+
+/**
+ * Limit order for the ticket's legs. One leg is a plain order for the contract; more
+ * become an `mleg` order on the underlying, priced as a net debit (buy) or credit (sell).
+ * `limitPrice` is the unsigned per-share price, net for multi-leg orders.
+ */
+export const buildOptionOrder = (
+  legs: OptionTicketLeg[],
+  { qty, limitPrice, positions }: { qty: string; limitPrice: string; positions?: Position[] }
+): OrderFormData => {
+  const base = { type: 'limit' as const, qty, limitPrice, timeInForce: 'day' as const, extendedHours: false };
+
+  if (legs.length === 1) {
+    const [{ contract, side }] = legs;
+    return {
+      ...base,
+      symbol: contract.symbol,
+      side,
+      orderClass: 'simple',
+      positionIntent: getPositionIntent(contract.symbol, side, positions),
+    };
+  }
+
+  const net = getNetPrice(legs) ?? 0;
+  return {
+    ...base,
+    symbol: legs[0].contract.underlyingSymbol,
+    side: net >= 0 ? 'buy' : 'sell',
+    orderClass: 'mleg',
+    legs: legs.map(({ contract, side, ratioQty }) => ({
+      symbol: contract.symbol,
+      side,
+      ratioQty: String(ratioQty),
+      positionIntent: getPositionIntent(contract.symbol, side, positions),
+    })),
+  };
+};
@@ -0,0 +1,397 @@
+import type {
+  Order,
+  OrderClass,
+  OrderFormData,
+  OrderReplaceRequest,
+  OrderSide,
+  OrderStatus,
+  OrderTimeInForce,
+  OrderType,
+} from '../types';
+import { getContractMultiplier, isOptionSymbol } from './optionHelpers';
+
+export interface OrderLeg {
+  role: 'entry' | 'take_profit' | 'stop_loss';
+  side: OrderSide;
+  type: OrderType;
+  limitPrice?: string;
+  stopPrice?: string;
+  trailPrice?: string;
+  trailPercent?: string;
+}
+
+export const ORDER_CLASS_LABELS: Record<OrderClass, string> = {
+  simple: 'Single Order',
+  bracket: 'Bracket (Entry + Take Profit + Stop Loss)',
+  oco: 'OCO (One Cancels Other)',
+  oto: 'OTO (One Triggers Other)',
+  mleg: 'Multi-Leg Options',
+};
+
+// Classes the stock tickets offer; multi-leg orders are built on the options chain
+export const STOCK_ORDER_CLASSES: OrderClass[] = ['simple', 'bracket', 'oco', 'oto'];
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market Order',
+  limit: 'Limit Order',
+  stop: 'Stop Loss',
+  stop_limit: 'Stop Limit',
+  trailing_stop: 'Trailing Stop',
+};
+
+// Entry order types each class accepts; an OCO's parent is its take-profit limit
+const ENTRY_TYPES: Record<OrderClass, OrderType[]> = {
+  simple: ['market', 'limit', 'stop', 'stop_limit', 'trailing_stop'],
+  bracket: ['market', 'limit'],
+  oco: ['limit'],
+  oto: ['market', 'limit', 'stop', 'stop_limit'],
+  mleg: ['market', 'limit'],
+};
+
+// Option orders are day orders for whole contracts, at market or a limit
+const OPTION_ORDER_TYPES: OrderType[] = ['market', 'limit'];
+const MAX_OPTION_LEGS = 4;
+
+// Multi-leg and trailing orders stay working across sessions, so only day and gtc make sense
+const ADVANCED_TIME_IN_FORCE: OrderTimeInForce[] = ['day', 'gtc'];
+
+// Orders that are still live at the broker and can be replaced or cancelled
+export const WORKING_ORDER_STATUSES: OrderStatus[] = ['new', 'partially_filled', 'accepted', 'pending_new', 'held'];
+
+export const isWorkingOrder = (order: Pick<Order, 'status'>): boolean => WORKING_ORDER_STATUSES.includes(order.status);
+
+// Editable fields of a working order, as entered in an inline edit form
+export interface OrderReplaceDraft {
+  qty: string;
+  limitPrice: string;
+  stopPrice: string;
+  timeInForce: OrderTimeInForce;
+}
+
+type ReplaceableOrder = Pick<Order, 'type' | 'qty' | 'filledQty' | 'limitPrice' | 'stopPrice' | 'timeInForce'>;
+
+export const getEntryTypesForClass = (orderClass: OrderClass = 'simple'): OrderType[] => ENTRY_TYPES[orderClass];
+
+const oppositeSide = (side: OrderSide): OrderSide => side === 'buy' ? 'sell' : 'buy';
+
+const toNumber = (value?: string): number => value ? parseFloat(value) : NaN;
+
+const isPositive = (value?: string): boolean => toNumber(value) > 0;
+
+/**
+ * Switch the order class, keeping the entry type valid and adding or dropping exit legs.
+ */
+export const applyOrderClass = (order: OrderFormData, orderClass: OrderClass): OrderFormData => {
+  const entryTypes = ENTRY_TYPES[orderClass];
+  const type = entryTypes.includes(order.type) ? order.type : entryTypes[0];
+  const takeProfit = order.takeProfit ?? { limitPrice: '' };
+  const stopLoss = order.stopLoss ?? { stopPrice: '' };
+
+  return applyOrderType({
+    ...order,
+    orderClass,
+    takeProfit: orderClass === 'simple' ? undefined : takeProfit,
+    stopLoss: orderClass === 'bracket' || orderClass === 'oco' ? stopLoss : undefined,
+    timeInForce: orderClass === 'simple' || ADVANCED_TIME_IN_FORCE.includes(order.timeInForce)
+      ? order.timeInForce
+      : 'day',
+  }, type);
+};
+
+export const applyOrderType = (order: OrderFormData, type: OrderType): OrderFormData => {
+  if (type !== 'trailing_stop') {
+    return { ...order, type, trailPrice: undefined, trailPercent: undefined };
+  }
+
+  const hasTrail = order.trailPrice !== undefined || order.trailPercent !== undefined;
+  return {
+    ...order,
+    type,
+    trailPrice: hasTrail ? order.trailPrice : '',
+    timeInForce: ADVANCED_TIME_IN_FORCE.includes(order.timeInForce) ? order.timeInForce : 'day',
+  };
+};
+
+/**
+ * Price the entry is expected to fill at, used for order value and leg validation.
+ * Falls back to the market price for market and trailing orders.
+ */
+export const getEntryPrice = (order: OrderFormData, marketPrice?: number): number => {
+  switch (order.type) {
+    case 'limit':
+    case 'stop_limit':
+      return toNumber(order.limitPrice) || 0;
+    case 'stop':
+      return toNumber(order.stopPrice) || 0;
+    default:
+      return marketPrice ?? 0;
+  }
+};
+
+/**
+ * Break an order into the legs the broker will create, in execution order.
+ */
+export const getOrderLegs = (order: OrderFormData): OrderLeg[] => {
+  const orderClass = order.orderClass ?? 'simple';
+  const exitSide = orderClass === 'oco' ? order.side : oppositeSide(order.side);
+  const legs: OrderLeg[] = [];
+
+  if (orderClass !== 'oco') {
+    legs.push({
+      role: 'entry',
+      side: order.side,
+      type: order.type,
+      limitPrice: order.type === 'limit' || order.type === 'stop_limit' ? order.limitPrice : undefined,
+      stopPrice: order.type === 'stop' || order.type === 'stop_limit' ? order.stopPrice : undefined,
+      trailPrice: order.type === 'trailing_stop' ? order.trailPrice : undefined,
+      trailPercent: order.type === 'trailing_stop' ? order.trailPercent : undefined,
+    });
+  }
+
+  if (orderClass !== 'simple' && order.takeProfit) {
+    legs.push({ role: 'take_profit', side: exitSide, type: 'limit', limitPrice: order.takeProfit.limitPrice });
+  }
+
+  if (orderClass !== 'simple' && order.stopLoss) {
+    legs.push({
+      role: 'stop_loss',
+      side: exitSide,
+      type: order.stopLoss.limitPrice ? 'stop_limit' : 'stop',
+      stopPrice: order.stopLoss.stopPrice,
+      limitPrice: order.stopLoss.limitPrice || undefined,
+    });
+  }
+
+  return legs;
+};
+
+export const describeOrderLeg = (leg: OrderLeg): string => {
+  switch (leg.type) {
+    case 'market':
+      return 'Market - execute immediately at current market price';
+    case 'limit':
+      return `Limit - execute at $${leg.limitPrice} or better`;
+    case 'stop':
+      return `Stop - trigger market order when price reaches $${leg.stopPrice}`;
+    case 'stop_limit':
+      return `Stop Limit - trigger limit order at $${leg.limitPrice} when price reaches $${leg.stopPrice}`;
+    case 'trailing_stop':
+      return leg.trailPercent !== undefined
+        ? `Trailing Stop - trigger market order ${leg.trailPercent}% from the best price`
+        : `Trailing Stop - trigger market order $${leg.trailPrice} from the best price`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Check an order before preview. Returns user-facing messages; empty when the order is valid.
+ * `marketPrice` enables the checks that compare exit levels with the entry price.
+ */
+export const validateOrder = (order: OrderFormData, marketPrice?: number): string[] => {
+  const errors: string[] = [];
+  const orderClass = order.orderClass ?? 'simple';
+
+  if (!isPositive(order.qty)) {
+    errors.push('Enter a quantity greater than 0');
+  }
+
+  if (!ENTRY_TYPES[orderClass].includes(order.type)) {
+    errors.push(`${ORDER_TYPE_LABELS[order.type]} can't be used in a ${orderClass.toUpperCase()} order`);
+  }
+
+  if ((order.type === 'limit' || order.type === 'stop_limit') && orderClass !== 'oco' && !isPositive(order.limitPrice)) {
+    errors.push('Enter a limit price greater than 0');
+  }
+
+  if ((order.type === 'stop' || order.type === 'stop_limit') && !isPositive(order.stopPrice)) {
+    errors.push('Enter a stop price greater than 0');
+  }
+
+  if (order.type === 'trailing_stop') {
+    const hasPrice = order.trailPrice !== undefined && order.trailPrice !== '';
+    const hasPercent = order.trailPercent !== undefined && order.trailPercent !== '';
+    if (hasPrice === hasPercent) {
+      errors.push('Enter either a trail amount or a trail percent');
+    } else if (hasPrice && !isPositive(order.trailPrice)) {
+      errors.push('Enter a trail amount greater than 0');
+    } else if (hasPercent && !(toNumber(order.trailPercent) > 0 && toNumber(order.trailPercent) < 100)) {
+      errors.push('Enter a trail percent between 0 and 100');
+    }
+  }
+
+  if ((orderClass !== 'simple' || order.type === 'trailing_stop') && !ADVANCED_TIME_IN_FORCE.includes(order.timeInForce)) {
+    errors.push('Advanced orders must be Day or Good Till Canceled');
+  }
+
+  if (getContractMultiplier(order) > 1) {
+    if (isPositive(order.qty) && !Number.isInteger(toNumber(order.qty))) {
+      errors.push('Options trade in whole contracts');
+    }
+    if (!OPTION_ORDER_TYPES.includes(order.type)) {
+      errors.push('Options orders must be market or limit orders');
+    }
+    if (order.timeInForce !== 'day') {
+      errors.push('Options orders must be Day orders');
+    }
+    if (order.extendedHours) {
+      errors.push("Options don't trade in extended hours");
+    }
+  }
+
+  if (orderClass === 'mleg') {
+    const legs = order.legs ?? [];
+    if (legs.length < 2 || legs.length > MAX_OPTION_LEGS) {
+      errors.push(`A multi-leg order needs 2 to ${MAX_OPTION_LEGS} legs`);
+    }
+    if (legs.some(leg => !isOptionSymbol(leg.symbol))) {
+      errors.push('Every leg must be an option contract');
+    }
+    if (new Set(legs.map(leg => leg.symbol)).size !== legs.length) {
+      errors.push('Each leg must be a different contract');
+    }
+    if (legs.some(leg => !(Number.isInteger(toNumber(leg.ratioQty)) && toNumber(leg.ratioQty) > 0))) {
+      errors.push('Leg ratios must be whole numbers greater than 0');
+    }
+    return errors;
+  }
+
+  if (orderClass === 'simple') {
+    return errors;
+  }
+
+  if (orderClass === 'oto' && !!order.takeProfit === !!order.stopLoss) {
+    errors.push('An OTO order needs exactly one take-profit or stop-loss leg');
+  }
+
+  if ((orderClass === 'bracket' || orderClass === 'oco') && (!order.takeProfit || !order.stopLoss)) {
+    errors.push(`A ${orderClass.toUpperCase()} order needs both take-profit and stop-loss legs`);
+  }
+
+  const takeProfit = toNumber(order.takeProfit?.limitPrice);
+  const stopPrice = toNumber(order.stopLoss?.stopPrice);
+  const stopLimit = toNumber(order.stopLoss?.limitPrice);
+
+  if (order.takeProfit && !(takeProfit > 0)) {
+    errors.push('Enter a take-profit price greater than 0');
+  }
+  if (order.stopLoss && !(stopPrice > 0)) {
+    errors.push('Enter a stop-loss price greater than 0');
+  }
+  if (order.stopLoss?.limitPrice && !(stopLimit > 0)) {
+    errors.push('Enter a stop-loss limit price greater than 0');
+  }
+
+  // Exits close a long when they sell and a short when they buy
+  const exitSide = orderClass === 'oco' ? order.side : oppositeSide(order.side);
+  const closesLong = exitSide === 'sell';
+  const reference = orderClass === 'oco' ? marketPrice : getEntryPrice(order, marketPrice) || undefined;
+
+  if (reference !== undefined && reference > 0) {
+    if (takeProfit > 0 && (closesLong ? takeProfit <= reference : takeProfit >= reference)) {
+      errors.push(`Take-profit must be ${closesLong ? 'above' : 'below'} the ${orderClass === 'oco' ? 'current' : 'entry'} price`);
+    }
+    if (stopPrice > 0 && (closesLong ? stopPrice >= reference : stopPrice <= reference)) {
+      errors.push(`Stop-loss must be ${closesLong ? 'below' : 'above'} the ${orderClass === 'oco' ? 'current' : 'entry'} price`);
+    }
+  } else if (takeProfit > 0 && stopPrice > 0 && (closesLong ? takeProfit <= stopPrice : takeProfit >= stopPrice)) {
+    errors.push(`Take-profit must be ${closesLong ? 'above' : 'below'} the stop-loss`);
+  }
+
+  if (stopLimit > 0 && stopPrice > 0 && (closesLong ? stopLimit > stopPrice : stopLimit < stopPrice)) {
+    errors.push(`Stop-loss limit must be at or ${closesLong ? 'below' : 'above'} the stop price`);
+  }
+
+  return errors;
+};
+
+/**
+ * Order payload with only the fields the chosen class and type use.
+ */
+export const buildOrderRequest = (order: OrderFormData): OrderFormData => {
+  const orderClass = order.orderClass ?? 'simple';
+  const usesLimit = orderClass !== 'oco' && (order.type === 'limit' || order.type === 'stop_limit');
+  const usesStop = order.type === 'stop' || order.type === 'stop_limit';
+  const isTrailing = order.type === 'trailing_stop';
+  const hasExits = orderClass !== 'simple' && orderClass !== 'mleg';
+
+  return {
+    symbol: order.symbol,
+    side: order.side,
+    type: order.type,
+    qty: order.qty,
+    notional: order.notional,
+    timeInForce: order.timeInForce,
+    extendedHours: order.extendedHours,
+    orderClass,
+    limitPrice: usesLimit ? order.limitPrice : undefined,
+    stopPrice: usesStop ? order.stopPrice : undefined,
+    trailPrice: isTrailing && order.trailPrice ? order.trailPrice : undefined,
+    trailPercent: isTrailing && order.trailPercent ? order.trailPercent : undefined,
+    takeProfit: hasExits ? order.takeProfit : undefined,
+    stopLoss: hasExits && order.stopLoss
+      ? { stopPrice: order.stopLoss.stopPrice, limitPrice: order.stopLoss.limitPrice || undefined }
+      : undefined,
+    positionIntent: order.positionIntent,
+    legs: orderClass === 'mleg' ? order.legs : undefined,
+  };
+};
+
+export const usesLimitPrice = (type: OrderType): boolean => type === 'limit' || type === 'stop_limit';
+
+export const usesStopPrice = (type: OrderType): boolean => type === 'stop' || type === 'stop_limit';
+
+export const getReplaceDraft = (order: ReplaceableOrder): OrderReplaceDraft => ({
+  qty: order.qty ?? '',
+  limitPrice: order.limitPrice ?? '',
+  stopPrice: order.stopPrice ?? '',
+  timeInForce: order.timeInForce,
+});
+
+/**
+ * Replace request with only the fields the draft changes. Empty when nothing changed.
+ */
+export const getReplaceChanges = (order: ReplaceableOrder, draft: OrderReplaceDraft): OrderReplaceRequest => {
+  const changes: OrderReplaceRequest = {};
+  const changed = (value: string, current?: string) => toNumber(value) !== toNumber(current);
+
+  if (changed(draft.qty, order.qty)) {
+    changes.qty = draft.qty;
+  }
+  if (usesLimitPrice(order.type) && changed(draft.limitPrice, order.limitPrice)) {
+    changes.limitPrice = draft.limitPrice;
+  }
+  if (usesStopPrice(order.type) && changed(draft.stopPrice, order.stopPrice)) {
+    changes.stopPrice = draft.stopPrice;
+  }
+  if (draft.timeInForce !== order.timeInForce) {
+    changes.timeInForce = draft.timeInForce;
+  }
+
+  return changes;
+};
+
+/**
+ * Check an inline edit before sending the replace. Returns user-facing messages; empty when valid.
+ */
+export const validateReplace = (order: ReplaceableOrder, draft: OrderReplaceDraft): string[] => {
+  const errors: string[] = [];
+  const filledQty = toNumber(order.filledQty) || 0;
+
+  if (!isPositive(draft.qty)) {
+    errors.push('Enter a quantity greater than 0');
+  } else if (toNumber(draft.qty) <= filledQty) {
+    errors.push(`Quantity must be more than the ${filledQty} already filled`);
+  }
+  if (usesLimitPrice(order.type) && !isPositive(draft.limitPrice)) {
+    errors.push('Enter a limit price greater than 0');
+  }
+  if (usesStopPrice(order.type) && !isPositive(draft.stopPrice)) {
+    errors.push('Enter a stop price greater than 0');
+  }
+  if (errors.length === 0 && Object.keys(getReplaceChanges(order, draft)).length === 0) {
+    errors.push('Nothing to change');
+  }
+
+  return errors;
+};
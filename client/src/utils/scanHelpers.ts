@@ -0,0 +1,224 @@
+import type { Asset, IndicatorSettings, Scan, ScanField, ScanRule, ScanUniverse, Watchlist } from '../types';
+import type { Quote } from '../store/marketDataStore';
+import { indicatorRegistry, type OHLCData } from '../components/TradingChart/indicators';
+import { applyTicks, getTradingSession, isInSession } from '../components/TradingChart/services/BarAggregator';
+import { getPercentChange } from '../services/alertEngine';
+
+// One scanned symbol, with everything the rules can look at
+export interface ScanRow {
+  symbol: string;
+  name?: string;
+  price?: number;
+  changePercent?: number;
+  volume?: number;
+  avgVolume?: number;
+  relativeVolume?: number;
+  marketCap?: number;
+  indicators: Record<string, number | null>; // keyed by `getIndicatorKey`
+}
+
+// Reference data loaded per symbol and refreshed every few minutes; quotes arrive live
+export interface ScanSnapshot {
+  asset?: Asset;
+  bars: OHLCData[]; // daily bars
+}
+
+// Liquid large caps scanned when the user doesn't pick their watchlists
+export const POPULAR_SYMBOLS = [
+  'AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA', 'META', 'TSLA', 'AMD', 'AVGO', 'ORCL',
+  'NFLX', 'ADBE', 'CRM', 'INTC', 'QCOM', 'CSCO', 'IBM', 'PYPL', 'UBER', 'SHOP',
+  'JPM', 'BAC', 'WFC', 'GS', 'MS', 'V', 'MA', 'XOM', 'CVX', 'COP',
+  'JNJ', 'PFE', 'MRK', 'ABBV', 'LLY', 'UNH', 'WMT', 'COST', 'HD', 'NKE',
+  'DIS', 'KO', 'PEP', 'MCD', 'BA', 'CAT', 'GE', 'F', 'GM', 'PLTR',
+];
+
+export const SCAN_UNIVERSE_LABELS: Record<ScanUniverse, string> = {
+  popular: 'Popular stocks',
+  watchlists: 'My watchlists',
+};
+
+export const SCAN_FIELD_LABELS: Record<ScanField, string> = {
+  price: 'Price',
+  changePercent: '% Change',
+  volume: 'Volume',
+  relativeVolume: 'Relative volume',
+  marketCap: 'Market cap',
+  indicator: 'Indicator',
+};
+
+// Days of completed sessions relative volume is measured against
+const AVERAGE_VOLUME_DAYS = 20;
+
+const DEFAULT_RULE_VALUES: Record<Exclude<ScanField, 'indicator'>, number> = {
+  price: 10,
+  changePercent: 3,
+  volume: 1000000,
+  relativeVolume: 2,
+  marketCap: 10e9,
+};
+
+/**
+ * Starting point for a rule on one of the chart's indicators: its default period, if it
+ * has one, compared against its oversold level (oscillators) or 0. Rules compare the
+ * indicator's first line.
+ */
+export const getIndicatorRuleDefaults = (indicatorId: string): Pick<ScanRule, 'indicator' | 'value'> => {
+  const defaults = indicatorRegistry.getIndicator(indicatorId)?.defaultParameters ?? {};
+  return {
+    indicator: {
+      indicator: indicatorId,
+      parameters: typeof defaults.period === 'number' ? { period: defaults.period } : {},
+    },
+    value: typeof defaults.oversold === 'number' ? defaults.oversold : 0,
+  };
+};
+
+export const createScanRule = (field: ScanField): ScanRule => {
+  const id = `rule-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  if (field === 'indicator') {
+    return { id, field, operator: 'below', ...getIndicatorRuleDefaults('rsi') };
+  }
+  return { id, field, operator: 'above', value: DEFAULT_RULE_VALUES[field] };
+};
+
+export const createEmptyScan = (): Omit<Scan, 'id' | 'createdAt' | 'updatedAt'> => ({
+  name: '',
+  universe: 'popular',
+  match: 'all',
+  rules: [createScanRule('changePercent')],
+});
+
+export const getUniverseSymbols = (universe: ScanUniverse, watchlists: Watchlist[] = []): string[] => {
+  if (universe === 'watchlists') {
+    return Array.from(new Set(watchlists.flatMap(list => list.items.map(symbol => symbol.toUpperCase())))).sort();
+  }
+  return POPULAR_SYMBOLS;
+};
+
+// Identifies an indicator configuration, so rules sharing one are only calculated once
+export const getIndicatorKey = (config: IndicatorSettings): string => {
+  const params = Object.entries(config.parameters).sort(([a], [b]) => a.localeCompare(b));
+  return `${config.indicator}:${JSON.stringify(params)}`;
+};
+
+export const getIndicatorLabel = (config: IndicatorSettings): string => indicatorRegistry.describe(config);
+
+export const getRuleValue = (rule: ScanRule, row: ScanRow): number | null | undefined => {
+  if (rule.field === 'indicator') {
+    return rule.indicator ? row.indicators[getIndicatorKey(rule.indicator)] : undefined;
+  }
+  return row[rule.field];
+};
+
+// Rules fail on missing data, so a symbol that hasn't loaded yet never matches by accident
+export const evaluateRule = (rule: ScanRule, row: ScanRow): boolean => {
+  const value = getRuleValue(rule, row);
+  if (value === null || value === undefined || !Number.isFinite(value)) return false;
+
+  switch (rule.operator) {
+    case 'above':
+      return value > rule.value;
+    case 'below':
+      return value < rule.value;
+    case 'between':
+      return value >= rule.value && value <= (rule.maxValue ?? Infinity);
+    default:
+      return false;
+  }
+};
+
+export const matchesScan = (scan: Pick<Scan, 'match' | 'rules'>, row: ScanRow): boolean => {
+  if (scan.rules.length === 0) return true;
+  return scan.match === 'any'
+    ? scan.rules.some(rule => evaluateRule(rule, row))
+    : scan.rules.every(rule => evaluateRule(rule, row));
+};
+
+export const formatCompactNumber = (value: number): string =>
+  new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+export const describeRule = (rule: ScanRule): string => {
+  const subject = rule.field === 'indicator' && rule.indicator
+    ? getIndicatorLabel(rule.indicator)
+    : SCAN_FIELD_LABELS[rule.field];
+  const format = (value: number) => {
+    switch (rule.field) {
+      case 'changePercent':
+        return `${value}%`;
+      case 'relativeVolume':
+        return `${value}x`;
+      case 'marketCap':
+        return `$${formatCompactNumber(value)}`;
+      case 'volume':
+        return formatCompactNumber(value);
+      case 'price':
+        return `$${value}`;
+      default:
+        return String(value);
+    }
+  };
+
+  if (rule.operator === 'between') {
+    return `${subject} between ${format(rule.value)} and ${format(rule.maxValue ?? rule.value)}`;
+  }
+  return `${subject} ${rule.operator} ${format(rule.value)}`;
+};
+
+// Mean volume of the completed sessions before the latest bar
+export const getAverageVolume = (bars: OHLCData[], days = AVERAGE_VOLUME_DAYS): number | undefined => {
+  const completed = bars.slice(Math.max(0, bars.length - 1 - days), -1);
+  if (completed.length === 0) return undefined;
+  return completed.reduce((sum, bar) => sum + bar.volume, 0) / completed.length;
+};
+
+/**
+ * Combine a symbol's reference data and latest quote into a scan row, calculating the
+ * indicators the scan's rules ask for on daily bars extended with the live price.
+ */
+export const buildScanRow = (
+  symbol: string,
+  snapshot: ScanSnapshot | undefined,
+  quote: Quote | undefined,
+  indicatorConfigs: IndicatorSettings[]
+): ScanRow => {
+  let bars = snapshot?.bars ?? [];
+  if (quote && bars.length > 0) {
+    const timestamp = quote.timestamp instanceof Date ? quote.timestamp : new Date(quote.timestamp);
+    if (isInSession(timestamp, getTradingSession(timestamp))) {
+      bars = applyTicks(bars, [{ price: quote.price, timestamp, volume: 0 }], '1d');
+    }
+  }
+
+  const lastBar = bars[bars.length - 1];
+  const asset = snapshot?.asset;
+  const volume = quote?.volume || asset?.volume || lastBar?.volume;
+  const avgVolume = getAverageVolume(snapshot?.bars ?? []);
+
+  const indicators: Record<string, number | null> = {};
+  indicatorConfigs.forEach(config => {
+    const key = getIndicatorKey(config);
+    if (bars.length === 0) {
+      indicators[key] = null;
+      return;
+    }
+    try {
+      const points = indicatorRegistry.calculate(config, bars).datasets[0]?.data ?? [];
+      indicators[key] = points[points.length - 1]?.y ?? null;
+    } catch {
+      // Unknown indicator or parameters it rejects
+      indicators[key] = null;
+    }
+  });
+
+  return {
+    symbol,
+    name: asset?.name,
+    price: quote?.price ?? asset?.price ?? lastBar?.close,
+    changePercent: quote ? getPercentChange(quote) : asset?.changePercent,
+    volume,
+    avgVolume,
+    relativeVolume: volume !== undefined && avgVolume ? volume / avgVolume : undefined,
+    marketCap: asset?.marketCap,
+    indicators,
+  };
+};
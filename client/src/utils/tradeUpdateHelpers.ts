@@ -0,0 +1,131 @@
+import type { Account, Order, Position } from '../types';
+import type { TradeUpdate } from '../services/tradeUpdatesService';
+import type { ToastVariant } from '../store/toastStore';
+import { isWorkingOrder } from './orderHelpers';
+import { getContractMultiplier } from './optionHelpers';
+
+const toNumber = (value?: string): number => parseFloat(value || '0') || 0;
+
+const formatPrice = (value: number): string => `$${value.toFixed(2)}`;
+
+// Events that move shares and cash; everything else only changes the order
+export const isFillEvent = (update: TradeUpdate): boolean =>
+  update.event === 'fill' || update.event === 'partial_fill';
+
+/**
+ * Put the updated order into a cached `useOrders(status)` list: replaces it where it
+ * is (top-level or as a leg), adds new orders at the top, and drops orders that no
+ * longer match the list's status filter.
+ */
+export const upsertOrder = (orders: Order[], order: Order, status?: string): Order[] => {
+  const matches = status === 'open' ? isWorkingOrder(order) : status === 'closed' ? !isWorkingOrder(order) : true;
+  let found = false;
+
+  const next = orders.flatMap(existing => {
+    if (existing.id === order.id) {
+      found = true;
+      // Stream payloads can omit legs; keep the ones we have
+      return matches ? [{ ...order, legs: order.legs ?? existing.legs }] : [];
+    }
+    if (existing.legs?.some(leg => leg.id === order.id)) {
+      found = true;
+      return [{ ...existing, legs: existing.legs.map(leg => leg.id === order.id ? order : leg) }];
+    }
+    return [existing];
+  });
+
+  return found || !matches ? next : [order, ...next];
+};
+
+/**
+ * Apply an execution to the cached positions. The backend refetch that follows fills
+ * in cost basis and P&L; this only makes the new size show up immediately.
+ */
+export const applyFillToPositions = (positions: Position[], update: TradeUpdate): Position[] => {
+  if (!isFillEvent(update) || update.price === undefined) return positions;
+  // A multi-leg fill is reported on the parent; each leg's position comes with the refetch
+  if (update.order.orderClass === 'mleg') return positions;
+
+  const { symbol, side } = update.order;
+  const existing = positions.find(position => position.symbol === symbol);
+  const signedFill = (update.qty ?? 0) * (side === 'buy' ? 1 : -1);
+  const previousQty = existing ? toNumber(existing.qty) * (existing.side === 'short' ? -1 : 1) : 0;
+  const qty = update.positionQty ?? previousQty + signedFill;
+
+  if (qty === 0) {
+    return positions.filter(position => position.symbol !== symbol);
+  }
+
+  const price = update.price;
+  const marketValue = qty * price * getContractMultiplier(update.order);
+
+  if (!existing) {
+    return [...positions, {
+      assetId: update.order.assetId,
+      symbol,
+      exchange: '',
+      assetClass: update.order.assetClass,
+      avgEntryPrice: price.toFixed(2),
+      qty: String(qty),
+      side: qty < 0 ? 'short' : 'long',
+      marketValue: marketValue.toFixed(2),
+      costBasis: marketValue.toFixed(2),
+      unrealizedPl: '0',
+      unrealizedPlpc: '0',
+      currentPrice: price.toFixed(2),
+    }];
+  }
+
+  return positions.map(position => position.symbol === symbol
+    ? {
+        ...position,
+        qty: String(qty),
+        side: qty < 0 ? 'short' : 'long',
+        marketValue: marketValue.toFixed(2),
+        currentPrice: price.toFixed(2),
+      }
+    : position);
+};
+
+// Buys spend cash and sells raise it; buying power and equity come with the refetch
+export const applyFillToAccount = (account: Account, update: TradeUpdate): Account => {
+  if (!isFillEvent(update) || update.price === undefined || update.qty === undefined) return account;
+
+  // Multi-leg fills are priced net: a debit buys and a credit sells
+  const notional = update.price * update.qty * getContractMultiplier(update.order);
+  const cash = toNumber(account.cash) + (update.order.side === 'buy' ? -notional : notional);
+  return { ...account, cash: cash.toFixed(2) };
+};
+
+/**
+ * Toast for events the trader should hear about; null for the rest.
+ */
+export const describeTradeUpdate = (
+  update: TradeUpdate
+): { title: string; message: string; variant: ToastVariant } | null => {
+  const { order } = update;
+  const action = order.side === 'buy' ? 'Bought' : 'Sold';
+
+  switch (update.event) {
+    case 'fill':
+      return {
+        title: `${order.symbol} order filled`,
+        message: `${action} ${order.filledQty ?? update.qty} ${order.symbol} @ ${formatPrice(toNumber(order.filledAvgPrice) || update.price || 0)}`,
+        variant: 'success',
+      };
+    case 'partial_fill':
+      return {
+        title: `${order.symbol} order partially filled`,
+        message: `${action} ${update.qty ?? ''} @ ${formatPrice(update.price ?? 0)} (${order.filledQty} of ${order.qty})`,
+        variant: 'info',
+      };
+    case 'rejected':
+      return {
+        title: `${order.symbol} order rejected`,
+        message: `${order.side.toUpperCase()} ${order.qty ?? ''} ${order.symbol} was rejected by the broker`,
+        variant: 'error',
+      };
+    default:
+      return null;
+  }
+};